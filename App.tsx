@@ -4,6 +4,7 @@ import { AuthProvider } from './contexts/AuthContext';
 import ProtectedRoute from './components/navigation/ProtectedRoute';
 import AdminRoute from './components/navigation/AdminRoute';
 import UserRoute from './components/navigation/UserRoute';
+import ConductorRoute from './components/navigation/ConductorRoute';
 
 import { Header } from './components/Header';
 import { HomePage } from './pages/HomePage';
@@ -17,6 +18,7 @@ import { NotFoundPage } from './pages/NotFoundPage';
 import { AdminLayout } from './pages/admin/AdminLayout';
 import { UserLayout } from './components/navigation/UserLayout';
 import { PassCardPage } from './pages/PassCardPage';
+import { ConductorPage } from './pages/ConductorPage';
 import { AdminDashboardPage } from './pages/admin/AdminDashboardPage';
 import { AdminSettingsPage } from './pages/admin/SettingsPage';
 import { AdminUserManagementPage } from './pages/admin/UserManagementPage';
@@ -24,6 +26,8 @@ import { RevenueAnalyticsPage } from './pages/admin/RevenueAnalyticsPage';
 import { UploadSchedulesPage } from './pages/admin/UploadSchedulesPage';
 import { ManageSchedulesPage } from './hooks/ManageSchedulesPage';
 import { BulkUserUploadPage } from './pages/admin/BulkUserUploadPage';
+import { FleetPage } from './pages/admin/FleetPage';
+import { SeatLayoutsPage } from './pages/admin/SeatLayoutsPage';
 
 
 const App: React.FC = () => {
@@ -51,6 +55,9 @@ const App: React.FC = () => {
               {/* Accessible to all authenticated users */}
               <Route path="/profile" element={<ProtectedRoute><ProfilePage /></ProtectedRoute>} />
 
+              {/* Conductor Routes */}
+              <Route path="/conductor" element={<ConductorRoute><ConductorPage /></ConductorRoute>} />
+
               {/* Protected Admin Routes */}
               <Route path="/admin" element={<AdminRoute><AdminLayout /></AdminRoute>}>
                 <Route index element={<AdminDashboardPage />} />
@@ -60,6 +67,8 @@ const App: React.FC = () => {
                 <Route path="schedules" element={<UploadSchedulesPage />} />
                 <Route path="manage-schedules" element={<ManageSchedulesPage />} />
                 <Route path="bulk-users" element={<BulkUserUploadPage />} />
+                <Route path="fleet" element={<FleetPage />} />
+                <Route path="seat-layouts" element={<SeatLayoutsPage />} />
               </Route>
 
               {/* Not Found Route */}
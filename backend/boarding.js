@@ -0,0 +1,272 @@
+const { TICKETED_STATUSES } = require('./tickets');
+
+/**
+ * Boarding. Admins assign conductors to trips (a schedule on a journey date); the conductor works
+ * through the trip's manifest, checks the signed QR code on each ticket and marks every booked
+ * seat BOARDED or NO_SHOW. Passengers see the outcome on their bookings.
+ */
+
+const BOARDING_STATUSES = ['BOARDED', 'NO_SHOW'];
+const MAX_ASSIGNMENTS = 60; // Upcoming trips a conductor can be rostered on at once
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const compareSeats = (a, b) => a.localeCompare(b, undefined, { numeric: true });
+
+const parsePassengers = (value) => (typeof value === 'string' ? JSON.parse(value) : value) || [];
+
+/**
+ * Checks the trips an admin rosters a conductor on. Only trips from `today` on can be given;
+ * earlier ones stay as they were.
+ * @param {Array<{scheduleId: string, journeyDate: string}>} assignments
+ * @returns {string|null} What is wrong with them, or null if they are valid.
+ */
+const validateAssignments = (assignments, today) => {
+    if (!Array.isArray(assignments)) {
+        return 'Assignments must be a list of trips.';
+    }
+    if (assignments.length > MAX_ASSIGNMENTS) {
+        return `A conductor can be assigned at most ${MAX_ASSIGNMENTS} upcoming trips.`;
+    }
+    const seen = new Set();
+    for (const assignment of assignments) {
+        if (!assignment || typeof assignment.scheduleId !== 'string' || assignment.scheduleId.trim() === '') {
+            return 'Each assignment needs a schedule.';
+        }
+        if (!isValidDate(assignment.journeyDate) || assignment.journeyDate < today) {
+            return 'Each assignment needs a journey date (YYYY-MM-DD) from today onwards.';
+        }
+        const key = `${assignment.scheduleId}|${assignment.journeyDate}`;
+        if (seen.has(key)) {
+            return `${assignment.scheduleId} on ${assignment.journeyDate} is listed twice.`;
+        }
+        seen.add(key);
+    }
+    return null;
+};
+
+/**
+ * @returns {Promise<Array<{scheduleId: string, journeyDate: string}>>} The conductor's trips on or after `fromDate`, soonest first.
+ */
+const listAssignments = async (connection, conductorId, fromDate) => {
+    const [rows] = await connection.query(
+        `SELECT scheduleId, DATE_FORMAT(journeyDate, '%Y-%m-%d') AS journeyDate
+         FROM conductor_assignments
+         WHERE conductorId = ? AND journeyDate >= ?
+         ORDER BY journeyDate, scheduleId`,
+        [conductorId, fromDate]
+    );
+    return rows;
+};
+
+/**
+ * @returns {Promise<Object<string, Array<{scheduleId: string, journeyDate: string}>>>} Every conductor's trips on or after `fromDate`, keyed by conductor id.
+ */
+const listAssignmentsByConductor = async (connection, fromDate) => {
+    const [rows] = await connection.query(
+        `SELECT conductorId, scheduleId, DATE_FORMAT(journeyDate, '%Y-%m-%d') AS journeyDate
+         FROM conductor_assignments
+         WHERE journeyDate >= ?
+         ORDER BY journeyDate, scheduleId`,
+        [fromDate]
+    );
+    return rows.reduce((acc, row) => {
+        (acc[row.conductorId] = acc[row.conductorId] || []).push({ scheduleId: row.scheduleId, journeyDate: row.journeyDate });
+        return acc;
+    }, {});
+};
+
+/**
+ * Replaces a conductor's trips from `today` on. Validate them first.
+ * @returns {Promise<{error?: {status: number, message: string}}>}
+ */
+const setAssignments = async (connection, conductorId, assignments, today) => {
+    if (assignments.length > 0) {
+        const scheduleIds = [...new Set(assignments.map(assignment => assignment.scheduleId))];
+        const [scheduleRows] = await connection.query('SELECT id FROM schedules WHERE id IN (?)', [scheduleIds]);
+        const known = new Set(scheduleRows.map(row => row.id));
+        const unknown = scheduleIds.find(scheduleId => !known.has(scheduleId));
+        if (unknown) {
+            return { error: { status: 400, message: `Schedule ${unknown} does not exist.` } };
+        }
+
+        const [taken] = await connection.query(
+            `SELECT scheduleId, DATE_FORMAT(journeyDate, '%Y-%m-%d') AS journeyDate
+             FROM conductor_assignments
+             WHERE conductorId != ? AND (scheduleId, journeyDate) IN (?)`,
+            [conductorId, assignments.map(assignment => [assignment.scheduleId, assignment.journeyDate])]
+        );
+        if (taken.length > 0) {
+            const trips = taken.map(trip => `${trip.scheduleId} on ${trip.journeyDate}`).join(', ');
+            return { error: { status: 409, message: `Another conductor is already assigned to ${trips}.` } };
+        }
+    }
+
+    await connection.query('DELETE FROM conductor_assignments WHERE conductorId = ? AND journeyDate >= ?', [conductorId, today]);
+    if (assignments.length > 0) {
+        const now = new Date();
+        await connection.query(
+            'INSERT INTO conductor_assignments (conductorId, scheduleId, journeyDate, createdAt) VALUES ?',
+            [assignments.map(assignment => [conductorId, assignment.scheduleId, assignment.journeyDate, now])]
+        );
+    }
+    return {};
+};
+
+/**
+ * Puts one conductor on a trip in place of whoever had it, or takes the trip off the roster when
+ * `conductorId` is null.
+ * @returns {Promise<{error?: {status: number, message: string}}>}
+ */
+const assignTrip = async (connection, scheduleId, journeyDate, conductorId) => {
+    if (conductorId) {
+        const [[conductor]] = await connection.query("SELECT id FROM users WHERE id = ? AND role = 'CONDUCTOR'", [conductorId]);
+        if (!conductor) {
+            return { error: { status: 400, message: 'Conductor not found.' } };
+        }
+        const [[{ count }]] = await connection.query(
+            'SELECT COUNT(*) AS count FROM conductor_assignments WHERE conductorId = ? AND journeyDate >= ? AND NOT (scheduleId = ? AND journeyDate = ?)',
+            [conductorId, journeyDate, scheduleId, journeyDate]
+        );
+        if (count >= MAX_ASSIGNMENTS) {
+            return { error: { status: 409, message: `A conductor can be assigned at most ${MAX_ASSIGNMENTS} upcoming trips.` } };
+        }
+    }
+
+    await connection.query('DELETE FROM conductor_assignments WHERE scheduleId = ? AND journeyDate = ?', [scheduleId, journeyDate]);
+    if (conductorId) {
+        await connection.query(
+            'INSERT INTO conductor_assignments (conductorId, scheduleId, journeyDate, createdAt) VALUES (?, ?, ?, ?)',
+            [conductorId, scheduleId, journeyDate, new Date()]
+        );
+    }
+    return {};
+};
+
+/**
+ * @returns {Promise<boolean>} Whether the conductor works the trip.
+ */
+const isAssigned = async (connection, conductorId, scheduleId, journeyDate) => {
+    const [rows] = await connection.query(
+        'SELECT 1 FROM conductor_assignments WHERE conductorId = ? AND scheduleId = ? AND journeyDate = ?',
+        [conductorId, scheduleId, journeyDate]
+    );
+    return rows.length > 0;
+};
+
+const loadTripSeats = async (connection, scheduleId, journeyDate, bookingId = null) => {
+    const [rows] = await connection.query(
+        `SELECT b.id AS bookingId, b.origin, b.destination, b.passengerDetails, bs.seatId,
+            br.status AS boardingStatus, br.recordedAt
+         FROM bookings b
+         JOIN bookedseats bs ON bs.bookingId = b.id
+         LEFT JOIN boarding_records br ON br.bookingId = b.id AND br.seatId = bs.seatId
+         WHERE b.scheduleId = ? AND b.journeyDate = ? AND b.status IN (?) ${bookingId ? 'AND b.id = ?' : ''}`,
+        bookingId ? [scheduleId, journeyDate, TICKETED_STATUSES, bookingId] : [scheduleId, journeyDate, TICKETED_STATUSES]
+    );
+    return rows
+        .map(row => {
+            const passenger = parsePassengers(row.passengerDetails)
+                .find(p => p.seatId === row.seatId && p.status !== 'CANCELLED');
+            return {
+                bookingId: row.bookingId,
+                seatId: row.seatId,
+                passengerName: passenger ? passenger.fullName : '',
+                passengerType: passenger ? passenger.type : 'NORMAL',
+                origin: row.origin,
+                destination: row.destination,
+                boardingStatus: row.boardingStatus || null,
+                recordedAt: row.recordedAt || null,
+            };
+        })
+        .sort((a, b) => compareSeats(a.seatId, b.seatId));
+};
+
+/**
+ * Every confirmed seat on a trip, by seat number, with whether its passenger has boarded.
+ */
+const getManifest = (connection, scheduleId, journeyDate) => loadTripSeats(connection, scheduleId, journeyDate);
+
+/**
+ * Checks a scanned ticket against the trip the conductor is working.
+ * @param {object|null} claims - What the ticket's signed token says, or null if its signature did not verify.
+ * @param {{scheduleId: string, journeyDate: string}} trip
+ * @returns {Promise<{valid: boolean, reason?: string, bookingId?: string, seats?: Array<object>, cancelledSeatIds?: Array<string>}>}
+ */
+const checkTicket = async (connection, claims, trip) => {
+    if (!claims) {
+        return { valid: false, reason: 'This QR code was not issued by Government Bus or has been altered.' };
+    }
+    if (claims.scheduleId !== trip.scheduleId || claims.journeyDate !== trip.journeyDate) {
+        return { valid: false, reason: `This ticket is for bus ${claims.scheduleId} on ${claims.journeyDate}.` };
+    }
+
+    const seats = await loadTripSeats(connection, trip.scheduleId, trip.journeyDate, claims.bookingId);
+    if (seats.length === 0) {
+        return { valid: false, reason: 'This booking has been cancelled.', bookingId: claims.bookingId };
+    }
+    if (seats[0].origin !== claims.origin || seats[0].destination !== claims.destination) {
+        return { valid: false, reason: 'This booking has been changed since the ticket was issued. Ask for the latest ticket.', bookingId: claims.bookingId };
+    }
+
+    const ticketedSeats = seats.filter(seat => claims.seatIds.includes(seat.seatId));
+    const cancelledSeatIds = claims.seatIds.filter(seatId => !seats.some(seat => seat.seatId === seatId)).sort(compareSeats);
+    if (ticketedSeats.length === 0) {
+        return { valid: false, reason: 'Every seat on this ticket has been cancelled or changed.', bookingId: claims.bookingId, cancelledSeatIds };
+    }
+    return { valid: true, bookingId: claims.bookingId, seats: ticketedSeats, cancelledSeatIds };
+};
+
+/**
+ * Marks seats of one booking on a trip as boarded or a no-show. A seat can be marked again to correct it.
+ * @returns {Promise<{error?: {status: number, message: string}, seats?: Array<object>}>} The booking's seats on the manifest afterwards.
+ */
+const recordBoarding = async (connection, { scheduleId, journeyDate, bookingId, seatIds, status, conductorId }) => {
+    const seats = await loadTripSeats(connection, scheduleId, journeyDate, bookingId);
+    const missing = seatIds.find(seatId => !seats.some(seat => seat.seatId === seatId));
+    if (missing) {
+        return { error: { status: 404, message: `Seat ${missing} is not booked on this trip under booking ${bookingId}.` } };
+    }
+
+    const now = new Date();
+    await connection.query(
+        `INSERT INTO boarding_records (bookingId, seatId, status, recordedBy, recordedAt) VALUES ?
+         ON DUPLICATE KEY UPDATE status = VALUES(status), recordedBy = VALUES(recordedBy), recordedAt = VALUES(recordedAt)`,
+        [seatIds.map(seatId => [bookingId, seatId, status, conductorId, now])]
+    );
+    return { seats: await loadTripSeats(connection, scheduleId, journeyDate, bookingId) };
+};
+
+/**
+ * @returns {Promise<Object<string, Array<{seatId: string, status: string, recordedAt: Date}>>>} Boarding records keyed by booking id.
+ */
+const listBoardingForBookings = async (connection, bookingIds) => {
+    if (bookingIds.length === 0) return {};
+    const [rows] = await connection.query(
+        'SELECT bookingId, seatId, status, recordedAt FROM boarding_records WHERE bookingId IN (?) ORDER BY seatId',
+        [bookingIds]
+    );
+    return rows.reduce((acc, row) => {
+        (acc[row.bookingId] = acc[row.bookingId] || []).push({ seatId: row.seatId, status: row.status, recordedAt: row.recordedAt });
+        return acc;
+    }, {});
+};
+
+module.exports = {
+    BOARDING_STATUSES,
+    validateAssignments,
+    listAssignments,
+    listAssignmentsByConductor,
+    setAssignments,
+    assignTrip,
+    isAssigned,
+    getManifest,
+    checkTicket,
+    recordBoarding,
+    listBoardingForBookings,
+};
@@ -0,0 +1,110 @@
+/**
+ * Booking changes: moving passengers to other seats, to another date on the same schedule,
+ * or to a shorter or longer segment. Each change is kept as a before/after pair of booking
+ * states, which doubles as the booking's history.
+ */
+
+const parseState = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const toClientChange = (row) => ({
+    id: String(row.id),
+    bookingId: row.bookingId,
+    previousState: parseState(row.previousState),
+    newState: parseState(row.newState),
+    fareDifference: Number(row.fareDifference),
+    status: row.status,
+    paymentExpiresAt: row.paymentExpiresAt,
+    createdAt: row.createdAt,
+    appliedAt: row.appliedAt,
+});
+
+/**
+ * Captures the parts of a booking a change can alter. Cancelled passengers are left out;
+ * they stay on the booking untouched.
+ * @param {object} booking - A booking row.
+ * @param {string} journeyDate - The booking's 'YYYY-MM-DD' journey date.
+ */
+const snapshotBooking = (booking, journeyDate) => {
+    const passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+    return {
+        journeyDate,
+        origin: booking.origin,
+        destination: booking.destination,
+        passengers: passengerDetails
+            .filter(p => p.status !== 'CANCELLED')
+            .map(({ seatId, fullName, type, fare }) => ({ seatId, fullName, type, fare: Number(fare) })),
+    };
+};
+
+/**
+ * @returns {Promise<string>} The new change's ID.
+ */
+const recordChange = async (connection, { bookingId, userId, previousState, newState, fareDifference, status, paymentExpiresAt = null }) => {
+    const now = new Date();
+    const [result] = await connection.query(
+        `INSERT INTO booking_changes (bookingId, userId, previousState, newState, fareDifference, status, paymentExpiresAt, createdAt, appliedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [bookingId, userId, JSON.stringify(previousState), JSON.stringify(newState), fareDifference, status, paymentExpiresAt,
+            now, status === 'APPLIED' ? now : null]
+    );
+    return String(result.insertId);
+};
+
+/**
+ * Loads a change and locks it. Run inside a transaction.
+ * @returns {Promise<object|null>}
+ */
+const getChangeForUpdate = async (connection, changeId) => {
+    const [[row]] = await connection.query('SELECT * FROM booking_changes WHERE id = ? FOR UPDATE', [changeId]);
+    return row ? { ...row, previousState: parseState(row.previousState), newState: parseState(row.newState) } : null;
+};
+
+const findPendingChange = async (connection, bookingId) => {
+    const [[row]] = await connection.query(
+        "SELECT * FROM booking_changes WHERE bookingId = ? AND status = 'PENDING_PAYMENT' ORDER BY createdAt DESC LIMIT 1 FOR UPDATE",
+        [bookingId]
+    );
+    return row ? { ...row, previousState: parseState(row.previousState), newState: parseState(row.newState) } : null;
+};
+
+/**
+ * @param {'APPLIED'|'EXPIRED'|'CANCELLED'|'FAILED'} status
+ */
+const setChangeStatus = async (connection, changeId, status) => {
+    await connection.query(
+        'UPDATE booking_changes SET status = ?, paymentExpiresAt = NULL, appliedAt = ? WHERE id = ?',
+        [status, status === 'APPLIED' ? new Date() : null, changeId]
+    );
+};
+
+/**
+ * Lapses changes whose difference was not paid in time. Their seat holds expire on their own.
+ */
+const expireUnpaidChanges = async (connection) => {
+    await connection.query(
+        "UPDATE booking_changes SET status = 'EXPIRED', paymentExpiresAt = NULL WHERE status = 'PENDING_PAYMENT' AND paymentExpiresAt <= ?",
+        [new Date()]
+    );
+};
+
+/**
+ * @returns {Promise<Object<string, Array<object>>>} Changes keyed by booking id, oldest first.
+ */
+const listChangesForBookings = async (connection, bookingIds) => {
+    if (bookingIds.length === 0) return {};
+    const [rows] = await connection.query('SELECT * FROM booking_changes WHERE bookingId IN (?) ORDER BY createdAt, id', [bookingIds]);
+    return rows.reduce((acc, row) => {
+        (acc[row.bookingId] = acc[row.bookingId] || []).push(toClientChange(row));
+        return acc;
+    }, {});
+};
+
+module.exports = {
+    snapshotBooking,
+    recordChange,
+    getChangeForUpdate,
+    findPendingChange,
+    setChangeStatus,
+    expireUnpaidChanges,
+    listChangesForBookings,
+};
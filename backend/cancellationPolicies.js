@@ -0,0 +1,124 @@
+/**
+ * Cancellation fee policies. A policy is a list of slabs, each saying "cancelling at least
+ * `minHoursBeforeDeparture` hours before departure costs `feePercentage` of the fare".
+ * The slab with the largest threshold the passenger still meets applies; closer to departure
+ * than the smallest threshold, seats cannot be cancelled at all.
+ * The fee calculation is mirrored in utils/cancellationPolicy.ts for the client-side preview.
+ */
+
+const DEFAULT_SLABS = [{ minHoursBeforeDeparture: 1, feePercentage: 0 }];
+const HOUR_MS = 60 * 60 * 1000;
+
+const normalizeDistrict = (district) => (district ? String(district).trim().toLowerCase() : null);
+
+/**
+ * Checks a full set of policies sent by an admin.
+ * @returns {string|null} What is wrong with them, or null if they are valid.
+ */
+const validatePolicies = (policies) => {
+    if (!Array.isArray(policies)) {
+        return 'Policies must be provided as an array.';
+    }
+    if (!policies.some(policy => !policy.district)) {
+        return 'A default policy (with no district) is required.';
+    }
+    const seenDistricts = new Set();
+    for (const policy of policies) {
+        const key = normalizeDistrict(policy.district) || '';
+        if (seenDistricts.has(key)) {
+            return `More than one policy was given for ${policy.district || 'the default'}.`;
+        }
+        seenDistricts.add(key);
+
+        const label = policy.district ? `the ${policy.district} policy` : 'the default policy';
+        if (!Array.isArray(policy.slabs) || policy.slabs.length === 0) {
+            return `Add at least one slab to ${label}.`;
+        }
+        const thresholds = new Set();
+        for (const slab of policy.slabs) {
+            const hours = Number(slab.minHoursBeforeDeparture);
+            const fee = Number(slab.feePercentage);
+            if (!Number.isFinite(hours) || hours < 0) {
+                return `Hours before departure in ${label} must be zero or more.`;
+            }
+            if (!Number.isFinite(fee) || fee < 0 || fee > 100) {
+                return `Fee percentages in ${label} must be between 0 and 100.`;
+            }
+            if (thresholds.has(hours)) {
+                return `Two slabs in ${label} start at ${hours} hours before departure.`;
+            }
+            thresholds.add(hours);
+        }
+    }
+    return null;
+};
+
+const sortSlabs = (slabs) => slabs
+    .map(slab => ({ minHoursBeforeDeparture: Number(slab.minHoursBeforeDeparture), feePercentage: Number(slab.feePercentage) }))
+    .sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture);
+
+/**
+ * @returns {Promise<Array<{district: string|null, slabs: Array<object>}>>} Every policy, default first.
+ */
+const listPolicies = async (connection) => {
+    const [rows] = await connection.query('SELECT district, slabs FROM cancellation_policies ORDER BY district IS NOT NULL, district');
+    return rows.map(row => ({
+        district: row.district,
+        slabs: sortSlabs(typeof row.slabs === 'string' ? JSON.parse(row.slabs) : row.slabs),
+    }));
+};
+
+/**
+ * Swaps in a new set of policies. Run inside a transaction; validate them first.
+ */
+const replacePolicies = async (connection, policies) => {
+    const now = new Date();
+    await connection.query('DELETE FROM cancellation_policies');
+    const values = policies.map(policy => [
+        policy.district ? String(policy.district).trim() : null,
+        JSON.stringify(sortSlabs(policy.slabs)),
+        now,
+    ]);
+    await connection.query('INSERT INTO cancellation_policies (district, slabs, updatedAt) VALUES ?', [values]);
+};
+
+/**
+ * Picks the slabs that apply to a schedule starting in `district`, falling back to the default policy.
+ */
+const findSlabsForDistrict = (policies, district) => {
+    const key = normalizeDistrict(district);
+    const districtPolicy = policies.find(policy => policy.district && normalizeDistrict(policy.district) === key);
+    const defaultPolicy = policies.find(policy => !policy.district);
+    return sortSlabs((districtPolicy || defaultPolicy || { slabs: DEFAULT_SLABS }).slabs);
+};
+
+/**
+ * Works out whether seats can be cancelled now, and at what fee.
+ * @returns {{allowed: boolean, feePercentage: number, hoursBeforeDeparture: number}}
+ */
+const quoteCancellation = (slabs, departure, now = new Date()) => {
+    const hoursBeforeDeparture = (departure.getTime() - now.getTime()) / HOUR_MS;
+    const slab = sortSlabs(slabs).find(s => hoursBeforeDeparture >= s.minHoursBeforeDeparture);
+    return {
+        allowed: Boolean(slab) && hoursBeforeDeparture > 0,
+        feePercentage: slab ? slab.feePercentage : 100,
+        hoursBeforeDeparture,
+    };
+};
+
+/**
+ * Splits a seat's fare into the fee kept and the amount refunded, rounded to the paisa.
+ */
+const calculateSeatRefund = (fare, feePercentage) => {
+    const fee = Math.round(Number(fare) * feePercentage) / 100;
+    return { fee, refund: Math.round((Number(fare) - fee) * 100) / 100 };
+};
+
+module.exports = {
+    validatePolicies,
+    listPolicies,
+    replacePolicies,
+    findSlabsForDistrict,
+    quoteCancellation,
+    calculateSeatRefund,
+};
@@ -0,0 +1,103 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+
+const CAPTCHA_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const CAPTCHA_LENGTH = 6;
+// Characters that are easy to tell apart once distorted (no 0/O, 1/I/L, 2/Z, 5/S, 8/B).
+const CAPTCHA_ALPHABET = 'ACDEFGHJKMNPQRTUVWXY34679';
+
+const WIDTH = 180;
+const HEIGHT = 56;
+
+const randomBetween = (min, max) => min + (crypto.randomInt(0, 10000) / 10000) * (max - min);
+const randomColor = (minLightness, maxLightness) => `hsl(${crypto.randomInt(0, 360)}, 60%, ${Math.round(randomBetween(minLightness, maxLightness))}%)`;
+
+const hashAnswer = (answer, salt) => crypto.createHash('sha256').update(`${salt}:${answer.toUpperCase()}`).digest('hex');
+
+/**
+ * Renders the challenge text as an SVG image: each character is individually rotated,
+ * offset and coloured, over a background of noise curves and dots.
+ * @param {string} text - The challenge text.
+ * @returns {string} The SVG markup.
+ */
+const renderCaptchaSvg = (text) => {
+    const parts = [`<rect width="${WIDTH}" height="${HEIGHT}" fill="#f1f5f9"/>`];
+
+    for (let i = 0; i < 4; i++) {
+        const path = `M${randomBetween(0, 20).toFixed(1)} ${randomBetween(5, HEIGHT - 5).toFixed(1)} `
+            + `C${randomBetween(40, 80).toFixed(1)} ${randomBetween(0, HEIGHT).toFixed(1)}, `
+            + `${randomBetween(100, 140).toFixed(1)} ${randomBetween(0, HEIGHT).toFixed(1)}, `
+            + `${randomBetween(WIDTH - 20, WIDTH).toFixed(1)} ${randomBetween(5, HEIGHT - 5).toFixed(1)}`;
+        parts.push(`<path d="${path}" stroke="${randomColor(45, 70)}" stroke-width="${randomBetween(1, 2.5).toFixed(1)}" fill="none"/>`);
+    }
+    for (let i = 0; i < 30; i++) {
+        parts.push(`<circle cx="${randomBetween(0, WIDTH).toFixed(1)}" cy="${randomBetween(0, HEIGHT).toFixed(1)}" r="${randomBetween(0.5, 1.8).toFixed(1)}" fill="${randomColor(40, 75)}"/>`);
+    }
+
+    const slotWidth = (WIDTH - 20) / text.length;
+    [...text].forEach((char, index) => {
+        const x = 10 + slotWidth * index + slotWidth / 2 + randomBetween(-3, 3);
+        const y = HEIGHT / 2 + 10 + randomBetween(-6, 6);
+        const rotation = randomBetween(-28, 28);
+        const size = randomBetween(24, 32);
+        parts.push(
+            `<text x="${x.toFixed(1)}" y="${y.toFixed(1)}" font-family="Verdana, sans-serif" font-size="${size.toFixed(1)}" `
+            + `font-weight="bold" fill="${randomColor(15, 35)}" text-anchor="middle" `
+            + `transform="rotate(${rotation.toFixed(1)} ${x.toFixed(1)} ${y.toFixed(1)})">${char}</text>`
+        );
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">${parts.join('')}</svg>`;
+};
+
+/**
+ * Issues a new challenge. Only a salted hash of the answer is stored.
+ * @returns {Promise<{captchaId: string, image: string}>} The challenge id and an SVG data URI.
+ */
+const createCaptcha = async (connection) => {
+    const text = Array.from({ length: CAPTCHA_LENGTH }, () => CAPTCHA_ALPHABET[crypto.randomInt(0, CAPTCHA_ALPHABET.length)]).join('');
+    const salt = crypto.randomBytes(16).toString('hex');
+    const captchaId = uuidv4();
+
+    await connection.query(
+        'INSERT INTO captcha_challenges (id, answerHash, salt, expiresAt) VALUES (?, ?, ?, ?)',
+        [captchaId, hashAnswer(text, salt), salt, new Date(Date.now() + CAPTCHA_TTL_MS)]
+    );
+
+    const image = `data:image/svg+xml;base64,${Buffer.from(renderCaptchaSvg(text)).toString('base64')}`;
+    return { captchaId, image };
+};
+
+/**
+ * Checks an answer against a challenge. Each challenge can be checked once: it is deleted
+ * whether or not the answer was right, so answers cannot be brute-forced.
+ * @returns {Promise<{status: number, message: string}|null>} An error to report, or null if the answer is correct.
+ */
+const verifyCaptcha = async (connection, captchaId, answer) => {
+    if (!captchaId || typeof answer !== 'string' || answer.trim() === '') {
+        return { status: 400, message: 'Please complete the CAPTCHA.' };
+    }
+
+    const [rows] = await connection.query('SELECT answerHash, salt, expiresAt FROM captcha_challenges WHERE id = ?', [captchaId]);
+    const challenge = rows[0];
+    if (!challenge) {
+        return { status: 400, message: 'The CAPTCHA has expired. Please try the new one.' };
+    }
+    const [deleteResult] = await connection.query('DELETE FROM captcha_challenges WHERE id = ?', [captchaId]);
+    if (deleteResult.affectedRows === 0 || new Date(challenge.expiresAt).getTime() <= Date.now()) {
+        return { status: 400, message: 'The CAPTCHA has expired. Please try the new one.' };
+    }
+
+    const given = Buffer.from(hashAnswer(answer.trim(), challenge.salt), 'hex');
+    const expected = Buffer.from(challenge.answerHash, 'hex');
+    if (!crypto.timingSafeEqual(given, expected)) {
+        return { status: 400, message: 'Incorrect CAPTCHA. Please try again.' };
+    }
+    return null;
+};
+
+const purgeExpiredCaptchas = async (connection) => {
+    await connection.query('DELETE FROM captcha_challenges WHERE expiresAt < ?', [new Date()]);
+};
+
+module.exports = { createCaptcha, verifyCaptcha, purgeExpiredCaptchas };
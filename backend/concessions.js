@@ -0,0 +1,366 @@
+/**
+ * Concession categories: child, senior, women, disabled persons, freedom fighters, students and
+ * any others an admin sets up. A category takes a percentage off the segment fare for passengers
+ * who show its proof document, and can be limited to an age band on the journey date, a number
+ * of passengers per booking and the districts buses start in.
+ * Aadhaar numbers must pass their Verhoeff checksum, and the same Aadhaar number travelling on
+ * two concession tickets at once is flagged for review.
+ * The eligibility rules are mirrored in utils/concessions.ts for the booking forms.
+ */
+
+const PROOF_TYPES = ['AADHAAR', 'UDID', 'FREEDOM_FIGHTER_ID', 'STUDENT_ID', 'OTHER_ID'];
+const RESERVED_CODES = ['NORMAL', 'NONE', 'MIXED']; // Ticket and booking types that are not categories
+const MAX_AGE = 120;
+const MAX_PASSENGERS_PER_BOOKING = 5;
+const ACTIVE_BOOKING_STATUSES = ['PENDING_PAYMENT', 'CONFIRMED', 'PARTIALLY_CANCELLED'];
+const PROOF_NUMBER_PATTERN = /^[A-Za-z0-9/-]{4,30}$/; // Documents other than Aadhaar have no common format
+
+// Verhoeff checksum tables: multiplication in the dihedral group D5 and the position permutation.
+const VERHOEFF_D = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+    [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+    [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+    [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+    [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+    [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+    [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+    [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+    [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+    [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+const isConcessionType = (type) => Boolean(type) && type !== 'NORMAL';
+
+/**
+ * Whether a value is a real calendar date written as 'YYYY-MM-DD'.
+ */
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+/**
+ * Whole years between a date of birth and a day, both 'YYYY-MM-DD'.
+ */
+const getAgeOn = (dob, onDate) => {
+    const [birthYear, birthMonth, birthDay] = dob.split('-').map(Number);
+    const [year, month, day] = onDate.split('-').map(Number);
+    const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+    return year - birthYear - (hadBirthday ? 0 : 1);
+};
+
+/**
+ * Whether a value is a well-formed Aadhaar number: 12 digits, not starting with 0 or 1, with a
+ * valid Verhoeff check digit.
+ */
+const isValidAadhaar = (value) => {
+    if (typeof value !== 'string' || !/^[2-9]\d{11}$/.test(value)) return false;
+    const checksum = value.split('').reverse().reduce(
+        (c, digit, index) => VERHOEFF_D[c][VERHOEFF_P[index % 8][Number(digit)]],
+        0
+    );
+    return checksum === 0;
+};
+
+const toOptionalNumber = (value) => (value === null || value === undefined || value === '' ? null : Number(value));
+
+const parseDistricts = (value) => (typeof value === 'string' ? JSON.parse(value) : value) || [];
+
+const normalizeCategory = (category) => ({
+    code: category.code,
+    name: String(category.name).trim(),
+    discountPercentage: Number(category.discountPercentage),
+    proofType: category.proofType,
+    minAge: toOptionalNumber(category.minAge),
+    maxAge: toOptionalNumber(category.maxAge),
+    maxPerBooking: toOptionalNumber(category.maxPerBooking),
+    districts: parseDistricts(category.districts).map(district => String(district).trim()),
+    isActive: category.isActive === undefined ? true : Boolean(category.isActive),
+});
+
+/**
+ * Checks a full set of categories sent by an admin.
+ * @returns {string|null} What is wrong with them, or null if they are valid.
+ */
+const validateCategories = (categories) => {
+    if (!Array.isArray(categories)) {
+        return 'Concession categories must be provided as an array.';
+    }
+    const seenCodes = new Set();
+    for (const category of categories) {
+        const code = category.code;
+        if (typeof code !== 'string' || !/^[A-Z][A-Z0-9_]{1,19}$/.test(code)) {
+            return 'Category codes must be 2 to 20 capital letters, digits or underscores, starting with a letter.';
+        }
+        if (RESERVED_CODES.includes(code)) {
+            return `${code} cannot be used as a category code.`;
+        }
+        if (seenCodes.has(code)) {
+            return `More than one category uses the code ${code}.`;
+        }
+        seenCodes.add(code);
+
+        if (!category.name || String(category.name).trim() === '' || String(category.name).length > 100) {
+            return `The ${code} category needs a name of up to 100 characters.`;
+        }
+        const discount = Number(category.discountPercentage);
+        if (!Number.isFinite(discount) || discount < 0 || discount > 100) {
+            return `The discount for ${code} must be between 0 and 100 percent.`;
+        }
+        if (!PROOF_TYPES.includes(category.proofType)) {
+            return `The proof document for ${code} must be one of ${PROOF_TYPES.join(', ')}.`;
+        }
+        const minAge = toOptionalNumber(category.minAge);
+        const maxAge = toOptionalNumber(category.maxAge);
+        if (minAge !== null && (!Number.isInteger(minAge) || minAge < 0 || minAge > MAX_AGE)) {
+            return `The minimum age for ${code} must be a whole number between 0 and ${MAX_AGE}.`;
+        }
+        if (maxAge !== null && (!Number.isInteger(maxAge) || maxAge < (minAge ?? 0) || maxAge > MAX_AGE)) {
+            return `The maximum age for ${code} must be a whole number between its minimum age and ${MAX_AGE}.`;
+        }
+        const maxPerBooking = toOptionalNumber(category.maxPerBooking);
+        if (maxPerBooking !== null && (!Number.isInteger(maxPerBooking) || maxPerBooking < 1 || maxPerBooking > MAX_PASSENGERS_PER_BOOKING)) {
+            return `The per-booking limit for ${code} must be between 1 and ${MAX_PASSENGERS_PER_BOOKING}.`;
+        }
+        if (category.districts !== undefined && category.districts !== null
+            && (!Array.isArray(category.districts) || category.districts.some(district => typeof district !== 'string' || district.trim() === ''))) {
+            return `The districts for ${code} must be a list of district names.`;
+        }
+    }
+    return null;
+};
+
+/**
+ * @returns {Promise<Array<object>>} Every category, active or not, in the order the admin set.
+ */
+const listCategories = async (connection) => {
+    const [rows] = await connection.query('SELECT * FROM concession_categories ORDER BY sortOrder, code');
+    return rows.map(normalizeCategory);
+};
+
+/**
+ * Saves a full set of categories in the order given. Categories left out are deactivated rather
+ * than deleted, so bookings made under them keep their names. Run inside a transaction; validate
+ * them first.
+ */
+const saveCategories = async (connection, categories) => {
+    const now = new Date();
+    for (const [index, category] of categories.map(normalizeCategory).entries()) {
+        await connection.query(
+            `INSERT INTO concession_categories
+                (code, name, discountPercentage, proofType, minAge, maxAge, maxPerBooking, districts, isActive, sortOrder, updatedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON DUPLICATE KEY UPDATE name = VALUES(name), discountPercentage = VALUES(discountPercentage),
+                proofType = VALUES(proofType), minAge = VALUES(minAge), maxAge = VALUES(maxAge),
+                maxPerBooking = VALUES(maxPerBooking), districts = VALUES(districts), isActive = VALUES(isActive),
+                sortOrder = VALUES(sortOrder), updatedAt = VALUES(updatedAt)`,
+            [category.code, category.name, category.discountPercentage, category.proofType, category.minAge, category.maxAge,
+                category.maxPerBooking, JSON.stringify(category.districts), category.isActive, index, now]
+        );
+    }
+    const codes = categories.map(category => category.code);
+    await connection.query(
+        `UPDATE concession_categories SET isActive = 0, updatedAt = ? WHERE isActive = 1${codes.length > 0 ? ' AND code NOT IN (?)' : ''}`,
+        codes.length > 0 ? [now, codes] : [now]
+    );
+};
+
+/**
+ * The active category for a ticket type, if it applies to buses starting in `district`.
+ */
+const findApplicableCategory = (categories, type, district) => {
+    const category = categories.find(c => c.code === type && c.isActive);
+    if (!category) return null;
+    const normalizedDistrict = district ? district.trim().toLowerCase() : '';
+    const appliesHere = category.districts.length === 0
+        || category.districts.some(d => d.toLowerCase() === normalizedDistrict);
+    return appliesHere ? category : null;
+};
+
+const hasAgeBand = (category) => category.minAge !== null || category.maxAge !== null;
+
+const describeAgeBand = (category) => {
+    if (category.maxAge === null) return `aged ${category.minAge} or over`;
+    if (category.minAge === null || category.minAge === 0) return `aged up to ${category.maxAge}`;
+    return `aged ${category.minAge} to ${category.maxAge}`;
+};
+
+/**
+ * Checks that passengers on age-limited concessions are within the age band on the journey date.
+ * Passengers are expected to carry a valid `dob` for those categories.
+ * @returns {string|null} What is wrong, or null if every age fits.
+ */
+const checkAges = (categories, passengers, journeyDate) => {
+    for (const [index, passenger] of passengers.entries()) {
+        const category = categories.find(c => c.code === passenger.type);
+        if (!category || !hasAgeBand(category)) continue;
+        const label = passenger.seatId ? `seat ${passenger.seatId}` : `passenger ${index + 1}`;
+        if (passenger.dob > journeyDate) {
+            return `The date of birth for ${label} is after the journey date.`;
+        }
+        const age = getAgeOn(passenger.dob, journeyDate);
+        if ((category.minAge !== null && age < category.minAge) || (category.maxAge !== null && age > category.maxAge)) {
+            return `${passenger.fullName} is not eligible for a ${category.name} ticket on ${journeyDate}; it is for passengers ${describeAgeBand(category)}.`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks the concession passengers of a booking or waitlist entry: the category must be active,
+ * age-limited categories need a date of birth within the band, every concession needs its proof
+ * document number, per-booking limits hold, and no proof number is given twice.
+ * @param {Array<{seatId?: string, fullName: string, type: string, dob?: string, aadhaarNumber?: string, proofNumber?: string}>} passengers
+ * @returns {string|null} What is wrong, or null if every concession is allowed.
+ */
+const checkPassengers = (categories, passengers, journeyDate) => {
+    const seenProofs = new Set();
+    const countByType = {};
+    for (const [index, passenger] of passengers.entries()) {
+        if (!isConcessionType(passenger.type)) continue;
+        const label = passenger.seatId ? `seat ${passenger.seatId}` : `passenger ${index + 1}`;
+        const category = categories.find(c => c.code === passenger.type && c.isActive);
+        if (!category) {
+            return `The ticket type for ${label} is not an available concession.`;
+        }
+        if (hasAgeBand(category) && !isValidDate(passenger.dob)) {
+            return `A date of birth (YYYY-MM-DD) is required for ${label}.`;
+        }
+        const proof = category.proofType === 'AADHAAR' ? passenger.aadhaarNumber : passenger.proofNumber;
+        if (category.proofType === 'AADHAAR' ? !isValidAadhaar(proof) : !PROOF_NUMBER_PATTERN.test(proof || '')) {
+            return category.proofType === 'AADHAAR'
+                ? `A valid 12-digit Aadhaar number is required for ${label}.`
+                : `A valid proof document number is required for ${label}.`;
+        }
+        const proofKey = `${category.proofType}:${proof.toUpperCase()}`;
+        if (seenProofs.has(proofKey)) {
+            return `The proof document for ${label} is already given for another passenger.`;
+        }
+        seenProofs.add(proofKey);
+
+        countByType[category.code] = (countByType[category.code] || 0) + 1;
+        if (category.maxPerBooking !== null && countByType[category.code] > category.maxPerBooking) {
+            return `At most ${category.maxPerBooking} ${category.name} ticket(s) can be booked together.`;
+        }
+    }
+    return checkAges(categories, passengers, journeyDate);
+};
+
+const parsePassengerDetails = (value) => (typeof value === 'string' ? JSON.parse(value) : value) || [];
+
+/**
+ * Finds other live bookings around a journey date carrying a concession passenger with the same
+ * Aadhaar number as one of `passengers`. Whether the journeys actually overlap in time is left
+ * to the caller, which knows the schedules.
+ * @returns {Promise<Array<{booking: object, seatId: string, conflictingSeatId: string, aadhaarNumber: string}>>}
+ */
+const findConcessionMatches = async (connection, bookingId, passengers, journeyDate) => {
+    const concessionPassengers = passengers.filter(p => isConcessionType(p.type) && p.aadhaarNumber && p.status !== 'CANCELLED');
+    if (concessionPassengers.length === 0) return [];
+
+    // A day either side catches overnight services that run into the journey date.
+    const [rows] = await connection.query(
+        `SELECT id, scheduleId, journeyDate, origin, destination, passengerDetails FROM bookings
+         WHERE id <> ? AND status IN (?) AND discountType <> 'NONE'
+           AND journeyDate BETWEEN DATE_SUB(?, INTERVAL 1 DAY) AND DATE_ADD(?, INTERVAL 1 DAY)`,
+        [bookingId, ACTIVE_BOOKING_STATUSES, journeyDate, journeyDate]
+    );
+    const matches = [];
+    for (const row of rows) {
+        for (const other of parsePassengerDetails(row.passengerDetails)) {
+            if (!isConcessionType(other.type) || other.status === 'CANCELLED' || !other.aadhaarNumber) continue;
+            const passenger = concessionPassengers.find(p => p.aadhaarNumber === other.aadhaarNumber);
+            if (passenger) {
+                matches.push({ booking: row, seatId: passenger.seatId, conflictingSeatId: other.seatId, aadhaarNumber: passenger.aadhaarNumber });
+            }
+        }
+    }
+    return matches;
+};
+
+/**
+ * Records concession seats found travelling at the same time as another booking's.
+ */
+const recordFlags = async (connection, bookingId, matches) => {
+    if (matches.length === 0) return;
+    const now = new Date();
+    const values = matches.map(match => [
+        bookingId, match.seatId, match.booking.id, match.conflictingSeatId, match.aadhaarNumber.slice(-4), now,
+    ]);
+    await connection.query(
+        'INSERT INTO concession_flags (bookingId, seatId, conflictingBookingId, conflictingSeatId, aadhaarLastDigits, createdAt) VALUES ?',
+        [values]
+    );
+};
+
+/**
+ * @returns {Promise<Array<object>>} Flags newest first, each with both bookings' journeys.
+ *   Reviewed flags are left out unless asked for.
+ */
+const listFlags = async (connection, includeReviewed = false) => {
+    const [rows] = await connection.query(
+        `SELECT f.*, DATE_FORMAT(b.journeyDate, '%Y-%m-%d') AS journeyDate, b.origin, b.destination, b.status AS bookingStatus, b.scheduleId,
+                DATE_FORMAT(c.journeyDate, '%Y-%m-%d') AS conflictingJourneyDate, c.origin AS conflictingOrigin, c.destination AS conflictingDestination,
+                c.status AS conflictingBookingStatus, c.scheduleId AS conflictingScheduleId
+         FROM concession_flags f
+         JOIN bookings b ON b.id = f.bookingId
+         JOIN bookings c ON c.id = f.conflictingBookingId
+         ${includeReviewed ? '' : 'WHERE f.reviewedAt IS NULL'}
+         ORDER BY f.createdAt DESC, f.id DESC`
+    );
+    return rows.map(row => ({
+        id: row.id,
+        aadhaarLastDigits: row.aadhaarLastDigits,
+        createdAt: row.createdAt,
+        reviewedAt: row.reviewedAt,
+        booking: {
+            id: row.bookingId, seatId: row.seatId, scheduleId: row.scheduleId, journeyDate: row.journeyDate,
+            origin: row.origin, destination: row.destination, status: row.bookingStatus,
+        },
+        conflictingBooking: {
+            id: row.conflictingBookingId, seatId: row.conflictingSeatId, scheduleId: row.conflictingScheduleId,
+            journeyDate: row.conflictingJourneyDate, origin: row.conflictingOrigin, destination: row.conflictingDestination,
+            status: row.conflictingBookingStatus,
+        },
+    }));
+};
+
+/**
+ * @returns {Promise<boolean>} Whether an unreviewed flag with that ID was found.
+ */
+const markFlagReviewed = async (connection, flagId) => {
+    const [result] = await connection.query(
+        'UPDATE concession_flags SET reviewedAt = ? WHERE id = ? AND reviewedAt IS NULL',
+        [new Date(), flagId]
+    );
+    return result.affectedRows > 0;
+};
+
+module.exports = {
+    isConcessionType,
+    isValidDate,
+    isValidAadhaar,
+    getAgeOn,
+    validateCategories,
+    listCategories,
+    saveCategories,
+    findApplicableCategory,
+    checkAges,
+    checkPassengers,
+    findConcessionMatches,
+    recordFlags,
+    listFlags,
+    markFlagReviewed,
+};
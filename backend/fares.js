@@ -0,0 +1,247 @@
+/**
+ * The fare engine. A segment's fare is its distance times the per-km rate for the bus's class,
+ * never less than that class's minimum fare, with a surcharge for departures in the night window,
+ * rounded as the fare table says. Fare tables are revised by adding one that takes effect on a
+ * later date; the one in effect on the journey date prices the journey.
+ * Routes without stop distances, or journeys before the first fare table, are priced from the
+ * fares stored on their stops as before.
+ */
+
+const BUS_CLASSES = ['ORDINARY', 'EXPRESS', 'AC', 'VOLVO'];
+const DEFAULT_BUS_CLASS = 'ORDINARY';
+const ROUNDING_MODES = ['NEAREST', 'UP', 'DOWN'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const toMoney = (amount) => Math.round(amount * 100) / 100;
+
+/**
+ * Checks a fare table sent by an admin. Tables take effect from the start of their date, so
+ * only dates after `today` may be given; the fares passengers were quoted today stay put.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateRevision = (revision, today) => {
+    if (!revision || typeof revision !== 'object') {
+        return 'A fare table is required.';
+    }
+    if (!isValidDate(revision.effectiveFrom)) {
+        return 'The effective date must be a valid date (YYYY-MM-DD).';
+    }
+    if (revision.effectiveFrom <= today) {
+        return 'New fares can only take effect from tomorrow onwards.';
+    }
+    for (const busClass of BUS_CLASSES) {
+        const rate = revision.rates?.[busClass];
+        if (!rate) {
+            return `Give a rate for ${busClass} buses.`;
+        }
+        const ratePerKm = Number(rate.ratePerKm);
+        const minimumFare = Number(rate.minimumFare);
+        if (!Number.isFinite(ratePerKm) || ratePerKm <= 0) {
+            return `The per-km rate for ${busClass} buses must be more than zero.`;
+        }
+        if (!Number.isFinite(minimumFare) || minimumFare < 0) {
+            return `The minimum fare for ${busClass} buses must be zero or more.`;
+        }
+    }
+    const roundTo = Number(revision.roundTo);
+    if (!Number.isFinite(roundTo) || roundTo <= 0 || roundTo > 100) {
+        return 'Fares must be rounded to a step between ₹0.01 and ₹100.';
+    }
+    if (!ROUNDING_MODES.includes(revision.roundingMode)) {
+        return `Rounding must be one of ${ROUNDING_MODES.join(', ')}.`;
+    }
+    const surcharge = Number(revision.nightSurchargePercentage || 0);
+    if (!Number.isFinite(surcharge) || surcharge < 0 || surcharge > 100) {
+        return 'The night surcharge must be between 0 and 100 percent.';
+    }
+    if (surcharge > 0) {
+        if (!TIME_PATTERN.test(revision.nightStartTime || '') || !TIME_PATTERN.test(revision.nightEndTime || '')) {
+            return 'Give the start and end of the night window as HH:MM.';
+        }
+        if (revision.nightStartTime === revision.nightEndTime) {
+            return 'The night window cannot start and end at the same time.';
+        }
+    }
+    return null;
+};
+
+const toRevision = (row) => {
+    const rates = typeof row.rates === 'string' ? JSON.parse(row.rates) : row.rates;
+    return {
+        id: row.id,
+        effectiveFrom: row.effectiveFrom,
+        rates: BUS_CLASSES.reduce((acc, busClass) => ({
+            ...acc,
+            [busClass]: {
+                ratePerKm: Number(rates[busClass]?.ratePerKm || 0),
+                minimumFare: Number(rates[busClass]?.minimumFare || 0),
+            },
+        }), {}),
+        roundTo: Number(row.roundTo),
+        roundingMode: row.roundingMode,
+        nightStartTime: row.nightStartTime,
+        nightEndTime: row.nightEndTime,
+        nightSurchargePercentage: Number(row.nightSurchargePercentage),
+    };
+};
+
+const revisionColumns = `id, DATE_FORMAT(effectiveFrom, '%Y-%m-%d') AS effectiveFrom, rates, roundTo, roundingMode,
+    TIME_FORMAT(nightStartTime, '%H:%i') AS nightStartTime, TIME_FORMAT(nightEndTime, '%H:%i') AS nightEndTime,
+    nightSurchargePercentage`;
+
+/**
+ * @returns {Promise<Array<object>>} Every fare table, latest first.
+ */
+const listRevisions = async (connection) => {
+    const [rows] = await connection.query(`SELECT ${revisionColumns} FROM fare_revisions ORDER BY effectiveFrom DESC`);
+    return rows.map(toRevision);
+};
+
+/**
+ * The fare table in effect on a journey date.
+ * @returns {Promise<object|null>} The table, or null if none had taken effect by then.
+ */
+const getFareTable = async (connection, journeyDate) => {
+    const [rows] = await connection.query(
+        `SELECT ${revisionColumns} FROM fare_revisions WHERE effectiveFrom <= ? ORDER BY effectiveFrom DESC LIMIT 1`,
+        [journeyDate]
+    );
+    return rows.length > 0 ? toRevision(rows[0]) : null;
+};
+
+/**
+ * Saves a fare table; one already set for the same date is replaced. Validate it first.
+ */
+const saveRevision = async (connection, revision) => {
+    const hasSurcharge = Number(revision.nightSurchargePercentage || 0) > 0;
+    const rates = BUS_CLASSES.reduce((acc, busClass) => ({
+        ...acc,
+        [busClass]: {
+            ratePerKm: Number(revision.rates[busClass].ratePerKm),
+            minimumFare: Number(revision.rates[busClass].minimumFare),
+        },
+    }), {});
+    const now = new Date();
+    await connection.query(
+        `INSERT INTO fare_revisions
+            (effectiveFrom, rates, roundTo, roundingMode, nightStartTime, nightEndTime, nightSurchargePercentage, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE rates = VALUES(rates), roundTo = VALUES(roundTo), roundingMode = VALUES(roundingMode),
+            nightStartTime = VALUES(nightStartTime), nightEndTime = VALUES(nightEndTime),
+            nightSurchargePercentage = VALUES(nightSurchargePercentage), updatedAt = VALUES(updatedAt)`,
+        [
+            revision.effectiveFrom,
+            JSON.stringify(rates),
+            Number(revision.roundTo),
+            revision.roundingMode,
+            hasSurcharge ? revision.nightStartTime : null,
+            hasSurcharge ? revision.nightEndTime : null,
+            hasSurcharge ? Number(revision.nightSurchargePercentage) : 0,
+            now,
+            now,
+        ]
+    );
+};
+
+/**
+ * Deletes a fare table that has not taken effect yet.
+ * @returns {Promise<boolean>} Whether there was such a table.
+ */
+const deleteRevision = async (connection, revisionId, today) => {
+    const [result] = await connection.query('DELETE FROM fare_revisions WHERE id = ? AND effectiveFrom > ?', [revisionId, today]);
+    return result.affectedRows > 0;
+};
+
+/**
+ * Checks the bus class and stop distances of a schedule sent by an admin. Distances are counted
+ * from the first stop and may be left out altogether, in which case the stop fares apply.
+ * @returns {string|null} What is wrong with them, or null if they are valid.
+ */
+const validateRoute = (busClass, stops) => {
+    if (busClass !== undefined && !BUS_CLASSES.includes(busClass)) {
+        return `Bus class must be one of ${BUS_CLASSES.join(', ')}.`;
+    }
+    const laterStops = stops.slice(1);
+    const withDistance = laterStops.filter(stop => stop.distanceKm !== undefined && stop.distanceKm !== null && stop.distanceKm !== '');
+    if (withDistance.length === 0) return null;
+    if (withDistance.length !== laterStops.length) {
+        return 'Give a distance for every stop after the first, or for none of them.';
+    }
+    let previous = 0;
+    for (const stop of laterStops) {
+        const distance = Number(stop.distanceKm);
+        if (!Number.isFinite(distance) || distance <= previous) {
+            return `The distance to ${stop.stopName || 'each stop'} must be further along than the stop before it.`;
+        }
+        previous = distance;
+    }
+    return null;
+};
+
+/**
+ * The distance to store for each stop of a validated route, or nulls if none were given.
+ */
+const getStopDistances = (stops) => {
+    const hasDistances = stops.slice(1).some(stop => stop.distanceKm !== undefined && stop.distanceKm !== null && stop.distanceKm !== '');
+    return stops.map((stop, index) => {
+        if (!hasDistances) return null;
+        return index === 0 ? 0 : Number(stop.distanceKm);
+    });
+};
+
+// Departure times come as 'HH:MM' or 'HH:MM:SS'. A window that ends earlier than it starts runs past midnight.
+const isNightDeparture = (fareTable, departureTime) => {
+    if (!fareTable.nightSurchargePercentage || !fareTable.nightStartTime || !fareTable.nightEndTime || !departureTime) {
+        return false;
+    }
+    const time = String(departureTime).slice(0, 5);
+    const { nightStartTime: start, nightEndTime: end } = fareTable;
+    return start < end ? time >= start && time < end : time >= start || time < end;
+};
+
+const roundFare = (amount, roundTo, roundingMode) => {
+    const steps = toMoney(amount) / roundTo;
+    const round = roundingMode === 'UP' ? Math.ceil : roundingMode === 'DOWN' ? Math.floor : Math.round;
+    return toMoney(round(steps) * roundTo);
+};
+
+/**
+ * The normal (undiscounted) fare for one seat between two stops of an assembled schedule.
+ * @param {object|null} fareTable - The table in effect on the journey date, from getFareTable.
+ * @param {{busClass?: string}} schedule
+ * @param {{fare: number, distanceKm: number|null, departure: string|null}} originStop
+ * @param {{fare: number, distanceKm: number|null}} destStop
+ * @returns {number}
+ */
+const quoteSegmentFare = (fareTable, schedule, originStop, destStop) => {
+    if (!fareTable || originStop.distanceKm === null || destStop.distanceKm === null) {
+        return Math.max(0, toMoney(Number(destStop.fare || 0) - Number(originStop.fare || 0)));
+    }
+    const rate = fareTable.rates[schedule.busClass] || fareTable.rates[DEFAULT_BUS_CLASS];
+    const distance = Math.max(0, destStop.distanceKm - originStop.distanceKm);
+    let fare = Math.max(distance * rate.ratePerKm, rate.minimumFare);
+    if (isNightDeparture(fareTable, originStop.departure)) {
+        fare *= 1 + (fareTable.nightSurchargePercentage / 100);
+    }
+    return roundFare(fare, fareTable.roundTo, fareTable.roundingMode);
+};
+
+module.exports = {
+    BUS_CLASSES,
+    DEFAULT_BUS_CLASS,
+    validateRevision,
+    listRevisions,
+    getFareTable,
+    saveRevision,
+    deleteRevision,
+    validateRoute,
+    getStopDistances,
+    quoteSegmentFare,
+};
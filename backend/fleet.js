@@ -0,0 +1,258 @@
+const { v4: uuidv4 } = require('uuid');
+const { listSeatIds } = require('./seatLayouts');
+const { BUS_CLASSES } = require('./fares');
+
+/**
+ * The fleet: the vehicles that run the schedules. A schedule has the vehicle that usually runs
+ * it and takes its seat layout and bus class from it; a dated trip can be given another vehicle
+ * with the same layout and class. A vehicle runs one trip at a time and only while its fitness
+ * certificate and insurance are valid.
+ */
+
+const REGISTRATION_PATTERN = /^[A-Z0-9]{6,15}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_DEPOT_LENGTH = 100;
+const MAX_CAPACITY = 200;
+
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Registration numbers are compared without case, spaces or dashes: "hr 26-ab 1234" is HR26AB1234.
+ */
+const normalizeRegistration = (value) => (typeof value === 'string' ? value.replace(/[\s-]/g, '').toUpperCase() : '');
+
+const VEHICLE_COLUMNS = `v.id, v.registrationNumber, v.depot, v.busClass, v.seatLayout, v.capacity,
+    DATE_FORMAT(v.fitnessExpiresOn, '%Y-%m-%d') AS fitnessExpiresOn,
+    DATE_FORMAT(v.insuranceExpiresOn, '%Y-%m-%d') AS insuranceExpiresOn`;
+
+const toClientVehicle = (row) => ({
+    id: row.id,
+    registrationNumber: row.registrationNumber,
+    depot: row.depot,
+    busClass: row.busClass,
+    seatLayout: row.seatLayout,
+    capacity: Number(row.capacity),
+    fitnessExpiresOn: row.fitnessExpiresOn,
+    insuranceExpiresOn: row.insuranceExpiresOn,
+});
+
+/**
+ * Checks a vehicle sent by an admin.
+ * @param {{registrationNumber: string, depot: string, busClass: string, seatLayout: string, capacity: number,
+ *   fitnessExpiresOn: string, insuranceExpiresOn: string}} vehicle
+ * @param {object|null} layout - The seat layout it names, or null if there is no such layout.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateVehicle = (vehicle, layout) => {
+    if (!vehicle || typeof vehicle !== 'object') {
+        return 'Vehicle details are required.';
+    }
+    if (!REGISTRATION_PATTERN.test(normalizeRegistration(vehicle.registrationNumber))) {
+        return 'The registration number must be 6 to 15 letters and digits, e.g. HR 26 AB 1234.';
+    }
+    if (typeof vehicle.depot !== 'string' || vehicle.depot.trim() === '' || vehicle.depot.length > MAX_DEPOT_LENGTH) {
+        return `The depot must be a name of at most ${MAX_DEPOT_LENGTH} characters.`;
+    }
+    if (!BUS_CLASSES.includes(vehicle.busClass)) {
+        return `Bus class must be one of ${BUS_CLASSES.join(', ')}.`;
+    }
+    if (!layout) {
+        return 'Seat layout must be a built-in or designed seat layout.';
+    }
+    const seatCount = listSeatIds(layout).length;
+    if (!Number.isInteger(vehicle.capacity) || vehicle.capacity < seatCount || vehicle.capacity > MAX_CAPACITY) {
+        return `Capacity must be a whole number from ${seatCount} (the seats of the ${layout.name} layout) to ${MAX_CAPACITY}.`;
+    }
+    for (const [label, value] of [['Fitness certificate expiry', vehicle.fitnessExpiresOn], ['Insurance expiry', vehicle.insuranceExpiresOn]]) {
+        if (!isValidDate(value)) {
+            return `${label} must be a date (YYYY-MM-DD).`;
+        }
+    }
+    return null;
+};
+
+/**
+ * @returns {Promise<Array<object>>} Every vehicle, by depot and registration number, with the schedules it usually runs.
+ */
+const listVehicles = async (connection) => {
+    const [[rows], [scheduleRows]] = await Promise.all([
+        connection.query(`SELECT ${VEHICLE_COLUMNS} FROM vehicles v ORDER BY v.depot, v.registrationNumber`),
+        connection.query('SELECT id, vehicleId FROM schedules WHERE vehicleId IS NOT NULL ORDER BY id'),
+    ]);
+    return rows.map(row => ({
+        ...toClientVehicle(row),
+        scheduleIds: scheduleRows.filter(schedule => schedule.vehicleId === row.id).map(schedule => schedule.id),
+    }));
+};
+
+/**
+ * @returns {Promise<object|null>} The vehicle with the given id.
+ */
+const getVehicle = async (connection, vehicleId, forUpdate = false) => {
+    const [[row]] = await connection.query(
+        `SELECT ${VEHICLE_COLUMNS} FROM vehicles v WHERE v.id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+        [vehicleId]
+    );
+    return row ? toClientVehicle(row) : null;
+};
+
+/**
+ * @returns {Promise<object|null>} The vehicle with the given registration number, written any way.
+ */
+const findByRegistration = async (connection, registrationNumber) => {
+    const [[row]] = await connection.query(
+        `SELECT ${VEHICLE_COLUMNS} FROM vehicles v WHERE v.registrationNumber = ?`,
+        [normalizeRegistration(registrationNumber)]
+    );
+    return row ? toClientVehicle(row) : null;
+};
+
+/**
+ * @returns {Promise<{vehicle?: object, error?: {status: number, message: string}}>}
+ */
+const saveVehicle = async (connection, vehicleId, vehicle) => {
+    const registrationNumber = normalizeRegistration(vehicle.registrationNumber);
+    const [[clash]] = await connection.query(
+        'SELECT id FROM vehicles WHERE registrationNumber = ? AND id <> ?',
+        [registrationNumber, vehicleId || '']
+    );
+    if (clash) {
+        return { error: { status: 409, message: `A vehicle registered as ${registrationNumber} is already in the fleet.` } };
+    }
+
+    const fields = {
+        registrationNumber,
+        depot: vehicle.depot.trim(),
+        busClass: vehicle.busClass,
+        seatLayout: vehicle.seatLayout,
+        capacity: vehicle.capacity,
+        fitnessExpiresOn: vehicle.fitnessExpiresOn,
+        insuranceExpiresOn: vehicle.insuranceExpiresOn,
+        updatedAt: new Date(),
+    };
+    const id = vehicleId || uuidv4();
+    if (vehicleId) {
+        await connection.query('UPDATE vehicles SET ? WHERE id = ?', [fields, id]);
+    } else {
+        await connection.query('INSERT INTO vehicles SET ?', [{ id, ...fields, createdAt: fields.updatedAt }]);
+    }
+    return { vehicle: await getVehicle(connection, id) };
+};
+
+/**
+ * @returns {Promise<{scheduleIds: Array<string>, tripCount: number}>} The schedules a vehicle usually runs,
+ *   and how many trips from `fromDate` on it has been given in their place.
+ */
+const getVehicleUsage = async (connection, vehicleId, fromDate) => {
+    const [[scheduleRows], [[tripRow]]] = await Promise.all([
+        connection.query('SELECT id FROM schedules WHERE vehicleId = ? ORDER BY id', [vehicleId]),
+        connection.query('SELECT COUNT(*) AS count FROM trips WHERE vehicleId = ? AND journeyDate >= ?', [vehicleId, fromDate]),
+    ]);
+    return { scheduleIds: scheduleRows.map(row => row.id), tripCount: Number(tripRow.count) };
+};
+
+/**
+ * Removes a vehicle and takes it off any past trips. Check it no longer runs anything first.
+ */
+const deleteVehicle = async (connection, vehicleId) => {
+    await connection.query('UPDATE trips SET vehicleId = NULL WHERE vehicleId = ?', [vehicleId]);
+    await connection.query('DELETE FROM vehicles WHERE id = ?', [vehicleId]);
+};
+
+/**
+ * The trips a vehicle runs between two journey dates (inclusive): those it has been given, and
+ * those of schedules it usually runs that have not been given another vehicle. Cancelled trips
+ * are left out.
+ * @returns {Promise<Array<{tripId: string, scheduleId: string, journeyDate: string, delayMinutes: number}>>}
+ */
+const listVehicleTrips = async (connection, vehicleId, fromDate, toDate) => {
+    const [rows] = await connection.query(
+        `SELECT t.id AS tripId, t.scheduleId, DATE_FORMAT(t.journeyDate, '%Y-%m-%d') AS journeyDate, t.delayMinutes
+         FROM trips t
+         JOIN schedules s ON s.id = t.scheduleId
+         WHERE COALESCE(t.vehicleId, s.vehicleId) = ? AND t.journeyDate BETWEEN ? AND ? AND t.status <> 'CANCELLED'
+         ORDER BY t.journeyDate, t.scheduleId`,
+        [vehicleId, fromDate, toDate]
+    );
+    return rows.map(row => ({ ...row, delayMinutes: Number(row.delayMinutes) }));
+};
+
+/**
+ * The trips of a schedule from `fromDate` on that run with the schedule's own vehicle, i.e. have
+ * not been given another one and are not cancelled.
+ * @returns {Promise<Array<{tripId: string, scheduleId: string, journeyDate: string, delayMinutes: number}>>}
+ */
+const listScheduleVehicleTrips = async (connection, scheduleId, fromDate) => {
+    const [rows] = await connection.query(
+        `SELECT t.id AS tripId, t.scheduleId, DATE_FORMAT(t.journeyDate, '%Y-%m-%d') AS journeyDate, t.delayMinutes
+         FROM trips t
+         WHERE t.scheduleId = ? AND t.journeyDate >= ? AND t.vehicleId IS NULL AND t.status <> 'CANCELLED'
+         ORDER BY t.journeyDate`,
+        [scheduleId, fromDate]
+    );
+    return rows.map(row => ({ ...row, delayMinutes: Number(row.delayMinutes) }));
+};
+
+/**
+ * Finds the first of a vehicle's runs that it cannot make.
+ * @param {object} vehicle
+ * @param {Array<{scheduleId: string, journeyDate: string, start: Date, end: Date}>} runs - The runs being given to it.
+ * @param {Array<{scheduleId: string, journeyDate: string, start: Date, end: Date}>} otherRuns - Its other runs.
+ * @returns {string|null} Why it cannot, or null if it can make them all.
+ */
+const findConflict = (vehicle, runs, otherRuns) => {
+    for (const run of runs) {
+        for (const [label, expiresOn] of [['fitness certificate', vehicle.fitnessExpiresOn], ['insurance', vehicle.insuranceExpiresOn]]) {
+            if (run.journeyDate > expiresOn) {
+                return `The ${label} of ${vehicle.registrationNumber} expires on ${expiresOn}, before its ${run.scheduleId} trip on ${run.journeyDate}.`;
+            }
+        }
+        const overlap = otherRuns.find(other => other.start < run.end && run.start < other.end);
+        if (overlap) {
+            return `${vehicle.registrationNumber} is already running ${overlap.scheduleId} on ${overlap.journeyDate}, which overlaps its ${run.scheduleId} trip on ${run.journeyDate}.`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Makes a vehicle the one that usually runs a schedule, or takes the schedule's vehicle off when
+ * `vehicleId` is null. The schedule takes the vehicle's seat layout and bus class.
+ */
+const setScheduleVehicle = async (connection, scheduleId, vehicle) => {
+    if (vehicle) {
+        await connection.query(
+            'UPDATE schedules SET vehicleId = ?, seatLayout = ?, busClass = ? WHERE id = ?',
+            [vehicle.id, vehicle.seatLayout, vehicle.busClass, scheduleId]
+        );
+    } else {
+        await connection.query('UPDATE schedules SET vehicleId = NULL WHERE id = ?', [scheduleId]);
+    }
+};
+
+/**
+ * Gives a trip a vehicle in place of its schedule's, or hands it back to the schedule's when `vehicleId` is null.
+ */
+const setTripVehicle = async (connection, tripId, vehicleId) => {
+    await connection.query('UPDATE trips SET vehicleId = ?, updatedAt = ? WHERE id = ?', [vehicleId, new Date(), tripId]);
+};
+
+module.exports = {
+    normalizeRegistration,
+    validateVehicle,
+    listVehicles,
+    getVehicle,
+    findByRegistration,
+    saveVehicle,
+    getVehicleUsage,
+    deleteVehicle,
+    listVehicleTrips,
+    listScheduleVehicleTrips,
+    findConflict,
+    setScheduleVehicle,
+    setTripVehicle,
+};
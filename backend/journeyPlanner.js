@@ -0,0 +1,174 @@
+/**
+ * Journey planner: finds ways to get between two stops on one bus or by changing buses at
+ * shared stops, combining up to three schedules. Works on assembled schedules (see
+ * fetchAndAssembleSchedules) and does no I/O of its own.
+ */
+
+const MAX_LEGS = 3;
+const MIN_TRANSFER_MINUTES = 15; // Time needed to get off one bus and onto the next
+const MAX_TRANSFER_MINUTES = 6 * 60; // Longer waits are not offered as connections
+const MAX_RESULTS = 20;
+
+const SORT_KEYS = {
+    duration: ['durationMinutes', 'totalFare', 'changes'],
+    fare: ['totalFare', 'durationMinutes', 'changes'],
+    changes: ['changes', 'durationMinutes', 'totalFare'],
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const nextDay = (dateString) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const date = new Date(year, month - 1, day + 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Checks the wait between arriving on one leg and departing on the next.
+ * @returns {string|null} Why the connection cannot be made, or null if it can.
+ */
+const getTransferError = (arrival, departure, minTransferMinutes = MIN_TRANSFER_MINUTES) => {
+    const waitMinutes = (departure.getTime() - arrival.getTime()) / MINUTE_MS;
+    if (waitMinutes < minTransferMinutes) {
+        return `Connections need at least ${minTransferMinutes} minutes between buses.`;
+    }
+    if (waitMinutes > MAX_TRANSFER_MINUTES) {
+        return `Connections cannot wait more than ${MAX_TRANSFER_MINUTES / 60} hours between buses.`;
+    }
+    return null;
+};
+
+const toClientLeg = (leg) => ({
+    scheduleId: leg.schedule.id,
+    busName: leg.schedule.busName,
+    seatLayout: leg.schedule.seatLayout,
+    isDiscountEnabled: leg.schedule.isDiscountEnabled,
+    startDistrict: leg.schedule.origin,
+    journeyDate: leg.runDate,
+    origin: leg.from.name,
+    destination: leg.to.name,
+    departure: leg.departure.toISOString(),
+    arrival: leg.arrival.toISOString(),
+    fare: leg.fare,
+});
+
+const toClientItinerary = (legs) => {
+    const departure = legs[0].departure;
+    const arrival = legs[legs.length - 1].arrival;
+    return {
+        legs: legs.map(toClientLeg),
+        departure: departure.toISOString(),
+        arrival: arrival.toISOString(),
+        durationMinutes: Math.round((arrival.getTime() - departure.getTime()) / MINUTE_MS),
+        totalFare: legs.reduce((sum, leg) => sum + leg.fare, 0),
+        changes: legs.length - 1,
+        bookingEnabled: legs.every(leg => leg.schedule.bookingEnabled),
+    };
+};
+
+/**
+ * Finds journeys from `origin` to `destination` leaving on `journeyDate`, direct ones included.
+ * The first bus runs on the journey date; later buses may run that day or the next, so
+ * overnight connections are found. Options using the same buses are listed once, cheapest first.
+ * @param {Array<object>} schedules - Assembled schedules.
+ * @param {{origin: string, destination: string, journeyDate: string, minTransferMinutes?: number,
+ *   sort?: 'duration'|'fare'|'changes', now?: Date}} request
+ * @param {(schedule: object, journeyDate: string) => Array<{arrival: Date|null, departure: Date|null}>} buildTimeline
+ *   Resolves a schedule's stop times for a run date, one entry per stop in route order.
+ * @param {(schedule: object, from: object, to: object, journeyDate: string) => number} quoteFare
+ *   Prices one seat between two stops of a schedule on a run date.
+ * @param {(schedule: object, journeyDate: string) => boolean} [runsOn]
+ *   Whether a schedule runs on a run date, e.g. false when that day's trip is cancelled.
+ * @returns {Array<object>} At most MAX_RESULTS itineraries, best first.
+ */
+const planJourneys = (schedules, request, buildTimeline, quoteFare, runsOn = () => true) => {
+    const origin = request.origin.trim().toLowerCase();
+    const destination = request.destination.trim().toLowerCase();
+    const minTransferMinutes = Math.max(MIN_TRANSFER_MINUTES, Number(request.minTransferMinutes) || 0);
+    const now = request.now || new Date();
+    const sortKeys = SORT_KEYS[request.sort] || SORT_KEYS.duration;
+
+    const timelines = {};
+    const getTimeline = (schedule, runDate) => {
+        const key = `${schedule.id}|${runDate}`;
+        if (!timelines[key]) timelines[key] = buildTimeline(schedule, runDate);
+        return timelines[key];
+    };
+
+    // Only stops served by more than one schedule are worth changing at.
+    const schedulesByStop = {};
+    for (const schedule of schedules) {
+        for (const stop of schedule.fullRouteStops || []) {
+            (schedulesByStop[stop.normalizedName] = schedulesByStop[stop.normalizedName] || new Set()).add(schedule);
+        }
+    }
+    const destinationSchedules = schedulesByStop[destination] || new Set();
+
+    const itinerariesByBuses = {};
+    const addItinerary = (legs) => {
+        const itinerary = toClientItinerary(legs);
+        const key = legs.map(leg => `${leg.schedule.id}|${leg.runDate}`).join('>');
+        if (!itinerariesByBuses[key] || itinerary.totalFare < itinerariesByBuses[key].totalFare) {
+            itinerariesByBuses[key] = itinerary;
+        }
+    };
+
+    const extend = (legs, stopName, readyAt, visitedStops) => {
+        const isLastLeg = legs.length === MAX_LEGS - 1;
+        const candidates = isLastLeg ? destinationSchedules : (schedulesByStop[stopName] || new Set());
+        const runDates = legs.length === 0 ? [request.journeyDate] : [request.journeyDate, nextDay(request.journeyDate)];
+
+        for (const schedule of candidates) {
+            if (legs.some(leg => leg.schedule.id === schedule.id)) continue;
+            const stops = schedule.fullRouteStops;
+            const boardIndex = stops.findIndex(stop => stop.normalizedName === stopName);
+            if (boardIndex === -1 || boardIndex === stops.length - 1) continue;
+
+            for (const runDate of runDates) {
+                if (!runsOn(schedule, runDate)) continue;
+                const timeline = getTimeline(schedule, runDate);
+                const departure = timeline[boardIndex].departure;
+                if (!departure) continue;
+                if (legs.length === 0 ? departure <= now : getTransferError(readyAt, departure, minTransferMinutes)) continue;
+
+                for (let index = boardIndex + 1; index < stops.length; index++) {
+                    const stop = stops[index];
+                    const arrival = timeline[index].arrival || timeline[index].departure;
+                    if (!arrival || visitedStops.has(stop.normalizedName)) continue;
+
+                    const leg = {
+                        schedule, runDate, from: stops[boardIndex], to: stop, departure, arrival,
+                        fare: quoteFare(schedule, stops[boardIndex], stop, runDate),
+                    };
+                    if (stop.normalizedName === destination) {
+                        addItinerary([...legs, leg]);
+                        break;
+                    }
+                    if (!isLastLeg && (schedulesByStop[stop.normalizedName]?.size || 0) > 1) {
+                        extend([...legs, leg], stop.normalizedName, arrival, new Set([...visitedStops, stop.normalizedName]));
+                    }
+                }
+            }
+        }
+    };
+
+    if (origin !== destination) {
+        extend([], origin, null, new Set([origin]));
+    }
+
+    const compare = (a, b) => {
+        for (const key of sortKeys) {
+            if (a[key] !== b[key]) return a[key] - b[key];
+        }
+        return a.departure.localeCompare(b.departure);
+    };
+    return Object.keys(itinerariesByBuses).map(key => itinerariesByBuses[key]).sort(compare).slice(0, MAX_RESULTS);
+};
+
+module.exports = {
+    MAX_LEGS,
+    MIN_TRANSFER_MINUTES,
+    nextDay,
+    getTransferError,
+    planJourneys,
+};
@@ -0,0 +1,49 @@
+const fs = require('fs');
+const path = require('path');
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+
+/**
+ * Splits a migration file into individual statements.
+ * Statements are terminated by a semicolon at the end of a line.
+ * @param {string} sql - The raw contents of a migration file.
+ * @returns {string[]} The non-empty statements, in order.
+ */
+const splitStatements = (sql) => sql
+    .split(/;\s*$/m)
+    .map(statement => statement.replace(/^\s*--.*$/gm, '').trim())
+    .filter(statement => statement.length > 0);
+
+/**
+ * Applies every pending `.sql` file in `backend/migrations`, in file name order.
+ * Applied migrations are recorded in the `schema_migrations` table so each one runs once.
+ * @param {object} pool - The mysql2 connection pool.
+ */
+const runMigrations = async (pool) => {
+    await pool.query(
+        `CREATE TABLE IF NOT EXISTS schema_migrations (
+            name VARCHAR(255) NOT NULL PRIMARY KEY,
+            appliedAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )`
+    );
+
+    const [appliedRows] = await pool.query('SELECT name FROM schema_migrations');
+    const applied = new Set(appliedRows.map(r => r.name));
+
+    const files = fs.readdirSync(MIGRATIONS_DIR)
+        .filter(file => file.endsWith('.sql'))
+        .sort();
+
+    for (const file of files) {
+        if (applied.has(file)) continue;
+
+        const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+        for (const statement of splitStatements(sql)) {
+            await pool.query(statement);
+        }
+        await pool.query('INSERT INTO schema_migrations (name) VALUES (?)', [file]);
+        console.log(`Applied migration ${file}.`);
+    }
+};
+
+module.exports = { runMigrations };
@@ -0,0 +1,7 @@
+-- Bookings carry the travel day explicitly instead of it being inferred from bookingDate.
+ALTER TABLE bookings ADD COLUMN journeyDate DATE NULL AFTER bookingDate;
+
+-- Legacy rows: assume the journey was on the day it was booked.
+UPDATE bookings SET journeyDate = DATE(bookingDate) WHERE journeyDate IS NULL;
+
+CREATE INDEX idx_bookings_schedule_journey ON bookings (scheduleId, journeyDate);
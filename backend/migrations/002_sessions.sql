@@ -0,0 +1,14 @@
+-- Server-side sessions. Tokens are stored as SHA-256 hashes only.
+CREATE TABLE IF NOT EXISTS sessions (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    userId VARCHAR(36) NOT NULL,
+    accessTokenHash CHAR(64) NOT NULL,
+    refreshTokenHash CHAR(64) NOT NULL,
+    accessExpiresAt DATETIME NOT NULL,
+    refreshExpiresAt DATETIME NOT NULL,
+    revokedAt DATETIME NULL,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_sessions_access (accessTokenHash),
+    UNIQUE KEY uq_sessions_refresh (refreshTokenHash),
+    KEY idx_sessions_user (userId)
+);
@@ -0,0 +1,3 @@
+-- Salted scrypt hashes are longer than the plaintext passwords this column used to hold.
+-- Existing plaintext rows are rehashed the first time each user logs in.
+ALTER TABLE users MODIFY password VARCHAR(255) NULL;
@@ -0,0 +1,20 @@
+-- OTP codes, stored as salted hashes so they survive restarts without being readable.
+CREATE TABLE IF NOT EXISTS otp_codes (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    phone VARCHAR(20) NOT NULL,
+    codeHash CHAR(64) NOT NULL,
+    salt CHAR(32) NOT NULL,
+    requestIp VARCHAR(45) NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    expiresAt DATETIME NOT NULL,
+    consumedAt DATETIME NULL,
+    createdAt DATETIME NOT NULL,
+    KEY idx_otp_codes_phone (phone, createdAt),
+    KEY idx_otp_codes_ip (requestIp, createdAt)
+);
+
+-- Phones locked out of OTP login after too many failed verification attempts.
+CREATE TABLE IF NOT EXISTS otp_lockouts (
+    phone VARCHAR(20) NOT NULL PRIMARY KEY,
+    lockedUntil DATETIME NOT NULL
+);
@@ -0,0 +1,9 @@
+-- Server-issued CAPTCHA challenges. Each row is deleted when its answer is checked.
+CREATE TABLE IF NOT EXISTS captcha_challenges (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    answerHash CHAR(64) NOT NULL,
+    salt CHAR(32) NOT NULL,
+    expiresAt DATETIME NOT NULL,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    KEY idx_captcha_expires (expiresAt)
+);
@@ -0,0 +1,15 @@
+-- Short-lived seat holds placed while a passenger is checking out. A hold covers one seat
+-- for one segment (stored as normalized stop names) of a schedule on a journey date.
+CREATE TABLE IF NOT EXISTS seat_holds (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    scheduleId VARCHAR(255) NOT NULL,
+    journeyDate DATE NOT NULL,
+    seatId VARCHAR(10) NOT NULL,
+    userId VARCHAR(36) NOT NULL,
+    origin VARCHAR(255) NOT NULL,
+    destination VARCHAR(255) NOT NULL,
+    expiresAt DATETIME NOT NULL,
+    createdAt DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uq_seat_holds_user_seat (scheduleId, journeyDate, seatId, userId),
+    KEY idx_seat_holds_expires (expiresAt)
+);
@@ -0,0 +1,23 @@
+-- Paid bookings wait in PENDING_PAYMENT until the gateway confirms payment, and become
+-- EXPIRED (releasing their seats) if it does not arrive in time.
+UPDATE bookings SET status = 'CONFIRMED' WHERE status IS NULL;
+ALTER TABLE bookings MODIFY status VARCHAR(30) NOT NULL DEFAULT 'CONFIRMED';
+ALTER TABLE bookings ADD COLUMN paymentExpiresAt DATETIME NULL AFTER status;
+CREATE INDEX idx_bookings_status_payment ON bookings (status, paymentExpiresAt);
+
+-- One row per payment attempt on a booking.
+CREATE TABLE IF NOT EXISTS payment_intents (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    bookingId VARCHAR(36) NOT NULL,
+    userId VARCHAR(36) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    currency CHAR(3) NOT NULL DEFAULT 'INR',
+    gateway VARCHAR(30) NOT NULL,
+    gatewayReference VARCHAR(100) NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PROCESSING',
+    failureReason VARCHAR(255) NULL,
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL,
+    KEY idx_payment_intents_booking (bookingId),
+    KEY idx_payment_intents_status (status, createdAt)
+);
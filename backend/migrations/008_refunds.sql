@@ -0,0 +1,37 @@
+-- Refund ledger: one row per refunded seat (or per booking, for payments that arrived too late).
+CREATE TABLE IF NOT EXISTS refunds (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    bookingId VARCHAR(36) NOT NULL,
+    paymentId VARCHAR(36) NULL,
+    seatId VARCHAR(10) NULL,
+    passengerType VARCHAR(20) NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    reason VARCHAR(255) NOT NULL,
+    initiatedBy VARCHAR(10) NOT NULL, -- USER, ADMIN or SYSTEM
+    initiatedByUserId VARCHAR(36) NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'PENDING', -- Payout status: PENDING, PROCESSED or FAILED
+    payoutReference VARCHAR(100) NULL,
+    attempts INT NOT NULL DEFAULT 0,
+    failureReason VARCHAR(255) NULL,
+    createdAt DATETIME NOT NULL,
+    processedAt DATETIME NULL,
+    KEY idx_refunds_booking (bookingId),
+    KEY idx_refunds_status (status, createdAt)
+);
+
+-- Seats cancelled before the ledger existed. Their payout happened outside the system.
+INSERT INTO refunds (bookingId, seatId, passengerType, amount, reason, initiatedBy, initiatedByUserId, status, createdAt, processedAt)
+SELECT b.id, p.seatId, p.type, COALESCE(p.fare, 0), 'Cancelled by passenger', 'USER', b.userId, 'PROCESSED', b.bookingDate, b.bookingDate
+FROM bookings b
+JOIN JSON_TABLE(
+    b.passengerDetails,
+    '$[*]' COLUMNS (
+        seatId VARCHAR(10) PATH '$.seatId',
+        type VARCHAR(20) PATH '$.type',
+        fare DECIMAL(10,2) PATH '$.fare',
+        status VARCHAR(20) PATH '$.status'
+    )
+) AS p
+WHERE b.passengerDetails IS NOT NULL
+  AND JSON_VALID(b.passengerDetails)
+  AND p.status = 'CANCELLED';
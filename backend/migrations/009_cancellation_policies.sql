@@ -0,0 +1,17 @@
+-- Cancellation fee slabs. The row with a NULL district is the default policy; other rows
+-- override it for schedules starting in that district.
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+    id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    district VARCHAR(100) NULL,
+    slabs JSON NOT NULL, -- [{"minHoursBeforeDeparture": 24, "feePercentage": 0}, ...]
+    updatedAt DATETIME NOT NULL,
+    UNIQUE KEY uq_cancellation_policies_district (district)
+);
+
+-- Keep the old rule as the starting policy: free up to 1 hour before departure.
+INSERT INTO cancellation_policies (district, slabs, updatedAt)
+SELECT NULL, '[{"minHoursBeforeDeparture": 1, "feePercentage": 0}]', NOW()
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM cancellation_policies WHERE district IS NULL);
+
+ALTER TABLE refunds ADD COLUMN cancellationFee DECIMAL(10,2) NOT NULL DEFAULT 0 AFTER amount;
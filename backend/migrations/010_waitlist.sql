@@ -0,0 +1,17 @@
+-- Passengers queueing for a sold-out segment. When seats free up, the earliest entries that
+-- fit are given a booking awaiting payment (the "offer").
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    userId VARCHAR(36) NOT NULL,
+    scheduleId VARCHAR(255) NOT NULL,
+    journeyDate DATE NOT NULL,
+    origin VARCHAR(255) NOT NULL,
+    destination VARCHAR(255) NOT NULL,
+    passengers JSON NOT NULL, -- [{"fullName", "type", "aadhaarNumber"}], one per seat wanted
+    status VARCHAR(20) NOT NULL DEFAULT 'WAITING', -- WAITING, OFFERED, EXPIRED or CANCELLED
+    bookingId VARCHAR(36) NULL, -- The offered booking, once promoted
+    createdAt DATETIME(3) NOT NULL,
+    updatedAt DATETIME(3) NOT NULL,
+    KEY idx_waitlist_queue (scheduleId, journeyDate, status, createdAt),
+    KEY idx_waitlist_user (userId, status)
+);
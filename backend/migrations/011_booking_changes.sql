@@ -0,0 +1,23 @@
+-- History of changes passengers made to their bookings (seats, date or segment). A change
+-- that costs more waits in PENDING_PAYMENT, with its new seats held, until the difference is paid.
+CREATE TABLE IF NOT EXISTS booking_changes (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    bookingId VARCHAR(36) NOT NULL,
+    userId VARCHAR(36) NOT NULL,
+    previousState JSON NOT NULL, -- {journeyDate, origin, destination, passengers: [{seatId, fullName, type, fare}]}
+    newState JSON NOT NULL, -- Same shape; passengers are listed in the same order as in previousState
+    fareDifference DECIMAL(10,2) NOT NULL,
+    status VARCHAR(20) NOT NULL, -- APPLIED, PENDING_PAYMENT, EXPIRED, CANCELLED or FAILED
+    paymentExpiresAt DATETIME NULL,
+    createdAt DATETIME NOT NULL,
+    appliedAt DATETIME NULL,
+    KEY idx_booking_changes_booking (bookingId),
+    KEY idx_booking_changes_pending (status, paymentExpiresAt)
+);
+
+ALTER TABLE payment_intents ADD COLUMN changeId BIGINT UNSIGNED NULL AFTER bookingId;
+
+-- Refunds now also settle cheaper booking changes, so record what each one was for:
+-- CANCELLATION, FARE_ADJUSTMENT or LATE_PAYMENT.
+ALTER TABLE refunds ADD COLUMN refundType VARCHAR(20) NOT NULL DEFAULT 'CANCELLATION' AFTER passengerType;
+UPDATE refunds SET refundType = 'LATE_PAYMENT' WHERE seatId IS NULL;
@@ -0,0 +1,15 @@
+-- Journeys booked as one: the legs of a connecting journey are separate bookings linked by
+-- an itinerary, paid for together and cancellable leg by leg.
+CREATE TABLE IF NOT EXISTS itineraries (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    userId VARCHAR(36) NOT NULL,
+    createdAt DATETIME NOT NULL,
+    KEY idx_itineraries_user (userId)
+);
+
+ALTER TABLE bookings ADD COLUMN itineraryId VARCHAR(36) NULL AFTER scheduleId;
+ALTER TABLE bookings ADD COLUMN itineraryLeg TINYINT UNSIGNED NULL AFTER itineraryId;
+ALTER TABLE bookings ADD KEY idx_bookings_itinerary (itineraryId);
+
+-- A payment for an itinerary covers every leg; `bookingId` then holds the first leg.
+ALTER TABLE payment_intents ADD COLUMN itineraryId VARCHAR(36) NULL AFTER changeId;
@@ -0,0 +1,2 @@
+-- A round trip is an itinerary of two legs, out and back, booked for the same passengers.
+ALTER TABLE itineraries ADD COLUMN kind ENUM('CONNECTING', 'ROUND_TRIP') NOT NULL DEFAULT 'CONNECTING' AFTER userId;
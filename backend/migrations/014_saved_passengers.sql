@@ -0,0 +1,13 @@
+-- Passengers a user books for often, picked into seats instead of being retyped. The date of
+-- birth decides whether they may travel on a child or senior ticket.
+CREATE TABLE IF NOT EXISTS saved_passengers (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    userId VARCHAR(36) NOT NULL,
+    fullName VARCHAR(255) NOT NULL,
+    dob DATE NOT NULL,
+    relation VARCHAR(20) NOT NULL,
+    aadhaarNumber CHAR(12) NULL,
+    createdAt DATETIME(3) NOT NULL,
+    updatedAt DATETIME(3) NOT NULL,
+    KEY idx_saved_passengers_user (userId)
+);
@@ -0,0 +1,34 @@
+-- Age bands that decide who may travel on a child or senior ticket, checked against each
+-- passenger's date of birth on the journey date. A NULL maxAge has no upper limit.
+CREATE TABLE IF NOT EXISTS concession_age_bands (
+    type ENUM('CHILD','SENIOR') NOT NULL PRIMARY KEY,
+    minAge TINYINT UNSIGNED NOT NULL,
+    maxAge TINYINT UNSIGNED NULL,
+    updatedAt DATETIME NOT NULL
+);
+
+-- Keep the ages the booking form used to assume: children under 12, seniors from 60.
+INSERT INTO concession_age_bands (type, minAge, maxAge, updatedAt)
+SELECT 'CHILD', 0, 11, NOW()
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM concession_age_bands WHERE type = 'CHILD');
+
+INSERT INTO concession_age_bands (type, minAge, maxAge, updatedAt)
+SELECT 'SENIOR', 60, NULL, NOW()
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM concession_age_bands WHERE type = 'SENIOR');
+
+-- A concession seat whose Aadhaar number is also travelling on a concession in another
+-- booking at the same time. Bookings go ahead; admins review the flags.
+CREATE TABLE IF NOT EXISTS concession_flags (
+    id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    bookingId VARCHAR(36) NOT NULL,
+    seatId VARCHAR(10) NOT NULL,
+    conflictingBookingId VARCHAR(36) NOT NULL,
+    conflictingSeatId VARCHAR(10) NOT NULL,
+    aadhaarLastDigits CHAR(4) NOT NULL,
+    createdAt DATETIME NOT NULL,
+    reviewedAt DATETIME NULL,
+    KEY idx_concession_flags_booking (bookingId),
+    KEY idx_concession_flags_reviewed (reviewedAt)
+);
@@ -0,0 +1,43 @@
+-- Concession categories beyond child and senior: each gives a discount to passengers who show
+-- a proof document, optionally limited to an age band, a number of passengers per booking and
+-- the districts buses start in. An empty districts list means every district with discounts.
+CREATE TABLE IF NOT EXISTS concession_categories (
+    code VARCHAR(20) NOT NULL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    discountPercentage DECIMAL(5,2) NOT NULL,
+    proofType VARCHAR(30) NOT NULL,
+    minAge TINYINT UNSIGNED NULL,
+    maxAge TINYINT UNSIGNED NULL,
+    maxPerBooking TINYINT UNSIGNED NULL,
+    districts JSON NOT NULL,
+    isActive TINYINT(1) NOT NULL DEFAULT 1,
+    sortOrder SMALLINT NOT NULL DEFAULT 0,
+    updatedAt DATETIME NOT NULL
+);
+
+-- Carry over the child and senior discounts and their age bands.
+INSERT INTO concession_categories (code, name, discountPercentage, proofType, minAge, maxAge, maxPerBooking, districts, isActive, sortOrder, updatedAt)
+SELECT 'CHILD', 'Child',
+    COALESCE((SELECT CAST(`value` AS DECIMAL(5,2)) FROM settings WHERE `key` = 'childDiscountPercentage'), 40),
+    'AADHAAR',
+    COALESCE((SELECT minAge FROM concession_age_bands WHERE type = 'CHILD'), 0),
+    COALESCE((SELECT maxAge FROM concession_age_bands WHERE type = 'CHILD'), 11),
+    NULL, JSON_ARRAY(), 1, 0, NOW()
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM concession_categories WHERE code = 'CHILD');
+
+INSERT INTO concession_categories (code, name, discountPercentage, proofType, minAge, maxAge, maxPerBooking, districts, isActive, sortOrder, updatedAt)
+SELECT 'SENIOR', 'Senior Citizen',
+    COALESCE((SELECT CAST(`value` AS DECIMAL(5,2)) FROM settings WHERE `key` = 'seniorDiscountPercentage'), 50),
+    'AADHAAR',
+    COALESCE((SELECT minAge FROM concession_age_bands WHERE type = 'SENIOR'), 60),
+    (SELECT maxAge FROM concession_age_bands WHERE type = 'SENIOR'),
+    NULL, JSON_ARRAY(), 1, 1, NOW()
+FROM DUAL
+WHERE NOT EXISTS (SELECT 1 FROM concession_categories WHERE code = 'SENIOR');
+
+DROP TABLE IF EXISTS concession_age_bands;
+DELETE FROM settings WHERE `key` IN ('childDiscountPercentage', 'seniorDiscountPercentage');
+
+-- Ticket types are now category codes rather than a fixed list.
+ALTER TABLE bookings MODIFY COLUMN discountType VARCHAR(20) NULL DEFAULT 'NONE';
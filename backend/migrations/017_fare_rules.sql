@@ -0,0 +1,20 @@
+-- Fares worked out from distance: each schedule runs a class of bus and each stop records how
+-- far along the route it is. Stops without a distance keep being priced from their stored fare.
+ALTER TABLE schedules ADD COLUMN busClass VARCHAR(20) NOT NULL DEFAULT 'ORDINARY' AFTER seatLayout;
+ALTER TABLE routestops ADD COLUMN distanceKm DECIMAL(7,2) NULL AFTER departureTime;
+
+-- Fare tables, each in effect from its date until the next one. Rates are kept per bus class:
+-- {"ORDINARY": {"ratePerKm", "minimumFare"}, "EXPRESS": {...}, "AC": {...}, "VOLVO": {...}}
+CREATE TABLE IF NOT EXISTS fare_revisions (
+    id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    effectiveFrom DATE NOT NULL,
+    rates JSON NOT NULL,
+    roundTo DECIMAL(6,2) NOT NULL DEFAULT 1,
+    roundingMode VARCHAR(10) NOT NULL DEFAULT 'NEAREST', -- NEAREST, UP or DOWN
+    nightStartTime TIME NULL,
+    nightEndTime TIME NULL,
+    nightSurchargePercentage DECIMAL(5,2) NOT NULL DEFAULT 0,
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL,
+    UNIQUE KEY uq_fare_revisions_effective_from (effectiveFrom)
+);
@@ -0,0 +1,23 @@
+-- Conductors: bus staff who check tickets at the door. Roles used to be USER, ADMIN and SUB_ADMIN only.
+ALTER TABLE users MODIFY COLUMN role VARCHAR(20) NOT NULL DEFAULT 'USER';
+
+-- The trips each conductor works. A trip has one conductor.
+CREATE TABLE IF NOT EXISTS conductor_assignments (
+    id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    conductorId VARCHAR(36) NOT NULL,
+    scheduleId VARCHAR(255) NOT NULL,
+    journeyDate DATE NOT NULL,
+    createdAt DATETIME NOT NULL,
+    UNIQUE KEY uq_conductor_assignments_trip (scheduleId, journeyDate),
+    KEY idx_conductor_assignments_conductor (conductorId, journeyDate)
+);
+
+-- Whether each booked seat's passenger got on. Seats without a record have not been checked yet.
+CREATE TABLE IF NOT EXISTS boarding_records (
+    bookingId VARCHAR(36) NOT NULL,
+    seatId VARCHAR(10) NOT NULL,
+    status VARCHAR(10) NOT NULL, -- BOARDED or NO_SHOW
+    recordedBy VARCHAR(36) NOT NULL,
+    recordedAt DATETIME(3) NOT NULL,
+    PRIMARY KEY (bookingId, seatId)
+);
@@ -0,0 +1,31 @@
+-- Dated departures. A schedule is a daily timetable; each day it runs is a trip that can be
+-- cancelled, delayed or given a different bus on its own. Trips are generated ahead of time
+-- over the booking window.
+CREATE TABLE IF NOT EXISTS trips (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    scheduleId VARCHAR(255) NOT NULL,
+    journeyDate DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'SCHEDULED', -- SCHEDULED or CANCELLED
+    delayMinutes SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+    busName VARCHAR(255) NULL, -- The bus running this trip when it is not the schedule's usual one
+    note VARCHAR(255) NULL, -- Shown to passengers, e.g. why the trip is delayed
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL,
+    UNIQUE KEY uq_trips_schedule_date (scheduleId, journeyDate),
+    KEY idx_trips_date (journeyDate)
+);
+
+ALTER TABLE bookings ADD COLUMN tripId VARCHAR(36) NULL AFTER scheduleId;
+ALTER TABLE bookings ADD KEY idx_bookings_trip (tripId);
+
+-- Existing bookings get the trip they travel on.
+INSERT IGNORE INTO trips (id, scheduleId, journeyDate, status, delayMinutes, createdAt, updatedAt)
+SELECT UUID(), scheduleId, journeyDate, 'SCHEDULED', 0, NOW(), NOW()
+FROM bookings
+WHERE journeyDate IS NOT NULL
+GROUP BY scheduleId, journeyDate;
+
+UPDATE bookings b
+JOIN trips t ON t.scheduleId = b.scheduleId AND t.journeyDate = b.journeyDate
+SET b.tripId = t.id
+WHERE b.tripId IS NULL;
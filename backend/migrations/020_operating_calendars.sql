@@ -0,0 +1,19 @@
+-- Operating calendars. A schedule runs on its days of the week between its validity dates,
+-- skips public holidays unless it is marked to run on them, and has dated exceptions on top:
+-- extra runs (festivals, exam days) and excluded dates.
+ALTER TABLE schedules ADD COLUMN operatingDays VARCHAR(27) NOT NULL DEFAULT 'MON,TUE,WED,THU,FRI,SAT,SUN' AFTER bookingEnabled;
+ALTER TABLE schedules ADD COLUMN validFrom DATE NULL AFTER operatingDays;
+ALTER TABLE schedules ADD COLUMN validUntil DATE NULL AFTER validFrom;
+ALTER TABLE schedules ADD COLUMN runsOnHolidays TINYINT(1) NOT NULL DEFAULT 1 AFTER validUntil;
+
+CREATE TABLE IF NOT EXISTS schedule_calendar_dates (
+    scheduleId VARCHAR(255) NOT NULL,
+    serviceDate DATE NOT NULL,
+    kind VARCHAR(10) NOT NULL, -- EXTRA or EXCLUDED
+    PRIMARY KEY (scheduleId, serviceDate)
+);
+
+CREATE TABLE IF NOT EXISTS holidays (
+    holidayDate DATE NOT NULL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL
+);
@@ -0,0 +1,39 @@
+-- Cancelling a dated trip with passengers on board: why it was cancelled, and what became of
+-- each booking. Bookings are refunded straight away, or offered a seat on another bus for the
+-- same segment and refunded if the offer is declined or lapses.
+ALTER TABLE trips ADD COLUMN cancellationReason VARCHAR(255) NULL AFTER note;
+ALTER TABLE trips ADD COLUMN cancelledAt DATETIME NULL AFTER cancellationReason;
+ALTER TABLE trips ADD COLUMN cancelledBy VARCHAR(36) NULL AFTER cancelledAt;
+
+CREATE TABLE IF NOT EXISTS trip_disruptions (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    tripId VARCHAR(36) NOT NULL,
+    bookingId VARCHAR(36) NOT NULL,
+    userId VARCHAR(36) NOT NULL,
+    passengers JSON NOT NULL, -- [{"seatId", "fullName", "type", "fare"}] on the cancelled trip
+    status VARCHAR(20) NOT NULL, -- OFFERED, REBOOKED, REFUNDED or CLOSED
+    resolution VARCHAR(30) NULL, -- How it was settled, e.g. NO_ALTERNATIVE, DECLINED, OFFER_LAPSED
+    alternatives JSON NULL, -- The buses offered: [{"scheduleId", "journeyDate", "busName", "departure", "arrival"}]
+    offerExpiresAt DATETIME NULL,
+    rebookedScheduleId VARCHAR(255) NULL,
+    rebookedJourneyDate DATE NULL,
+    rebookedSeatIds JSON NULL, -- {"seat on the cancelled trip": "new seat"}
+    refundAmount DECIMAL(10,2) NULL,
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL,
+    UNIQUE KEY uq_trip_disruptions_booking (tripId, bookingId),
+    KEY idx_trip_disruptions_booking (bookingId),
+    KEY idx_trip_disruptions_offers (status, offerExpiresAt)
+);
+
+-- Messages to passengers, shown on their dashboard and also sent by text message.
+CREATE TABLE IF NOT EXISTS notifications (
+    id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+    userId VARCHAR(36) NOT NULL,
+    bookingId VARCHAR(36) NULL,
+    title VARCHAR(100) NOT NULL,
+    message VARCHAR(500) NOT NULL,
+    readAt DATETIME NULL,
+    createdAt DATETIME NOT NULL,
+    KEY idx_notifications_user (userId, createdAt)
+);
@@ -0,0 +1,21 @@
+-- The fleet: buses as vehicles in their own right rather than a name on a schedule. A schedule
+-- has the vehicle that usually runs it; a trip can be given another one for its date.
+CREATE TABLE IF NOT EXISTS vehicles (
+    id VARCHAR(36) NOT NULL PRIMARY KEY,
+    registrationNumber VARCHAR(15) NOT NULL, -- Stored without spaces or dashes, e.g. HR26AB1234
+    depot VARCHAR(100) NOT NULL,
+    busClass VARCHAR(20) NOT NULL,
+    seatLayout VARCHAR(20) NOT NULL,
+    capacity SMALLINT UNSIGNED NOT NULL, -- Seats plus standing room
+    fitnessExpiresOn DATE NOT NULL,
+    insuranceExpiresOn DATE NOT NULL,
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL,
+    UNIQUE KEY uq_vehicles_registration (registrationNumber)
+);
+
+ALTER TABLE schedules ADD COLUMN vehicleId VARCHAR(36) NULL;
+ALTER TABLE schedules ADD KEY idx_schedules_vehicle (vehicleId);
+
+ALTER TABLE trips ADD COLUMN vehicleId VARCHAR(36) NULL AFTER busName;
+ALTER TABLE trips ADD KEY idx_trips_vehicle (vehicleId, journeyDate);
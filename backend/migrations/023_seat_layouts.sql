@@ -0,0 +1,14 @@
+-- Seat layouts designed by admins, beyond the built-in 2x2, 2x3 and 2x1 grids. decks holds each
+-- deck's name, rows and columns; seats holds each seat's number, deck, row, column, type
+-- (SEATER or SLEEPER) and attributes (WINDOW, LADIES, DISABLED, CONDUCTOR_QUOTA).
+CREATE TABLE IF NOT EXISTS seat_layouts (
+    id VARCHAR(20) NOT NULL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    decks JSON NOT NULL,
+    seats JSON NOT NULL,
+    createdAt DATETIME NOT NULL,
+    updatedAt DATETIME NOT NULL
+);
+
+-- Schedules name any layout by its id, not just the built-in grids.
+ALTER TABLE schedules MODIFY COLUMN seatLayout VARCHAR(20) NOT NULL;
@@ -0,0 +1,13 @@
+-- Free-ticket bookings used to be stored without passenger details, so cancelling or rebooking
+-- them found nobody to move. Record the beneficiary on each seat they still hold, as new free
+-- bookings do.
+UPDATE bookings b
+JOIN users u ON u.id = b.userId
+SET b.passengerDetails = (
+    SELECT JSON_ARRAYAGG(JSON_OBJECT(
+        'seatId', bs.seatId, 'fullName', u.fullName, 'type', 'NORMAL', 'status', 'BOOKED', 'fare', 0, 'gender', u.gender
+    ))
+    FROM bookedseats bs
+    WHERE bs.bookingId = b.id
+)
+WHERE b.isFreeTicket = 1 AND b.passengerDetails IS NULL;
@@ -0,0 +1,81 @@
+/**
+ * Notifications: messages to passengers about their bookings. Each one is kept for the
+ * passenger's dashboard and, when they have a phone number, also sent by text message
+ * through the same provider that delivers OTPs.
+ */
+
+const MAX_LISTED = 50;
+
+const toClientNotification = (row) => ({
+    id: String(row.id),
+    bookingId: row.bookingId,
+    title: row.title,
+    message: row.message,
+    readAt: row.readAt,
+    createdAt: row.createdAt,
+});
+
+/**
+ * Stores notifications. Run inside the transaction that caused them, then hand the result to
+ * `sendTextMessages` once it has committed.
+ * @param {Array<{userId: string, bookingId?: string|null, title: string, message: string}>} items
+ * @returns {Promise<Array<{phone: string, message: string}>>} The text messages to send.
+ */
+const createNotifications = async (connection, items) => {
+    if (items.length === 0) return [];
+    const now = new Date();
+    await connection.query(
+        'INSERT INTO notifications (userId, bookingId, title, message, createdAt) VALUES ?',
+        [items.map(item => [item.userId, item.bookingId || null, item.title, item.message.slice(0, 500), now])]
+    );
+    const [users] = await connection.query(
+        'SELECT id, phone FROM users WHERE id IN (?)',
+        [[...new Set(items.map(item => item.userId))]]
+    );
+    const phones = new Map(users.filter(user => user.phone).map(user => [user.id, user.phone]));
+    return items
+        .filter(item => phones.has(item.userId))
+        .map(item => ({ phone: phones.get(item.userId), message: `${item.title}: ${item.message}` }));
+};
+
+/**
+ * Sends text messages one by one. A failed message is logged and skipped; the notification
+ * is still on the passenger's dashboard.
+ */
+const sendTextMessages = async (provider, messages) => {
+    for (const { phone, message } of messages) {
+        try {
+            await provider.send(phone, message);
+        } catch (error) {
+            console.error(`Failed to send a notification to ${phone}:`, error.message);
+        }
+    }
+};
+
+/**
+ * @returns {Promise<Array<object>>} The user's latest notifications, newest first.
+ */
+const listNotifications = async (connection, userId) => {
+    const [rows] = await connection.query(
+        'SELECT * FROM notifications WHERE userId = ? ORDER BY createdAt DESC, id DESC LIMIT ?',
+        [userId, MAX_LISTED]
+    );
+    return rows.map(toClientNotification);
+};
+
+/**
+ * @returns {Promise<boolean>} Whether the user has a notification with this id.
+ */
+const markRead = async (connection, userId, notificationId) => {
+    const [[row]] = await connection.query('SELECT id FROM notifications WHERE id = ? AND userId = ?', [notificationId, userId]);
+    if (!row) return false;
+    await connection.query('UPDATE notifications SET readAt = ? WHERE id = ? AND readAt IS NULL', [new Date(), notificationId]);
+    return true;
+};
+
+module.exports = {
+    createNotifications,
+    sendTextMessages,
+    listNotifications,
+    markRead,
+};
@@ -0,0 +1,232 @@
+/**
+ * Operating calendars. A schedule runs on its days of the week between its validity dates
+ * (either may be open), and not on public holidays unless `runsOnHolidays` is set. Dated
+ * exceptions override all of that: extra runs add a date, excluded dates remove one.
+ */
+
+const DAY_CODES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const WEEK = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+const MAX_DATED_EXCEPTIONS = 366;
+const MAX_HOLIDAYS = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const addDays = (dateString, days) => {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+const dayCodeOf = (dateString) => DAY_CODES[new Date(`${dateString}T00:00:00Z`).getUTCDay()];
+
+const DEFAULT_CALENDAR = {
+    operatingDays: WEEK,
+    validFrom: null,
+    validUntil: null,
+    runsOnHolidays: true,
+    extraDates: [],
+    excludedDates: [],
+};
+
+/**
+ * Checks an operating calendar sent with a schedule.
+ * @param {{operatingDays: Array<string>, validFrom?: string|null, validUntil?: string|null, runsOnHolidays?: boolean,
+ *   extraDates?: Array<string>, excludedDates?: Array<string>}} calendar
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateCalendar = (calendar) => {
+    if (!calendar || typeof calendar !== 'object') {
+        return 'The operating calendar is missing.';
+    }
+    const { operatingDays, validFrom = null, validUntil = null, runsOnHolidays = true, extraDates = [], excludedDates = [] } = calendar;
+    if (!Array.isArray(operatingDays) || operatingDays.some(day => !WEEK.includes(day))) {
+        return `Operating days must be a list of ${WEEK.join(', ')}.`;
+    }
+    if (operatingDays.length === 0 && (!Array.isArray(extraDates) || extraDates.length === 0)) {
+        return 'A schedule must run on at least one day of the week or have extra runs.';
+    }
+    for (const [label, value] of [['Valid from', validFrom], ['Valid until', validUntil]]) {
+        if (value !== null && !isValidDate(value)) {
+            return `${label} must be a date (YYYY-MM-DD).`;
+        }
+    }
+    if (validFrom && validUntil && validFrom > validUntil) {
+        return 'Valid from must not be after valid until.';
+    }
+    if (typeof runsOnHolidays !== 'boolean') {
+        return 'Runs on holidays must be true or false.';
+    }
+    for (const [label, dates] of [['Extra runs', extraDates], ['Excluded dates', excludedDates]]) {
+        if (!Array.isArray(dates) || dates.some(date => !isValidDate(date))) {
+            return `${label} must be a list of dates (YYYY-MM-DD).`;
+        }
+        if (dates.length > MAX_DATED_EXCEPTIONS) {
+            return `${label} can list at most ${MAX_DATED_EXCEPTIONS} dates.`;
+        }
+    }
+    const clash = extraDates.find(date => excludedDates.includes(date));
+    if (clash) {
+        return `${clash} is listed both as an extra run and as an excluded date.`;
+    }
+    return null;
+};
+
+/**
+ * @returns {boolean} Whether a schedule with this calendar runs on a 'YYYY-MM-DD' date.
+ * @param {Set<string>} holidayDates - Public holidays around the date.
+ */
+const runsOn = (calendar, holidayDates, date) => {
+    if (calendar.excludedDates.includes(date)) return false;
+    if (calendar.extraDates.includes(date)) return true;
+    if (calendar.validFrom && date < calendar.validFrom) return false;
+    if (calendar.validUntil && date > calendar.validUntil) return false;
+    if (!calendar.runsOnHolidays && holidayDates.has(date)) return false;
+    return calendar.operatingDays.includes(dayCodeOf(date));
+};
+
+/**
+ * @returns {Array<string>} The dates from `fromDate` to `toDate` (inclusive) a schedule with this calendar runs on.
+ */
+const listRunDates = (calendar, holidayDates, fromDate, toDate) => {
+    const dates = [];
+    for (let date = fromDate; date <= toDate; date = addDays(date, 1)) {
+        if (runsOn(calendar, holidayDates, date)) dates.push(date);
+    }
+    return dates;
+};
+
+const toCalendar = (row, datedRows) => ({
+    operatingDays: WEEK.filter(day => (row.operatingDays || '').split(',').includes(day)),
+    validFrom: row.validFrom || null,
+    validUntil: row.validUntil || null,
+    runsOnHolidays: Boolean(Number(row.runsOnHolidays)),
+    extraDates: datedRows.filter(dated => dated.kind === 'EXTRA').map(dated => dated.serviceDate),
+    excludedDates: datedRows.filter(dated => dated.kind === 'EXCLUDED').map(dated => dated.serviceDate),
+});
+
+/**
+ * @returns {Promise<Object<string, object>>} The operating calendar of every schedule (or of the given ones), keyed by schedule id.
+ */
+const loadCalendars = async (connection, scheduleIds = null) => {
+    if (scheduleIds && scheduleIds.length === 0) return {};
+    const filter = scheduleIds ? 'WHERE id IN (?)' : '';
+    const [[scheduleRows], [datedRows]] = await Promise.all([
+        connection.query(
+            `SELECT id, operatingDays, DATE_FORMAT(validFrom, '%Y-%m-%d') AS validFrom,
+                DATE_FORMAT(validUntil, '%Y-%m-%d') AS validUntil, runsOnHolidays
+             FROM schedules ${filter}`,
+            scheduleIds ? [scheduleIds] : []
+        ),
+        connection.query(
+            `SELECT scheduleId, DATE_FORMAT(serviceDate, '%Y-%m-%d') AS serviceDate, kind
+             FROM schedule_calendar_dates ${scheduleIds ? 'WHERE scheduleId IN (?)' : ''}
+             ORDER BY serviceDate`,
+            scheduleIds ? [scheduleIds] : []
+        ),
+    ]);
+    const datedBySchedule = datedRows.reduce((acc, row) => {
+        (acc[row.scheduleId] = acc[row.scheduleId] || []).push(row);
+        return acc;
+    }, {});
+    return scheduleRows.reduce((acc, row) => {
+        acc[row.id] = toCalendar(row, datedBySchedule[row.id] || []);
+        return acc;
+    }, {});
+};
+
+/**
+ * Stores a schedule's calendar, replacing its dated exceptions. Run inside a transaction; validate it first.
+ */
+const saveCalendar = async (connection, scheduleId, calendar) => {
+    const { operatingDays, validFrom = null, validUntil = null, runsOnHolidays = true, extraDates = [], excludedDates = [] } = calendar;
+    await connection.query(
+        'UPDATE schedules SET operatingDays = ?, validFrom = ?, validUntil = ?, runsOnHolidays = ? WHERE id = ?',
+        [WEEK.filter(day => operatingDays.includes(day)).join(','), validFrom, validUntil, runsOnHolidays ? 1 : 0, scheduleId]
+    );
+    await connection.query('DELETE FROM schedule_calendar_dates WHERE scheduleId = ?', [scheduleId]);
+    const datedRows = [
+        ...[...new Set(extraDates)].map(date => [scheduleId, date, 'EXTRA']),
+        ...[...new Set(excludedDates)].map(date => [scheduleId, date, 'EXCLUDED']),
+    ];
+    if (datedRows.length > 0) {
+        await connection.query('INSERT INTO schedule_calendar_dates (scheduleId, serviceDate, kind) VALUES ?', [datedRows]);
+    }
+};
+
+/**
+ * @returns {Promise<Array<{date: string, name: string}>>} Public holidays, earliest first.
+ */
+const listHolidays = async (connection) => {
+    const [rows] = await connection.query("SELECT DATE_FORMAT(holidayDate, '%Y-%m-%d') AS date, name FROM holidays ORDER BY holidayDate");
+    return rows;
+};
+
+/**
+ * @returns {Promise<Set<string>>} The public holidays from `fromDate` to `toDate` (inclusive).
+ */
+const listHolidayDates = async (connection, fromDate, toDate) => {
+    const [rows] = await connection.query(
+        "SELECT DATE_FORMAT(holidayDate, '%Y-%m-%d') AS date FROM holidays WHERE holidayDate BETWEEN ? AND ?",
+        [fromDate, toDate]
+    );
+    return new Set(rows.map(row => row.date));
+};
+
+/**
+ * Checks a full holiday list sent by an admin.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateHolidays = (holidays) => {
+    if (!Array.isArray(holidays)) {
+        return 'Holidays must be provided as an array.';
+    }
+    if (holidays.length > MAX_HOLIDAYS) {
+        return `At most ${MAX_HOLIDAYS} holidays can be listed.`;
+    }
+    const seen = new Set();
+    for (const holiday of holidays) {
+        if (!holiday || !isValidDate(holiday.date)) {
+            return 'Each holiday needs a date (YYYY-MM-DD).';
+        }
+        if (typeof holiday.name !== 'string' || holiday.name.trim() === '' || holiday.name.length > 100) {
+            return `Give the holiday on ${holiday.date} a name of at most 100 characters.`;
+        }
+        if (seen.has(holiday.date)) {
+            return `${holiday.date} is listed twice.`;
+        }
+        seen.add(holiday.date);
+    }
+    return null;
+};
+
+/**
+ * Swaps in a new holiday list. Run inside a transaction; validate it first.
+ */
+const replaceHolidays = async (connection, holidays) => {
+    await connection.query('DELETE FROM holidays');
+    if (holidays.length > 0) {
+        await connection.query(
+            'INSERT INTO holidays (holidayDate, name) VALUES ?',
+            [holidays.map(holiday => [holiday.date, holiday.name.trim()])]
+        );
+    }
+};
+
+module.exports = {
+    WEEK,
+    DEFAULT_CALENDAR,
+    validateCalendar,
+    runsOn,
+    listRunDates,
+    loadCalendars,
+    saveCalendar,
+    listHolidays,
+    listHolidayDates,
+    validateHolidays,
+    replaceHolidays,
+};
@@ -0,0 +1,144 @@
+const crypto = require('crypto');
+
+const OTP_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between sends to the same phone
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const MAX_SENDS_PER_PHONE = 5; // per window
+const MAX_SENDS_PER_IP = 20; // per window
+const MAX_VERIFY_ATTEMPTS = 5; // per code
+const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Codes are stored as salted SHA-256 hashes; the plaintext only ever goes to the provider.
+ */
+const hashOtp = (otp, salt) => crypto.createHash('sha256').update(`${salt}:${otp}`).digest('hex');
+
+const minutesUntil = (date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 60000));
+
+const getActiveLockout = async (connection, phone) => {
+    const [rows] = await connection.query('SELECT lockedUntil FROM otp_lockouts WHERE phone = ? AND lockedUntil > ?', [phone, new Date()]);
+    if (rows.length === 0) return null;
+    const lockedUntil = new Date(rows[0].lockedUntil);
+    return { status: 429, message: `Too many incorrect OTP attempts. Please try again in ${minutesUntil(lockedUntil)} minute(s).` };
+};
+
+/**
+ * Generates an OTP for a phone number, stores its hash and hands it to the delivery provider.
+ * Enforces the resend cooldown, per-phone and per-IP send limits, and any active lockout.
+ * @param {object} connection - A database connection or pool.
+ * @param {{send: Function}} provider - The OTP delivery provider.
+ * @param {string} phone - The destination phone number.
+ * @param {string} ip - The IP address the request came from.
+ * @returns {Promise<{error?: {status: number, message: string}, otp?: string, expiresInSeconds?: number}>}
+ */
+const issueOtp = async (connection, provider, phone, ip) => {
+    const lockout = await getActiveLockout(connection, phone);
+    if (lockout) return { error: lockout };
+
+    const now = Date.now();
+    const windowStart = new Date(now - RATE_LIMIT_WINDOW_MS);
+
+    const [[phoneStats]] = await connection.query(
+        'SELECT COUNT(*) AS sendCount, MAX(createdAt) AS lastSentAt FROM otp_codes WHERE phone = ? AND createdAt > ?',
+        [phone, windowStart]
+    );
+    if (phoneStats.lastSentAt) {
+        const waitMs = new Date(phoneStats.lastSentAt).getTime() + RESEND_COOLDOWN_MS - now;
+        if (waitMs > 0) {
+            return { error: { status: 429, message: `Please wait ${Math.ceil(waitMs / 1000)} seconds before requesting another OTP.` } };
+        }
+    }
+    if (Number(phoneStats.sendCount) >= MAX_SENDS_PER_PHONE) {
+        return { error: { status: 429, message: 'Too many OTP requests for this phone number. Please try again later.' } };
+    }
+
+    const [[ipStats]] = await connection.query(
+        'SELECT COUNT(*) AS sendCount FROM otp_codes WHERE requestIp = ? AND createdAt > ?',
+        [ip, windowStart]
+    );
+    if (Number(ipStats.sendCount) >= MAX_SENDS_PER_IP) {
+        return { error: { status: 429, message: 'Too many OTP requests from this network. Please try again later.' } };
+    }
+
+    const otp = crypto.randomInt(100000, 1000000).toString();
+    const salt = crypto.randomBytes(16).toString('hex');
+    const createdAt = new Date(now);
+    const expiresAt = new Date(now + OTP_TTL_MS);
+
+    // Only the most recently issued code for a phone can be used.
+    await connection.query('UPDATE otp_codes SET consumedAt = ? WHERE phone = ? AND consumedAt IS NULL', [createdAt, phone]);
+    const [insertResult] = await connection.query(
+        'INSERT INTO otp_codes (phone, codeHash, salt, requestIp, expiresAt, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+        [phone, hashOtp(otp, salt), salt, ip, expiresAt, createdAt]
+    );
+
+    try {
+        await provider.send(phone, `Your Government Bus login OTP is ${otp}. It is valid for ${OTP_TTL_MS / 60000} minutes. Do not share it with anyone.`);
+    } catch (error) {
+        console.error(`OTP delivery via ${provider.name} failed:`, error.message);
+        await connection.query('DELETE FROM otp_codes WHERE id = ?', [insertResult.insertId]);
+        return { error: { status: 502, message: 'We could not send the OTP right now. Please try again shortly.' } };
+    }
+
+    return { otp, expiresInSeconds: OTP_TTL_MS / 1000 };
+};
+
+/**
+ * Checks an OTP against the latest code issued for a phone. A correct code is consumed;
+ * after MAX_VERIFY_ATTEMPTS wrong guesses the code is discarded and the phone is locked out.
+ * @returns {Promise<{error?: {status: number, message: string}}>} An empty object on success.
+ */
+const verifyOtp = async (connection, phone, otp) => {
+    const lockout = await getActiveLockout(connection, phone);
+    if (lockout) return { error: lockout };
+
+    const [rows] = await connection.query(
+        'SELECT id, codeHash, salt, expiresAt FROM otp_codes WHERE phone = ? AND consumedAt IS NULL ORDER BY createdAt DESC, id DESC LIMIT 1',
+        [phone]
+    );
+    const code = rows[0];
+    if (!code) {
+        return { error: { status: 401, message: 'Invalid OTP.' } };
+    }
+    if (new Date(code.expiresAt).getTime() <= Date.now()) {
+        await connection.query('UPDATE otp_codes SET consumedAt = ? WHERE id = ?', [new Date(), code.id]);
+        return { error: { status: 401, message: 'OTP has expired. Please request a new one.' } };
+    }
+
+    const given = Buffer.from(hashOtp(String(otp), code.salt), 'hex');
+    const expected = Buffer.from(code.codeHash, 'hex');
+    if (given.length === expected.length && crypto.timingSafeEqual(given, expected)) {
+        const [result] = await connection.query('UPDATE otp_codes SET consumedAt = ? WHERE id = ? AND consumedAt IS NULL', [new Date(), code.id]);
+        if (result.affectedRows === 0) {
+            return { error: { status: 401, message: 'Invalid OTP.' } }; // Already used by a concurrent request
+        }
+        await connection.query('DELETE FROM otp_lockouts WHERE phone = ?', [phone]);
+        return {};
+    }
+
+    await connection.query('UPDATE otp_codes SET attempts = attempts + 1 WHERE id = ?', [code.id]);
+    const [[{ attempts }]] = await connection.query('SELECT attempts FROM otp_codes WHERE id = ?', [code.id]);
+    if (attempts >= MAX_VERIFY_ATTEMPTS) {
+        const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+        await connection.query('UPDATE otp_codes SET consumedAt = ? WHERE id = ?', [new Date(), code.id]);
+        await connection.query(
+            'INSERT INTO otp_lockouts (phone, lockedUntil) VALUES (?, ?) ON DUPLICATE KEY UPDATE lockedUntil = VALUES(lockedUntil)',
+            [phone, lockedUntil]
+        );
+        return { error: { status: 429, message: `Too many incorrect OTP attempts. Please try again in ${minutesUntil(lockedUntil)} minute(s).` } };
+    }
+
+    const remaining = MAX_VERIFY_ATTEMPTS - attempts;
+    return { error: { status: 401, message: `Invalid OTP. ${remaining} attempt(s) remaining.` } };
+};
+
+/**
+ * Removes codes and lockouts that no longer affect rate limiting or verification.
+ */
+const purgeExpiredOtps = async (connection) => {
+    const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MS);
+    await connection.query('DELETE FROM otp_codes WHERE createdAt < ?', [windowStart]);
+    await connection.query('DELETE FROM otp_lockouts WHERE lockedUntil < ?', [new Date()]);
+};
+
+module.exports = { issueOtp, verifyOtp, purgeExpiredOtps };
@@ -0,0 +1,74 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * OTP delivery providers. Each provider exposes `send(phone, message)` and resolves once the
+ * message has been handed off, or rejects if delivery failed. The active provider is chosen
+ * with the OTP_PROVIDER environment variable; only `sms` is allowed in production.
+ */
+
+const consoleProvider = {
+    name: 'console',
+    send: async (phone, message) => {
+        console.log(`[OTP] To ${phone}: ${message}`);
+    },
+};
+
+const createFileProvider = (filePath) => ({
+    name: 'file',
+    send: async (phone, message) => {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        const line = JSON.stringify({ to: phone, message, sentAt: new Date().toISOString() });
+        await fs.promises.appendFile(filePath, `${line}\n`);
+    },
+});
+
+/**
+ * Adapter for an HTTP SMS gateway. The gateway is expected to accept a JSON POST of
+ * `{ to, message, sender }`; gateways with a different contract need their own adapter.
+ */
+const createSmsGatewayProvider = ({ url, apiKey, sender }) => ({
+    name: 'sms',
+    send: async (phone, message) => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({ to: phone, message, sender }),
+        });
+        if (!response.ok) {
+            throw new Error(`SMS gateway responded with status ${response.status}`);
+        }
+    },
+});
+
+// These write the code out in plain text where anyone with access to the server can read it.
+const LOCAL_PROVIDERS = ['console', 'file'];
+
+const createOtpProvider = (env = process.env) => {
+    const providerName = env.OTP_PROVIDER || 'console';
+    if (env.NODE_ENV === 'production' && LOCAL_PROVIDERS.includes(providerName)) {
+        throw new Error(`The ${providerName} OTP provider cannot be used in production. Set OTP_PROVIDER to "sms" and configure OTP_SMS_GATEWAY_URL.`);
+    }
+    switch (providerName) {
+        case 'file':
+            return createFileProvider(env.OTP_FILE_PATH || path.join(__dirname, 'logs', 'otp-outbox.log'));
+        case 'sms':
+            if (!env.OTP_SMS_GATEWAY_URL) {
+                throw new Error('OTP_PROVIDER is "sms" but OTP_SMS_GATEWAY_URL is not set.');
+            }
+            return createSmsGatewayProvider({
+                url: env.OTP_SMS_GATEWAY_URL,
+                apiKey: env.OTP_SMS_API_KEY,
+                sender: env.OTP_SMS_SENDER_ID || 'HRBUS',
+            });
+        case 'console':
+            return consoleProvider;
+        default:
+            throw new Error(`Unknown OTP_PROVIDER "${env.OTP_PROVIDER}".`);
+    }
+};
+
+module.exports = { createOtpProvider };
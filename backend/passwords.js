@@ -0,0 +1,51 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+
+const scrypt = promisify(crypto.scrypt);
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Hashes a password with a random salt.
+ * @param {string} password - The plaintext password.
+ * @returns {Promise<string>} A string of the form `scrypt$<salt hex>$<hash hex>`.
+ */
+const hashPassword = async (password) => {
+    const salt = crypto.randomBytes(SALT_BYTES);
+    const derivedKey = await scrypt(password, salt, KEY_LENGTH);
+    return `${HASH_PREFIX}$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+};
+
+const isPasswordHash = (stored) => typeof stored === 'string' && stored.startsWith(`${HASH_PREFIX}$`);
+
+/**
+ * Checks a password against the stored value. Rows created before hashing was introduced
+ * hold the plaintext password; those still verify, but are flagged for rehashing.
+ * @param {string} password - The plaintext password supplied by the user.
+ * @param {string|null} stored - The value of `users.password`.
+ * @returns {Promise<{valid: boolean, needsRehash: boolean}>}
+ */
+const verifyPassword = async (password, stored) => {
+    if (typeof password !== 'string' || typeof stored !== 'string') {
+        return { valid: false, needsRehash: false };
+    }
+
+    if (!isPasswordHash(stored)) {
+        const given = Buffer.from(password);
+        const expected = Buffer.from(stored);
+        const valid = given.length === expected.length && crypto.timingSafeEqual(given, expected);
+        return { valid, needsRehash: valid };
+    }
+
+    const [, saltHex, hashHex] = stored.split('$');
+    const expected = Buffer.from(hashHex || '', 'hex');
+    if (!saltHex || expected.length !== KEY_LENGTH) {
+        return { valid: false, needsRehash: false };
+    }
+    const derivedKey = await scrypt(password, Buffer.from(saltHex, 'hex'), KEY_LENGTH);
+    return { valid: crypto.timingSafeEqual(derivedKey, expected), needsRehash: false };
+};
+
+module.exports = { hashPassword, verifyPassword };
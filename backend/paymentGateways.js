@@ -0,0 +1,151 @@
+const crypto = require('crypto');
+
+/**
+ * Payment gateway adapters. Each gateway exposes:
+ *   - `createPayment({ paymentId, amount, currency, simulate })`, which starts a charge and
+ *     resolves to `{ reference }`, the gateway's own id for it. The outcome arrives later
+ *     on the gateway's webhook.
+ *   - `parseWebhook(headers, rawBody)`, which authenticates a webhook call and returns
+ *     `{ paymentId, reference, status: 'SUCCEEDED'|'FAILED', failureReason }`, or null if the
+ *     call cannot be trusted.
+ *   - `refund({ refundId, paymentReference, amount, currency })`, which pays money back against
+ *     an earlier charge and resolves to `{ reference }` once the gateway has accepted the payout.
+ *     It rejects if the payout could not be made.
+ * The active gateway is chosen with the PAYMENT_GATEWAY environment variable: `http` for a
+ * hosted gateway, or `mock` (the default) for local development.
+ */
+
+const MOCK_SIMULATIONS = ['success', 'failure', 'timeout'];
+
+const WEBHOOK_STATUSES = ['SUCCEEDED', 'FAILED'];
+
+const signPayload = (secret, body) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+/**
+ * Checks a hex HMAC-SHA256 signature over a webhook's raw body, in constant time.
+ */
+const isSignatureValid = (secret, rawBody, signature) => {
+    if (!rawBody || typeof signature !== 'string') return false;
+    const expected = Buffer.from(signPayload(secret, rawBody), 'hex');
+    const given = Buffer.from(signature, 'hex');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+/**
+ * Local stand-in for a real gateway. It settles every charge by calling our webhook after a
+ * short delay, like a hosted gateway would. `simulate` picks the outcome: 'success',
+ * 'failure', or 'timeout' (no webhook is ever sent). Refunds are always accepted.
+ */
+const createMockGateway = ({ webhookUrl, secret, delayMs }) => ({
+    name: 'mock',
+    createPayment: async ({ paymentId, amount, currency, simulate = 'success' }) => {
+        const outcome = MOCK_SIMULATIONS.includes(simulate) ? simulate : 'success';
+        const reference = `mock_${crypto.randomBytes(12).toString('hex')}`;
+        if (outcome === 'timeout') {
+            return { reference };
+        }
+
+        const body = JSON.stringify({
+            paymentId,
+            reference,
+            amount,
+            currency,
+            status: outcome === 'success' ? 'SUCCEEDED' : 'FAILED',
+            failureReason: outcome === 'failure' ? 'The card was declined by the issuing bank (simulated).' : null,
+        });
+        setTimeout(() => {
+            fetch(webhookUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-Mock-Signature': signPayload(secret, body) },
+                body,
+            }).catch(error => console.error('Mock gateway could not deliver its webhook:', error.message));
+        }, delayMs);
+        return { reference };
+    },
+    parseWebhook: (headers, rawBody) => {
+        if (!isSignatureValid(secret, rawBody, headers['x-mock-signature'])) {
+            return null;
+        }
+        const { paymentId, reference, status, failureReason } = JSON.parse(rawBody.toString('utf8'));
+        return { paymentId, reference, status, failureReason };
+    },
+    refund: async ({ refundId }) => ({ reference: `mock_refund_${refundId}_${crypto.randomBytes(6).toString('hex')}` }),
+});
+
+/**
+ * Adapter for a hosted gateway reached over HTTP. Charges are started with a JSON POST of
+ * `{ merchantReference, amount, currency, callbackUrl }` to `<url>/payments`, and payouts with
+ * `{ merchantReference, paymentReference, amount, currency }` to `<url>/refunds`; both answer
+ * `{ reference }`. The gateway reports each charge's outcome by POSTing
+ * `{ merchantReference, reference, status, failureReason }` to `callbackUrl`, signed with a hex
+ * HMAC-SHA256 of the body in the X-Gateway-Signature header. Gateways with a different contract
+ * need their own adapter.
+ */
+const createHttpGateway = ({ url, apiKey, webhookUrl, secret }) => {
+    const post = async (endpoint, payload) => {
+        const response = await fetch(`${url.replace(/\/+$/, '')}/${endpoint}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(payload),
+        });
+        if (!response.ok) {
+            throw new Error(`Payment gateway responded with status ${response.status}`);
+        }
+        const { reference } = await response.json();
+        if (!reference) {
+            throw new Error('Payment gateway did not return a reference.');
+        }
+        return { reference: String(reference) };
+    };
+
+    return {
+        name: 'http',
+        createPayment: ({ paymentId, amount, currency }) =>
+            post('payments', { merchantReference: paymentId, amount, currency, callbackUrl: webhookUrl }),
+        parseWebhook: (headers, rawBody) => {
+            if (!isSignatureValid(secret, rawBody, headers['x-gateway-signature'])) {
+                return null;
+            }
+            const { merchantReference, reference, status, failureReason } = JSON.parse(rawBody.toString('utf8'));
+            if (!merchantReference || !WEBHOOK_STATUSES.includes(status)) {
+                return null;
+            }
+            return { paymentId: merchantReference, reference, status, failureReason: failureReason || null };
+        },
+        refund: ({ refundId, paymentReference, amount, currency }) =>
+            post('refunds', { merchantReference: refundId, paymentReference, amount, currency }),
+    };
+};
+
+const createPaymentGateway = (env = process.env) => {
+    switch (env.PAYMENT_GATEWAY || 'mock') {
+        case 'http':
+            if (!env.PAYMENT_GATEWAY_URL || !env.PAYMENT_WEBHOOK_URL || !env.PAYMENT_WEBHOOK_SECRET) {
+                throw new Error('PAYMENT_GATEWAY is "http" but PAYMENT_GATEWAY_URL, PAYMENT_WEBHOOK_URL and PAYMENT_WEBHOOK_SECRET are not all set.');
+            }
+            return createHttpGateway({
+                url: env.PAYMENT_GATEWAY_URL,
+                apiKey: env.PAYMENT_GATEWAY_API_KEY,
+                webhookUrl: env.PAYMENT_WEBHOOK_URL,
+                secret: env.PAYMENT_WEBHOOK_SECRET,
+            });
+        case 'mock':
+            // The mock confirms whatever the client asks it to, so it would hand out tickets for free.
+            if (env.NODE_ENV === 'production') {
+                throw new Error('The mock payment gateway cannot be used in production. Set PAYMENT_GATEWAY to "http" and configure PAYMENT_GATEWAY_URL.');
+            }
+            return createMockGateway({
+                webhookUrl: env.MOCK_GATEWAY_WEBHOOK_URL || `http://127.0.0.1:${env.APP_PORT || 3000}/api/payments/webhook/mock`,
+                // The mock gateway only ever calls this process, so a per-process secret is enough.
+                secret: env.PAYMENT_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex'),
+                delayMs: Number(env.MOCK_GATEWAY_DELAY_MS || 3000),
+            });
+        default:
+            throw new Error(`Unknown PAYMENT_GATEWAY "${env.PAYMENT_GATEWAY}".`);
+    }
+};
+
+module.exports = { createPaymentGateway };
@@ -0,0 +1,278 @@
+const { v4: uuidv4 } = require('uuid');
+const refunds = require('./refunds');
+
+const PAYMENT_WINDOW_MS = 10 * 60 * 1000; // Unpaid bookings are released after 10 minutes
+const GATEWAY_TIMEOUT_MS = 2 * 60 * 1000; // A payment with no gateway result by then has failed
+const FINAL_STATUSES = ['SUCCEEDED', 'FAILED', 'EXPIRED'];
+
+const getPaymentDeadline = () => new Date(Date.now() + PAYMENT_WINDOW_MS);
+
+const toClientPayment = (intent, bookingStatus) => ({
+    id: intent.id,
+    bookingId: intent.bookingId,
+    changeId: intent.changeId ? String(intent.changeId) : null,
+    amount: Number(intent.amount),
+    currency: intent.currency,
+    gateway: intent.gateway,
+    status: intent.status,
+    failureReason: intent.failureReason,
+    bookingStatus,
+    // Paid and put to use; a payment that arrived too late succeeds but is refunded instead.
+    fulfilled: intent.status === 'SUCCEEDED' && !intent.failureReason,
+});
+
+/**
+ * Refuses new attempts while one is still waiting on the gateway, then opens a new one.
+ * @returns {Promise<{error?: {status: number, message: string}, intent?: object}>}
+ */
+const openIntent = async (connection, { bookingId, changeId = null, itineraryId = null, userId, amount, gatewayName }) => {
+    const now = new Date();
+    const [[inFlight]] = await connection.query(
+        `SELECT id FROM payment_intents WHERE bookingId = ? AND changeId <=> ? AND status = 'PROCESSING' AND createdAt > ? LIMIT 1`,
+        [bookingId, changeId, new Date(now.getTime() - GATEWAY_TIMEOUT_MS)]
+    );
+    if (inFlight) {
+        return { error: { status: 409, message: 'A payment for this booking is already in progress.' } };
+    }
+
+    const intent = {
+        id: uuidv4(),
+        bookingId,
+        changeId,
+        itineraryId,
+        userId,
+        amount: Number(amount),
+        currency: 'INR',
+        gateway: gatewayName,
+        status: 'PROCESSING',
+        failureReason: null,
+    };
+    await connection.query(
+        `INSERT INTO payment_intents (id, bookingId, changeId, itineraryId, userId, amount, currency, gateway, status, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [intent.id, bookingId, changeId, itineraryId, userId, intent.amount, intent.currency, gatewayName, intent.status, now, now]
+    );
+    return { intent };
+};
+
+/**
+ * Opens a payment attempt on a booking awaiting payment. Run inside a transaction; the
+ * booking row is locked so two attempts cannot start at once. A leg of an itinerary is paid
+ * for together with the other legs.
+ * @returns {Promise<{error?: {status: number, message: string}, intent?: object}>}
+ */
+const createPaymentIntent = async (connection, bookingId, userId, gatewayName) => {
+    const [[booking]] = await connection.query(
+        'SELECT id, userId, itineraryId, fare, status, paymentExpiresAt FROM bookings WHERE id = ? FOR UPDATE',
+        [bookingId]
+    );
+    if (!booking) {
+        return { error: { status: 404, message: 'Booking not found.' } };
+    }
+    if (booking.userId !== userId) {
+        return { error: { status: 403, message: 'You are not authorized to pay for this booking.' } };
+    }
+    if (booking.status !== 'PENDING_PAYMENT') {
+        return { error: { status: 409, message: booking.status === 'EXPIRED'
+            ? 'The payment window for this booking has closed. Please book again.'
+            : 'This booking is not awaiting payment.' } };
+    }
+    if (new Date(booking.paymentExpiresAt).getTime() <= Date.now()) {
+        return { error: { status: 409, message: 'The payment window for this booking has closed. Please book again.' } };
+    }
+    if (!booking.itineraryId) {
+        return openIntent(connection, { bookingId, userId, amount: booking.fare, gatewayName });
+    }
+
+    const [legs] = await connection.query(
+        'SELECT id, fare, status, paymentExpiresAt FROM bookings WHERE itineraryId = ? ORDER BY itineraryLeg FOR UPDATE',
+        [booking.itineraryId]
+    );
+    if (legs.some(leg => leg.status !== 'PENDING_PAYMENT' || new Date(leg.paymentExpiresAt).getTime() <= Date.now())) {
+        return { error: { status: 409, message: 'Part of this journey is no longer awaiting payment. Please book again.' } };
+    }
+    const amount = legs.reduce((sum, leg) => sum + Number(leg.fare), 0);
+    return openIntent(connection, { bookingId: legs[0].id, itineraryId: booking.itineraryId, userId, amount, gatewayName });
+};
+
+/**
+ * Opens a payment attempt for the extra fare of a booking change. Run inside a transaction.
+ * @returns {Promise<{error?: {status: number, message: string}, intent?: object}>}
+ */
+const createChangePaymentIntent = async (connection, bookingId, changeId, userId, gatewayName) => {
+    const [[change]] = await connection.query('SELECT * FROM booking_changes WHERE id = ? AND bookingId = ? FOR UPDATE', [changeId, bookingId]);
+    if (!change) {
+        return { error: { status: 404, message: 'Booking change not found.' } };
+    }
+    if (change.userId !== userId) {
+        return { error: { status: 403, message: 'You are not authorized to pay for this change.' } };
+    }
+    if (change.status !== 'PENDING_PAYMENT' || new Date(change.paymentExpiresAt).getTime() <= Date.now()) {
+        return { error: { status: 409, message: 'This change is no longer awaiting payment. Please make the change again.' } };
+    }
+    return openIntent(connection, { bookingId, changeId: change.id, userId, amount: change.fareDifference, gatewayName });
+};
+
+/**
+ * Marks a payment succeeded that can no longer be used, and puts it on the refund ledger.
+ */
+const refundUnusablePayment = async (connection, intent, failureReason, reference = null) => {
+    console.warn(`Payment ${intent.id} for booking ${intent.bookingId} succeeded but cannot be used; refunding it.`);
+    await connection.query(
+        "UPDATE payment_intents SET status = 'SUCCEEDED', failureReason = ?, gatewayReference = COALESCE(gatewayReference, ?), updatedAt = ? WHERE id = ?",
+        [failureReason, reference, new Date(), intent.id]
+    );
+    await refunds.recordRefunds(
+        connection,
+        { id: intent.bookingId },
+        [{ seatId: null, passengerType: null, amount: intent.amount }],
+        { reason: failureReason, initiatedBy: 'SYSTEM', paymentId: intent.id, refundType: 'LATE_PAYMENT' }
+    );
+};
+
+const recordGatewayReference = async (connection, paymentId, reference) => {
+    await connection.query('UPDATE payment_intents SET gatewayReference = ?, updatedAt = ? WHERE id = ?', [reference, new Date(), paymentId]);
+};
+
+const markPaymentFailed = async (connection, paymentId, failureReason) => {
+    await connection.query(
+        "UPDATE payment_intents SET status = 'FAILED', failureReason = ?, updatedAt = ? WHERE id = ? AND status = 'PROCESSING'",
+        [failureReason, new Date(), paymentId]
+    );
+};
+
+/**
+ * Applies a payment outcome reported by the gateway. Run inside a transaction. Repeated
+ * deliveries of the same outcome are ignored, so gateways may retry webhooks freely.
+ * @param {{paymentId: string, reference: string, status: string, failureReason?: string}} result
+ * @returns {Promise<{error?: {status: number, message: string}, confirmedBookings?: Array<object>, paidChange?: object}>}
+ *   `confirmedBookings` is set when this outcome confirmed bookings (every leg of an itinerary), and `paidChange` when it paid
+ *   for a booking change, which the caller then applies.
+ */
+const applyPaymentResult = async (connection, gatewayName, result) => {
+    if (!result.paymentId || !['SUCCEEDED', 'FAILED'].includes(result.status)) {
+        return { error: { status: 400, message: 'Malformed payment notification.' } };
+    }
+
+    const [[intent]] = await connection.query('SELECT * FROM payment_intents WHERE id = ? FOR UPDATE', [result.paymentId]);
+    if (!intent || intent.gateway !== gatewayName) {
+        return { error: { status: 404, message: 'Payment not found.' } };
+    }
+    if (intent.gatewayReference && result.reference && intent.gatewayReference !== result.reference) {
+        return { error: { status: 400, message: 'Payment reference mismatch.' } };
+    }
+    if (intent.status === 'SUCCEEDED' || (result.status === 'FAILED' && intent.status !== 'PROCESSING')) {
+        return {};
+    }
+
+    const now = new Date();
+    if (result.status === 'FAILED') {
+        await connection.query(
+            "UPDATE payment_intents SET status = 'FAILED', failureReason = ?, gatewayReference = COALESCE(gatewayReference, ?), updatedAt = ? WHERE id = ?",
+            [result.failureReason || 'The payment was declined.', result.reference || null, now, intent.id]
+        );
+        return {};
+    }
+
+    // A success can arrive after the attempt timed out on our side; the gateway's word is final.
+    if (intent.changeId) {
+        const [[change]] = await connection.query('SELECT * FROM booking_changes WHERE id = ? FOR UPDATE', [intent.changeId]);
+        if (!change || change.status !== 'PENDING_PAYMENT') {
+            await refundUnusablePayment(connection, intent, 'Payment arrived after the booking change lapsed; it is being refunded.', result.reference || null);
+            return {};
+        }
+        await connection.query(
+            "UPDATE payment_intents SET status = 'SUCCEEDED', failureReason = NULL, gatewayReference = COALESCE(gatewayReference, ?), updatedAt = ? WHERE id = ?",
+            [result.reference || null, now, intent.id]
+        );
+        return { paidChange: { ...intent, status: 'SUCCEEDED' } };
+    }
+
+    const [bookings] = intent.itineraryId
+        ? await connection.query('SELECT * FROM bookings WHERE itineraryId = ? FOR UPDATE', [intent.itineraryId])
+        : await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [intent.bookingId]);
+    if (bookings.length === 0 || bookings.some(booking => booking.status !== 'PENDING_PAYMENT')) {
+        await refundUnusablePayment(connection, intent, 'Payment arrived after the booking was released; it is being refunded.', result.reference || null);
+        return {};
+    }
+
+    await connection.query(
+        "UPDATE payment_intents SET status = 'SUCCEEDED', failureReason = NULL, gatewayReference = COALESCE(gatewayReference, ?), updatedAt = ? WHERE id = ?",
+        [result.reference || null, now, intent.id]
+    );
+    await connection.query(
+        "UPDATE bookings SET status = 'CONFIRMED', paymentExpiresAt = NULL WHERE id IN (?)",
+        [bookings.map(booking => booking.id)]
+    );
+    return { confirmedBookings: bookings };
+};
+
+/**
+ * Looks up a payment attempt along with the status of its booking.
+ * @returns {Promise<object|null>} The payment, or null if it does not belong to the user.
+ */
+const getPayment = async (connection, paymentId, userId) => {
+    const [[intent]] = await connection.query(
+        `SELECT pi.*, b.status AS bookingStatus FROM payment_intents pi
+         JOIN bookings b ON b.id = pi.bookingId
+         WHERE pi.id = ? AND pi.userId = ?`,
+        [paymentId, userId]
+    );
+    return intent ? toClientPayment(intent, intent.bookingStatus) : null;
+};
+
+/**
+ * Gives up a booking that was never paid for: its seats are freed and open payment
+ * attempts are closed. Run inside a transaction.
+ * @param {'EXPIRED'|'CANCELLED'} status - Why the booking is being released.
+ * @returns {Promise<object|null>} The released booking with its `seatIds`, or null if it was not awaiting payment.
+ */
+const releaseUnpaidBooking = async (connection, bookingId, status) => {
+    const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+    if (!booking || booking.status !== 'PENDING_PAYMENT') {
+        return null;
+    }
+
+    const [seatRows] = await connection.query('SELECT seatId FROM bookedseats WHERE bookingId = ?', [bookingId]);
+    await connection.query('DELETE FROM bookedseats WHERE bookingId = ?', [bookingId]);
+    await connection.query('UPDATE bookings SET status = ?, paymentExpiresAt = NULL WHERE id = ?', [status, bookingId]);
+    await connection.query(
+        `UPDATE payment_intents SET status = 'EXPIRED', updatedAt = ? WHERE bookingId = ? AND status NOT IN (?)`,
+        [new Date(), bookingId, FINAL_STATUSES]
+    );
+    return { ...booking, seatIds: seatRows.map(row => row.seatId) };
+};
+
+const findExpiredUnpaidBookingIds = async (connection) => {
+    const [rows] = await connection.query(
+        "SELECT id FROM bookings WHERE status = 'PENDING_PAYMENT' AND paymentExpiresAt <= ?",
+        [new Date()]
+    );
+    return rows.map(row => row.id);
+};
+
+/**
+ * Fails payment attempts the gateway never reported back on, so the passenger can retry.
+ */
+const failTimedOutPayments = async (connection) => {
+    const now = new Date();
+    await connection.query(
+        "UPDATE payment_intents SET status = 'FAILED', failureReason = ?, updatedAt = ? WHERE status = 'PROCESSING' AND createdAt <= ?",
+        ['The payment gateway did not respond in time.', now, new Date(now.getTime() - GATEWAY_TIMEOUT_MS)]
+    );
+};
+
+module.exports = {
+    getPaymentDeadline,
+    toClientPayment,
+    createPaymentIntent,
+    createChangePaymentIntent,
+    refundUnusablePayment,
+    recordGatewayReference,
+    markPaymentFailed,
+    applyPaymentResult,
+    getPayment,
+    releaseUnpaidBooking,
+    findExpiredUnpaidBookingIds,
+    failTimedOutPayments,
+};
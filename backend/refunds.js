@@ -0,0 +1,118 @@
+const REFUND_BATCH_SIZE = 20;
+const MAX_PAYOUT_ATTEMPTS = 5;
+const INITIATORS = ['USER', 'ADMIN', 'SYSTEM'];
+
+const toClientRefund = (row) => ({
+    id: String(row.id),
+    bookingId: row.bookingId,
+    seatId: row.seatId,
+    passengerType: row.passengerType,
+    refundType: row.refundType,
+    amount: Number(row.amount),
+    cancellationFee: Number(row.cancellationFee),
+    reason: row.reason,
+    initiatedBy: row.initiatedBy,
+    status: row.status,
+    createdAt: row.createdAt,
+    processedAt: row.processedAt,
+});
+
+// Legs of an itinerary are paid for by one payment, recorded against the first leg.
+const findSucceededPaymentId = async (connection, bookingId) => {
+    const [[intent]] = await connection.query(
+        `SELECT pi.id FROM payment_intents pi
+         JOIN bookings b ON b.id = ?
+         WHERE (pi.bookingId = b.id OR pi.itineraryId = b.itineraryId) AND pi.status = 'SUCCEEDED' AND pi.failureReason IS NULL
+         ORDER BY pi.updatedAt DESC LIMIT 1`,
+        [bookingId]
+    );
+    return intent ? intent.id : null;
+};
+
+/**
+ * Adds refunds to the ledger. Run inside the transaction that gives up the seats or payment,
+ * so a refund is owed exactly when the ledger says so. Zero-amount refunds are settled at once.
+ * @param {object} booking - The booking being refunded.
+ * @param {Array<{seatId: string|null, passengerType: string|null, amount: number, fee?: number}>} items - One entry
+ *   per refunded seat; `fee` is the cancellation fee kept back from it.
+ * @param {{reason: string, initiatedBy: 'USER'|'ADMIN'|'SYSTEM', initiatedByUserId?: string, paymentId?: string,
+ *   refundType?: 'CANCELLATION'|'FARE_ADJUSTMENT'|'LATE_PAYMENT'}} details - `refundType` defaults to CANCELLATION.
+ */
+const recordRefunds = async (connection, booking, items, details) => {
+    if (!INITIATORS.includes(details.initiatedBy)) {
+        throw new Error(`Unknown refund initiator "${details.initiatedBy}".`);
+    }
+    if (items.length === 0) return;
+
+    const paymentId = details.paymentId || await findSucceededPaymentId(connection, booking.id);
+    const now = new Date();
+    const rows = items.map(item => {
+        const amount = Number(item.amount) || 0;
+        return [
+            booking.id, paymentId, item.seatId, item.passengerType, details.refundType || 'CANCELLATION', amount, Number(item.fee) || 0, details.reason,
+            details.initiatedBy, details.initiatedByUserId || null,
+            amount > 0 ? 'PENDING' : 'PROCESSED', now, amount > 0 ? null : now,
+        ];
+    });
+    await connection.query(
+        `INSERT INTO refunds (bookingId, paymentId, seatId, passengerType, refundType, amount, cancellationFee, reason, initiatedBy, initiatedByUserId, status, createdAt, processedAt)
+         VALUES ?`,
+        [rows]
+    );
+};
+
+/**
+ * @returns {Promise<Object<string, Array<object>>>} Refunds keyed by booking id, oldest first.
+ */
+const listRefundsForBookings = async (connection, bookingIds) => {
+    if (bookingIds.length === 0) return {};
+    const [rows] = await connection.query('SELECT * FROM refunds WHERE bookingId IN (?) ORDER BY createdAt, id', [bookingIds]);
+    return rows.reduce((acc, row) => {
+        (acc[row.bookingId] = acc[row.bookingId] || []).push(toClientRefund(row));
+        return acc;
+    }, {});
+};
+
+/**
+ * Pays out pending refunds through the payment gateway. A payout that keeps failing is
+ * marked FAILED after a few attempts and needs to be settled by hand.
+ */
+const processPendingRefunds = async (pool, gateway) => {
+    const [pending] = await pool.query(
+        `SELECT r.*, pi.gatewayReference AS paymentReference, pi.currency
+         FROM refunds r
+         LEFT JOIN payment_intents pi ON pi.id = r.paymentId
+         WHERE r.status = 'PENDING'
+         ORDER BY r.createdAt, r.id
+         LIMIT ?`,
+        [REFUND_BATCH_SIZE]
+    );
+
+    for (const refund of pending) {
+        try {
+            const { reference } = await gateway.refund({
+                refundId: String(refund.id),
+                paymentReference: refund.paymentReference,
+                amount: Number(refund.amount),
+                currency: refund.currency || 'INR',
+            });
+            await pool.query(
+                "UPDATE refunds SET status = 'PROCESSED', payoutReference = ?, attempts = attempts + 1, failureReason = NULL, processedAt = ? WHERE id = ? AND status = 'PENDING'",
+                [reference, new Date(), refund.id]
+            );
+        } catch (error) {
+            const attempts = refund.attempts + 1;
+            await pool.query(
+                'UPDATE refunds SET status = ?, attempts = ?, failureReason = ? WHERE id = ?',
+                [attempts >= MAX_PAYOUT_ATTEMPTS ? 'FAILED' : 'PENDING', attempts, String(error.message).slice(0, 255), refund.id]
+            );
+        }
+    }
+};
+
+module.exports = {
+    toClientRefund,
+    recordRefunds,
+    listRefundsForBookings,
+    processPendingRefunds,
+};
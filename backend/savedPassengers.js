@@ -0,0 +1,144 @@
+const { v4: uuidv4 } = require('uuid');
+const { isValidDate, isValidAadhaar, getAgeOn } = require('./concessions');
+
+/**
+ * Passengers a user books for often, kept on their profile so seats can be filled in without
+ * retyping names, dates of birth and Aadhaar numbers. The full Aadhaar number never leaves the
+ * server; bookings that pick a saved passenger get it filled in here.
+ */
+
+const MAX_SAVED_PASSENGERS = 20;
+const RELATIONS = ['SELF', 'SPOUSE', 'CHILD', 'PARENT', 'SIBLING', 'OTHER'];
+
+const toDateString = (value) => {
+    if (typeof value === 'string') return value.slice(0, 10);
+    return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const maskAadhaar = (aadhaarNumber) => (aadhaarNumber ? `XXXXXXXX${aadhaarNumber.slice(-4)}` : null);
+
+const toClientPassenger = (row, today) => {
+    const dob = toDateString(row.dob);
+    return {
+        id: row.id,
+        fullName: row.fullName,
+        dob,
+        relation: row.relation,
+        age: getAgeOn(dob, today),
+        maskedAadhaar: maskAadhaar(row.aadhaarNumber),
+        createdAt: row.createdAt,
+    };
+};
+
+/**
+ * Checks a saved passenger sent by the user. `aadhaarNumber` may be left out on an update to
+ * keep the stored one.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validatePassenger = (passenger, today) => {
+    if (!passenger.fullName || passenger.fullName.trim() === '') {
+        return 'Full name is required.';
+    }
+    if (!isValidDate(passenger.dob)) {
+        return 'Date of birth must be a valid date (YYYY-MM-DD).';
+    }
+    if (passenger.dob > today) {
+        return 'Date of birth cannot be in the future.';
+    }
+    if (!RELATIONS.includes(passenger.relation)) {
+        return `Relation must be one of ${RELATIONS.join(', ')}.`;
+    }
+    if (passenger.aadhaarNumber && !isValidAadhaar(passenger.aadhaarNumber)) {
+        return 'Aadhaar number is not valid. Please check all 12 digits.';
+    }
+    return null;
+};
+
+const listPassengers = async (connection, userId, today) => {
+    const [rows] = await connection.query(
+        'SELECT * FROM saved_passengers WHERE userId = ? ORDER BY fullName, createdAt',
+        [userId]
+    );
+    return rows.map(row => toClientPassenger(row, today));
+};
+
+/**
+ * @returns {Promise<{error?: {status: number, message: string}, passengerId?: string}>}
+ */
+const createPassenger = async (connection, userId, passenger) => {
+    const [[{ count }]] = await connection.query('SELECT COUNT(*) AS count FROM saved_passengers WHERE userId = ?', [userId]);
+    if (count >= MAX_SAVED_PASSENGERS) {
+        return { error: { status: 400, message: `You can save up to ${MAX_SAVED_PASSENGERS} passengers.` } };
+    }
+    const passengerId = uuidv4();
+    const now = new Date();
+    await connection.query(
+        `INSERT INTO saved_passengers (id, userId, fullName, dob, relation, aadhaarNumber, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [passengerId, userId, passenger.fullName.trim(), passenger.dob, passenger.relation, passenger.aadhaarNumber || null, now, now]
+    );
+    return { passengerId };
+};
+
+/**
+ * @returns {Promise<boolean>} Whether the user had a saved passenger with that ID.
+ */
+const updatePassenger = async (connection, userId, passengerId, passenger) => {
+    const [result] = await connection.query(
+        `UPDATE saved_passengers
+         SET fullName = ?, dob = ?, relation = ?, aadhaarNumber = COALESCE(?, aadhaarNumber), updatedAt = ?
+         WHERE id = ? AND userId = ?`,
+        [passenger.fullName.trim(), passenger.dob, passenger.relation, passenger.aadhaarNumber || null, new Date(), passengerId, userId]
+    );
+    return result.affectedRows > 0;
+};
+
+const deletePassenger = async (connection, userId, passengerId) => {
+    const [result] = await connection.query('DELETE FROM saved_passengers WHERE id = ? AND userId = ?', [passengerId, userId]);
+    return result.affectedRows > 0;
+};
+
+/**
+ * Fills in the seats that name a saved passenger (`savedPassengerId`) from the user's profile.
+ * Seats without one are passed through unchanged. Whether the ticket type suits the passenger's
+ * age is checked afterwards, with every other seat.
+ * @param {Array<{savedPassengerId?: string, fullName: string, type: string, dob?: string, aadhaarNumber?: string}>} seats
+ * @returns {Promise<{error?: {status: number, message: string}, seats?: Array<object>}>}
+ *   The seats with `savedPassengerId` replaced by the stored name, date of birth and Aadhaar number.
+ */
+const resolveSavedPassengers = async (connection, userId, seats) => {
+    const ids = [...new Set(seats.map(seat => seat.savedPassengerId).filter(Boolean))];
+    if (ids.length === 0) return { seats };
+
+    const [rows] = await connection.query('SELECT * FROM saved_passengers WHERE userId = ? AND id IN (?)', [userId, ids]);
+    const byId = rows.reduce((acc, row) => ({ ...acc, [row.id]: row }), {});
+
+    const resolved = [];
+    for (const seat of seats) {
+        const { savedPassengerId, ...details } = seat;
+        if (!savedPassengerId) {
+            resolved.push(details);
+            continue;
+        }
+        const saved = byId[savedPassengerId];
+        if (!saved) {
+            return { error: { status: 400, message: 'One of the saved passengers was not found on your profile.' } };
+        }
+        resolved.push({
+            ...details,
+            fullName: saved.fullName,
+            dob: toDateString(saved.dob),
+            aadhaarNumber: saved.aadhaarNumber || undefined,
+        });
+    }
+    return { seats: resolved };
+};
+
+module.exports = {
+    validatePassenger,
+    listPassengers,
+    createPassenger,
+    updatePassenger,
+    deletePassenger,
+    resolveSavedPassengers,
+};
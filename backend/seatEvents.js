@@ -0,0 +1,33 @@
+const { EventEmitter } = require('events');
+
+/**
+ * In-process publish/subscribe for seat changes, used to drive the live seat-map streams.
+ * Events only reach subscribers connected to the same server process.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open seat-map stream
+
+const channelFor = (scheduleId, journeyDate) => `${scheduleId}:${journeyDate}`;
+
+/**
+ * Announces a seat change on a schedule for a journey date.
+ * @param {'booked'|'cancelled'|'held'|'released'} type - What happened to the seats.
+ * @param {Array<{seatId: string, origin: string, destination: string}>} seats - The affected seats and their segments.
+ * @param {object} extra - Additional event fields, e.g. `expiresAt` for holds.
+ */
+const publishSeatEvent = (scheduleId, journeyDate, type, seats, extra = {}) => {
+    if (!seats || seats.length === 0) return;
+    emitter.emit(channelFor(scheduleId, journeyDate), { type, seats, ...extra });
+};
+
+/**
+ * Listens for seat changes on a schedule for a journey date.
+ * @returns {Function} Call to stop listening.
+ */
+const subscribeToSeatEvents = (scheduleId, journeyDate, listener) => {
+    const channel = channelFor(scheduleId, journeyDate);
+    emitter.on(channel, listener);
+    return () => emitter.off(channel, listener);
+};
+
+module.exports = { publishSeatEvent, subscribeToSeatEvents };
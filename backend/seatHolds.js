@@ -0,0 +1,113 @@
+const HOLD_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_HOLDS_PER_USER = 5; // per schedule and journey date; matches the paid booking seat limit
+
+/**
+ * Lists the unexpired holds on a schedule for a journey date.
+ * @param {object} connection - A database connection or pool.
+ * @param {boolean} forUpdate - Lock the matching rows (use inside a transaction).
+ * @returns {Promise<Array<{seatId: string, userId: string, origin: string, destination: string}>>}
+ */
+const findActiveHolds = async (connection, scheduleId, journeyDate, forUpdate = false) => {
+    const [rows] = await connection.query(
+        `SELECT seatId, userId, origin, destination FROM seat_holds
+         WHERE scheduleId = ? AND journeyDate = ? AND expiresAt > ?${forUpdate ? ' FOR UPDATE' : ''}`,
+        [scheduleId, journeyDate, new Date()]
+    );
+    return rows;
+};
+
+/**
+ * Returns the seats a user currently holds for exactly the given segment.
+ * @returns {Promise<Set<string>>} The held seat IDs.
+ */
+const findUserHeldSeats = async (connection, userId, scheduleId, journeyDate, origin, destination) => {
+    const [rows] = await connection.query(
+        `SELECT seatId FROM seat_holds
+         WHERE scheduleId = ? AND journeyDate = ? AND userId = ? AND origin = ? AND destination = ? AND expiresAt > ?
+         FOR UPDATE`,
+        [scheduleId, journeyDate, userId, origin, destination, new Date()]
+    );
+    return new Set(rows.map(row => row.seatId));
+};
+
+/**
+ * Places (or renews) a user's hold on a seat. A user checks out one segment at a time, so
+ * holds they have on other segments of the same schedule and date are dropped first.
+ * The caller is responsible for checking the seat is free for the segment.
+ * @returns {Promise<{error?: {status: number, message: string}, expiresAt?: Date, releasedHolds?: Array<object>}>}
+ *   On success, the new expiry and the user's other holds that were dropped.
+ */
+const placeHold = async (connection, userId, scheduleId, journeyDate, origin, destination, seatId) => {
+    const now = new Date();
+    const staleHoldFilter = 'scheduleId = ? AND journeyDate = ? AND userId = ? AND (origin <> ? OR destination <> ? OR expiresAt <= ?)';
+    const staleHoldParams = [scheduleId, journeyDate, userId, origin, destination, now];
+    const [releasedHolds] = await connection.query(`SELECT seatId, origin, destination FROM seat_holds WHERE ${staleHoldFilter}`, staleHoldParams);
+    await connection.query(`DELETE FROM seat_holds WHERE ${staleHoldFilter}`, staleHoldParams);
+
+    const [[{ holdCount }]] = await connection.query(
+        'SELECT COUNT(*) AS holdCount FROM seat_holds WHERE scheduleId = ? AND journeyDate = ? AND userId = ? AND seatId <> ?',
+        [scheduleId, journeyDate, userId, seatId]
+    );
+    if (Number(holdCount) >= MAX_HOLDS_PER_USER) {
+        return { error: { status: 400, message: `You can hold a maximum of ${MAX_HOLDS_PER_USER} seats at a time.` } };
+    }
+
+    const expiresAt = new Date(now.getTime() + HOLD_TTL_MS);
+    await connection.query(
+        `INSERT INTO seat_holds (scheduleId, journeyDate, seatId, userId, origin, destination, expiresAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE origin = VALUES(origin), destination = VALUES(destination), expiresAt = VALUES(expiresAt)`,
+        [scheduleId, journeyDate, seatId, userId, origin, destination, expiresAt]
+    );
+    return { expiresAt, releasedHolds };
+};
+
+/**
+ * Holds several seats for a user until a fixed time, e.g. while a booking change awaits payment.
+ * Unlike placeHold, the user's other holds are left alone and the per-user limit does not apply.
+ * The caller is responsible for checking the seats are free for the segment.
+ */
+const holdSeatsUntil = async (connection, userId, scheduleId, journeyDate, origin, destination, seatIds, expiresAt) => {
+    if (seatIds.length === 0) return;
+    await connection.query(
+        `INSERT INTO seat_holds (scheduleId, journeyDate, seatId, userId, origin, destination, expiresAt)
+         VALUES ?
+         ON DUPLICATE KEY UPDATE origin = VALUES(origin), destination = VALUES(destination), expiresAt = VALUES(expiresAt)`,
+        [seatIds.map(seatId => [scheduleId, journeyDate, seatId, userId, origin, destination, expiresAt])]
+    );
+};
+
+/**
+ * Releases a user's holds on a schedule for a journey date.
+ * @param {string[]|null} seatIds - The seats to release, or null to release all of them.
+ * @returns {Promise<Array<{seatId: string, origin: string, destination: string}>>} The unexpired holds that were released.
+ */
+const releaseHolds = async (connection, userId, scheduleId, journeyDate, seatIds = null) => {
+    if (Array.isArray(seatIds) && seatIds.length === 0) return [];
+    const seatFilter = seatIds ? ' AND seatId IN (?)' : '';
+    const params = seatIds ? [scheduleId, journeyDate, userId, seatIds] : [scheduleId, journeyDate, userId];
+    const [releasedHolds] = await connection.query(
+        `SELECT seatId, origin, destination FROM seat_holds WHERE scheduleId = ? AND journeyDate = ? AND userId = ?${seatFilter} AND expiresAt > ?`,
+        [...params, new Date()]
+    );
+    await connection.query(`DELETE FROM seat_holds WHERE scheduleId = ? AND journeyDate = ? AND userId = ?${seatFilter}`, params);
+    return releasedHolds;
+};
+
+/**
+ * Deletes holds that have run out.
+ * @returns {Promise<Array<{scheduleId: string, journeyDate: Date, seatId: string, origin: string, destination: string}>>}
+ *   The holds that were removed, so their seats can be announced as free again.
+ */
+const releaseExpiredHolds = async (connection) => {
+    const now = new Date();
+    const [expiredHolds] = await connection.query(
+        'SELECT id, scheduleId, journeyDate, seatId, origin, destination FROM seat_holds WHERE expiresAt <= ?',
+        [now]
+    );
+    if (expiredHolds.length === 0) return [];
+    await connection.query('DELETE FROM seat_holds WHERE id IN (?) AND expiresAt <= ?', [expiredHolds.map(hold => hold.id), now]);
+    return expiredHolds;
+};
+
+module.exports = { findActiveHolds, findUserHeldSeats, placeHold, holdSeatsUntil, releaseHolds, releaseExpiredHolds };
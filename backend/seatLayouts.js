@@ -0,0 +1,287 @@
+/**
+ * Seat layouts: where the seats of a bus are, what kind they are and who may sit in them. A
+ * layout has one or two decks, each a grid of rows (front first) and columns; a seat sits in a
+ * cell and a sleeper berth takes two rows. Columns or cells without seats are aisles and gaps.
+ *
+ * The 2x2, 2x3 and 2x1 grids are built in; admins design the others, which are stored in
+ * seat_layouts. Schedules and vehicles name their layout by its id. Mirrored by
+ * components/bus/SeatLayout.tsx, which draws them.
+ */
+
+const SEAT_TYPES = ['SEATER', 'SLEEPER'];
+
+// WINDOW only describes the seat. The others limit who can book it.
+const SEAT_ATTRIBUTES = ['WINDOW', 'LADIES', 'DISABLED', 'CONDUCTOR_QUOTA'];
+
+const LAYOUT_ID_PATTERN = /^[A-Z0-9-]{2,20}$/;
+const SEAT_ID_PATTERN = /^[A-Z0-9]{1,6}$/;
+const MAX_DECKS = 2;
+const MAX_ROWS = 30;
+const MAX_COLUMNS = 8;
+const MAX_SEATS = 120;
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * The built-in grids: ten rows, the seats of a row split either side of the aisle, labelled with
+ * a letter followed by the row number, e.g. "C7". The outermost seats are window seats.
+ */
+const GRIDS = {
+    '2x2': { rows: 10, cols: [2, 2], letters: ['A', 'B', 'C', 'D'] },
+    '2x3': { rows: 10, cols: [2, 3], letters: ['A', 'B', 'C', 'D', 'E'] },
+    '2x1': { rows: 10, cols: [2, 1], letters: ['A', 'B', 'C'] },
+};
+
+const buildGridLayout = (id, { rows, cols, letters }) => {
+    const columns = cols[0] + 1 + cols[1];
+    const seats = [];
+    for (let row = 1; row <= rows; row++) {
+        letters.forEach((letter, index) => {
+            const column = index < cols[0] ? index + 1 : index + 2;
+            seats.push({
+                id: `${letter}${row}`,
+                deck: 0,
+                row,
+                column,
+                type: 'SEATER',
+                attributes: column === 1 || column === columns ? ['WINDOW'] : [],
+            });
+        });
+    }
+    return { id, name: `${id} seater`, decks: [{ name: 'Main', rows, columns }], seats, isBuiltIn: true };
+};
+
+const BUILT_IN_LAYOUTS = Object.fromEntries(Object.entries(GRIDS).map(([id, grid]) => [id, buildGridLayout(id, grid)]));
+
+const parseJson = (value) => (typeof value === 'string' ? JSON.parse(value) : value) || [];
+
+const toClientLayout = (row) => ({
+    id: row.id,
+    name: row.name,
+    decks: parseJson(row.decks),
+    seats: parseJson(row.seats),
+    isBuiltIn: false,
+});
+
+const isWholeNumber = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Checks a layout sent by the designer. The id is checked by the caller, since it can only be
+ * chosen when the layout is created.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateLayout = (layout) => {
+    if (!layout || typeof layout !== 'object') {
+        return 'Seat layout details are required.';
+    }
+    if (typeof layout.name !== 'string' || layout.name.trim() === '' || layout.name.length > MAX_NAME_LENGTH) {
+        return `The layout name must be at most ${MAX_NAME_LENGTH} characters.`;
+    }
+    if (!Array.isArray(layout.decks) || layout.decks.length === 0 || layout.decks.length > MAX_DECKS) {
+        return `A layout has one or ${MAX_DECKS} decks.`;
+    }
+    for (const [index, deck] of layout.decks.entries()) {
+        if (!deck || typeof deck.name !== 'string' || deck.name.trim() === '' || deck.name.length > 30) {
+            return `Deck ${index + 1} needs a name of at most 30 characters.`;
+        }
+        if (!isWholeNumber(deck.rows, 1, MAX_ROWS) || !isWholeNumber(deck.columns, 1, MAX_COLUMNS)) {
+            return `${deck.name} must have 1 to ${MAX_ROWS} rows and 1 to ${MAX_COLUMNS} columns.`;
+        }
+    }
+    if (!Array.isArray(layout.seats) || layout.seats.length === 0 || layout.seats.length > MAX_SEATS) {
+        return `A layout has 1 to ${MAX_SEATS} seats.`;
+    }
+
+    const seatIds = new Set();
+    const occupied = new Set();
+    for (const seat of layout.seats) {
+        if (!seat || typeof seat.id !== 'string' || !SEAT_ID_PATTERN.test(seat.id)) {
+            return 'Seat numbers must be 1 to 6 capital letters and digits, e.g. L12.';
+        }
+        if (seatIds.has(seat.id)) {
+            return `Seat ${seat.id} appears twice.`;
+        }
+        seatIds.add(seat.id);
+        if (!SEAT_TYPES.includes(seat.type)) {
+            return `Seat ${seat.id} must be one of ${SEAT_TYPES.join(', ')}.`;
+        }
+        if (!Array.isArray(seat.attributes) || seat.attributes.some(attribute => !SEAT_ATTRIBUTES.includes(attribute))
+            || new Set(seat.attributes).size !== seat.attributes.length) {
+            return `The attributes of seat ${seat.id} must be from ${SEAT_ATTRIBUTES.join(', ')}.`;
+        }
+        if (seat.attributes.includes('CONDUCTOR_QUOTA') && seat.attributes.some(a => a === 'LADIES' || a === 'DISABLED')) {
+            return `Seat ${seat.id} cannot be both on the conductor's quota and reserved for passengers.`;
+        }
+        const deck = Number.isInteger(seat.deck) ? layout.decks[seat.deck] : undefined;
+        if (!deck) {
+            return `Seat ${seat.id} is on a deck the layout does not have.`;
+        }
+        const rowSpan = seat.type === 'SLEEPER' ? 2 : 1;
+        if (!isWholeNumber(seat.column, 1, deck.columns) || !isWholeNumber(seat.row, 1, deck.rows - rowSpan + 1)) {
+            return `Seat ${seat.id} does not fit on ${deck.name}.`;
+        }
+        for (let row = seat.row; row < seat.row + rowSpan; row++) {
+            const cell = `${seat.deck}:${row}:${seat.column}`;
+            if (occupied.has(cell)) {
+                return `Seat ${seat.id} overlaps another seat on ${deck.name}.`;
+            }
+            occupied.add(cell);
+        }
+    }
+    return null;
+};
+
+/**
+ * @returns {boolean} Whether the id can name a new layout: capital letters, digits and dashes.
+ */
+const isValidLayoutId = (id) => typeof id === 'string' && LAYOUT_ID_PATTERN.test(id);
+
+/**
+ * @returns {Promise<Array<object>>} The built-in layouts, then the designed ones by name.
+ */
+const listLayouts = async (connection) => {
+    const [rows] = await connection.query('SELECT id, name, decks, seats FROM seat_layouts ORDER BY name, id');
+    return [...Object.values(BUILT_IN_LAYOUTS), ...rows.map(toClientLayout)];
+};
+
+/**
+ * @returns {Promise<object|null>} The layout with the given id.
+ */
+const getLayout = async (connection, layoutId, forUpdate = false) => {
+    if (typeof layoutId !== 'string') return null;
+    if (BUILT_IN_LAYOUTS[layoutId]) return BUILT_IN_LAYOUTS[layoutId];
+    const [[row]] = await connection.query(
+        `SELECT id, name, decks, seats FROM seat_layouts WHERE id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+        [layoutId]
+    );
+    return row ? toClientLayout(row) : null;
+};
+
+/**
+ * Stores a designed layout, creating it when `isNew` is set.
+ * @returns {Promise<{layout?: object, error?: {status: number, message: string}}>}
+ */
+const saveLayout = async (connection, layoutId, layout, isNew) => {
+    if (isNew) {
+        const [[clash]] = await connection.query('SELECT id FROM seat_layouts WHERE id = ?', [layoutId]);
+        if (clash || BUILT_IN_LAYOUTS[layoutId]) {
+            return { error: { status: 409, message: `A seat layout called ${layoutId} already exists.` } };
+        }
+    }
+    const fields = {
+        name: layout.name.trim(),
+        decks: JSON.stringify(layout.decks.map(deck => ({ name: deck.name.trim(), rows: deck.rows, columns: deck.columns }))),
+        seats: JSON.stringify(layout.seats.map(({ id, deck, row, column, type, attributes }) => ({ id, deck, row, column, type, attributes }))),
+        updatedAt: new Date(),
+    };
+    if (isNew) {
+        await connection.query('INSERT INTO seat_layouts SET ?', [{ id: layoutId, ...fields, createdAt: fields.updatedAt }]);
+    } else {
+        await connection.query('UPDATE seat_layouts SET ? WHERE id = ?', [fields, layoutId]);
+    }
+    return { layout: await getLayout(connection, layoutId) };
+};
+
+/**
+ * @returns {Promise<{scheduleIds: Array<string>, vehicleCount: number}>} What uses a layout.
+ */
+const getLayoutUsage = async (connection, layoutId) => {
+    const [[scheduleRows], [[vehicleRow]]] = await Promise.all([
+        connection.query('SELECT id FROM schedules WHERE seatLayout = ? ORDER BY id', [layoutId]),
+        connection.query('SELECT COUNT(*) AS count FROM vehicles WHERE seatLayout = ?', [layoutId]),
+    ]);
+    return { scheduleIds: scheduleRows.map(row => row.id), vehicleCount: Number(vehicleRow.count) };
+};
+
+const deleteLayout = async (connection, layoutId) => {
+    await connection.query('DELETE FROM seat_layouts WHERE id = ?', [layoutId]);
+};
+
+/**
+ * Finds a seat booked on a journey from `fromDate` on, on any of the schedules, that the layout
+ * does not have. Such a layout cannot be given to those schedules.
+ * @returns {Promise<string|null>} The seat, or null if the layout has every booked seat.
+ */
+const findMissingBookedSeat = async (connection, scheduleIds, layout, fromDate) => {
+    if (scheduleIds.length === 0) return null;
+    const seatIds = new Set(listSeatIds(layout));
+    const [rows] = await connection.query(
+        'SELECT DISTINCT bs.seatId FROM bookedseats bs JOIN bookings b ON b.id = bs.bookingId WHERE b.scheduleId IN (?) AND b.journeyDate >= ?',
+        [scheduleIds, fromDate]
+    );
+    return rows.find(row => !seatIds.has(row.seatId))?.seatId || null;
+};
+
+/**
+ * Lists every seat of a layout: lower deck first, then front row first and left to right.
+ * @returns {string[]} The seat IDs, or an empty list when there is no layout.
+ */
+const listSeatIds = (layout) => {
+    if (!layout) return [];
+    return [...layout.seats]
+        .sort((a, b) => a.deck - b.deck || a.row - b.row || a.column - b.column)
+        .map(seat => seat.id);
+};
+
+/**
+ * Tells why a seat cannot be booked online, or by a passenger when one is given: ladies seats are
+ * for women, seats for disabled passengers need the passenger to say they have a disability, and
+ * the conductor's quota is only sold on board.
+ * @param {{gender?: string, hasDisability?: boolean}|null} passenger
+ * @returns {string|null} The reason, or null if the seat can be booked.
+ */
+const getSeatProblem = (layout, seatId, passenger = null) => {
+    const seat = layout?.seats.find(s => s.id === seatId);
+    if (!seat) {
+        return `Seat ${seatId} does not exist on this bus.`;
+    }
+    if (seat.attributes.includes('CONDUCTOR_QUOTA')) {
+        return `Seat ${seatId} is kept for the conductor to sell on board.`;
+    }
+    if (!passenger) return null;
+    if (seat.attributes.includes('LADIES') && passenger.gender !== 'FEMALE') {
+        return `Seat ${seatId} is reserved for women.`;
+    }
+    if (seat.attributes.includes('DISABLED') && passenger.hasDisability !== true) {
+        return `Seat ${seatId} is reserved for passengers with a disability.`;
+    }
+    return null;
+};
+
+/**
+ * Picks a free seat for each passenger, in layout order, that the passenger is allowed to take.
+ * Unreserved seats are used before reserved ones, so the reserved seats stay free for the
+ * passengers who need them.
+ * @param {string[]} freeSeatIds
+ * @returns {string[]|null} A seat per passenger, or null if they cannot all be seated.
+ */
+const pickSeats = (layout, freeSeatIds, passengers) => {
+    const free = new Set(freeSeatIds);
+    const isReserved = (seatId) => layout.seats.find(s => s.id === seatId).attributes.some(a => a === 'LADIES' || a === 'DISABLED');
+    const ordered = listSeatIds(layout).filter(seatId => free.has(seatId));
+    const candidates = [...ordered.filter(seatId => !isReserved(seatId)), ...ordered.filter(isReserved)];
+
+    const picked = [];
+    for (const passenger of passengers) {
+        const seatId = candidates.find(id => !picked.includes(id) && !getSeatProblem(layout, id, passenger));
+        if (!seatId) return null;
+        picked.push(seatId);
+    }
+    return picked;
+};
+
+module.exports = {
+    SEAT_TYPES,
+    SEAT_ATTRIBUTES,
+    BUILT_IN_LAYOUTS,
+    validateLayout,
+    isValidLayoutId,
+    listLayouts,
+    getLayout,
+    saveLayout,
+    getLayoutUsage,
+    deleteLayout,
+    findMissingBookedSeat,
+    listSeatIds,
+    getSeatProblem,
+    pickSeats,
+};
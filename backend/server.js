@@ -1,17 +1,58 @@
 
 
 require('dotenv').config();
+const crypto = require('crypto');
 const express = require('express');
 const cors = require('cors');
 const mysql = require('mysql2/promise');
 const { v4: uuidv4 } = require('uuid');
+const { runMigrations } = require('./migrate');
+const sessions = require('./sessions');
+const { hashPassword, verifyPassword } = require('./passwords');
+const otp = require('./otp');
+const { createOtpProvider } = require('./otpProviders');
+const captcha = require('./captcha');
+const seatHolds = require('./seatHolds');
+const seatLayouts = require('./seatLayouts');
+const { publishSeatEvent, subscribeToSeatEvents } = require('./seatEvents');
+const payments = require('./payments');
+const refunds = require('./refunds');
+const cancellationPolicies = require('./cancellationPolicies');
+const waitlist = require('./waitlist');
+const bookingChanges = require('./bookingChanges');
+const journeyPlanner = require('./journeyPlanner');
+const savedPassengers = require('./savedPassengers');
+const concessions = require('./concessions');
+const fares = require('./fares');
+const tickets = require('./tickets');
+const boarding = require('./boarding');
+const trips = require('./trips');
+const operatingCalendars = require('./operatingCalendars');
+const tripDisruptions = require('./tripDisruptions');
+const notifications = require('./notifications');
+const fleet = require('./fleet');
+const { createPaymentGateway } = require('./paymentGateways');
 
 const app = express();
 const port = process.env.APP_PORT || 3000;
+const isProduction = process.env.NODE_ENV === 'production';
+
+// Behind a reverse proxy, TRUST_PROXY makes req.ip the client address from X-Forwarded-For: a
+// number of proxy hops, or addresses/subnets as Express accepts them. It is off by default, as
+// otherwise any client could set that header and slip past the per-IP OTP limits.
+const trustProxy = (process.env.TRUST_PROXY || '').trim();
+if (trustProxy && trustProxy !== 'false') {
+    app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
 
 // --- Middleware ---
 app.use(cors({ origin: '*' }));
-app.use(express.json({ limit: '5mb' })); // Increased limit for potentially large text pastes
+app.use(express.json({
+  limit: '5mb', // Increased limit for potentially large text pastes
+  verify: (req, res, buf) => {
+    req.rawBody = buf; // Payment webhooks are signed over the exact bytes received
+  },
+}));
 
 // --- Database Connection Pool ---
 let dbPool;
@@ -33,8 +74,33 @@ try {
   process.exit(1);
 }
 
-// --- In-memory store for OTP simulation ---
-const otpStore = {}; // In-memory: { 'phone': { otp: '123456', expires: Date.now() + 300000 } }
+// --- OTP Delivery ---
+let otpProvider;
+try {
+  otpProvider = createOtpProvider();
+  console.log(`OTP delivery provider: ${otpProvider.name}.`);
+} catch (error) {
+  console.error('Failed to configure OTP delivery:', error.message);
+  process.exit(1);
+}
+
+// --- Payment Gateway ---
+let paymentGateway;
+try {
+  paymentGateway = createPaymentGateway();
+  console.log(`Payment gateway: ${paymentGateway.name}.`);
+} catch (error) {
+  console.error('Failed to configure the payment gateway:', error.message);
+  process.exit(1);
+}
+
+// --- Ticket Signing ---
+// Tickets already downloaded must still verify after a restart, so production needs a fixed key.
+if (isProduction && !process.env.TICKET_SIGNING_KEY) {
+  console.error('TICKET_SIGNING_KEY must be set in production.');
+  process.exit(1);
+}
+const ticketSigner = tickets.createTicketSigner(process.env.TICKET_SIGNING_KEY || crypto.randomBytes(32).toString('hex'));
 
 // --- Helper Functions ---
 
@@ -67,15 +133,702 @@ const formatTime = (timeStr) => {
 };
 
 /**
- * Fetches schedules and their full route details, including per-stop fares.
+ * Formats a Date as a local 'YYYY-MM-DD' string.
+ * @param {Date} date - The date to format.
+ * @returns {string} The formatted date.
+ */
+const toDateString = (date) => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Validates a journey date supplied by the client.
+ * A journey date is the day the bus leaves the first stop of its schedule, and must
+ * fall between today and the end of the advance booking window.
+ * @param {string} value - The date string, expected as 'YYYY-MM-DD'.
+ * @returns {string|null} The normalized date string, or null if invalid or out of range.
+ */
+const parseJourneyDate = (value) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return null;
+    }
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null; // e.g. 2024-02-30
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const lastBookableDay = new Date(today);
+    lastBookableDay.setDate(lastBookableDay.getDate() + ADVANCE_BOOKING_DAYS);
+
+    if (date < today || date > lastBookableDay) {
+        return null;
+    }
+    return toDateString(date);
+};
+
+/**
+ * Resolves the calendar date-times of every stop on a schedule for one journey date.
+ * Stops whose clock time is earlier than the previous stop's are rolled over to the next day,
+ * so overnight services keep a consistent timeline.
+ * @param {object} schedule - An assembled schedule with `fullRouteStops`.
+ * @param {string} journeyDate - The 'YYYY-MM-DD' day the bus leaves its first stop.
+ * @returns {Array<{normalizedName: string, order: number, arrival: Date|null, departure: Date|null}>}
+ */
+const buildStopTimeline = (schedule, journeyDate) => {
+    const [year, month, day] = journeyDate.split('-').map(Number);
+    let dayOffset = 0;
+    let lastMinutes = -1;
+
+    const toDateTime = (timeStr) => {
+        if (!timeStr) return null;
+        const [hours, minutes] = timeStr.split(':').map(Number);
+        const totalMinutes = hours * 60 + minutes;
+        if (totalMinutes < lastMinutes) dayOffset++;
+        lastMinutes = totalMinutes;
+        return new Date(year, month - 1, day + dayOffset, hours, minutes, 0);
+    };
+
+    return schedule.fullRouteStops.map(stop => {
+        const arrival = toDateTime(stop.arrival);
+        const departure = toDateTime(stop.departure);
+        return { normalizedName: stop.normalizedName, order: stop.order, arrival, departure };
+    });
+};
+
+/**
+ * Finds the origin and destination stops of a segment on an assembled schedule.
+ * @returns {{originStop: object, destStop: object}|null} The stops, or null if the segment is invalid.
+ */
+const resolveSegment = (schedule, origin, destination) => {
+    if (!schedule?.fullRouteStops || !origin || !destination) return null;
+    const originStop = schedule.fullRouteStops.find(s => s.normalizedName === origin.trim().toLowerCase());
+    const destStop = schedule.fullRouteStops.find(s => s.normalizedName === destination.trim().toLowerCase());
+    if (!originStop || !destStop || originStop.order >= destStop.order) {
+        return null;
+    }
+    return { originStop, destStop };
+};
+
+/**
+ * Resolves when a segment leaves its origin and reaches its destination on a journey date.
+ * @returns {{departure: Date, arrival: Date}}
+ */
+const getSegmentTimes = (schedule, segment, journeyDate) => {
+    const timeline = buildStopTimeline(schedule, journeyDate);
+    const departure = timeline.find(stop => stop.order === segment.originStop.order).departure;
+    const destStop = timeline.find(stop => stop.order === segment.destStop.order);
+    return { departure, arrival: destStop.arrival || destStop.departure };
+};
+
+/**
+ * Collects the seats already taken on a schedule for a journey date whose booked segment
+ * overlaps the requested segment. Two segments overlap when they share at least one leg.
+ * @param {object} connection - A database connection or pool.
+ * @param {object} schedule - An assembled schedule with `fullRouteStops`.
+ * @param {string} journeyDate - The 'YYYY-MM-DD' journey date.
+ * @param {number} originOrder - Stop order of the requested origin.
+ * @param {number} destinationOrder - Stop order of the requested destination.
+ * @param {boolean} forUpdate - Lock the matching rows (use inside a booking transaction).
+ * @param {string|null} excludeBookingId - Ignore the seats of this booking, e.g. one being changed.
+ * @returns {Promise<Set<string>>} The unavailable seat IDs.
+ */
+const getUnavailableSeats = async (connection, schedule, journeyDate, originOrder, destinationOrder, forUpdate = false, excludeBookingId = null) => {
+    const [bookedSegments] = await connection.query(
+        `SELECT bs.seatId, bs.origin, bs.destination
+         FROM bookedseats bs
+         JOIN bookings b ON bs.bookingId = b.id
+         WHERE b.scheduleId = ? AND b.journeyDate = ?${excludeBookingId ? ' AND b.id <> ?' : ''}${forUpdate ? ' FOR UPDATE' : ''}`,
+        excludeBookingId ? [schedule.id, journeyDate, excludeBookingId] : [schedule.id, journeyDate]
+    );
+    return findOverlappingSeats(schedule, bookedSegments, originOrder, destinationOrder);
+};
+
+/**
+ * Collects the seats other passengers are holding during checkout whose held segment
+ * overlaps the requested segment.
+ * @param {string|null} excludeUserId - Ignore this user's own holds.
+ * @returns {Promise<Set<string>>} The held seat IDs.
+ */
+const getHeldSeats = async (connection, schedule, journeyDate, originOrder, destinationOrder, excludeUserId = null, forUpdate = false) => {
+    const holds = await seatHolds.findActiveHolds(connection, schedule.id, journeyDate, forUpdate);
+    const otherHolds = holds.filter(hold => hold.userId !== excludeUserId);
+    return findOverlappingSeats(schedule, otherHolds, originOrder, destinationOrder);
+};
+
+/**
+ * Picks the seats from a list of `{seatId, origin, destination}` rows whose segment shares
+ * at least one leg with the requested segment.
+ * @returns {Set<string>} The matching seat IDs.
+ */
+const findOverlappingSeats = (schedule, segments, originOrder, destinationOrder) => {
+    const stopOrderMap = schedule.fullRouteStops.reduce((acc, stop) => {
+        acc[stop.normalizedName] = stop.order;
+        return acc;
+    }, {});
+
+    const unavailableSeats = new Set();
+    for (const segment of segments) {
+        const bookedOriginOrder = stopOrderMap[segment.origin.trim().toLowerCase()];
+        const bookedDestinationOrder = stopOrderMap[segment.destination.trim().toLowerCase()];
+        if (bookedOriginOrder === undefined || bookedDestinationOrder === undefined) {
+            continue;
+        }
+        if (Math.max(originOrder, bookedOriginOrder) < Math.min(destinationOrder, bookedDestinationOrder)) {
+            unavailableSeats.add(segment.seatId);
+        }
+    }
+    return unavailableSeats;
+};
+
+/**
+ * Checks, inside a booking transaction, that the schedule runs on the journey date and the trip
+ * has not been cancelled, that the bus has not yet left the
+ * boarding stop on the journey date (allowing for any delay) and that none of the requested seats
+ * are taken for the segment. The schedule row is locked first so concurrent bookings on the same
+ * schedule are serialized, and the trip is created if the generator has not reached the date yet.
+ * @param {string|null} excludeBookingId - A booking being changed, whose own seats do not count as taken.
+ * @returns {Promise<{status: number, message: string}|null>} An error to report, or null if the seats can be booked.
+ */
+const checkSeatsBookable = async (connection, schedule, journeyDate, segment, seatIds, excludeBookingId = null) => {
+    await connection.query('SELECT id FROM schedules WHERE id = ? FOR UPDATE', [schedule.id]);
+    const holidayDates = await operatingCalendars.listHolidayDates(connection, journeyDate, journeyDate);
+    if (!operatingCalendars.runsOn(schedule.calendar, holidayDates, journeyDate)) {
+        return { status: 400, message: `This bus does not run on ${journeyDate}. Please choose another date.` };
+    }
+    const trip = await trips.ensureTrip(connection, schedule.id, journeyDate);
+    if (trip.status === 'CANCELLED') {
+        return { status: 409, message: `This departure has been cancelled on ${journeyDate}. Please choose another bus.` };
+    }
+
+    const boardingStop = buildStopTimeline(schedule, journeyDate).find(s => s.order === segment.originStop.order);
+    const delayMs = trip.delayMinutes * 60 * 1000;
+    if (!boardingStop?.departure || boardingStop.departure.getTime() + delayMs <= Date.now()) {
+        return { status: 400, message: `This bus has already departed from ${segment.originStop.name} on ${journeyDate}.` };
+    }
+
+    const unavailableSeats = await getUnavailableSeats(
+        connection, schedule, journeyDate, segment.originStop.order, segment.destStop.order, true, excludeBookingId
+    );
+    const takenSeats = seatIds.filter(seatId => unavailableSeats.has(seatId));
+    if (takenSeats.length > 0) {
+        return { status: 409, message: `Seat(s) ${takenSeats.join(', ')} are already booked for this journey. Please choose different seats.` };
+    }
+    return null;
+};
+
+/**
+ * Checks, inside a booking transaction, that the caller holds every requested seat for the segment.
+ * @returns {Promise<{status: number, message: string}|null>} An error to report, or null if all seats are held.
+ */
+const checkSeatsHeld = async (connection, userId, schedule, journeyDate, segment, seatIds) => {
+    const heldSeats = await seatHolds.findUserHeldSeats(
+        connection, userId, schedule.id, journeyDate, segment.originStop.normalizedName, segment.destStop.normalizedName
+    );
+    const unheldSeats = seatIds.filter(seatId => !heldSeats.has(seatId));
+    if (unheldSeats.length > 0) {
+        return { status: 409, message: `Your hold on seat(s) ${unheldSeats.join(', ')} has expired. Please select the seat(s) again.` };
+    }
+    return null;
+};
+
+/**
+ * Checks the seats against the schedule's seat layout: that each exists and is sold online and,
+ * when the passengers are given, that each passenger may sit in their seat.
+ * @param {Array<{gender?: string, hasDisability?: boolean}>|null} passengers - One per seat, in the same order.
+ * @returns {Promise<{status: number, message: string}|null>} An error to report, or null if the seats can be booked.
+ */
+const checkSeatRules = async (connection, schedule, seatIds, passengers = null) => {
+    const layout = await seatLayouts.getLayout(connection, schedule.seatLayout);
+    for (const [index, seatId] of seatIds.entries()) {
+        const problem = seatLayouts.getSeatProblem(layout, seatId, passengers ? passengers[index] : null);
+        if (problem) {
+            return { status: 400, message: problem };
+        }
+    }
+    return null;
+};
+
+const PASSENGER_GENDERS = ['MALE', 'FEMALE', 'OTHER'];
+
+/**
+ * Checks the passenger details sent for a booking or a waitlist entry.
+ * @returns {string|null} What is wrong with them, or null if they are complete.
+ */
+const validatePassengers = (passengers) => {
+    for (const [index, passenger] of passengers.entries()) {
+        const label = passenger.seatId ? `seat ${passenger.seatId}` : `passenger ${index + 1}`;
+        if (!passenger.fullName || passenger.fullName.trim() === '') {
+            return `Full name is required for ${label}.`;
+        }
+        // Only needed for reserved seats: ladies seats and seats for passengers with a disability.
+        if (passenger.gender !== undefined && !PASSENGER_GENDERS.includes(passenger.gender)) {
+            return `Gender for ${label} must be one of ${PASSENGER_GENDERS.join(', ')}.`;
+        }
+        if (passenger.hasDisability !== undefined && typeof passenger.hasDisability !== 'boolean') {
+            return `Whether the passenger on ${label} has a disability must be true or false.`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks the concession passengers against their categories on a journey date: proof documents,
+ * age bands and per-booking limits. Run after validatePassengers.
+ * @returns {Promise<string|null>} What is wrong, or null if every concession is allowed.
+ */
+const checkConcessions = async (connection, passengers, journeyDate) => {
+    if (!passengers.some(passenger => concessions.isConcessionType(passenger.type))) return null;
+    return concessions.checkPassengers(await concessions.listCategories(connection), passengers, journeyDate);
+};
+
+/**
+ * Prices each passenger's seat for a segment at the fares in effect on the journey date, applying
+ * their concession category's discount when the schedule offers discounts and the category covers
+ * the bus's starting district. Passengers whose concession does not apply here travel on a normal ticket.
+ * @param {Array<{seatId: string, fullName: string, type: string, dob?: string, aadhaarNumber?: string, proofNumber?: string}>} seats
+ * @returns {Promise<{passengerDetails: Array<object>, totalFare: number, discountType: string}>}
+ *   The passenger details to store on the booking, each with its `fare`.
+ */
+const pricePassengers = async (connection, schedule, segment, seats, journeyDate) => {
+    const { originStop, destStop } = segment;
+
+    const [fareTable, categories, [discountEnabledRow]] = await Promise.all([
+        fares.getFareTable(connection, journeyDate),
+        concessions.listCategories(connection),
+        connection.query("SELECT value FROM settings WHERE `key` = 'isDiscountSystemEnabled'")
+    ]);
+    const baseFarePerSeat = fares.quoteSegmentFare(fareTable, schedule, originStop, destStop);
+    const isDiscountEnabled = discountEnabledRow[0]?.value === 'true' && schedule.isDiscountEnabled;
+
+    let totalFare = 0;
+    const discountTypes = new Set();
+    const passengerDetails = [];
+
+    for (const seat of seats) {
+        const category = isDiscountEnabled && concessions.isConcessionType(seat.type)
+            ? concessions.findApplicableCategory(categories, seat.type, schedule.origin)
+            : null;
+
+        const passengerDetail = {
+            seatId: seat.seatId,
+            fullName: seat.fullName,
+            type: category ? category.code : 'NORMAL',
+            status: 'BOOKED',
+        };
+        // Kept so a seat change can check the passenger may take a reserved seat.
+        if (seat.gender) passengerDetail.gender = seat.gender;
+        if (seat.hasDisability) passengerDetail.hasDisability = true;
+        let finalFarePerSeat = baseFarePerSeat;
+
+        if (category) {
+            finalFarePerSeat = baseFarePerSeat * (1 - (category.discountPercentage / 100));
+            if (category.proofType === 'AADHAAR') {
+                passengerDetail.aadhaarNumber = seat.aadhaarNumber;
+            } else {
+                passengerDetail.proofNumber = seat.proofNumber;
+            }
+            if (seat.dob) passengerDetail.dob = seat.dob;
+            discountTypes.add(category.code);
+        }
+
+        // Ensure fare is present for EVERY passenger, including NORMAL
+        passengerDetail.fare = finalFarePerSeat;
+
+        totalFare += finalFarePerSeat;
+        passengerDetails.push(passengerDetail);
+    }
+
+    let discountTypeForDb = 'NONE';
+    if (discountTypes.size > 1) {
+        discountTypeForDb = 'MIXED';
+    } else if (discountTypes.size === 1) {
+        [discountTypeForDb] = discountTypes;
+    }
+    return { passengerDetails, totalFare, discountType: discountTypeForDb };
+};
+
+/**
+ * Prices the passengers' seats and writes the booking and its booked seats. Run inside a
+ * transaction after checking the seats are free. Bookings with a fare await payment until
+ * `paymentDeadline`; free ones are confirmed straight away.
+ * @param {{userId: string, schedule: object, segment: object, journeyDate: string, seats: Array<object>,
+ *   origin: string, destination: string, paymentDeadline: Date, itinerary?: {id: string, leg: number}}} request
+ *   `itinerary` links the booking to an itinerary as its leg-th leg.
+ * @returns {Promise<{bookingId: string, status: string, totalFare: number, paymentExpiresAt: Date|null}>}
+ */
+const createPassengerBooking = async (connection, { userId, schedule, segment, journeyDate, seats, origin, destination, paymentDeadline, itinerary = null }) => {
+    const { passengerDetails, totalFare, discountType } = await pricePassengers(connection, schedule, segment, seats, journeyDate);
+
+    const bookingId = uuidv4();
+    const status = totalFare > 0 ? 'PENDING_PAYMENT' : 'CONFIRMED';
+    const paymentExpiresAt = status === 'PENDING_PAYMENT' ? paymentDeadline : null;
+    await connection.execute(
+        `INSERT INTO bookings 
+            (id, userId, scheduleId, tripId, itineraryId, itineraryLeg, fare, originalFare, status, paymentExpiresAt, bookingDate, journeyDate, isFreeTicket, origin, destination, discountType, passengerDetails) 
+         VALUES (?, ?, ?, (SELECT id FROM trips WHERE scheduleId = ? AND journeyDate = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            bookingId,
+            userId,
+            schedule.id,
+            schedule.id,
+            journeyDate,
+            itinerary ? itinerary.id : null,
+            itinerary ? itinerary.leg : null,
+            totalFare,
+            totalFare,
+            status,
+            paymentExpiresAt,
+            new Date(),
+            journeyDate,
+            false,
+            origin,
+            destination,
+            discountType,
+            passengerDetails.length > 0 ? JSON.stringify(passengerDetails) : null
+        ]
+    );
+
+    const seatInsertPromises = seats.map(seat =>
+        connection.execute(
+            `INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES (?, ?, ?, ?)`,
+            [bookingId, seat.seatId, origin, destination]
+        )
+    );
+    await Promise.all(seatInsertPromises);
+    await flagOverlappingConcessions(connection, bookingId, schedule, segment, journeyDate, passengerDetails);
+    return { bookingId, status, totalFare, paymentExpiresAt };
+};
+
+/**
+ * Flags the concession seats of a new booking whose Aadhaar number is also on a concession seat
+ * of another booking travelling at the same time. The booking itself goes ahead.
+ */
+const flagOverlappingConcessions = async (connection, bookingId, schedule, segment, journeyDate, passengerDetails) => {
+    const matches = await concessions.findConcessionMatches(connection, bookingId, passengerDetails, journeyDate);
+    if (matches.length === 0) return;
+
+    const { departure, arrival } = getSegmentTimes(schedule, segment, journeyDate);
+    const schedules = { [schedule.id]: schedule };
+    const overlapping = [];
+    for (const match of matches) {
+        const other = match.booking;
+        if (!(other.scheduleId in schedules)) {
+            schedules[other.scheduleId] = (await fetchAndAssembleSchedules(connection, other.scheduleId))[other.scheduleId] || null;
+        }
+        const otherSchedule = schedules[other.scheduleId];
+        const otherSegment = otherSchedule ? resolveSegment(otherSchedule, other.origin, other.destination) : null;
+        if (!otherSegment) continue;
+        const otherTimes = getSegmentTimes(otherSchedule, otherSegment, toDateString(new Date(other.journeyDate)));
+        if (departure < otherTimes.arrival && otherTimes.departure < arrival) {
+            overlapping.push(match);
+        }
+    }
+    await concessions.recordFlags(connection, bookingId, overlapping);
+};
+
+/**
+ * Picks a seat for each passenger among those nobody has booked or is holding for a segment on a
+ * journey date, front row first, keeping to the seat layout's reserved seats and conductor's quota.
+ * Run inside a transaction; the rows read are locked.
+ * @param {Array<{gender?: string, hasDisability?: boolean}>} passengers
+ * @returns {Promise<string[]|null>} A seat per passenger, or null if there are not enough they can take.
+ */
+const findSeatsForPassengers = async (connection, schedule, journeyDate, segment, passengers) => {
+    const { originStop, destStop } = segment;
+    const unavailableSeats = await getUnavailableSeats(connection, schedule, journeyDate, originStop.order, destStop.order, true);
+    const heldSeats = await getHeldSeats(connection, schedule, journeyDate, originStop.order, destStop.order, null, true);
+    const layout = await seatLayouts.getLayout(connection, schedule.seatLayout);
+    if (!layout) return null;
+    const freeSeats = seatLayouts.listSeatIds(layout).filter(seatId => !unavailableSeats.has(seatId) && !heldSeats.has(seatId));
+    return seatLayouts.pickSeats(layout, freeSeats, passengers);
+};
+
+/**
+ * Offers freed seats on a schedule to its waitlist, earliest entry first. Entries needing more
+ * seats than are free for their segment are passed over, so a smaller party further back can
+ * still be served. Each promoted entry gets a booking awaiting payment with the waitlist offer
+ * window, or a confirmed booking when there is nothing to pay.
+ */
+const promoteWaitlist = async (scheduleId, journeyDate) => {
+    const promoted = [];
+    let connection;
+    try {
+        connection = await dbPool.getConnection();
+        await connection.beginTransaction();
+        const entries = await waitlist.findWaitingEntries(connection, scheduleId, journeyDate);
+        const schedule = entries.length > 0 ? (await fetchAndAssembleSchedules(connection, scheduleId))[scheduleId] : null;
+
+        for (const entry of schedule ? entries : []) {
+            const segment = resolveSegment(schedule, entry.origin, entry.destination);
+            if (!segment) continue;
+            const freeSeats = await findSeatsForPassengers(connection, schedule, journeyDate, segment, entry.passengers);
+            if (!freeSeats) continue;
+
+            const seats = entry.passengers.map((passenger, index) => ({ ...passenger, seatId: freeSeats[index] }));
+            const seatIds = seats.map(seat => seat.seatId);
+            if (await checkSeatsBookable(connection, schedule, journeyDate, segment, seatIds)) continue;
+
+            const { bookingId } = await createPassengerBooking(connection, {
+                userId: entry.userId, schedule, segment, journeyDate, seats,
+                origin: entry.origin, destination: entry.destination,
+                paymentDeadline: waitlist.getOfferDeadline(),
+            });
+            await waitlist.markOffered(connection, entry.id, bookingId);
+            promoted.push(...seatIds.map(seatId => ({ seatId, origin: entry.origin, destination: entry.destination })));
+        }
+        await connection.commit();
+    } catch (err) {
+        // Callers do not wait for this, so nothing may be thrown from here.
+        if (connection) await connection.rollback().catch(() => {});
+        console.error(`Failed to promote the waitlist for schedule ${scheduleId} on ${journeyDate}:`, err);
+        return;
+    } finally {
+        if (connection) connection.release();
+    }
+    publishSeatEvent(scheduleId, journeyDate, 'booked', promoted);
+};
+
+/**
+ * Finds when the bus leaves a booking's boarding stop on its journey date.
+ * @returns {Date|null}
+ */
+const findBookingDeparture = (schedule, booking) => {
+    const originStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.origin.trim().toLowerCase());
+    return originStop && booking.journeyDate
+        ? buildStopTimeline(schedule, toDateString(new Date(booking.journeyDate))).find(s => s.order === originStop.order)?.departure || null
+        : null;
+};
+
+/**
+ * Works out whether a booking's seats can be cancelled now, and at what fee, under the slabs of the
+ * district its bus starts in. Passengers on a trip the operator cancelled can always cancel, free of charge.
+ * @returns {Promise<{error?: {status: number, message: string}, quote?: {allowed: boolean, feePercentage: number},
+ *   slabs?: Array<object>, isTripCancelled?: boolean}>}
+ */
+const quoteBookingCancellation = async (connection, booking) => {
+    const trip = await trips.getTrip(connection, booking.scheduleId, toDateString(new Date(booking.journeyDate)));
+    const isTripCancelled = trip?.status === 'CANCELLED';
+    const schedule = (await fetchAndAssembleSchedules(connection, booking.scheduleId))[booking.scheduleId];
+    if (!schedule) {
+        return { error: { status: 404, message: 'Could not find schedule details for this booking.' } };
+    }
+    const departureDateTime = findBookingDeparture(schedule, booking);
+    if (!departureDateTime) {
+        return { error: { status: 500, message: 'Could not determine departure time for this booking.' } };
+    }
+    const slabs = cancellationPolicies.findSlabsForDistrict(await cancellationPolicies.listPolicies(connection), schedule.origin);
+    const quote = isTripCancelled
+        ? { allowed: true, feePercentage: 0 }
+        : cancellationPolicies.quoteCancellation(slabs, departureDateTime);
+    return { quote, slabs, isTripCancelled };
+};
+
+/**
+ * Tells whether two booking states put the same passengers in the same seats on the same journey.
+ */
+const isSameBookingState = (a, b) => a.journeyDate === b.journeyDate
+    && a.origin.trim().toLowerCase() === b.origin.trim().toLowerCase()
+    && a.destination.trim().toLowerCase() === b.destination.trim().toLowerCase()
+    && a.passengers.length === b.passengers.length
+    && a.passengers.every((passenger, index) => passenger.seatId === b.passengers[index].seatId);
+
+/**
+ * Works out a change to a paid booking: its new journey date, segment and seats, and what the
+ * passengers' fares become. Run inside a transaction; the new seats are checked free of other
+ * bookings and of other passengers' holds.
+ * @param {{journeyDate?: string, origin?: string, destination?: string, seatMoves?: Object<string, string>}} request
+ *   `seatMoves` maps a passenger's current seat to the seat they move to.
+ * @returns {Promise<{error?: {status: number, message: string}, previousState?: object, newState?: object,
+ *   segment?: object, fareDifference?: number}>}
+ */
+const planBookingChange = async (connection, booking, schedule, request) => {
+    const currentJourneyDate = toDateString(new Date(booking.journeyDate));
+    const journeyDate = request.journeyDate ? parseJourneyDate(request.journeyDate) : currentJourneyDate;
+    if (!journeyDate) {
+        return { error: { status: 400, message: journeyDateHint } };
+    }
+    const origin = request.origin || booking.origin;
+    const destination = request.destination || booking.destination;
+    const segment = resolveSegment(schedule, origin, destination);
+    if (!segment) {
+        return { error: { status: 400, message: 'Invalid origin or destination for this route.' } };
+    }
+    const [[itinerary]] = booking.itineraryId
+        ? await connection.query('SELECT kind FROM itineraries WHERE id = ?', [booking.itineraryId])
+        : [[null]];
+    if (itinerary?.kind === 'CONNECTING') {
+        // Moving one leg of a connecting journey would break the connection with the others.
+        const currentSegment = resolveSegment(schedule, booking.origin, booking.destination);
+        const isSameSegment = currentSegment
+            && currentSegment.originStop.order === segment.originStop.order
+            && currentSegment.destStop.order === segment.destStop.order;
+        if (journeyDate !== currentJourneyDate || !isSameSegment) {
+            return { error: { status: 400, message: 'Only seats can be changed on a leg of a connecting journey.' } };
+        }
+    }
+
+    const previousState = bookingChanges.snapshotBooking(booking, currentJourneyDate);
+    const seatMoves = request.seatMoves || {};
+    const unknownSeats = Object.keys(seatMoves).filter(seatId => !previousState.passengers.some(p => p.seatId === seatId));
+    if (unknownSeats.length > 0) {
+        return { error: { status: 400, message: `Seat(s) ${unknownSeats.join(', ')} are not active on this booking.` } };
+    }
+    const newSeatIds = previousState.passengers.map(p => seatMoves[p.seatId] || p.seatId);
+    if (new Set(newSeatIds).size !== newSeatIds.length) {
+        return { error: { status: 400, message: 'Two passengers cannot share a seat.' } };
+    }
+
+    const passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+    const activePassengers = passengerDetails.filter(p => p.status !== 'CANCELLED');
+    // Passengers who keep their seat are not checked again; the rules may have changed since they booked.
+    const movedIndexes = newSeatIds.flatMap((seatId, index) => (seatId !== previousState.passengers[index].seatId ? [index] : []));
+    const seatRuleError = await checkSeatRules(
+        connection, schedule, movedIndexes.map(index => newSeatIds[index]), movedIndexes.map(index => activePassengers[index])
+    );
+    if (seatRuleError) {
+        return { error: seatRuleError };
+    }
+    if (journeyDate !== currentJourneyDate) {
+        // Only the age bands can change with the date; bookings made before dates of birth were taken cannot be checked again.
+        const categories = await concessions.listCategories(connection);
+        const concessionError = concessions.checkAges(categories, activePassengers.filter(p => p.dob), journeyDate);
+        if (concessionError) {
+            return { error: { status: 400, message: concessionError } };
+        }
+    }
+    const priced = await pricePassengers(
+        connection, schedule, segment, activePassengers.map((passenger, index) => ({ ...passenger, seatId: newSeatIds[index] })), journeyDate
+    );
+    const newState = {
+        journeyDate,
+        origin,
+        destination,
+        passengers: priced.passengerDetails.map(({ seatId, fullName, type, fare }) => ({ seatId, fullName, type, fare })),
+    };
+    if (isSameBookingState(previousState, newState)) {
+        return { error: { status: 400, message: 'The requested change is the same as the current booking.' } };
+    }
+
+    const seatError = await checkSeatsBookable(connection, schedule, journeyDate, segment, newSeatIds, booking.id);
+    if (seatError) {
+        return { error: seatError };
+    }
+    const heldSeats = await getHeldSeats(connection, schedule, journeyDate, segment.originStop.order, segment.destStop.order, booking.userId, true);
+    const heldByOthers = newSeatIds.filter(seatId => heldSeats.has(seatId));
+    if (heldByOthers.length > 0) {
+        return { error: { status: 409, message: `Seat(s) ${heldByOthers.join(', ')} are being booked by another passenger. Please choose different seats.` } };
+    }
+
+    const currentFare = previousState.passengers.reduce((sum, p) => sum + p.fare, 0);
+    const fareDifference = Math.round((priced.totalFare - currentFare) * 100) / 100;
+    return { previousState, newState, segment, fareDifference };
+};
+
+/**
+ * Moves a booking to the new state of a change: its passengers take their new seats and fares,
+ * and the booking its new journey date and segment. Run inside a transaction after checking
+ * the booking still matches the change's previous state.
+ * @returns {Promise<{freedSeats: Array<object>, takenSeats: Array<object>}>} The seat events to announce,
+ *   on the previous and the new journey date respectively.
+ */
+const applyBookingChange = async (connection, booking, previousState, newState, fareDifference) => {
+    const passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+    previousState.passengers.forEach((previous, index) => {
+        const passenger = passengerDetails.find(p => p.seatId === previous.seatId && p.status !== 'CANCELLED');
+        passenger.seatId = newState.passengers[index].seatId;
+        passenger.fare = newState.passengers[index].fare;
+    });
+
+    const previousSeatIds = previousState.passengers.map(p => p.seatId);
+    const newSeatIds = newState.passengers.map(p => p.seatId);
+    await connection.query('DELETE FROM bookedseats WHERE bookingId = ? AND seatId IN (?)', [booking.id, previousSeatIds]);
+    await connection.query(
+        'INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES ?',
+        [newSeatIds.map(seatId => [booking.id, seatId, newState.origin, newState.destination])]
+    );
+    await connection.query(
+        `UPDATE bookings SET fare = ?, journeyDate = ?, tripId = (SELECT id FROM trips WHERE scheduleId = ? AND journeyDate = ?),
+            origin = ?, destination = ?, passengerDetails = ? WHERE id = ?`,
+        [Number(booking.fare) + fareDifference, newState.journeyDate, booking.scheduleId, newState.journeyDate, newState.origin, newState.destination, JSON.stringify(passengerDetails), booking.id]
+    );
+    await seatHolds.releaseHolds(connection, booking.userId, booking.scheduleId, newState.journeyDate, newSeatIds);
+
+    return {
+        freedSeats: previousSeatIds.map(seatId => ({ seatId, origin: previousState.origin, destination: previousState.destination })),
+        takenSeats: newSeatIds.map(seatId => ({ seatId, origin: newState.origin, destination: newState.destination })),
+    };
+};
+
+/**
+ * Applies a booking change once its extra fare is paid. If the booking moved on in the
+ * meantime, or the bus has left, the change fails and the payment is refunded. Run inside
+ * the transaction that recorded the payment.
+ * @returns {Promise<object|null>} The applied change's seat events and journey, or null if it could not be applied.
+ */
+const applyPaidBookingChange = async (connection, intent) => {
+    const change = await bookingChanges.getChangeForUpdate(connection, intent.changeId);
+    const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [intent.bookingId]);
+    const schedule = booking ? (await fetchAndAssembleSchedules(connection, booking.scheduleId))[booking.scheduleId] : null;
+    const segment = schedule ? resolveSegment(schedule, change.newState.origin, change.newState.destination) : null;
+
+    const isStillApplicable = segment
+        && ['CONFIRMED', 'PARTIALLY_CANCELLED'].includes(booking.status)
+        && isSameBookingState(change.previousState, bookingChanges.snapshotBooking(booking, toDateString(new Date(booking.journeyDate))))
+        && !await checkSeatsBookable(
+            connection, schedule, change.newState.journeyDate, segment, change.newState.passengers.map(p => p.seatId), booking.id
+        );
+    if (!isStillApplicable) {
+        await bookingChanges.setChangeStatus(connection, change.id, 'FAILED');
+        await payments.refundUnusablePayment(connection, intent, 'The booking changed before the payment arrived; it is being refunded.');
+        return null;
+    }
+
+    const events = await applyBookingChange(connection, booking, change.previousState, change.newState, Number(change.fareDifference));
+    await bookingChanges.setChangeStatus(connection, change.id, 'APPLIED');
+    return { ...events, scheduleId: booking.scheduleId, previousJourneyDate: change.previousState.journeyDate, journeyDate: change.newState.journeyDate };
+};
+
+/**
+ * Announces the seats a booking change freed and took, and offers the freed ones to the waitlist.
+ */
+const publishBookingChange = ({ scheduleId, previousJourneyDate, journeyDate, freedSeats, takenSeats }) => {
+    publishSeatEvent(scheduleId, previousJourneyDate, 'cancelled', freedSeats);
+    publishSeatEvent(scheduleId, journeyDate, 'booked', takenSeats);
+    promoteWaitlist(scheduleId, previousJourneyDate);
+};
+
+/**
+ * Announces that the seats of a released booking are free again.
+ * @param {object} booking - A booking row with the released `seatIds`.
+ */
+const publishReleasedBookingSeats = (booking) => {
+    publishSeatEvent(
+        booking.scheduleId,
+        toDateString(new Date(booking.journeyDate)),
+        'cancelled',
+        booking.seatIds.map(seatId => ({ seatId, origin: booking.origin, destination: booking.destination }))
+    );
+};
+
+/**
+ * Fetches schedules and their full route details, including per-stop fares and distances.
  * @param {object} connection - A database connection or pool.
  * @param {string|null} scheduleId - Optional: The specific schedule ID to fetch.
- * @returns {Promise<Object>} A map of schedule objects, keyed by schedule ID.
+ * @param {string} journeyDate - Optional: The date whose fare table prices each schedule's full route; defaults to today.
+ * @returns {Promise<Object>} A map of schedule objects, keyed by schedule ID. Each carries its operating `calendar`
+ *   and the vehicle that usually runs it.
  */
-const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
-    const [[settingsRows], [discountedDistrictRows]] = await Promise.all([
+const fetchAndAssembleSchedules = async (connection, scheduleId = null, journeyDate = toDateString(new Date())) => {
+    const [[settingsRows], [discountedDistrictRows], fareTable, calendars] = await Promise.all([
         connection.query("SELECT `key`, `value` FROM settings WHERE `key` IN ('isBookingSystemOnline', 'isFreeBookingEnabled', 'isDiscountSystemEnabled')"),
-        connection.query("SELECT district_name FROM discounted_districts")
+        connection.query("SELECT district_name FROM discounted_districts"),
+        fares.getFareTable(connection, journeyDate),
+        operatingCalendars.loadCalendars(connection, scheduleId ? [scheduleId] : null)
     ]);
     const settings = settingsRows.reduce((acc, row) => ({ ...acc, [row.key]: row.value === 'true' }), {});
     const discountedDistricts = new Set(discountedDistrictRows.map(r => r.district_name));
@@ -93,10 +846,11 @@ const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
 
     const query = `
         SELECT
-            s.id, s.busName, s.seatLayout, s.bookingEnabled,
-            rs.stopName, rs.stopOrder, rs.arrivalTime, rs.departureTime, rs.fare
+            s.id, s.busName, s.seatLayout, s.busClass, s.bookingEnabled, s.vehicleId, v.registrationNumber AS vehicleRegistration,
+            rs.stopName, rs.stopOrder, rs.arrivalTime, rs.departureTime, rs.distanceKm, rs.fare
         FROM schedules s
         JOIN routestops rs ON s.id = rs.scheduleId
+        LEFT JOIN vehicles v ON v.id = s.vehicleId
         ${scheduleFilter}
         ORDER BY s.id, rs.stopOrder;
     `;
@@ -113,10 +867,14 @@ const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
                 id: row.id,
                 busName: row.busName,
                 seatLayout: row.seatLayout,
+                busClass: row.busClass,
+                vehicleId: row.vehicleId || null,
+                vehicleRegistration: row.vehicleRegistration || null,
                 bookingEnabled: isSystemOnline && row.bookingEnabled === '1',
                 isFreeBookingEnabled: isSystemOnline && isFreeBookingEnabled && row.bookingEnabled === '1',
                 isDiscountEnabled: false, // will be set below
                 fare: 0,
+                calendar: calendars[row.id] || operatingCalendars.DEFAULT_CALENDAR,
                 stops: [],
             };
         }
@@ -125,6 +883,7 @@ const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
             order: row.stopOrder,
             arrival: row.arrivalTime,
             departure: row.departureTime,
+            distanceKm: row.distanceKm,
             fare: row.fare,
         });
         return acc;
@@ -150,23 +909,26 @@ const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
             const lastStop = validStops[validStops.length - 1];
             schedule.destination = lastStop.name;
             schedule.arrivalTime = formatTime(lastStop.arrival) || 'N/A';
-            schedule.fare = Number(lastStop.fare) || 0;
         } else {
             schedule.destination = validStops[0].name;
             schedule.arrivalTime = formatTime(validStops[0].arrival) || 'N/A';
-            schedule.fare = Number(validStops[0].fare) || 0;
         }
         
         schedule.via = validStops.slice(1, -1).map(stop => stop.name);
 
+        // `fare` is the stored fare from the first stop, which prices routes without distances.
         schedule.fullRouteStops = validStops.map(stop => ({
             name: stop.name,
             normalizedName: stop.name.trim().toLowerCase(),
             arrival: stop.arrival,
             departure: stop.departure,
+            distanceKm: stop.distanceKm === null ? null : Number(stop.distanceKm),
             fare: Number(stop.fare) || 0,
             order: stop.order,
         }));
+        schedule.fare = validStops.length > 1
+            ? fares.quoteSegmentFare(fareTable, schedule, schedule.fullRouteStops[0], schedule.fullRouteStops.at(-1))
+            : 0;
         
         schedule.fullNormalizedRoute = schedule.fullRouteStops.map(s => s.normalizedName);
         
@@ -176,53 +938,419 @@ const fetchAndAssembleSchedules = async (connection, scheduleId = null) => {
     return schedulesMap;
 };
 
-// --- Authentication Middleware ---
-const authenticate = async (req, res, next) => {
-  const token = req.headers['x-auth-token'];
-  if (!token) {
-    return next(); // No token, proceed as anonymous user
-  }
-
-  try {
-    const [rows] = await dbPool.query('SELECT * FROM users WHERE id = ?', [token]);
-    if (rows.length === 0) {
-        return next(); // Invalid token
-    }
-    
-    const user = rows[0];
-    // For Sub-Admins, fetch their assigned districts and attach to the user object
-    if (user.role === 'SUB_ADMIN') {
-        const [districtRows] = await dbPool.query('SELECT district FROM subadmindistricts WHERE userId = ?', [user.id]);
-        user.assignedDistricts = districtRows.map(r => r.district);
-    }
-
-    const { password, ...userToExpose } = user;
-    req.user = userToExpose; // Attach user to the request object
-    next();
-  } catch (error) {
-    // This is a server error, not an authentication failure
-    console.error('Authentication middleware error:', error);
-    next(error);
-  }
+/**
+ * @returns {{fromDate: string, toDate: string}} Today and the last day of the advance booking window.
+ */
+const getBookingWindow = () => {
+    const lastBookableDay = new Date();
+    lastBookableDay.setDate(lastBookableDay.getDate() + ADVANCE_BOOKING_DAYS);
+    return { fromDate: toDateString(new Date()), toDate: toDateString(lastBookableDay) };
 };
 
-const requireAuth = (req, res, next) => {
-  if (!req.user) {
-    return res.status(401).json({ message: 'Authentication required. Please log in.' });
-  }
-  next();
+/**
+ * Generates a trip for every day each schedule runs in the booking window, following the
+ * operating calendars and the holiday list, and drops unbooked trips on days it no longer runs.
+ */
+const generateUpcomingTrips = async (connection) => {
+    const { fromDate, toDate } = getBookingWindow();
+    const [calendars, holidayDates] = await Promise.all([
+        operatingCalendars.loadCalendars(connection),
+        operatingCalendars.listHolidayDates(connection, fromDate, toDate),
+    ]);
+    const runs = Object.entries(calendars).flatMap(([scheduleId, calendar]) =>
+        operatingCalendars.listRunDates(calendar, holidayDates, fromDate, toDate).map(runDate => [scheduleId, runDate])
+    );
+    await trips.generateTrips(connection, runs, fromDate, toDate);
 };
 
-const requireAdmin = (req, res, next) => {
-  if (!req.user || req.user.role !== 'ADMIN') {
-    return res.status(403).json({ message: 'Permission denied. Administrator access required.' });
-  }
-  next();
+/**
+ * How long a trip has its vehicle: from leaving the first stop to reaching the last, pushed back by its delay.
+ * @returns {{start: Date, end: Date}|null}
+ */
+const getTripSpan = (schedule, journeyDate, delayMinutes = 0) => {
+    const timeline = buildStopTimeline(schedule, journeyDate);
+    const start = timeline[0]?.departure || timeline[0]?.arrival;
+    const end = timeline.at(-1)?.arrival || timeline.at(-1)?.departure;
+    if (!start || !end) return null;
+    const delayMs = delayMinutes * 60 * 1000;
+    return { start: new Date(start.getTime() + delayMs), end: new Date(end.getTime() + delayMs) };
 };
 
-const requireSubAdminOrAdmin = (req, res, next) => {
-  if (!req.user || (req.user.role !== 'ADMIN' && req.user.role !== 'SUB_ADMIN')) {
-    return res.status(403).json({ message: 'Permission denied. Administrator or Sub-Administrator access required.' });
+/**
+ * Checks that a vehicle can take on some trips: its certificates are valid on their dates and it
+ * is not running anything else at the same time. Run inside the assigning transaction, with the
+ * vehicle row locked so two assignments cannot both take the same slot.
+ * @param {Array<{tripId: string, scheduleId: string, journeyDate: string, delayMinutes: number}>} tripsToRun
+ * @returns {Promise<string|null>} Why it cannot, or null if it can.
+ */
+const checkVehicleAvailability = async (connection, vehicle, tripsToRun) => {
+    if (tripsToRun.length === 0) return null;
+    const dates = tripsToRun.map(trip => trip.journeyDate).sort();
+    // Overnight trips of the day before can still be on the road.
+    const dayBefore = new Date(`${dates[0]}T00:00:00`);
+    dayBefore.setDate(dayBefore.getDate() - 1);
+    const tripIds = new Set(tripsToRun.map(trip => trip.tripId));
+    const [vehicleTrips, schedulesMap] = await Promise.all([
+        fleet.listVehicleTrips(connection, vehicle.id, toDateString(dayBefore), journeyPlanner.nextDay(dates.at(-1))),
+        fetchAndAssembleSchedules(connection),
+    ]);
+    const toRun = (trip) => {
+        const schedule = schedulesMap[trip.scheduleId];
+        const span = schedule && getTripSpan(schedule, trip.journeyDate, trip.delayMinutes);
+        return span ? { scheduleId: trip.scheduleId, journeyDate: trip.journeyDate, ...span } : null;
+    };
+    return fleet.findConflict(
+        vehicle,
+        tripsToRun.map(toRun).filter(Boolean),
+        vehicleTrips.filter(trip => !tripIds.has(trip.tripId)).map(toRun).filter(Boolean)
+    );
+};
+
+/**
+ * Gives a trip its own vehicle, which must have the seat layout and class its seats were sold
+ * for, or hands it back to its schedule's vehicle when `vehicleId` is null. Run inside a transaction.
+ * @returns {Promise<{status: number, message: string}|null>} An error to report, or null once it is assigned.
+ */
+const assignTripVehicle = async (connection, trip, vehicleId) => {
+    const schedule = (await fetchAndAssembleSchedules(connection, trip.scheduleId))[trip.scheduleId];
+    if (!schedule) {
+        return { status: 404, message: 'Could not find the schedule of this trip.' };
+    }
+    const vehicle = await fleet.getVehicle(connection, vehicleId || schedule.vehicleId, true);
+    if (vehicleId && !vehicle) {
+        return { status: 400, message: 'Vehicle not found.' };
+    }
+    if (vehicleId && (vehicle.seatLayout !== schedule.seatLayout || vehicle.busClass !== schedule.busClass)) {
+        return { status: 409, message: `${vehicle.registrationNumber} is a ${vehicle.seatLayout} ${vehicle.busClass} bus; this trip needs a ${schedule.seatLayout} ${schedule.busClass} one.` };
+    }
+    if (vehicle && trip.status !== 'CANCELLED') {
+        const conflict = await checkVehicleAvailability(connection, vehicle, [{ ...trip, tripId: trip.id }]);
+        if (conflict) {
+            return { status: 409, message: conflict };
+        }
+    }
+    await fleet.setTripVehicle(connection, trip.id, vehicleId);
+    return null;
+};
+
+/**
+ * The buses passengers of a cancelled trip could move to: other schedules running on the
+ * journey date or the day after (within the booking window) that are open for booking and
+ * have not been cancelled themselves.
+ * @returns {Promise<Array<{schedule: object, journeyDate: string, busName: string, delayMinutes: number}>>}
+ */
+const loadAlternativeTrips = async (connection, cancelledScheduleId, journeyDate) => {
+    const candidates = [];
+    for (const runDate of [journeyDate, journeyPlanner.nextDay(journeyDate)].filter(date => parseJourneyDate(date))) {
+        const [schedulesMap, tripsOnDate, holidayDates] = await Promise.all([
+            fetchAndAssembleSchedules(connection, null, runDate),
+            trips.getTripsOn(connection, runDate),
+            operatingCalendars.listHolidayDates(connection, runDate, runDate),
+        ]);
+        for (const schedule of Object.values(schedulesMap)) {
+            const trip = tripsOnDate[schedule.id];
+            if (schedule.id === cancelledScheduleId || !schedule.bookingEnabled || trip?.status === 'CANCELLED') continue;
+            if (!operatingCalendars.runsOn(schedule.calendar, holidayDates, runDate)) continue;
+            candidates.push({ schedule, journeyDate: runDate, busName: trip?.busName || schedule.busName, delayMinutes: trip ? trip.delayMinutes : 0 });
+        }
+    }
+    return candidates;
+};
+
+/**
+ * Picks the alternative trips that serve a booking's segment, have not left its boarding stop
+ * and have a free seat each of its passengers can take. Run inside a transaction.
+ * @returns {Promise<Array<{scheduleId: string, journeyDate: string, busName: string, departure: string, arrival: string|null}>>}
+ *   Earliest departure first.
+ */
+const findAlternativesForBooking = async (connection, candidates, booking, passengers) => {
+    // With nobody left to seat every bus would match, so there is nothing to offer.
+    if (passengers.length === 0) return [];
+    const alternatives = [];
+    for (const { schedule, journeyDate, busName, delayMinutes } of candidates) {
+        const segment = resolveSegment(schedule, booking.origin, booking.destination);
+        if (!segment) continue;
+        const timeline = buildStopTimeline(schedule, journeyDate);
+        const departure = timeline.find(stop => stop.order === segment.originStop.order)?.departure;
+        const destination = timeline.find(stop => stop.order === segment.destStop.order);
+        if (!departure || departure.getTime() + delayMinutes * 60 * 1000 <= Date.now()) continue;
+        if (!await findSeatsForPassengers(connection, schedule, journeyDate, segment, passengers)) continue;
+        const arrival = destination?.arrival || destination?.departure;
+        alternatives.push({
+            scheduleId: schedule.id,
+            journeyDate,
+            busName,
+            departure: departure.toISOString(),
+            arrival: arrival ? arrival.toISOString() : null,
+        });
+    }
+    return alternatives
+        .sort((a, b) => a.departure.localeCompare(b.departure))
+        .slice(0, tripDisruptions.MAX_ALTERNATIVES);
+};
+
+/**
+ * Gives a beneficiary back the free ticket a booking used, so an operator's cancellation does not cost them it.
+ */
+const restoreFreeTicket = async (connection, booking) => {
+    if (!booking.isFreeTicket || !booking.govtExamRegistrationNumber) return;
+    await connection.query('UPDATE govtbeneficiaries SET ticketClaimed = 0 WHERE govtExamRegistrationNumber = ?', [booking.govtExamRegistrationNumber]);
+};
+
+/**
+ * Cancels every remaining passenger of a booking on a cancelled trip with a full refund, and gives
+ * back a free ticket. Run inside a transaction.
+ * @param {{reason: string, initiatedBy: 'USER'|'ADMIN'|'SYSTEM', initiatedByUserId?: string}} details
+ * @returns {Promise<{refundAmount: number, seatIds: Array<string>}>}
+ */
+const refundCancelledTripBooking = async (connection, booking, details) => {
+    const passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+    const activePassengers = passengerDetails.filter(p => p.status !== 'CANCELLED');
+    if (activePassengers.length === 0) {
+        return { refundAmount: 0, seatIds: [] };
+    }
+
+    const seatIds = activePassengers.map(p => p.seatId);
+    const seatRefunds = activePassengers.map(p => ({ seatId: p.seatId, passengerType: p.type, amount: Number(p.fare) || 0, fee: 0 }));
+    const refundAmount = Math.round(seatRefunds.reduce((sum, seat) => sum + seat.amount, 0) * 100) / 100;
+    activePassengers.forEach(p => { p.status = 'CANCELLED'; });
+
+    await connection.query('DELETE FROM bookedseats WHERE bookingId = ? AND seatId IN (?)', [booking.id, seatIds]);
+    await connection.query(
+        "UPDATE bookings SET fare = ?, passengerDetails = ?, status = 'CANCELLED' WHERE id = ?",
+        [Math.max(0, Number(booking.fare) - refundAmount), JSON.stringify(passengerDetails), booking.id]
+    );
+    await refunds.recordRefunds(connection, booking, seatRefunds, details);
+    await restoreFreeTicket(connection, booking);
+    return { refundAmount, seatIds };
+};
+
+/**
+ * Moves the remaining passengers of a booking on a cancelled trip to one of the buses they were
+ * offered, in the first free seats. Fares are not repriced: the passengers have already paid.
+ * Run inside a transaction.
+ * @returns {Promise<{error?: {status: number, message: string}, seatMap?: Object<string, string>, segment?: object}>}
+ *   `seatMap` maps each passenger's old seat to their new one.
+ */
+const rebookCancelledTripBooking = async (connection, booking, alternative) => {
+    const schedule = (await fetchAndAssembleSchedules(connection, alternative.scheduleId, alternative.journeyDate))[alternative.scheduleId];
+    const segment = schedule && resolveSegment(schedule, booking.origin, booking.destination);
+    if (!segment) {
+        return { error: { status: 409, message: 'That bus no longer serves your journey. Please choose another option.' } };
+    }
+    const passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+    const activePassengers = passengerDetails.filter(p => p.status !== 'CANCELLED');
+    if (activePassengers.length === 0) {
+        return { error: { status: 409, message: 'This booking has no seats left to move.' } };
+    }
+    // Lock the schedule before picking seats so no other booking takes them in between.
+    await connection.query('SELECT id FROM schedules WHERE id = ? FOR UPDATE', [schedule.id]);
+    const freeSeats = await findSeatsForPassengers(connection, schedule, alternative.journeyDate, segment, activePassengers);
+    if (!freeSeats) {
+        return { error: { status: 409, message: 'That bus has filled up. Please choose another option.' } };
+    }
+    const seatMap = {};
+    activePassengers.forEach((passenger, index) => {
+        seatMap[passenger.seatId] = freeSeats[index];
+        passenger.seatId = freeSeats[index];
+    });
+    const seatIds = Object.values(seatMap);
+    const seatError = await checkSeatsBookable(connection, schedule, alternative.journeyDate, segment, seatIds);
+    if (seatError) {
+        return { error: seatError };
+    }
+
+    await connection.query('DELETE FROM bookedseats WHERE bookingId = ?', [booking.id]);
+    await connection.query(
+        'INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES ?',
+        [seatIds.map(seatId => [booking.id, seatId, segment.originStop.name, segment.destStop.name])]
+    );
+    await connection.query(
+        `UPDATE bookings SET scheduleId = ?, journeyDate = ?, tripId = (SELECT id FROM trips WHERE scheduleId = ? AND journeyDate = ?),
+            origin = ?, destination = ?, passengerDetails = ? WHERE id = ?`,
+        [schedule.id, alternative.journeyDate, schedule.id, alternative.journeyDate, segment.originStop.name, segment.destStop.name, JSON.stringify(passengerDetails), booking.id]
+    );
+    return { seatMap, segment };
+};
+
+/**
+ * Settles one paid booking on a trip being cancelled: offers it the other buses for its segment,
+ * or refunds it in full when there are none or rebooking is not being offered. Run inside the
+ * cancelling transaction.
+ * @returns {Promise<{userId: string, bookingId: string, title: string, message: string}>} The notification to send.
+ */
+const disruptBooking = async (connection, { trip, booking, busName, reason, candidates, adminId }) => {
+    const passengers = JSON.parse(booking.passengerDetails || '[]')
+        .filter(p => p.status !== 'CANCELLED')
+        .map(({ seatId, fullName, type, fare, gender, hasDisability }) => ({ seatId, fullName, type, fare: Number(fare) || 0, gender, hasDisability }));
+    const journey = `${busName} from ${booking.origin} to ${booking.destination} on ${trip.journeyDate}`;
+    const alternatives = candidates.length > 0
+        ? await findAlternativesForBooking(connection, candidates, booking, passengers)
+        : [];
+
+    if (alternatives.length > 0) {
+        const offerExpiresAt = tripDisruptions.getOfferDeadline(alternatives);
+        await tripDisruptions.recordDisruption(connection, { tripId: trip.id, booking, passengers, status: 'OFFERED', alternatives, offerExpiresAt });
+        return {
+            userId: booking.userId,
+            bookingId: booking.id,
+            title: 'Bus cancelled',
+            message: `The ${journey} is cancelled (${reason}). Choose another bus or a full refund from your dashboard by ${offerExpiresAt.toLocaleString('en-IN')}, or you will be refunded automatically.`,
+        };
+    }
+
+    const { refundAmount } = await refundCancelledTripBooking(connection, booking, {
+        reason: `Trip cancelled by operator: ${reason}`.slice(0, 255),
+        initiatedBy: 'ADMIN',
+        initiatedByUserId: adminId,
+    });
+    await tripDisruptions.recordDisruption(connection, {
+        tripId: trip.id, booking, passengers, status: 'REFUNDED',
+        resolution: candidates.length > 0 ? 'NO_ALTERNATIVE' : 'REFUND_ONLY', refundAmount,
+    });
+    return {
+        userId: booking.userId,
+        bookingId: booking.id,
+        title: 'Bus cancelled',
+        message: refundAmount > 0
+            ? `The ${journey} is cancelled (${reason}). Your ticket has been cancelled and ₹${refundAmount.toFixed(2)} will be refunded.`
+            : `The ${journey} is cancelled (${reason}). Your ticket has been cancelled${booking.isFreeTicket ? ' and your free ticket can be booked again' : ''}.`,
+    };
+};
+
+/**
+ * Gathers what goes on a booking's e-ticket. Only the user who booked gets it, and only once the
+ * booking is confirmed; cancelled seats are left off.
+ * @returns {Promise<{error?: {status: number, message: string}, ticket?: object}>}
+ */
+const loadTicket = async (connection, bookingId, userId) => {
+    const [[booking]] = await connection.query(
+        `SELECT b.*, DATE_FORMAT(b.journeyDate, '%Y-%m-%d') AS journeyDateString, u.fullName AS userFullName
+         FROM bookings b
+         JOIN users u ON u.id = b.userId
+         WHERE b.id = ?`,
+        [bookingId]
+    );
+    if (!booking || booking.userId !== userId) {
+        return { error: { status: 404, message: 'Booking not found.' } };
+    }
+    if (!tickets.TICKETED_STATUSES.includes(booking.status)) {
+        return { error: { status: 409, message: 'Tickets are only issued for confirmed bookings.' } };
+    }
+
+    const [[seatRows], categories, schedulesMap] = await Promise.all([
+        connection.query('SELECT seatId FROM bookedseats WHERE bookingId = ? ORDER BY seatId', [bookingId]),
+        concessions.listCategories(connection),
+        fetchAndAssembleSchedules(connection, booking.scheduleId),
+    ]);
+    const schedule = schedulesMap[booking.scheduleId];
+    const segment = resolveSegment(schedule, booking.origin, booking.destination);
+    const getTypeLabel = (type) => (concessions.isConcessionType(type)
+        ? categories.find(category => category.code === type)?.name || type
+        : 'Normal');
+
+    const passengers = JSON.parse(booking.passengerDetails || '[]').filter(p => p.status !== 'CANCELLED');
+    const summaryByType = new Map();
+    for (const passenger of passengers) {
+        const entry = summaryByType.get(passenger.type) || { label: getTypeLabel(passenger.type), count: 0, fare: 0 };
+        entry.count += 1;
+        entry.fare += Number(passenger.fare || 0);
+        summaryByType.set(passenger.type, entry);
+    }
+    const seatIds = seatRows.map(row => row.seatId);
+    const isFreeTicket = Boolean(booking.isFreeTicket);
+
+    return {
+        ticket: {
+            bookingId: booking.id,
+            passengerName: booking.userFullName,
+            busName: schedule ? schedule.busName : booking.scheduleId,
+            scheduleId: booking.scheduleId,
+            origin: booking.origin,
+            destination: booking.destination,
+            journeyDate: booking.journeyDateString,
+            bookingDate: new Date(booking.bookingDate),
+            departureTime: segment ? formatTime(segment.originStop.departure) : null,
+            arrivalTime: segment ? formatTime(segment.destStop.arrival) : null,
+            seatIds,
+            passengers: passengers.map(passenger => {
+                const proof = concessions.isConcessionType(passenger.type) ? passenger.proofNumber || passenger.aadhaarNumber : null;
+                return {
+                    seatId: passenger.seatId,
+                    fullName: passenger.fullName,
+                    typeLabel: getTypeLabel(passenger.type),
+                    proofSuffix: proof ? proof.slice(-4) : undefined,
+                };
+            }),
+            summary: isFreeTicket
+                ? [{ label: 'Free', count: seatIds.length, fare: 0 }]
+                : Array.from(summaryByType.values()),
+            totalFare: Number(booking.fare || 0),
+            isFreeTicket,
+        },
+    };
+};
+
+// --- Authentication Middleware ---
+const authenticate = async (req, res, next) => {
+  const token = req.headers['x-auth-token'];
+  if (!token) {
+    return next(); // No token, proceed as anonymous user
+  }
+
+  try {
+    const session = await sessions.findSessionByAccessToken(dbPool, token);
+    if (!session) {
+        return next(); // Unknown, expired or revoked token
+    }
+
+    const [rows] = await dbPool.query('SELECT * FROM users WHERE id = ?', [session.userId]);
+    if (rows.length === 0) {
+        return next(); // User no longer exists
+    }
+    
+    const user = rows[0];
+    // For Sub-Admins, fetch their assigned districts and attach to the user object
+    if (user.role === 'SUB_ADMIN') {
+        const [districtRows] = await dbPool.query('SELECT district FROM subadmindistricts WHERE userId = ?', [user.id]);
+        user.assignedDistricts = districtRows.map(r => r.district);
+    }
+
+    const { password, ...userToExpose } = user;
+    req.user = userToExpose; // Attach user to the request object
+    req.sessionId = session.id;
+    next();
+  } catch (error) {
+    // This is a server error, not an authentication failure
+    console.error('Authentication middleware error:', error);
+    next(error);
+  }
+};
+
+const requireAuth = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: 'Authentication required. Please log in.' });
+  }
+  next();
+};
+
+const requireAdmin = (req, res, next) => {
+  if (!req.user || req.user.role !== 'ADMIN') {
+    return res.status(403).json({ message: 'Permission denied. Administrator access required.' });
+  }
+  next();
+};
+
+const requireSubAdminOrAdmin = (req, res, next) => {
+  if (!req.user || (req.user.role !== 'ADMIN' && req.user.role !== 'SUB_ADMIN')) {
+    return res.status(403).json({ message: 'Permission denied. Administrator or Sub-Administrator access required.' });
+  }
+  next();
+};
+
+const requireConductor = (req, res, next) => {
+  if (!req.user || req.user.role !== 'CONDUCTOR') {
+    return res.status(403).json({ message: 'Permission denied. Conductor access required.' });
   }
   next();
 };
@@ -230,6 +1358,8 @@ const requireSubAdminOrAdmin = (req, res, next) => {
 // --- Validation Constants ---
 const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
 const passwordHint = "Password must be at least 8 characters long and include one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&).";
+const ADVANCE_BOOKING_DAYS = 30;
+const journeyDateHint = `A valid journey date (YYYY-MM-DD) between today and ${ADVANCE_BOOKING_DAYS} days ahead is required.`;
 
 
 // --- API Routes ---
@@ -254,15 +1384,34 @@ apiRouter.get('/districts', async (req, res) => {
 });
 
 // Auth routes (public)
+apiRouter.get('/auth/captcha', async (req, res) => {
+  try {
+    const challenge = await captcha.createCaptcha(dbPool);
+    res.set('Cache-Control', 'no-store');
+    res.json(challenge);
+  } catch (error) {
+    handleDBError(res, error, 'createCaptcha');
+  }
+});
+
 apiRouter.post('/auth/register', async (req, res) => {
-  const { fullName, email, phone, password, gender, dob } = req.body;
+  const { fullName, email, phone, password, gender, dob, captchaId, captchaAnswer } = req.body;
   if (!fullName || !email || !phone || !password || !gender || !dob) {
     return res.status(400).json({ message: 'All fields are required.' });
   }
+  if (!passwordRegex.test(password)) {
+    return res.status(400).json({ message: passwordHint });
+  }
 
   try {
+    const captchaError = await captcha.verifyCaptcha(dbPool, captchaId, captchaAnswer);
+    if (captchaError) {
+      return res.status(captchaError.status).json({ message: captchaError.message });
+    }
+
     const userId = uuidv4();
-    const newUser = { id: userId, fullName, email, phone, password, gender, dob, role: 'USER' };
+    const passwordHash = await hashPassword(password);
+    const newUser = { id: userId, fullName, email, phone, password: passwordHash, gender, dob, role: 'USER' };
 
     await dbPool.query(
       'INSERT INTO users (id, fullName, email, phone, password, gender, dob, role) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
@@ -280,20 +1429,30 @@ apiRouter.post('/auth/register', async (req, res) => {
 });
 
 apiRouter.post('/auth/login', async (req, res) => {
-  const { phone, password } = req.body;
+  const { phone, password, captchaId, captchaAnswer } = req.body;
   if (!phone || !password) {
     return res.status(400).json({ message: 'Phone and password are required.' });
   }
 
   try {
+    const captchaError = await captcha.verifyCaptcha(dbPool, captchaId, captchaAnswer);
+    if (captchaError) {
+      return res.status(captchaError.status).json({ message: captchaError.message });
+    }
+
     const [rows] = await dbPool.query('SELECT * FROM users WHERE phone = ?', [phone]);
     const user = rows[0];
 
-    if (!user || user.password !== password) {
+    if (user && user.password === null) {
+      return res.status(401).json({ message: 'This account uses OTP login. Please use the "Login with OTP" option.' });
+    }
+    const { valid, needsRehash } = await verifyPassword(password, user?.password);
+    if (!valid) {
       return res.status(401).json({ message: 'Invalid phone number or password.' });
     }
-    if (user.password === null) {
-      return res.status(401).json({ message: 'This account uses OTP login. Please use the "Login with OTP" option.' });
+    if (needsRehash) {
+      // Legacy plaintext password: replace it with a hash now that we know it.
+      await dbPool.query('UPDATE users SET password = ? WHERE id = ? AND password = ?', [await hashPassword(password), user.id, user.password]);
     }
 
     if (user.role === 'SUB_ADMIN') {
@@ -301,20 +1460,26 @@ apiRouter.post('/auth/login', async (req, res) => {
         user.assignedDistricts = districtRows.map(r => r.district);
     }
 
+    const session = await sessions.createSession(dbPool, user.id);
     const { password: _, ...userToReturn } = user;
-    res.json({ token: user.id, user: userToReturn });
+    res.json({ ...session, user: userToReturn });
   } catch (error) {
     handleDBError(res, error, 'login');
   }
 });
 
 apiRouter.post('/auth/send-otp', async (req, res) => {
-    const { phone } = req.body;
+    const { phone, captchaId, captchaAnswer } = req.body;
     if (!phone) {
         return res.status(400).json({ message: 'Phone number is required.' });
     }
 
     try {
+        const captchaError = await captcha.verifyCaptcha(dbPool, captchaId, captchaAnswer);
+        if (captchaError) {
+            return res.status(captchaError.status).json({ message: captchaError.message });
+        }
+
         const [rows] = await dbPool.query('SELECT password, govtExamRegistrationNumber FROM users WHERE phone = ?', [phone]);
         if (rows.length === 0) {
             return res.status(404).json({ message: 'No account found with this phone number.' });
@@ -325,33 +1490,33 @@ apiRouter.post('/auth/send-otp', async (req, res) => {
             return res.status(400).json({ message: 'This account uses a password. Please use the standard login.' });
         }
         
-        const otp = Math.floor(100000 + Math.random() * 900000).toString();
-        const expires = Date.now() + 5 * 60 * 1000;
-        otpStore[phone] = { otp, expires };
-        console.log(`OTP for ${phone}: ${otp}`);
+        const issued = await otp.issueOtp(dbPool, otpProvider, phone, req.ip);
+        if (issued.error) {
+            return res.status(issued.error.status).json({ message: issued.error.message });
+        }
 
-        res.json({ message: 'OTP has been generated.', otp });
+        const response = { message: 'An OTP has been sent to your registered phone number.', expiresInSeconds: issued.expiresInSeconds };
+        if (!isProduction) {
+            response.otp = issued.otp; // Development convenience only; never exposed in production.
+        }
+        res.json(response);
     } catch (error) {
         handleDBError(res, error, 'sendOtp');
     }
 });
 
 apiRouter.post('/auth/verify-otp', async (req, res) => {
-    const { phone, otp } = req.body;
-    if (!phone || !otp) {
+    const { phone, otp: code } = req.body;
+    if (!phone || !code) {
         return res.status(400).json({ message: 'Phone and OTP are required.' });
     }
 
-    const storedOtpData = otpStore[phone];
-    if (!storedOtpData || storedOtpData.otp !== otp) {
-        return res.status(401).json({ message: 'Invalid OTP.' });
-    }
-    if (Date.now() > storedOtpData.expires) {
-        delete otpStore[phone];
-        return res.status(401).json({ message: 'OTP has expired. Please request a new one.' });
-    }
-
     try {
+        const verification = await otp.verifyOtp(dbPool, phone, code);
+        if (verification.error) {
+            return res.status(verification.error.status).json({ message: verification.error.message });
+        }
+
         const [rows] = await dbPool.query('SELECT * FROM users WHERE phone = ?', [phone]);
         const user = rows[0];
 
@@ -364,18 +1529,94 @@ apiRouter.post('/auth/verify-otp', async (req, res) => {
             user.assignedDistricts = districtRows.map(r => r.district);
         }
 
-        delete otpStore[phone];
+        const session = await sessions.createSession(dbPool, user.id);
         const { password: _, ...userToReturn } = user;
-        res.json({ token: user.id, user: userToReturn });
+        res.json({ ...session, user: userToReturn });
 
     } catch (error) {
         handleDBError(res, error, 'verifyOtpLogin');
     }
 });
 
+apiRouter.post('/auth/refresh', async (req, res) => {
+    const { refreshToken } = req.body;
+    if (!refreshToken) {
+        return res.status(400).json({ message: 'A refresh token is required.' });
+    }
+
+    try {
+        const refreshed = await sessions.refreshSession(dbPool, refreshToken);
+        if (!refreshed) {
+            return res.status(401).json({ message: 'Your session has expired. Please log in again.' });
+        }
+
+        const [rows] = await dbPool.query('SELECT * FROM users WHERE id = ?', [refreshed.userId]);
+        const user = rows[0];
+        if (!user) {
+            return res.status(401).json({ message: 'Your session has expired. Please log in again.' });
+        }
+        if (user.role === 'SUB_ADMIN') {
+            const [districtRows] = await dbPool.query('SELECT district FROM subadmindistricts WHERE userId = ?', [user.id]);
+            user.assignedDistricts = districtRows.map(r => r.district);
+        }
+
+        const { password: _, ...userToReturn } = user;
+        res.json({ ...refreshed.session, user: userToReturn });
+    } catch (error) {
+        handleDBError(res, error, 'refreshSession');
+    }
+});
+
+// Payment outcome notifications from the gateway. Authenticated by the gateway's signature, not a session.
+apiRouter.post('/payments/webhook/:gateway', async (req, res) => {
+    if (req.params.gateway !== paymentGateway.name) {
+        return res.status(404).json({ message: 'Unknown payment gateway.' });
+    }
+
+    let result;
+    try {
+        result = paymentGateway.parseWebhook(req.headers, req.rawBody);
+    } catch (error) {
+        result = null;
+    }
+    if (!result) {
+        return res.status(401).json({ message: 'Invalid webhook signature.' });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const outcome = await payments.applyPaymentResult(connection, paymentGateway.name, result);
+        if (outcome.error) {
+            await connection.rollback();
+            return res.status(outcome.error.status).json({ message: outcome.error.message });
+        }
+        const appliedChange = outcome.paidChange ? await applyPaidBookingChange(connection, outcome.paidChange) : null;
+        await connection.commit();
+        res.status(200).json({ received: true });
+        if (appliedChange) {
+            publishBookingChange(appliedChange);
+        }
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'paymentWebhook');
+    } finally {
+        connection.release();
+    }
+});
+
 // All subsequent routes will be authenticated
 apiRouter.use(authenticate);
 
+apiRouter.post('/auth/logout', requireAuth, async (req, res) => {
+    try {
+        await sessions.revokeSession(dbPool, req.sessionId);
+        res.status(204).send();
+    } catch (error) {
+        handleDBError(res, error, 'logout');
+    }
+});
+
 // --- Settings Routes ---
 apiRouter.get('/settings/:key', async (req, res) => {
     try {
@@ -389,9 +1630,7 @@ apiRouter.get('/settings/:key', async (req, res) => {
                 isBookingSystemOnline: 'false',
                 isDiscountSystemEnabled: 'false',
                 isPassCardSystemEnabled: 'false',
-                isCancellationEnabled: 'false',
-                childDiscountPercentage: '40',
-                seniorDiscountPercentage: '50'
+                isCancellationEnabled: 'false'
             };
             if (key in defaultSettings) {
                 const defaultValue = defaultSettings[key];
@@ -465,87 +1704,468 @@ apiRouter.put('/discounts/districts', requireAdmin, async (req, res) => {
     }
 });
 
-// --- Schedule Routes ---
-apiRouter.get('/schedules', async (req, res) => {
-    const user = req.user;
+// --- Holiday Routes ---
+apiRouter.get('/holidays', async (req, res) => {
     try {
-        const schedulesMap = await fetchAndAssembleSchedules(dbPool);
-        let allSchedules = Object.values(schedulesMap);
-        let schedulesToReturn = allSchedules;
+        res.json(await operatingCalendars.listHolidays(dbPool));
+    } catch (error) {
+        handleDBError(res, error, 'getHolidays');
+    }
+});
 
-        if (user && user.role === 'SUB_ADMIN') {
-            const assignedDistricts = user.assignedDistricts || [];
-            if (assignedDistricts.length === 0) {
-                schedulesToReturn = [];
-            } else {
-                schedulesToReturn = allSchedules.filter(schedule =>
-                    assignedDistricts.includes(schedule.origin)
-                );
-            }
-        }
+// Replaces the public holiday list and regenerates trips, since schedules may skip holidays.
+apiRouter.put('/holidays', requireAdmin, async (req, res) => {
+    const { holidays } = req.body;
+    const validationError = operatingCalendars.validateHolidays(holidays);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
 
-        const cleanedSchedules = schedulesToReturn.map(s => {
-            const { fullRouteStops, fullNormalizedRoute, ...cleaned } = s;
-            return cleaned;
-        });
-        res.json(cleanedSchedules);
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        await operatingCalendars.replaceHolidays(connection, holidays);
+        await generateUpcomingTrips(connection);
+        await connection.commit();
+        res.status(200).json({ message: 'Holidays updated successfully.' });
     } catch (error) {
-        handleDBError(res, error, 'getAllSchedules');
+        await connection.rollback();
+        handleDBError(res, error, 'updateHolidays');
+    } finally {
+        connection.release();
     }
 });
 
-apiRouter.post('/schedules/batch-upload', requireSubAdminOrAdmin, async (req, res) => {
-    const { schedules } = req.body;
-    const user = req.user;
+// --- Cancellation Policy Routes ---
+apiRouter.get('/cancellation-policies', async (req, res) => {
+    try {
+        res.json(await cancellationPolicies.listPolicies(dbPool));
+    } catch (error) {
+        handleDBError(res, error, 'getCancellationPolicies');
+    }
+});
 
-    if (!Array.isArray(schedules) || schedules.length === 0) {
-        return res.status(400).json({ message: 'A non-empty array of schedules is required.' });
+apiRouter.put('/cancellation-policies', requireAdmin, async (req, res) => {
+    const { policies } = req.body;
+    const validationError = cancellationPolicies.validatePolicies(policies);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
     }
 
     const connection = await dbPool.getConnection();
     try {
-        if (user.role === 'SUB_ADMIN') {
-            const assignedDistricts = user.assignedDistricts || [];
-            if (assignedDistricts.length === 0) {
-                connection.release();
-                return res.status(403).json({ message: 'You have no districts assigned to you.' });
-            }
-
-            for (const schedule of schedules) {
-                const originDistrict = schedule.stops?.[0]?.stopName;
-                if (!originDistrict || !assignedDistricts.includes(originDistrict)) {
-                    connection.release();
-                    return res.status(403).json({ message: `You are not authorized to manage schedules for the district: '${originDistrict}'. Please upload schedules for your assigned districts only.` });
-                }
-            }
-        }
-
         await connection.beginTransaction();
-        const [maxIdRows] = await connection.query('SELECT MAX(id) as maxId FROM routestops FOR UPDATE');
-        let nextStopId = (maxIdRows[0]?.maxId || 0) + 1;
-
-        for (const schedule of schedules) {
-            const scheduleId = schedule.id || uuidv4();
-            const [existingSchedule] = await connection.query('SELECT id FROM schedules WHERE id = ?', [scheduleId]);
-            if (existingSchedule.length > 0) {
-                await connection.rollback();
+        await cancellationPolicies.replacePolicies(connection, policies);
+        await connection.commit();
+        res.status(200).json({ message: 'Cancellation policies updated successfully.' });
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'updateCancellationPolicies');
+    } finally {
+        connection.release();
+    }
+});
+
+// --- Concession Routes ---
+apiRouter.get('/concessions/categories', async (req, res) => {
+    try {
+        res.json(await concessions.listCategories(dbPool));
+    } catch (error) {
+        handleDBError(res, error, 'getConcessionCategories');
+    }
+});
+
+apiRouter.put('/concessions/categories', requireAdmin, async (req, res) => {
+    const { categories } = req.body;
+    const validationError = concessions.validateCategories(categories);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        await concessions.saveCategories(connection, categories);
+        await connection.commit();
+        res.status(200).json({ message: 'Concession categories updated successfully.' });
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'updateConcessionCategories');
+    } finally {
+        connection.release();
+    }
+});
+
+// --- Fare Table Routes ---
+apiRouter.get('/fares/revisions', requireAdmin, async (req, res) => {
+    try {
+        res.json(await fares.listRevisions(dbPool));
+    } catch (error) {
+        handleDBError(res, error, 'getFareRevisions');
+    }
+});
+
+apiRouter.post('/fares/revisions', requireAdmin, async (req, res) => {
+    const validationError = fares.validateRevision(req.body, toDateString(new Date()));
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+    try {
+        await fares.saveRevision(dbPool, req.body);
+        res.status(200).json({ message: `Fares from ${req.body.effectiveFrom} saved successfully.` });
+    } catch (error) {
+        handleDBError(res, error, 'saveFareRevision');
+    }
+});
+
+apiRouter.delete('/fares/revisions/:id', requireAdmin, async (req, res) => {
+    try {
+        const deleted = await fares.deleteRevision(dbPool, req.params.id, toDateString(new Date()));
+        if (!deleted) {
+            return res.status(404).json({ message: 'No upcoming fare table was found with that ID. Fares already in effect cannot be removed.' });
+        }
+        res.status(200).json({ message: 'Upcoming fares removed.' });
+    } catch (error) {
+        handleDBError(res, error, 'deleteFareRevision');
+    }
+});
+
+// Concession seats whose Aadhaar number was travelling on another concession at the same time.
+apiRouter.get('/concessions/flags', requireAdmin, async (req, res) => {
+    try {
+        res.json(await concessions.listFlags(dbPool, req.query.includeReviewed === 'true'));
+    } catch (error) {
+        handleDBError(res, error, 'getConcessionFlags');
+    }
+});
+
+apiRouter.post('/concessions/flags/:flagId/review', requireAdmin, async (req, res) => {
+    try {
+        if (!await concessions.markFlagReviewed(dbPool, req.params.flagId)) {
+            return res.status(404).json({ message: 'Flag not found or already reviewed.' });
+        }
+        res.status(200).json({ message: 'Flag marked as reviewed.' });
+    } catch (error) {
+        handleDBError(res, error, 'reviewConcessionFlag');
+    }
+});
+
+// --- Fleet ---
+// Sub-admins see the fleet so they can put vehicles on their trips; only admins change it.
+apiRouter.get('/vehicles', requireSubAdminOrAdmin, async (req, res) => {
+    try {
+        res.json(await fleet.listVehicles(dbPool));
+    } catch (err) {
+        handleDBError(res, err, 'listVehicles');
+    }
+});
+
+apiRouter.post('/vehicles', requireAdmin, async (req, res) => {
+    try {
+        const validationError = fleet.validateVehicle(req.body, await seatLayouts.getLayout(dbPool, req.body?.seatLayout));
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+        const { vehicle, error } = await fleet.saveVehicle(dbPool, null, req.body);
+        if (error) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.status(201).json({ ...vehicle, scheduleIds: [] });
+    } catch (err) {
+        handleDBError(res, err, 'createVehicle');
+    }
+});
+
+// A vehicle's seat layout and class cannot change while it runs schedules or trips, since their
+// seats are sold on them. New expiry dates must still cover every trip it runs.
+apiRouter.put('/vehicles/:id', requireAdmin, async (req, res) => {
+    const connection = await dbPool.getConnection();
+    try {
+        const validationError = fleet.validateVehicle(req.body, await seatLayouts.getLayout(connection, req.body?.seatLayout));
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+
+        await connection.beginTransaction();
+        const current = await fleet.getVehicle(connection, req.params.id, true);
+        if (!current) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Vehicle not found.' });
+        }
+        const today = toDateString(new Date());
+        const usage = await fleet.getVehicleUsage(connection, current.id, today);
+        const isInUse = usage.scheduleIds.length > 0 || usage.tripCount > 0;
+        if (isInUse && (req.body.seatLayout !== current.seatLayout || req.body.busClass !== current.busClass)) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'Take this vehicle off its schedules and trips before changing its seat layout or class.' });
+        }
+
+        const { vehicle, error } = await fleet.saveVehicle(connection, current.id, req.body);
+        if (error) {
+            await connection.rollback();
+            return res.status(error.status).json({ message: error.message });
+        }
+        const conflict = await checkVehicleAvailability(
+            connection,
+            vehicle,
+            await fleet.listVehicleTrips(connection, vehicle.id, today, getBookingWindow().toDate)
+        );
+        if (conflict) {
+            await connection.rollback();
+            return res.status(409).json({ message: conflict });
+        }
+
+        await connection.commit();
+        res.json({ ...vehicle, scheduleIds: usage.scheduleIds });
+    } catch (err) {
+        await connection.rollback();
+        handleDBError(res, err, 'updateVehicle');
+    } finally {
+        connection.release();
+    }
+});
+
+apiRouter.delete('/vehicles/:id', requireAdmin, async (req, res) => {
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const vehicle = await fleet.getVehicle(connection, req.params.id, true);
+        if (!vehicle) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Vehicle not found.' });
+        }
+        const usage = await fleet.getVehicleUsage(connection, vehicle.id, toDateString(new Date()));
+        if (usage.scheduleIds.length > 0 || usage.tripCount > 0) {
+            await connection.rollback();
+            return res.status(409).json({
+                message: usage.scheduleIds.length > 0
+                    ? `${vehicle.registrationNumber} still runs ${usage.scheduleIds.join(', ')}. Give those schedules another vehicle first.`
+                    : `${vehicle.registrationNumber} still has upcoming trips. Give them another vehicle first.`,
+            });
+        }
+        await fleet.deleteVehicle(connection, vehicle.id);
+        await connection.commit();
+        res.status(204).send();
+    } catch (err) {
+        await connection.rollback();
+        handleDBError(res, err, 'deleteVehicle');
+    } finally {
+        connection.release();
+    }
+});
+
+// --- Seat Layouts ---
+// Anyone can read the layouts, since the seat maps are drawn from them; only admins design them.
+apiRouter.get('/seat-layouts', async (req, res) => {
+    try {
+        res.json(await seatLayouts.listLayouts(dbPool));
+    } catch (err) {
+        handleDBError(res, err, 'listSeatLayouts');
+    }
+});
+
+apiRouter.get('/seat-layouts/:id', async (req, res) => {
+    try {
+        const layout = await seatLayouts.getLayout(dbPool, req.params.id);
+        if (!layout) {
+            return res.status(404).json({ message: 'Seat layout not found.' });
+        }
+        res.json(layout);
+    } catch (err) {
+        handleDBError(res, err, 'getSeatLayout');
+    }
+});
+
+apiRouter.post('/seat-layouts', requireAdmin, async (req, res) => {
+    const layoutId = typeof req.body?.id === 'string' ? req.body.id.trim().toUpperCase() : '';
+    if (!seatLayouts.isValidLayoutId(layoutId)) {
+        return res.status(400).json({ message: 'The layout code must be 2 to 20 capital letters, digits and dashes, e.g. SLEEPER-30.' });
+    }
+    const validationError = seatLayouts.validateLayout(req.body);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+    try {
+        const { layout, error } = await seatLayouts.saveLayout(dbPool, layoutId, req.body, true);
+        if (error) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.status(201).json(layout);
+    } catch (err) {
+        handleDBError(res, err, 'createSeatLayout');
+    }
+});
+
+// A layout in use can be redrawn, but every seat booked on an upcoming journey of its schedules
+// must stay, and the vehicles with it must still have room for all its seats.
+apiRouter.put('/seat-layouts/:id', requireAdmin, async (req, res) => {
+    const validationError = seatLayouts.validateLayout(req.body);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const current = await seatLayouts.getLayout(connection, req.params.id, true);
+        if (!current || current.isBuiltIn) {
+            await connection.rollback();
+            return res.status(current ? 403 : 404).json({ message: current ? 'The built-in layouts cannot be changed.' : 'Seat layout not found.' });
+        }
+        const usage = await seatLayouts.getLayoutUsage(connection, current.id);
+        const missingSeat = await seatLayouts.findMissingBookedSeat(connection, usage.scheduleIds, req.body, toDateString(new Date()));
+        if (missingSeat) {
+            await connection.rollback();
+            return res.status(409).json({ message: `Seat ${missingSeat} is booked on an upcoming trip, so it cannot be removed.` });
+        }
+        const [[{ minCapacity }]] = await connection.query('SELECT MIN(capacity) AS minCapacity FROM vehicles WHERE seatLayout = ?', [current.id]);
+        if (minCapacity !== null && Number(minCapacity) < req.body.seats.length) {
+            await connection.rollback();
+            return res.status(409).json({ message: `A vehicle with this layout only has room for ${minCapacity} passengers.` });
+        }
+
+        const { layout } = await seatLayouts.saveLayout(connection, current.id, req.body, false);
+        await connection.commit();
+        res.json(layout);
+    } catch (err) {
+        await connection.rollback();
+        handleDBError(res, err, 'updateSeatLayout');
+    } finally {
+        connection.release();
+    }
+});
+
+apiRouter.delete('/seat-layouts/:id', requireAdmin, async (req, res) => {
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const layout = await seatLayouts.getLayout(connection, req.params.id, true);
+        if (!layout || layout.isBuiltIn) {
+            await connection.rollback();
+            return res.status(layout ? 403 : 404).json({ message: layout ? 'The built-in layouts cannot be deleted.' : 'Seat layout not found.' });
+        }
+        const usage = await seatLayouts.getLayoutUsage(connection, layout.id);
+        if (usage.scheduleIds.length > 0 || usage.vehicleCount > 0) {
+            await connection.rollback();
+            return res.status(409).json({
+                message: usage.scheduleIds.length > 0
+                    ? `${usage.scheduleIds.join(', ')} still use this layout. Give them another one first.`
+                    : 'Vehicles in the fleet still have this layout. Change them first.',
+            });
+        }
+        await seatLayouts.deleteLayout(connection, layout.id);
+        await connection.commit();
+        res.status(204).send();
+    } catch (err) {
+        await connection.rollback();
+        handleDBError(res, err, 'deleteSeatLayout');
+    } finally {
+        connection.release();
+    }
+});
+
+// --- Schedule Routes ---
+apiRouter.get('/schedules', async (req, res) => {
+    const user = req.user;
+    try {
+        const schedulesMap = await fetchAndAssembleSchedules(dbPool);
+        let allSchedules = Object.values(schedulesMap);
+        let schedulesToReturn = allSchedules;
+
+        if (user && user.role === 'SUB_ADMIN') {
+            const assignedDistricts = user.assignedDistricts || [];
+            if (assignedDistricts.length === 0) {
+                schedulesToReturn = [];
+            } else {
+                schedulesToReturn = allSchedules.filter(schedule =>
+                    assignedDistricts.includes(schedule.origin)
+                );
+            }
+        }
+
+        const cleanedSchedules = schedulesToReturn.map(s => {
+            const { fullRouteStops, fullNormalizedRoute, ...cleaned } = s;
+            return cleaned;
+        });
+        res.json(cleanedSchedules);
+    } catch (error) {
+        handleDBError(res, error, 'getAllSchedules');
+    }
+});
+
+apiRouter.post('/schedules/batch-upload', requireSubAdminOrAdmin, async (req, res) => {
+    const { schedules } = req.body;
+    const user = req.user;
+
+    if (!Array.isArray(schedules) || schedules.length === 0) {
+        return res.status(400).json({ message: 'A non-empty array of schedules is required.' });
+    }
+    for (const schedule of schedules) {
+        const routeError = Array.isArray(schedule.stops) ? fares.validateRoute(schedule.busClass, schedule.stops) : null;
+        if (routeError) {
+            return res.status(400).json({ message: `${schedule.id || schedule.busName}: ${routeError}` });
+        }
+        const calendarError = schedule.calendar ? operatingCalendars.validateCalendar(schedule.calendar) : null;
+        if (calendarError) {
+            return res.status(400).json({ message: `${schedule.id || schedule.busName}: ${calendarError}` });
+        }
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        if (user.role === 'SUB_ADMIN') {
+            const assignedDistricts = user.assignedDistricts || [];
+            if (assignedDistricts.length === 0) {
+                connection.release();
+                return res.status(403).json({ message: 'You have no districts assigned to you.' });
+            }
+
+            for (const schedule of schedules) {
+                const originDistrict = schedule.stops?.[0]?.stopName;
+                if (!originDistrict || !assignedDistricts.includes(originDistrict)) {
+                    connection.release();
+                    return res.status(403).json({ message: `You are not authorized to manage schedules for the district: '${originDistrict}'. Please upload schedules for your assigned districts only.` });
+                }
+            }
+        }
+
+        await connection.beginTransaction();
+        const [maxIdRows] = await connection.query('SELECT MAX(id) as maxId FROM routestops FOR UPDATE');
+        let nextStopId = (maxIdRows[0]?.maxId || 0) + 1;
+
+        for (const schedule of schedules) {
+            const scheduleId = schedule.id || uuidv4();
+            const [existingSchedule] = await connection.query('SELECT id FROM schedules WHERE id = ?', [scheduleId]);
+            if (existingSchedule.length > 0) {
+                await connection.rollback();
                 connection.release();
                 return res.status(409).json({ message: `A schedule with ID '${scheduleId}' already exists. Please use a unique scheduleIdentifier.` });
             }
+            if (!await seatLayouts.getLayout(connection, schedule.seatLayout)) {
+                await connection.rollback();
+                connection.release();
+                return res.status(400).json({ message: `${scheduleId}: there is no seat layout called '${schedule.seatLayout}'.` });
+            }
 
             await connection.query(
-                'INSERT INTO schedules (id, busName, seatLayout, bookingEnabled) VALUES (?, ?, ?, ?)',
-                [scheduleId, schedule.busName, schedule.seatLayout, schedule.bookingEnabled ? '1' : '0']
+                'INSERT INTO schedules (id, busName, seatLayout, busClass, bookingEnabled) VALUES (?, ?, ?, ?, ?)',
+                [scheduleId, schedule.busName, schedule.seatLayout, schedule.busClass || fares.DEFAULT_BUS_CLASS, schedule.bookingEnabled ? '1' : '0']
             );
+            // Schedules uploaded without a calendar run every day.
+            if (schedule.calendar) {
+                await operatingCalendars.saveCalendar(connection, scheduleId, schedule.calendar);
+            }
 
+            const distances = fares.getStopDistances(schedule.stops);
             for (let i = 0; i < schedule.stops.length; i++) {
                 const stop = schedule.stops[i];
                 await connection.query(
-                    'INSERT INTO routestops (id, scheduleId, stopName, stopOrder, arrivalTime, departureTime, fare) VALUES (?, ?, ?, ?, ?, ?, ?)',
-                    [nextStopId++, scheduleId, stop.stopName, i, stop.arrivalTime || null, stop.departureTime, stop.fareFromOrigin]
+                    'INSERT INTO routestops (id, scheduleId, stopName, stopOrder, arrivalTime, departureTime, distanceKm, fare) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                    [nextStopId++, scheduleId, stop.stopName, i, stop.arrivalTime || null, stop.departureTime, distances[i], stop.fareFromOrigin]
                 );
             }
         }
+        await generateUpcomingTrips(connection);
 
         await connection.commit();
         res.status(201).json({ message: `${schedules.length} schedule(s) uploaded successfully.` });
@@ -560,12 +2180,25 @@ apiRouter.post('/schedules/batch-upload', requireSubAdminOrAdmin, async (req, re
 
 apiRouter.put('/schedules/:id', requireSubAdminOrAdmin, async (req, res) => {
     const { id } = req.params;
-    const { busName, seatLayout, bookingEnabled, stops } = req.body;
+    const { busName, seatLayout, busClass = fares.DEFAULT_BUS_CLASS, bookingEnabled, stops, calendar, vehicleId } = req.body;
     const user = req.user;
 
     if (!busName || !seatLayout || typeof bookingEnabled !== 'boolean' || !stops || !Array.isArray(stops) || stops.length === 0) {
         return res.status(400).json({ message: 'Missing required schedule details.' });
     }
+    const routeError = fares.validateRoute(busClass, stops);
+    if (routeError) {
+        return res.status(400).json({ message: routeError });
+    }
+    // The operating calendar is optional here; leaving it out keeps the current one.
+    const calendarError = calendar !== undefined ? operatingCalendars.validateCalendar(calendar) : null;
+    if (calendarError) {
+        return res.status(400).json({ message: calendarError });
+    }
+    // The vehicle is optional too: leaving it out keeps the current one, null takes it off.
+    if (vehicleId !== undefined && vehicleId !== null && typeof vehicleId !== 'string') {
+        return res.status(400).json({ message: 'vehicleId must be a vehicle id or null.' });
+    }
 
     const connection = await dbPool.getConnection();
     try {
@@ -584,27 +2217,74 @@ apiRouter.put('/schedules/:id', requireSubAdminOrAdmin, async (req, res) => {
             }
         }
 
-        const [result] = await connection.query(
-            'UPDATE schedules SET busName = ?, seatLayout = ?, bookingEnabled = ? WHERE id = ?',
-            [busName, seatLayout, bookingEnabled ? '1' : '0', id]
-        );
-
-        if (result.affectedRows === 0) {
+        const [[current]] = await connection.query('SELECT seatLayout, vehicleId FROM schedules WHERE id = ? FOR UPDATE', [id]);
+        if (!current) {
             await connection.rollback();
             return res.status(404).json({ message: 'Schedule not found.' });
         }
+        const today = toDateString(new Date());
+        if (seatLayout !== current.seatLayout) {
+            const layout = await seatLayouts.getLayout(connection, seatLayout);
+            if (!layout) {
+                await connection.rollback();
+                return res.status(400).json({ message: `There is no seat layout called '${seatLayout}'.` });
+            }
+            const missingSeat = await seatLayouts.findMissingBookedSeat(connection, [id], layout, today);
+            if (missingSeat) {
+                await connection.rollback();
+                return res.status(409).json({ message: `Seat ${missingSeat} is booked on an upcoming trip but the ${layout.name} layout has no such seat.` });
+            }
+        }
+
+        await connection.query(
+            'UPDATE schedules SET busName = ?, seatLayout = ?, busClass = ?, bookingEnabled = ? WHERE id = ?',
+            [busName, seatLayout, busClass, bookingEnabled ? '1' : '0', id]
+        );
         
         await connection.query('DELETE FROM routestops WHERE scheduleId = ?', [id]);
         const [maxIdRows] = await connection.query('SELECT MAX(id) as maxId FROM routestops FOR UPDATE');
         let nextStopId = (maxIdRows[0]?.maxId || 0) + 1;
 
+        const distances = fares.getStopDistances(stops);
         for (let i = 0; i < stops.length; i++) {
             const stop = stops[i];
             await connection.query(
-                'INSERT INTO routestops (id, scheduleId, stopName, stopOrder, arrivalTime, departureTime, fare) VALUES (?, ?, ?, ?, ?, ?, ?)',
-                [nextStopId++, id, stop.stopName, i, stop.arrivalTime || null, stop.departureTime, stop.fareFromOrigin]
+                'INSERT INTO routestops (id, scheduleId, stopName, stopOrder, arrivalTime, departureTime, distanceKm, fare) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+                [nextStopId++, id, stop.stopName, i, stop.arrivalTime || null, stop.departureTime, distances[i], stop.fareFromOrigin]
             );
         }
+        if (calendar !== undefined) {
+            await operatingCalendars.saveCalendar(connection, id, calendar);
+            await generateUpcomingTrips(connection);
+        }
+
+        // A schedule with a vehicle always takes the vehicle's seat layout and class.
+        const currentVehicleId = current.vehicleId;
+        const nextVehicleId = vehicleId !== undefined ? vehicleId : currentVehicleId;
+        if (nextVehicleId) {
+            const vehicle = await fleet.getVehicle(connection, nextVehicleId, true);
+            if (!vehicle) {
+                await connection.rollback();
+                return res.status(400).json({ message: 'Vehicle not found.' });
+            }
+            if (nextVehicleId !== currentVehicleId) {
+                const missingSeat = await seatLayouts.findMissingBookedSeat(
+                    connection, [id], await seatLayouts.getLayout(connection, vehicle.seatLayout), today
+                );
+                if (missingSeat) {
+                    await connection.rollback();
+                    return res.status(409).json({ message: `Seat ${missingSeat} is booked on an upcoming trip but ${vehicle.registrationNumber} has no such seat.` });
+                }
+                const conflict = await checkVehicleAvailability(connection, vehicle, await fleet.listScheduleVehicleTrips(connection, id, today));
+                if (conflict) {
+                    await connection.rollback();
+                    return res.status(409).json({ message: conflict });
+                }
+            }
+            await fleet.setScheduleVehicle(connection, id, vehicle);
+        } else if (currentVehicleId) {
+            await fleet.setScheduleVehicle(connection, id, null);
+        }
         
         await connection.commit();
         const schedulesMap = await fetchAndAssembleSchedules(connection, id);
@@ -618,15 +2298,243 @@ apiRouter.put('/schedules/:id', requireSubAdminOrAdmin, async (req, res) => {
     }
 });
 
+// Upcoming trips for the schedules calendar, with seats sold and the conductor on board.
+// Defaults to the next two weeks. Sub-admins see the trips of buses leaving their districts.
+apiRouter.get('/trips', requireSubAdminOrAdmin, async (req, res) => {
+    const today = toDateString(new Date());
+    const twoWeeksOut = new Date();
+    twoWeeksOut.setDate(twoWeeksOut.getDate() + 13);
+    const fromDate = req.query.from ? parseJourneyDate(req.query.from) : today;
+    const toDate = req.query.to ? parseJourneyDate(req.query.to) : toDateString(twoWeeksOut);
+    if (!fromDate || !toDate || fromDate > toDate) {
+        return res.status(400).json({ message: `'from' and 'to' must be dates (YYYY-MM-DD) between today and ${ADVANCE_BOOKING_DAYS} days ahead, 'from' first.` });
+    }
+
+    try {
+        let scheduleIds = null;
+        if (req.user.role === 'SUB_ADMIN') {
+            const assignedDistricts = req.user.assignedDistricts || [];
+            const schedulesMap = await fetchAndAssembleSchedules(dbPool);
+            scheduleIds = Object.values(schedulesMap)
+                .filter(schedule => assignedDistricts.includes(schedule.origin))
+                .map(schedule => schedule.id);
+        }
+        res.json(await trips.listTrips(dbPool, { fromDate, toDate, scheduleIds }));
+    } catch (error) {
+        handleDBError(res, error, 'listTrips');
+    }
+});
+
+// Cancels, reinstates or delays one dated trip, runs it with another bus, or changes its conductor.
+// Only trips from today on can be changed, and only administrators roster conductors.
+apiRouter.patch('/trips/:id', requireSubAdminOrAdmin, async (req, res) => {
+    const { status, delayMinutes, busName, note, conductorId, vehicleId } = req.body;
+    const changes = { status, delayMinutes, busName, note };
+    const validationError = trips.validateTripUpdate(changes);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+    if (vehicleId !== undefined && vehicleId !== null && typeof vehicleId !== 'string') {
+        return res.status(400).json({ message: 'vehicleId must be a vehicle id, or null to run the schedule\'s own vehicle.' });
+    }
+    if (conductorId !== undefined && req.user.role !== 'ADMIN') {
+        return res.status(403).json({ message: 'Only administrators can assign conductors.' });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const trip = await trips.getTripById(connection, req.params.id, true);
+        if (!trip) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Trip not found.' });
+        }
+        if (trip.journeyDate < toDateString(new Date())) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Trips that have already run cannot be changed.' });
+        }
+        if (req.user.role === 'SUB_ADMIN') {
+            const schedule = (await fetchAndAssembleSchedules(connection, trip.scheduleId))[trip.scheduleId];
+            if (!schedule || !(req.user.assignedDistricts || []).includes(schedule.origin)) {
+                await connection.rollback();
+                return res.status(403).json({ message: 'You are not authorized to manage schedules for this district.' });
+            }
+        }
+        if (status === 'CANCELLED' && trip.status !== 'CANCELLED') {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Cancel a trip with a reason so its passengers can be refunded or moved to another bus.' });
+        }
+        if (status === 'SCHEDULED' && trip.status === 'CANCELLED' && await tripDisruptions.hasDisruptions(connection, trip.id)) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'This trip cannot be reinstated: its passengers have already been refunded or offered other buses.' });
+        }
+
+        await trips.updateTrip(connection, trip.id, changes);
+        if (vehicleId !== undefined && vehicleId !== trip.vehicleId) {
+            const vehicleError = await assignTripVehicle(connection, await trips.getTripById(connection, trip.id), vehicleId);
+            if (vehicleError) {
+                await connection.rollback();
+                return res.status(vehicleError.status).json({ message: vehicleError.message });
+            }
+        }
+        if (conductorId !== undefined) {
+            const { error } = await boarding.assignTrip(connection, trip.scheduleId, trip.journeyDate, conductorId || null);
+            if (error) {
+                await connection.rollback();
+                return res.status(error.status).json({ message: error.message });
+            }
+        }
+
+        await connection.commit();
+        const [updated] = await trips.listTrips(dbPool, { fromDate: trip.journeyDate, toDate: trip.journeyDate, scheduleIds: [trip.scheduleId] });
+        res.json(updated);
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'updateTrip');
+    } finally {
+        connection.release();
+    }
+});
+
+
+/**
+ * Loads a trip an admin may act on, or sends the reason they may not.
+ * @returns {Promise<object|null>} The trip, or null once a response has been sent.
+ */
+const loadManagedTrip = async (connection, req, res) => {
+    const trip = await trips.getTripById(connection, req.params.id);
+    if (!trip) {
+        res.status(404).json({ message: 'Trip not found.' });
+        return null;
+    }
+    if (req.user.role === 'SUB_ADMIN') {
+        const schedule = (await fetchAndAssembleSchedules(connection, trip.scheduleId))[trip.scheduleId];
+        if (!schedule || !(req.user.assignedDistricts || []).includes(schedule.origin)) {
+            res.status(403).json({ message: 'You are not authorized to manage schedules for this district.' });
+            return null;
+        }
+    }
+    return trip;
+};
+
+// Cancels a dated trip with everyone on it. Unpaid bookings are released. Paid bookings are
+// offered other buses for the same segment on that day or the next, or refunded in full when
+// there are none or `offerRebooking` is false. Every affected passenger is notified.
+apiRouter.post('/trips/:id/cancel', requireSubAdminOrAdmin, async (req, res) => {
+    const { reason, offerRebooking = true } = req.body;
+    const reasonError = tripDisruptions.validateReason(reason);
+    if (reasonError) {
+        return res.status(400).json({ message: reasonError });
+    }
+    if (typeof offerRebooking !== 'boolean') {
+        return res.status(400).json({ message: 'offerRebooking must be true or false.' });
+    }
+
+    const connection = await dbPool.getConnection();
+    let textMessages = [];
+    const releasedBookings = [];
+    try {
+        await connection.beginTransaction();
+
+        const managedTrip = await loadManagedTrip(connection, req, res);
+        if (!managedTrip) {
+            await connection.rollback();
+            return;
+        }
+        // Bookings lock the schedule before checking its trip; taking the locks in the same
+        // order means none can slip in while the trip is being cancelled.
+        await connection.query('SELECT id FROM schedules WHERE id = ? FOR UPDATE', [managedTrip.scheduleId]);
+        const trip = await trips.getTripById(connection, managedTrip.id, true);
+        if (trip.journeyDate < toDateString(new Date())) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Trips that have already run cannot be cancelled.' });
+        }
+        if (trip.status === 'CANCELLED') {
+            await connection.rollback();
+            return res.status(400).json({ message: 'This trip is already cancelled.' });
+        }
+
+        await trips.cancelTrip(connection, trip.id, reason, req.user.id);
+
+        const [bookings] = await connection.query(
+            `SELECT * FROM bookings
+             WHERE scheduleId = ? AND journeyDate = ? AND status IN ('CONFIRMED', 'PARTIALLY_CANCELLED', 'PENDING_PAYMENT')
+             ORDER BY bookingDate
+             FOR UPDATE`,
+            [trip.scheduleId, trip.journeyDate]
+        );
+        const schedule = (await fetchAndAssembleSchedules(connection, trip.scheduleId, trip.journeyDate))[trip.scheduleId];
+        const busName = trip.busName || schedule?.busName || 'bus';
+        const candidates = offerRebooking && bookings.some(booking => booking.status !== 'PENDING_PAYMENT')
+            ? await loadAlternativeTrips(connection, trip.scheduleId, trip.journeyDate)
+            : [];
+
+        const notices = [];
+        for (const booking of bookings) {
+            if (booking.status === 'PENDING_PAYMENT') {
+                const released = await payments.releaseUnpaidBooking(connection, booking.id, 'CANCELLED');
+                if (released) {
+                    releasedBookings.push(released);
+                    notices.push({
+                        userId: booking.userId,
+                        bookingId: booking.id,
+                        title: 'Bus cancelled',
+                        message: `The ${busName} from ${booking.origin} to ${booking.destination} on ${trip.journeyDate} is cancelled (${reason.trim()}). Your unpaid booking has been released.`,
+                    });
+                }
+                continue;
+            }
+            notices.push(await disruptBooking(connection, { trip, booking, busName, reason: reason.trim(), candidates, adminId: req.user.id }));
+        }
+        textMessages = await notifications.createNotifications(connection, notices);
+
+        await connection.commit();
+        const [updated] = await trips.listTrips(dbPool, { fromDate: trip.journeyDate, toDate: trip.journeyDate, scheduleIds: [trip.scheduleId] });
+        res.json({ trip: updated, report: await tripDisruptions.getReport(dbPool, trip.id) });
+    } catch (error) {
+        await connection.rollback();
+        return handleDBError(res, error, 'cancelTrip');
+    } finally {
+        connection.release();
+    }
+    releasedBookings.forEach(publishReleasedBookingSeats);
+    notifications.sendTextMessages(otpProvider, textMessages);
+});
+
+// What happened to every passenger of a cancelled trip.
+apiRouter.get('/trips/:id/cancellation-report', requireSubAdminOrAdmin, async (req, res) => {
+    const connection = await dbPool.getConnection();
+    try {
+        const trip = await loadManagedTrip(connection, req, res);
+        if (!trip) return;
+        const [listed] = await trips.listTrips(connection, { fromDate: trip.journeyDate, toDate: trip.journeyDate, scheduleIds: [trip.scheduleId] });
+        res.json({ trip: listed, report: await tripDisruptions.getReport(connection, trip.id) });
+    } catch (error) {
+        handleDBError(res, error, 'getTripCancellationReport');
+    } finally {
+        connection.release();
+    }
+});
 
 apiRouter.get('/schedules/route', async (req, res) => {
   const { origin, destination } = req.query;
   if (!origin || !destination) {
     return res.status(400).json({ message: 'Origin and destination are required.' });
   }
+  // Fares are quoted for the journey date when one is given, otherwise for today.
+  const journeyDate = req.query.journeyDate ? parseJourneyDate(req.query.journeyDate) : toDateString(new Date());
+  if (!journeyDate) {
+    return res.status(400).json({ message: journeyDateHint });
+  }
 
   try {
-    const schedulesMap = await fetchAndAssembleSchedules(dbPool);
+    const [schedulesMap, fareTable, tripsOnDate, holidayDates] = await Promise.all([
+      fetchAndAssembleSchedules(dbPool, null, journeyDate),
+      fares.getFareTable(dbPool, journeyDate),
+      trips.getTripsOn(dbPool, journeyDate),
+      operatingCalendars.listHolidayDates(dbPool, journeyDate, journeyDate),
+    ]);
     const systemSettings = await getSettings(dbPool);
     const isBookingOnline = systemSettings.isBookingSystemOnline === true;
     const searchOrigin = origin.trim().toLowerCase();
@@ -634,31 +2542,37 @@ apiRouter.get('/schedules/route', async (req, res) => {
 
     const matchedSchedules = Object.values(schedulesMap).reduce((acc, schedule) => {
       if (!Array.isArray(schedule.fullRouteStops)) return acc;
+      if (!operatingCalendars.runsOn(schedule.calendar, holidayDates, journeyDate)) return acc;
       const originIndex = schedule.fullRouteStops.findIndex(s => s.normalizedName === searchOrigin);
       const destIndex = schedule.fullRouteStops.findIndex(s => s.normalizedName === searchDestination);
 
       if (originIndex > -1 && destIndex > -1 && originIndex < destIndex) {
         const originStop = schedule.fullRouteStops[originIndex];
         const destStop = schedule.fullRouteStops[destIndex];
-        const fare = Number(destStop.fare || 0) - Number(originStop.fare || 0);
         const viaStops = schedule.fullRouteStops.slice(originIndex + 1, destIndex).map(s => s.name || s.stopName || '');
         const fullRouteStops = [...schedule.fullRouteStops].sort((a, b) => a.stopOrder - b.stopOrder);
         const fullRouteStart = fullRouteStops[0]?.name || 'Unknown';
         const fullRouteEnd = fullRouteStops.at(-1)?.name || 'Unknown';
+        const trip = tripsOnDate[schedule.id];
+        const isTripCancelled = trip?.status === 'CANCELLED';
 
         acc.push({
           id: schedule.id,
-          busName: schedule.busName,
+          busName: trip?.busName || schedule.busName,
           seatLayout: schedule.seatLayout,
-          bookingEnabled: isBookingOnline && schedule.bookingEnabled,
+          bookingEnabled: isBookingOnline && schedule.bookingEnabled && !isTripCancelled,
+          tripStatus: trip ? trip.status : 'SCHEDULED',
+          delayMinutes: trip ? trip.delayMinutes : 0,
+          tripNote: trip ? trip.note : null,
           isFreeBookingEnabled: schedule.isFreeBookingEnabled,
           isDiscountEnabled: schedule.isDiscountEnabled,
+          busClass: schedule.busClass,
           userOrigin: origin.trim(),
           userDestination: destination.trim(),
           fullRoute: `${fullRouteStart} to ${fullRouteEnd}`,
           departureTime: formatTime(originStop.departure),
           arrivalTime: formatTime(destStop.arrival),
-          fare: Math.max(0, fare),
+          fare: fares.quoteSegmentFare(fareTable, schedule, originStop, destStop),
           via: viaStops,
         });
       }
@@ -672,14 +2586,61 @@ apiRouter.get('/schedules/route', async (req, res) => {
 });
 
 
+// Plans journeys that may need a change of bus, combining up to three schedules. Direct
+// options are included so everything can be ranked together.
+apiRouter.get('/journeys/plan', async (req, res) => {
+  const { origin, destination, sort, minTransferMinutes } = req.query;
+  if (!origin || !destination) {
+    return res.status(400).json({ message: 'Origin and destination are required.' });
+  }
+  const journeyDate = parseJourneyDate(req.query.journeyDate);
+  if (!journeyDate) {
+    return res.status(400).json({ message: journeyDateHint });
+  }
+
+  try {
+    // Later legs may run the next day, which can fall under a newer fare table.
+    const nextJourneyDate = journeyPlanner.nextDay(journeyDate);
+    const [schedulesMap, fareTable, nextDayFareTable, tripsOnDate, tripsOnNextDate, holidayDates] = await Promise.all([
+      fetchAndAssembleSchedules(dbPool, null, journeyDate),
+      fares.getFareTable(dbPool, journeyDate),
+      fares.getFareTable(dbPool, nextJourneyDate),
+      trips.getTripsOn(dbPool, journeyDate),
+      trips.getTripsOn(dbPool, nextJourneyDate),
+      operatingCalendars.listHolidayDates(dbPool, journeyDate, nextJourneyDate),
+    ]);
+    const fareTables = { [journeyDate]: fareTable, [nextJourneyDate]: nextDayFareTable };
+    const tripsByDate = { [journeyDate]: tripsOnDate, [nextJourneyDate]: tripsOnNextDate };
+    const itineraries = journeyPlanner.planJourneys(
+      Object.keys(schedulesMap).map(id => schedulesMap[id]),
+      { origin, destination, journeyDate, sort, minTransferMinutes },
+      buildStopTimeline,
+      (schedule, from, to, runDate) => fares.quoteSegmentFare(fareTables[runDate], schedule, from, to),
+      (schedule, runDate) => operatingCalendars.runsOn(schedule.calendar, holidayDates, runDate)
+        && tripsByDate[runDate][schedule.id]?.status !== 'CANCELLED'
+    );
+    res.json(itineraries);
+  } catch (error) {
+    handleDBError(res, error, 'planJourneys');
+  }
+});
+
+// Buses leaving a district on a journey date (today unless one is given).
 apiRouter.get('/schedules/district/:district', async (req, res) => {
   const { district } = req.params;
   if (!district) {
     return res.status(400).json({ message: 'District is required.' });
   }
+  const journeyDate = req.query.journeyDate ? parseJourneyDate(req.query.journeyDate) : toDateString(new Date());
+  if (!journeyDate) {
+    return res.status(400).json({ message: journeyDateHint });
+  }
 
   try {
-    const schedulesMap = await fetchAndAssembleSchedules(dbPool);
+    const [schedulesMap, holidayDates] = await Promise.all([
+      fetchAndAssembleSchedules(dbPool, null, journeyDate),
+      operatingCalendars.listHolidayDates(dbPool, journeyDate, journeyDate),
+    ]);
     const systemSettings = await getSettings(dbPool);
     const isBookingOnline = systemSettings.isBookingSystemOnline === true;
     const searchDistrict = district.trim().toLowerCase();
@@ -691,6 +2652,7 @@ apiRouter.get('/schedules/district/:district', async (req, res) => {
       const lastStop = sortedStops.at(-1);
 
       if (!firstStop || firstStop.normalizedName !== searchDistrict) return acc;
+      if (!operatingCalendars.runsOn(schedule.calendar, holidayDates, journeyDate)) return acc;
 
       acc.push({
         id: schedule.id,
@@ -700,10 +2662,11 @@ apiRouter.get('/schedules/district/:district', async (req, res) => {
         bookingEnabled: isBookingOnline && schedule.bookingEnabled,
         isFreeBookingEnabled: schedule.isFreeBookingEnabled,
         isDiscountEnabled: schedule.isDiscountEnabled,
+        busClass: schedule.busClass,
         fullRoute: `${firstStop.name} to ${lastStop?.name || 'Unknown'}`,
         departureTime: formatTime(firstStop.departure),
         arrivalTime: formatTime(lastStop?.arrival),
-        fare: Number(lastStop?.fare || 0),
+        fare: schedule.fare,
         via: sortedStops.slice(1, -1).map(stop => stop.name || stop.stopName || ''),
       });
       return acc;
@@ -724,6 +2687,15 @@ apiRouter.get('/schedules/:id', async (req, res) => {
     if (!schedule) {
       return res.status(404).json({ message: 'Schedule not found.' });
     }
+    // The dates the bus can be booked for: the days it runs in the booking window, less cancelled trips.
+    const { fromDate, toDate } = getBookingWindow();
+    const [holidayDates, upcomingTrips] = await Promise.all([
+      operatingCalendars.listHolidayDates(dbPool, fromDate, toDate),
+      trips.listTrips(dbPool, { fromDate, toDate, scheduleIds: [schedule.id] }),
+    ]);
+    const cancelledDates = new Set(upcomingTrips.filter(trip => trip.status === 'CANCELLED').map(trip => trip.journeyDate));
+    schedule.runDates = operatingCalendars.listRunDates(schedule.calendar, holidayDates, fromDate, toDate)
+      .filter(runDate => !cancelledDates.has(runDate));
     res.json(schedule);
   } catch (error) {
     handleDBError(res, error, 'getScheduleById');
@@ -739,11 +2711,14 @@ apiRouter.get('/bookings/user/:userId', requireAuth, async (req, res) => {
 
   try {
     const [rows] = await dbPool.query(
-      `SELECT b.id AS bookingId, b.scheduleId, b.fare, b.originalFare, b.status, b.isFreeTicket, b.govtExamRegistrationNumber, b.bookingDate, b.origin, b.destination, b.discountType, b.passengerDetails, bs.seatId
+      `SELECT b.id AS bookingId, b.scheduleId, b.itineraryId, b.itineraryLeg, i.kind AS itineraryKind, b.fare, b.originalFare, b.status, b.paymentExpiresAt, b.isFreeTicket, b.govtExamRegistrationNumber, b.bookingDate, DATE_FORMAT(b.journeyDate, '%Y-%m-%d') AS journeyDate, b.origin, b.destination, b.discountType, b.passengerDetails, bs.seatId,
+         t.status AS tripStatus, t.delayMinutes AS tripDelayMinutes, t.busName AS tripBusName, t.note AS tripNote
        FROM bookings b
        LEFT JOIN bookedseats bs ON b.id = bs.bookingId
+       LEFT JOIN itineraries i ON b.itineraryId = i.id
+       LEFT JOIN trips t ON b.tripId = t.id
        WHERE b.userId = ?
-       ORDER BY b.bookingDate DESC`,
+       ORDER BY b.journeyDate DESC, b.bookingDate DESC`,
       [userId]
     );
 
@@ -753,17 +2728,28 @@ apiRouter.get('/bookings/user/:userId', requireAuth, async (req, res) => {
         bookingsMap[row.bookingId] = {
           id: row.bookingId,
           scheduleId: row.scheduleId,
+          itineraryId: row.itineraryId,
+          itineraryLeg: row.itineraryLeg,
+          itineraryKind: row.itineraryKind,
           fare: Number(row.fare || 0),
           originalFare: Number(row.originalFare || 0),
           status: row.status,
+          paymentExpiresAt: row.paymentExpiresAt,
           isFreeTicket: row.isFreeTicket,
           govtExamRegistrationNumber: row.govtExamRegistrationNumber,
           bookingDate: row.bookingDate,
+          journeyDate: row.journeyDate,
           origin: row.origin,
           destination: row.destination,
           discountType: row.discountType,
           passengerDetails: row.passengerDetails ? JSON.parse(row.passengerDetails) : [],
           seatIds: [],
+          trip: row.tripStatus ? {
+            status: row.tripStatus,
+            delayMinutes: Number(row.tripDelayMinutes),
+            busName: row.tripBusName,
+            note: row.tripNote,
+          } : null,
         };
       }
       if (row.seatId) {
@@ -771,6 +2757,19 @@ apiRouter.get('/bookings/user/:userId', requireAuth, async (req, res) => {
       }
     }
 
+    const [refundsByBooking, changesByBooking, boardingByBooking, disruptionsByBooking] = await Promise.all([
+      refunds.listRefundsForBookings(dbPool, Object.keys(bookingsMap)),
+      bookingChanges.listChangesForBookings(dbPool, Object.keys(bookingsMap)),
+      boarding.listBoardingForBookings(dbPool, Object.keys(bookingsMap)),
+      tripDisruptions.listDisruptionsForBookings(dbPool, Object.keys(bookingsMap)),
+    ]);
+    for (const bookingId of Object.keys(bookingsMap)) {
+      bookingsMap[bookingId].refunds = refundsByBooking[bookingId] || [];
+      bookingsMap[bookingId].changes = changesByBooking[bookingId] || [];
+      bookingsMap[bookingId].boarding = boardingByBooking[bookingId] || [];
+      bookingsMap[bookingId].disruption = disruptionsByBooking[bookingId] || null;
+    }
+
     res.status(200).json(Object.values(bookingsMap));
   } catch (error) {
     handleDBError(res, error, 'getUserBookingsWithSeats');
@@ -784,6 +2783,10 @@ apiRouter.get('/bookings/seats/:scheduleId', async (req, res) => {
     if (!userOrigin || !userDestination) {
         return res.status(400).json({ message: 'Origin and destination query parameters are required.' });
     }
+    const journeyDate = parseJourneyDate(req.query.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
 
     try {
         const schedulesMap = await fetchAndAssembleSchedules(dbPool, scheduleId);
@@ -792,306 +2795,836 @@ apiRouter.get('/bookings/seats/:scheduleId', async (req, res) => {
         if (!schedule || !schedule.fullRouteStops) {
             return res.status(404).json({ message: 'Schedule not found or has no stops.' });
         }
-        
-        const stopOrderMap = schedule.fullRouteStops.reduce((acc, stop) => {
-            acc[stop.normalizedName] = stop.order;
-            return acc;
-        }, {});
 
-        const userOriginOrder = stopOrderMap[userOrigin.trim().toLowerCase()];
-        const userDestinationOrder = stopOrderMap[userDestination.trim().toLowerCase()];
+        const segment = resolveSegment(schedule, userOrigin, userDestination);
+        if (!segment) {
+            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+        }
+
+        const { order: originOrder } = segment.originStop;
+        const { order: destinationOrder } = segment.destStop;
+        const [unavailableSeats, heldSeats, fareTable] = await Promise.all([
+            getUnavailableSeats(dbPool, schedule, journeyDate, originOrder, destinationOrder),
+            getHeldSeats(dbPool, schedule, journeyDate, originOrder, destinationOrder, req.user?.id ?? null),
+            fares.getFareTable(dbPool, journeyDate),
+        ]);
+        res.json({
+            bookedSeats: Array.from(unavailableSeats),
+            heldSeats: Array.from(heldSeats).filter(seatId => !unavailableSeats.has(seatId)),
+            fare: fares.quoteSegmentFare(fareTable, schedule, segment.originStop, segment.destStop),
+        });
+
+    } catch (error) {
+        handleDBError(res, error, 'getBookedSeatsForSegment');
+    }
+});
+
+// Live seat-map updates for one segment of a schedule on a journey date, as Server-Sent Events.
+// Sends a `snapshot` on connect, then `booked`, `cancelled`, `held` and `released` events whose
+// seatIds are limited to seats on an overlapping segment.
+apiRouter.get('/bookings/seats/:scheduleId/events', async (req, res) => {
+    const { scheduleId } = req.params;
+    const { origin: userOrigin, destination: userDestination } = req.query;
+
+    if (!userOrigin || !userDestination) {
+        return res.status(400).json({ message: 'Origin and destination query parameters are required.' });
+    }
+    const journeyDate = parseJourneyDate(req.query.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
+
+    let schedule;
+    let segment;
+    try {
+        const schedulesMap = await fetchAndAssembleSchedules(dbPool, scheduleId);
+        schedule = schedulesMap[scheduleId];
+        if (!schedule || !schedule.fullRouteStops) {
+            return res.status(404).json({ message: 'Schedule not found or has no stops.' });
+        }
+        segment = resolveSegment(schedule, userOrigin, userDestination);
+        if (!segment) {
+            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+        }
+    } catch (error) {
+        return handleDBError(res, error, 'openSeatEventStream');
+    }
+
+    const { order: originOrder } = segment.originStop;
+    const { order: destinationOrder } = segment.destStop;
+    const getSeatState = () => Promise.all([
+        getUnavailableSeats(dbPool, schedule, journeyDate, originOrder, destinationOrder),
+        getHeldSeats(dbPool, schedule, journeyDate, originOrder, destinationOrder),
+    ]);
+
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop reverse proxies from buffering the stream
+    });
+    const sendEvent = (type, data) => res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    const unsubscribe = subscribeToSeatEvents(scheduleId, journeyDate, async (event) => {
+        try {
+            const seatIds = Array.from(findOverlappingSeats(schedule, event.seats, originOrder, destinationOrder));
+            if (seatIds.length === 0) return;
+            if (event.type === 'booked' || event.type === 'held') {
+                sendEvent(event.type, { seatIds, expiresAt: event.expiresAt });
+                return;
+            }
+            // A freed seat may still be taken on this segment through another booking or hold.
+            const [unavailableSeats, heldSeats] = await getSeatState();
+            const freedSeats = seatIds.filter(seatId => !unavailableSeats.has(seatId) && !heldSeats.has(seatId));
+            if (freedSeats.length > 0) {
+                sendEvent(event.type, { seatIds: freedSeats });
+            }
+        } catch (error) {
+            console.error('Failed to push seat event:', error);
+        }
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25 * 1000);
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+
+    try {
+        const [unavailableSeats, heldSeats] = await getSeatState();
+        sendEvent('snapshot', {
+            bookedSeats: Array.from(unavailableSeats),
+            heldSeats: Array.from(heldSeats).filter(seatId => !unavailableSeats.has(seatId)),
+        });
+    } catch (error) {
+        console.error('Failed to send seat snapshot:', error);
+        res.end();
+    }
+});
+
+apiRouter.post('/bookings/holds', requireAuth, async (req, res) => {
+    const { scheduleId, seatId, origin, destination } = req.body;
+    const userId = req.user.id;
+
+    if (!scheduleId || !seatId || !origin || !destination) {
+        return res.status(400).json({ message: 'Schedule, seat, origin and destination are required to hold a seat.' });
+    }
+    const journeyDate = parseJourneyDate(req.body.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const schedulesMap = await fetchAndAssembleSchedules(connection, scheduleId);
+        const schedule = schedulesMap[scheduleId];
+        if (!schedule) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Schedule not found.' });
+        }
+        const segment = resolveSegment(schedule, origin, destination);
+        if (!segment) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+        }
+        const seatError = await checkSeatRules(connection, schedule, [seatId])
+            || await checkSeatsBookable(connection, schedule, journeyDate, segment, [seatId]);
+        if (seatError) {
+            await connection.rollback();
+            return res.status(seatError.status).json({ message: seatError.message });
+        }
+        const heldSeats = await getHeldSeats(connection, schedule, journeyDate, segment.originStop.order, segment.destStop.order, userId, true);
+        if (heldSeats.has(seatId)) {
+            await connection.rollback();
+            return res.status(409).json({ message: `Seat ${seatId} is being booked by another passenger. Please choose a different seat.` });
+        }
+
+        const result = await seatHolds.placeHold(
+            connection, userId, scheduleId, journeyDate, segment.originStop.normalizedName, segment.destStop.normalizedName, seatId
+        );
+        if (result.error) {
+            await connection.rollback();
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+
+        await connection.commit();
+        res.status(201).json({ seatId, expiresAt: result.expiresAt.toISOString() });
+
+        publishSeatEvent(scheduleId, journeyDate, 'released', result.releasedHolds);
+        publishSeatEvent(scheduleId, journeyDate, 'held', [{
+            seatId, origin: segment.originStop.normalizedName, destination: segment.destStop.normalizedName,
+        }], { expiresAt: result.expiresAt.toISOString() });
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'holdSeat');
+    } finally {
+        connection.release();
+    }
+});
+
+// Releases one held seat (?seatId=...) or all of the caller's holds on a schedule for a journey date.
+apiRouter.delete('/bookings/holds/:scheduleId', requireAuth, async (req, res) => {
+    const { scheduleId } = req.params;
+    const { journeyDate, seatId } = req.query;
+
+    if (!journeyDate || !/^\d{4}-\d{2}-\d{2}$/.test(journeyDate)) {
+        return res.status(400).json({ message: 'A journey date (YYYY-MM-DD) is required.' });
+    }
+
+    try {
+        const releasedHolds = await seatHolds.releaseHolds(dbPool, req.user.id, scheduleId, journeyDate, seatId ? [seatId] : null);
+        res.status(204).send();
+        publishSeatEvent(scheduleId, journeyDate, 'released', releasedHolds);
+    } catch (error) {
+        handleDBError(res, error, 'releaseSeatHolds');
+    }
+});
+
+apiRouter.post('/bookings/free', requireAuth, async (req, res) => {
+    const { scheduleId, seatIds, origin, destination, registrationNumber, phone } = req.body;
+    const userId = req.user.id;
+
+    if (!scheduleId || !Array.isArray(seatIds) || !origin || !destination || !registrationNumber || !phone) {
+        return res.status(400).json({ message: 'All booking and verification fields are required.' });
+    }
+    if (seatIds.length !== 1) {
+        return res.status(400).json({ message: 'Free ticket bookings are limited to one seat per user per transaction.' });
+    }
+    const journeyDate = parseJourneyDate(req.body.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const [settingsRows] = await connection.query("SELECT `value` FROM settings WHERE `key` = 'isFreeBookingEnabled'");
+        if (!(settingsRows.length > 0 && settingsRows[0].value === 'true')) {
+            await connection.rollback();
+            return res.status(403).json({ message: 'Free booking is currently disabled by the administrator.' });
+        }
+        
+        const [beneficiaryRows] = await connection.query("SELECT * FROM govtbeneficiaries WHERE govtExamRegistrationNumber = ? AND phone = ? FOR UPDATE", [registrationNumber, phone]);
+        if (beneficiaryRows.length === 0) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Mismatch/Invalid: Registration number or phone did not match.' });
+        }
+        const beneficiary = beneficiaryRows[0];
+        if (beneficiary.ticketClaimed) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'This beneficiary has already claimed their free ticket.' });
+        }
 
-        if (userOriginOrder === undefined || userDestinationOrder === undefined || userOriginOrder >= userDestinationOrder) {
+        const schedulesMap = await fetchAndAssembleSchedules(connection, scheduleId);
+        const schedule = schedulesMap[scheduleId];
+        if (!schedule) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Schedule not found.' });
+        }
+        const segment = resolveSegment(schedule, origin, destination);
+        if (!segment) {
+            await connection.rollback();
             return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
         }
+        // The beneficiary travels alone, so their profile decides whether they can take a reserved seat.
+        const seatError = await checkSeatRules(connection, schedule, seatIds, [{ gender: req.user.gender }])
+            || await checkSeatsBookable(connection, schedule, journeyDate, segment, seatIds)
+            || await checkSeatsHeld(connection, userId, schedule, journeyDate, segment, seatIds);
+        if (seatError) {
+            await connection.rollback();
+            return res.status(seatError.status).json({ message: seatError.message });
+        }
         
-        // We need bookingDate to determine if a journey is in the past and has been completed.
-        const [bookedSegments] = await dbPool.query(
-            `SELECT bs.seatId, b.origin, b.destination, b.bookingDate
-             FROM bookedseats bs
-             JOIN bookings b ON bs.bookingId = b.id
-             WHERE b.scheduleId = ?`,
-            [scheduleId]
+        const bookingId = uuidv4();
+        // The beneficiary is recorded as the passenger, like on paid bookings, so cancelling,
+        // rebooking and the conductor's manifest treat the seat the same way.
+        const passengerDetails = seatIds.map(seatId => ({
+            seatId, fullName: req.user.fullName, type: 'NORMAL', status: 'BOOKED', fare: 0,
+            ...(req.user.gender ? { gender: req.user.gender } : {}),
+        }));
+        // Explicitly set bookingDate for consistency with paid bookings.
+        await connection.query(
+          'INSERT INTO bookings (id, userId, scheduleId, tripId, fare, originalFare, bookingDate, journeyDate, origin, destination, isFreeTicket, govtExamRegistrationNumber, passengerDetails) VALUES (?, ?, ?, (SELECT id FROM trips WHERE scheduleId = ? AND journeyDate = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [bookingId, userId, scheduleId, scheduleId, journeyDate, 0, 0, new Date(), journeyDate, origin, destination, true, registrationNumber, JSON.stringify(passengerDetails)]
         );
+        
+        const seatInsertPromises = seatIds.map(seatId => connection.query('INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES (?, ?, ?, ?)', [bookingId, seatId, origin, destination]));
+        await Promise.all(seatInsertPromises);
+        
+        await connection.query("UPDATE govtbeneficiaries SET ticketClaimed = 1 WHERE id = ?", [beneficiary.id]);
+        await connection.query("UPDATE users SET govtExamRegistrationNumber = ? WHERE id = ? AND govtExamRegistrationNumber IS NULL", [registrationNumber, userId]);
+        await seatHolds.releaseHolds(connection, userId, scheduleId, journeyDate, seatIds);
 
-        const unavailableSeats = new Set();
-        const now = new Date();
-
-        for (const segment of bookedSegments) {
-            // --- Check if the journey for this booking segment is already completed ---
-            const bookingOriginStop = schedule.fullRouteStops.find(s => s.normalizedName === segment.origin.trim().toLowerCase());
-            const bookingDestStop = schedule.fullRouteStops.find(s => s.normalizedName === segment.destination.trim().toLowerCase());
-
-            if (!bookingOriginStop || !bookingDestStop || !bookingOriginStop.departure || !bookingDestStop.arrival) {
-                // If we can't determine completion time, fall back to just checking overlap for safety.
-                const bookingOriginOrder = stopOrderMap[segment.origin.trim().toLowerCase()];
-                const bookingDestinationOrder = stopOrderMap[segment.destination.trim().toLowerCase()];
-                if (bookingOriginOrder !== undefined && bookingDestinationOrder !== undefined) {
-                     if (Math.max(userOriginOrder, bookingOriginOrder) < Math.min(userDestinationOrder, bookingDestinationOrder)) {
-                         unavailableSeats.add(segment.seatId);
-                    }
-                }
-                continue;
-            }
+        await connection.commit();
+        res.status(201).json({ bookingId });
+        publishSeatEvent(scheduleId, journeyDate, 'booked', seatIds.map(seatId => ({ seatId, origin, destination })));
+    } catch (error) {
+        await connection.rollback();
+        if (error.code === 'ER_TABLE_NOT_FOUND' && error.message.includes('govtbeneficiaries')) {
+            return res.status(500).json({ message: 'The free booking system is not fully configured. Please contact the administrator.' });
+        }
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ message: 'One or more selected seats have just been booked. Please refresh and try again.' });
+        }
+        handleDBError(res, error, 'createFreeBooking');
+    } finally {
+        connection.release();
+    }
+});
 
-            const bookingDateTime = new Date(segment.bookingDate);
-            
-            const [depHours, depMinutes] = bookingOriginStop.departure.split(':');
-            let departureDateTime = new Date(bookingDateTime.getFullYear(), bookingDateTime.getMonth(), bookingDateTime.getDate(), Number(depHours), Number(depMinutes), 0);
-            
-            // If the booking was made after the departure time for that day, the journey is for the next day.
-            if (departureDateTime < bookingDateTime) {
-                departureDateTime.setDate(departureDateTime.getDate() + 1);
-            }
-            
-            const [arrHours, arrMinutes] = bookingDestStop.arrival.split(':');
-            let arrivalDateTime = new Date(departureDateTime); // Start with the correct departure date
-            arrivalDateTime.setHours(Number(arrHours), Number(arrMinutes), 0, 0);
+apiRouter.post("/bookings", requireAuth, async (req, res) => {
+    const { scheduleId, seats, origin, destination } = req.body;
+    const userId = req.user.id;
+
+    if (!scheduleId || !Array.isArray(seats) || seats.length === 0 || !origin || !destination) {
+        return res.status(400).json({ message: 'Missing or invalid required booking information.' });
+    }
+    const journeyDate = parseJourneyDate(req.body.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        // Saved passengers arrive without their date of birth and Aadhaar number; they are filled in from the profile.
+        const resolved = await savedPassengers.resolveSavedPassengers(connection, userId, seats);
+        if (resolved.error) {
+            await connection.rollback();
+            return res.status(resolved.error.status).json({ message: resolved.error.message });
+        }
+        const passengerError = validatePassengers(resolved.seats)
+            || await checkConcessions(connection, resolved.seats, journeyDate);
+        if (passengerError) {
+            await connection.rollback();
+            return res.status(400).json({ message: passengerError });
+        }
 
-            // If arrival time is on the next day (e.g., departs 23:00, arrives 01:00)
-            if (arrivalDateTime < departureDateTime) {
-                arrivalDateTime.setDate(arrivalDateTime.getDate() + 1);
+        const schedulesMap = await fetchAndAssembleSchedules(connection, scheduleId);
+        const schedule = schedulesMap[scheduleId];
+        if (!schedule) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Schedule not found.' });
+        }
+        
+        const segment = resolveSegment(schedule, origin, destination);
+        if (!segment) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+        }
+
+        const seatIds = seats.map(seat => seat.seatId);
+        const seatError = await checkSeatRules(connection, schedule, seatIds, resolved.seats)
+            || await checkSeatsBookable(connection, schedule, journeyDate, segment, seatIds)
+            || await checkSeatsHeld(connection, userId, schedule, journeyDate, segment, seatIds);
+        if (seatError) {
+            await connection.rollback();
+            return res.status(seatError.status).json({ message: seatError.message });
+        }
+
+        // The seats stay reserved while the passenger pays; unpaid bookings expire and release them.
+        const { bookingId, status, totalFare, paymentExpiresAt } = await createPassengerBooking(connection, {
+            userId, schedule, segment, journeyDate, seats: resolved.seats, origin, destination,
+            paymentDeadline: payments.getPaymentDeadline(),
+        });
+        await seatHolds.releaseHolds(connection, userId, scheduleId, journeyDate, seatIds);
+
+        await connection.commit();
+        res.status(201).json({ bookingId, status, amount: totalFare, paymentExpiresAt: paymentExpiresAt?.toISOString() ?? null });
+        publishSeatEvent(scheduleId, journeyDate, 'booked', seatIds.map(seatId => ({ seatId, origin, destination })));
+    } catch (err) {
+        await connection.rollback();
+        if (err.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ message: 'One or more selected seats were just booked. Please refresh and try again.' });
+        }
+        handleDBError(res, err, 'createBooking');
+    } finally {
+        connection.release();
+    }
+});
+
+const ITINERARY_KINDS = ['CONNECTING', 'ROUND_TRIP'];
+
+// Books every leg of a connecting journey or round trip for the same passengers in one go.
+// Each leg becomes a booking linked to the itinerary; they are paid for together.
+apiRouter.post('/itineraries', requireAuth, async (req, res) => {
+    const { legs, passengers, kind = 'CONNECTING' } = req.body;
+    const userId = req.user.id;
+    const isRoundTrip = kind === 'ROUND_TRIP';
+
+    if (!ITINERARY_KINDS.includes(kind)) {
+        return res.status(400).json({ message: `Itinerary kind must be one of ${ITINERARY_KINDS.join(', ')}.` });
+    }
+    if (isRoundTrip && (!Array.isArray(legs) || legs.length !== 2)) {
+        return res.status(400).json({ message: 'A round trip needs an outbound and a return leg.' });
+    }
+    if (!Array.isArray(legs) || legs.length < 2 || legs.length > journeyPlanner.MAX_LEGS) {
+        return res.status(400).json({ message: `A connecting journey needs between 2 and ${journeyPlanner.MAX_LEGS} legs.` });
+    }
+    if (!Array.isArray(passengers) || passengers.length === 0 || passengers.length > 5) {
+        return res.status(400).json({ message: 'Between 1 and 5 passengers are required.' });
+    }
+    const passengerError = validatePassengers(passengers);
+    if (passengerError) {
+        return res.status(400).json({ message: passengerError });
+    }
+    for (const [index, leg] of legs.entries()) {
+        if (!leg.scheduleId || !leg.origin || !leg.destination || !Array.isArray(leg.seatIds) || leg.seatIds.length !== passengers.length) {
+            return res.status(400).json({ message: `Leg ${index + 1} needs a schedule, a segment and one seat per passenger.` });
+        }
+        if (!parseJourneyDate(leg.journeyDate)) {
+            return res.status(400).json({ message: `Leg ${index + 1}: ${journeyDateHint}` });
+        }
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const plannedLegs = [];
+        for (const [index, leg] of legs.entries()) {
+            const journeyDate = parseJourneyDate(leg.journeyDate);
+            const schedule = (await fetchAndAssembleSchedules(connection, leg.scheduleId))[leg.scheduleId];
+            const segment = schedule ? resolveSegment(schedule, leg.origin, leg.destination) : null;
+            if (!segment) {
+                await connection.rollback();
+                return res.status(400).json({ message: `Leg ${index + 1} is not a valid segment of its bus route.` });
             }
-            
-            // If the journey has completed, its seats are available again.
-            if (now > arrivalDateTime) {
-                continue; // This booking is for a completed journey, so the seat is free.
+            const { departure, arrival } = getSegmentTimes(schedule, segment, journeyDate);
+
+            const previous = plannedLegs[index - 1];
+            if (previous && isRoundTrip) {
+                if (previous.segment.destStop.normalizedName !== segment.originStop.normalizedName
+                    || previous.segment.originStop.normalizedName !== segment.destStop.normalizedName) {
+                    await connection.rollback();
+                    return res.status(400).json({ message: 'The return leg must go back from the outbound destination to its origin.' });
+                }
+                if (departure <= previous.arrival) {
+                    await connection.rollback();
+                    return res.status(400).json({ message: 'The return leg must leave after the outbound leg arrives.' });
+                }
+            } else if (previous) {
+                if (previous.segment.destStop.normalizedName !== segment.originStop.normalizedName) {
+                    await connection.rollback();
+                    return res.status(400).json({ message: `Leg ${index + 1} must start where leg ${index} ends.` });
+                }
+                const transferError = journeyPlanner.getTransferError(previous.arrival, departure);
+                if (transferError) {
+                    await connection.rollback();
+                    return res.status(400).json({ message: `Leg ${index + 1}: ${transferError}` });
+                }
             }
 
-            // --- If the journey is NOT completed, check for segment overlap ---
-            const bookingOriginOrder = stopOrderMap[segment.origin.trim().toLowerCase()];
-            const bookingDestinationOrder = stopOrderMap[segment.destination.trim().toLowerCase()];
-            
-            if (bookingOriginOrder === undefined || bookingDestinationOrder === undefined) {
-                continue;
+            // A passenger can pass a birthday between legs, so each leg is checked on its own date.
+            const concessionError = await checkConcessions(connection, passengers, journeyDate);
+            if (concessionError) {
+                await connection.rollback();
+                return res.status(400).json({ message: `Leg ${index + 1}: ${concessionError}` });
             }
-            
-            // This is the core logic for checking if two segments overlap.
-            if (Math.max(userOriginOrder, bookingOriginOrder) < Math.min(userDestinationOrder, bookingDestinationOrder)) {
-                 unavailableSeats.add(segment.seatId);
+
+            const seatError = await checkSeatRules(connection, schedule, leg.seatIds, passengers)
+                || await checkSeatsBookable(connection, schedule, journeyDate, segment, leg.seatIds)
+                || await checkSeatsHeld(connection, userId, schedule, journeyDate, segment, leg.seatIds);
+            if (seatError) {
+                await connection.rollback();
+                return res.status(seatError.status).json({ message: `Leg ${index + 1}: ${seatError.message}` });
             }
+            plannedLegs.push({ ...leg, journeyDate, schedule, segment, arrival });
         }
-        
-        res.json(Array.from(unavailableSeats));
 
+        const itineraryId = uuidv4();
+        await connection.query('INSERT INTO itineraries (id, userId, kind, createdAt) VALUES (?, ?, ?, ?)', [itineraryId, userId, kind, new Date()]);
+
+        // Every leg shares one payment window, so the legs are confirmed or released together.
+        const paymentDeadline = payments.getPaymentDeadline();
+        const bookings = [];
+        for (const [index, leg] of plannedLegs.entries()) {
+            const seats = passengers.map((passenger, passengerIndex) => ({ ...passenger, seatId: leg.seatIds[passengerIndex] }));
+            bookings.push(await createPassengerBooking(connection, {
+                userId, schedule: leg.schedule, segment: leg.segment, journeyDate: leg.journeyDate, seats,
+                origin: leg.origin, destination: leg.destination, paymentDeadline,
+                itinerary: { id: itineraryId, leg: index + 1 },
+            }));
+            await seatHolds.releaseHolds(connection, userId, leg.scheduleId, leg.journeyDate, leg.seatIds);
+        }
+
+        await connection.commit();
+        const amount = bookings.reduce((sum, booking) => sum + booking.totalFare, 0);
+        const isPending = bookings.some(booking => booking.status === 'PENDING_PAYMENT');
+        res.status(201).json({
+            itineraryId,
+            kind,
+            bookingId: bookings[0].bookingId,
+            bookingIds: bookings.map(booking => booking.bookingId),
+            status: isPending ? 'PENDING_PAYMENT' : 'CONFIRMED',
+            amount,
+            paymentExpiresAt: isPending ? paymentDeadline.toISOString() : null,
+        });
+        for (const leg of plannedLegs) {
+            publishSeatEvent(leg.scheduleId, leg.journeyDate, 'booked', leg.seatIds.map(seatId => ({
+                seatId, origin: leg.origin, destination: leg.destination,
+            })));
+        }
+    } catch (err) {
+        await connection.rollback();
+        if (err.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ message: 'One or more selected seats were just booked. Please refresh and try again.' });
+        }
+        handleDBError(res, err, 'createItinerary');
+    } finally {
+        connection.release();
+    }
+});
+
+// The official e-ticket, as a PDF whose QR code carries a token signed by the server.
+apiRouter.get('/bookings/:bookingId/ticket', requireAuth, async (req, res) => {
+    try {
+        const { error, ticket } = await loadTicket(dbPool, req.params.bookingId, req.user.id);
+        if (error) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        const pdf = await tickets.renderTicketPdf(ticket, ticketSigner.signTicket(ticket));
+        res.set({
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="GovernmentBus-Ticket-${ticket.bookingId}.pdf"`,
+        });
+        res.send(pdf);
+    } catch (error) {
+        handleDBError(res, error, 'getTicketPdf');
+    }
+});
+
+// Just the signed token, for showing the ticket's QR code on screen.
+apiRouter.get('/bookings/:bookingId/ticket/qr', requireAuth, async (req, res) => {
+    try {
+        const { error, ticket } = await loadTicket(dbPool, req.params.bookingId, req.user.id);
+        if (error) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.json({ token: ticketSigner.signTicket(ticket) });
+    } catch (error) {
+        handleDBError(res, error, 'getTicketQr');
+    }
+});
+
+// Gives up a booking that is still awaiting payment, e.g. when the passenger leaves checkout.
+// The other legs of its itinerary are given up with it.
+apiRouter.post('/bookings/:bookingId/abandon', requireAuth, async (req, res) => {
+    const { bookingId } = req.params;
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const [[booking]] = await connection.query('SELECT userId, itineraryId FROM bookings WHERE id = ?', [bookingId]);
+        if (!booking || booking.userId !== req.user.id) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Booking not found.' });
+        }
+        const [legRows] = booking.itineraryId
+            ? await connection.query('SELECT id FROM bookings WHERE itineraryId = ? ORDER BY itineraryLeg', [booking.itineraryId])
+            : [[{ id: bookingId }]];
+        const releasedBookings = [];
+        for (const leg of legRows) {
+            const released = await payments.releaseUnpaidBooking(connection, leg.id, 'CANCELLED');
+            if (released) releasedBookings.push(released);
+        }
+        if (releasedBookings.length === 0) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'This booking is not awaiting payment.' });
+        }
+        await connection.commit();
+        res.status(200).json({ message: 'The unpaid booking has been cancelled and its seats released.' });
+        for (const released of releasedBookings) {
+            publishReleasedBookingSeats(released);
+            promoteWaitlist(released.scheduleId, toDateString(new Date(released.journeyDate)));
+        }
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'abandonBooking');
+    } finally {
+        connection.release();
+    }
+});
+
+// What cancelling each remaining seat would refund right now, so the passenger sees the server's figures.
+// Whether cancellation is switched on is a separate setting, checked when they actually cancel.
+apiRouter.get('/bookings/:bookingId/cancellation-quote', requireAuth, async (req, res) => {
+    try {
+        const [[booking]] = await dbPool.query('SELECT * FROM bookings WHERE id = ?', [req.params.bookingId]);
+        if (!booking || booking.userId !== req.user.id) {
+            return res.status(404).json({ message: 'Booking not found.' });
+        }
+        const { error, quote, slabs, isTripCancelled } = await quoteBookingCancellation(dbPool, booking);
+        if (error) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        const seats = JSON.parse(booking.passengerDetails || '[]')
+            .filter(p => p.status !== 'CANCELLED')
+            .map(p => ({ seatId: p.seatId, ...cancellationPolicies.calculateSeatRefund(p.fare, quote.feePercentage) }));
+        res.json({ allowed: quote.allowed, feePercentage: quote.feePercentage, isTripCancelled, slabs, seats });
     } catch (error) {
-        handleDBError(res, error, 'getBookedSeatsForSegment');
+        handleDBError(res, error, 'getCancellationQuote');
     }
 });
 
-apiRouter.post('/bookings/free', requireAuth, async (req, res) => {
-    const { scheduleId, seatIds, origin, destination, registrationNumber, phone } = req.body;
+apiRouter.post('/bookings/:bookingId/cancel', requireAuth, async (req, res) => {
+    const { bookingId } = req.params;
+    const { seatIds } = req.body;
     const userId = req.user.id;
 
-    if (!scheduleId || !Array.isArray(seatIds) || !origin || !destination || !registrationNumber || !phone) {
-        return res.status(400).json({ message: 'All booking and verification fields are required.' });
-    }
-    if (seatIds.length !== 1) {
-        return res.status(400).json({ message: 'Free ticket bookings are limited to one seat per user per transaction.' });
+    if (!Array.isArray(seatIds) || seatIds.length === 0) {
+        return res.status(400).json({ message: 'An array of seat IDs to cancel is required.' });
     }
 
     const connection = await dbPool.getConnection();
     try {
         await connection.beginTransaction();
 
-        const [settingsRows] = await connection.query("SELECT `value` FROM settings WHERE `key` = 'isFreeBookingEnabled'");
-        if (!(settingsRows.length > 0 && settingsRows[0].value === 'true')) {
+        const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+        if (!booking) {
             await connection.rollback();
-            return res.status(403).json({ message: 'Free booking is currently disabled by the administrator.' });
+            return res.status(404).json({ message: 'Booking not found.' });
         }
-        
-        const [beneficiaryRows] = await connection.query("SELECT * FROM govtbeneficiaries WHERE govtExamRegistrationNumber = ? AND phone = ? FOR UPDATE", [registrationNumber, phone]);
-        if (beneficiaryRows.length === 0) {
+        if (booking.userId !== userId) {
             await connection.rollback();
-            return res.status(404).json({ message: 'Mismatch/Invalid: Registration number or phone did not match.' });
+            return res.status(403).json({ message: 'You are not authorized to cancel this booking.' });
         }
-        const beneficiary = beneficiaryRows[0];
-        if (beneficiary.ticketClaimed) {
+
+        if (booking.status === 'CANCELLED') {
             await connection.rollback();
-            return res.status(409).json({ message: 'This beneficiary has already claimed their free ticket.' });
+            return res.status(400).json({ message: 'This booking has already been fully cancelled.' });
+        }
+        if (booking.status === 'PENDING_PAYMENT' || booking.status === 'EXPIRED') {
+            await connection.rollback();
+            return res.status(400).json({ message: 'This booking was never paid for, so there is nothing to cancel.' });
+        }
+
+        const { error, quote, slabs, isTripCancelled } = await quoteBookingCancellation(connection, booking);
+        if (error) {
+            await connection.rollback();
+            return res.status(error.status).json({ message: error.message });
+        }
+        const [[cancellationSetting]] = await connection.query("SELECT value FROM settings WHERE `key` = 'isCancellationEnabled'");
+        if (!isTripCancelled && (!cancellationSetting || cancellationSetting.value !== 'true')) {
+            await connection.rollback();
+            return res.status(403).json({ message: 'Ticket cancellation is currently disabled.' });
+        }
+        if (!quote.allowed) {
+            const lastChance = slabs[slabs.length - 1].minHoursBeforeDeparture;
+            await connection.rollback();
+            return res.status(400).json({ message: `Cancellation window has closed. Tickets can only be cancelled up to ${lastChance} hour(s) before departure.` });
+        }
+
+        let passengerDetails = JSON.parse(booking.passengerDetails || '[]');
+        let fareToRefund = 0;
+        let successfullyCancelledSeats = [];
+        const seatRefunds = [];
+
+        for (const seatId of seatIds) {
+            const passengerIndex = passengerDetails.findIndex(p => p.seatId === seatId && p.status !== 'CANCELLED');
+            if (passengerIndex !== -1) {
+                const passenger = passengerDetails[passengerIndex];
+                const { fee, refund } = cancellationPolicies.calculateSeatRefund(passenger.fare, quote.feePercentage);
+                fareToRefund += passenger.fare;
+                passenger.status = 'CANCELLED';
+                successfullyCancelledSeats.push(seatId);
+                seatRefunds.push({ seatId, passengerType: passenger.type, amount: refund, fee });
+            }
         }
         
-        const bookingId = uuidv4();
-        // Explicitly set bookingDate for consistency with paid bookings.
-        await connection.query(
-          'INSERT INTO bookings (id, userId, scheduleId, fare, originalFare, bookingDate, origin, destination, isFreeTicket, govtExamRegistrationNumber) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-          [bookingId, userId, scheduleId, 0, 0, new Date(), origin, destination, true, registrationNumber]
-        );
+        if (successfullyCancelledSeats.length === 0) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Seats selected for cancellation are invalid or already cancelled.' });
+        }
+
+        const remainingFare = booking.fare - fareToRefund;
         
-        const seatInsertPromises = seatIds.map(seatId => connection.query('INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES (?, ?, ?, ?)', [bookingId, seatId, origin, destination]));
-        await Promise.all(seatInsertPromises);
+        await connection.query('DELETE FROM bookedseats WHERE bookingId = ? AND seatId IN (?)', [bookingId, successfullyCancelledSeats]);
+
+        const totalSeats = passengerDetails.length;
+        const totalCancelledSeats = passengerDetails.filter(p => p.status === 'CANCELLED').length;
         
-        await connection.query("UPDATE govtbeneficiaries SET ticketClaimed = 1 WHERE id = ?", [beneficiary.id]);
-        await connection.query("UPDATE users SET govtExamRegistrationNumber = ? WHERE id = ? AND govtExamRegistrationNumber IS NULL", [registrationNumber, userId]);
+        const newStatus = totalCancelledSeats === totalSeats ? 'CANCELLED' : 'PARTIALLY_CANCELLED';
+
+        await connection.query(
+            'UPDATE bookings SET fare = ?, passengerDetails = ?, status = ? WHERE id = ?',
+            [remainingFare, JSON.stringify(passengerDetails), newStatus, bookingId]
+        );
+        await refunds.recordRefunds(connection, booking, seatRefunds, {
+            reason: isTripCancelled ? 'Trip cancelled by operator' : 'Cancelled by passenger',
+            initiatedBy: 'USER',
+            initiatedByUserId: userId,
+        });
+        if (isTripCancelled && newStatus === 'CANCELLED') {
+            await restoreFreeTicket(connection, booking);
+        }
+        // Cancelling every seat answers any open offer of other buses.
+        const openOffer = isTripCancelled && newStatus === 'CANCELLED'
+            ? await tripDisruptions.getOpenOffer(connection, bookingId)
+            : null;
+        if (openOffer) {
+            await tripDisruptions.settleOffer(connection, openOffer.id, {
+                status: 'REFUNDED',
+                resolution: 'CANCELLED_BY_PASSENGER',
+                refundAmount: Math.round(seatRefunds.reduce((sum, seat) => sum + seat.amount, 0) * 100) / 100,
+            });
+        }
 
         await connection.commit();
-        res.status(201).json({ bookingId });
+        const totalRefund = seatRefunds.reduce((sum, seat) => sum + seat.amount, 0);
+        res.status(200).json({
+            message: `Successfully cancelled ${successfullyCancelledSeats.length} seat(s). ₹${totalRefund.toFixed(2)} will be refunded.`,
+            refundAmount: totalRefund,
+            feePercentage: quote.feePercentage,
+        });
+        publishSeatEvent(
+            booking.scheduleId,
+            toDateString(new Date(booking.journeyDate)),
+            'cancelled',
+            successfullyCancelledSeats.map(seatId => ({ seatId, origin: booking.origin, destination: booking.destination }))
+        );
+        promoteWaitlist(booking.scheduleId, toDateString(new Date(booking.journeyDate)));
     } catch (error) {
         await connection.rollback();
-        if (error.code === 'ER_TABLE_NOT_FOUND' && error.message.includes('govtbeneficiaries')) {
-            return res.status(500).json({ message: 'The free booking system is not fully configured. Please contact the administrator.' });
-        }
-        if (error.code === 'ER_DUP_ENTRY') {
-            return res.status(409).json({ message: 'One or more selected seats have just been booked. Please refresh and try again.' });
-        }
-        handleDBError(res, error, 'createFreeBooking');
+        handleDBError(res, error, 'cancelBooking');
     } finally {
         connection.release();
     }
 });
 
-apiRouter.post("/bookings", requireAuth, async (req, res) => {
-    const { scheduleId, seats, origin, destination } = req.body;
-    const userId = req.user.id;
 
-    if (!scheduleId || !Array.isArray(seats) || seats.length === 0 || !origin || !destination) {
-        return res.status(400).json({ message: 'Missing or invalid required booking information.' });
-    }
-    
-    for (const seat of seats) {
-        if (!seat.fullName || seat.fullName.trim() === '') {
-            return res.status(400).json({ message: `Full name is required for seat ${seat.seatId}.` });
-        }
-        if ((seat.type === 'CHILD' || seat.type === 'SENIOR') && (!seat.aadhaarNumber || seat.aadhaarNumber.length !== 12)) {
-             return res.status(400).json({ message: `A valid 12-digit Aadhaar number is required for seat ${seat.seatId}.` });
-        }
+// Takes up an offer of another bus after the operator cancelled the booking's trip: the
+// remaining passengers move to free seats on the chosen bus at no extra cost.
+apiRouter.post('/bookings/:bookingId/rebooking', requireAuth, async (req, res) => {
+    const { bookingId } = req.params;
+    const { scheduleId, journeyDate } = req.body;
+    if (!scheduleId || !journeyDate) {
+        return res.status(400).json({ message: 'Choose one of the buses offered.' });
     }
 
     const connection = await dbPool.getConnection();
+    let rebooked = null;
     try {
         await connection.beginTransaction();
 
-        const schedulesMap = await fetchAndAssembleSchedules(connection, scheduleId);
-        const schedule = schedulesMap[scheduleId];
-        if (!schedule) {
+        const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+        if (!booking || booking.userId !== req.user.id) {
             await connection.rollback();
-            return res.status(404).json({ message: 'Schedule not found.' });
+            return res.status(404).json({ message: 'Booking not found.' });
         }
-        
-        const originStop = schedule.fullRouteStops.find(s => s.normalizedName === origin.trim().toLowerCase());
-        const destStop = schedule.fullRouteStops.find(s => s.normalizedName === destination.trim().toLowerCase());
-        if (!originStop || !destStop || originStop.order >= destStop.order) {
+        const offer = await tripDisruptions.getOpenOffer(connection, bookingId);
+        if (!offer || booking.tripId !== offer.tripId || !['CONFIRMED', 'PARTIALLY_CANCELLED'].includes(booking.status)) {
             await connection.rollback();
-            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+            return res.status(409).json({ message: 'This booking has no open offer of another bus.' });
+        }
+        if (new Date(offer.offerExpiresAt) <= new Date()) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'This offer has lapsed. Your booking will be refunded shortly.' });
+        }
+        const alternative = offer.alternatives.find(option => option.scheduleId === scheduleId && option.journeyDate === journeyDate);
+        if (!alternative) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'That bus was not one of the buses offered.' });
         }
 
-        const baseFarePerSeat = destStop.fare - originStop.fare;
+        const { error, seatMap, segment } = await rebookCancelledTripBooking(connection, booking, alternative);
+        if (error) {
+            await connection.rollback();
+            return res.status(error.status).json({ message: error.message });
+        }
+        await tripDisruptions.settleOffer(connection, offer.id, {
+            status: 'REBOOKED',
+            resolution: 'ACCEPTED',
+            rebookedScheduleId: alternative.scheduleId,
+            rebookedJourneyDate: alternative.journeyDate,
+            rebookedSeatIds: seatMap,
+        });
 
-        const [[childDiscRow], [seniorDiscRow], [discountEnabledRow]] = await Promise.all([
-             connection.query("SELECT value FROM settings WHERE `key` = 'childDiscountPercentage'"),
-             connection.query("SELECT value FROM settings WHERE `key` = 'seniorDiscountPercentage'"),
-             connection.query("SELECT value FROM settings WHERE `key` = 'isDiscountSystemEnabled'")
-        ]);
-        
-        const childDiscount = Number(childDiscRow[0]?.value || '40');
-        const seniorDiscount = Number(seniorDiscRow[0]?.value || '50');
-        const isDiscountEnabled = discountEnabledRow[0]?.value === 'true' && schedule.isDiscountEnabled;
-
-                let totalFare = 0;
-        const seatTypes = new Set();
-        const passengerDetails = [];
-
-        for (const seat of seats) {
-            seatTypes.add(seat.type);
-            let finalFarePerSeat = baseFarePerSeat;
-
-            const passengerDetail = {
-                seatId: seat.seatId,
-                fullName: seat.fullName,
-                type: seat.type,
-                status: 'BOOKED',
-            };
+        await connection.commit();
+        rebooked = { alternative, seatMap, segment };
+    } catch (error) {
+        await connection.rollback();
+        return handleDBError(res, error, 'acceptRebooking');
+    } finally {
+        connection.release();
+    }
 
-            if (isDiscountEnabled) {
-                if (seat.type === 'CHILD') {
-                    finalFarePerSeat = baseFarePerSeat * (1 - (childDiscount / 100));
-                    passengerDetail.aadhaarNumber = seat.aadhaarNumber;
-                } else if (seat.type === 'SENIOR') {
-                    finalFarePerSeat = baseFarePerSeat * (1 - (seniorDiscount / 100));
-                    passengerDetail.aadhaarNumber = seat.aadhaarNumber;
-                }
-            }
+    const { alternative, seatMap, segment } = rebooked;
+    res.status(200).json({
+        message: `You have been moved to the ${alternative.busName} on ${alternative.journeyDate}, seat(s) ${Object.values(seatMap).join(', ')}.`,
+        scheduleId: alternative.scheduleId,
+        journeyDate: alternative.journeyDate,
+        seatIds: Object.values(seatMap),
+    });
+    publishSeatEvent(
+        alternative.scheduleId,
+        alternative.journeyDate,
+        'booked',
+        Object.values(seatMap).map(seatId => ({ seatId, origin: segment.originStop.name, destination: segment.destStop.name }))
+    );
+});
+
+// Turns down an offer of another bus after the operator cancelled the booking's trip, for a full refund.
+apiRouter.delete('/bookings/:bookingId/rebooking', requireAuth, async (req, res) => {
+    const { bookingId } = req.params;
 
-            // Ensure fare is present for EVERY passenger, including NORMAL
-            passengerDetail.fare = finalFarePerSeat;
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
 
-            totalFare += finalFarePerSeat;
-            passengerDetails.push(passengerDetail);
+        const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+        if (!booking || booking.userId !== req.user.id) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Booking not found.' });
         }
-        
-        let discountTypeForDb = 'NONE';
-        const hasDiscountPassenger = Array.from(seatTypes).some(type => type === 'CHILD' || type === 'SENIOR');
-        if (hasDiscountPassenger) {
-            const discountTypes = new Set(Array.from(seatTypes).filter(type => type !== 'NORMAL'));
-            if (discountTypes.size > 1) {
-                discountTypeForDb = 'MIXED';
-            } else if (discountTypes.has('CHILD')) {
-                discountTypeForDb = 'CHILD';
-            } else if (discountTypes.has('SENIOR')) {
-                discountTypeForDb = 'SENIOR';
-            }
+        const offer = await tripDisruptions.getOpenOffer(connection, bookingId);
+        if (!offer || booking.tripId !== offer.tripId) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'This booking has no open offer of another bus.' });
         }
 
-        const bookingId = uuidv4();
-        await connection.execute(
-            `INSERT INTO bookings 
-                (id, userId, scheduleId, fare, originalFare, bookingDate, isFreeTicket, origin, destination, discountType, passengerDetails) 
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
-                bookingId,
-                userId,
-                scheduleId,
-                totalFare,
-                totalFare,
-                new Date(),
-                false,
-                origin,
-                destination,
-                discountTypeForDb,
-                passengerDetails.length > 0 ? JSON.stringify(passengerDetails) : null
-            ]
-        );
-
-        const seatInsertPromises = seats.map(seat =>
-            connection.execute(
-                `INSERT INTO bookedseats (bookingId, seatId, origin, destination) VALUES (?, ?, ?, ?)`,
-                [bookingId, seat.seatId, origin, destination]
-            )
-        );
-        await Promise.all(seatInsertPromises);
+        const { refundAmount } = await refundCancelledTripBooking(connection, booking, {
+            reason: 'Trip cancelled by operator',
+            initiatedBy: 'USER',
+            initiatedByUserId: req.user.id,
+        });
+        await tripDisruptions.settleOffer(connection, offer.id, { status: 'REFUNDED', resolution: 'DECLINED', refundAmount });
 
         await connection.commit();
-        res.status(201).json({ bookingId });
-    } catch (err) {
+        res.status(200).json({
+            message: refundAmount > 0
+                ? `Your booking has been cancelled. ₹${refundAmount.toFixed(2)} will be refunded.`
+                : 'Your booking has been cancelled.',
+            refundAmount,
+        });
+    } catch (error) {
         await connection.rollback();
-        if (err.code === 'ER_DUP_ENTRY') {
-            return res.status(409).json({ message: 'One or more selected seats were just booked. Please refresh and try again.' });
-        }
-        handleDBError(res, err, 'createBooking');
+        handleDBError(res, error, 'declineRebooking');
     } finally {
         connection.release();
     }
 });
 
-apiRouter.post('/bookings/:bookingId/cancel', requireAuth, async (req, res) => {
+// Changes a paid booking: moves passengers to other seats, to another date on the same schedule,
+// or to a shorter or longer segment. A higher fare must be paid before the change takes effect,
+// and the new seats are held until then; a lower fare is refunded straight away. With `dryRun`
+// the change is only priced.
+apiRouter.patch('/bookings/:bookingId', requireAuth, async (req, res) => {
     const { bookingId } = req.params;
-    const { seatIds } = req.body;
+    const { journeyDate, origin, destination, seatMoves, dryRun } = req.body;
     const userId = req.user.id;
 
-    if (!Array.isArray(seatIds) || seatIds.length === 0) {
-        return res.status(400).json({ message: 'An array of seat IDs to cancel is required.' });
+    if (seatMoves !== undefined && (typeof seatMoves !== 'object' || seatMoves === null || Array.isArray(seatMoves))) {
+        return res.status(400).json({ message: 'Seat moves must map current seat IDs to new seat IDs.' });
     }
 
     const connection = await dbPool.getConnection();
     try {
         await connection.beginTransaction();
 
-        const [[cancellationSetting]] = await connection.query("SELECT value FROM settings WHERE `key` = 'isCancellationEnabled'");
-        if (!cancellationSetting || cancellationSetting.value !== 'true') {
-            await connection.rollback();
-            return res.status(403).json({ message: 'Ticket cancellation is currently disabled.' });
-        }
-
         const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
         if (!booking) {
             await connection.rollback();
@@ -1099,11 +3632,15 @@ apiRouter.post('/bookings/:bookingId/cancel', requireAuth, async (req, res) => {
         }
         if (booking.userId !== userId) {
             await connection.rollback();
-            return res.status(403).json({ message: 'You are not authorized to cancel this booking.' });
+            return res.status(403).json({ message: 'You are not authorized to change this booking.' });
         }
-        if (booking.status === 'CANCELLED') {
+        if (booking.status !== 'CONFIRMED' && booking.status !== 'PARTIALLY_CANCELLED') {
             await connection.rollback();
-            return res.status(400).json({ message: 'This booking has already been fully cancelled.' });
+            return res.status(400).json({ message: 'Only confirmed bookings can be changed.' });
+        }
+        if (booking.isFreeTicket) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Free tickets cannot be changed. Please cancel and book again.' });
         }
 
         const schedulesMap = await fetchAndAssembleSchedules(connection, booking.scheduleId);
@@ -1112,87 +3649,307 @@ apiRouter.post('/bookings/:bookingId/cancel', requireAuth, async (req, res) => {
             await connection.rollback();
             return res.status(404).json({ message: 'Could not find schedule details for this booking.' });
         }
-        
-        const originStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.origin.trim().toLowerCase());
-        if (!originStop || !originStop.departure) {
-             await connection.rollback();
-             return res.status(500).json({ message: 'Could not determine departure time for this booking.' });
-        }
-        
-        const [hours, minutes] = originStop.departure.split(':');
-        const bookingDateTime = new Date(booking.bookingDate);
-        let departureDateTime = new Date(booking.bookingDate);
-        departureDateTime.setHours(Number(hours), Number(minutes), 0, 0);
 
-        if (departureDateTime < bookingDateTime) {
-            departureDateTime.setDate(departureDateTime.getDate() + 1);
+        // Changes close with the cancellation window, as a cheaper change refunds part of the fare.
+        const departureDateTime = findBookingDeparture(schedule, booking);
+        const slabs = cancellationPolicies.findSlabsForDistrict(await cancellationPolicies.listPolicies(connection), schedule.origin);
+        const quote = departureDateTime ? cancellationPolicies.quoteCancellation(slabs, departureDateTime) : null;
+        if (!quote || !quote.allowed) {
+            const lastChance = slabs[slabs.length - 1].minHoursBeforeDeparture;
+            await connection.rollback();
+            return res.status(400).json({ message: `This booking can no longer be changed. Changes are allowed up to ${lastChance} hour(s) before departure.` });
         }
-        const oneHourBeforeDeparture = new Date(departureDateTime.getTime() - 60 * 60 * 1000);
 
-        if (new Date() >= oneHourBeforeDeparture) {
+        const plan = await planBookingChange(connection, booking, schedule, { journeyDate, origin, destination, seatMoves });
+        if (plan.error) {
+            await connection.rollback();
+            return res.status(plan.error.status).json({ message: plan.error.message });
+        }
+        if (plan.fareDifference < 0) {
+            const [[cancellationSetting]] = await connection.query("SELECT value FROM settings WHERE `key` = 'isCancellationEnabled'");
+            if (!cancellationSetting || cancellationSetting.value !== 'true') {
+                await connection.rollback();
+                return res.status(403).json({ message: 'Changes that lower the fare are unavailable while ticket cancellation is disabled.' });
+            }
+        }
+        // The fare given back is cancelled like a seat would be, so the slab's fee is kept from it.
+        const { fee: cancellationFee, refund: refundAmount } = plan.fareDifference < 0
+            ? cancellationPolicies.calculateSeatRefund(-plan.fareDifference, quote.feePercentage)
+            : { fee: 0, refund: 0 };
+        if (dryRun) {
             await connection.rollback();
-            return res.status(400).json({ message: 'Cancellation window has closed. Tickets can only be cancelled up to 1 hour before departure.' });
+            return res.status(200).json({ fareDifference: plan.fareDifference, refundAmount, cancellationFee, newState: plan.newState });
         }
 
-        let passengerDetails = JSON.parse(booking.passengerDetails || '[]');
-        let fareToRefund = 0;
-        let successfullyCancelledSeats = [];
+        // A new change replaces one still waiting for payment.
+        let releasedHolds = [];
+        const pendingChange = await bookingChanges.findPendingChange(connection, bookingId);
+        if (pendingChange) {
+            await bookingChanges.setChangeStatus(connection, pendingChange.id, 'CANCELLED');
+            releasedHolds = await seatHolds.releaseHolds(
+                connection, userId, booking.scheduleId, pendingChange.newState.journeyDate, pendingChange.newState.passengers.map(p => p.seatId)
+            );
+        }
+        const publishReleasedHolds = () => {
+            if (pendingChange) publishSeatEvent(booking.scheduleId, pendingChange.newState.journeyDate, 'released', releasedHolds);
+        };
 
-        for (const seatId of seatIds) {
-            const passengerIndex = passengerDetails.findIndex(p => p.seatId === seatId && p.status !== 'CANCELLED');
-            if (passengerIndex !== -1) {
-                const passenger = passengerDetails[passengerIndex];
-                fareToRefund += passenger.fare;
-                passenger.status = 'CANCELLED';
-                successfullyCancelledSeats.push(seatId);
-            }
+        const newSeatIds = plan.newState.passengers.map(p => p.seatId);
+        if (plan.fareDifference > 0) {
+            const paymentExpiresAt = payments.getPaymentDeadline();
+            const heldOrigin = plan.segment.originStop.normalizedName;
+            const heldDestination = plan.segment.destStop.normalizedName;
+            await seatHolds.holdSeatsUntil(
+                connection, userId, booking.scheduleId, plan.newState.journeyDate, heldOrigin, heldDestination, newSeatIds, paymentExpiresAt
+            );
+            const changeId = await bookingChanges.recordChange(connection, {
+                bookingId, userId, previousState: plan.previousState, newState: plan.newState,
+                fareDifference: plan.fareDifference, status: 'PENDING_PAYMENT', paymentExpiresAt,
+            });
+
+            await connection.commit();
+            res.status(202).json({
+                changeId,
+                status: 'PENDING_PAYMENT',
+                fareDifference: plan.fareDifference,
+                paymentExpiresAt: paymentExpiresAt.toISOString(),
+                message: `Pay ₹${plan.fareDifference.toFixed(2)} to complete the change. The new seats are held for you until then.`,
+            });
+            publishReleasedHolds();
+            publishSeatEvent(booking.scheduleId, plan.newState.journeyDate, 'held', newSeatIds.map(seatId => ({
+                seatId, origin: heldOrigin, destination: heldDestination,
+            })), { expiresAt: paymentExpiresAt.toISOString() });
+            return;
         }
-        
-        if (successfullyCancelledSeats.length === 0) {
+
+        const events = await applyBookingChange(connection, booking, plan.previousState, plan.newState, plan.fareDifference);
+        const changeId = await bookingChanges.recordChange(connection, {
+            bookingId, userId, previousState: plan.previousState, newState: plan.newState,
+            fareDifference: plan.fareDifference, status: 'APPLIED',
+        });
+        if (plan.fareDifference < 0) {
+            await refunds.recordRefunds(connection, booking, [{ seatId: null, passengerType: null, amount: refundAmount, fee: cancellationFee }], {
+                reason: 'Fare difference on a booking change',
+                initiatedBy: 'USER',
+                initiatedByUserId: userId,
+                refundType: 'FARE_ADJUSTMENT',
+            });
+        }
+
+        await connection.commit();
+        res.status(200).json({
+            changeId,
+            status: 'APPLIED',
+            fareDifference: plan.fareDifference,
+            paymentExpiresAt: null,
+            message: plan.fareDifference < 0
+                ? `Your booking has been changed. ₹${refundAmount.toFixed(2)} will be refunded${cancellationFee > 0 ? ` after a ₹${cancellationFee.toFixed(2)} cancellation fee` : ''}.`
+                : 'Your booking has been changed.',
+        });
+        publishReleasedHolds();
+        publishBookingChange({
+            ...events,
+            scheduleId: booking.scheduleId,
+            previousJourneyDate: plan.previousState.journeyDate,
+            journeyDate: plan.newState.journeyDate,
+        });
+    } catch (error) {
+        await connection.rollback();
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ message: 'One or more selected seats were just booked. Please choose different seats.' });
+        }
+        handleDBError(res, error, 'changeBooking');
+    } finally {
+        connection.release();
+    }
+});
+
+// --- Waitlist Routes ---
+// Join the queue for a sold-out segment. Passenger details are taken up front so freed seats
+// can be booked for the passenger without them having to be online.
+apiRouter.post('/waitlist', requireAuth, async (req, res) => {
+    const { scheduleId, origin, destination, passengers } = req.body;
+    if (!scheduleId || !origin || !destination || !Array.isArray(passengers) || passengers.length === 0) {
+        return res.status(400).json({ message: 'Missing or invalid waitlist information.' });
+    }
+    const journeyDate = parseJourneyDate(req.body.journeyDate);
+    if (!journeyDate) {
+        return res.status(400).json({ message: journeyDateHint });
+    }
+    const passengerError = validatePassengers(passengers);
+    if (passengerError) {
+        return res.status(400).json({ message: passengerError });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+
+        const schedule = (await fetchAndAssembleSchedules(connection, scheduleId))[scheduleId];
+        if (!schedule) {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Schedule not found.' });
+        }
+        const segment = resolveSegment(schedule, origin, destination);
+        if (!segment) {
+            await connection.rollback();
+            return res.status(400).json({ message: 'Invalid origin or destination for this route.' });
+        }
+        const departureError = await checkSeatsBookable(connection, schedule, journeyDate, segment, []);
+        if (departureError) {
+            await connection.rollback();
+            return res.status(departureError.status).json({ message: departureError.message });
+        }
+        const concessionError = await checkConcessions(connection, passengers, journeyDate);
+        if (concessionError) {
+            await connection.rollback();
+            return res.status(400).json({ message: concessionError });
+        }
+        if (await findSeatsForPassengers(connection, schedule, journeyDate, segment, passengers)) {
+            await connection.rollback();
+            return res.status(409).json({ message: 'Enough seats are available for this journey. Please book them directly.' });
+        }
+
+        const result = await waitlist.joinWaitlist(connection, {
+            userId: req.user.id,
+            scheduleId,
+            journeyDate,
+            origin,
+            destination,
+            passengers: passengers.map(({ fullName, type, dob, aadhaarNumber, proofNumber, gender, hasDisability }) => ({
+                fullName: fullName.trim(), type, dob, aadhaarNumber, proofNumber, gender, hasDisability,
+            })),
+        });
+        if (result.error) {
+            await connection.rollback();
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+        await connection.commit();
+
+        const entry = (await waitlist.listUserEntries(dbPool, req.user.id)).find(e => e.id === result.entryId);
+        res.status(201).json(entry);
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'joinWaitlist');
+    } finally {
+        connection.release();
+    }
+});
+
+apiRouter.get('/waitlist', requireAuth, async (req, res) => {
+    try {
+        res.json(await waitlist.listUserEntries(dbPool, req.user.id));
+    } catch (error) {
+        handleDBError(res, error, 'getWaitlist');
+    }
+});
+
+apiRouter.delete('/waitlist/:entryId', requireAuth, async (req, res) => {
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const result = await waitlist.leaveWaitlist(connection, req.params.entryId, req.user.id);
+        if (result.error) {
             await connection.rollback();
-            return res.status(400).json({ message: 'Seats selected for cancellation are invalid or already cancelled.' });
+            return res.status(result.error.status).json({ message: result.error.message });
         }
+        await connection.commit();
+        res.status(204).send();
+    } catch (error) {
+        await connection.rollback();
+        handleDBError(res, error, 'leaveWaitlist');
+    } finally {
+        connection.release();
+    }
+});
 
-        const remainingFare = booking.fare - fareToRefund;
-        
-        await connection.query('DELETE FROM bookedseats WHERE bookingId = ? AND seatId IN (?)', [bookingId, successfullyCancelledSeats]);
-
-        const totalSeats = passengerDetails.length;
-        const totalCancelledSeats = passengerDetails.filter(p => p.status === 'CANCELLED').length;
-        
-        const newStatus = totalCancelledSeats === totalSeats ? 'CANCELLED' : 'PARTIALLY_CANCELLED';
 
-        await connection.query(
-            'UPDATE bookings SET fare = ?, passengerDetails = ?, status = ? WHERE id = ?',
-            [remainingFare, JSON.stringify(passengerDetails), newStatus, bookingId]
-        );
+// --- Payment Routes ---
+apiRouter.post('/payments', requireAuth, async (req, res) => {
+    // `changeId` pays the extra fare of a booking change instead of the booking itself.
+    const { bookingId, changeId, simulate } = req.body;
+    if (!bookingId) {
+        return res.status(400).json({ message: 'A booking ID is required.' });
+    }
 
+    let intent;
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const created = changeId
+            ? await payments.createChangePaymentIntent(connection, bookingId, changeId, req.user.id, paymentGateway.name)
+            : await payments.createPaymentIntent(connection, bookingId, req.user.id, paymentGateway.name);
+        if (created.error) {
+            await connection.rollback();
+            return res.status(created.error.status).json({ message: created.error.message });
+        }
         await connection.commit();
-        res.status(200).json({ message: `Successfully cancelled ${successfullyCancelledSeats.length} seat(s).` });
+        intent = created.intent;
     } catch (error) {
         await connection.rollback();
-        handleDBError(res, error, 'cancelBooking');
+        return handleDBError(res, error, 'createPayment');
     } finally {
         connection.release();
     }
-});
 
+    try {
+        // `simulate` only means something to the mock gateway; real gateways ignore it.
+        const { reference } = await paymentGateway.createPayment({
+            paymentId: intent.id,
+            amount: intent.amount,
+            currency: intent.currency,
+            simulate,
+        });
+        await payments.recordGatewayReference(dbPool, intent.id, reference);
+    } catch (error) {
+        console.error(`Payment gateway ${paymentGateway.name} rejected payment ${intent.id}:`, error.message);
+        await payments.markPaymentFailed(dbPool, intent.id, 'The payment gateway is unavailable.').catch(() => {});
+        return res.status(502).json({ message: 'We could not reach the payment gateway. Please try again shortly.' });
+    }
+
+    res.status(201).json(payments.toClientPayment(intent, changeId ? 'CONFIRMED' : 'PENDING_PAYMENT'));
+});
 
-apiRouter.get('/tracking/:busId', async (req, res) => {
-  try {
-    const schedulesMap = await fetchAndAssembleSchedules(dbPool, req.params.busId);
-    const schedule = schedulesMap[req.params.busId];
+apiRouter.get('/payments/:paymentId', requireAuth, async (req, res) => {
+    try {
+        const payment = await payments.getPayment(dbPool, req.params.paymentId, req.user.id);
+        if (!payment) {
+            return res.status(404).json({ message: 'Payment not found.' });
+        }
+        res.json(payment);
+    } catch (error) {
+        handleDBError(res, error, 'getPayment');
+    }
+});
 
+/**
+ * Where a schedule's bus is on today's trip, simulated from the timetable and the trip's delay.
+ * @returns {Promise<object|null>} The bus location, or null if the schedule has no route to follow.
+ */
+const getBusLocation = async (scheduleId) => {
+    const schedulesMap = await fetchAndAssembleSchedules(dbPool, scheduleId);
+    const schedule = schedulesMap[scheduleId];
     if (!schedule || !schedule.fullRouteStops || schedule.fullRouteStops.length === 0) {
-      return res.status(404).json({ message: 'Tracking information not available for this bus.' });
+        return null;
     }
-    
+
+    // The operating calendar says whether the bus runs today; today's trip says whether it has
+    // been cancelled, and how far behind its timetable it is.
+    const today = toDateString(new Date());
+    const [trip, holidayDates] = await Promise.all([
+      trips.getTrip(dbPool, schedule.id, today),
+      operatingCalendars.listHolidayDates(dbPool, today, today),
+    ]);
+    const runsToday = operatingCalendars.runsOn(schedule.calendar, holidayDates, today);
+    const isTripCancelled = trip?.status === 'CANCELLED';
+    const delayMinutes = trip ? trip.delayMinutes : 0;
+
     // Simulation logic to determine current position
-    const now = new Date();
+    const now = new Date(Date.now() - delayMinutes * 60 * 1000);
     let currentStopIndex = -1;
     let isAtStop = false;
 
-    for (let i = 0; i < schedule.fullRouteStops.length; i++) {
+    for (let i = 0; runsToday && !isTripCancelled && i < schedule.fullRouteStops.length; i++) {
         const stop = schedule.fullRouteStops[i];
         const departureTimeStr = stop.departure; // 'HH:mm:ss'
         const arrivalTimeStr = stop.arrival; // 'HH:mm:ss' or null
@@ -1225,22 +3982,152 @@ apiRouter.get('/tracking/:busId', async (req, res) => {
         }
     }
 
-    res.json({
-      busId: req.params.busId,
+    // A trip given its own vehicle is tracked under that vehicle's registration.
+    const vehicle = trip?.vehicleId ? await fleet.getVehicle(dbPool, trip.vehicleId) : null;
+
+    return {
+      busId: scheduleId,
       lastUpdated: new Date().toISOString(),
       currentStopIndex: currentStopIndex,
       isAtStop: isAtStop,
+      runsToday,
+      tripStatus: isTripCancelled ? 'CANCELLED' : 'SCHEDULED',
+      delayMinutes,
+      busName: trip?.busName || schedule.busName,
+      registrationNumber: vehicle ? vehicle.registrationNumber : schedule.vehicleRegistration,
+      note: trip ? trip.note : null,
       routeStops: schedule.fullRouteStops.map(stop => ({
           name: stop.name,
           arrival: formatTime(stop.arrival),
           departure: formatTime(stop.departure)
       }))
-    });
+    };
+};
+
+// Tracks a vehicle by its registration number, on the trip it is running today: the one on the
+// road now, else the next to leave, else the last to arrive.
+apiRouter.get('/tracking/vehicle/:registrationNumber', async (req, res) => {
+  try {
+    const vehicle = await fleet.findByRegistration(dbPool, req.params.registrationNumber);
+    if (!vehicle) {
+      return res.status(404).json({ message: 'No bus with this registration number is in the fleet.' });
+    }
+    const today = toDateString(new Date());
+    const [vehicleTrips, schedulesMap] = await Promise.all([
+      fleet.listVehicleTrips(dbPool, vehicle.id, today, today),
+      fetchAndAssembleSchedules(dbPool),
+    ]);
+    const now = Date.now();
+    const runs = vehicleTrips
+      .map(trip => {
+        const schedule = schedulesMap[trip.scheduleId];
+        const span = schedule && getTripSpan(schedule, trip.journeyDate, trip.delayMinutes);
+        return span ? { scheduleId: trip.scheduleId, ...span } : null;
+      })
+      .filter(Boolean)
+      .sort((a, b) => a.start - b.start);
+    const run = runs.find(r => r.start.getTime() <= now && now <= r.end.getTime())
+      || runs.find(r => r.start.getTime() > now)
+      || runs.at(-1);
+    if (!run) {
+      return res.status(404).json({ message: `${vehicle.registrationNumber} has no trips today.` });
+    }
+    res.json(await getBusLocation(run.scheduleId));
+  } catch (error) {
+    handleDBError(res, error, 'trackVehicle');
+  }
+});
+
+apiRouter.get('/tracking/:busId', async (req, res) => {
+  try {
+    const location = await getBusLocation(req.params.busId);
+    if (!location) {
+      return res.status(404).json({ message: 'Tracking information not available for this bus.' });
+    }
+    res.json(location);
   } catch (error) {
     handleDBError(res, error, 'trackBus');
   }
 });
 
+// --- Conductor Routes ---
+// Trips still running from yesterday are listed too, since overnight buses finish the day after they leave.
+apiRouter.get('/conductor/trips', requireConductor, async (req, res) => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    try {
+        const [assignments, schedulesMap] = await Promise.all([
+            boarding.listAssignments(dbPool, req.user.id, toDateString(yesterday)),
+            fetchAndAssembleSchedules(dbPool),
+        ]);
+        res.json(assignments.map(assignment => {
+            const schedule = schedulesMap[assignment.scheduleId];
+            return {
+                ...assignment,
+                busName: schedule ? schedule.busName : assignment.scheduleId,
+                origin: schedule ? schedule.origin : '',
+                destination: schedule ? schedule.destination : '',
+                departureTime: schedule ? schedule.departureTime : 'N/A',
+            };
+        }));
+    } catch (error) {
+        handleDBError(res, error, 'getConductorTrips');
+    }
+});
+
+apiRouter.get('/conductor/trips/:scheduleId/:journeyDate/manifest', requireConductor, async (req, res) => {
+    const { scheduleId, journeyDate } = req.params;
+    try {
+        if (!(await boarding.isAssigned(dbPool, req.user.id, scheduleId, journeyDate))) {
+            return res.status(403).json({ message: 'You are not assigned to this trip.' });
+        }
+        res.json(await boarding.getManifest(dbPool, scheduleId, journeyDate));
+    } catch (error) {
+        handleDBError(res, error, 'getTripManifest');
+    }
+});
+
+// Checks the signed token from a ticket's QR code against the trip being worked.
+apiRouter.post('/conductor/verify', requireConductor, async (req, res) => {
+    const { scheduleId, journeyDate, token } = req.body;
+    if (!scheduleId || !journeyDate || typeof token !== 'string' || token.trim() === '') {
+        return res.status(400).json({ message: 'Trip and ticket code are required.' });
+    }
+    try {
+        if (!(await boarding.isAssigned(dbPool, req.user.id, scheduleId, journeyDate))) {
+            return res.status(403).json({ message: 'You are not assigned to this trip.' });
+        }
+        res.json(await boarding.checkTicket(dbPool, ticketSigner.verifyTicket(token), { scheduleId, journeyDate }));
+    } catch (error) {
+        handleDBError(res, error, 'verifyTicket');
+    }
+});
+
+apiRouter.post('/conductor/boarding', requireConductor, async (req, res) => {
+    const { scheduleId, journeyDate, bookingId, seatIds, status } = req.body;
+    if (!scheduleId || !journeyDate || !bookingId || !Array.isArray(seatIds) || seatIds.length === 0) {
+        return res.status(400).json({ message: 'Trip, booking and seats are required.' });
+    }
+    if (!boarding.BOARDING_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of ${boarding.BOARDING_STATUSES.join(', ')}.` });
+    }
+    if (journeyDate > toDateString(new Date())) {
+        return res.status(400).json({ message: 'Boarding opens on the journey date.' });
+    }
+    try {
+        if (!(await boarding.isAssigned(dbPool, req.user.id, scheduleId, journeyDate))) {
+            return res.status(403).json({ message: 'You are not assigned to this trip.' });
+        }
+        const result = await boarding.recordBoarding(dbPool, { scheduleId, journeyDate, bookingId, seatIds, status, conductorId: req.user.id });
+        if (result.error) {
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+        res.json(result.seats);
+    } catch (error) {
+        handleDBError(res, error, 'recordBoarding');
+    }
+});
+
 // --- User Management Routes ---
 apiRouter.get('/users/:userId/pass-card', requireAuth, async (req, res) => {
     const { userId } = req.params;
@@ -1279,6 +4166,104 @@ apiRouter.get('/users/:userId/pass-card', requireAuth, async (req, res) => {
     }
 });
 
+// --- Saved passengers ---
+apiRouter.get('/users/:userId/notifications', requireAuth, async (req, res) => {
+    const { userId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    try {
+        res.json(await notifications.listNotifications(dbPool, userId));
+    } catch (err) {
+        handleDBError(res, err, 'listNotifications');
+    }
+});
+
+apiRouter.post('/users/:userId/notifications/:notificationId/read', requireAuth, async (req, res) => {
+    const { userId, notificationId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    try {
+        if (!await notifications.markRead(dbPool, userId, notificationId)) {
+            return res.status(404).json({ message: 'Notification not found.' });
+        }
+        res.status(204).send();
+    } catch (err) {
+        handleDBError(res, err, 'markNotificationRead');
+    }
+});
+
+apiRouter.get('/users/:userId/passengers', requireAuth, async (req, res) => {
+    const { userId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    try {
+        res.json(await savedPassengers.listPassengers(dbPool, userId, toDateString(new Date())));
+    } catch (err) {
+        handleDBError(res, err, 'listSavedPassengers');
+    }
+});
+
+apiRouter.post('/users/:userId/passengers', requireAuth, async (req, res) => {
+    const { userId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    const today = toDateString(new Date());
+    const validationError = savedPassengers.validatePassenger(req.body, today);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+    try {
+        const result = await savedPassengers.createPassenger(dbPool, userId, req.body);
+        if (result.error) {
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+        const passengers = await savedPassengers.listPassengers(dbPool, userId, today);
+        res.status(201).json(passengers.find(passenger => passenger.id === result.passengerId));
+    } catch (err) {
+        handleDBError(res, err, 'createSavedPassenger');
+    }
+});
+
+apiRouter.put('/users/:userId/passengers/:passengerId', requireAuth, async (req, res) => {
+    const { userId, passengerId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    const today = toDateString(new Date());
+    const validationError = savedPassengers.validatePassenger(req.body, today);
+    if (validationError) {
+        return res.status(400).json({ message: validationError });
+    }
+    try {
+        if (!await savedPassengers.updatePassenger(dbPool, userId, passengerId, req.body)) {
+            return res.status(404).json({ message: 'Saved passenger not found.' });
+        }
+        const passengers = await savedPassengers.listPassengers(dbPool, userId, today);
+        res.json(passengers.find(passenger => passenger.id === passengerId));
+    } catch (err) {
+        handleDBError(res, err, 'updateSavedPassenger');
+    }
+});
+
+apiRouter.delete('/users/:userId/passengers/:passengerId', requireAuth, async (req, res) => {
+    const { userId, passengerId } = req.params;
+    if (req.user.id !== userId) {
+        return res.status(403).json({ message: 'Permission denied.' });
+    }
+    try {
+        if (!await savedPassengers.deletePassenger(dbPool, userId, passengerId)) {
+            return res.status(404).json({ message: 'Saved passenger not found.' });
+        }
+        res.json({ message: 'Saved passenger removed.' });
+    } catch (err) {
+        handleDBError(res, err, 'deleteSavedPassenger');
+    }
+});
+
 apiRouter.put('/users/profile/:id', requireAuth, async (req, res) => {
     const { id } = req.params;
     if (req.user.id !== id) {
@@ -1286,6 +4271,10 @@ apiRouter.put('/users/profile/:id', requireAuth, async (req, res) => {
     }
 
     const { fullName, email, phone, gender, password, dob } = req.body;
+    if (password && !passwordRegex.test(password)) {
+        return res.status(400).json({ message: passwordHint });
+    }
+
     const connection = await dbPool.getConnection();
     try {
         await connection.beginTransaction();
@@ -1305,7 +4294,7 @@ apiRouter.put('/users/profile/:id', requireAuth, async (req, res) => {
         if (password) {
             if (params.length > 0) sql += ', ';
             sql += '`password` = ?';
-            params.push(password);
+            params.push(await hashPassword(password));
         }
 
         if (params.length === 0) {
@@ -1317,6 +4306,11 @@ apiRouter.put('/users/profile/:id', requireAuth, async (req, res) => {
         params.push(id);
         await connection.query(sql, params);
 
+        if (password) {
+            // A new password signs the user out everywhere except the current session.
+            await sessions.revokeUserSessions(connection, id, req.sessionId);
+        }
+
         if (phone) {
             await connection.query(
                 `UPDATE govtbeneficiaries gb JOIN users u ON gb.govtExamRegistrationNumber = u.govtExamRegistrationNumber SET gb.phone = ? WHERE u.id = ?`,
@@ -1358,10 +4352,12 @@ apiRouter.post('/users/bulk-beneficiaries', requireAdmin, async (req, res) => {
             const { govtExamRegistrationNumber, phone, fullName, email, dob, password } = bene;
 
             if (!govtExamRegistrationNumber || !phone || !fullName) {
-                console.log('Skipping invalid record (missing required fields):', bene);
+                console.log('Skipping invalid record (missing required fields):', govtExamRegistrationNumber || phone || '(unidentified)');
                 skippedCount++;
                 continue;
             }
+            // Beneficiaries without a password log in with OTP.
+            const passwordHash = password ? await hashPassword(password) : null;
 
             await connection.query(
                 `INSERT INTO govtbeneficiaries (id, govtExamRegistrationNumber, phone, ticketClaimed) VALUES (?, ?, ?, 0)
@@ -1383,7 +4379,7 @@ apiRouter.post('/users/bulk-beneficiaries', requireAdmin, async (req, res) => {
                 }
                 await connection.query(
                     `UPDATE users SET fullName = ?, email = ?, phone = ?, dob = ?, isFreeTicketEligible = 'Yes', password = ? WHERE id = ?`,
-                    [fullName, email || null, phone, dob || null, password || null, userToUpdate.id]
+                    [fullName, email || null, phone, dob || null, passwordHash, userToUpdate.id]
                 );
                 updatedCount++;
             } else {
@@ -1397,7 +4393,7 @@ apiRouter.post('/users/bulk-beneficiaries', requireAdmin, async (req, res) => {
                     }
                     await connection.query(
                         `UPDATE users SET fullName = ?, email = ?, dob = ?, isFreeTicketEligible = 'Yes', govtExamRegistrationNumber = ?, password = ? WHERE id = ?`,
-                        [fullName, email || null, dob || null, govtExamRegistrationNumber, password || null, userToConvert.id]
+                        [fullName, email || null, dob || null, govtExamRegistrationNumber, passwordHash, userToConvert.id]
                     );
                     updatedCount++;
                 } else {
@@ -1405,7 +4401,7 @@ apiRouter.post('/users/bulk-beneficiaries', requireAdmin, async (req, res) => {
                     await connection.query(
                         `INSERT INTO users (id, fullName, email, phone, password, role, govtExamRegistrationNumber, isFreeTicketEligible, dob)
                          VALUES (?, ?, ?, ?, ?, 'USER', ?, 'Yes', ?)`,
-                        [userId, fullName, email || null, phone, password || null, govtExamRegistrationNumber, dob || null]
+                        [userId, fullName, email || null, phone, passwordHash, govtExamRegistrationNumber, dob || null]
                     );
                     createdCount++;
                 }
@@ -1425,6 +4421,7 @@ apiRouter.get('/users', requireSubAdminOrAdmin, async (req, res) => {
     try {
         const [users] = await dbPool.query("SELECT id, fullName, email, phone, role, dob, gender FROM users ORDER BY role, fullName");
         const [subAdminDistricts] = await dbPool.query("SELECT userId, district FROM subadmindistricts");
+        const conductorAssignments = await boarding.listAssignmentsByConductor(dbPool, toDateString(new Date()));
 
         const districtsMap = subAdminDistricts.reduce((acc, row) => {
             if (!acc[row.userId]) acc[row.userId] = [];
@@ -1435,6 +4432,7 @@ apiRouter.get('/users', requireSubAdminOrAdmin, async (req, res) => {
         const usersWithDistricts = users.map(user => ({
             ...user,
             assignedDistricts: user.role === 'SUB_ADMIN' ? (districtsMap[user.id] || []) : undefined,
+            assignments: user.role === 'CONDUCTOR' ? (conductorAssignments[user.id] || []) : undefined,
         }));
         
         res.json(usersWithDistricts);
@@ -1472,7 +4470,7 @@ apiRouter.post('/users/subadmin', requireAdmin, async (req, res) => {
         }
         
         const userId = uuidv4();
-        const newUser = { id: userId, fullName, email, phone, password, role: 'SUB_ADMIN', gender, dob };
+        const newUser = { id: userId, fullName, email, phone, password: await hashPassword(password), role: 'SUB_ADMIN', gender, dob };
 
         await connection.query('INSERT INTO users (id, fullName, email, phone, password, role, gender, dob) VALUES (?, ?, ?, ?, ?, ?, ?, ?)', [newUser.id, newUser.fullName, newUser.email, newUser.phone, newUser.password, newUser.role, newUser.gender, newUser.dob || null]);
 
@@ -1495,9 +4493,104 @@ apiRouter.post('/users/subadmin', requireAdmin, async (req, res) => {
     }
 });
 
+// Conductors are staff accounts rostered on trips; see boarding.js.
+apiRouter.post('/users/conductor', requireAdmin, async (req, res) => {
+    const { fullName, email, phone, password, gender, dob, assignments = [] } = req.body;
+    if (!fullName || !phone || !password) {
+        return res.status(400).json({ message: 'Full name, phone and password are required.' });
+    }
+    if (phone.length !== 10 || !/^\d{10}$/.test(phone)) {
+        return res.status(400).json({ message: 'Phone number must be exactly 10 digits.' });
+    }
+    if (!passwordRegex.test(password)) {
+        return res.status(400).json({ message: passwordHint });
+    }
+    const today = toDateString(new Date());
+    const assignmentError = boarding.validateAssignments(assignments, today);
+    if (assignmentError) {
+        return res.status(400).json({ message: assignmentError });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const userId = uuidv4();
+        const newUser = { id: userId, fullName, email, phone, role: 'CONDUCTOR', gender, dob };
+        await connection.query(
+            'INSERT INTO users (id, fullName, email, phone, password, role, gender, dob) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            [userId, fullName, email, phone, await hashPassword(password), 'CONDUCTOR', gender, dob || null]
+        );
+        const result = await boarding.setAssignments(connection, userId, assignments, today);
+        if (result.error) {
+            await connection.rollback();
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+        await connection.commit();
+        res.status(201).json({ ...newUser, assignments });
+    } catch (error) {
+        await connection.rollback();
+        if (error.code === 'ER_DUP_ENTRY') return res.status(409).json({ message: 'A user with this email or phone number already exists.' });
+        handleDBError(res, error, 'createConductor');
+    } finally {
+        connection.release();
+    }
+});
+
+apiRouter.put('/users/conductor/:id', requireAdmin, async (req, res) => {
+    const { id } = req.params;
+    const { fullName, email, phone, password, gender, dob, assignments = [] } = req.body;
+    if (!fullName || !phone) {
+        return res.status(400).json({ message: 'Full name and phone are required.' });
+    }
+    if (phone.length !== 10 || !/^\d{10}$/.test(phone)) {
+        return res.status(400).json({ message: 'Phone number must be exactly 10 digits.' });
+    }
+    if (password && !passwordRegex.test(password)) {
+        return res.status(400).json({ message: passwordHint });
+    }
+    const today = toDateString(new Date());
+    const assignmentError = boarding.validateAssignments(assignments, today);
+    if (assignmentError) {
+        return res.status(400).json({ message: assignmentError });
+    }
+
+    const connection = await dbPool.getConnection();
+    try {
+        await connection.beginTransaction();
+        const [users] = await connection.query('SELECT role FROM users WHERE id = ? FOR UPDATE', [id]);
+        if (users.length === 0 || users[0].role !== 'CONDUCTOR') {
+            await connection.rollback();
+            return res.status(404).json({ message: 'Conductor not found.' });
+        }
+
+        const userUpdateParts = ['`fullName` = ?', '`email` = ?', '`phone` = ?', '`gender` = ?', '`dob` = ?'];
+        const userParams = [fullName, email, phone, gender, dob || null];
+        if (password) { userUpdateParts.push('`password` = ?'); userParams.push(await hashPassword(password)); }
+        await connection.query(`UPDATE users SET ${userUpdateParts.join(', ')} WHERE id = ?`, [...userParams, id]);
+        if (password) await sessions.revokeUserSessions(connection, id);
+
+        const result = await boarding.setAssignments(connection, id, assignments, today);
+        if (result.error) {
+            await connection.rollback();
+            return res.status(result.error.status).json({ message: result.error.message });
+        }
+        await connection.commit();
+        res.status(200).json({ message: 'Conductor updated successfully.' });
+    } catch (error) {
+        await connection.rollback();
+        if (error.code === 'ER_DUP_ENTRY') return res.status(409).json({ message: 'Email or phone number already in use.' });
+        handleDBError(res, error, 'updateConductor');
+    } finally {
+        connection.release();
+    }
+});
+
 apiRouter.put('/users/admin/:id', requireAdmin, async (req, res) => {
     const { id } = req.params;
     const updateData = req.body;
+    if (updateData.password && !passwordRegex.test(updateData.password)) {
+        return res.status(400).json({ message: passwordHint });
+    }
     let connection;
     try {
         connection = await dbPool.getConnection();
@@ -1520,7 +4613,7 @@ apiRouter.put('/users/admin/:id', requireAdmin, async (req, res) => {
         if (password) {
             if (params.length > 0) sql += ', ';
             sql += '`password` = ?';
-            params.push(password);
+            params.push(await hashPassword(password));
         }
 
         if (params.length === 0) {
@@ -1536,6 +4629,7 @@ apiRouter.put('/users/admin/:id', requireAdmin, async (req, res) => {
         }
 
         if (phone) await connection.query(`UPDATE govtbeneficiaries gb JOIN users u ON gb.govtExamRegistrationNumber = u.govtExamRegistrationNumber SET gb.phone = ? WHERE u.id = ?`, [phone, id]);
+        if (password) await sessions.revokeUserSessions(connection, id);
         await connection.commit();
         
         const [rows] = await connection.query('SELECT * FROM users WHERE id = ?', [id]);
@@ -1589,13 +4683,14 @@ apiRouter.put('/users/subadmin/:id', requireAdmin, async (req, res) => {
                 userParams.push(key === 'dob' ? (value || null) : value);
             }
         }
-        if (password) { userUpdateParts.push('`password` = ?'); userParams.push(password); }
+        if (password) { userUpdateParts.push('`password` = ?'); userParams.push(await hashPassword(password)); }
         
         if (userUpdateParts.length > 0) {
             const userUpdateSql = `UPDATE users SET ${userUpdateParts.join(', ')} WHERE id = ?`;
             userParams.push(id);
             await connection.query(userUpdateSql, userParams);
         }
+        if (password) await sessions.revokeUserSessions(connection, id);
 
         if (phone) await connection.query(`UPDATE govtbeneficiaries gb JOIN users u ON gb.govtExamRegistrationNumber = u.govtExamRegistrationNumber SET gb.phone = ? WHERE u.id = ?`, [phone, id]);
         
@@ -1625,12 +4720,14 @@ apiRouter.delete('/users/:id', requireAdmin, async (req, res) => {
         if (users.length === 0) {
             await connection.rollback(); return res.status(404).json({ message: 'User not found.' });
         }
-        if (users[0].role !== 'SUB_ADMIN') {
-            await connection.rollback(); return res.status(403).json({ message: 'Only sub-admin accounts can be deleted.' });
+        if (users[0].role !== 'SUB_ADMIN' && users[0].role !== 'CONDUCTOR') {
+            await connection.rollback(); return res.status(403).json({ message: 'Only sub-admin and conductor accounts can be deleted.' });
         }
         
         await connection.query('DELETE FROM subadmindistricts WHERE userId = ?', [id]);
+        await connection.query('DELETE FROM conductor_assignments WHERE conductorId = ?', [id]);
         await connection.query('DELETE FROM users WHERE id = ?', [id]);
+        await sessions.revokeUserSessions(connection, id);
 
         await connection.commit();
         res.status(204).send();
@@ -1671,55 +4768,91 @@ apiRouter.get('/analytics/revenue', requireSubAdminOrAdmin, async (req, res) =>
         )
       ) AS p
       WHERE b.isFreeTicket = 0 
+        AND b.status NOT IN ('PENDING_PAYMENT', 'EXPIRED')
         AND b.passengerDetails IS NOT NULL 
         AND JSON_VALID(b.passengerDetails)
         ${subAdminFilter}
     `;
     
+    // Refunds are read from the ledger; every seat ever sold counts towards gross revenue.
+    const refundBaseQuery = `
+      FROM refunds r
+      JOIN bookings b ON b.id = r.bookingId
+      WHERE b.isFreeTicket = 0
+        AND b.status NOT IN ('PENDING_PAYMENT', 'EXPIRED')
+        AND r.refundType = 'CANCELLATION'
+        ${subAdminFilter}
+    `;
+
     const categoryQuery = `
         SELECT p.type,
-            COALESCE(SUM(CASE WHEN p.status IS NULL OR p.status = 'BOOKED' THEN p.fare ELSE 0 END), 0) AS grossRevenue,
-            COALESCE(SUM(CASE WHEN p.status = 'CANCELLED' THEN p.fare ELSE 0 END), 0) AS refundedRevenue,
-            COUNT(CASE WHEN p.status IS NULL OR p.status = 'BOOKED' THEN 1 END) AS bookedTickets,
-            COUNT(CASE WHEN p.status = 'CANCELLED' THEN 1 END) AS cancelledTickets
+            COALESCE(SUM(p.fare), 0) AS grossRevenue,
+            COUNT(*) AS bookedTickets
         ${baseQuery}
         GROUP BY p.type
     `;
-    
-    const pivotedFields = `
-        -- BOOKED REVENUE
-        COALESCE(SUM(CASE WHEN p.type = 'NORMAL' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN p.fare ELSE 0 END), 0) as bookedNormalRevenue,
-        COALESCE(SUM(CASE WHEN p.type = 'CHILD' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN p.fare ELSE 0 END), 0) as bookedChildRevenue,
-        COALESCE(SUM(CASE WHEN p.type = 'SENIOR' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN p.fare ELSE 0 END), 0) as bookedSeniorRevenue,
-        -- CANCELLED REVENUE (REFUNDS)
-        COALESCE(SUM(CASE WHEN p.type = 'NORMAL' AND p.status = 'CANCELLED' THEN p.fare ELSE 0 END), 0) as cancelledNormalRevenue,
-        COALESCE(SUM(CASE WHEN p.type = 'CHILD' AND p.status = 'CANCELLED' THEN p.fare ELSE 0 END), 0) as cancelledChildRevenue,
-        COALESCE(SUM(CASE WHEN p.type = 'SENIOR' AND p.status = 'CANCELLED' THEN p.fare ELSE 0 END), 0) as cancelledSeniorRevenue,
-        -- BOOKED TICKETS
-        COUNT(CASE WHEN p.type = 'NORMAL' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN 1 END) as bookedNormalTickets,
-        COUNT(CASE WHEN p.type = 'CHILD' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN 1 END) as bookedChildTickets,
-        COUNT(CASE WHEN p.type = 'SENIOR' AND (p.status = 'BOOKED' OR p.status IS NULL) THEN 1 END) as bookedSeniorTickets,
-        -- CANCELLED TICKETS
-        COUNT(CASE WHEN p.type = 'NORMAL' AND p.status = 'CANCELLED' THEN 1 END) as cancelledNormalTickets,
-        COUNT(CASE WHEN p.type = 'CHILD' AND p.status = 'CANCELLED' THEN 1 END) as cancelledChildTickets,
-        COUNT(CASE WHEN p.type = 'SENIOR' AND p.status = 'CANCELLED' THEN 1 END) as cancelledSeniorTickets
+    const categoryRefundQuery = `
+        SELECT r.passengerType AS type,
+            COALESCE(SUM(r.amount), 0) AS refundedRevenue,
+            COUNT(*) AS cancelledTickets
+        ${refundBaseQuery}
+        GROUP BY r.passengerType
     `;
 
-    const districtQuery = `SELECT b.origin as district, ${pivotedFields} ${baseQuery} GROUP BY b.origin`;
-    const routeQuery = `SELECT CONCAT(b.origin, ' -> ', b.destination) AS route, ${pivotedFields} ${baseQuery} GROUP BY route`;
+    const salesFields = `p.type, COALESCE(SUM(p.fare), 0) AS bookedRevenue, COUNT(*) AS bookedTickets`;
+    const refundFields = `r.passengerType AS type, COALESCE(SUM(r.amount), 0) AS cancelledRevenue, COUNT(*) AS cancelledTickets`;
+    const emptyTypeMetrics = { bookedRevenue: 0, bookedTickets: 0, cancelledRevenue: 0, cancelledTickets: 0 };
+
+    // Sales and refunds are aggregated separately; stitch them together on the grouping key.
+    const mergeByKey = (key, salesRows, refundRows, emptyRow) => {
+      const merged = {};
+      for (const row of [...salesRows, ...refundRows]) {
+        const entry = merged[row[key]] || (merged[row[key]] = { ...emptyRow, [key]: row[key] });
+        Object.keys(row).forEach(field => {
+          if (field !== key) entry[field] = Number(row[field]);
+        });
+      }
+      return Object.keys(merged).map(k => merged[k]);
+    };
+
+    // District and route rows carry one set of metrics per ticket type, for however many concession categories exist.
+    const mergeByKeyAndType = (key, salesRows, refundRows) => {
+      const merged = {};
+      for (const row of [...salesRows, ...refundRows]) {
+        const entry = merged[row[key]] || (merged[row[key]] = { [key]: row[key], byType: {} });
+        const type = row.type || 'NORMAL';
+        const metrics = entry.byType[type] || (entry.byType[type] = { ...emptyTypeMetrics });
+        Object.keys(row).forEach(field => {
+          if (field !== key && field !== 'type') metrics[field] += Number(row[field]);
+        });
+      }
+      return Object.keys(merged).map(k => merged[k]);
+    };
+
+    const districtQuery = `SELECT b.origin as district, ${salesFields} ${baseQuery} GROUP BY b.origin, p.type`;
+    const districtRefundQuery = `SELECT b.origin as district, ${refundFields} ${refundBaseQuery} GROUP BY b.origin, r.passengerType`;
+    const routeQuery = `SELECT CONCAT(b.origin, ' -> ', b.destination) AS route, ${salesFields} ${baseQuery} GROUP BY route, p.type`;
+    const routeRefundQuery = `SELECT CONCAT(b.origin, ' -> ', b.destination) AS route, ${refundFields} ${refundBaseQuery} GROUP BY route, r.passengerType`;
+
+    const [categorySalesRows] = await dbPool.query(categoryQuery, queryParams);
+    const [categoryRefundRows] = await dbPool.query(categoryRefundQuery, queryParams);
+    const [districtSalesRows] = await dbPool.query(districtQuery, queryParams);
+    const [districtRefundRows] = await dbPool.query(districtRefundQuery, queryParams);
+    const [routeSalesRows] = await dbPool.query(routeQuery, queryParams);
+    const [routeRefundRows] = await dbPool.query(routeRefundQuery, queryParams);
 
-    const [categoryRows] = await dbPool.query(categoryQuery, queryParams);
-    const [districtRows] = await dbPool.query(districtQuery, queryParams);
-    const [routeRows] = await dbPool.query(routeQuery, queryParams);
+    const categoryRows = mergeByKey('type', categorySalesRows, categoryRefundRows, { grossRevenue: 0, refundedRevenue: 0, bookedTickets: 0, cancelledTickets: 0 });
+    const districtRows = mergeByKeyAndType('district', districtSalesRows, districtRefundRows);
+    const routeRows = mergeByKeyAndType('route', routeSalesRows, routeRefundRows);
 
-    const byCategory = categoryRows.map(r => ({ ...r, grossRevenue: Number(r.grossRevenue), refundedRevenue: Number(r.refundedRevenue), netRevenue: (Number(r.grossRevenue) - Number(r.refundedRevenue)) }));
+    const byCategory = categoryRows.map(r => ({ ...r, netRevenue: r.grossRevenue - r.refundedRevenue }));
 
     const summary = byCategory.reduce((acc, curr) => ({
-      grossRevenue: acc.grossRevenue + Number(curr.grossRevenue),
-      refundedRevenue: acc.refundedRevenue + Number(curr.refundedRevenue),
-      bookedTickets: acc.bookedTickets + Number(curr.bookedTickets),
-      cancelledTickets: acc.cancelledTickets + Number(curr.cancelledTickets),
-      netRevenue: acc.netRevenue + Number(curr.netRevenue),
+      grossRevenue: acc.grossRevenue + curr.grossRevenue,
+      refundedRevenue: acc.refundedRevenue + curr.refundedRevenue,
+      bookedTickets: acc.bookedTickets + curr.bookedTickets,
+      cancelledTickets: acc.cancelledTickets + curr.cancelledTickets,
+      netRevenue: acc.netRevenue + curr.netRevenue,
     }), { netRevenue: 0, grossRevenue: 0, refundedRevenue: 0, bookedTickets: 0, cancelledTickets: 0 });
 
     res.json({ summary, byCategory, byDistrict: districtRows, byRoute: routeRows });
@@ -1733,14 +4866,132 @@ apiRouter.get('/analytics/revenue', requireSubAdminOrAdmin, async (req, res) =>
 app.use('/api', apiRouter);
 
 // --- Server Startup ---
-app.listen(port, async () => {
+// The schema is brought up to date before the first request is accepted; the server does not
+// start against an old one.
+const startServer = async () => {
   try {
     const connection = await dbPool.getConnection();
     console.log('Successfully connected to the database.');
     connection.release();
-    console.log(`Backend server running on http://localhost:${port}`);
+    await runMigrations(dbPool);
+
+    const purgeExpired = () => Promise.all([
+      sessions.purgeExpiredSessions(dbPool),
+      otp.purgeExpiredOtps(dbPool),
+      captcha.purgeExpiredCaptchas(dbPool),
+      waitlist.expireStaleEntries(dbPool, toDateString(new Date())),
+    ]).catch(err => console.error('Failed to purge expired sessions, OTPs, CAPTCHAs and waitlist entries:', err));
+    await purgeExpired();
+    setInterval(purgeExpired, 60 * 60 * 1000); // Hourly
+
+    // Seat holds are short-lived, and open seat maps need to hear promptly when one lapses.
+    const releaseExpiredHolds = async () => {
+      try {
+        const expiredHolds = await seatHolds.releaseExpiredHolds(dbPool);
+        const holdsByJourney = expiredHolds.reduce((acc, hold) => {
+          const key = `${hold.scheduleId}|${toDateString(new Date(hold.journeyDate))}`;
+          (acc[key] = acc[key] || []).push(hold);
+          return acc;
+        }, {});
+        for (const [key, holds] of Object.entries(holdsByJourney)) {
+          const [scheduleId, journeyDate] = key.split('|');
+          publishSeatEvent(scheduleId, journeyDate, 'released', holds);
+        }
+      } catch (err) {
+        console.error('Failed to release expired seat holds:', err);
+      }
+    };
+    setInterval(releaseExpiredHolds, 15 * 1000);
+
+    const expireUnpaidBookings = async () => {
+      try {
+        await payments.failTimedOutPayments(dbPool);
+        await bookingChanges.expireUnpaidChanges(dbPool);
+        const bookingIds = await payments.findExpiredUnpaidBookingIds(dbPool);
+        for (const bookingId of bookingIds) {
+          const connection = await dbPool.getConnection();
+          try {
+            await connection.beginTransaction();
+            const released = await payments.releaseUnpaidBooking(connection, bookingId, 'EXPIRED');
+            await connection.commit();
+            if (released) {
+              publishReleasedBookingSeats(released);
+              await promoteWaitlist(released.scheduleId, toDateString(new Date(released.journeyDate)));
+            }
+          } catch (err) {
+            await connection.rollback();
+            throw err;
+          } finally {
+            connection.release();
+          }
+        }
+      } catch (err) {
+        console.error('Failed to expire unpaid bookings:', err);
+      }
+    };
+    setInterval(expireUnpaidBookings, 30 * 1000);
+
+    // Refunds bookings on cancelled trips whose passengers neither moved bus nor asked for a refund in time.
+    const refundLapsedOffers = async () => {
+      try {
+        const bookingIds = await tripDisruptions.findLapsedOfferBookingIds(dbPool);
+        for (const bookingId of bookingIds) {
+          const connection = await dbPool.getConnection();
+          let textMessages = [];
+          try {
+            await connection.beginTransaction();
+            const [[booking]] = await connection.query('SELECT * FROM bookings WHERE id = ? FOR UPDATE', [bookingId]);
+            const offer = await tripDisruptions.getOpenOffer(connection, bookingId);
+            if (offer && booking.tripId === offer.tripId && ['CONFIRMED', 'PARTIALLY_CANCELLED'].includes(booking.status)) {
+              const { refundAmount } = await refundCancelledTripBooking(connection, booking, {
+                reason: 'Trip cancelled by operator; no other bus was chosen',
+                initiatedBy: 'SYSTEM',
+              });
+              await tripDisruptions.settleOffer(connection, offer.id, { status: 'REFUNDED', resolution: 'OFFER_LAPSED', refundAmount });
+              textMessages = await notifications.createNotifications(connection, [{
+                userId: booking.userId,
+                bookingId,
+                title: 'Booking refunded',
+                message: refundAmount > 0
+                  ? `No other bus was chosen for your cancelled trip from ${booking.origin} to ${booking.destination}, so your ticket has been cancelled and ₹${refundAmount.toFixed(2)} will be refunded.`
+                  : `No other bus was chosen for your cancelled trip from ${booking.origin} to ${booking.destination}, so your ticket has been cancelled.`,
+              }]);
+            } else if (offer) {
+              // The booking was cancelled or changed some other way in the meantime.
+              await tripDisruptions.settleOffer(connection, offer.id, { status: 'CLOSED', resolution: 'BOOKING_CHANGED' });
+            }
+            await connection.commit();
+          } catch (err) {
+            await connection.rollback();
+            throw err;
+          } finally {
+            connection.release();
+          }
+          await notifications.sendTextMessages(otpProvider, textMessages);
+        }
+      } catch (err) {
+        console.error('Failed to refund lapsed rebooking offers:', err);
+      }
+    };
+    setInterval(refundLapsedOffers, 60 * 1000);
+
+    // Keeps a trip generated for every day each schedule runs in the booking window.
+    const generateTrips = () => generateUpcomingTrips(dbPool)
+      .catch(err => console.error('Failed to generate upcoming trips:', err));
+    await generateTrips();
+    setInterval(generateTrips, 60 * 60 * 1000); // Hourly
+
+    const payOutRefunds = () => refunds.processPendingRefunds(dbPool, paymentGateway)
+      .catch(err => console.error('Failed to pay out pending refunds:', err));
+    setInterval(payOutRefunds, 60 * 1000);
   } catch (error) {
-    console.error('Failed to connect to the database on startup:', error.message);
+    console.error('Failed to prepare the database on startup:', error.message);
     process.exit(1);
   }
-});
\ No newline at end of file
+
+  app.listen(port, () => {
+    console.log(`Backend server running on http://localhost:${port}`);
+  });
+};
+
+startServer();
\ No newline at end of file
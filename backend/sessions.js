@@ -0,0 +1,106 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Tokens are opaque random strings. Only their SHA-256 hashes are stored, so a leaked
+ * sessions table cannot be replayed against the API.
+ */
+const generateToken = () => crypto.randomBytes(32).toString('hex');
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const issueTokenPair = () => {
+    const now = Date.now();
+    return {
+        token: generateToken(),
+        refreshToken: generateToken(),
+        expiresAt: new Date(now + ACCESS_TOKEN_TTL_MS),
+        refreshExpiresAt: new Date(now + REFRESH_TOKEN_TTL_MS),
+    };
+};
+
+const toClientSession = (pair) => ({
+    token: pair.token,
+    refreshToken: pair.refreshToken,
+    expiresAt: pair.expiresAt.toISOString(),
+    refreshExpiresAt: pair.refreshExpiresAt.toISOString(),
+});
+
+/**
+ * Starts a new session for a user.
+ * @returns {Promise<{token: string, refreshToken: string, expiresAt: string, refreshExpiresAt: string}>}
+ */
+const createSession = async (connection, userId) => {
+    const pair = issueTokenPair();
+    await connection.query(
+        `INSERT INTO sessions (id, userId, accessTokenHash, refreshTokenHash, accessExpiresAt, refreshExpiresAt)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), userId, hashToken(pair.token), hashToken(pair.refreshToken), pair.expiresAt, pair.refreshExpiresAt]
+    );
+    return toClientSession(pair);
+};
+
+/**
+ * Looks up the live session an access token belongs to.
+ * @returns {Promise<{id: string, userId: string}|null>} The session, or null if unknown, expired or revoked.
+ */
+const findSessionByAccessToken = async (connection, token) => {
+    const [rows] = await connection.query(
+        'SELECT id, userId FROM sessions WHERE accessTokenHash = ? AND revokedAt IS NULL AND accessExpiresAt > ?',
+        [hashToken(token), new Date()]
+    );
+    return rows[0] || null;
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. Both tokens are rotated, so a refresh
+ * token can only be used once.
+ * @returns {Promise<{userId: string, session: object}|null>} The new session, or null if the refresh token is not valid.
+ */
+const refreshSession = async (connection, refreshToken) => {
+    const [rows] = await connection.query(
+        'SELECT id, userId FROM sessions WHERE refreshTokenHash = ? AND revokedAt IS NULL AND refreshExpiresAt > ?',
+        [hashToken(refreshToken), new Date()]
+    );
+    const existing = rows[0];
+    if (!existing) return null;
+
+    const pair = issueTokenPair();
+    const [result] = await connection.query(
+        `UPDATE sessions SET accessTokenHash = ?, refreshTokenHash = ?, accessExpiresAt = ?, refreshExpiresAt = ?
+         WHERE id = ? AND refreshTokenHash = ?`,
+        [hashToken(pair.token), hashToken(pair.refreshToken), pair.expiresAt, pair.refreshExpiresAt, existing.id, hashToken(refreshToken)]
+    );
+    if (result.affectedRows === 0) return null; // Lost a race with a concurrent refresh.
+
+    return { userId: existing.userId, session: toClientSession(pair) };
+};
+
+const revokeSession = async (connection, sessionId) => {
+    await connection.query('UPDATE sessions SET revokedAt = ? WHERE id = ? AND revokedAt IS NULL', [new Date(), sessionId]);
+};
+
+/**
+ * Revokes every live session of a user, optionally keeping one (e.g. the caller's own).
+ */
+const revokeUserSessions = async (connection, userId, exceptSessionId = null) => {
+    await connection.query(
+        'UPDATE sessions SET revokedAt = ? WHERE userId = ? AND revokedAt IS NULL AND id <> ?',
+        [new Date(), userId, exceptSessionId || '']
+    );
+};
+
+const purgeExpiredSessions = async (connection) => {
+    await connection.query('DELETE FROM sessions WHERE refreshExpiresAt < ? OR revokedAt IS NOT NULL', [new Date()]);
+};
+
+module.exports = {
+    createSession,
+    findSessionByAccessToken,
+    refreshSession,
+    revokeSession,
+    revokeUserSessions,
+    purgeExpiredSessions,
+};
@@ -0,0 +1,144 @@
+const crypto = require('crypto');
+const { jsPDF } = require('jspdf');
+const QRCode = require('qrcode');
+
+/**
+ * Official e-tickets. The ticket PDF is rendered here and carries a QR code holding a token
+ * signed with the server's ticket key over the booking, its seats, segment and journey date,
+ * so a ticket cannot be forged or edited without the signature failing to verify.
+ * Tokens look like `GBT1.<payload>.<signature>`, both parts base64url-encoded.
+ */
+
+const TOKEN_VERSION = 'GBT1'; // Changes whenever the signed fields do
+const TICKETED_STATUSES = ['CONFIRMED', 'PARTIALLY_CANCELLED'];
+
+const toSignedFields = (ticket) => ({
+    b: ticket.bookingId,
+    s: ticket.scheduleId,
+    j: ticket.journeyDate,
+    o: ticket.origin,
+    d: ticket.destination,
+    seats: [...ticket.seatIds].sort(),
+});
+
+/**
+ * @param {string} secret - The ticket signing key. Tickets signed with one key only verify with the same key.
+ * @returns {{signTicket: (ticket: object) => string, verifyTicket: (token: string) => object|null}}
+ */
+const createTicketSigner = (secret) => {
+    const sign = (data) => crypto.createHmac('sha256', secret).update(data).digest();
+
+    return {
+        signTicket: (ticket) => {
+            const signed = `${TOKEN_VERSION}.${Buffer.from(JSON.stringify(toSignedFields(ticket))).toString('base64url')}`;
+            return `${signed}.${sign(signed).toString('base64url')}`;
+        },
+        /**
+         * @returns {{bookingId: string, scheduleId: string, journeyDate: string, origin: string,
+         *   destination: string, seatIds: Array<string>}|null} What the ticket says, or null if it was not signed by us.
+         */
+        verifyTicket: (token) => {
+            const parts = typeof token === 'string' ? token.trim().split('.') : [];
+            if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) return null;
+            const expected = sign(`${parts[0]}.${parts[1]}`);
+            const given = Buffer.from(parts[2], 'base64url');
+            if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+                return null;
+            }
+            try {
+                const fields = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+                return {
+                    bookingId: fields.b,
+                    scheduleId: fields.s,
+                    journeyDate: fields.j,
+                    origin: fields.o,
+                    destination: fields.d,
+                    seatIds: fields.seats,
+                };
+            } catch (error) {
+                return null;
+            }
+        },
+    };
+};
+
+const formatDate = (dateString) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-IN', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+const formatMoney = (amount) => `INR ${Number(amount).toFixed(2)}`;
+
+/**
+ * Renders the ticket PDF. The built-in PDF fonts have no rupee sign, so amounts are shown in INR.
+ * @param {{bookingId: string, passengerName: string, busName: string, scheduleId: string, origin: string,
+ *   destination: string, journeyDate: string, bookingDate: Date, departureTime: string|null, arrivalTime: string|null,
+ *   seatIds: Array<string>, passengers: Array<{seatId: string, fullName: string, typeLabel: string, proofSuffix?: string}>,
+ *   summary: Array<{label: string, count: number, fare: number}>, totalFare: number, isFreeTicket: boolean}} ticket
+ * @param {string} token - The signed token to put in the QR code.
+ * @returns {Promise<Buffer>}
+ */
+const renderTicketPdf = async (ticket, token) => {
+    const doc = new jsPDF();
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text('Government Bus - E-Ticket', 20, 20);
+
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Passenger: ${ticket.passengerName}`, 20, 35);
+    doc.text(`Route: ${ticket.origin} to ${ticket.destination}`, 20, 45);
+    doc.text(`Bus: ${ticket.busName} (${ticket.scheduleId})`, 20, 55);
+    doc.text(`Journey Date: ${formatDate(ticket.journeyDate)}`, 20, 65);
+    doc.text(`Departure from ${ticket.origin}: ${ticket.departureTime || 'N/A'}`, 20, 75);
+    doc.text(`Arrival at ${ticket.destination}: ${ticket.arrivalTime || 'N/A'}`, 20, 82);
+    doc.text(`Seats: ${ticket.seatIds.join(', ')}`, 20, 92);
+
+    const qrCodeDataURL = await QRCode.toDataURL(token, { errorCorrectionLevel: 'M' });
+    doc.addImage(qrCodeDataURL, 'PNG', 140, 30, 50, 50);
+    doc.setFontSize(8);
+    doc.text('Scan for Verification', 147, 85);
+    doc.setFontSize(11);
+
+    let yPos = 105;
+    doc.setFont('helvetica', 'bold');
+    doc.text('Ticket Summary:', 20, yPos);
+    yPos += 7;
+    doc.setFont('helvetica', 'normal');
+    ticket.summary.forEach(entry => {
+        doc.text(`- ${entry.label} Tickets: ${entry.count} x ${formatMoney(entry.fare / entry.count)} = ${formatMoney(entry.fare)}`, 25, yPos);
+        yPos += 7;
+    });
+
+    if (ticket.passengers.length > 0) {
+        yPos += 5;
+        doc.setFont('helvetica', 'bold');
+        doc.text('Passenger Details:', 20, yPos);
+        yPos += 7;
+        doc.setFont('helvetica', 'normal');
+        ticket.passengers.forEach(passenger => {
+            let detailText = `- Seat ${passenger.seatId} (${passenger.typeLabel}): ${passenger.fullName}`;
+            if (passenger.proofSuffix) detailText += `, Proof: ...${passenger.proofSuffix}`;
+            doc.text(detailText, 25, yPos);
+            yPos += 7;
+            if (yPos > 270) { doc.addPage(); yPos = 20; }
+        });
+    }
+
+    yPos += 5;
+    doc.setFont('helvetica', 'bold');
+    doc.text(ticket.isFreeTicket ? 'Total Fare: FREE (Govt. Special Announcement)' : `Total Fare: ${formatMoney(ticket.totalFare)}`, 20, yPos);
+    yPos += 10;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.text(`Booking ${ticket.bookingId}, booked ${ticket.bookingDate.toLocaleString('en-IN')}. Tickets without a valid QR code are not accepted.`, 20, yPos);
+
+    return Buffer.from(doc.output('arraybuffer'));
+};
+
+module.exports = {
+    TICKETED_STATUSES,
+    createTicketSigner,
+    renderTicketPdf,
+};
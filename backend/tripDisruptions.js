@@ -0,0 +1,207 @@
+/**
+ * Trip disruptions: what became of each booking on a trip the operator cancelled. A booking is
+ * either refunded straight away or offered seats on other buses for the same segment. An offer
+ * stays open until the passenger picks a bus or a refund, or until it lapses and is refunded.
+ */
+
+const REBOOKING_WINDOW_MS = 12 * 60 * 60 * 1000; // Passengers have up to 12 hours to take up an offer
+const MAX_ALTERNATIVES = 5;
+const MAX_REASON_LENGTH = 255;
+
+const parseJson = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+const toDisruption = (row) => ({
+    id: String(row.id),
+    tripId: row.tripId,
+    bookingId: row.bookingId,
+    userId: row.userId,
+    passengers: parseJson(row.passengers) || [],
+    status: row.status,
+    resolution: row.resolution,
+    alternatives: parseJson(row.alternatives) || [],
+    offerExpiresAt: row.offerExpiresAt,
+    rebookedScheduleId: row.rebookedScheduleId,
+    rebookedJourneyDate: row.rebookedJourneyDate,
+    rebookedSeatIds: parseJson(row.rebookedSeatIds) || {},
+    refundAmount: row.refundAmount === null ? null : Number(row.refundAmount),
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+});
+
+const DISRUPTION_COLUMNS = `d.*, DATE_FORMAT(d.rebookedJourneyDate, '%Y-%m-%d') AS rebookedJourneyDate`;
+
+/**
+ * Checks the reason given for cancelling a trip.
+ * @returns {string|null} What is wrong with it, or null if it is valid.
+ */
+const validateReason = (reason) => {
+    if (typeof reason !== 'string' || reason.trim() === '') {
+        return 'A reason for cancelling the trip is required.';
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+        return `The reason can be at most ${MAX_REASON_LENGTH} characters.`;
+    }
+    return null;
+};
+
+/**
+ * When an offer of other buses runs out: after the rebooking window, or once the last bus
+ * offered has left, whichever is sooner.
+ * @param {Array<{departure: string}>} alternatives
+ */
+const getOfferDeadline = (alternatives) => {
+    const lastDeparture = Math.max(...alternatives.map(alternative => new Date(alternative.departure).getTime()));
+    return new Date(Math.min(Date.now() + REBOOKING_WINDOW_MS, lastDeparture));
+};
+
+/**
+ * Records what happened to a booking on a cancelled trip. Run inside the cancelling transaction.
+ * @param {{tripId: string, booking: object, passengers: Array<object>, status: 'OFFERED'|'REFUNDED',
+ *   resolution?: string|null, alternatives?: Array<object>, offerExpiresAt?: Date|null, refundAmount?: number|null}} disruption
+ */
+const recordDisruption = async (connection, disruption) => {
+    const now = new Date();
+    await connection.query(
+        `INSERT INTO trip_disruptions
+            (tripId, bookingId, userId, passengers, status, resolution, alternatives, offerExpiresAt, refundAmount, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            disruption.tripId, disruption.booking.id, disruption.booking.userId, JSON.stringify(disruption.passengers),
+            disruption.status, disruption.resolution || null,
+            disruption.alternatives ? JSON.stringify(disruption.alternatives) : null,
+            disruption.offerExpiresAt || null,
+            disruption.refundAmount ?? null, now, now,
+        ]
+    );
+};
+
+/**
+ * @returns {Promise<object|null>} The booking's open rebooking offer, locked for update.
+ */
+const getOpenOffer = async (connection, bookingId) => {
+    const [[row]] = await connection.query(
+        `SELECT ${DISRUPTION_COLUMNS} FROM trip_disruptions d WHERE d.bookingId = ? AND d.status = 'OFFERED' FOR UPDATE`,
+        [bookingId]
+    );
+    return row ? toDisruption(row) : null;
+};
+
+/**
+ * @returns {Promise<Array<string>>} The ids of bookings whose rebooking offer has lapsed.
+ */
+const findLapsedOfferBookingIds = async (connection) => {
+    const [rows] = await connection.query(
+        "SELECT bookingId FROM trip_disruptions WHERE status = 'OFFERED' AND offerExpiresAt <= ?",
+        [new Date()]
+    );
+    return rows.map(row => row.bookingId);
+};
+
+/**
+ * Closes an open offer.
+ * @param {{status: 'REBOOKED'|'REFUNDED'|'CLOSED', resolution: string, rebookedScheduleId?: string,
+ *   rebookedJourneyDate?: string, rebookedSeatIds?: Object<string, string>, refundAmount?: number}} outcome -
+ *   `rebookedSeatIds` maps each passenger's seat on the cancelled trip to their new one.
+ */
+const settleOffer = async (connection, disruptionId, outcome) => {
+    await connection.query(
+        `UPDATE trip_disruptions
+         SET status = ?, resolution = ?, rebookedScheduleId = ?, rebookedJourneyDate = ?, rebookedSeatIds = ?, refundAmount = ?, updatedAt = ?
+         WHERE id = ?`,
+        [
+            outcome.status, outcome.resolution, outcome.rebookedScheduleId || null, outcome.rebookedJourneyDate || null,
+            outcome.rebookedSeatIds ? JSON.stringify(outcome.rebookedSeatIds) : null,
+            outcome.refundAmount ?? null, new Date(), disruptionId,
+        ]
+    );
+};
+
+/**
+ * @returns {Promise<boolean>} Whether passengers of the trip have been refunded or offered other buses.
+ */
+const hasDisruptions = async (connection, tripId) => {
+    const [[row]] = await connection.query('SELECT COUNT(*) AS count FROM trip_disruptions WHERE tripId = ?', [tripId]);
+    return Number(row.count) > 0;
+};
+
+/**
+ * @returns {Promise<Object<string, object>>} The latest disruption of each booking, keyed by booking id,
+ *   with the reason its trip was cancelled.
+ */
+const listDisruptionsForBookings = async (connection, bookingIds) => {
+    if (bookingIds.length === 0) return {};
+    const [rows] = await connection.query(
+        `SELECT ${DISRUPTION_COLUMNS}, t.cancellationReason
+         FROM trip_disruptions d
+         JOIN trips t ON t.id = d.tripId
+         WHERE d.bookingId IN (?)
+         ORDER BY d.createdAt, d.id`,
+        [bookingIds]
+    );
+    return rows.reduce((acc, row) => {
+        const { userId, passengers, ...disruption } = toDisruption(row);
+        acc[row.bookingId] = { ...disruption, reason: row.cancellationReason };
+        return acc;
+    }, {});
+};
+
+/**
+ * What happened to every passenger of a cancelled trip, one line per passenger, with totals.
+ */
+const getReport = async (connection, tripId) => {
+    const [rows] = await connection.query(
+        `SELECT ${DISRUPTION_COLUMNS}, u.fullName AS userName, u.phone AS userPhone, b.origin, b.destination, b.isFreeTicket
+         FROM trip_disruptions d
+         JOIN bookings b ON b.id = d.bookingId
+         LEFT JOIN users u ON u.id = d.userId
+         WHERE d.tripId = ?
+         ORDER BY d.createdAt, d.id`,
+        [tripId]
+    );
+
+    const passengers = rows.flatMap(row => {
+        const disruption = toDisruption(row);
+        return disruption.passengers.map(passenger => ({
+            bookingId: disruption.bookingId,
+            userName: row.userName,
+            userPhone: row.userPhone,
+            origin: row.origin,
+            destination: row.destination,
+            seatId: passenger.seatId,
+            fullName: passenger.fullName,
+            fare: Number(passenger.fare) || 0,
+            status: disruption.status,
+            resolution: disruption.resolution,
+            offerExpiresAt: disruption.offerExpiresAt,
+            rebookedScheduleId: disruption.rebookedScheduleId,
+            rebookedJourneyDate: disruption.rebookedJourneyDate,
+            rebookedSeatId: disruption.rebookedSeatIds[passenger.seatId] || null,
+            refundAmount: disruption.status === 'REFUNDED' && !row.isFreeTicket ? Number(passenger.fare) || 0 : 0,
+        }));
+    });
+    const count = (status) => passengers.filter(passenger => passenger.status === status).length;
+    return {
+        passengers,
+        summary: {
+            bookings: rows.length,
+            passengers: passengers.length,
+            offered: count('OFFERED'),
+            rebooked: count('REBOOKED'),
+            refunded: count('REFUNDED'),
+            refundTotal: Math.round(passengers.reduce((sum, passenger) => sum + passenger.refundAmount, 0) * 100) / 100,
+        },
+    };
+};
+
+module.exports = {
+    MAX_ALTERNATIVES,
+    validateReason,
+    getOfferDeadline,
+    recordDisruption,
+    getOpenOffer,
+    findLapsedOfferBookingIds,
+    settleOffer,
+    hasDisruptions,
+    listDisruptionsForBookings,
+    getReport,
+};
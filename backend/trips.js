@@ -0,0 +1,201 @@
+const { v4: uuidv4 } = require('uuid');
+
+/**
+ * Trips. A schedule is the timetable; a trip is the schedule running on one journey date.
+ * Trips are generated ahead over the booking window on the dates each schedule's operating
+ * calendar runs, so each one can be cancelled, delayed or run with a different bus without
+ * touching the timetable. Bookings reference the trip they travel on.
+ */
+
+const TRIP_STATUSES = ['SCHEDULED', 'CANCELLED'];
+const MAX_DELAY_MINUTES = 720;
+const MAX_TEXT_LENGTH = 255;
+const GENERATE_BATCH_SIZE = 500;
+
+const toClientTrip = (row) => ({
+    id: row.id,
+    scheduleId: row.scheduleId,
+    journeyDate: row.journeyDate,
+    status: row.status,
+    delayMinutes: Number(row.delayMinutes),
+    busName: row.busName || null,
+    vehicleId: row.vehicleId || null,
+    note: row.note || null,
+    cancellationReason: row.cancellationReason || null,
+});
+
+const TRIP_COLUMNS = "t.id, t.scheduleId, DATE_FORMAT(t.journeyDate, '%Y-%m-%d') AS journeyDate, t.status, t.delayMinutes, t.busName, t.vehicleId, t.note, t.cancellationReason";
+
+/**
+ * Brings the trips between two journey dates (inclusive) in line with the operating calendars.
+ * Every run gets a trip; existing trips are left alone. Trips on dates a schedule no longer runs
+ * are removed unless someone has booked them, so those passengers keep a trip to be cancelled.
+ * @param {Array<[string, string]>} runs - The [scheduleId, journeyDate] pairs that should run.
+ */
+const generateTrips = async (connection, runs, fromDate, toDate) => {
+    const now = new Date();
+    for (let start = 0; start < runs.length; start += GENERATE_BATCH_SIZE) {
+        const rows = runs.slice(start, start + GENERATE_BATCH_SIZE)
+            .map(([scheduleId, journeyDate]) => [uuidv4(), scheduleId, journeyDate, 'SCHEDULED', 0, now, now]);
+        await connection.query(
+            'INSERT IGNORE INTO trips (id, scheduleId, journeyDate, status, delayMinutes, createdAt, updatedAt) VALUES ?',
+            [rows]
+        );
+    }
+
+    const [existing] = await connection.query(
+        `SELECT t.id, t.scheduleId, DATE_FORMAT(t.journeyDate, '%Y-%m-%d') AS journeyDate
+         FROM trips t
+         WHERE t.journeyDate BETWEEN ? AND ?
+           AND NOT EXISTS (SELECT 1 FROM bookings b WHERE b.scheduleId = t.scheduleId AND b.journeyDate = t.journeyDate)`,
+        [fromDate, toDate]
+    );
+    const runKeys = new Set(runs.map(([scheduleId, journeyDate]) => `${scheduleId}|${journeyDate}`));
+    const staleIds = existing.filter(trip => !runKeys.has(`${trip.scheduleId}|${trip.journeyDate}`)).map(trip => trip.id);
+    if (staleIds.length > 0) {
+        await connection.query('DELETE FROM trips WHERE id IN (?)', [staleIds]);
+    }
+};
+
+/**
+ * @returns {Promise<object|null>} The schedule's trip on the journey date, or null if none has been generated.
+ */
+const getTrip = async (connection, scheduleId, journeyDate, forUpdate = false) => {
+    const [[row]] = await connection.query(
+        `SELECT ${TRIP_COLUMNS} FROM trips t WHERE t.scheduleId = ? AND t.journeyDate = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+        [scheduleId, journeyDate]
+    );
+    return row ? toClientTrip(row) : null;
+};
+
+/**
+ * The schedule's trip on the journey date, created if the generator has not reached it yet.
+ * Use inside a booking transaction; the trip row stays locked until it ends.
+ */
+const ensureTrip = async (connection, scheduleId, journeyDate) => {
+    const now = new Date();
+    await connection.query(
+        `INSERT IGNORE INTO trips (id, scheduleId, journeyDate, status, delayMinutes, createdAt, updatedAt)
+         VALUES (?, ?, ?, 'SCHEDULED', 0, ?, ?)`,
+        [uuidv4(), scheduleId, journeyDate, now, now]
+    );
+    return getTrip(connection, scheduleId, journeyDate, true);
+};
+
+/**
+ * @returns {Promise<Object<string, object>>} The trips running on a journey date, keyed by schedule id.
+ *   Schedules without a generated trip are missing and run as timetabled.
+ */
+const getTripsOn = async (connection, journeyDate, scheduleIds = null) => {
+    if (scheduleIds && scheduleIds.length === 0) return {};
+    const [rows] = await connection.query(
+        `SELECT ${TRIP_COLUMNS} FROM trips t WHERE t.journeyDate = ?${scheduleIds ? ' AND t.scheduleId IN (?)' : ''}`,
+        scheduleIds ? [journeyDate, scheduleIds] : [journeyDate]
+    );
+    return rows.reduce((acc, row) => {
+        acc[row.scheduleId] = toClientTrip(row);
+        return acc;
+    }, {});
+};
+
+/**
+ * Trips between two journey dates (inclusive), with how many seats are sold, who is conducting and
+ * the registration of the vehicle running it: the trip's own, or else its schedule's.
+ * @param {{fromDate: string, toDate: string, scheduleIds?: Array<string>|null}} range
+ */
+const listTrips = async (connection, { fromDate, toDate, scheduleIds = null }) => {
+    if (scheduleIds && scheduleIds.length === 0) return [];
+    const [rows] = await connection.query(
+        `SELECT ${TRIP_COLUMNS}, ca.conductorId, u.fullName AS conductorName, v.registrationNumber AS vehicleRegistration,
+            (SELECT COUNT(*) FROM bookedseats bs JOIN bookings b ON bs.bookingId = b.id
+             WHERE b.scheduleId = t.scheduleId AND b.journeyDate = t.journeyDate) AS bookedSeats
+         FROM trips t
+         LEFT JOIN schedules s ON s.id = t.scheduleId
+         LEFT JOIN vehicles v ON v.id = COALESCE(t.vehicleId, s.vehicleId)
+         LEFT JOIN conductor_assignments ca ON ca.scheduleId = t.scheduleId AND ca.journeyDate = t.journeyDate
+         LEFT JOIN users u ON u.id = ca.conductorId
+         WHERE t.journeyDate BETWEEN ? AND ?${scheduleIds ? ' AND t.scheduleId IN (?)' : ''}
+         ORDER BY t.journeyDate, t.scheduleId`,
+        scheduleIds ? [fromDate, toDate, scheduleIds] : [fromDate, toDate]
+    );
+    return rows.map(row => ({
+        ...toClientTrip(row),
+        bookedSeats: Number(row.bookedSeats),
+        conductorId: row.conductorId || null,
+        conductorName: row.conductorName || null,
+        vehicleRegistration: row.vehicleRegistration || null,
+    }));
+};
+
+/**
+ * @returns {Promise<object|null>} The trip with the given id.
+ */
+const getTripById = async (connection, tripId, forUpdate = false) => {
+    const [[row]] = await connection.query(
+        `SELECT ${TRIP_COLUMNS} FROM trips t WHERE t.id = ?${forUpdate ? ' FOR UPDATE' : ''}`,
+        [tripId]
+    );
+    return row ? toClientTrip(row) : null;
+};
+
+/**
+ * Checks the changes an admin makes to one trip. Fields left out are not changed.
+ * @param {{status?: string, delayMinutes?: number, busName?: string|null, note?: string|null}} changes
+ * @returns {string|null} What is wrong with them, or null if they are valid.
+ */
+const validateTripUpdate = (changes) => {
+    if (changes.status !== undefined && !TRIP_STATUSES.includes(changes.status)) {
+        return `Status must be one of ${TRIP_STATUSES.join(', ')}.`;
+    }
+    if (changes.delayMinutes !== undefined
+        && (!Number.isInteger(changes.delayMinutes) || changes.delayMinutes < 0 || changes.delayMinutes > MAX_DELAY_MINUTES)) {
+        return `Delay must be a whole number of minutes between 0 and ${MAX_DELAY_MINUTES}.`;
+    }
+    for (const field of ['busName', 'note']) {
+        const value = changes[field];
+        if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > MAX_TEXT_LENGTH)) {
+            return `${field === 'busName' ? 'Bus name' : 'Note'} must be text of at most ${MAX_TEXT_LENGTH} characters.`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Applies validated changes to a trip. An empty bus name or note clears it.
+ */
+const updateTrip = async (connection, tripId, changes) => {
+    const fields = {};
+    if (changes.status !== undefined) fields.status = changes.status;
+    if (changes.delayMinutes !== undefined) fields.delayMinutes = changes.delayMinutes;
+    if (changes.busName !== undefined) fields.busName = changes.busName?.trim() || null;
+    if (changes.note !== undefined) fields.note = changes.note?.trim() || null;
+    if (changes.status === 'SCHEDULED') {
+        Object.assign(fields, { cancellationReason: null, cancelledAt: null, cancelledBy: null });
+    }
+    fields.updatedAt = new Date();
+    await connection.query('UPDATE trips SET ? WHERE id = ?', [fields, tripId]);
+};
+
+/**
+ * Marks a trip cancelled, recording why and by whom. Its passengers are settled separately.
+ */
+const cancelTrip = async (connection, tripId, reason, userId) => {
+    const now = new Date();
+    await connection.query(
+        "UPDATE trips SET status = 'CANCELLED', cancellationReason = ?, cancelledAt = ?, cancelledBy = ?, updatedAt = ? WHERE id = ?",
+        [reason.trim(), now, userId, now, tripId]
+    );
+};
+
+module.exports = {
+    TRIP_STATUSES,
+    generateTrips,
+    getTrip,
+    getTripById,
+    ensureTrip,
+    getTripsOn,
+    listTrips,
+    validateTripUpdate,
+    updateTrip,
+    cancelTrip,
+};
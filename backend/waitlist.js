@@ -0,0 +1,143 @@
+const { v4: uuidv4 } = require('uuid');
+
+const OFFER_WINDOW_MS = 30 * 60 * 1000; // A promoted passenger has 30 minutes to pay for the offered seats
+const MAX_WAITLIST_PASSENGERS = 5; // matches the paid booking seat limit
+
+const getOfferDeadline = () => new Date(Date.now() + OFFER_WINDOW_MS);
+
+const parsePassengers = (value) => (typeof value === 'string' ? JSON.parse(value) : value) || [];
+
+/**
+ * What the passenger sees of an entry. An offered entry follows its booking: paid means
+ * confirmed, and a lapsed or declined offer means the entry expired.
+ */
+const toClientEntry = (row) => {
+    let status = row.status;
+    if (row.status === 'OFFERED' && row.bookingStatus && row.bookingStatus !== 'PENDING_PAYMENT') {
+        status = ['EXPIRED', 'CANCELLED'].includes(row.bookingStatus) && !row.wasPaid ? 'EXPIRED' : 'CONFIRMED';
+    }
+    return {
+        id: row.id,
+        scheduleId: row.scheduleId,
+        journeyDate: row.journeyDate,
+        origin: row.origin,
+        destination: row.destination,
+        passengerCount: parsePassengers(row.passengers).length,
+        status,
+        position: row.status === 'WAITING' ? Number(row.ahead) + 1 : null,
+        bookingId: row.bookingId,
+        offerExpiresAt: status === 'OFFERED' ? row.paymentExpiresAt : null,
+        createdAt: row.createdAt,
+    };
+};
+
+/**
+ * Puts a passenger in the queue for a segment. The caller checks the segment is sold out.
+ * @param {{userId: string, scheduleId: string, journeyDate: string, origin: string, destination: string,
+ *   passengers: Array<{fullName: string, type: string, dob?: string, aadhaarNumber?: string, proofNumber?: string}>}} request
+ * @returns {Promise<{error?: {status: number, message: string}, entryId?: string}>}
+ */
+const joinWaitlist = async (connection, request) => {
+    if (request.passengers.length > MAX_WAITLIST_PASSENGERS) {
+        return { error: { status: 400, message: `You can wait for a maximum of ${MAX_WAITLIST_PASSENGERS} seats at a time.` } };
+    }
+    const [[existing]] = await connection.query(
+        "SELECT id FROM waitlist_entries WHERE userId = ? AND scheduleId = ? AND journeyDate = ? AND status = 'WAITING' FOR UPDATE",
+        [request.userId, request.scheduleId, request.journeyDate]
+    );
+    if (existing) {
+        return { error: { status: 409, message: 'You are already on the waitlist for this bus on this date.' } };
+    }
+
+    const entryId = uuidv4();
+    const now = new Date();
+    await connection.query(
+        `INSERT INTO waitlist_entries (id, userId, scheduleId, journeyDate, origin, destination, passengers, status, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'WAITING', ?, ?)`,
+        [entryId, request.userId, request.scheduleId, request.journeyDate, request.origin, request.destination,
+            JSON.stringify(request.passengers), now, now]
+    );
+    return { entryId };
+};
+
+/**
+ * Lists the entries still waiting on a schedule for a journey date, first come first served.
+ * Run inside a transaction; the rows are locked so two promotions cannot offer the same entry.
+ */
+const findWaitingEntries = async (connection, scheduleId, journeyDate) => {
+    const [rows] = await connection.query(
+        `SELECT * FROM waitlist_entries
+         WHERE scheduleId = ? AND journeyDate = ? AND status = 'WAITING'
+         ORDER BY createdAt, id
+         FOR UPDATE`,
+        [scheduleId, journeyDate]
+    );
+    return rows.map(row => ({ ...row, passengers: parsePassengers(row.passengers) }));
+};
+
+const markOffered = async (connection, entryId, bookingId) => {
+    await connection.query(
+        "UPDATE waitlist_entries SET status = 'OFFERED', bookingId = ?, updatedAt = ? WHERE id = ?",
+        [bookingId, new Date(), entryId]
+    );
+};
+
+/**
+ * Takes a passenger off the waitlist. Entries that were already offered seats are settled
+ * through their booking instead.
+ * @returns {Promise<{error?: {status: number, message: string}}>}
+ */
+const leaveWaitlist = async (connection, entryId, userId) => {
+    const [[entry]] = await connection.query('SELECT userId, status FROM waitlist_entries WHERE id = ? FOR UPDATE', [entryId]);
+    if (!entry || entry.userId !== userId) {
+        return { error: { status: 404, message: 'Waitlist entry not found.' } };
+    }
+    if (entry.status !== 'WAITING') {
+        return { error: { status: 409, message: 'This waitlist entry is no longer waiting for seats.' } };
+    }
+    await connection.query("UPDATE waitlist_entries SET status = 'CANCELLED', updatedAt = ? WHERE id = ?", [new Date(), entryId]);
+    return {};
+};
+
+/**
+ * Lists a passenger's waitlist entries, newest journey first, with their place in each queue.
+ */
+const listUserEntries = async (connection, userId) => {
+    const [rows] = await connection.query(
+        `SELECT w.id, w.scheduleId, DATE_FORMAT(w.journeyDate, '%Y-%m-%d') AS journeyDate, w.origin, w.destination,
+                w.passengers, w.status, w.bookingId, w.createdAt,
+                b.status AS bookingStatus, b.paymentExpiresAt,
+                EXISTS (SELECT 1 FROM payment_intents pi WHERE pi.bookingId = w.bookingId AND pi.status = 'SUCCEEDED') AS wasPaid,
+                (SELECT COUNT(*) FROM waitlist_entries o
+                 WHERE o.scheduleId = w.scheduleId AND o.journeyDate = w.journeyDate AND o.status = 'WAITING'
+                   AND (o.createdAt < w.createdAt OR (o.createdAt = w.createdAt AND o.id < w.id))) AS ahead
+         FROM waitlist_entries w
+         LEFT JOIN bookings b ON b.id = w.bookingId
+         WHERE w.userId = ? AND w.status <> 'CANCELLED'
+         ORDER BY w.journeyDate DESC, w.createdAt DESC`,
+        [userId]
+    );
+    return rows.map(toClientEntry);
+};
+
+/**
+ * Closes entries whose journey date has passed without seats freeing up.
+ * @param {string} today - Today's 'YYYY-MM-DD' date.
+ */
+const expireStaleEntries = async (connection, today) => {
+    await connection.query(
+        "UPDATE waitlist_entries SET status = 'EXPIRED', updatedAt = ? WHERE status = 'WAITING' AND journeyDate < ?",
+        [new Date(), today]
+    );
+};
+
+module.exports = {
+    MAX_WAITLIST_PASSENGERS,
+    getOfferDeadline,
+    joinWaitlist,
+    findWaitingEntries,
+    markOffered,
+    leaveWaitlist,
+    listUserEntries,
+    expireStaleEntries,
+};
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Bus, User as UserIcon, UserCircle, LogOut, ShieldCheck, Ticket, ChevronDown } from 'lucide-react';
+import { Bus, User as UserIcon, UserCircle, LogOut, ShieldCheck, Ticket, ChevronDown, ScanLine } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { Button } from './common/Button';
 import { UserRole } from '../types';
@@ -35,6 +35,8 @@ export const Header: React.FC = () => {
         return 'role-admin';
       case UserRole.SUB_ADMIN:
         return 'role-sub-admin';
+      case UserRole.CONDUCTOR:
+        return 'role-conductor';
       case UserRole.USER:
         return 'role-user';
       default:
@@ -81,6 +83,12 @@ export const Header: React.FC = () => {
                       </Link>
                     )}
 
+                    {user?.role === UserRole.CONDUCTOR && (
+                      <Link to="/conductor" className="header__dropdown-item" onClick={() => setIsDropdownOpen(false)}>
+                        <ScanLine size={18} /> Boarding
+                      </Link>
+                    )}
+
                     <Link to="/profile" className="header__dropdown-item" onClick={() => setIsDropdownOpen(false)}>
                       <UserIcon size={18} /> Profile
                     </Link>
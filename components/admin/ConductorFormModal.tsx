@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../common/Modal';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { api } from '../../services/api';
+import type { User, Schedule, ConductorAssignment } from '../../types';
+import { UserRole } from '../../types';
+import { getTodayDateString } from '../../utils/journeyDate';
+
+interface ConductorFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  userToEdit: User | null;
+}
+
+const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
+const passwordHint = "Password must be at least 8 characters long and include one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&).";
+
+// Conductor accounts and the trips they are rostered on. Trips before today are kept as they were.
+export const ConductorFormModal: React.FC<ConductorFormModalProps> = ({ isOpen, onClose, onSave, userToEdit }) => {
+  const [formData, setFormData] = useState({
+    fullName: '',
+    email: '',
+    phone: '',
+    password: '',
+    gender: 'MALE' as 'MALE' | 'FEMALE' | 'OTHER',
+    dob: '',
+  });
+  const [assignments, setAssignments] = useState<ConductorAssignment[]>([]);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditMode = !!userToEdit;
+  const today = getTodayDateString();
+
+  useEffect(() => {
+    api.getAllSchedules()
+      .then(list => setSchedules([...list].sort((a, b) => a.id.localeCompare(b.id))))
+      .catch(() => setError("Could not load schedules to assign."));
+
+    if (isEditMode) {
+      setFormData({
+        fullName: userToEdit.fullName,
+        email: userToEdit.email || '',
+        phone: userToEdit.phone,
+        password: '', // Password is not pre-filled for security
+        gender: userToEdit.gender || 'MALE',
+        dob: userToEdit.dob ? new Date(userToEdit.dob).toISOString().split('T')[0] : '',
+      });
+      setAssignments(userToEdit.assignments || []);
+    } else {
+      setFormData({ fullName: '', email: '', phone: '', password: '', gender: 'MALE', dob: '' });
+      setAssignments([]);
+    }
+  }, [userToEdit, isEditMode, isOpen]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFormData({ ...formData, [e.target.name]: e.target.value });
+  };
+
+  const updateAssignment = (index: number, changes: Partial<ConductorAssignment>) => {
+    setAssignments(prev => prev.map((assignment, i) => (i === index ? { ...assignment, ...changes } : assignment)));
+  };
+
+  const addAssignment = () => {
+    setAssignments(prev => [...prev, { scheduleId: schedules[0]?.id || '', journeyDate: today }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.phone.length !== 10 || !/^\d{10}$/.test(formData.phone)) {
+        setError("Phone number must be exactly 10 digits.");
+        return;
+    }
+    if ((!isEditMode || formData.password) && !passwordRegex.test(formData.password)) {
+        setError(passwordHint);
+        return;
+    }
+    if (assignments.some(assignment => !assignment.scheduleId || !assignment.journeyDate)) {
+        setError("Pick a schedule and date for every trip.");
+        return;
+    }
+
+    setIsLoading(true);
+
+    const userData: Partial<User> = {
+        ...formData,
+        role: UserRole.CONDUCTOR,
+        assignments,
+    };
+    if (isEditMode && !userData.password) {
+        delete userData.password;
+    }
+
+    try {
+      if (isEditMode) {
+        await api.updateConductor(userToEdit.id, userData);
+      } else {
+        await api.createConductor(userData);
+      }
+      onSave();
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={isEditMode ? "Edit Conductor" : "Create New Conductor"}>
+      <form onSubmit={handleSubmit} className="subadmin-form">
+        {error && <p className="auth-form__error">{error}</p>}
+
+        <Input id="fullName" name="fullName" label="Full Name" value={formData.fullName} onChange={handleChange} required />
+        <Input id="email" name="email" label="Email Address" type="email" value={formData.email} onChange={handleChange} required />
+        <Input id="phone" name="phone" label="Phone Number" type="tel" value={formData.phone} onChange={handleChange} required maxLength={10} pattern="\d{10}" />
+        <Input id="dob" name="dob" label="Date of Birth" type="date" value={formData.dob} onChange={handleChange} />
+
+        <div className="input-wrapper">
+            <label htmlFor="gender" className="input-label">Gender</label>
+            <select id="gender" name="gender" value={formData.gender} onChange={handleChange} className="register-form__select">
+              <option value="MALE">Male</option>
+              <option value="FEMALE">Female</option>
+              <option value="OTHER">Other</option>
+            </select>
+        </div>
+
+        <Input id="password" name="password" label="Password" type="password" placeholder={isEditMode ? "Leave blank to keep unchanged" : ""} onChange={handleChange} required={!isEditMode} />
+
+        <div className="input-wrapper">
+            <label className="input-label">Trips (from today)</label>
+            <div className="conductor-form__trips">
+                {assignments.length === 0 && <p className="conductor-form__empty">No trips assigned.</p>}
+                {assignments.map((assignment, index) => (
+                    <div key={index} className="conductor-form__trip">
+                        <select
+                            value={assignment.scheduleId}
+                            onChange={(e) => updateAssignment(index, { scheduleId: e.target.value })}
+                            className="register-form__select"
+                            aria-label="Schedule"
+                        >
+                            {schedules.map(schedule => (
+                                <option key={schedule.id} value={schedule.id}>{schedule.id}: {schedule.busName} ({schedule.origin} to {schedule.destination})</option>
+                            ))}
+                        </select>
+                        <input
+                            type="date"
+                            value={assignment.journeyDate}
+                            min={today}
+                            onChange={(e) => updateAssignment(index, { journeyDate: e.target.value })}
+                            className="input-field"
+                            aria-label="Journey date"
+                        />
+                        <Button type="button" variant="danger" className="btn--small" onClick={() => setAssignments(prev => prev.filter((_, i) => i !== index))} title="Remove trip">
+                            <Trash2 size={16} />
+                        </Button>
+                    </div>
+                ))}
+                <Button type="button" variant="secondary" onClick={addAssignment} disabled={schedules.length === 0}>
+                    <Plus size={16} /> Add Trip
+                </Button>
+            </div>
+        </div>
+
+        <div className="subadmin-form__actions">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isLoading}>
+            {isEditMode ? "Save Changes" : "Create Conductor"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -4,9 +4,12 @@ import { Modal } from '../common/Modal';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
 import { api } from '../../services/api';
-import type { Schedule, SeatLayout, ParsedStop } from '../../types';
+import type { Schedule, SeatLayout, ParsedStop, BusClass, OperatingCalendar, OperatingDay, Vehicle, SeatLayoutDefinition } from '../../types';
 import { useAuth } from '../../hooks/useAuth';
-import { ArrowUp, ArrowDown, Trash2, PlusCircle, AlertCircle } from 'lucide-react';
+import { BUS_CLASS_LABELS } from '../../constants';
+import { OPERATING_DAYS, OPERATING_DAY_LABELS, DEFAULT_OPERATING_CALENDAR } from '../../utils/operatingCalendar';
+import { formatJourneyDate } from '../../utils/journeyDate';
+import { ArrowUp, ArrowDown, Trash2, PlusCircle, AlertCircle, X } from 'lucide-react';
 
 interface EditScheduleModalProps {
   isOpen: boolean;
@@ -21,13 +24,21 @@ const formatTimeForInput = (time: string | null): string => {
     return time.substring(0, 5);
 }
 
+type DatedException = 'extraDates' | 'excludedDates';
+
 export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, onClose, onSave, scheduleToEdit }) => {
   const [formData, setFormData] = useState({
     busName: '',
     seatLayout: '2x2' as SeatLayout,
+    busClass: 'ORDINARY' as BusClass,
     bookingEnabled: false,
   });
+  const [vehicleId, setVehicleId] = useState('');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [seatLayouts, setSeatLayouts] = useState<SeatLayoutDefinition[]>([]);
   const [routeStops, setRouteStops] = useState<ParsedStop[]>([]);
+  const [calendar, setCalendar] = useState<OperatingCalendar>(DEFAULT_OPERATING_CALENDAR);
+  const [newDates, setNewDates] = useState<Record<DatedException, string>>({ extraDates: '', excludedDates: '' });
   
   const [isLoading, setIsLoading] = useState(false);
   const [isFetchingDetails, setIsFetchingDetails] = useState(true);
@@ -46,6 +57,7 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
             setFormData({
               busName: fullSchedule.busName,
               seatLayout: fullSchedule.seatLayout,
+              busClass: fullSchedule.busClass || 'ORDINARY',
               bookingEnabled: fullSchedule.bookingEnabled,
             });
             // Map backend RouteStop to frontend ParsedStop for editing
@@ -53,10 +65,13 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
                 stopName: stop.name,
                 arrivalTime: formatTimeForInput(stop.arrival),
                 departureTime: formatTimeForInput(stop.departure),
+                distanceKm: stop.distanceKm,
                 fareFromOrigin: stop.fare,
                 stopOrder: stop.order,
             }));
             setRouteStops(stopsForEditing);
+            setCalendar(fullSchedule.calendar || DEFAULT_OPERATING_CALENDAR);
+            setVehicleId(fullSchedule.vehicleId || '');
           } else {
             setError("Could not load full schedule details.");
           }
@@ -71,6 +86,18 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
     }
   }, [scheduleToEdit, isOpen]);
 
+  useEffect(() => {
+    api.getVehicles()
+      .then(setVehicles)
+      .catch(() => setError("Could not load the fleet."));
+    api.getSeatLayouts()
+      .then(setSeatLayouts)
+      .catch(() => setError("Could not load the seat layouts."));
+  }, []);
+
+  // The schedule takes its seat layout and class from its vehicle.
+  const selectedVehicle = vehicles.find(vehicle => vehicle.id === vehicleId);
+
   const handleBaseChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
     if (type === 'checkbox') {
@@ -94,6 +121,7 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
         stopName: '',
         arrivalTime: '00:00',
         departureTime: '00:00',
+        distanceKm: null,
         fareFromOrigin: prev.length > 0 ? prev[prev.length - 1].fareFromOrigin : 0,
     }]);
   };
@@ -119,17 +147,44 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
       });
   };
 
+  const handleToggleDay = (day: OperatingDay) => {
+    setCalendar(prev => ({
+        ...prev,
+        operatingDays: prev.operatingDays.includes(day)
+            ? prev.operatingDays.filter(d => d !== day)
+            : OPERATING_DAYS.filter(d => d === day || prev.operatingDays.includes(d)),
+    }));
+  };
+
+  const handleAddDate = (field: DatedException) => {
+    const date = newDates[field];
+    if (!date) return;
+    setCalendar(prev => prev[field].includes(date) ? prev : { ...prev, [field]: [...prev[field], date].sort() });
+    setNewDates(prev => ({ ...prev, [field]: '' }));
+  };
+
+  const handleRemoveDate = (field: DatedException, date: string) => {
+    setCalendar(prev => ({ ...prev, [field]: prev[field].filter(d => d !== date) }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) {
         setError("You must be logged in to perform this action.");
         return;
     }
+    if (calendar.operatingDays.length === 0 && calendar.extraDates.length === 0) {
+        setError("Pick at least one day of the week the bus runs, or add an extra run.");
+        return;
+    }
     setIsLoading(true);
     setError(null);
     
     try {
-      await api.updateSchedule(scheduleToEdit.id, { ...formData, stops: routeStops });
+      const baseDetails = selectedVehicle
+        ? { ...formData, seatLayout: selectedVehicle.seatLayout, busClass: selectedVehicle.busClass }
+        : formData;
+      await api.updateSchedule(scheduleToEdit.id, { ...baseDetails, stops: routeStops, calendar, vehicleId: vehicleId || null });
       onSave();
     } catch (err) {
       const message = err instanceof Error ? err.message : "An unexpected error occurred.";
@@ -157,9 +212,8 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
                         </div>
                         <Input type="time" label="Arrival Time" id={`arrivalTime-${index}`} value={stop.arrivalTime || ''} onChange={e => handleStopChange(index, 'arrivalTime', e.target.value)} disabled={index === 0} />
                         <Input type="time" label="Departure Time" id={`departureTime-${index}`} value={stop.departureTime} onChange={e => handleStopChange(index, 'departureTime', e.target.value)} required />
-                        <div className="stop-editor-card__field--full-span">
-                            <Input type="number" label="Fare from Origin (₹)" id={`fare-${index}`} value={stop.fareFromOrigin} onChange={e => handleStopChange(index, 'fareFromOrigin', Number(e.target.value))} required disabled={index===0}/>
-                        </div>
+                        <Input type="number" label="Distance from Origin (km)" id={`distance-${index}`} value={index === 0 ? 0 : stop.distanceKm ?? ''} onChange={e => handleStopChange(index, 'distanceKm', e.target.value === '' ? null : Number(e.target.value))} min="0" step="0.1" disabled={index===0}/>
+                        <Input type="number" label="Fare from Origin (₹)" id={`fare-${index}`} value={stop.fareFromOrigin} onChange={e => handleStopChange(index, 'fareFromOrigin', Number(e.target.value))} required disabled={index===0}/>
                     </div>
                     <div className="stop-editor-card__delete-wrapper">
                         <Button type="button" variant="danger" onClick={() => handleRemoveStop(index)} disabled={routeStops.length <= 1} className="stop-editor-card__delete-btn"><Trash2 size={16}/></Button>
@@ -173,6 +227,28 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
     );
   }
 
+  const renderDateList = (field: DatedException, label: string) => (
+    <div className="input-wrapper">
+        <label htmlFor={`new-${field}`} className="input-label">{label}</label>
+        <div className="calendar-form__date-add">
+            <input id={`new-${field}`} type="date" value={newDates[field]} onChange={e => setNewDates(prev => ({ ...prev, [field]: e.target.value }))} disabled={isFetchingDetails} className="input-field" />
+            <Button type="button" variant="secondary" onClick={() => handleAddDate(field)} disabled={!newDates[field]} className="btn--small">
+                <PlusCircle size={16} /> Add
+            </Button>
+        </div>
+        {calendar[field].length > 0 && (
+            <ul className="calendar-form__date-list">
+                {calendar[field].map(date => (
+                    <li key={date} className="calendar-form__date-chip">
+                        {formatJourneyDate(date)}
+                        <button type="button" onClick={() => handleRemoveDate(field, date)} aria-label={`Remove ${date}`}><X size={14} /></button>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+
   return (
     <Modal isOpen={isOpen} onClose={onClose} title={`Edit Schedule: ${scheduleToEdit.busName}`} size="3xl">
       <form onSubmit={handleSubmit} className="edit-schedule-form">
@@ -182,12 +258,29 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
             <h3 className="edit-schedule-form__section-title">Basic Details</h3>
             <div className="space-y-4">
                 <Input id="busName" name="busName" label="Bus Name" value={formData.busName} onChange={handleBaseChange} required disabled={isFetchingDetails}/>
+                <div className="input-wrapper">
+                    <label htmlFor="vehicleId" className="input-label">Vehicle</label>
+                    <select id="vehicleId" name="vehicleId" value={vehicleId} onChange={e => setVehicleId(e.target.value)} disabled={isFetchingDetails} className="edit-schedule-form__select">
+                        <option value="">No vehicle assigned</option>
+                        {vehicles.map(vehicle => (
+                            <option key={vehicle.id} value={vehicle.id}>{vehicle.registrationNumber}: {BUS_CLASS_LABELS[vehicle.busClass]} {vehicle.seatLayout} ({vehicle.depot})</option>
+                        ))}
+                    </select>
+                </div>
                 <div className="input-wrapper">
                     <label htmlFor="seatLayout" className="input-label">Seat Layout</label>
-                    <select id="seatLayout" name="seatLayout" value={formData.seatLayout} onChange={handleBaseChange} disabled={isFetchingDetails} className="edit-schedule-form__select">
-                        <option value="2x2">2x2</option>
-                        <option value="2x3">2x3</option>
-                        <option value="2x1">2x1</option>
+                    <select id="seatLayout" name="seatLayout" value={selectedVehicle?.seatLayout || formData.seatLayout} onChange={handleBaseChange} disabled={isFetchingDetails || !!selectedVehicle} className="edit-schedule-form__select">
+                        {seatLayouts.map(layout => (
+                            <option key={layout.id} value={layout.id}>{layout.id}: {layout.name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="input-wrapper">
+                    <label htmlFor="busClass" className="input-label">Bus Class</label>
+                    <select id="busClass" name="busClass" value={selectedVehicle?.busClass || formData.busClass} onChange={handleBaseChange} disabled={isFetchingDetails || !!selectedVehicle} className="edit-schedule-form__select">
+                        {(Object.keys(BUS_CLASS_LABELS) as BusClass[]).map(busClass => (
+                            <option key={busClass} value={busClass}>{BUS_CLASS_LABELS[busClass]}</option>
+                        ))}
                     </select>
                 </div>
                 <div className="edit-schedule-form__checkbox-wrapper">
@@ -197,8 +290,35 @@ export const EditScheduleModal: React.FC<EditScheduleModalProps> = ({ isOpen, on
             </div>
         </div>
 
+        <div className="edit-schedule-form__section">
+            <h3 className="edit-schedule-form__section-title">Operating Calendar</h3>
+            <p className="edit-schedule-form__hint">Extra runs (festivals, exam days) and excluded dates override the days of the week, the validity dates and holidays.</p>
+            <div className="space-y-4">
+                <fieldset className="calendar-form__days" disabled={isFetchingDetails}>
+                    <legend className="input-label">Runs on</legend>
+                    {OPERATING_DAYS.map(day => (
+                        <label key={day} className="calendar-form__day">
+                            <input type="checkbox" checked={calendar.operatingDays.includes(day)} onChange={() => handleToggleDay(day)} />
+                            {OPERATING_DAY_LABELS[day]}
+                        </label>
+                    ))}
+                </fieldset>
+                <div className="calendar-form__validity">
+                    <Input type="date" id="validFrom" label="Valid From" value={calendar.validFrom || ''} onChange={e => setCalendar(prev => ({ ...prev, validFrom: e.target.value || null }))} disabled={isFetchingDetails} />
+                    <Input type="date" id="validUntil" label="Valid Until" value={calendar.validUntil || ''} min={calendar.validFrom || undefined} onChange={e => setCalendar(prev => ({ ...prev, validUntil: e.target.value || null }))} disabled={isFetchingDetails} />
+                </div>
+                <div className="edit-schedule-form__checkbox-wrapper">
+                    <input id="runsOnHolidays" type="checkbox" checked={calendar.runsOnHolidays} onChange={e => setCalendar(prev => ({ ...prev, runsOnHolidays: e.target.checked }))} disabled={isFetchingDetails} className="edit-schedule-form__checkbox" />
+                    <label htmlFor="runsOnHolidays" className="edit-schedule-form__checkbox-label">Runs on public holidays</label>
+                </div>
+                {renderDateList('extraDates', 'Extra Runs')}
+                {renderDateList('excludedDates', 'Excluded Dates')}
+            </div>
+        </div>
+
         <div>
             <h3 className="edit-schedule-form__section-title">Route Stops & Timings</h3>
+            <p className="edit-schedule-form__hint">With distances set, fares come from the fare table for the bus class; the stop fares only apply to routes without them.</p>
             {renderStopEditor()}
         </div>
 
@@ -0,0 +1,315 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, Plus } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { Seat, SEAT_ATTRIBUTE_LABELS } from '../bus/Seat';
+import { getSeatGridStyle, getDeckGridStyle } from '../bus/SeatLayout';
+import { api } from '../../services/api';
+import type { SeatLayoutDefinition, LayoutDeck, LayoutSeat, SeatType, SeatAttribute } from '../../types';
+
+interface SeatLayoutDesignerProps {
+  layoutToEdit: SeatLayoutDefinition | null; // Null to design a new layout
+  onSave: () => void;
+  onClose: () => void;
+}
+
+// The limits the server enforces, so the form does not offer more.
+const MAX_DECKS = 2;
+const MAX_ROWS = 30;
+const MAX_COLUMNS = 8;
+
+const SEAT_ATTRIBUTES: SeatAttribute[] = ['WINDOW', 'LADIES', 'DISABLED', 'CONDUCTOR_QUOTA'];
+
+// A new seat, or one of the layout's seats being moved.
+type DragItem = { kind: 'new'; type: SeatType } | { kind: 'move'; seatId: string };
+
+const coversCell = (seat: LayoutSeat, deck: number, row: number, column: number) =>
+  seat.deck === deck && seat.column === column && (seat.row === row || (seat.type === 'SLEEPER' && seat.row + 1 === row));
+
+/**
+ * Whether a seat of this type fits with its front at the cell: on the deck, and not on top of
+ * another seat. `ignoreSeatId` is the seat being moved, which may overlap where it was.
+ */
+const canPlaceSeat = (decks: LayoutDeck[], seats: LayoutSeat[], type: SeatType, deck: number, row: number, column: number, ignoreSeatId?: string) => {
+  const lastRow = type === 'SLEEPER' ? row + 1 : row;
+  if (!decks[deck] || lastRow > decks[deck].rows || column > decks[deck].columns) return false;
+  return !seats.some(seat => seat.id !== ignoreSeatId && (coversCell(seat, deck, row, column) || coversCell(seat, deck, lastRow, column)));
+};
+
+// Numbers seats in the order they are placed; upper deck seats start with 'U'.
+const nextSeatId = (seats: LayoutSeat[], deck: number) => {
+  const prefix = deck === 0 ? '' : 'U';
+  let number = 1;
+  while (seats.some(seat => seat.id === `${prefix}${number}`)) number++;
+  return `${prefix}${number}`;
+};
+
+// CONDUCTOR_QUOTA seats are sold on board, so they cannot also be reserved for a passenger online.
+const conflictsWith = (attribute: SeatAttribute, attributes: SeatAttribute[]) =>
+  attribute === 'CONDUCTOR_QUOTA'
+    ? attributes.includes('LADIES') || attributes.includes('DISABLED')
+    : (attribute === 'LADIES' || attribute === 'DISABLED') && attributes.includes('CONDUCTOR_QUOTA');
+
+/**
+ * Lays out a bus: its decks, then seats and sleeper berths dragged onto each deck's grid.
+ * Built-in layouts are shown read-only.
+ */
+export const SeatLayoutDesigner: React.FC<SeatLayoutDesignerProps> = ({ layoutToEdit, onSave, onClose }) => {
+  const [layoutId, setLayoutId] = useState('');
+  const [name, setName] = useState('');
+  const [decks, setDecks] = useState<LayoutDeck[]>([]);
+  const [seats, setSeats] = useState<LayoutSeat[]>([]);
+  const [selectedSeatId, setSelectedSeatId] = useState<string | null>(null);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditMode = !!layoutToEdit;
+  const isReadOnly = !!layoutToEdit?.isBuiltIn;
+  const selectedSeat = seats.find(seat => seat.id === selectedSeatId);
+
+  useEffect(() => {
+    setError(null);
+    setSelectedSeatId(null);
+    setLayoutId(layoutToEdit?.id || '');
+    setName(layoutToEdit?.name || '');
+    setDecks(layoutToEdit?.decks || [{ name: 'Main', rows: 10, columns: 5 }]);
+    setSeats(layoutToEdit?.seats || []);
+  }, [layoutToEdit]);
+
+  const handleDeckChange = (deckIndex: number, field: keyof LayoutDeck, value: string) => {
+    setDecks(prev => prev.map((deck, i) => {
+      if (i !== deckIndex) return deck;
+      if (field === 'name') return { ...deck, name: value };
+      const limit = field === 'rows' ? MAX_ROWS : MAX_COLUMNS;
+      return { ...deck, [field]: Math.min(limit, Math.max(1, Number(value) || 1)) };
+    }));
+  };
+
+  const handleAddDeck = () => {
+    setDecks(prev => [...prev, { name: 'Upper', rows: prev[0].rows, columns: prev[0].columns }]);
+  };
+
+  const handleRemoveDeck = (deckIndex: number) => {
+    setDecks(prev => prev.filter((_, i) => i !== deckIndex));
+    setSeats(prev => prev.filter(seat => seat.deck !== deckIndex).map(seat => seat.deck > deckIndex ? { ...seat, deck: seat.deck - 1 } : seat));
+    setSelectedSeatId(null);
+  };
+
+  const canDropAt = (deck: number, row: number, column: number) => {
+    if (!dragItem) return false;
+    if (dragItem.kind === 'new') return canPlaceSeat(decks, seats, dragItem.type, deck, row, column);
+    const seat = seats.find(s => s.id === dragItem.seatId);
+    return !!seat && canPlaceSeat(decks, seats, seat.type, deck, row, column, seat.id);
+  };
+
+  const handleDrop = (e: React.DragEvent, deck: number, row: number, column: number) => {
+    e.preventDefault();
+    if (!dragItem || !canDropAt(deck, row, column)) return;
+    if (dragItem.kind === 'new') {
+      const id = nextSeatId(seats, deck);
+      setSeats(prev => [...prev, { id, deck, row, column, type: dragItem.type, attributes: [] }]);
+      setSelectedSeatId(id);
+    } else {
+      setSeats(prev => prev.map(seat => seat.id === dragItem.seatId ? { ...seat, deck, row, column } : seat));
+      setSelectedSeatId(dragItem.seatId);
+    }
+    setDragItem(null);
+  };
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.setData('text/plain', item.kind === 'new' ? item.type : item.seatId);
+    e.dataTransfer.effectAllowed = item.kind === 'new' ? 'copy' : 'move';
+    setDragItem(item);
+  };
+
+  const updateSelectedSeat = (changes: Partial<LayoutSeat>) => {
+    if (!selectedSeat) return;
+    setSeats(prev => prev.map(seat => seat.id === selectedSeat.id ? { ...seat, ...changes } : seat));
+  };
+
+  const handleSeatIdChange = (input: HTMLInputElement) => {
+    if (!selectedSeat) return;
+    const id = input.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 6);
+    if (!id || seats.some(seat => seat.id === id && seat !== selectedSeat)) {
+      setError(id ? `Seat ${id} is already on this layout.` : 'A seat needs a number.');
+      input.value = selectedSeat.id;
+      return;
+    }
+    setError(null);
+    updateSelectedSeat({ id });
+    setSelectedSeatId(id);
+  };
+
+  const handleSeatTypeChange = (type: SeatType) => {
+    if (!selectedSeat) return;
+    if (!canPlaceSeat(decks, seats, type, selectedSeat.deck, selectedSeat.row, selectedSeat.column, selectedSeat.id)) {
+      setError(`A sleeper needs the row behind seat ${selectedSeat.id} free.`);
+      return;
+    }
+    setError(null);
+    updateSelectedSeat({ type });
+  };
+
+  const handleAttributeToggle = (attribute: SeatAttribute) => {
+    if (!selectedSeat) return;
+    const attributes = selectedSeat.attributes.includes(attribute)
+      ? selectedSeat.attributes.filter(a => a !== attribute)
+      : [...selectedSeat.attributes, attribute];
+    updateSelectedSeat({ attributes });
+  };
+
+  const handleRemoveSeat = () => {
+    setSeats(prev => prev.filter(seat => seat.id !== selectedSeatId));
+    setSelectedSeatId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      if (isEditMode) {
+        await api.updateSeatLayout(layoutToEdit.id, { name, decks, seats });
+      } else {
+        await api.createSeatLayout({ id: layoutId, name, decks, seats });
+      }
+      onSave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onlineSeatCount = seats.filter(seat => !seat.attributes.includes('CONDUCTOR_QUOTA')).length;
+
+  return (
+    <form onSubmit={handleSubmit} className="seat-designer">
+      {error && <p className="auth-form__error">{error}</p>}
+
+      <div className="seat-designer__details">
+        <Input id="layoutId" label="Layout Code" placeholder="e.g. SLEEPER-30" value={layoutId} onChange={e => setLayoutId(e.target.value.toUpperCase())} disabled={isEditMode} required pattern="[A-Za-z0-9\-]{2,20}" maxLength={20} />
+        <Input id="layoutName" label="Name" value={name} onChange={e => setName(e.target.value)} disabled={isReadOnly} required maxLength={100} />
+      </div>
+
+      <div className="seat-designer__decks-form">
+        {decks.map((deck, deckIndex) => (
+          <div key={deckIndex} className="seat-designer__deck-form">
+            <Input id={`deck-name-${deckIndex}`} label="Deck" value={deck.name} onChange={e => handleDeckChange(deckIndex, 'name', e.target.value)} disabled={isReadOnly} required maxLength={30} />
+            <Input id={`deck-rows-${deckIndex}`} label="Rows" type="number" min={1} max={MAX_ROWS} value={deck.rows} onChange={e => handleDeckChange(deckIndex, 'rows', e.target.value)} disabled={isReadOnly} required />
+            <Input id={`deck-columns-${deckIndex}`} label="Columns" type="number" min={1} max={MAX_COLUMNS} value={deck.columns} onChange={e => handleDeckChange(deckIndex, 'columns', e.target.value)} disabled={isReadOnly} required />
+            {!isReadOnly && deckIndex > 0 && (
+              <Button type="button" variant="danger" onClick={() => handleRemoveDeck(deckIndex)} title="Remove this deck and its seats" className="user-management__action-btn">
+                <Trash2 size={16} />
+              </Button>
+            )}
+          </div>
+        ))}
+        {!isReadOnly && decks.length < MAX_DECKS && (
+          <Button type="button" variant="secondary" onClick={handleAddDeck}>
+            <Plus size={16} /> Add Upper Deck
+          </Button>
+        )}
+      </div>
+
+      {!isReadOnly && (
+        <div className="seat-designer__palette">
+          <span className="seat-designer__palette-hint">Drag onto a deck:</span>
+          <div className="seat seat--available seat-designer__palette-item" draggable onDragStart={e => startDrag(e, { kind: 'new', type: 'SEATER' })} onDragEnd={() => setDragItem(null)}>Seat</div>
+          <div className="seat seat--available seat--sleeper seat-designer__palette-item" draggable onDragStart={e => startDrag(e, { kind: 'new', type: 'SLEEPER' })} onDragEnd={() => setDragItem(null)}>Berth</div>
+        </div>
+      )}
+
+      <div className="seat-designer__workspace">
+        <div className="seat-layout">
+          <div className="seat-layout__header">
+            <span>FRONT</span>
+            <span>REAR</span>
+          </div>
+          <div className="seat-layout__decks">
+            {decks.map((deck, deckIndex) => (
+              <div key={deckIndex} className="seat-layout__deck">
+                <h4 className="seat-layout__deck-name">{deck.name}</h4>
+                <div className="seat-layout__grid" style={getDeckGridStyle(deck)}>
+                  {Array.from({ length: deck.rows }, (_, r) => Array.from({ length: deck.columns }, (_, c) => (
+                    <div
+                      key={`cell-${r + 1}-${c + 1}`}
+                      className={`seat-designer__cell ${dragItem && canDropAt(deckIndex, r + 1, c + 1) ? 'seat-designer__cell--droppable' : ''}`}
+                      style={{ gridRow: r + 1, gridColumn: c + 1 }}
+                      onDragOver={e => { if (canDropAt(deckIndex, r + 1, c + 1)) e.preventDefault(); }}
+                      onDrop={e => handleDrop(e, deckIndex, r + 1, c + 1)}
+                    />
+                  )))}
+                  {seats.filter(seat => seat.deck === deckIndex).map(seat => (
+                    <div
+                      key={seat.id}
+                      className={`seat-designer__seat ${dragItem?.kind === 'move' && dragItem.seatId === seat.id ? 'seat-designer__seat--dragging' : ''}`}
+                      style={getSeatGridStyle(seat)}
+                      draggable={!isReadOnly}
+                      onDragStart={e => startDrag(e, { kind: 'move', seatId: seat.id })}
+                      onDragEnd={() => setDragItem(null)}
+                    >
+                      <Seat
+                        seatId={seat.id}
+                        status={seat.id === selectedSeatId ? 'selected' : 'available'}
+                        onClick={setSelectedSeatId}
+                        type={seat.type}
+                        attributes={seat.attributes}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="seat-designer__seat-panel">
+          <p className="seat-designer__summary">{seats.length} seats, {onlineSeatCount} sold online</p>
+          {selectedSeat ? (
+            <>
+              <Input key={selectedSeat.id} id="seatId" label="Seat Number" defaultValue={selectedSeat.id} onBlur={e => handleSeatIdChange(e.target)} disabled={isReadOnly} maxLength={6} />
+              <div className="input-wrapper">
+                <label htmlFor="seatType" className="input-label">Type</label>
+                <select id="seatType" value={selectedSeat.type} onChange={e => handleSeatTypeChange(e.target.value as SeatType)} disabled={isReadOnly} className="register-form__select">
+                  <option value="SEATER">Seat</option>
+                  <option value="SLEEPER">Sleeper berth</option>
+                </select>
+              </div>
+              {SEAT_ATTRIBUTES.map(attribute => (
+                <label key={attribute} className="seat-details-editor-card__checkbox">
+                  <input
+                    type="checkbox"
+                    checked={selectedSeat.attributes.includes(attribute)}
+                    onChange={() => handleAttributeToggle(attribute)}
+                    disabled={isReadOnly || conflictsWith(attribute, selectedSeat.attributes)}
+                  />
+                  {SEAT_ATTRIBUTE_LABELS[attribute].charAt(0).toUpperCase() + SEAT_ATTRIBUTE_LABELS[attribute].slice(1)}
+                </label>
+              ))}
+              {!isReadOnly && (
+                <Button type="button" variant="danger" onClick={handleRemoveSeat}>
+                  <Trash2 size={16} /> Remove Seat
+                </Button>
+              )}
+            </>
+          ) : (
+            <p className="edit-schedule-form__hint">{isReadOnly ? 'Click a seat to see its details.' : 'Click a seat to number it, make it a berth or reserve it. Drag a seat to move it.'}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="subadmin-form__actions">
+        <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
+          {isReadOnly ? 'Close' : 'Cancel'}
+        </Button>
+        {!isReadOnly && (
+          <Button type="submit" isLoading={isLoading}>
+            {isEditMode ? "Save Changes" : "Create Layout"}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
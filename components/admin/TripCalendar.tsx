@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import type { Schedule, Trip } from '../../types';
+
+interface TripCalendarProps {
+  schedules: Schedule[];
+  trips: Trip[];
+  dates: string[];
+  onSelectTrip: (trip: Trip) => void;
+}
+
+const formatDayHeading = (journeyDate: string) => {
+  const [year, month, day] = journeyDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return {
+    weekday: date.toLocaleDateString(undefined, { weekday: 'short' }),
+    day: date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+  };
+};
+
+// Upcoming trips as a grid: one row per schedule, one column per day. Days without a trip
+// are days the schedule's operating calendar does not run, and cannot be edited.
+export const TripCalendar: React.FC<TripCalendarProps> = ({ schedules, trips, dates, onSelectTrip }) => {
+  const tripsByKey = useMemo(
+    () => new Map(trips.map(trip => [`${trip.scheduleId}|${trip.journeyDate}`, trip])),
+    [trips]
+  );
+
+  return (
+    <div className="user-management__table-wrapper">
+      <table className="trip-calendar">
+        <thead>
+          <tr>
+            <th className="trip-calendar__schedule">Schedule</th>
+            {dates.map(date => {
+              const heading = formatDayHeading(date);
+              return (
+                <th key={date}>
+                  <span className="trip-calendar__weekday">{heading.weekday}</span>
+                  <span>{heading.day}</span>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {schedules.map(schedule => (
+            <tr key={schedule.id}>
+              <th className="trip-calendar__schedule" scope="row">
+                <div className="user-management__user-name">{schedule.id}</div>
+                <div className="user-management__user-contact-email">{schedule.busName}{schedule.vehicleRegistration ? ` (${schedule.vehicleRegistration})` : ''}, {schedule.departureTime}</div>
+              </th>
+              {dates.map(date => {
+                const trip = tripsByKey.get(`${schedule.id}|${date}`);
+                if (!trip) {
+                  return <td key={date} className="trip-calendar__cell trip-calendar__cell--empty">&ndash;</td>;
+                }
+                const state = trip.status === 'CANCELLED' ? 'cancelled' : trip.delayMinutes > 0 ? 'delayed' : 'running';
+                return (
+                  <td key={date} className="trip-calendar__cell">
+                    <button
+                      type="button"
+                      className={`trip-calendar__trip trip-calendar__trip--${state}`}
+                      onClick={() => onSelectTrip(trip)}
+                      title={trip.note || undefined}
+                    >
+                      <span className="trip-calendar__status">
+                        {trip.status === 'CANCELLED' ? 'Cancelled' : trip.delayMinutes > 0 ? `+${trip.delayMinutes} min` : 'Running'}
+                      </span>
+                      <span className="trip-calendar__seats">{trip.bookedSeats} sold</span>
+                      {trip.busName && <span className="trip-calendar__bus">{trip.busName}</span>}
+                      {trip.vehicleId && trip.vehicleRegistration && <span className="trip-calendar__bus">{trip.vehicleRegistration}</span>}
+                      {trip.conductorName && <span className="trip-calendar__conductor">{trip.conductorName}</span>}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { api } from '../../services/api';
+import type { Trip, TripCancellationPassenger, TripCancellationReport } from '../../types';
+import { formatJourneyDate } from '../../utils/journeyDate';
+
+interface TripCancellationReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trip: Trip;
+}
+
+const STATUS_LABELS: Record<TripCancellationPassenger['status'], string> = {
+  OFFERED: 'Offered other buses',
+  REBOOKED: 'Moved to another bus',
+  REFUNDED: 'Refunded',
+  CLOSED: 'Booking changed',
+};
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  NO_ALTERNATIVE: 'no other bus had seats',
+  REFUND_ONLY: 'rebooking not offered',
+  DECLINED: 'declined the offer',
+  OFFER_LAPSED: 'offer lapsed',
+  CANCELLED_BY_PASSENGER: 'cancelled by passenger',
+  ACCEPTED: 'accepted the offer',
+  BOOKING_CHANGED: 'changed before the offer lapsed',
+};
+
+const describeOutcome = (passenger: TripCancellationPassenger) => {
+  if (passenger.status === 'REBOOKED') {
+    return `${passenger.rebookedScheduleId} on ${passenger.rebookedJourneyDate}, seat ${passenger.rebookedSeatId}`;
+  }
+  if (passenger.status === 'OFFERED' && passenger.offerExpiresAt) {
+    return `Until ${new Date(passenger.offerExpiresAt).toLocaleString('en-IN')}`;
+  }
+  return passenger.resolution ? RESOLUTION_LABELS[passenger.resolution] || passenger.resolution : '';
+};
+
+const csvCell = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+const downloadReport = (trip: Trip, report: TripCancellationReport) => {
+  const header = ['bookingId', 'bookedBy', 'phone', 'passenger', 'seat', 'from', 'to', 'fare', 'outcome', 'details', 'refund'];
+  const rows = report.passengers.map(passenger => [
+    passenger.bookingId, passenger.userName, passenger.userPhone, passenger.fullName, passenger.seatId,
+    passenger.origin, passenger.destination, passenger.fare, STATUS_LABELS[passenger.status], describeOutcome(passenger), passenger.refundAmount,
+  ]);
+  const lines = [header, ...rows].map(row => row.map(csvCell).join(',') + '\n');
+  const blob = new Blob(lines, { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", `cancellation_${trip.scheduleId}_${trip.journeyDate}.csv`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// What became of every passenger of a cancelled trip: moved to another bus, refunded, or still deciding.
+export const TripCancellationReportModal: React.FC<TripCancellationReportModalProps> = ({ isOpen, onClose, trip }) => {
+  const [report, setReport] = useState<TripCancellationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setReport(null);
+    setError(null);
+    api.getTripCancellationReport(trip.id)
+      .then(result => setReport(result.report))
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load the report."));
+  }, [trip.id, isOpen]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Cancelled: ${trip.scheduleId} on ${formatJourneyDate(trip.journeyDate)}`} size="3xl">
+      {error && <p className="auth-form__error">{error}</p>}
+      {!report && !error && (
+        <div className="home-page__loader">
+          <div className="home-page__spinner"></div>
+        </div>
+      )}
+      {report && (
+        <div className="trip-report">
+          {trip.cancellationReason && <p className="trip-form__summary">Reason: {trip.cancellationReason}</p>}
+          <div className="trip-report__summary">
+            <span>{report.summary.passengers} passenger{report.summary.passengers === 1 ? '' : 's'} on {report.summary.bookings} booking{report.summary.bookings === 1 ? '' : 's'}</span>
+            <span>{report.summary.rebooked} moved to another bus</span>
+            <span>{report.summary.offered} still deciding</span>
+            <span>{report.summary.refunded} refunded (₹{report.summary.refundTotal.toFixed(2)})</span>
+          </div>
+          {report.passengers.length === 0 ? (
+            <p className="trip-form__summary">No paid bookings were on this trip.</p>
+          ) : (
+            <div className="user-management__table-wrapper">
+              <table className="user-management__table">
+                <thead>
+                  <tr>
+                    <th>Passenger</th>
+                    <th>Booked by</th>
+                    <th>Journey</th>
+                    <th>Outcome</th>
+                    <th>Refund</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.passengers.map(passenger => (
+                    <tr key={`${passenger.bookingId}-${passenger.seatId}`}>
+                      <td>{passenger.fullName} (seat {passenger.seatId})</td>
+                      <td>{passenger.userName || 'Unknown'}{passenger.userPhone ? `, ${passenger.userPhone}` : ''}</td>
+                      <td>{passenger.origin} to {passenger.destination}</td>
+                      <td>
+                        <span className={`trip-report__status trip-report__status--${passenger.status.toLowerCase()}`}>{STATUS_LABELS[passenger.status]}</span>
+                        {describeOutcome(passenger) && <span className="trip-report__detail">{describeOutcome(passenger)}</span>}
+                      </td>
+                      <td>{passenger.refundAmount > 0 ? `₹${passenger.refundAmount.toFixed(2)}` : '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="subadmin-form__actions">
+            <Button type="button" variant="secondary" onClick={onClose}>Close</Button>
+            <Button type="button" onClick={() => downloadReport(trip, report)} disabled={report.passengers.length === 0}>
+              <Download size={16} /> Download CSV
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common/Modal';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { api } from '../../services/api';
+import type { Trip, TripUpdate, Schedule, User, Vehicle } from '../../types';
+import { UserRole } from '../../types';
+import { formatJourneyDate } from '../../utils/journeyDate';
+
+interface TripEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (trip: Trip) => void;
+  onViewReport: (trip: Trip) => void;
+  trip: Trip;
+  schedule: Schedule | undefined;
+  canAssignConductors: boolean;
+}
+
+// One dated trip: cancel or reinstate it, post a delay, run it with another bus or change its conductor.
+// Cancelling takes a reason and settles every booking on the trip, then shows what became of each passenger.
+export const TripEditModal: React.FC<TripEditModalProps> = ({ isOpen, onClose, onSave, onViewReport, trip, schedule, canAssignConductors }) => {
+  const [formData, setFormData] = useState({
+    status: trip.status,
+    delayMinutes: String(trip.delayMinutes),
+    busName: trip.busName || '',
+    note: trip.note || '',
+    conductorId: trip.conductorId || '',
+    vehicleId: trip.vehicleId || '',
+    cancellationReason: '',
+    offerRebooking: true,
+  });
+  const [conductors, setConductors] = useState<User[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFormData({
+      status: trip.status,
+      delayMinutes: String(trip.delayMinutes),
+      busName: trip.busName || '',
+      note: trip.note || '',
+      conductorId: trip.conductorId || '',
+      vehicleId: trip.vehicleId || '',
+      cancellationReason: '',
+      offerRebooking: true,
+    });
+    setError(null);
+  }, [trip, isOpen]);
+
+  useEffect(() => {
+    if (!canAssignConductors) return;
+    api.getUsers()
+      .then(users => setConductors(users.filter(user => user.role === UserRole.CONDUCTOR)))
+      .catch(() => setError("Could not load conductors."));
+  }, [canAssignConductors]);
+
+  useEffect(() => {
+    api.getVehicles()
+      .then(setVehicles)
+      .catch(() => setError("Could not load the fleet."));
+  }, []);
+
+  // Only a bus with the schedule's seat layout and class can take over its trip, since its seats are already sold.
+  const spareVehicles = vehicles.filter(vehicle =>
+    vehicle.id !== schedule?.vehicleId && vehicle.seatLayout === schedule?.seatLayout && vehicle.busClass === schedule?.busClass);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFormData({ ...formData, [e.target.name]: e.target.value });
+  };
+
+  const isCancelling = formData.status === 'CANCELLED' && trip.status !== 'CANCELLED';
+
+  const handleCancelTrip = async () => {
+    if (!formData.cancellationReason.trim()) {
+        setError("Give a reason for cancelling the trip. Passengers will see it.");
+        return;
+    }
+    setIsLoading(true);
+    try {
+      const { trip: cancelled } = await api.cancelTrip(trip.id, formData.cancellationReason.trim(), formData.offerRebooking);
+      onSave(cancelled);
+      onViewReport(cancelled);
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (isCancelling) {
+        await handleCancelTrip();
+        return;
+    }
+
+    const delayMinutes = Number(formData.delayMinutes);
+    if (!Number.isInteger(delayMinutes) || delayMinutes < 0) {
+        setError("Delay must be a whole number of minutes.");
+        return;
+    }
+
+    const changes: TripUpdate = {
+        status: formData.status,
+        delayMinutes,
+        busName: formData.busName.trim() || null,
+        note: formData.note.trim() || null,
+    };
+    if (canAssignConductors && formData.conductorId !== (trip.conductorId || '')) {
+        changes.conductorId = formData.conductorId || null;
+    }
+    if (formData.vehicleId !== (trip.vehicleId || '')) {
+        changes.vehicleId = formData.vehicleId || null;
+    }
+
+    setIsLoading(true);
+    try {
+      onSave(await api.updateTrip(trip.id, changes));
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${trip.scheduleId} on ${formatJourneyDate(trip.journeyDate)}`}>
+      <form onSubmit={handleSubmit} className="subadmin-form">
+        {error && <p className="auth-form__error">{error}</p>}
+        {schedule && (
+          <p className="trip-form__summary">
+            {schedule.busName}: {schedule.origin} to {schedule.destination}, departs {schedule.departureTime}. {trip.bookedSeats} seat{trip.bookedSeats === 1 ? '' : 's'} sold.
+          </p>
+        )}
+
+        <div className="input-wrapper">
+            <label htmlFor="tripStatus" className="input-label">Status</label>
+            <select id="tripStatus" name="status" value={formData.status} onChange={handleChange} className="register-form__select">
+              <option value="SCHEDULED">Running</option>
+              <option value="CANCELLED">Cancelled</option>
+            </select>
+        </div>
+        {trip.status === 'CANCELLED' && (
+          <div className="trip-form__cancelled">
+            <p>Cancelled{trip.cancellationReason ? `: ${trip.cancellationReason}` : '.'}</p>
+            {trip.cancellationReason && (
+              <Button type="button" variant="secondary" onClick={() => onViewReport(trip)}>
+                Passenger Report
+              </Button>
+            )}
+          </div>
+        )}
+
+        {isCancelling ? (
+          <>
+            <Input id="cancellationReason" name="cancellationReason" label="Reason for cancelling" placeholder="e.g. Bus breakdown" value={formData.cancellationReason} onChange={handleChange} maxLength={255} required />
+            <div className="edit-schedule-form__checkbox-wrapper">
+              <input id="offerRebooking" type="checkbox" checked={formData.offerRebooking} onChange={e => setFormData({ ...formData, offerRebooking: e.target.checked })} className="edit-schedule-form__checkbox" />
+              <label htmlFor="offerRebooking" className="edit-schedule-form__checkbox-label">Offer passengers other buses for their journey</label>
+            </div>
+            {trip.bookedSeats > 0 && (
+              <p className="trip-form__warning">
+                {formData.offerRebooking
+                  ? "Each booking will be offered seats on other buses for the same journey that day or the next, and refunded in full if there are none or the passenger declines. Passengers are notified."
+                  : "Every booking on this trip will be cancelled and refunded in full. Passengers are notified."}
+              </p>
+            )}
+          </>
+        ) : (
+          <>
+            <Input id="delayMinutes" name="delayMinutes" label="Delay (minutes)" type="number" min={0} max={720} value={formData.delayMinutes} onChange={handleChange} disabled={formData.status === 'CANCELLED'} />
+            <Input id="busName" name="busName" label="Replacement bus" placeholder={schedule ? `Leave blank to run ${schedule.busName}` : ''} value={formData.busName} onChange={handleChange} maxLength={255} />
+            <div className="input-wrapper">
+                <label htmlFor="tripVehicle" className="input-label">Vehicle for this trip</label>
+                <select id="tripVehicle" name="vehicleId" value={formData.vehicleId} onChange={handleChange} disabled={formData.status === 'CANCELLED'} className="register-form__select">
+                  <option value="">{schedule?.vehicleRegistration ? `Schedule's vehicle (${schedule.vehicleRegistration})` : 'No vehicle assigned'}</option>
+                  {spareVehicles.map(vehicle => <option key={vehicle.id} value={vehicle.id}>{vehicle.registrationNumber} ({vehicle.depot})</option>)}
+                  {trip.vehicleId && !spareVehicles.some(vehicle => vehicle.id === trip.vehicleId) && (
+                    <option value={trip.vehicleId}>{trip.vehicleRegistration || 'Current vehicle'}</option>
+                  )}
+                </select>
+            </div>
+            <Input id="note" name="note" label="Notice to passengers" placeholder="e.g. Road closure near the depot" value={formData.note} onChange={handleChange} maxLength={255} />
+          </>
+        )}
+
+        {canAssignConductors && !isCancelling && (
+          <div className="input-wrapper">
+              <label htmlFor="tripConductor" className="input-label">Conductor</label>
+              <select id="tripConductor" name="conductorId" value={formData.conductorId} onChange={handleChange} className="register-form__select">
+                <option value="">No conductor</option>
+                {conductors.map(conductor => <option key={conductor.id} value={conductor.id}>{conductor.fullName}</option>)}
+              </select>
+          </div>
+        )}
+
+        <div className="subadmin-form__actions">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
+            Close
+          </Button>
+          <Button type="submit" variant={isCancelling ? 'danger' : 'primary'} isLoading={isLoading}>
+            {isCancelling ? "Cancel Trip" : "Save Changes"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../common/Modal';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { api } from '../../services/api';
+import type { Vehicle, VehicleInput, BusClass, SeatLayoutDefinition } from '../../types';
+import { BUS_CLASS_LABELS } from '../../constants';
+
+interface VehicleFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+  vehicleToEdit: Vehicle | null;
+}
+
+const EMPTY_VEHICLE: VehicleInput = {
+  registrationNumber: '',
+  depot: '',
+  busClass: 'ORDINARY',
+  seatLayout: '2x2',
+  capacity: 40,
+  fitnessExpiresOn: '',
+  insuranceExpiresOn: '',
+};
+
+// Adds a bus to the fleet or edits one. A bus already running schedules keeps its layout and class.
+export const VehicleFormModal: React.FC<VehicleFormModalProps> = ({ isOpen, onClose, onSave, vehicleToEdit }) => {
+  const [formData, setFormData] = useState<VehicleInput>(EMPTY_VEHICLE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [seatLayouts, setSeatLayouts] = useState<SeatLayoutDefinition[]>([]);
+
+  const isEditMode = !!vehicleToEdit;
+  const isInUse = !!vehicleToEdit && vehicleToEdit.scheduleIds.length > 0;
+
+  useEffect(() => {
+    setError(null);
+    if (vehicleToEdit) {
+      const { id, scheduleIds, ...vehicle } = vehicleToEdit;
+      setFormData(vehicle);
+    } else {
+      setFormData(EMPTY_VEHICLE);
+    }
+  }, [vehicleToEdit, isOpen]);
+
+  useEffect(() => {
+    api.getSeatLayouts()
+      .then(setSeatLayouts)
+      .catch(() => setError("Could not load the seat layouts."));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: name === 'capacity' ? Number(value) : value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      if (isEditMode) {
+        await api.updateVehicle(vehicleToEdit.id, formData);
+      } else {
+        await api.createVehicle(formData);
+      }
+      onSave();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={isEditMode ? `Edit ${vehicleToEdit.registrationNumber}` : "Add Vehicle"}>
+      <form onSubmit={handleSubmit} className="subadmin-form">
+        {error && <p className="auth-form__error">{error}</p>}
+
+        <Input id="registrationNumber" name="registrationNumber" label="Registration Number" placeholder="HR 26 AB 1234" value={formData.registrationNumber} onChange={handleChange} required maxLength={20} />
+        <Input id="depot" name="depot" label="Depot" value={formData.depot} onChange={handleChange} required maxLength={100} />
+
+        <div className="input-wrapper">
+          <label htmlFor="seatLayout" className="input-label">Seat Layout</label>
+          <select id="seatLayout" name="seatLayout" value={formData.seatLayout} onChange={handleChange} disabled={isInUse} className="register-form__select">
+            {seatLayouts.map(layout => (
+              <option key={layout.id} value={layout.id}>{layout.id}: {layout.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="input-wrapper">
+          <label htmlFor="busClass" className="input-label">Bus Class</label>
+          <select id="busClass" name="busClass" value={formData.busClass} onChange={handleChange} disabled={isInUse} className="register-form__select">
+            {(Object.keys(BUS_CLASS_LABELS) as BusClass[]).map(busClass => (
+              <option key={busClass} value={busClass}>{BUS_CLASS_LABELS[busClass]}</option>
+            ))}
+          </select>
+        </div>
+        {isInUse && <p className="edit-schedule-form__hint">Runs {vehicleToEdit.scheduleIds.join(', ')}; take it off those schedules to change its layout or class.</p>}
+
+        <Input id="capacity" name="capacity" label="Capacity (seats and standing)" type="number" min={1} max={200} value={formData.capacity} onChange={handleChange} required />
+        <Input id="fitnessExpiresOn" name="fitnessExpiresOn" label="Fitness Certificate Valid Until" type="date" value={formData.fitnessExpiresOn} onChange={handleChange} required />
+        <Input id="insuranceExpiresOn" name="insuranceExpiresOn" label="Insurance Valid Until" type="date" value={formData.insuranceExpiresOn} onChange={handleChange} required />
+
+        <div className="subadmin-form__actions">
+          <Button type="button" variant="secondary" onClick={onClose} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" isLoading={isLoading}>
+            {isEditMode ? "Save Changes" : "Add Vehicle"}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
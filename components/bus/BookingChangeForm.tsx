@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Calculator, Check } from 'lucide-react';
+import { api } from '../../services/api';
+import { Button } from '../common/Button';
+import { PaymentCheckout } from './PaymentCheckout';
+import { getBookableSeatIds } from './SeatLayout';
+import { useSeatLayout } from '../../hooks/useSeatLayout';
+import { formatJourneyDate } from '../../utils/journeyDate';
+import type { UserBooking, Schedule, BookingChangeRequest, BookingChangePreview, BookingChangeResult } from '../../types';
+
+interface BookingChangeFormProps {
+  booking: UserBooking;
+  schedule: Schedule;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const findStopName = (schedule: Schedule, name: string) =>
+  schedule.fullRouteStops?.find(stop => stop.name.trim().toLowerCase() === name.trim().toLowerCase())?.name || name;
+
+/**
+ * Moves a confirmed booking to other seats, another date on the same schedule, or a shorter or
+ * longer segment. The change is priced first; a higher fare is paid before it takes effect.
+ */
+export const BookingChangeForm: React.FC<BookingChangeFormProps> = ({ booking, schedule, onChanged, onClose }) => {
+  const activePassengers = useMemo(() => (booking.passengerDetails || []).filter(p => p.status !== 'CANCELLED'), [booking.passengerDetails]);
+  const stops = useMemo(() => [...(schedule.fullRouteStops || [])].sort((a, b) => a.order - b.order), [schedule.fullRouteStops]);
+
+  const [journeyDate, setJourneyDate] = useState(booking.journeyDate);
+  const [origin, setOrigin] = useState(() => findStopName(schedule, booking.origin));
+  const [destination, setDestination] = useState(() => findStopName(schedule, booking.destination));
+  const [newSeats, setNewSeats] = useState<Record<string, string>>(() =>
+    activePassengers.reduce((acc, p) => ({ ...acc, [p.seatId]: p.seatId }), {} as Record<string, string>)
+  );
+  const [takenSeats, setTakenSeats] = useState<Set<string>>(new Set());
+  const [preview, setPreview] = useState<BookingChangePreview | null>(null);
+  const [pendingChange, setPendingChange] = useState<BookingChangeResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const originOrder = stops.find(stop => stop.name === origin)?.order ?? -1;
+  const destinationOrder = stops.find(stop => stop.name === destination)?.order ?? -1;
+  const isSegmentValid = originOrder !== -1 && originOrder < destinationOrder;
+  // A leg of a connecting journey keeps its date and stops so the connection still holds.
+  const isConnectingLeg = booking.itineraryKind === 'CONNECTING';
+  // The dates the bus runs on, plus the booking's own date so it can stay put.
+  const dateOptions = useMemo(
+    () => [...new Set([booking.journeyDate, ...(schedule.runDates || [])])].sort(),
+    [booking.journeyDate, schedule.runDates]
+  );
+
+  useEffect(() => {
+    if (!isSegmentValid) return;
+    let isCurrent = true;
+    api.getSeatAvailability(booking.scheduleId, origin, destination, journeyDate)
+      .then(availability => {
+        if (isCurrent) setTakenSeats(new Set([...availability.bookedSeats, ...availability.heldSeats]));
+      })
+      .catch(() => {
+        if (isCurrent) setTakenSeats(new Set());
+      });
+    return () => { isCurrent = false; };
+  }, [booking.scheduleId, origin, destination, journeyDate, isSegmentValid]);
+
+  // The booking's own seats show as booked on its current date, but its passengers may keep or swap them.
+  const ownSeats = useMemo(
+    () => new Set(journeyDate === booking.journeyDate ? activePassengers.map(p => p.seatId) : []),
+    [journeyDate, booking.journeyDate, activePassengers]
+  );
+  const seatLayout = useSeatLayout(schedule.seatLayout);
+  const seatOptions = useMemo(
+    () => (seatLayout ? getBookableSeatIds(seatLayout) : []).filter(seatId => ownSeats.has(seatId) || !takenSeats.has(seatId)),
+    [seatLayout, ownSeats, takenSeats]
+  );
+
+  const buildRequest = (): BookingChangeRequest => {
+    const seatMoves = Object.keys(newSeats)
+      .filter(seatId => newSeats[seatId] !== seatId)
+      .reduce((acc, seatId) => ({ ...acc, [seatId]: newSeats[seatId] }), {} as Record<string, string>);
+    return { journeyDate, origin, destination, seatMoves };
+  };
+
+  const resetPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setPreview(await api.previewBookingChange(booking.id, buildRequest()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not price this change. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await api.changeBooking(booking.id, buildRequest());
+      if (result.status === 'PENDING_PAYMENT') {
+        setPendingChange(result);
+      } else {
+        onChanged();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not change the booking. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (pendingChange) {
+    return (
+      <PaymentCheckout
+        booking={{ bookingId: booking.id, status: 'CONFIRMED', amount: pendingChange.fareDifference, paymentExpiresAt: pendingChange.paymentExpiresAt }}
+        changeId={pendingChange.changeId}
+        onPaid={onChanged}
+        onCancel={onClose}
+      />
+    );
+  }
+
+  const usedSeats = Object.keys(newSeats).map(seatId => newSeats[seatId]);
+  const hasDuplicateSeats = new Set(usedSeats).size !== usedSeats.length;
+
+  return (
+    <div className="booking-change-form">
+      <div className="input-wrapper">
+        <label htmlFor={`change-date-${booking.id}`} className="input-label">Journey Date</label>
+        <select
+          id={`change-date-${booking.id}`}
+          value={journeyDate}
+          onChange={(e) => { setJourneyDate(e.target.value); resetPreview(); }}
+          className="input-field"
+          disabled={isWorking || isConnectingLeg}
+          required
+        >
+          {dateOptions.map(date => <option key={date} value={date}>{formatJourneyDate(date)}</option>)}
+        </select>
+      </div>
+      <div className="booking-change-form__segment">
+        <div className="input-wrapper">
+          <label htmlFor={`change-origin-${booking.id}`} className="input-label">From</label>
+          <select
+            id={`change-origin-${booking.id}`}
+            className="input-field"
+            value={origin}
+            onChange={(e) => { setOrigin(e.target.value); resetPreview(); }}
+            disabled={isWorking || isConnectingLeg}
+          >
+            {stops.slice(0, -1).map(stop => <option key={stop.order} value={stop.name}>{stop.name}</option>)}
+          </select>
+        </div>
+        <div className="input-wrapper">
+          <label htmlFor={`change-destination-${booking.id}`} className="input-label">To</label>
+          <select
+            id={`change-destination-${booking.id}`}
+            className="input-field"
+            value={destination}
+            onChange={(e) => { setDestination(e.target.value); resetPreview(); }}
+            disabled={isWorking || isConnectingLeg}
+          >
+            {stops.filter(stop => stop.order > originOrder).map(stop => <option key={stop.order} value={stop.name}>{stop.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="booking-change-form__seats">
+        {activePassengers.map(passenger => (
+          <div key={passenger.seatId} className="input-wrapper">
+            <label htmlFor={`change-seat-${booking.id}-${passenger.seatId}`} className="input-label">
+              {passenger.fullName} (now {passenger.seatId})
+            </label>
+            <select
+              id={`change-seat-${booking.id}-${passenger.seatId}`}
+              className="input-field"
+              value={newSeats[passenger.seatId]}
+              onChange={(e) => { setNewSeats(prev => ({ ...prev, [passenger.seatId]: e.target.value })); resetPreview(); }}
+              disabled={isWorking}
+            >
+              {seatOptions.map(seatId => <option key={seatId} value={seatId}>{seatId}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      {!isSegmentValid && <p className="booking-page__error">Choose a destination after the boarding stop.</p>}
+      {hasDuplicateSeats && <p className="booking-page__error">Two passengers cannot share a seat.</p>}
+      {preview && (
+        <p className="booking-change-form__summary">
+          {preview.fareDifference > 0 && <>You will pay <strong>₹{preview.fareDifference.toFixed(2)}</strong> more for this change.</>}
+          {preview.fareDifference < 0 && (
+            <>
+              You will be refunded <strong>₹{preview.refundAmount.toFixed(2)}</strong>
+              {preview.cancellationFee > 0 && <> after a ₹{preview.cancellationFee.toFixed(2)} cancellation fee on the ₹{(-preview.fareDifference).toFixed(2)} fare difference</>}.
+            </>
+          )}
+          {preview.fareDifference === 0 && <>This change costs nothing extra.</>}
+        </p>
+      )}
+      {error && <p className="booking-page__error">{error}</p>}
+
+      <div className="booking-page__modal-actions">
+        <Button onClick={onClose} variant="secondary" disabled={isWorking}>Back</Button>
+        {preview ? (
+          <Button onClick={handleConfirm} isLoading={isWorking} disabled={isWorking}>
+            <Check size={18} /> {preview.fareDifference > 0 ? 'Continue to Payment' : 'Confirm Change'}
+          </Button>
+        ) : (
+          <Button onClick={handlePreview} isLoading={isWorking} disabled={isWorking || !isSegmentValid || hasDuplicateSeats}>
+            <Calculator size={18} /> Check Fare
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
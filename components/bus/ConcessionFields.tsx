@@ -0,0 +1,62 @@
+import React from 'react';
+import { Input } from '../common/Input';
+import type { ConcessionCategory, WaitlistPassenger } from '../../types';
+import { PROOF_TYPE_LABELS, hasAgeBand } from '../../utils/concessions';
+
+interface ConcessionFieldsProps {
+  idPrefix: string;
+  category: ConcessionCategory;
+  passenger: WaitlistPassenger;
+  maxDob: string; // The journey date; nobody can travel before they are born
+  error: string | null;
+  onChange: (field: 'dob' | 'aadhaarNumber' | 'proofNumber', value: string) => void;
+}
+
+/**
+ * The date of birth and proof document a concession passenger gives, for the forms that take
+ * passengers before seats are chosen.
+ */
+export const ConcessionFields: React.FC<ConcessionFieldsProps> = ({ idPrefix, category, passenger, maxDob, error, onChange }) => {
+  const isAadhaar = category.proofType === 'AADHAAR';
+  const hasProof = Boolean(isAadhaar ? passenger.aadhaarNumber : passenger.proofNumber);
+
+  return (
+    <>
+      {hasAgeBand(category) && (
+        <Input
+          id={`${idPrefix}-dob`}
+          label="Date of Birth"
+          type="date"
+          value={passenger.dob || ''}
+          onChange={(e) => onChange('dob', e.target.value)}
+          max={maxDob}
+          required
+        />
+      )}
+      {isAadhaar ? (
+        <Input
+          id={`${idPrefix}-aadhaar`}
+          label="Aadhaar Number"
+          value={passenger.aadhaarNumber || ''}
+          onChange={(e) => onChange('aadhaarNumber', e.target.value.replace(/\D/g, '').slice(0, 12))}
+          placeholder="Enter 12-digit number"
+          maxLength={12}
+          required
+        />
+      ) : (
+        <Input
+          id={`${idPrefix}-proof`}
+          label={PROOF_TYPE_LABELS[category.proofType]}
+          value={passenger.proofNumber || ''}
+          onChange={(e) => onChange('proofNumber', e.target.value.trim().toUpperCase())}
+          placeholder="As printed on the document"
+          maxLength={30}
+          required
+        />
+      )}
+      {(passenger.dob || hasProof) && error && (
+        <p className="seat-details-editor-card__error">{error}</p>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Ticket, CheckCircle, ArrowRight } from 'lucide-react';
+import { api } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { useSeatEvents } from '../../hooks/useSeatEvents';
+import { useConcessionCategories } from '../../hooks/useConcessionCategories';
+import { useSeatLayout } from '../../hooks/useSeatLayout';
+import { SeatLayout } from './SeatLayout';
+import { PaymentCheckout } from './PaymentCheckout';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Card } from '../common/Card';
+import { Modal } from '../common/Modal';
+import { BackButton } from '../common/BackButton';
+import { formatJourneyDate, formatClockTime, formatDuration } from '../../utils/journeyDate';
+import { getAvailableCategories, getConcessionError } from '../../utils/concessions';
+import { ConcessionFields } from './ConcessionFields';
+import type { Itinerary, JourneyLeg, ItineraryBookingResult, WaitlistPassenger, SeatEvent, SeatEventType } from '../../types';
+
+const MAX_PASSENGERS = 5;
+
+const emptyPassenger = (): WaitlistPassenger => ({ fullName: '', type: 'NORMAL', dob: '', aadhaarNumber: '', proofNumber: '' });
+
+interface LegSeatPickerProps {
+  leg: JourneyLeg;
+  label: string;
+  seatCount: number;
+  selectedSeats: string[];
+  onSelectedSeatsChange: (seatIds: string[]) => void;
+  disabled: boolean;
+}
+
+/**
+ * Seat map for one leg. Seats are held while they are selected and the holds are given up
+ * when the leg is left without booking.
+ */
+const LegSeatPicker: React.FC<LegSeatPickerProps> = ({ leg, label, seatCount, selectedSeats, onSelectedSeatsChange, disabled }) => {
+  const [bookedSeats, setBookedSeats] = useState<string[]>([]);
+  const [heldSeats, setHeldSeats] = useState<string[]>([]);
+  const [pendingSeatId, setPendingSeatId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const seatLayout = useSeatLayout(leg.seatLayout);
+
+  const refreshSeatAvailability = useCallback(async () => {
+    try {
+      const availability = await api.getSeatAvailability(leg.scheduleId, leg.origin, leg.destination, leg.journeyDate);
+      setBookedSeats(availability.bookedSeats);
+      setHeldSeats(availability.heldSeats);
+    } catch (err) {
+      setError("Could not load seat availability for this leg.");
+    }
+  }, [leg.scheduleId, leg.origin, leg.destination, leg.journeyDate]);
+
+  useEffect(() => {
+    refreshSeatAvailability();
+    return () => {
+      api.releaseSeatHolds(leg.scheduleId, leg.journeyDate).catch(() => {});
+    };
+  }, [refreshSeatAvailability, leg.scheduleId, leg.journeyDate]);
+
+  const isOwnSeat = (seatId: string) => selectedSeats.includes(seatId) || seatId === pendingSeatId;
+
+  useSeatEvents(leg.scheduleId, leg.origin, leg.destination, leg.journeyDate, {
+    onSnapshot: (availability) => {
+      setBookedSeats(availability.bookedSeats);
+      setHeldSeats(availability.heldSeats.filter(seatId => !isOwnSeat(seatId)));
+    },
+    onSeatEvent: (type: SeatEventType, { seatIds }: SeatEvent) => {
+      switch (type) {
+        case 'booked':
+          setBookedSeats(prev => [...prev.filter(seatId => !seatIds.includes(seatId)), ...seatIds]);
+          setHeldSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+          break;
+        case 'cancelled':
+          setBookedSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+          break;
+        case 'held': {
+          const othersSeats = seatIds.filter(seatId => !isOwnSeat(seatId));
+          setHeldSeats(prev => [...prev.filter(seatId => !othersSeats.includes(seatId)), ...othersSeats]);
+          break;
+        }
+        case 'released':
+          setHeldSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+          break;
+      }
+    },
+  });
+
+  const handleSeatClick = async (seatId: string) => {
+    if (disabled || pendingSeatId) return;
+    setError(null);
+    if (selectedSeats.includes(seatId)) {
+      onSelectedSeatsChange(selectedSeats.filter(s => s !== seatId));
+      api.releaseSeatHolds(leg.scheduleId, leg.journeyDate, seatId).catch(() => {});
+      return;
+    }
+    if (selectedSeats.length >= seatCount) {
+      setError(`Select one seat per passenger (${seatCount}).`);
+      return;
+    }
+    setPendingSeatId(seatId);
+    try {
+      await api.holdSeat(leg.scheduleId, seatId, leg.origin, leg.destination, leg.journeyDate);
+      onSelectedSeatsChange([...selectedSeats, seatId]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not hold seat ${seatId}. Please try again.`);
+      refreshSeatAvailability();
+    } finally {
+      setPendingSeatId(null);
+    }
+  };
+
+  return (
+    <Card className="itinerary-booking__leg">
+      <h2 className="itinerary-booking__leg-title">
+        {label}: {leg.busName}
+      </h2>
+      <p className="itinerary-booking__leg-route">
+        {leg.origin} {formatClockTime(leg.departure)} <ArrowRight size={16} /> {leg.destination} {formatClockTime(leg.arrival)}
+        {' '}&middot; {formatJourneyDate(leg.journeyDate)} &middot; ₹{leg.fare.toFixed(2)} per seat
+      </p>
+      <SeatLayout
+        layout={seatLayout}
+        bookedSeats={bookedSeats}
+        heldSeats={heldSeats}
+        selectedSeats={selectedSeats}
+        onSeatClick={handleSeatClick}
+        disableSelection={disabled || selectedSeats.length >= seatCount}
+      />
+      <p className="itinerary-booking__leg-count">Selected seats: {selectedSeats.length} / {seatCount}</p>
+      {error && <p className="booking-page__error">{error}</p>}
+    </Card>
+  );
+};
+
+interface ItineraryBookingProps {
+  itinerary: Itinerary;
+}
+
+/**
+ * Books every leg of a connecting journey or round trip for the same passengers. The legs
+ * become separate bookings linked as one itinerary and are paid for in a single payment.
+ */
+export const ItineraryBooking: React.FC<ItineraryBookingProps> = ({ itinerary }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { legs } = itinerary;
+  const isRoundTrip = itinerary.kind === 'ROUND_TRIP';
+  const legLabel = (index: number) => isRoundTrip ? (index === 0 ? 'Outbound' : 'Return') : `Leg ${index + 1}`;
+
+  const [passengers, setPassengers] = useState<WaitlistPassenger[]>(() => [{ ...emptyPassenger(), fullName: user?.fullName || '' }]);
+  const [legSeats, setLegSeats] = useState<string[][]>(() => legs.map(() => []));
+  const [pendingItinerary, setPendingItinerary] = useState<ItineraryBookingResult | null>(null);
+  const [isConfirmed, setIsConfirmed] = useState(false);
+  const [isBooking, setIsBooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const allCategories = useConcessionCategories();
+  // The concessions each leg's bus offers; a passenger travels at the normal fare on legs that do not offer theirs.
+  const legCategories = legs.map(leg => leg.isDiscountEnabled ? getAvailableCategories(allCategories, leg.startDistrict) : []);
+  const categories = allCategories.filter(category => legCategories.some(offered => offered.includes(category)));
+
+  const handleCountChange = (count: number) => {
+    setPassengers(prev => Array.from({ length: count }, (_, i) => prev[i] || emptyPassenger()));
+    // Extra seats beyond the new count are dropped; their holds lapse on their own.
+    setLegSeats(prev => prev.map(seatIds => seatIds.slice(0, count)));
+  };
+
+  const handlePassengerChange = (index: number, field: keyof WaitlistPassenger, value: string | boolean | undefined) => {
+    setPassengers(prev => prev.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  const handleLegSeatsChange = (legIndex: number, seatIds: string[]) => {
+    setLegSeats(prev => prev.map((current, i) => i === legIndex ? seatIds : current));
+  };
+
+  // Legs can fall on different days, so a concession must hold on each leg's journey date.
+  const passengerCategories = passengers.map(p => categories.find(c => c.code === p.type));
+  const concessionErrors = passengers.map((p, index) =>
+    legs.map(leg => getConcessionError(p, leg.journeyDate, passengerCategories[index])).find(message => message !== null) || null
+  );
+  const isIncomplete = passengers.some((p, index) => !p.fullName.trim() || concessionErrors[index] !== null)
+    || legSeats.some(seatIds => seatIds.length !== passengers.length);
+
+  const handleConfirm = async () => {
+    setIsBooking(true);
+    setError(null);
+    try {
+      const result = await api.bookItinerary(
+        legs.map((leg, index) => ({
+          scheduleId: leg.scheduleId,
+          origin: leg.origin,
+          destination: leg.destination,
+          journeyDate: leg.journeyDate,
+          seatIds: legSeats[index],
+        })),
+        passengers,
+        itinerary.kind ?? 'CONNECTING'
+      );
+      if (result.status === 'PENDING_PAYMENT') {
+        setPendingItinerary(result);
+      } else {
+        setIsConfirmed(true);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not book this journey. Please try again.");
+    } finally {
+      setIsBooking(false);
+    }
+  };
+
+  const handlePaid = useCallback(() => {
+    setPendingItinerary(null);
+    setIsConfirmed(true);
+  }, []);
+
+  const handleCancelCheckout = async () => {
+    if (!pendingItinerary) return;
+    try {
+      await api.abandonBooking(pendingItinerary.bookingId);
+    } catch (err) {
+      // The bookings may already have expired; their seats are released either way.
+      console.error("Could not cancel the unpaid journey.", err);
+    }
+    setPendingItinerary(null);
+    setLegSeats(legs.map(() => []));
+    setError("Your unpaid journey was cancelled and the seats were released.");
+  };
+
+  return (
+    <div className="container booking-page">
+      <div className="page-header-with-back">
+        <BackButton />
+        <div>
+          <h1 className="booking-page__title">{isRoundTrip ? 'Book Your Round Trip' : 'Book Your Journey'}</h1>
+          {isRoundTrip ? (
+            <p className="booking-page__subtitle">
+              {legs[0].origin} to {legs[0].destination} and back &middot; {formatJourneyDate(legs[0].journeyDate)} to {formatJourneyDate(legs[1].journeyDate)}
+            </p>
+          ) : (
+            <p className="booking-page__subtitle">
+              {legs[0].origin} to {legs[legs.length - 1].destination} &middot; {formatJourneyDate(legs[0].journeyDate)}
+              {' '}&middot; {formatDuration(itinerary.durationMinutes)} with {itinerary.changes === 1 ? '1 change' : `${itinerary.changes} changes`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="booking-page__layout">
+        <div className="itinerary-booking__legs">
+          {legs.map((leg, index) => (
+            <LegSeatPicker
+              key={`${leg.scheduleId}-${leg.journeyDate}`}
+              leg={leg}
+              label={legLabel(index)}
+              seatCount={passengers.length}
+              selectedSeats={legSeats[index]}
+              onSelectedSeatsChange={(seatIds) => handleLegSeatsChange(index, seatIds)}
+              disabled={isBooking || pendingItinerary !== null || isConfirmed}
+            />
+          ))}
+        </div>
+        <div className="booking-page__summary-area">
+          <Card className="booking-page__summary-card">
+            <h2 className="booking-page__summary-title">{isRoundTrip ? 'Round Trip Summary' : 'Journey Summary'}</h2>
+            <div className="input-wrapper">
+              <label htmlFor="itinerary-count" className="input-label">Passengers</label>
+              <select
+                id="itinerary-count"
+                className="input-field"
+                value={passengers.length}
+                onChange={(e) => handleCountChange(Number(e.target.value))}
+                disabled={isBooking}
+              >
+                {Array.from({ length: MAX_PASSENGERS }, (_, i) => i + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </div>
+            <div className="booking-page__seat-details-container">
+              {passengers.map((passenger, index) => (
+                <div key={index} className="seat-details-editor-card">
+                  <div className="seat-details-editor-card__header">
+                    <span className="seat-details-editor-card__seat-id">
+                      Passenger {index + 1}
+                      {legSeats.every(seatIds => seatIds[index]) && ` (seats ${legSeats.map(seatIds => seatIds[index]).join(', ')})`}
+                    </span>
+                  </div>
+                  <div className="input-wrapper">
+                    <label htmlFor={`itinerary-type-${index}`} className="input-label">Ticket Type</label>
+                    <select
+                      id={`itinerary-type-${index}`}
+                      className="input-field"
+                      value={passenger.type}
+                      onChange={(e) => handlePassengerChange(index, 'type', e.target.value)}
+                    >
+                      <option value="NORMAL">Normal</option>
+                      {categories.map(category => (
+                        <option key={category.code} value={category.code}>{category.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <Input
+                    id={`itinerary-name-${index}`}
+                    label="Full Name"
+                    value={passenger.fullName}
+                    onChange={(e) => handlePassengerChange(index, 'fullName', e.target.value)}
+                    placeholder="Enter passenger's full name"
+                    required
+                  />
+                  <div className="input-wrapper">
+                    <label htmlFor={`itinerary-gender-${index}`} className="input-label">Gender (for ladies seats)</label>
+                    <select
+                      id={`itinerary-gender-${index}`}
+                      className="input-field"
+                      value={passenger.gender || ''}
+                      onChange={(e) => handlePassengerChange(index, 'gender', e.target.value || undefined)}
+                    >
+                      <option value="">Prefer not to say</option>
+                      <option value="FEMALE">Female</option>
+                      <option value="MALE">Male</option>
+                      <option value="OTHER">Other</option>
+                    </select>
+                  </div>
+                  <label className="seat-details-editor-card__checkbox">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(passenger.hasDisability)}
+                      onChange={(e) => handlePassengerChange(index, 'hasDisability', e.target.checked)}
+                    />
+                    Has a disability (for reserved seats)
+                  </label>
+                  {passengerCategories[index] && (
+                    <ConcessionFields
+                      idPrefix={`itinerary-${index}`}
+                      category={passengerCategories[index]}
+                      passenger={passenger}
+                      maxDob={legs[0].journeyDate}
+                      error={concessionErrors[index]}
+                      onChange={(field, value) => handlePassengerChange(index, field, value)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            {passengerCategories.some(category => category && legCategories.some(offered => !offered.includes(category))) && (
+              <p className="booking-page__info-notice notice-waitlist">
+                Concessions only apply on legs whose bus offers them; other legs are charged the normal fare.
+              </p>
+            )}
+            <div className="booking-page__total-fare">
+              <span className="booking-page__total-fare-label">Normal Fare:</span>
+              <span className="booking-page__total-fare-value">₹{(itinerary.totalFare * passengers.length).toFixed(2)}</span>
+            </div>
+            {error && <p className="booking-page__error">{error}</p>}
+            <Button onClick={handleConfirm} isLoading={isBooking} disabled={isBooking || isIncomplete} className="booking-page__confirm-btn">
+              <Ticket size={20} /> Confirm Journey
+            </Button>
+          </Card>
+        </div>
+      </div>
+
+      <Modal isOpen={pendingItinerary !== null} onClose={handleCancelCheckout} title="Complete Payment">
+        {pendingItinerary && (
+          <PaymentCheckout booking={pendingItinerary} onPaid={handlePaid} onCancel={handleCancelCheckout} />
+        )}
+      </Modal>
+      <Modal isOpen={isConfirmed} onClose={() => navigate('/')} title={isRoundTrip ? 'Round Trip Booked!' : 'Journey Booked!'}>
+        <div className="booking-page__modal-content">
+          <CheckCircle className="booking-page__modal-icon" />
+          <p className="booking-page__modal-text1">
+            {isRoundTrip ? 'Your outbound and return journeys are booked.' : `All ${legs.length} legs of your journey are booked.`}
+          </p>
+          <p className="booking-page__modal-text2">
+            Each leg has its own ticket in <Link to="/dashboard">My Bookings</Link>.
+          </p>
+          <div className="booking-page__modal-actions">
+            <Button onClick={() => navigate('/dashboard')}>View Bookings</Button>
+            <Button onClick={() => navigate('/')} variant="secondary">Close</Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
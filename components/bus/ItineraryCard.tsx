@@ -0,0 +1,79 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { Itinerary, UserRole } from '../../types';
+import { UserRole as UserRoleEnum } from '../../types';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { Clock, ArrowRight, IndianRupee, Repeat } from 'lucide-react';
+import { formatDuration, formatClockTime } from '../../utils/journeyDate';
+
+interface ItineraryCardProps {
+  itinerary: Itinerary;
+  userRole?: UserRole;
+}
+
+/**
+ * A journey with one or more changes of bus, leg by leg, with the wait at each change.
+ */
+export const ItineraryCard: React.FC<ItineraryCardProps> = ({ itinerary, userRole }) => {
+  const { legs } = itinerary;
+  const canBook = !userRole || userRole === UserRoleEnum.USER;
+  const changeLabel = itinerary.changes === 1 ? '1 change' : `${itinerary.changes} changes`;
+
+  return (
+    <Card>
+      <div className="schedule-card__container">
+        <div className="schedule-card__details">
+          <div className="schedule-card__route">
+            <span>{legs[0].origin}</span>
+            <ArrowRight size={20} className="schedule-card__route-arrow" />
+            <span>{legs[legs.length - 1].destination}</span>
+          </div>
+          <div className="schedule-card__meta">
+            <div className="schedule-card__meta-item">
+              <Clock size={16} />
+              <span>{formatClockTime(itinerary.departure)} - {formatClockTime(itinerary.arrival)} ({formatDuration(itinerary.durationMinutes)})</span>
+            </div>
+            <div className="schedule-card__meta-item">
+              <Repeat size={16} />
+              <span>{changeLabel}</span>
+            </div>
+            <div className="schedule-card__meta-item">
+              <IndianRupee size={16} />
+              <span>{itinerary.totalFare.toFixed(2)}</span>
+            </div>
+          </div>
+          <ol className="itinerary-card__legs">
+            {legs.map((leg, index) => {
+              const previous = legs[index - 1];
+              const waitMinutes = previous
+                ? Math.round((new Date(leg.departure).getTime() - new Date(previous.arrival).getTime()) / 60000)
+                : 0;
+              return (
+                <li key={`${leg.scheduleId}-${leg.journeyDate}`} className="itinerary-card__leg">
+                  {previous && (
+                    <span className="itinerary-card__transfer">Change at {leg.origin}, {formatDuration(waitMinutes)} wait</span>
+                  )}
+                  <span>
+                    <strong>{leg.busName}</strong>: {leg.origin} {formatClockTime(leg.departure)} → {leg.destination} {formatClockTime(leg.arrival)}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+        <div className="schedule-card__actions">
+          {canBook && (
+            itinerary.bookingEnabled ? (
+              <Link to={`/book/${legs[0].scheduleId}`} state={{ itinerary }}>
+                <Button variant="primary">Book Journey</Button>
+              </Link>
+            ) : (
+              <Button variant="secondary" disabled>Booking Unavailable</Button>
+            )
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
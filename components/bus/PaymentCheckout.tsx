@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import { CreditCard, Clock } from 'lucide-react';
+import { api } from '../../services/api';
+import { Button } from '../common/Button';
+import type { BookingResult, Payment, PaymentSimulation } from '../../types';
+
+interface PaymentCheckoutProps {
+  booking: BookingResult;
+  // Set when paying the extra fare of a booking change rather than the booking itself.
+  changeId?: string;
+  onPaid: () => void;
+  onCancel: () => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+const SIMULATION_OPTIONS: { value: PaymentSimulation; label: string }[] = [
+  { value: 'success', label: 'Payment succeeds' },
+  { value: 'failure', label: 'Payment is declined' },
+  { value: 'timeout', label: 'Gateway never responds' },
+];
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const PaymentCheckout: React.FC<PaymentCheckoutProps> = ({ booking, changeId, onPaid, onCancel }) => {
+  const [simulate, setSimulate] = useState<PaymentSimulation>('success');
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [timeLeftMs, setTimeLeftMs] = useState(() =>
+    booking.paymentExpiresAt ? new Date(booking.paymentExpiresAt).getTime() - Date.now() : 0
+  );
+
+  const isProcessing = isStarting || payment?.status === 'PROCESSING';
+  const isWindowClosed = timeLeftMs <= 0;
+
+  useEffect(() => {
+    if (!booking.paymentExpiresAt) return;
+    const deadline = new Date(booking.paymentExpiresAt).getTime();
+    const timer = setInterval(() => setTimeLeftMs(deadline - Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [booking.paymentExpiresAt]);
+
+  // The gateway reports the outcome to the server; poll until it has.
+  useEffect(() => {
+    if (payment?.status !== 'PROCESSING') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setPayment(await api.getPayment(payment.id));
+      } catch (err) {
+        // Keep polling; a transient error should not abandon the payment.
+        setPayment({ ...payment });
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [payment]);
+
+  useEffect(() => {
+    if (!payment) return;
+    if (payment.status === 'SUCCEEDED' && payment.fulfilled) {
+      onPaid();
+    } else if (payment.status === 'SUCCEEDED') {
+      setError(payment.failureReason || (changeId
+        ? "Your payment arrived after this change was released. It will be refunded; please make the change again."
+        : "Your payment arrived after this booking was released. It will be refunded; please book again."));
+    } else if (payment.status === 'FAILED' || payment.status === 'EXPIRED') {
+      setError(payment.failureReason || "The payment did not go through. Please try again.");
+    }
+  }, [payment, onPaid, changeId]);
+
+  const handlePay = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      setPayment(await api.startPayment(booking.bookingId, simulate, changeId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start the payment. Please try again.");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="payment-checkout">
+      <div className="payment-checkout__amount">
+        <span>Amount to pay</span>
+        <strong>₹{booking.amount.toFixed(2)}</strong>
+      </div>
+      <p className="payment-checkout__timer">
+        <Clock size={16} />
+        {isWindowClosed
+          ? (changeId ? "The payment window has closed and the change has been released." : "The payment window has closed and your seats have been released.")
+          : `Complete payment within ${formatCountdown(timeLeftMs)} to keep your ${changeId ? 'new ' : ''}seats.`}
+      </p>
+
+      <div className="input-wrapper">
+        <label htmlFor="payment-simulation" className="input-label">Test gateway outcome</label>
+        <select
+          id="payment-simulation"
+          value={simulate}
+          onChange={(e) => setSimulate(e.target.value as PaymentSimulation)}
+          className="input-field"
+          disabled={isProcessing || isWindowClosed}
+        >
+          {SIMULATION_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {payment?.status === 'PROCESSING' && (
+        <p className="payment-checkout__status">Waiting for the payment gateway to confirm your payment...</p>
+      )}
+      {error && <p className="booking-page__error">{error}</p>}
+
+      <div className="booking-page__modal-actions">
+        <Button onClick={handlePay} isLoading={isProcessing} disabled={isProcessing || isWindowClosed}>
+          <CreditCard size={18} />
+          {payment ? 'Retry Payment' : `Pay ₹${booking.amount.toFixed(2)}`}
+        </Button>
+        <Button onClick={onCancel} variant="secondary" disabled={isProcessing}>
+          {isWindowClosed ? 'Close' : changeId ? 'Keep Current Booking' : 'Cancel Booking'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -3,8 +3,11 @@ import { Link } from 'react-router-dom';
 import type { Schedule, UserRole, BusLocation } from '../../types';
 import { Card } from '../common/Card';
 import { Button } from '../common/Button';
-import { Clock, ArrowRight, MapPin, Users, IndianRupee, Edit } from 'lucide-react';
+import { Clock, ArrowRight, MapPin, Users, IndianRupee, Edit, Check } from 'lucide-react';
 import { UserRole as UserRoleEnum } from '../../types';
+import { getTodayDateString } from '../../utils/journeyDate';
+import { BUS_CLASS_LABELS } from '../../constants';
+import { describeCalendar } from '../../utils/operatingCalendar';
 
 
 interface ScheduleCardProps {
@@ -13,17 +16,26 @@ interface ScheduleCardProps {
   onEdit?: () => void;
   userRole?: UserRole;
   busLocation?: BusLocation | null;
+  journeyDate?: string;
+  // When set, the card picks this schedule (e.g. one leg of a round trip) instead of booking it.
+  onSelect?: () => void;
+  isSelected?: boolean;
 }
 
-export const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, showBookingButton = true, onEdit, userRole, busLocation }) => {
+export const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, showBookingButton = true, onEdit, userRole, busLocation, journeyDate, onSelect, isSelected = false }) => {
   const isSegmentSearch = schedule.userOrigin && schedule.userDestination;
   
   const bookingStatus = useMemo(() => {
+    if (schedule.tripStatus === 'CANCELLED') {
+        return { enabled: false, message: 'Trip Cancelled' };
+    }
     if (!schedule.bookingEnabled) {
         return { enabled: false, message: 'Booking Unavailable' };
     }
 
-    if (!busLocation || !busLocation.routeStops || busLocation.routeStops.length === 0) {
+    // Live tracking describes today's run only; future journeys are always bookable.
+    const isTodayJourney = !journeyDate || journeyDate === getTodayDateString();
+    if (!isTodayJourney || !busLocation || !busLocation.routeStops || busLocation.routeStops.length === 0) {
         return { enabled: true, message: 'Book Seats' };
     }
 
@@ -56,16 +68,23 @@ export const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, showBookin
     }
 
     return { enabled: true, message: 'Book Seats' };
-  }, [schedule, busLocation]);
+  }, [schedule, busLocation, journeyDate]);
 
   const canBook = showBookingButton && (!userRole || userRole === UserRoleEnum.USER);
 
   return (
-    <Card>
+    <Card className={isSelected ? 'schedule-card--selected' : ''}>
       <div className="schedule-card__container">
         <div className="schedule-card__details">
           <h3 className="schedule-card__bus-name">{schedule.busName}</h3>
+          {schedule.tripStatus === 'CANCELLED' ? (
+            <span className="trip-chip trip-chip--cancelled">Cancelled on this date</span>
+          ) : !!schedule.delayMinutes && (
+            <span className="trip-chip trip-chip--delayed">Running {schedule.delayMinutes} min late</span>
+          )}
+          {schedule.tripNote && <p className="schedule-card__trip-note">{schedule.tripNote}</p>}
           <p className="schedule-card__id">Route ID: {schedule.id}</p>
+          {schedule.calendar && <p className="schedule-card__calendar">Runs: {describeCalendar(schedule.calendar)}</p>}
           
           {(isSegmentSearch || (schedule.origin && schedule.destination)) && (
             <div className="schedule-card__route">
@@ -87,7 +106,7 @@ export const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, showBookin
             </div>
             <div className="schedule-card__meta-item">
               <Users size={16} />
-              <span>{schedule.seatLayout} Layout</span>
+              <span>{schedule.seatLayout} Layout{schedule.busClass && ` · ${BUS_CLASS_LABELS[schedule.busClass]}`}</span>
             </div>
             {schedule.fare > 0 && (
               <div className="schedule-card__meta-item">
@@ -115,13 +134,18 @@ export const ScheduleCard: React.FC<ScheduleCardProps> = ({ schedule, showBookin
               </Button>
            )}
           {canBook && (
-            bookingStatus.enabled ? (
+            bookingStatus.enabled && onSelect ? (
+              <Button variant={isSelected ? 'primary' : 'secondary'} onClick={onSelect}>
+                {isSelected ? <><Check size={16} /> Selected</> : 'Select'}
+              </Button>
+            ) : bookingStatus.enabled ? (
               <Link 
                 to={`/book/${schedule.id}`} 
                 state={{
                   fare: schedule.fare,
                   userOrigin: isSegmentSearch ? schedule.userOrigin : schedule.origin,
                   userDestination: isSegmentSearch ? schedule.userDestination : schedule.destination,
+                  journeyDate,
                 }}
               >
                 <Button variant="primary">{bookingStatus.message}</Button>
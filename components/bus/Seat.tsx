@@ -1,13 +1,40 @@
 import React from 'react';
+import type { SeatType, SeatAttribute } from '../../types';
+
+// 'held' seats are reserved by another passenger who is checking out.
+export type SeatStatus = 'available' | 'booked' | 'held' | 'selected' | 'disabled';
 
 interface SeatProps {
   seatId: string;
-  status: 'available' | 'booked' | 'selected' | 'disabled';
+  status: SeatStatus;
   onClick: (seatId: string) => void;
+  type?: SeatType;
+  attributes?: SeatAttribute[];
+  style?: React.CSSProperties; // Places the seat on its deck's grid
 }
 
-export const Seat: React.FC<SeatProps> = ({ seatId, status, onClick }) => {
+export const SEAT_ATTRIBUTE_LABELS: Record<SeatAttribute, string> = {
+  WINDOW: 'window',
+  LADIES: 'ladies',
+  DISABLED: 'for passengers with a disability',
+  CONDUCTOR_QUOTA: "conductor's quota, sold on board",
+};
+
+// Window seats look like any other; reserved seats are marked.
+const ATTRIBUTE_CLASSES: Record<SeatAttribute, string> = {
+  WINDOW: '',
+  LADIES: 'seat--ladies',
+  DISABLED: 'seat--accessible',
+  CONDUCTOR_QUOTA: 'seat--quota',
+};
+
+export const Seat: React.FC<SeatProps> = ({ seatId, status, onClick, type = 'SEATER', attributes = [], style }) => {
   const statusClass = `seat--${status}`;
+  const modifierClasses = [
+    type === 'SLEEPER' ? 'seat--sleeper' : '',
+    ...attributes.map(attribute => ATTRIBUTE_CLASSES[attribute]),
+  ].filter(Boolean).join(' ');
+  const description = [type === 'SLEEPER' ? 'sleeper' : '', ...attributes.map(attribute => SEAT_ATTRIBUTE_LABELS[attribute])].filter(Boolean).join(', ');
 
   const handleClick = () => {
     if (status === 'available' || status === 'selected') {
@@ -17,12 +44,13 @@ export const Seat: React.FC<SeatProps> = ({ seatId, status, onClick }) => {
 
   return (
     <div
-      className={`seat ${statusClass}`}
+      className={`seat ${statusClass} ${modifierClasses}`.trim()}
+      style={style}
       onClick={handleClick}
-      title={`Seat ${seatId}`}
-      aria-label={`Seat ${seatId}, ${status}`}
+      title={status === 'held' ? `Seat ${seatId} is being booked by another passenger` : `Seat ${seatId}${description ? ` (${description})` : ''}`}
+      aria-label={`Seat ${seatId}${description ? `, ${description}` : ''}, ${status}`}
     >
       {seatId}
     </div>
   );
-};
\ No newline at end of file
+};
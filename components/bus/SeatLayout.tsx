@@ -1,75 +1,100 @@
 import React from 'react';
-import type { SeatLayout as SeatLayoutType } from '../../types';
+import type { SeatLayoutDefinition, LayoutSeat } from '../../types';
 import { Seat } from './Seat';
+import type { SeatStatus } from './Seat';
 
 interface SeatLayoutProps {
-  layout: SeatLayoutType;
+  layout: SeatLayoutDefinition | null; // Null while it loads
   bookedSeats: string[];
+  heldSeats: string[];
   selectedSeats: string[];
   onSeatClick: (seatId: string) => void;
   disableSelection: boolean;
 }
 
-const generateSeats = (rows: number, cols: number, letters: string[]) => {
-    const seats = [];
-    for (let i = 0; i < rows; i++) {
-        const rowSeats = [];
-        for (let j = 0; j < cols; j++) {
-            rowSeats.push(`${letters[i]}${j + 1}`);
-        }
-        seats.push(rowSeats);
-    }
-    return seats;
-}
+const sortSeats = (seats: LayoutSeat[]): LayoutSeat[] =>
+  [...seats].sort((a, b) => a.deck - b.deck || a.row - b.row || a.column - b.column);
 
-export const SeatLayout: React.FC<SeatLayoutProps> = ({ layout, bookedSeats, selectedSeats, onSeatClick, disableSelection }) => {
-  const getSeatStatus = (seatId: string): 'available' | 'booked' | 'selected' | 'disabled' => {
-    if (selectedSeats.includes(seatId)) return 'selected';
-    if (bookedSeats.includes(seatId)) return 'booked';
-    if (disableSelection) return 'disabled';
-    return 'available';
-  };
+/**
+ * Lists every seat of a layout a passenger can book online, lower deck and front row first.
+ * The conductor's quota is left out. Mirrors listSeatIds in backend/seatLayouts.js.
+ */
+export const getBookableSeatIds = (layout: SeatLayoutDefinition): string[] =>
+  sortSeats(layout.seats).filter(seat => !seat.attributes.includes('CONDUCTOR_QUOTA')).map(seat => seat.id);
+
+/**
+ * Places a seat on its deck's grid. A sleeper berth takes its row and the one behind.
+ */
+export const getSeatGridStyle = (seat: Pick<LayoutSeat, 'row' | 'column' | 'type'>): React.CSSProperties => ({
+  gridRow: seat.type === 'SLEEPER' ? `${seat.row} / span 2` : seat.row,
+  gridColumn: seat.column,
+});
 
-  const layoutConfig = {
-    '2x2': { rows: 10, cols: [2, 2], letters: ['A', 'B', 'C', 'D'] },
-    '2x3': { rows: 10, cols: [2, 3], letters: ['A', 'B', 'C', 'D', 'E'] },
-    '2x1': { rows: 10, cols: [2, 1], letters: ['A', 'B', 'C'] },
+/**
+ * The grid template for a deck: columns without seats are aisles, rows without seats are gaps.
+ */
+export const getDeckGridStyle = (deck: { rows: number; columns: number }): React.CSSProperties => ({
+  gridTemplateColumns: `repeat(${deck.columns}, minmax(2rem, auto))`,
+  gridTemplateRows: `repeat(${deck.rows}, minmax(1.5rem, auto))`,
+});
+
+export const SeatLayout: React.FC<SeatLayoutProps> = ({ layout, bookedSeats, heldSeats, selectedSeats, onSeatClick, disableSelection }) => {
+  const getSeatStatus = (seat: LayoutSeat): SeatStatus => {
+    if (selectedSeats.includes(seat.id)) return 'selected';
+    if (bookedSeats.includes(seat.id)) return 'booked';
+    if (heldSeats.includes(seat.id)) return 'held';
+    if (disableSelection || seat.attributes.includes('CONDUCTOR_QUOTA')) return 'disabled';
+    return 'available';
   };
 
-  const config = layoutConfig[layout];
-  const seatGrid = [];
-  for (let row = 1; row <= config.rows; row++) {
-    const rowSeats: React.ReactNode[] = [];
-    let seatLetterIndex = 0;
-    for (let colGroup of config.cols) {
-        for (let i = 0; i < colGroup; i++) {
-            const seatId = `${config.letters[seatLetterIndex++]}${row}`;
-            rowSeats.push(
-              <Seat key={seatId} seatId={seatId} status={getSeatStatus(seatId)} onClick={onSeatClick} />
-            );
-        }
-        if (colGroup !== config.cols[config.cols.length-1]) {
-            rowSeats.push(<div key={`aisle-${row}`} className="seat-layout__aisle"></div>);
-        }
-    }
-    seatGrid.push(<div key={row} className="seat-layout__row">{rowSeats}</div>);
+  if (!layout) {
+    return (
+      <div className="seat-layout">
+        <div className="home-page__loader">
+          <div className="home-page__spinner"></div>
+        </div>
+      </div>
+    );
   }
 
+  const hasAttribute = (attribute: LayoutSeat['attributes'][number]) => layout.seats.some(seat => seat.attributes.includes(attribute));
+
   return (
     <div className="seat-layout">
         <div className="seat-layout__header">
             <span>FRONT</span>
             <span>REAR</span>
         </div>
-        <div className="seat-layout__grid">
-            {seatGrid}
+        <div className="seat-layout__decks">
+            {layout.decks.map((deck, deckIndex) => (
+                <div key={deckIndex} className="seat-layout__deck">
+                    {layout.decks.length > 1 && <h4 className="seat-layout__deck-name">{deck.name}</h4>}
+                    <div className="seat-layout__grid" style={getDeckGridStyle(deck)}>
+                        {sortSeats(layout.seats.filter(seat => seat.deck === deckIndex)).map(seat => (
+                            <Seat
+                              key={seat.id}
+                              seatId={seat.id}
+                              status={getSeatStatus(seat)}
+                              onClick={onSeatClick}
+                              type={seat.type}
+                              attributes={seat.attributes}
+                              style={getSeatGridStyle(seat)}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ))}
         </div>
         <div className="seat-layout__legend">
             <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--available"></div><span>Available</span></div>
             <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--selected"></div><span>Selected</span></div>
             <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--booked"></div><span>Booked</span></div>
+            <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--held"></div><span>Held</span></div>
             <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--disabled"></div><span>Disabled</span></div>
+            {hasAttribute('LADIES') && <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--ladies"></div><span>Ladies</span></div>}
+            {hasAttribute('DISABLED') && <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--accessible"></div><span>Passengers with a disability</span></div>}
+            {hasAttribute('CONDUCTOR_QUOTA') && <div className="seat-layout__legend-item"><div className="seat-layout__legend-swatch swatch--quota"></div><span>Sold on board</span></div>}
         </div>
     </div>
   );
-};
\ No newline at end of file
+};
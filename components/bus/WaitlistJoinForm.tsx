@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ListPlus } from 'lucide-react';
+import { api } from '../../services/api';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import type { WaitlistEntry, WaitlistPassenger } from '../../types';
+import { useConcessionCategories } from '../../hooks/useConcessionCategories';
+import { getAvailableCategories, getConcessionError } from '../../utils/concessions';
+import { ConcessionFields } from './ConcessionFields';
+
+interface WaitlistJoinFormProps {
+  scheduleId: string;
+  origin: string;
+  destination: string;
+  journeyDate: string;
+  isDiscountEnabled: boolean;
+  startDistrict: string; // Where the bus starts, which decides the concessions it offers
+  maxPassengers: number;
+}
+
+const emptyPassenger = (): WaitlistPassenger => ({ fullName: '', type: 'NORMAL', dob: '', aadhaarNumber: '', proofNumber: '' });
+
+/**
+ * Shown when a segment is sold out: collects the passengers up front so that freed seats can
+ * be booked for them automatically.
+ */
+export const WaitlistJoinForm: React.FC<WaitlistJoinFormProps> = ({ scheduleId, origin, destination, journeyDate, isDiscountEnabled, startDistrict, maxPassengers }) => {
+  const [passengers, setPassengers] = useState<WaitlistPassenger[]>([emptyPassenger()]);
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const allCategories = useConcessionCategories();
+  const categories = isDiscountEnabled ? getAvailableCategories(allCategories, startDistrict) : [];
+
+  const handleCountChange = (count: number) => {
+    setPassengers(prev => Array.from({ length: count }, (_, i) => prev[i] || emptyPassenger()));
+  };
+
+  const handlePassengerChange = (index: number, field: keyof WaitlistPassenger, value: string) => {
+    setPassengers(prev => prev.map((p, i) => i === index ? { ...p, [field]: value } : p));
+  };
+
+  const passengerCategories = passengers.map(p => categories.find(c => c.code === p.type));
+  const concessionErrors = passengers.map((p, index) => getConcessionError(p, journeyDate, passengerCategories[index]));
+  const isIncomplete = passengers.some((p, index) => !p.fullName.trim() || concessionErrors[index] !== null);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+    try {
+      setEntry(await api.joinWaitlist(scheduleId, origin, destination, journeyDate, passengers));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not join the waitlist. Please try again.");
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  if (entry) {
+    return (
+      <p className="booking-page__info-notice notice-waitlist">
+        You are number {entry.position} on the waitlist. If seats free up they will be booked for you and you will have a limited time to pay.
+        Follow your place in <Link to="/dashboard">My Bookings</Link>.
+      </p>
+    );
+  }
+
+  return (
+    <div className="waitlist-form">
+      <p className="booking-page__info-notice notice-waitlist">
+        Every seat on this segment is taken. Join the waitlist and seats will be booked for you as soon as enough free up.
+      </p>
+      <div className="input-wrapper">
+        <label htmlFor="waitlist-count" className="input-label">Passengers</label>
+        <select
+          id="waitlist-count"
+          className="input-field"
+          value={passengers.length}
+          onChange={(e) => handleCountChange(Number(e.target.value))}
+        >
+          {Array.from({ length: maxPassengers }, (_, i) => i + 1).map(count => (
+            <option key={count} value={count}>{count}</option>
+          ))}
+        </select>
+      </div>
+      {passengers.map((passenger, index) => (
+        <div key={index} className="seat-details-editor-card">
+          <div className="seat-details-editor-card__header">
+            <span className="seat-details-editor-card__seat-id">Passenger {index + 1}</span>
+          </div>
+          <div className="input-wrapper">
+            <label htmlFor={`waitlist-type-${index}`} className="input-label">Ticket Type</label>
+            <select
+              id={`waitlist-type-${index}`}
+              className="input-field"
+              value={passenger.type}
+              onChange={(e) => handlePassengerChange(index, 'type', e.target.value)}
+            >
+              <option value="NORMAL">Normal</option>
+              {categories.map(category => (
+                <option key={category.code} value={category.code}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <Input
+            id={`waitlist-name-${index}`}
+            label="Full Name"
+            value={passenger.fullName}
+            onChange={(e) => handlePassengerChange(index, 'fullName', e.target.value)}
+            placeholder="Enter passenger's full name"
+            required
+          />
+          {passengerCategories[index] && (
+            <ConcessionFields
+              idPrefix={`waitlist-${index}`}
+              category={passengerCategories[index]}
+              passenger={passenger}
+              maxDob={journeyDate}
+              error={concessionErrors[index]}
+              onChange={(field, value) => handlePassengerChange(index, field, value)}
+            />
+          )}
+        </div>
+      ))}
+      {error && <p className="booking-page__error">{error}</p>}
+      <Button onClick={handleJoin} isLoading={isJoining} disabled={isJoining || isIncomplete} className="booking-page__confirm-btn">
+        <ListPlus size={20} /> Join Waitlist
+      </Button>
+    </div>
+  );
+};
@@ -1,44 +1,70 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { RefreshCw } from 'lucide-react';
+import { api } from '../../services/api';
+import type { CaptchaChallenge, CaptchaResponse } from '../../types';
 
 interface CaptchaProps {
-  onVerify: (isVerified: boolean) => void;
+  /** Called with the challenge id and typed answer, or null while the answer is incomplete. */
+  onChange: (response: CaptchaResponse | null) => void;
+  /** Change this value to load a fresh challenge, e.g. after a failed submit consumed the old one. */
+  refreshKey?: number;
 }
 
-export const Captcha: React.FC<CaptchaProps> = ({ onVerify }) => {
-  const [captchaText, setCaptchaText] = useState('');
+const CAPTCHA_LENGTH = 6;
+
+export const Captcha: React.FC<CaptchaProps> = ({ onChange, refreshKey = 0 }) => {
+  const [challenge, setChallenge] = useState<CaptchaChallenge | null>(null);
   const [userInput, setUserInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const generateCaptcha = () => {
-    const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
-    setCaptchaText(randomString);
-  };
+  const loadChallenge = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    setUserInput('');
+    try {
+      setChallenge(await api.getCaptcha());
+    } catch {
+      setChallenge(null);
+      setError("Could not load the CAPTCHA. Please refresh it.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
 
   useEffect(() => {
-    generateCaptcha();
-  }, []);
+    loadChallenge();
+  }, [loadChallenge, refreshKey]);
 
   useEffect(() => {
-    onVerify(userInput === captchaText);
-  }, [userInput, captchaText, onVerify]);
+    const answer = userInput.trim();
+    onChange(challenge && answer.length === CAPTCHA_LENGTH ? { captchaId: challenge.captchaId, captchaAnswer: answer } : null);
+  }, [userInput, challenge, onChange]);
 
   return (
     <div className="captcha-container">
       <div className="captcha-image-wrapper">
-        <div className="captcha-text">
-          {captchaText}
-        </div>
-        <button onClick={generateCaptcha} type="button" className="captcha-refresh-btn">
+        {challenge && !isLoading ? (
+          <img src={challenge.image} alt="CAPTCHA challenge" className="captcha-image" draggable={false} />
+        ) : (
+          <div className="captcha-image captcha-image--placeholder" aria-busy={isLoading} />
+        )}
+        <button onClick={loadChallenge} type="button" className="captcha-refresh-btn" aria-label="Load a new CAPTCHA" disabled={isLoading}>
           <RefreshCw size={20} />
         </button>
       </div>
-      <input
-        type="text"
-        placeholder="Enter captcha"
-        value={userInput}
-        onChange={(e) => setUserInput(e.target.value.toUpperCase())}
-        className="input-field"
-      />
+      <div>
+        <input
+          type="text"
+          placeholder="Enter captcha"
+          value={userInput}
+          onChange={(e) => setUserInput(e.target.value.toUpperCase())}
+          maxLength={CAPTCHA_LENGTH}
+          autoComplete="off"
+          className="input-field"
+        />
+        {error && <p className="captcha-error">{error}</p>}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
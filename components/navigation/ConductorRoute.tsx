@@ -0,0 +1,24 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { UserRole } from '../../types';
+
+interface ConductorRouteProps {
+  children: React.ReactNode;
+}
+
+const ConductorRoute: React.FC<ConductorRouteProps> = ({ children }) => {
+  const { isAuthenticated, user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="loader-overlay"><div className="page-loader"></div></div>;
+  }
+
+  if (!isAuthenticated || user?.role !== UserRole.CONDUCTOR) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ConductorRoute;
@@ -22,8 +22,8 @@ const UserRoute: React.FC<UserRouteProps> = ({ children }) => {
   
   // or not a regular USER
   if (user?.role !== UserRole.USER) {
-    // Admins/Sub-Admins get redirected to their dashboard
-    return <Navigate to="/admin" replace />;
+    // Admins/Sub-Admins get redirected to their dashboard, conductors to boarding
+    return <Navigate to={user?.role === UserRole.CONDUCTOR ? '/conductor' : '/admin'} replace />;
   }
 
 
@@ -1,2 +1,12 @@
+import type { BusClass } from './types';
 
-export const SEAT_PRICE = 450.50;
\ No newline at end of file
+// How many days ahead a journey can be booked. Mirrors ADVANCE_BOOKING_DAYS in the backend.
+export const ADVANCE_BOOKING_DAYS = 30;
+
+// Classes of bus, each with its own per-km rate in the fare tables. Mirrors BUS_CLASSES in backend/fares.js.
+export const BUS_CLASS_LABELS: Record<BusClass, string> = {
+    ORDINARY: 'Ordinary',
+    EXPRESS: 'Express',
+    AC: 'AC',
+    VOLVO: 'Volvo',
+};
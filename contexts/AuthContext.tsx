@@ -1,26 +1,27 @@
 
 
-
 import React, { createContext, useState, useEffect, useCallback } from 'react';
-import type { User } from '../types';
+import type { User, AuthSession } from '../types';
+import { api } from '../services/api';
+import { readSession, writeSession, clearSession, toStoredSession } from '../services/session';
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (sessionData: { user: User, token: string }) => void;
+  login: (session: AuthSession) => void;
+  updateUser: (user: User) => void;
   logout: () => void;
 }
 
-const SESSION_DURATION = 15 * 60 * 1000; // 15 minutes
-
 export const AuthContext = createContext<AuthContextType>({
   user: null,
   token: null,
   isAuthenticated: false,
   isLoading: true,
   login: () => {},
+  updateUser: () => {},
   logout: () => {},
 });
 
@@ -29,63 +30,62 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  const logout = useCallback(() => {
-    localStorage.removeItem('session');
+  const clearLocalSession = useCallback(() => {
+    clearSession();
     setUser(null);
     setToken(null);
   }, []);
 
+  const logout = useCallback(() => {
+    // Revoke the session server-side; local state is cleared regardless of the outcome.
+    if (readSession()) {
+      api.logout().catch(err => console.warn("Failed to revoke session on the server", err));
+    }
+    clearLocalSession();
+  }, [clearLocalSession]);
+
   useEffect(() => {
-    try {
-      const storedSession = localStorage.getItem('session');
-      if (storedSession) {
-        const session = JSON.parse(storedSession);
-        if (session.expiry > Date.now()) {
-          setUser(session.user);
-          setToken(session.token);
-        } else {
-          // Session expired
-          logout();
-        }
-      }
-    } catch (error) {
-      console.error("Failed to parse session from localStorage", error);
-    } finally {
-      setIsLoading(false);
+    // readSession() only returns sessions whose refresh token is still valid;
+    // an expired access token is refreshed on the next API call.
+    const session = readSession();
+    if (session) {
+      setUser(session.user);
+      setToken(session.token);
+    } else {
+      clearLocalSession();
     }
+    setIsLoading(false);
 
-    // Set up an interval to check for session expiry
+    // Pick up refreshed tokens and end the session once it can no longer be refreshed
     const interval = setInterval(() => {
-        const storedSession = localStorage.getItem('session');
+        const storedSession = readSession();
         if (storedSession) {
-            try {
-                const session = JSON.parse(storedSession);
-                if (session.expiry <= Date.now()) {
-                    logout();
-                }
-            } catch {
-                logout();
-            }
+            setToken(storedSession.token);
+        } else {
+            clearLocalSession();
         }
     }, 60 * 1000); // Check every minute
 
     return () => clearInterval(interval); // Cleanup on unmount
-  }, [logout]);
+  }, [clearLocalSession]);
 
-  const login = useCallback((sessionData: { user: User, token: string }) => {
-    const session = {
-        user: sessionData.user,
-        token: sessionData.token,
-        expiry: Date.now() + SESSION_DURATION
-    };
-    localStorage.setItem('session', JSON.stringify(session));
-    setUser(sessionData.user);
-    setToken(sessionData.token);
+  const login = useCallback((session: AuthSession) => {
+    writeSession(toStoredSession(session));
+    setUser(session.user);
+    setToken(session.token);
+  }, []);
+
+  const updateUser = useCallback((updatedUser: User) => {
+    const session = readSession();
+    if (session) {
+      writeSession({ ...session, user: updatedUser });
+    }
+    setUser(updatedUser);
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, token, isAuthenticated: !!user, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ user, token, isAuthenticated: !!user, isLoading, login, updateUser, logout }}>
       {children}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
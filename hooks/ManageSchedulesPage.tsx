@@ -1,12 +1,24 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { useAuth } from './useAuth';
 import { api } from '../services/api';
-import { UserRole, type Schedule } from '../types';
+import { UserRole, type Schedule, type Trip } from '../types';
 import { Card } from '../components/common/Card';
 import { ScheduleCard } from '../components/bus/ScheduleCard';
-import { List, AlertCircle } from 'lucide-react';
+import { List, AlertCircle, CalendarDays } from 'lucide-react';
 import { EditScheduleModal } from '../components/admin/EditScheduleModal';
+import { TripCalendar } from '../components/admin/TripCalendar';
+import { TripEditModal } from '../components/admin/TripEditModal';
+import { TripCancellationReportModal } from '../components/admin/TripCancellationReportModal';
 import { BackButton } from '../components/common/BackButton';
+import { toDateInputValue } from '../utils/journeyDate';
+
+const CALENDAR_DAYS = 14;
+
+const getCalendarDates = (): string[] => Array.from({ length: CALENDAR_DAYS }, (_, offset) => {
+    const date = new Date();
+    date.setDate(date.getDate() + offset);
+    return toDateInputValue(date);
+});
 
 export const ManageSchedulesPage: React.FC = () => {
     const [schedules, setSchedules] = useState<Schedule[]>([]);
@@ -19,6 +31,13 @@ export const ManageSchedulesPage: React.FC = () => {
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
     const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
 
+    const [view, setView] = useState<'list' | 'calendar'>('list');
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [tripsError, setTripsError] = useState<string | null>(null);
+    const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+    const [reportTrip, setReportTrip] = useState<Trip | null>(null);
+    const calendarDates = useMemo(getCalendarDates, []);
+
     const fetchSchedulesAndDistricts = useCallback(async () => {
         if (!user) {
             setIsLoading(false);
@@ -49,6 +68,19 @@ export const ManageSchedulesPage: React.FC = () => {
         fetchSchedulesAndDistricts();
     }, [fetchSchedulesAndDistricts]);
 
+    useEffect(() => {
+        if (view !== 'calendar') return;
+        setTripsError(null);
+        api.getTrips(calendarDates[0], calendarDates[calendarDates.length - 1])
+            .then(setTrips)
+            .catch(() => setTripsError("Failed to load upcoming trips. Please try again."));
+    }, [view, calendarDates]);
+
+    const handleTripSaved = (updated: Trip) => {
+        setTrips(prev => prev.map(trip => (trip.id === updated.id ? updated : trip)));
+        setEditingTrip(null);
+    };
+
     const handleEditClick = (schedule: Schedule) => {
         setEditingSchedule(schedule);
         setIsEditModalOpen(true);
@@ -107,6 +139,14 @@ export const ManageSchedulesPage: React.FC = () => {
                     </div>
                 </div>
 
+                <div className="home-page__search-tabs">
+                    <button onClick={() => setView('list')} className={`home-page__search-tab ${view === 'list' ? 'home-page__search-tab--active' : ''}`}>
+                        <List size={20} /> Schedules
+                    </button>
+                    <button onClick={() => setView('calendar')} className={`home-page__search-tab ${view === 'calendar' ? 'home-page__search-tab--active' : ''}`}>
+                        <CalendarDays size={20} /> Upcoming Trips
+                    </button>
+                </div>
 
                 {isLoading && (
                     <div className="home-page__loader">
@@ -121,7 +161,23 @@ export const ManageSchedulesPage: React.FC = () => {
                     </div>
                 )}
                 
-                {!isLoading && !error && (
+                {!isLoading && !error && view === 'calendar' && (
+                    <>
+                        <p className="admin-page-header__subtitle">
+                            Select a trip to cancel or delay it, run it with another bus, or change its conductor.
+                        </p>
+                        {tripsError ? (
+                            <div className="auth-form__error">
+                                <AlertCircle size={24} />
+                                <p>{tripsError}</p>
+                            </div>
+                        ) : (
+                            <TripCalendar schedules={filteredSchedules} trips={trips} dates={calendarDates} onSelectTrip={setEditingTrip} />
+                        )}
+                    </>
+                )}
+
+                {!isLoading && !error && view === 'list' && (
                     <div className="manage-schedules__list">
                         {filteredSchedules.length > 0 ? (
                             filteredSchedules.map(schedule => (
@@ -155,6 +211,26 @@ export const ManageSchedulesPage: React.FC = () => {
                     scheduleToEdit={editingSchedule}
                 />
             )}
+
+            {editingTrip && (
+                <TripEditModal
+                    isOpen={!!editingTrip}
+                    onClose={() => setEditingTrip(null)}
+                    onSave={handleTripSaved}
+                    onViewReport={trip => { setEditingTrip(null); setReportTrip(trip); }}
+                    trip={editingTrip}
+                    schedule={schedules.find(schedule => schedule.id === editingTrip.scheduleId)}
+                    canAssignConductors={user?.role === UserRole.ADMIN}
+                />
+            )}
+
+            {reportTrip && (
+                <TripCancellationReportModal
+                    isOpen={!!reportTrip}
+                    onClose={() => setReportTrip(null)}
+                    trip={reportTrip}
+                />
+            )}
         </>
     );
 };
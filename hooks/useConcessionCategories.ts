@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { api } from '../services/api';
+import type { ConcessionCategory } from '../types';
+
+/**
+ * Loads the concession categories. Stays empty if they cannot be loaded, in which case only
+ * normal tickets are offered.
+ */
+export const useConcessionCategories = (): ConcessionCategory[] => {
+  const [categories, setCategories] = useState<ConcessionCategory[]>([]);
+
+  useEffect(() => {
+    let isActive = true;
+    api.getConcessionCategories()
+      .then(result => { if (isActive) setCategories(result); })
+      .catch(() => { /* Passengers can still book normal tickets. */ });
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return categories;
+};
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// The Barcode Detection API is not in TypeScript's DOM types yet.
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const SCAN_INTERVAL_MS = 300;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+/**
+ * Reads QR codes from the device camera. Browsers without the Barcode Detection API report
+ * `isSupported: false`, and the code has to be typed in instead.
+ * Scanning stops after the first code is read.
+ */
+export const useQrScanner = (onScan: (value: string) => void) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const isSupported = typeof window !== 'undefined' && !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+  // Keep the latest callback without restarting the camera on every render.
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  });
+
+  const stopScanning = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    if (videoRef.current) videoRef.current.srcObject = null;
+    setIsScanning(false);
+  }, []);
+
+  const startScanning = useCallback(async () => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector || !videoRef.current) return;
+    setScanError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+      setIsScanning(true);
+
+      const detector = new BarcodeDetector({ formats: ['qr_code'] });
+      const scan = async () => {
+        if (!videoRef.current || !streamRef.current) return;
+        try {
+          const [code] = await detector.detect(videoRef.current);
+          if (code?.rawValue) {
+            stopScanning();
+            onScanRef.current(code.rawValue);
+            return;
+          }
+        } catch {
+          // The frame was not ready; try the next one.
+        }
+        timerRef.current = window.setTimeout(scan, SCAN_INTERVAL_MS);
+      };
+      scan();
+    } catch (err) {
+      stopScanning();
+      setScanError(err instanceof Error && err.name === 'NotAllowedError'
+        ? 'Camera access was denied. Allow it in the browser, or type the ticket code instead.'
+        : 'Could not start the camera. Type the ticket code instead.');
+    }
+  }, [stopScanning]);
+
+  useEffect(() => stopScanning, [stopScanning]);
+
+  return { videoRef, isSupported, isScanning, scanError, startScanning, stopScanning };
+};
@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+import { api } from '../services/api';
+import type { SeatAvailability, SeatEvent, SeatEventType } from '../types';
+
+const SEAT_EVENT_TYPES: SeatEventType[] = ['booked', 'cancelled', 'held', 'released'];
+
+interface SeatEventHandlers {
+  // Full seat state, sent whenever the stream (re)connects.
+  onSnapshot: (availability: SeatAvailability) => void;
+  onSeatEvent: (type: SeatEventType, event: SeatEvent) => void;
+}
+
+/**
+ * Subscribes to live seat changes for a segment of a schedule on a journey date.
+ * The browser reconnects the stream by itself after network drops.
+ */
+export const useSeatEvents = (
+  scheduleId: string | undefined,
+  origin: string,
+  destination: string,
+  journeyDate: string,
+  handlers: SeatEventHandlers
+) => {
+  // Keep the latest handlers without reopening the stream on every render.
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!scheduleId || !origin || !destination || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    const source = api.openSeatEventStream(scheduleId, origin, destination, journeyDate);
+    const parse = <T>(event: Event): T | null => {
+      try {
+        return JSON.parse((event as MessageEvent).data);
+      } catch {
+        return null;
+      }
+    };
+
+    source.addEventListener('snapshot', (event) => {
+      const availability = parse<SeatAvailability>(event);
+      if (availability) handlersRef.current.onSnapshot(availability);
+    });
+    SEAT_EVENT_TYPES.forEach(type => {
+      source.addEventListener(type, (event) => {
+        const seatEvent = parse<SeatEvent>(event);
+        if (seatEvent) handlersRef.current.onSeatEvent(type, seatEvent);
+      });
+    });
+
+    return () => source.close();
+  }, [scheduleId, origin, destination, journeyDate]);
+};
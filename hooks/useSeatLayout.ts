@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { api } from '../services/api';
+import type { SeatLayout, SeatLayoutDefinition } from '../types';
+
+// Layouts are shared by many buses and rarely change, so each is fetched once per visit.
+const layoutRequests = new Map<SeatLayout, Promise<SeatLayoutDefinition>>();
+
+const loadSeatLayout = (layoutId: SeatLayout): Promise<SeatLayoutDefinition> => {
+  let request = layoutRequests.get(layoutId);
+  if (!request) {
+    request = api.getSeatLayout(layoutId);
+    request.catch(() => layoutRequests.delete(layoutId));
+    layoutRequests.set(layoutId, request);
+  }
+  return request;
+};
+
+/**
+ * Loads the seat layout a bus has. Null until it has loaded, or if it cannot be loaded.
+ */
+export const useSeatLayout = (layoutId: SeatLayout | undefined): SeatLayoutDefinition | null => {
+  const [layout, setLayout] = useState<SeatLayoutDefinition | null>(null);
+
+  useEffect(() => {
+    setLayout(null);
+    if (!layoutId) return;
+    let isActive = true;
+    loadSeatLayout(layoutId)
+      .then(result => { if (isActive) setLayout(result); })
+      .catch(() => { /* The seat map stays empty; the page shows its own error when booking fails. */ });
+    return () => {
+      isActive = false;
+    };
+  }, [layoutId]);
+
+  return layout;
+};
@@ -0,0 +1,32 @@
+import { useCallback, useState } from 'react';
+import { api } from '../services/api';
+
+/**
+ * Downloads a booking's official e-ticket, the PDF rendered and signed by the server.
+ */
+export const useTicketDownload = () => {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const downloadTicket = useCallback(async (bookingId: string) => {
+    setIsDownloading(true);
+    setDownloadError(null);
+    try {
+      const pdf = await api.getTicketPdf(bookingId);
+      const url = URL.createObjectURL(pdf);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `GovernmentBus-Ticket-${bookingId}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setDownloadError(err instanceof Error ? err.message : 'Could not download the ticket. Please try again.');
+    } finally {
+      setIsDownloading(false);
+    }
+  }, []);
+
+  return { downloadTicket, isDownloading, downloadError };
+};
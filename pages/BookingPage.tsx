@@ -1,27 +1,37 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { jsPDF } from 'jspdf';
-import QRCode from 'qrcode';
 import { useAuth } from '../hooks/useAuth';
+import { useSeatEvents } from '../hooks/useSeatEvents';
 import { api } from '../services/api';
-import type { Schedule, SeatBookingInfo, BusLocation } from '../types';
-import { SeatLayout } from '../components/bus/SeatLayout';
+import type { Schedule, SeatBookingInfo, BusLocation, SeatAvailability, SeatEvent, SeatEventType, BookingResult, Itinerary, SavedPassenger, ConcessionCategory, PassengerType, PassengerGender, LayoutSeat } from '../types';
+import { SeatLayout, getBookableSeatIds } from '../components/bus/SeatLayout';
+import { PaymentCheckout } from '../components/bus/PaymentCheckout';
+import { WaitlistJoinForm } from '../components/bus/WaitlistJoinForm';
+import { ItineraryBooking } from '../components/bus/ItineraryBooking';
 import { Button } from '../components/common/Button';
 import { Input } from '../components/common/Input';
 import { Card } from '../components/common/Card';
 import { Modal } from '../components/common/Modal';
-import { SEAT_PRICE } from '../constants';
+import { getTodayDateString, formatJourneyDate } from '../utils/journeyDate';
+import { PROOF_TYPE_LABELS, getAvailableCategories, getConcessionError, hasAgeBand, isAgeEligible, summarizeTicketTypes } from '../utils/concessions';
+import { useConcessionCategories } from '../hooks/useConcessionCategories';
+import { useTicketDownload } from '../hooks/useTicketDownload';
+import { useSeatLayout } from '../hooks/useSeatLayout';
 import { Ticket, X, CheckCircle, Ban, Gift, ArrowRight, Download, Trash2, Users } from 'lucide-react';
 import { BackButton } from '../components/common/BackButton';
 
 type BookingMode = 'paid' | 'free';
-type SeatType = 'normal' | 'child' | 'senior';
 
 interface SeatDetails {
     [seatId: string]: {
-        type: SeatType;
-        aadhaar: string;
+        type: PassengerType;
+        aadhaar: string; // For a saved passenger, the masked number on file
+        proofNumber: string; // For concessions proven by a document other than Aadhaar
+        dob: string;
         fullName: string;
+        gender: PassengerGender | ''; // Asked for on a ladies seat
+        hasDisability: boolean; // Asked for on a seat reserved for passengers with a disability
+        savedPassengerId?: string;
     }
 }
 
@@ -31,13 +41,40 @@ interface ModalState {
   bookingMode: BookingMode;
 }
 
+const emptySeatDetails = (fullName = ''): SeatDetails[string] => ({ type: 'NORMAL', aadhaar: '', proofNumber: '', dob: '', fullName, gender: '', hasDisability: false });
+
+// What stops a seat from travelling on its concession. A saved passenger's Aadhaar number on file
+// stands in for one typed in.
+const getSeatConcessionError = (details: SeatDetails[string], category: ConcessionCategory, journeyDate: string): string | null => {
+    if (details.savedPassengerId && category.proofType === 'AADHAAR') {
+        return details.aadhaar.length === 12 ? null : 'No Aadhaar number is saved for this passenger.';
+    }
+    return getConcessionError(
+        { type: details.type, dob: details.dob, aadhaarNumber: details.aadhaar, proofNumber: details.proofNumber }, journeyDate, category
+    );
+};
+
 const SeatDetailsEditor: React.FC<{
     seatId: string;
     details: SeatDetails[string];
-    onDetailChange: (seatId: string, field: keyof SeatDetails[string], value: string) => void;
+    seat?: LayoutSeat; // Its place on the layout, which may reserve it
+    onDetailChange: (seatId: string, field: keyof SeatDetails[string], value: string | boolean) => void;
+    onPickSavedPassenger: (seatId: string, passenger: SavedPassenger | null) => void;
     onRemove: (seatId: string) => void;
-    isDiscountEnabled: boolean;
-}> = ({ seatId, details, onDetailChange, onRemove, isDiscountEnabled }) => {
+    categories: ConcessionCategory[]; // The concessions this bus offers
+    savedPassengers: SavedPassenger[];
+    journeyDate: string;
+}> = ({ seatId, seat, details, onDetailChange, onPickSavedPassenger, onRemove, categories, savedPassengers, journeyDate }) => {
+    const savedPassenger = savedPassengers.find(p => p.id === details.savedPassengerId);
+    // A saved passenger's date of birth decides which age-limited concessions they can travel on.
+    const ticketOptions = savedPassenger ? categories.filter(c => isAgeEligible(c, savedPassenger.dob, journeyDate)) : categories;
+    const category = categories.find(c => c.code === details.type);
+    const usesAadhaarOnFile = Boolean(savedPassenger) && category?.proofType === 'AADHAAR';
+    const hasEnteredDetails = savedPassenger ? details.proofNumber : (details.dob || details.aadhaar || details.proofNumber);
+    const concessionError = category && !usesAadhaarOnFile && hasEnteredDetails ? getSeatConcessionError(details, category, journeyDate) : null;
+    const isLadiesSeat = Boolean(seat?.attributes.includes('LADIES'));
+    const isAccessibleSeat = Boolean(seat?.attributes.includes('DISABLED'));
+
     return (
         <div className="seat-details-editor-card">
             <div className="seat-details-editor-card__header">
@@ -46,6 +83,20 @@ const SeatDetailsEditor: React.FC<{
                     <Trash2 size={16}/>
                 </button>
             </div>
+            {savedPassengers.length > 0 && (
+                <div className="input-wrapper">
+                    <label htmlFor={`saved-${seatId}`} className="input-label">Saved Passenger</label>
+                    <select
+                        id={`saved-${seatId}`}
+                        className="input-field"
+                        value={details.savedPassengerId || ''}
+                        onChange={(e) => onPickSavedPassenger(seatId, savedPassengers.find(p => p.id === e.target.value) || null)}
+                    >
+                        <option value="">Enter details manually</option>
+                        {savedPassengers.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+                    </select>
+                </div>
+            )}
             <div className="input-wrapper">
                 <label htmlFor={`type-${seatId}`} className="input-label">Ticket Type</label>
                 <select 
@@ -54,9 +105,8 @@ const SeatDetailsEditor: React.FC<{
                     value={details.type}
                     onChange={(e) => onDetailChange(seatId, 'type', e.target.value)}
                 >
-                    <option value="normal">Normal</option>
-                    {isDiscountEnabled && <option value="child">Child</option>}
-                    {isDiscountEnabled && <option value="senior">Senior</option>}
+                    <option value="NORMAL">Normal</option>
+                    {ticketOptions.map(c => <option key={c.code} value={c.code}>{c.name}</option>)}
                 </select>
             </div>
             <Input 
@@ -65,10 +115,29 @@ const SeatDetailsEditor: React.FC<{
                 value={details.fullName}
                 onChange={(e) => onDetailChange(seatId, 'fullName', e.target.value)}
                 placeholder="Enter passenger's full name"
+                disabled={Boolean(savedPassenger)}
                 required
             />
-            {(details.type === 'child' || details.type === 'senior') && (
-                 <Input 
+            {usesAadhaarOnFile && savedPassenger && (
+                <p className="seat-details-editor-card__saved-note">
+                    {savedPassenger.maskedAadhaar
+                        ? `Aadhaar ${savedPassenger.maskedAadhaar} on file will be used.`
+                        : 'No Aadhaar number is saved for this passenger. Add one on your profile to book this concession.'}
+                </p>
+            )}
+            {category && !savedPassenger && hasAgeBand(category) && (
+                <Input
+                    id={`dob-${seatId}`}
+                    label="Date of Birth"
+                    type="date"
+                    value={details.dob}
+                    onChange={(e) => onDetailChange(seatId, 'dob', e.target.value)}
+                    max={journeyDate}
+                    required
+                />
+            )}
+            {category && !savedPassenger && category.proofType === 'AADHAAR' && (
+                <Input 
                     id={`aadhaar-${seatId}`} 
                     label="Aadhaar Number"
                     value={details.aadhaar}
@@ -79,36 +148,107 @@ const SeatDetailsEditor: React.FC<{
                     required
                 />
             )}
+            {category && category.proofType !== 'AADHAAR' && (
+                <Input
+                    id={`proof-${seatId}`}
+                    label={PROOF_TYPE_LABELS[category.proofType]}
+                    value={details.proofNumber}
+                    onChange={(e) => onDetailChange(seatId, 'proofNumber', e.target.value.trim().toUpperCase())}
+                    placeholder="As printed on the document"
+                    maxLength={30}
+                    required
+                />
+            )}
+            {isLadiesSeat && (
+                <div className="input-wrapper">
+                    <label htmlFor={`gender-${seatId}`} className="input-label">Gender</label>
+                    <select
+                        id={`gender-${seatId}`}
+                        className="input-field"
+                        value={details.gender}
+                        onChange={(e) => onDetailChange(seatId, 'gender', e.target.value)}
+                        required
+                    >
+                        <option value="">Select</option>
+                        <option value="FEMALE">Female</option>
+                        <option value="MALE">Male</option>
+                        <option value="OTHER">Other</option>
+                    </select>
+                </div>
+            )}
+            {isAccessibleSeat && (
+                <label className="seat-details-editor-card__checkbox">
+                    <input
+                        type="checkbox"
+                        checked={details.hasDisability}
+                        onChange={(e) => onDetailChange(seatId, 'hasDisability', e.target.checked)}
+                    />
+                    This passenger has a disability
+                </label>
+            )}
+            {concessionError && <p className="seat-details-editor-card__error">{concessionError}</p>}
+            {isLadiesSeat && details.gender && details.gender !== 'FEMALE' && (
+                <p className="seat-details-editor-card__error">Seat {seatId} is reserved for women.</p>
+            )}
+            {isAccessibleSeat && !details.hasDisability && (
+                <p className="seat-details-editor-card__saved-note">Seat {seatId} is reserved for passengers with a disability.</p>
+            )}
         </div>
     );
 };
 
 
-export const BookingPage: React.FC = () => {
+const SingleScheduleBooking: React.FC = () => {
   const { scheduleId } = useParams<{ scheduleId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const location = useLocation();
-  const { fare: fareFromState, userOrigin, userDestination } = (location.state as { fare: number, userOrigin: string, userDestination: string }) || {};
+  const { fare: fareFromState, userOrigin, userDestination, journeyDate: journeyDateFromState } = (location.state as { fare: number, userOrigin: string, userDestination: string, journeyDate?: string }) || {};
 
   const [schedule, setSchedule] = useState<Schedule | null>(null);
   const [busLocation, setBusLocation] = useState<BusLocation | null>(null);
   const [bookedSeats, setBookedSeats] = useState<string[]>([]);
+  const [heldSeats, setHeldSeats] = useState<string[]>([]);
+  const [segmentFare, setSegmentFare] = useState<number | null>(null); // Quoted by the server for the segment and date
   const [selectedSeats, setSelectedSeats] = useState<string[]>([]);
+  // Expiry (ISO 8601) of the server-side hold on each selected seat.
+  const [holdExpiries, setHoldExpiries] = useState<Record<string, string>>({});
+  const [pendingSeatId, setPendingSeatId] = useState<string | null>(null);
   const [seatDetails, setSeatDetails] = useState<SeatDetails>({});
   
   const [selectedOrigin, setSelectedOrigin] = useState(userOrigin || '');
   const [selectedDestination, setSelectedDestination] = useState(userDestination || '');
+  const [journeyDate, setJourneyDate] = useState(
+    journeyDateFromState && journeyDateFromState >= getTodayDateString() ? journeyDateFromState : getTodayDateString()
+  );
+  const isTodayJourney = journeyDate === getTodayDateString();
 
   const [isLoading, setIsLoading] = useState(true);
   const [isSeatLayoutLoading, setIsSeatLayoutLoading] = useState(false);
+  const seatLayout = useSeatLayout(schedule?.seatLayout);
   const [isBooking, setIsBooking] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [modalState, setModalState] = useState<ModalState>({ isOpen: false, bookingId: '', bookingMode: 'paid' });
+  // A paid booking awaiting payment; its seats stay reserved until it is paid or expires.
+  const [pendingBooking, setPendingBooking] = useState<BookingResult | null>(null);
   const [mode, setMode] = useState<BookingMode>('paid');
   
   const [freeBookingDetails, setFreeBookingDetails] = useState({ registrationNumber: '', phone: '' });
-  const [discounts, setDiscounts] = useState({ child: 40, senior: 50 });
+  const [savedPassengers, setSavedPassengers] = useState<SavedPassenger[]>([]);
+  const categories = useConcessionCategories();
+  const { downloadTicket, isDownloading, downloadError } = useTicketDownload();
+  // The concessions this bus offers, decided by the district it starts in.
+  const offeredCategories = useMemo(
+    () => (schedule?.isDiscountEnabled ? getAvailableCategories(categories, schedule.origin) : []),
+    [categories, schedule]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    api.getSavedPassengers(user.id)
+      .then(setSavedPassengers)
+      .catch(err => console.error("Could not load saved passengers.", err));
+  }, [user]);
 
   const MAX_SEATS = useMemo(() => (mode === 'free' ? 1 : 5), [mode]);
 
@@ -135,6 +275,17 @@ export const BookingPage: React.FC = () => {
                 return;
             }
 
+            // Only the dates the bus runs on can be booked; fall back to its next run after the requested date.
+            const runDates = scheduleData.runDates || [];
+            if (runDates.length === 0) {
+                setError("This bus does not run on any date open for booking.");
+                setSchedule(null);
+                return;
+            }
+            const requestedDate = journeyDateFromState && journeyDateFromState >= getTodayDateString() ? journeyDateFromState : getTodayDateString();
+            const initialDate = runDates.includes(requestedDate) ? requestedDate : runDates.find(date => date >= requestedDate) || runDates[0];
+            setJourneyDate(initialDate);
+
             setSchedule(scheduleData);
             setBusLocation(busLocationData);
             
@@ -145,9 +296,11 @@ export const BookingPage: React.FC = () => {
                 return;
             }
 
+            // Live tracking only describes today's run, so boarding points are never departed for later dates.
+            const trackTodayRun = initialDate === getTodayDateString();
             const allOriginOptions = stops.slice(0, -1).map((stop, index) => {
                 let isDeparted = false;
-                if (busLocationData) {
+                if (busLocationData && trackTodayRun) {
                     if (index < busLocationData.currentStopIndex) {
                         isDeparted = true;
                     } else if (index === busLocationData.currentStopIndex && !busLocationData.isAtStop) {
@@ -192,84 +345,176 @@ export const BookingPage: React.FC = () => {
         setIsLoading(false);
       }
     };
-    
-    const fetchDiscounts = async () => {
-        try {
-           const [childRes, seniorRes] = await Promise.all([
-               api.getSetting('childDiscountPercentage'),
-               api.getSetting('seniorDiscountPercentage')
-           ]);
-           setDiscounts({
-               child: Number(childRes.value || 40),
-               senior: Number(seniorRes.value || 50)
-           });
-       } catch(e) {
-           console.error("Could not fetch discounts, using defaults.", e);
-       }
-   }
 
     fetchInitialData();
-    fetchDiscounts();
-  }, [scheduleId, userOrigin, userDestination]);
+  }, [scheduleId, userOrigin, userDestination, journeyDateFromState]);
   
   useEffect(() => {
     if (!scheduleId || !selectedOrigin || !selectedDestination || !schedule) {
         return;
     }
 
-    const fetchBookedSeatsForSegment = async () => {
+    const fetchSeatsForSegment = async () => {
         setIsSeatLayoutLoading(true);
         setError(null);
         setSelectedSeats([]);
         setSeatDetails({});
+        setHoldExpiries({});
+        setSegmentFare(null);
         try {
-            const bookedSeatsData = await api.getBookedSeatsForSchedule(scheduleId, selectedOrigin, selectedDestination);
-            setBookedSeats(bookedSeatsData);
+            const availability = await api.getSeatAvailability(scheduleId, selectedOrigin, selectedDestination, journeyDate);
+            setBookedSeats(availability.bookedSeats);
+            setHeldSeats(availability.heldSeats);
+            setSegmentFare(availability.fare ?? null);
         } catch (err) {
             setError("Could not update seat availability for the selected route. Please try again.");
             setBookedSeats([]);
+            setHeldSeats([]);
         } finally {
             setIsSeatLayoutLoading(false);
         }
     };
 
-    fetchBookedSeatsForSegment();
-  }, [scheduleId, selectedOrigin, selectedDestination, schedule]);
+    fetchSeatsForSegment();
 
+    // Changing the segment or date, or leaving the page, gives up the seats held for this one.
+    return () => {
+        api.releaseSeatHolds(scheduleId, journeyDate).catch(() => {});
+    };
+  }, [scheduleId, selectedOrigin, selectedDestination, journeyDate, schedule]);
+
+  const refreshSeatAvailability = useCallback(async () => {
+    if (!scheduleId || !selectedOrigin || !selectedDestination) return;
+    try {
+        const availability = await api.getSeatAvailability(scheduleId, selectedOrigin, selectedDestination, journeyDate);
+        setBookedSeats(availability.bookedSeats);
+        setHeldSeats(availability.heldSeats);
+    } catch (err) {
+        console.error("Could not refresh seat availability.", err);
+    }
+  }, [scheduleId, selectedOrigin, selectedDestination, journeyDate]);
+
+  const removeSelectedSeats = useCallback((seatIds: string[]) => {
+    setSelectedSeats(prev => prev.filter(s => !seatIds.includes(s)));
+    setSeatDetails(prev => {
+        const newDetails = {...prev};
+        seatIds.forEach(seatId => delete newDetails[seatId]);
+        return newDetails;
+    });
+    setHoldExpiries(prev => {
+        const newExpiries = {...prev};
+        seatIds.forEach(seatId => delete newExpiries[seatId]);
+        return newExpiries;
+    });
+  }, []);
+
+  // Drop seats from the selection when their hold runs out.
+  useEffect(() => {
+    const expiryTimes = Object.keys(holdExpiries).map(seatId => new Date(holdExpiries[seatId]).getTime());
+    if (expiryTimes.length === 0) return;
+
+    const timer = setTimeout(() => {
+        const now = Date.now();
+        const expiredSeats = Object.keys(holdExpiries).filter(seatId => new Date(holdExpiries[seatId]).getTime() <= now);
+        removeSelectedSeats(expiredSeats);
+        setError(`Your hold on seat(s) ${expiredSeats.join(', ')} has expired. Please select them again.`);
+        refreshSeatAvailability();
+    }, Math.max(0, Math.min(...expiryTimes) - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [holdExpiries, removeSelectedSeats, refreshSeatAvailability]);
 
     const handleModeChange = (newMode: BookingMode) => {
         setMode(newMode);
         setSelectedSeats([]);
         setSeatDetails({});
+        setHoldExpiries({});
         setError(null);
+        if (scheduleId && selectedSeats.length > 0) {
+            api.releaseSeatHolds(scheduleId, journeyDate).catch(() => {});
+        }
     }
 
-  const handleSeatClick = useCallback((seatId: string) => {
+  const handleSeatClick = useCallback(async (seatId: string) => {
+    if (!scheduleId || pendingSeatId) return;
     setError(null);
     const isSelected = selectedSeats.includes(seatId);
 
     if (isSelected) {
-        setSelectedSeats(prev => prev.filter(s => s !== seatId));
-        setSeatDetails(prev => {
-            const newDetails = {...prev};
-            delete newDetails[seatId];
-            return newDetails;
-        });
+        removeSelectedSeats([seatId]);
+        api.releaseSeatHolds(scheduleId, journeyDate, seatId).catch(() => {});
     } else {
         if (selectedSeats.length >= MAX_SEATS) {
             setError(`You can select a maximum of ${MAX_SEATS} seat(s) in ${mode} mode.`);
             setTimeout(() => setError(null), 3000);
             return;
         }
+        setPendingSeatId(seatId);
+        try {
+            const hold = await api.holdSeat(scheduleId, seatId, selectedOrigin, selectedDestination, journeyDate);
+            setHoldExpiries(prev => ({ ...prev, [seatId]: hold.expiresAt }));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : `Could not hold seat ${seatId}. Please try again.`);
+            refreshSeatAvailability();
+            return;
+        } finally {
+            setPendingSeatId(null);
+        }
         setSelectedSeats(prev => [...prev, seatId]);
         if(mode === 'paid') {
             const isFirstSeat = selectedSeats.length === 0;
-            setSeatDetails(prev => ({...prev, [seatId]: { type: 'normal', aadhaar: '', fullName: isFirstSeat ? (user?.fullName || '') : '' }}));
+            setSeatDetails(prev => ({...prev, [seatId]: emptySeatDetails(isFirstSeat ? (user?.fullName || '') : '') }));
         }
     }
-  }, [selectedSeats, MAX_SEATS, mode, user?.fullName]);
+  }, [scheduleId, pendingSeatId, selectedSeats, MAX_SEATS, mode, user?.fullName, selectedOrigin, selectedDestination, journeyDate, removeSelectedSeats, refreshSeatAvailability]);
+
+  // Keep the seat map current while the page is open.
+  const isOwnSeat = (seatId: string) => selectedSeats.includes(seatId) || seatId === pendingSeatId;
+
+  const dropSeatsTakenByOthers = (seatIds: string[]) => {
+    // Our own booking's seats come back as 'booked' too; keep them for the ticket.
+    if (isBooking || pendingBooking || modalState.isOpen) return;
+    const takenSeats = selectedSeats.filter(seatId => seatIds.includes(seatId));
+    if (takenSeats.length === 0) return;
+    removeSelectedSeats(takenSeats);
+    setError(`Seat(s) ${takenSeats.join(', ')} were just booked by another passenger and have been removed from your selection.`);
+  };
+
+  useSeatEvents(scheduleId, selectedOrigin, selectedDestination, journeyDate, {
+    onSnapshot: (availability: SeatAvailability) => {
+        setBookedSeats(availability.bookedSeats);
+        setHeldSeats(availability.heldSeats.filter(seatId => !isOwnSeat(seatId)));
+        dropSeatsTakenByOthers(availability.bookedSeats);
+    },
+    onSeatEvent: (type: SeatEventType, { seatIds }: SeatEvent) => {
+        switch (type) {
+            case 'booked':
+                setBookedSeats(prev => [...prev.filter(seatId => !seatIds.includes(seatId)), ...seatIds]);
+                setHeldSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+                dropSeatsTakenByOthers(seatIds);
+                break;
+            case 'cancelled':
+                setBookedSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+                break;
+            case 'held': {
+                const othersSeats = seatIds.filter(seatId => !isOwnSeat(seatId));
+                setHeldSeats(prev => [...prev.filter(seatId => !othersSeats.includes(seatId)), ...othersSeats]);
+                break;
+            }
+            case 'released':
+                setHeldSeats(prev => prev.filter(seatId => !seatIds.includes(seatId)));
+                break;
+        }
+    },
+  });
+
+  const holdExpiryTime = useMemo(() => {
+    const expiryTimes = Object.keys(holdExpiries).map(seatId => new Date(holdExpiries[seatId]).getTime());
+    if (expiryTimes.length === 0) return null;
+    return new Date(Math.min(...expiryTimes)).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }, [holdExpiries]);
   
-  const handleSeatDetailChange = (seatId: string, field: keyof SeatDetails[string], value: string) => {
+  const handleSeatDetailChange = (seatId: string, field: keyof SeatDetails[string], value: string | boolean) => {
       setSeatDetails(prev => ({
           ...prev,
           [seatId]: {
@@ -279,11 +524,31 @@ export const BookingPage: React.FC = () => {
       }));
   };
 
+  const handlePickSavedPassenger = (seatId: string, passenger: SavedPassenger | null) => {
+      setSeatDetails(prev => {
+          if (!passenger) {
+              return { ...prev, [seatId]: emptySeatDetails() };
+          }
+          // Default to the first age-limited concession the passenger is the right age for, e.g. child or senior.
+          const ageCategory = offeredCategories.find(c => hasAgeBand(c) && isAgeEligible(c, passenger.dob, journeyDate));
+          return {
+              ...prev,
+              [seatId]: {
+                  ...emptySeatDetails(passenger.fullName),
+                  type: ageCategory ? ageCategory.code : 'NORMAL',
+                  aadhaar: passenger.maskedAadhaar || '',
+                  dob: passenger.dob,
+                  savedPassengerId: passenger.id,
+              },
+          };
+      });
+  };
+
   const originOptions = useMemo(() => {
     if (!schedule?.fullRouteStops) return [];
     return schedule.fullRouteStops.slice(0, -1).map((stop, index) => {
         let isDeparted = false;
-        if (busLocation) {
+        if (busLocation && isTodayJourney) {
             if (index < busLocation.currentStopIndex) {
                 isDeparted = true;
             } else if (index === busLocation.currentStopIndex && !busLocation.isAtStop) {
@@ -292,7 +557,7 @@ export const BookingPage: React.FC = () => {
         }
         return { ...stop, isDisabled: isDeparted };
     });
-  }, [schedule, busLocation]);
+  }, [schedule, busLocation, isTodayJourney]);
 
   const destinationOptions = useMemo(() => {
     if (!schedule?.fullRouteStops || !selectedOrigin) return [];
@@ -319,165 +584,50 @@ export const BookingPage: React.FC = () => {
   const handleDestinationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
       setSelectedDestination(e.target.value);
   };
+
+  const handleJourneyDateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const newDate = e.target.value;
+      if (!newDate) return;
+      setJourneyDate(newDate);
+
+      // Moving the journey to today may leave the chosen boarding point already departed.
+      if (newDate === getTodayDateString() && busLocation && schedule?.fullRouteStops) {
+          const stops = schedule.fullRouteStops;
+          const isDepartedToday = (index: number) =>
+              index < busLocation.currentStopIndex || (index === busLocation.currentStopIndex && !busLocation.isAtStop);
+          const originIndex = stops.findIndex(s => s.name === selectedOrigin);
+          if (originIndex !== -1 && isDepartedToday(originIndex)) {
+              const nextIndex = stops.slice(0, -1).findIndex((_, index) => !isDepartedToday(index));
+              if (nextIndex !== -1) {
+                  setSelectedOrigin(stops[nextIndex].name);
+                  const destinationIndex = stops.findIndex(s => s.name === selectedDestination);
+                  if (destinationIndex <= nextIndex) {
+                      setSelectedDestination(stops[nextIndex + 1].name);
+                  }
+              }
+          }
+      }
+  };
   
-  const pricePerSeat = useMemo(() => {
-    if (!schedule?.fullRouteStops || !selectedOrigin || !selectedDestination) {
-        return fareFromState ?? schedule?.fare ?? SEAT_PRICE;
-    }
-    const originStop = schedule.fullRouteStops.find(s => s.name === selectedOrigin);
-    const destStop = schedule.fullRouteStops.find(s => s.name === selectedDestination);
-    if (originStop && destStop && destStop.fare > originStop.fare) {
-        return destStop.fare - originStop.fare;
-    }
-    return fareFromState ?? schedule?.fare ?? SEAT_PRICE;
-  }, [schedule, selectedOrigin, selectedDestination, fareFromState]);
+  const pricePerSeat = segmentFare ?? fareFromState ?? schedule?.fare ?? 0;
   
+  // Each selected seat's ticket type and fare, with its concession's discount taken off.
+  const pricedSeats = useMemo(() => selectedSeats
+    .filter(seatId => seatDetails[seatId])
+    .map(seatId => {
+        const category = offeredCategories.find(c => c.code === seatDetails[seatId].type);
+        return {
+            type: category ? category.code : 'NORMAL',
+            fare: category ? pricePerSeat * (1 - (category.discountPercentage / 100)) : pricePerSeat,
+        };
+    }), [selectedSeats, seatDetails, offeredCategories, pricePerSeat]);
+
   const totalFare = useMemo(() => {
     if (mode === 'free' || !schedule) return 0;
-    
-    return selectedSeats.reduce((total, seatId) => {
-        const details = seatDetails[seatId];
-        if (!details) return total;
+    return pricedSeats.reduce((total, seat) => total + seat.fare, 0);
+  }, [pricedSeats, mode, schedule]);
 
-        let multiplier = 1;
-        if (details.type === 'child') multiplier = 1 - (discounts.child / 100);
-        if (details.type === 'senior') multiplier = 1 - (discounts.senior / 100);
-        
-        return total + (pricePerSeat * multiplier);
-    }, 0);
-  }, [selectedSeats, seatDetails, mode, schedule, pricePerSeat, discounts]);
-
-  const bookingSummary = useMemo(() => {
-      const summary = { normal: 0, child: 0, senior: 0 };
-      selectedSeats.forEach(seatId => {
-          const type = seatDetails[seatId]?.type;
-          if(type) summary[type]++;
-      });
-      return summary;
-  }, [selectedSeats, seatDetails]);
-
-  const generatePdfReceipt = async (bookingId: string) => {
-    if (!user || !schedule || !schedule.fullRouteStops) return;
-
-    const doc = new jsPDF();
-
-    const formatTime = (timeStr?: string | null) => timeStr ? timeStr.substring(0, 5) : 'N/A';
-    
-    const originStop = schedule.fullRouteStops.find(s => s.name === selectedOrigin);
-    const destStop = schedule.fullRouteStops.find(s => s.name === selectedDestination);
-    const departureTime = formatTime(originStop?.departure);
-    const arrivalTime = formatTime(destStop?.arrival);
-    
-    const normalFare = pricePerSeat;
-    const childFare = normalFare * (1 - (discounts.child / 100));
-    const seniorFare = normalFare * (1 - (discounts.senior / 100));
-
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(18);
-    doc.text("Government Bus - E-Ticket", 20, 20);
-    
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "normal");
-    doc.text(`Passenger: ${user?.fullName}`, 20, 35);
-    doc.text(`Route: ${selectedOrigin} to ${selectedDestination}`, 20, 45);
-    doc.text(`Bus: ${schedule?.busName} (${schedule?.id})`, 20, 55);
-    doc.text(`Booking Date: ${new Date().toLocaleString()}`, 20, 65);
-    doc.text(`Departure from ${selectedOrigin}: ${departureTime}`, 20, 75);
-    doc.text(`Arrival at ${selectedDestination}: ${arrivalTime}`, 20, 82);
-    doc.text(`Seats: ${selectedSeats.join(', ')}`, 20, 92);
-
-    const passengerDetailsForQr = selectedSeats
-        .map(seatId => ({ details: seatDetails[seatId], seatId }))
-        .map(item => ({
-            seatId: item.seatId,
-            fullName: item.details.fullName,
-            aadhaarNumber: (item.details.type === 'child' || item.details.type === 'senior') ? `...${item.details.aadhaar.slice(-4)}` : undefined,
-            type: item.details.type.toUpperCase() as 'CHILD' | 'SENIOR' | 'NORMAL',
-        }));
-
-    const qrPayload = {
-        bookingId: bookingId,
-        passengerName: user?.fullName,
-        busName: schedule?.busName,
-        scheduleId: schedule?.id,
-        route: {
-            origin: selectedOrigin,
-            destination: selectedDestination,
-        },
-        timings: {
-            departure: `Departure from ${selectedOrigin}: ${departureTime}`,
-            arrival: `Arrival at ${selectedDestination}: ${arrivalTime}`,
-        },
-        seats: selectedSeats,
-        fare: {
-            total: totalFare.toFixed(2),
-            summary: {
-                normal: { count: bookingSummary.normal, price: normalFare.toFixed(2) },
-                child: { count: bookingSummary.child, price: childFare.toFixed(2) },
-                senior: { count: bookingSummary.senior, price: seniorFare.toFixed(2) }
-            }
-        },
-        bookingType: mode,
-        bookingDate: new Date().toISOString(),
-        passengers: passengerDetailsForQr,
-    };
-    
-    const qrCodeDataURL = await QRCode.toDataURL(JSON.stringify(qrPayload), { errorCorrectionLevel: 'H' });
-    
-    doc.addImage(qrCodeDataURL, 'PNG', 140, 30, 50, 50);
-    doc.setFontSize(8);
-    doc.text("Scan for Verification", 147, 85);
-
-    let yPos = 100;
-
-    doc.setFont("helvetica", "bold");
-    doc.text("Ticket Summary:", 20, yPos);
-    yPos += 7;
-    doc.setFont("helvetica", "normal");
-    if (bookingSummary.normal > 0) {
-        const subtotal = bookingSummary.normal * normalFare;
-        doc.text(`- Normal Tickets: ${bookingSummary.normal} x ₹${normalFare.toFixed(2)} = ₹${subtotal.toFixed(2)}`, 25, yPos);
-        yPos += 7;
-    }
-    if (bookingSummary.child > 0) {
-        const subtotal = bookingSummary.child * childFare;
-        doc.text(`- Child Tickets: ${bookingSummary.child} x ₹${childFare.toFixed(2)} = ₹${subtotal.toFixed(2)}`, 25, yPos);
-        yPos += 7;
-    }
-    if (bookingSummary.senior > 0) {
-        const subtotal = bookingSummary.senior * seniorFare;
-        doc.text(`- Senior Tickets: ${bookingSummary.senior} x ₹${seniorFare.toFixed(2)} = ₹${subtotal.toFixed(2)}`, 25, yPos);
-        yPos += 7;
-    }
-    
-    const passengerDetails = selectedSeats.map(seatId => seatDetails[seatId]);
-    if (passengerDetails.length > 0) {
-        yPos += 5;
-        doc.setFont("helvetica", "bold");
-        doc.text("Passenger Details:", 20, yPos);
-        yPos += 7;
-        doc.setFont("helvetica", "normal");
-        
-        passengerDetails.forEach((p, i) => {
-            const seatId = selectedSeats[i];
-            let detailText = `- Seat ${seatId} (${p.type.toUpperCase()}): ${p.fullName}`;
-            if (p.type !== 'normal') {
-                detailText += `, Aadhaar: ...${p.aadhaar.slice(-4)}`;
-            }
-            doc.text(detailText, 25, yPos);
-            yPos += 7;
-            if (yPos > 280) { doc.addPage(); yPos = 20; }
-        });
-    }
-
-    yPos += 5;
-    doc.setFont("helvetica", "bold");
-    let fareText = `Total Fare: INR ${totalFare.toFixed(2)}`;
-    if (mode === 'free') fareText = `Total Fare: FREE (Govt. Special Announcement)`;
-    doc.text(fareText, 20, yPos);
-    
-    doc.save(`GovernmentBus-Ticket-${bookingId}.pdf`);
-  };
+  const bookingSummary = useMemo(() => summarizeTicketTypes(pricedSeats, categories), [pricedSeats, categories]);
 
   const handleFreeBookingFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFreeBookingDetails(prev => ({ ...prev, [e.target.id]: e.target.value }));
@@ -496,6 +646,7 @@ export const BookingPage: React.FC = () => {
                 selectedSeats,
                 selectedOrigin,
                 selectedDestination,
+                journeyDate,
                 freeBookingDetails.registrationNumber,
                 freeBookingDetails.phone
             );
@@ -505,11 +656,20 @@ export const BookingPage: React.FC = () => {
                 const details = seatDetails[seatId];
                 const seatInfo: SeatBookingInfo = {
                     seatId: seatId,
-                    type: details.type.toUpperCase() as 'NORMAL' | 'CHILD' | 'SENIOR',
+                    type: details.type,
                     fullName: details.fullName,
                 };
-                if (details.type === 'child' || details.type === 'senior') {
-                    seatInfo.aadhaarNumber = details.aadhaar;
+                if (details.gender) seatInfo.gender = details.gender;
+                if (details.hasDisability) seatInfo.hasDisability = true;
+                const category = offeredCategories.find(c => c.code === details.type);
+                if (details.savedPassengerId) {
+                    seatInfo.savedPassengerId = details.savedPassengerId;
+                } else if (category) {
+                    if (hasAgeBand(category)) seatInfo.dob = details.dob;
+                    if (category.proofType === 'AADHAAR') seatInfo.aadhaarNumber = details.aadhaar;
+                }
+                if (category && category.proofType !== 'AADHAAR') {
+                    seatInfo.proofNumber = details.proofNumber;
                 }
                 return seatInfo;
             });
@@ -518,10 +678,18 @@ export const BookingPage: React.FC = () => {
                 scheduleId, 
                 seatsToBook,
                 selectedOrigin, 
-                selectedDestination
+                selectedDestination,
+                journeyDate
             );
             bookingId = res.bookingId;
+            if (res.status === 'PENDING_PAYMENT') {
+                // The booking now reserves the seats, so their holds are gone.
+                setHoldExpiries({});
+                setPendingBooking(res);
+                return;
+            }
         }
+        setHoldExpiries({});
         setModalState({ isOpen: true, bookingId, bookingMode: mode });
     } catch (err) {
       const message = err instanceof Error ? err.message : "An internal server error occurred in createBooking.";
@@ -531,9 +699,29 @@ export const BookingPage: React.FC = () => {
     }
   };
 
-  const handleDownloadTicket = async () => {
+  const handlePaymentComplete = useCallback(() => {
+    if (!pendingBooking) return;
+    setModalState({ isOpen: true, bookingId: pendingBooking.bookingId, bookingMode: 'paid' });
+    setPendingBooking(null);
+  }, [pendingBooking]);
+
+  const handleCancelCheckout = async () => {
+    if (!pendingBooking) return;
+    try {
+        await api.abandonBooking(pendingBooking.bookingId);
+    } catch (err) {
+        // The booking may already have expired; its seats are released either way.
+        console.error("Could not cancel the unpaid booking.", err);
+    }
+    setPendingBooking(null);
+    removeSelectedSeats(selectedSeats);
+    setError("Your unpaid booking was cancelled and the seats were released.");
+    refreshSeatAvailability();
+  };
+
+  const handleDownloadTicket = () => {
     if (modalState.bookingId) {
-        await generatePdfReceipt(modalState.bookingId);
+        downloadTicket(modalState.bookingId);
     }
   };
 
@@ -542,6 +730,13 @@ export const BookingPage: React.FC = () => {
     navigate('/');
   };
 
+  // Nothing left to pick for this segment: offer the waitlist instead of an empty seat map.
+  const isSoldOut = useMemo(() => {
+    if (!seatLayout || isSeatLayoutLoading || selectedSeats.length > 0) return false;
+    const takenSeats = new Set([...bookedSeats, ...heldSeats]);
+    return getBookableSeatIds(seatLayout).every(seatId => takenSeats.has(seatId));
+  }, [seatLayout, isSeatLayoutLoading, selectedSeats, bookedSeats, heldSeats]);
+
   const isConfirmButtonDisabled = useMemo(() => {
     if (isBooking || selectedSeats.length === 0) return true;
     if (mode === 'free') {
@@ -553,12 +748,16 @@ export const BookingPage: React.FC = () => {
         if (!details || !details.fullName.trim()) { // All passengers need a name
             return true;
         }
-        if ((details.type === 'child' || details.type === 'senior') && details.aadhaar.length !== 12) {
+        const category = offeredCategories.find(c => c.code === details.type);
+        if (category && getSeatConcessionError(details, category, journeyDate)) {
             return true;
         }
+        const seat = seatLayout?.seats.find(s => s.id === seatId);
+        if (seat?.attributes.includes('LADIES') && details.gender !== 'FEMALE') return true;
+        if (seat?.attributes.includes('DISABLED') && !details.hasDisability) return true;
     }
     return false;
-  }, [isBooking, selectedSeats, mode, freeBookingDetails, seatDetails]);
+  }, [isBooking, selectedSeats, mode, freeBookingDetails, seatDetails, journeyDate, offeredCategories, seatLayout]);
 
 
   if (isLoading) return <div className="loader-overlay"><div className="page-loader"></div></div>;
@@ -582,7 +781,7 @@ export const BookingPage: React.FC = () => {
         <BackButton />
         <div>
           <h1 className="booking-page__title">Book Your Seats</h1>
-          <p className="booking-page__subtitle">{selectedOrigin} to {selectedDestination}</p>
+          <p className="booking-page__subtitle">{selectedOrigin} to {selectedDestination} &middot; {formatJourneyDate(journeyDate)}</p>
         </div>
       </div>
       
@@ -590,8 +789,9 @@ export const BookingPage: React.FC = () => {
         <div className={`booking-page__seat-area ${isSeatLayoutLoading ? 'booking-page__seat-area--loading' : ''}`}>
             {isSeatLayoutLoading && <div className="booking-page__seat-loader"><div className="home-page__spinner"></div></div>}
             <SeatLayout 
-              layout={schedule.seatLayout}
+              layout={seatLayout}
               bookedSeats={bookedSeats}
+              heldSeats={heldSeats}
               selectedSeats={selectedSeats}
               onSeatClick={handleSeatClick}
               disableSelection={selectedSeats.length >= MAX_SEATS}
@@ -600,6 +800,15 @@ export const BookingPage: React.FC = () => {
         <div className="booking-page__summary-area">
           <Card className="booking-page__summary-card">
             <h2 className="booking-page__summary-title">Booking Summary</h2>
+
+            <div className="input-wrapper">
+                <label htmlFor="journey-date" className="input-label">Journey Date</label>
+                <select id="journey-date" value={journeyDate} onChange={handleJourneyDateChange} className="input-field" disabled={isLoading || isBooking} required>
+                    {(schedule.runDates || []).map(date => (
+                        <option key={date} value={date}>{formatJourneyDate(date)}</option>
+                    ))}
+                </select>
+            </div>
             
             <div className="booking-page__route-selector">
                 <div className="input-wrapper">
@@ -630,7 +839,20 @@ export const BookingPage: React.FC = () => {
                 )}
             </div>
 
-            {mode === 'paid' && (
+            {mode === 'paid' && isSoldOut && scheduleId && (
+                <WaitlistJoinForm
+                    key={`${selectedOrigin}|${selectedDestination}|${journeyDate}`}
+                    scheduleId={scheduleId}
+                    origin={selectedOrigin}
+                    destination={selectedDestination}
+                    journeyDate={journeyDate}
+                    isDiscountEnabled={schedule.isDiscountEnabled ?? false}
+                    startDistrict={schedule.origin || ''}
+                    maxPassengers={MAX_SEATS}
+                />
+            )}
+
+            {mode === 'paid' && !isSoldOut && (
                  <>
                     <div className="booking-page__summary-details">
                         <div className="booking-page__summary-row">
@@ -644,18 +866,24 @@ export const BookingPage: React.FC = () => {
                                 <SeatDetailsEditor 
                                     key={seatId} 
                                     seatId={seatId} 
+                                    seat={seatLayout?.seats.find(seat => seat.id === seatId)}
                                     details={seatDetails[seatId]}
                                     onDetailChange={handleSeatDetailChange}
+                                    onPickSavedPassenger={handlePickSavedPassenger}
                                     onRemove={handleSeatClick}
-                                    isDiscountEnabled={schedule.isDiscountEnabled ?? false}
+                                    categories={offeredCategories}
+                                    savedPassengers={savedPassengers.filter(p =>
+                                        p.id === seatDetails[seatId]?.savedPassengerId
+                                        || !selectedSeats.some(other => seatDetails[other]?.savedPassengerId === p.id))}
+                                    journeyDate={journeyDate}
                                 />
                             ))}
                         </div>
                     )}
                      <div className="booking-page__total-fare-breakdown">
-                        {bookingSummary.normal > 0 && <span>{bookingSummary.normal} Normal x ₹{pricePerSeat.toFixed(2)}</span>}
-                        {bookingSummary.child > 0 && <span>{bookingSummary.child} Child x ₹{(pricePerSeat * (1 - discounts.child/100)).toFixed(2)}</span>}
-                        {bookingSummary.senior > 0 && <span>{bookingSummary.senior} Senior x ₹{(pricePerSeat * (1 - discounts.senior/100)).toFixed(2)}</span>}
+                        {bookingSummary.map(entry => (
+                            <span key={entry.type}>{entry.count} {entry.label} x ₹{(entry.fare / entry.count).toFixed(2)}</span>
+                        ))}
                     </div>
                     <div className="booking-page__total-fare">
                         <span className="booking-page__total-fare-label">Total Fare:</span>
@@ -676,26 +904,38 @@ export const BookingPage: React.FC = () => {
                 </div>
             )}
 
+            {holdExpiryTime && (
+                <p className="booking-page__info-notice notice-hold">Your selected seats are held for you until {holdExpiryTime}.</p>
+            )}
+
             {error && <p className="booking-page__error">{error}</p>}
             
-            <Button 
-              onClick={handleConfirmBooking} 
-              disabled={isConfirmButtonDisabled}
-              isLoading={isBooking}
-              className="booking-page__confirm-btn"
-            >
-              {mode === 'free' ? <><Gift size={20} /> Verify & Book Free</> : <><Ticket size={20} /> Confirm Booking</>}
-            </Button>
+            {!(mode === 'paid' && isSoldOut) && (
+                <Button 
+                  onClick={handleConfirmBooking} 
+                  disabled={isConfirmButtonDisabled}
+                  isLoading={isBooking}
+                  className="booking-page__confirm-btn"
+                >
+                  {mode === 'free' ? <><Gift size={20} /> Verify & Book Free</> : <><Ticket size={20} /> Confirm Booking</>}
+                </Button>
+            )}
           </Card>
         </div>
       </div>
+      <Modal isOpen={pendingBooking !== null} onClose={handleCancelCheckout} title="Complete Payment">
+        {pendingBooking && (
+            <PaymentCheckout booking={pendingBooking} onPaid={handlePaymentComplete} onCancel={handleCancelCheckout} />
+        )}
+      </Modal>
       <Modal isOpen={modalState.isOpen} onClose={handleCloseModal} title="Booking Successful!">
         <div className="booking-page__modal-content">
             <CheckCircle className="booking-page__modal-icon" />
             <p className="booking-page__modal-text1">Your seats have been booked successfully!</p>
             <p className="booking-page__modal-text2">Your e-ticket is ready. Please download it for your records.</p>
+            {downloadError && <p className="auth-form__error">{downloadError}</p>}
             <div className="booking-page__modal-actions">
-                <Button onClick={handleDownloadTicket}>
+                <Button onClick={handleDownloadTicket} isLoading={isDownloading}>
                     <Download size={18} />
                     Download Ticket
                 </Button>
@@ -708,3 +948,10 @@ export const BookingPage: React.FC = () => {
     </div>
   );
 };
+
+// A connecting journey or round trip arrives with its planned legs; anything else books one schedule.
+export const BookingPage: React.FC = () => {
+  const location = useLocation();
+  const itinerary = (location.state as { itinerary?: Itinerary } | null)?.itinerary;
+  return itinerary ? <ItineraryBooking itinerary={itinerary} /> : <SingleScheduleBooking />;
+};
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ScanLine, ClipboardList, CheckCircle, XCircle, UserCheck, UserX, Camera, AlertCircle } from 'lucide-react';
+import { Card } from '../components/common/Card';
+import { Button } from '../components/common/Button';
+import { Input } from '../components/common/Input';
+import { api } from '../services/api';
+import { useQrScanner } from '../hooks/useQrScanner';
+import { useConcessionCategories } from '../hooks/useConcessionCategories';
+import { getTicketTypeLabel } from '../utils/concessions';
+import { formatJourneyDate, getTodayDateString } from '../utils/journeyDate';
+import type { BoardingStatus, ConductorTrip, ManifestSeat, TicketCheck } from '../types';
+
+const BOARDING_LABELS: Record<BoardingStatus, string> = {
+    BOARDED: 'Boarded',
+    NO_SHOW: 'No-show',
+};
+
+const tripKey = (trip: { scheduleId: string; journeyDate: string }) => `${trip.scheduleId}|${trip.journeyDate}`;
+
+const BoardingBadge: React.FC<{ status: BoardingStatus | null }> = ({ status }) => (
+    <span className={`boarding-badge boarding-badge--${status ? status.toLowerCase().replace('_', '-') : 'pending'}`}>
+        {status ? BOARDING_LABELS[status] : 'Not checked'}
+    </span>
+);
+
+// Ticket checking for conductors: pick a rostered trip, scan or type each ticket's QR code and mark who got on.
+export const ConductorPage: React.FC = () => {
+    const categories = useConcessionCategories();
+    const [trips, setTrips] = useState<ConductorTrip[]>([]);
+    const [selectedKey, setSelectedKey] = useState('');
+    const [manifest, setManifest] = useState<ManifestSeat[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [ticketCode, setTicketCode] = useState('');
+    const [ticketCheck, setTicketCheck] = useState<TicketCheck | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+    const [savingSeatKey, setSavingSeatKey] = useState<string | null>(null);
+
+    const today = getTodayDateString();
+    const selectedTrip = trips.find(trip => tripKey(trip) === selectedKey);
+    const canRecord = !!selectedTrip && selectedTrip.journeyDate <= today;
+
+    useEffect(() => {
+        api.getConductorTrips()
+            .then(list => {
+                setTrips(list);
+                const todaysTrip = list.find(trip => trip.journeyDate === today) || list[0];
+                if (todaysTrip) setSelectedKey(tripKey(todaysTrip));
+            })
+            .catch(() => setError("Could not load your trips. Please try again."))
+            .finally(() => setIsLoading(false));
+    }, [today]);
+
+    const loadManifest = useCallback(async (trip: ConductorTrip) => {
+        setError(null);
+        try {
+            setManifest(await api.getTripManifest(trip.scheduleId, trip.journeyDate));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not load the passenger list.");
+        }
+    }, []);
+
+    useEffect(() => {
+        setTicketCheck(null);
+        setTicketCode('');
+        if (selectedTrip) loadManifest(selectedTrip);
+        else setManifest([]);
+    }, [selectedTrip, loadManifest]);
+
+    const checkTicket = useCallback(async (code: string) => {
+        if (!selectedTrip || code.trim() === '') return;
+        setIsChecking(true);
+        setTicketCheck(null);
+        setError(null);
+        try {
+            setTicketCheck(await api.verifyTicket(selectedTrip.scheduleId, selectedTrip.journeyDate, code.trim()));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not check this ticket.");
+        } finally {
+            setIsChecking(false);
+        }
+    }, [selectedTrip]);
+
+    const { videoRef, isSupported, isScanning, scanError, startScanning, stopScanning } = useQrScanner((code) => {
+        setTicketCode(code);
+        checkTicket(code);
+    });
+
+    const handleRecord = async (bookingId: string, seatIds: string[], status: BoardingStatus) => {
+        if (!selectedTrip) return;
+        setSavingSeatKey(`${bookingId}|${seatIds.join(',')}|${status}`);
+        setError(null);
+        try {
+            const updated = await api.recordBoarding(selectedTrip.scheduleId, selectedTrip.journeyDate, bookingId, seatIds, status);
+            const updatedByKey = new Map(updated.map(seat => [`${seat.bookingId}|${seat.seatId}`, seat]));
+            setManifest(prev => prev.map(seat => updatedByKey.get(`${seat.bookingId}|${seat.seatId}`) || seat));
+            setTicketCheck(prev => (prev && prev.bookingId === bookingId && prev.seats)
+                ? { ...prev, seats: prev.seats.map(seat => updatedByKey.get(`${seat.bookingId}|${seat.seatId}`) || seat) }
+                : prev);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not save boarding.");
+        } finally {
+            setSavingSeatKey(null);
+        }
+    };
+
+    const counts = useMemo(() => ({
+        boarded: manifest.filter(seat => seat.boardingStatus === 'BOARDED').length,
+        noShow: manifest.filter(seat => seat.boardingStatus === 'NO_SHOW').length,
+        pending: manifest.filter(seat => !seat.boardingStatus).length,
+    }), [manifest]);
+
+    const pendingTicketSeats = ticketCheck?.seats?.filter(seat => seat.boardingStatus !== 'BOARDED') || [];
+
+    if (isLoading) {
+        return <div className="loader-overlay"><div className="page-loader"></div></div>;
+    }
+
+    return (
+        <div className="container conductor-page">
+            <Card>
+                <h2 className="admin-page-header__title"><ScanLine /> Ticket Check</h2>
+                <p className="admin-page-header__subtitle">Scan each passenger's ticket QR code with the camera, or with a scanner that types into the ticket code box.</p>
+
+                {trips.length === 0 ? (
+                    <p className="conductor-page__empty">You have no trips assigned. Ask an administrator to roster you on a bus.</p>
+                ) : (
+                    <>
+                        <div className="input-wrapper">
+                            <label htmlFor="conductorTrip" className="input-label">Trip</label>
+                            <select id="conductorTrip" value={selectedKey} onChange={(e) => setSelectedKey(e.target.value)} className="register-form__select">
+                                {trips.map(trip => (
+                                    <option key={tripKey(trip)} value={tripKey(trip)}>
+                                        {formatJourneyDate(trip.journeyDate)} &middot; {trip.busName} ({trip.scheduleId}) &middot; {trip.origin} to {trip.destination}, {trip.departureTime}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        {!canRecord && <p className="conductor-page__notice">Boarding opens on the journey date. You can look over the passenger list until then.</p>}
+
+                        <div className="conductor-scan">
+                            <video ref={videoRef} className="conductor-scan__video" hidden={!isScanning} muted playsInline />
+                            {isSupported && (
+                                <Button variant="secondary" onClick={isScanning ? stopScanning : startScanning} disabled={!canRecord}>
+                                    <Camera size={18} /> {isScanning ? 'Stop Camera' : 'Scan QR Code'}
+                                </Button>
+                            )}
+                            {scanError && <p className="auth-form__error">{scanError}</p>}
+                            <form className="conductor-scan__form" onSubmit={(e) => { e.preventDefault(); checkTicket(ticketCode); }}>
+                                <Input id="ticketCode" label="Ticket code" value={ticketCode} onChange={(e) => setTicketCode(e.target.value)} placeholder="GBT1...." disabled={!canRecord} />
+                                <Button type="submit" isLoading={isChecking} disabled={!canRecord || ticketCode.trim() === ''}>Check Ticket</Button>
+                            </form>
+                        </div>
+
+                        {ticketCheck && (
+                            <div className={`conductor-result ${ticketCheck.valid ? 'conductor-result--valid' : 'conductor-result--invalid'}`}>
+                                <h3 className="conductor-result__title">
+                                    {ticketCheck.valid ? <><CheckCircle size={20} /> Valid ticket</> : <><XCircle size={20} /> Not valid</>}
+                                </h3>
+                                {ticketCheck.reason && <p>{ticketCheck.reason}</p>}
+                                {ticketCheck.bookingId && <p className="conductor-result__booking">Booking {ticketCheck.bookingId}</p>}
+                                {ticketCheck.seats && (
+                                    <ul className="conductor-result__seats">
+                                        {ticketCheck.seats.map(seat => (
+                                            <li key={seat.seatId}>
+                                                Seat {seat.seatId}: {seat.passengerName} ({getTicketTypeLabel(seat.passengerType, categories)}), {seat.origin} to {seat.destination} <BoardingBadge status={seat.boardingStatus} />
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {ticketCheck.cancelledSeatIds && ticketCheck.cancelledSeatIds.length > 0 && (
+                                    <p className="conductor-result__cancelled">No longer valid for seat{ticketCheck.cancelledSeatIds.length > 1 ? 's' : ''} {ticketCheck.cancelledSeatIds.join(', ')}.</p>
+                                )}
+                                {ticketCheck.valid && ticketCheck.bookingId && pendingTicketSeats.length > 0 && (
+                                    <Button
+                                        onClick={() => handleRecord(ticketCheck.bookingId!, pendingTicketSeats.map(seat => seat.seatId), 'BOARDED')}
+                                        isLoading={savingSeatKey === `${ticketCheck.bookingId}|${pendingTicketSeats.map(seat => seat.seatId).join(',')}|BOARDED`}
+                                    >
+                                        <UserCheck size={18} /> Board {pendingTicketSeats.length} passenger{pendingTicketSeats.length > 1 ? 's' : ''}
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )}
+                {error && (
+                    <div className="upload-schedules__status-message status-error">
+                        <AlertCircle /> {error}
+                    </div>
+                )}
+            </Card>
+
+            {selectedTrip && (
+                <Card className="conductor-manifest">
+                    <h2 className="admin-page-header__title"><ClipboardList /> Passenger List</h2>
+                    <p className="admin-page-header__subtitle">
+                        {counts.boarded} boarded &middot; {counts.noShow} no-show &middot; {counts.pending} not checked
+                    </p>
+                    {manifest.length === 0 ? (
+                        <p className="conductor-page__empty">No confirmed bookings on this trip.</p>
+                    ) : (
+                        <div className="user-management__table-wrapper">
+                            <table className="user-management__table">
+                                <thead>
+                                    <tr>
+                                        <th>Seat</th>
+                                        <th>Passenger</th>
+                                        <th>Journey</th>
+                                        <th>Status</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {manifest.map(seat => (
+                                        <tr key={`${seat.bookingId}|${seat.seatId}`}>
+                                            <td>{seat.seatId}</td>
+                                            <td>
+                                                <div className="user-management__user-name">{seat.passengerName || 'Unnamed'}</div>
+                                                <div className="user-management__user-contact-email">{getTicketTypeLabel(seat.passengerType, categories)}</div>
+                                            </td>
+                                            <td>{seat.origin} to {seat.destination}</td>
+                                            <td><BoardingBadge status={seat.boardingStatus} /></td>
+                                            <td>
+                                                <div className="user-management__actions">
+                                                    <Button
+                                                        variant="secondary"
+                                                        className="user-management__action-btn"
+                                                        title="Mark boarded"
+                                                        disabled={!canRecord || seat.boardingStatus === 'BOARDED'}
+                                                        isLoading={savingSeatKey === `${seat.bookingId}|${seat.seatId}|BOARDED`}
+                                                        onClick={() => handleRecord(seat.bookingId, [seat.seatId], 'BOARDED')}
+                                                    >
+                                                        <UserCheck size={16} />
+                                                    </Button>
+                                                    <Button
+                                                        variant="danger"
+                                                        className="user-management__action-btn"
+                                                        title="Mark no-show"
+                                                        disabled={!canRecord || seat.boardingStatus === 'NO_SHOW'}
+                                                        isLoading={savingSeatKey === `${seat.bookingId}|${seat.seatId}|NO_SHOW`}
+                                                        onClick={() => handleRecord(seat.bookingId, [seat.seatId], 'NO_SHOW')}
+                                                    >
+                                                        <UserX size={16} />
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </Card>
+            )}
+        </div>
+    );
+};
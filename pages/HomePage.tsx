@@ -1,15 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card } from '../components/common/Card';
 import { Input } from '../components/common/Input';
 import { Button } from '../components/common/Button';
 import { ScheduleCard } from '../components/bus/ScheduleCard';
-import type { Schedule, BusLocation } from '../types';
+import { ItineraryCard } from '../components/bus/ItineraryCard';
+import type { Schedule, BusLocation, Itinerary, JourneySort, JourneyLeg } from '../types';
+import { UserRole } from '../types';
 import { api } from '../services/api';
 import { useAuth } from '../hooks/useAuth';
-import { Search, Map, Route, XCircle } from 'lucide-react';
+import { getTodayDateString, getMaxJourneyDateString, formatJourneyDate, buildJourneyLeg } from '../utils/journeyDate';
+import { Search, Map, Route, XCircle, Repeat } from 'lucide-react';
 
 export const HomePage: React.FC = () => {
   const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
+  const [journeySort, setJourneySort] = useState<JourneySort>('duration');
   const [trackingData, setTrackingData] = useState<Record<string, BusLocation | null>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -18,9 +24,20 @@ export const HomePage: React.FC = () => {
   const [origin, setOrigin] = useState('');
   const [destination, setDestination] = useState('');
   const [district, setDistrict] = useState('');
+  const [journeyDate, setJourneyDate] = useState(getTodayDateString());
   const [districts, setDistricts] = useState<string[]>([]);
+
+  // Round trips search both directions; one schedule is picked for each before booking.
+  const [isRoundTrip, setIsRoundTrip] = useState(false);
+  const [returnDate, setReturnDate] = useState(getTodayDateString());
+  const [returnSchedules, setReturnSchedules] = useState<Schedule[]>([]);
+  const [outboundScheduleId, setOutboundScheduleId] = useState<string | null>(null);
+  const [returnScheduleId, setReturnScheduleId] = useState<string | null>(null);
+  const [isPreparingTrip, setIsPreparingTrip] = useState(false);
+  const [roundTripError, setRoundTripError] = useState<string | null>(null);
   
   const { user } = useAuth();
+  const navigate = useNavigate();
 
   useEffect(() => {
     const fetchDistricts = async () => {
@@ -38,13 +55,24 @@ export const HomePage: React.FC = () => {
     try {
         const savedState = sessionStorage.getItem('homeSearchState');
         if (savedState) {
-            const { schedules, trackingData, searchType, origin, destination, district } = JSON.parse(savedState);
+            const { schedules, itineraries, journeySort, returnSchedules, isRoundTrip, returnDate, trackingData, searchType, origin, destination, district, journeyDate } = JSON.parse(savedState);
             setSchedules(schedules || []);
+            setItineraries(itineraries || []);
+            setJourneySort(journeySort || 'duration');
+            setReturnSchedules(returnSchedules || []);
+            setIsRoundTrip(Boolean(isRoundTrip));
             setTrackingData(trackingData || {});
             setSearchType(searchType || 'route');
             setOrigin(origin || '');
             setDestination(destination || '');
             setDistrict(district || '');
+            // A saved date from a previous day is no longer bookable.
+            if (journeyDate && journeyDate >= getTodayDateString()) {
+                setJourneyDate(journeyDate);
+            }
+            if (returnDate && returnDate >= getTodayDateString()) {
+                setReturnDate(returnDate);
+            }
         }
     } catch (e) {
         console.error("Could not restore search state from session storage", e);
@@ -55,11 +83,17 @@ export const HomePage: React.FC = () => {
 
   const saveSearchState = (data: {
       schedules: Schedule[],
+      itineraries: Itinerary[],
+      journeySort: JourneySort,
+      returnSchedules: Schedule[],
+      isRoundTrip: boolean,
+      returnDate: string,
       trackingData: Record<string, BusLocation | null>,
       searchType: 'route' | 'district',
       origin: string,
       destination: string,
-      district: string
+      district: string,
+      journeyDate: string
   }) => {
       sessionStorage.setItem('homeSearchState', JSON.stringify(data));
   };
@@ -76,22 +110,39 @@ export const HomePage: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setSchedules([]);
+    setItineraries([]);
+    setReturnSchedules([]);
+    setOutboundScheduleId(null);
+    setReturnScheduleId(null);
+    setRoundTripError(null);
     setTrackingData({});
 
     try {
       let results: Schedule[] = [];
+      let connections: Itinerary[] = [];
+      let returnResults: Schedule[] = [];
       if (searchType === 'district' && district) {
-        results = await api.getSchedulesByDistrict(district);
+        results = await api.getSchedulesByDistrict(district, journeyDate);
+      } else if (searchType === 'route' && origin && destination && isRoundTrip) {
+        [results, returnResults] = await Promise.all([
+          api.getSchedulesByRoute(origin, destination, journeyDate),
+          api.getSchedulesByRoute(destination, origin, returnDate),
+        ]);
       } else if (searchType === 'route' && origin && destination) {
-        results = await api.getSchedulesByRoute(origin, destination);
+        [results, connections] = await Promise.all([
+          api.getSchedulesByRoute(origin, destination, journeyDate),
+          fetchConnections(journeySort),
+        ]);
       }
       setSchedules(results);
+      setItineraries(connections);
+      setReturnSchedules(returnResults);
 
       let newTrackingData: Record<string, BusLocation | null> = {};
-      if (results.length === 0) {
+      if (results.length === 0 && connections.length === 0) {
         setError("No buses found for the selected criteria.");
       } else {
-        const trackingPromises = results.map(schedule => 
+        const trackingPromises = [...results, ...returnResults].map(schedule => 
             api.trackBus(schedule.id).catch(err => {
                 console.warn(`Could not fetch tracking for ${schedule.id}`, err);
                 return null;
@@ -108,11 +159,17 @@ export const HomePage: React.FC = () => {
       
       saveSearchState({
           schedules: results,
+          itineraries: connections,
+          journeySort,
+          returnSchedules: returnResults,
+          isRoundTrip,
+          returnDate,
           trackingData: newTrackingData,
           searchType,
           origin,
           destination,
-          district
+          district,
+          journeyDate
       });
 
     } catch (err) {
@@ -122,14 +179,114 @@ export const HomePage: React.FC = () => {
     }
   };
   
+  // Journeys that need a change of bus; direct ones are already listed as schedules.
+  const fetchConnections = async (sort: JourneySort): Promise<Itinerary[]> => {
+    try {
+      const results = await api.planJourneys(origin, destination, journeyDate, sort);
+      return results.filter(itinerary => itinerary.changes > 0);
+    } catch (err) {
+      console.warn("Could not plan connecting journeys", err);
+      return [];
+    }
+  };
+
+  const handleSortChange = async (sort: JourneySort) => {
+    setJourneySort(sort);
+    const connections = await fetchConnections(sort);
+    setItineraries(connections);
+    saveSearchState({
+        schedules,
+        itineraries: connections,
+        journeySort: sort,
+        returnSchedules,
+        isRoundTrip,
+        returnDate,
+        trackingData,
+        searchType,
+        origin,
+        destination,
+        district,
+        journeyDate
+    });
+  };
+
+  // Results from the other trip type no longer match the form.
+  const handleRoundTripToggle = (checked: boolean) => {
+    setIsRoundTrip(checked);
+    setSchedules([]);
+    setItineraries([]);
+    setReturnSchedules([]);
+    setOutboundScheduleId(null);
+    setReturnScheduleId(null);
+    setRoundTripError(null);
+    setError(null);
+  };
+
+  const handleJourneyDateChange = (date: string) => {
+    setJourneyDate(date);
+    if (returnDate < date) setReturnDate(date);
+  };
+
+  // Both legs go to the booking page as one itinerary, timed from the schedules' full routes.
+  const handleBookRoundTrip = async () => {
+    const outbound = schedules.find(schedule => schedule.id === outboundScheduleId);
+    const inbound = returnSchedules.find(schedule => schedule.id === returnScheduleId);
+    if (!outbound || !inbound) return;
+    setIsPreparingTrip(true);
+    setRoundTripError(null);
+    try {
+      const [outboundSchedule, inboundSchedule] = await Promise.all([
+        api.getScheduleById(outbound.id),
+        api.getScheduleById(inbound.id),
+      ]);
+      const legs = [
+        outboundSchedule && buildJourneyLeg(outboundSchedule, outbound.userOrigin || origin, outbound.userDestination || destination, journeyDate, outbound.fare),
+        inboundSchedule && buildJourneyLeg(inboundSchedule, inbound.userOrigin || destination, inbound.userDestination || origin, returnDate, inbound.fare),
+      ].filter((leg): leg is JourneyLeg => Boolean(leg));
+      if (legs.length !== 2) {
+        setRoundTripError("Route details for one of these buses are unavailable. Please choose another.");
+        return;
+      }
+      const [outboundLeg, returnLeg] = legs;
+      if (new Date(returnLeg.departure) <= new Date(outboundLeg.arrival)) {
+        setRoundTripError("The return bus leaves before the outbound bus arrives. Please choose a later return.");
+        return;
+      }
+      const itinerary: Itinerary = {
+        kind: 'ROUND_TRIP',
+        legs,
+        departure: outboundLeg.departure,
+        arrival: returnLeg.arrival,
+        durationMinutes: Math.round((new Date(returnLeg.arrival).getTime() - new Date(outboundLeg.departure).getTime()) / 60000),
+        totalFare: outboundLeg.fare + returnLeg.fare,
+        changes: 0,
+        bookingEnabled: outbound.bookingEnabled && inbound.bookingEnabled,
+      };
+      navigate(`/book/${outboundLeg.scheduleId}`, { state: { itinerary } });
+    } catch (err) {
+      setRoundTripError("Could not load the selected buses. Please try again.");
+    } finally {
+      setIsPreparingTrip(false);
+    }
+  };
+
   const handleClearSearch = (preserveTab: boolean = false) => {
       sessionStorage.removeItem('homeSearchState');
       setSchedules([]);
+      setItineraries([]);
+      setJourneySort('duration');
+      setReturnSchedules([]);
+      setOutboundScheduleId(null);
+      setReturnScheduleId(null);
+      setRoundTripError(null);
+      setIsRoundTrip(false);
+      setReturnDate(getTodayDateString());
       setTrackingData({});
       setError(null);
       setOrigin('');
       setDestination('');
       setDistrict('');
+      setJourneyDate(getTodayDateString());
       if (!preserveTab) setSearchType('route');
   };
 
@@ -167,7 +324,36 @@ export const HomePage: React.FC = () => {
                   </select>
                 </div>
               )}
+              <Input
+                type="date"
+                id="journeyDate"
+                label="Journey Date"
+                value={journeyDate}
+                min={getTodayDateString()}
+                max={getMaxJourneyDateString()}
+                onChange={(e) => handleJourneyDateChange(e.target.value)}
+                required
+              />
+              {searchType === 'route' && isRoundTrip && (
+                <Input
+                  type="date"
+                  id="returnDate"
+                  label="Return Date"
+                  value={returnDate}
+                  min={journeyDate}
+                  max={getMaxJourneyDateString()}
+                  onChange={(e) => setReturnDate(e.target.value)}
+                  required
+                />
+              )}
             </div>
+
+            {searchType === 'route' && (
+              <label htmlFor="roundTrip" className="home-page__round-trip-toggle">
+                <input id="roundTrip" type="checkbox" checked={isRoundTrip} onChange={(e) => handleRoundTripToggle(e.target.checked)} />
+                <Repeat size={16} /> Return trip
+              </label>
+            )}
             
             <div className="home-page__form-actions-row">
                 <Button type="button" variant="secondary" onClick={() => handleClearSearch()} disabled={isLoading || (schedules.length === 0 && !origin && !destination && !district)}>
@@ -191,14 +377,80 @@ export const HomePage: React.FC = () => {
               </div>
           )}
           {error && <Card><p className="home-page__error">{error}</p></Card>}
-          {schedules.map(schedule => 
+          {isRoundTrip && searchType === 'route' && schedules.length > 0 ? (
+            <>
+              <h2 className="home-page__connections-title">Outbound &middot; {formatJourneyDate(journeyDate)}</h2>
+              {schedules.map(schedule =>
+                <ScheduleCard
+                  key={schedule.id}
+                  schedule={schedule}
+                  userRole={user?.role}
+                  busLocation={trackingData[schedule.id]}
+                  journeyDate={journeyDate}
+                  onSelect={() => setOutboundScheduleId(schedule.id)}
+                  isSelected={outboundScheduleId === schedule.id}
+                />
+              )}
+              <h2 className="home-page__connections-title">Return &middot; {formatJourneyDate(returnDate)}</h2>
+              {returnSchedules.length === 0 && <Card><p className="home-page__error">No return buses found for this route.</p></Card>}
+              {returnSchedules.map(schedule =>
+                <ScheduleCard
+                  key={schedule.id}
+                  schedule={schedule}
+                  userRole={user?.role}
+                  busLocation={trackingData[schedule.id]}
+                  journeyDate={returnDate}
+                  onSelect={() => setReturnScheduleId(schedule.id)}
+                  isSelected={returnScheduleId === schedule.id}
+                />
+              )}
+              {(!user || user.role === UserRole.USER) && (
+                <Card className="home-page__round-trip-summary">
+                  <p>
+                    {outboundScheduleId && returnScheduleId
+                      ? 'Both buses chosen. Book them together with the same passengers.'
+                      : 'Select an outbound and a return bus to book your round trip.'}
+                  </p>
+                  {roundTripError && <p className="home-page__error">{roundTripError}</p>}
+                  <Button onClick={handleBookRoundTrip} isLoading={isPreparingTrip} disabled={isPreparingTrip || !outboundScheduleId || !returnScheduleId}>
+                    <Repeat size={18} /> Book Round Trip
+                  </Button>
+                </Card>
+              )}
+            </>
+          ) : schedules.map(schedule => 
             <ScheduleCard 
               key={schedule.id} 
               schedule={schedule} 
               userRole={user?.role} 
               busLocation={trackingData[schedule.id]}
+              journeyDate={journeyDate}
             />
           )}
+          {itineraries.length > 0 && (
+            <div className="home-page__connections">
+              <div className="home-page__connections-header">
+                <h2 className="home-page__connections-title">Journeys with a change of bus</h2>
+                <select
+                  aria-label="Sort journeys"
+                  className="input-field home-page__connections-sort"
+                  value={journeySort}
+                  onChange={(e) => handleSortChange(e.target.value as JourneySort)}
+                >
+                  <option value="duration">Fastest</option>
+                  <option value="fare">Cheapest</option>
+                  <option value="changes">Fewest changes</option>
+                </select>
+              </div>
+              {itineraries.map(itinerary => (
+                <ItineraryCard
+                  key={itinerary.legs.map(leg => `${leg.scheduleId}-${leg.journeyDate}`).join('_')}
+                  itinerary={itinerary}
+                  userRole={user?.role}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </>
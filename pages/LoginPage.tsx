@@ -7,7 +7,7 @@ import { Captcha } from '../components/common/Captcha';
 import { useAuth } from '../hooks/useAuth';
 import { api } from '../services/api';
 import { KeyRound, Smartphone } from 'lucide-react';
-import type { User } from '../types';
+import type { AuthSession, CaptchaResponse } from '../types';
 import { UserRole } from '../types';
 
 type LoginMode = 'password' | 'otp';
@@ -17,7 +17,9 @@ export const LoginPage: React.FC = () => {
   const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
   const [otp, setOtp] = useState('');
-  const [isCaptchaVerified, setIsCaptchaVerified] = useState(false);
+  const [captcha, setCaptcha] = useState<CaptchaResponse | null>(null);
+  // Each challenge can only be checked once, so a fresh one is loaded after every attempt.
+  const [captchaRefreshKey, setCaptchaRefreshKey] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isOtpSent, setIsOtpSent] = useState(false);
@@ -26,11 +28,13 @@ export const LoginPage: React.FC = () => {
   const location = useLocation();
   const { login } = useAuth();
   
-  const handleLoginSuccess = (sessionData: { token: string; user: User }) => {
+  const handleLoginSuccess = (sessionData: AuthSession) => {
     login(sessionData);
 
     const from = location.state?.from;
-    const defaultRedirectPath = sessionData.user.role === UserRole.ADMIN || sessionData.user.role === UserRole.SUB_ADMIN ? '/admin' : '/';
+    const defaultRedirectPath = sessionData.user.role === UserRole.ADMIN || sessionData.user.role === UserRole.SUB_ADMIN
+      ? '/admin'
+      : sessionData.user.role === UserRole.CONDUCTOR ? '/conductor' : '/';
     
     // Avoid redirecting back to login/register pages
     const redirectTo = from && from.pathname !== '/login' && from.pathname !== '/register'
@@ -52,21 +56,23 @@ export const LoginPage: React.FC = () => {
   const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validatePhone(phone)) return;
-    if (!isCaptchaVerified) {
+    if (!captcha) {
       setError("Please complete the captcha.");
       return;
     }
     setIsLoading(true);
     setError(null);
     try {
-      const sessionData = await api.login(phone, password);
+      const sessionData = await api.login(phone, password, captcha);
       if (sessionData) {
         handleLoginSuccess(sessionData);
       } else {
         setError("Invalid phone number or password.");
+        setCaptchaRefreshKey(key => key + 1);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : "An unexpected error occurred. Please try again.");
+      setCaptchaRefreshKey(key => key + 1);
     } finally {
       setIsLoading(false);
     }
@@ -74,16 +80,21 @@ export const LoginPage: React.FC = () => {
 
   const handleSendOtp = async () => {
     if (!validatePhone(phone)) return;
+    if (!captcha) {
+      setError("Please complete the captcha.");
+      return;
+    }
     setIsLoading(true);
     setError(null);
     setSuccessMessage(null);
     try {
-      const response = await api.sendOtp(phone);
-      // For simulation, we get the OTP back. In production, this would be sent via SMS.
-      setSuccessMessage(`${response.message} For testing, your OTP is: ${response.otp}`);
+      const response = await api.sendOtp(phone, captcha);
+      // Development servers echo the OTP back for testing; in production it only arrives by SMS.
+      setSuccessMessage(response.otp ? `${response.message} For testing, your OTP is: ${response.otp}` : response.message);
       setIsOtpSent(true);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to send OTP.");
+      setCaptchaRefreshKey(key => key + 1);
     } finally {
       setIsLoading(false);
     }
@@ -113,8 +124,8 @@ export const LoginPage: React.FC = () => {
       {error && <p className="auth-form__error">{error}</p>}
       <Input id="phone" label="Phone Number" type="tel" value={phone} onChange={(e) => setPhone(e.target.value.replace(/\D/g, ''))} required maxLength={10} pattern="\d{10}" title="Please enter a 10-digit phone number."/>
       <Input id="password" label="Password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
-      <Captcha onVerify={setIsCaptchaVerified} />
-      <Button type="submit" isLoading={isLoading} disabled={!isCaptchaVerified || isLoading}>
+      <Captcha onChange={setCaptcha} refreshKey={captchaRefreshKey} />
+      <Button type="submit" isLoading={isLoading} disabled={!captcha || isLoading}>
         Login with Password
       </Button>
     </form>
@@ -150,9 +161,12 @@ export const LoginPage: React.FC = () => {
           <Button type="submit" isLoading={isLoading}>Login with OTP</Button>
         </>
       ) : (
-        <Button type="button" onClick={handleSendOtp} isLoading={isLoading}>
-          Send OTP
-        </Button>
+        <>
+          <Captcha onChange={setCaptcha} refreshKey={captchaRefreshKey} />
+          <Button type="button" onClick={handleSendOtp} isLoading={isLoading} disabled={!captcha || isLoading}>
+            Send OTP
+          </Button>
+        </>
       )}
     </form>
   );
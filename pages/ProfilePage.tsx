@@ -5,9 +5,10 @@ import { api } from '../services/api';
 import { Card } from '../components/common/Card';
 import { Input } from '../components/common/Input';
 import { Button } from '../components/common/Button';
-import type { User } from '../types';
-import { User as UserIcon, Save, AlertCircle, CheckCircle } from 'lucide-react';
+import type { User, SavedPassenger, SavedPassengerInput, PassengerRelation } from '../types';
+import { User as UserIcon, Save, AlertCircle, CheckCircle, Users, Pencil, Trash2, Plus } from 'lucide-react';
 import { BackButton } from '../components/common/BackButton';
+import { isValidAadhaar } from '../utils/concessions';
 
 // Helper to safely get the correct gender value, handling potential casing issues or null values.
 const getSanitizedGender = (gender?: string): 'MALE' | 'FEMALE' | 'OTHER' => {
@@ -20,9 +21,153 @@ const getSanitizedGender = (gender?: string): 'MALE' | 'FEMALE' | 'OTHER' => {
 const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
 const passwordHint = "Password must be at least 8 characters long and include one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&).";
 
+const RELATION_LABELS: Record<PassengerRelation, string> = {
+    SELF: 'Self',
+    SPOUSE: 'Spouse',
+    CHILD: 'Child',
+    PARENT: 'Parent',
+    SIBLING: 'Sibling',
+    OTHER: 'Other',
+};
+
+const emptyPassengerForm = (): SavedPassengerInput => ({ fullName: '', dob: '', relation: 'SELF', aadhaarNumber: '' });
+
+// Passengers kept on the profile so they can be picked into seats when booking.
+const SavedPassengersSection: React.FC<{ userId: string }> = ({ userId }) => {
+    const [passengers, setPassengers] = useState<SavedPassenger[]>([]);
+    const [form, setForm] = useState<SavedPassengerInput>(emptyPassengerForm());
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        api.getSavedPassengers(userId)
+            .then(setPassengers)
+            .catch(() => setError("Could not load your saved passengers."));
+    }, [userId]);
+
+    const openForm = (passenger?: SavedPassenger) => {
+        setEditingId(passenger?.id ?? null);
+        setForm(passenger
+            ? { fullName: passenger.fullName, dob: passenger.dob, relation: passenger.relation, aadhaarNumber: '' }
+            : emptyPassengerForm());
+        setError(null);
+        setIsFormOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.aadhaarNumber && !isValidAadhaar(form.aadhaarNumber)) {
+            setError("Aadhaar number is not valid. Please check all 12 digits.");
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            const payload = { ...form, aadhaarNumber: form.aadhaarNumber || undefined };
+            const saved = editingId
+                ? await api.updateSavedPassenger(userId, editingId, payload)
+                : await api.createSavedPassenger(userId, payload);
+            setPassengers(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.fullName.localeCompare(b.fullName)));
+            setIsFormOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not save this passenger.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (passengerId: string) => {
+        setError(null);
+        try {
+            await api.deleteSavedPassenger(userId, passengerId);
+            setPassengers(prev => prev.filter(p => p.id !== passengerId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not remove this passenger.");
+        }
+    };
+
+    const editingPassenger = passengers.find(p => p.id === editingId);
+
+    return (
+        <Card className="auth-card saved-passengers" style={{ maxWidth: '42rem', margin: '2rem auto 0' }}>
+            <h2 className="admin-page-header__title">
+                <Users /> Saved Passengers
+            </h2>
+            <p className="admin-page-header__subtitle">
+                Pick these passengers into seats when booking. Child and senior tickets are checked against their date of birth.
+            </p>
+
+            {error && (
+                <div className="upload-schedules__status-message status-error">
+                    <AlertCircle /> {error}
+                </div>
+            )}
+
+            {passengers.length === 0 && !isFormOpen && (
+                <p className="saved-passengers__empty">No saved passengers yet.</p>
+            )}
+            <ul className="saved-passengers__list">
+                {passengers.map(passenger => (
+                    <li key={passenger.id} className="saved-passengers__item">
+                        <div className="saved-passengers__details">
+                            <span className="saved-passengers__name">{passenger.fullName}</span>
+                            <span className="saved-passengers__meta">
+                                {RELATION_LABELS[passenger.relation]} &middot; Age {passenger.age}
+                                {passenger.maskedAadhaar && <> &middot; Aadhaar {passenger.maskedAadhaar}</>}
+                            </span>
+                        </div>
+                        <div className="saved-passengers__actions">
+                            <Button variant="secondary" className="btn--small" onClick={() => openForm(passenger)} title="Edit passenger">
+                                <Pencil size={16} />
+                            </Button>
+                            <Button variant="danger" className="btn--small" onClick={() => handleDelete(passenger.id)} title="Remove passenger">
+                                <Trash2 size={16} />
+                            </Button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {isFormOpen ? (
+                <form onSubmit={handleSave} className="auth-form saved-passengers__form">
+                    <Input id="savedFullName" label="Full Name" value={form.fullName} onChange={(e) => setForm({ ...form, fullName: e.target.value })} required />
+                    <Input id="savedDob" label="Date of Birth" type="date" value={form.dob} onChange={(e) => setForm({ ...form, dob: e.target.value })} required />
+                    <div className="input-wrapper">
+                        <label htmlFor="savedRelation" className="input-label">Relation</label>
+                        <select id="savedRelation" value={form.relation} onChange={(e) => setForm({ ...form, relation: e.target.value as PassengerRelation })} className="register-form__select">
+                            {(Object.keys(RELATION_LABELS) as PassengerRelation[]).map(relation => (
+                                <option key={relation} value={relation}>{RELATION_LABELS[relation]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Input
+                        id="savedAadhaar"
+                        label="Aadhaar Number (needed for child and senior tickets)"
+                        value={form.aadhaarNumber || ''}
+                        onChange={(e) => setForm({ ...form, aadhaarNumber: e.target.value.replace(/\D/g, '').slice(0, 12) })}
+                        placeholder={editingPassenger?.maskedAadhaar ? `Leave blank to keep ${editingPassenger.maskedAadhaar}` : 'Enter 12-digit number'}
+                        maxLength={12}
+                    />
+                    <div className="saved-passengers__form-actions">
+                        <Button type="button" variant="secondary" onClick={() => setIsFormOpen(false)} disabled={isSaving}>Cancel</Button>
+                        <Button type="submit" isLoading={isSaving}>
+                            <Save size={18} /> {editingId ? 'Update Passenger' : 'Save Passenger'}
+                        </Button>
+                    </div>
+                </form>
+            ) : (
+                <Button variant="secondary" onClick={() => openForm()}>
+                    <Plus size={18} /> Add Passenger
+                </Button>
+            )}
+        </Card>
+    );
+};
 
 export const ProfilePage: React.FC = () => {
-    const { user, login, token } = useAuth();
+    const { user, updateUser, token } = useAuth();
     const navigate = useNavigate();
     const [formData, setFormData] = useState({
         fullName: '',
@@ -107,7 +252,7 @@ export const ProfilePage: React.FC = () => {
             const updatedUser = await api.updateUserProfile(user!.id, payload);
 
             if (token) {
-                login({ user: updatedUser, token });
+                updateUser(updatedUser);
             } else {
                 setError("Your session has expired. Please log in again.");
                 navigate('/login');
@@ -177,6 +322,7 @@ export const ProfilePage: React.FC = () => {
                     </Button>
                 </form>
             </Card>
+            {user && <SavedPassengersSection userId={user.id} />}
         </div>
     );
 };
@@ -3,7 +3,9 @@ import { Link, useNavigate } from 'react-router-dom';
 import { Card } from '../components/common/Card';
 import { Input } from '../components/common/Input';
 import { Button } from '../components/common/Button';
+import { Captcha } from '../components/common/Captcha';
 import { api } from '../services/api';
+import type { CaptchaResponse } from '../types';
 
 const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
 const passwordHint = "Password must be at least 8 characters long and include one uppercase letter, one lowercase letter, one number, and one special character (@$!%*?&).";
@@ -18,6 +20,8 @@ export const RegisterPage: React.FC = () => {
     password: '',
     confirmPassword: '',
   });
+  const [captcha, setCaptcha] = useState<CaptchaResponse | null>(null);
+  const [captchaRefreshKey, setCaptchaRefreshKey] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
@@ -47,16 +51,21 @@ export const RegisterPage: React.FC = () => {
       setError("Passwords do not match.");
       return;
     }
+    if (!captcha) {
+      setError("Please complete the captcha.");
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
     try {
       const { confirmPassword, ...registrationData } = formData;
-      await api.register(registrationData);
+      await api.register(registrationData, captcha);
       navigate('/login?registered=true');
     } catch (err) {
       const message = err instanceof Error ? err.message : "An unexpected error occurred.";
       setError(`Registration failed: ${message}`);
+      setCaptchaRefreshKey(key => key + 1);
     } finally {
       setIsLoading(false);
     }
@@ -83,7 +92,8 @@ export const RegisterPage: React.FC = () => {
           <Input id="password" name="password" label="Password" type="password" value={formData.password} onChange={handleChange} required />
           <Input id="confirmPassword" name="confirmPassword" label="Confirm Password" type="password" value={formData.confirmPassword} onChange={handleChange} required />
           <p style={{ fontSize: '0.75rem', color: 'var(--color-text-secondary)', marginTop: '-1rem', textAlign: 'center' }}>{passwordHint}</p>
-          <Button type="submit" isLoading={isLoading}>Register</Button>
+          <Captcha onChange={setCaptcha} refreshKey={captchaRefreshKey} />
+          <Button type="submit" isLoading={isLoading} disabled={!captcha || isLoading}>Register</Button>
         </form>
         <p className="auth-card__footer">
           Already have an account?{' '}
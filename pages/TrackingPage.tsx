@@ -21,7 +21,11 @@ const RouteDisplay: React.FC<{ location: BusLocation }> = ({ location }) => {
     let currentStatusText = '';
     const lastStopIndex = routeStops.length - 1;
 
-    if (currentStopIndex === -1) {
+    if (!location.runsToday) {
+        currentStatusText = 'This bus does not run today.';
+    } else if (location.tripStatus === 'CANCELLED') {
+        currentStatusText = `Today's departure from ${origin} has been cancelled.`;
+    } else if (currentStopIndex === -1) {
         currentStatusText = `Bus has not started the journey from ${origin}.`;
     } else if (currentStopIndex === lastStopIndex && isAtStop) {
         currentStatusText = `Journey completed. Bus is at the final destination: ${destination}.`;
@@ -35,10 +39,15 @@ const RouteDisplay: React.FC<{ location: BusLocation }> = ({ location }) => {
     return (
         <div className="tracking-page__route-container">
             <h3 className="tracking-page__map-title">Journey: {origin} → {destination}</h3>
+            {location.registrationNumber && <p className="tracking-page__map-updated">Bus {location.registrationNumber}</p>}
             <div className="tracking-page__current-status">
                 <BusFront size={20} />
                 <span>{currentStatusText}</span>
             </div>
+            {location.runsToday && location.tripStatus !== 'CANCELLED' && location.delayMinutes > 0 && (
+                <p className="tracking-page__delay">Running {location.delayMinutes} minutes behind the times below.</p>
+            )}
+            {location.note && <p className="tracking-page__delay">{location.note}</p>}
             <p className="tracking-page__map-updated">Last updated: {new Date(location.lastUpdated).toLocaleTimeString()}</p>
             
             <div className="tracking-page__route-list">
@@ -119,10 +128,19 @@ export const TrackingPage: React.FC = () => {
                 })
             ]);
 
-            setSchedule(scheduleResult);
             if (locationResult) {
+                setSchedule(scheduleResult);
                 setLocation(locationResult);
+                return;
+            }
+
+            // Not a schedule: it may be the registration number of a bus in the fleet.
+            const vehicleLocation = await api.trackVehicle(idToTrack).catch(() => null);
+            if (vehicleLocation) {
+                setSchedule(await api.getScheduleById(vehicleLocation.busId).catch(() => null));
+                setLocation(vehicleLocation);
             } else {
+                setSchedule(scheduleResult);
                 setError('Bus not found or tracking is not available for this route.');
             }
         } catch (err) {
@@ -143,6 +161,13 @@ export const TrackingPage: React.FC = () => {
         if (!schedule || !schedule.bookingEnabled) {
             return { enabled: false, message: 'Booking Unavailable' };
         }
+        if (location?.tripStatus === 'CANCELLED') {
+            return { enabled: false, message: 'Cancelled Today' };
+        }
+        // A bus that is off today can still be booked for its next run.
+        if (location && !location.runsToday) {
+            return { enabled: true, message: 'Book Seats' };
+        }
 
         if (!location || !location.routeStops || location.routeStops.length === 0) {
             return { enabled: true, message: 'Book Seats' };
@@ -195,7 +220,7 @@ export const TrackingPage: React.FC = () => {
                     <MapPin /> Real-Time Bus Tracking
                 </h2>
                 <form onSubmit={handleFormSubmit} className="tracking-page__form">
-                    <Input id="busId" label="Bus ID or Route No." value={busId} onChange={(e) => setBusId(e.target.value)} placeholder="e.g., RTK-CHD-01" required />
+                    <Input id="busId" label="Bus ID, Route No. or Registration" value={busId} onChange={(e) => setBusId(e.target.value)} placeholder="e.g., RTK-CHD-01" required />
                     <Button type="submit" isLoading={isLoading}>
                         <Search size={20} /> Track Bus
                     </Button>
@@ -1,26 +1,194 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { Link } from 'react-router-dom';
-import { jsPDF } from 'jspdf';
 import QRCode from 'qrcode';
 import { useAuth } from '../hooks/useAuth';
 import { api } from '../services/api';
-import type { UserBooking, Schedule, PassengerDetail } from '../types';
+import type { UserBooking, Schedule, PassengerDetail, Refund, RefundStatus, CancellationPolicy, CancellationQuote, WaitlistEntry, BookingChange, BookingChangeStatus, BookingChangeState, BookingDisruption, AppNotification } from '../types';
 import { Card } from '../components/common/Card';
 import { Button } from '../components/common/Button';
 import { Modal } from '../components/common/Modal';
-import { Download, QrCode, Calendar, IndianRupee, Star, Armchair, XCircle, AlertCircle, MapPin, CheckCircle } from 'lucide-react';
+import { PaymentCheckout } from '../components/bus/PaymentCheckout';
+import { BookingChangeForm } from '../components/bus/BookingChangeForm';
+import { Download, QrCode, Calendar, IndianRupee, Star, Armchair, XCircle, AlertCircle, MapPin, CheckCircle, RotateCcw, CreditCard, Hourglass, Pencil, History, Repeat, UserCheck, UserX, AlertTriangle, Bus, Bell } from 'lucide-react';
 import { BackButton } from '../components/common/BackButton';
+import { formatJourneyDate, getStopDateTimes } from '../utils/journeyDate';
+import { findSlabsForDistrict, quoteCancellation, calculateSeatRefund, describeSlab } from '../utils/cancellationPolicy';
+import { useTicketDownload } from '../hooks/useTicketDownload';
+
+const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+    PENDING: 'Refund pending',
+    PROCESSED: 'Refunded',
+    FAILED: 'Refund failed, contact support',
+};
+
+const RefundLine: React.FC<{ refund: Refund }> = ({ refund }) => (
+    <li className="booking-detail-card__refund">
+        <RotateCcw size={14} />
+        <span>{refund.seatId ? `Seat ${refund.seatId}` : refund.refundType === 'FARE_ADJUSTMENT' ? 'Fare difference' : 'Payment'}: ₹{refund.amount.toFixed(2)}</span>
+        <span className={`booking-detail-card__refund-status booking-detail-card__refund-status--${refund.status.toLowerCase()}`}>
+            {REFUND_STATUS_LABELS[refund.status]}
+            {refund.processedAt && refund.status === 'PROCESSED' && ` on ${new Date(refund.processedAt).toLocaleDateString()}`}
+        </span>
+    </li>
+);
+
+const BOOKING_CHANGE_STATUS_LABELS: Record<BookingChangeStatus, string> = {
+    APPLIED: 'Applied',
+    PENDING_PAYMENT: 'Awaiting payment',
+    EXPIRED: 'Not paid in time',
+    CANCELLED: 'Replaced by a later change',
+    FAILED: 'Could not be applied, payment refunded',
+};
+
+const describeChangeState = (state: BookingChangeState) =>
+    `${state.origin} to ${state.destination}, ${formatJourneyDate(state.journeyDate)}, seat(s) ${state.passengers.map(p => p.seatId).join(', ')}`;
+
+const BookingChangeLine: React.FC<{ change: BookingChange }> = ({ change }) => (
+    <li className="booking-detail-card__change">
+        <History size={14} />
+        <div>
+            <span>{new Date(change.createdAt).toLocaleDateString()}: {describeChangeState(change.previousState)} → {describeChangeState(change.newState)}</span>
+            <span className={`booking-detail-card__change-status booking-detail-card__change-status--${change.status.toLowerCase()}`}>
+                {BOOKING_CHANGE_STATUS_LABELS[change.status]}
+                {change.fareDifference > 0 && ` (paid ₹${change.fareDifference.toFixed(2)} more)`}
+                {change.fareDifference < 0 && ` (₹${(-change.fareDifference).toFixed(2)} refunded)`}
+            </span>
+        </div>
+    </li>
+);
+
+const WaitlistEntryCard: React.FC<{ entry: WaitlistEntry, onLeave: (entryId: string) => void, isLeaving: boolean }> = ({ entry, onLeave, isLeaving }) => {
+    const describeStatus = () => {
+        switch (entry.status) {
+            case 'WAITING':
+                return `Number ${entry.position} in the queue`;
+            case 'OFFERED':
+                return `Seats booked for you. Pay below by ${entry.offerExpiresAt ? new Date(entry.offerExpiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : 'the deadline'} to keep them.`;
+            case 'CONFIRMED':
+                return 'Seats confirmed';
+            case 'EXPIRED':
+                return entry.bookingId ? 'The offer lapsed without payment' : 'No seats freed up in time';
+        }
+    };
+
+    return (
+        <div className={`waitlist-entry waitlist-entry--${entry.status.toLowerCase()}`}>
+            <Hourglass size={18} />
+            <div className="waitlist-entry__info">
+                <strong>{entry.origin} to {entry.destination}</strong>
+                <span>{formatJourneyDate(entry.journeyDate)} &middot; {entry.passengerCount} passenger(s)</span>
+                <span className="waitlist-entry__status">{describeStatus()}</span>
+            </div>
+            {entry.status === 'WAITING' && (
+                <Button onClick={() => onLeave(entry.id)} variant="secondary" className="btn--small" isLoading={isLeaving}>
+                    Leave
+                </Button>
+            )}
+        </div>
+    );
+};
+
+const formatDepartureTime = (iso: string) =>
+    new Date(iso).toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+// The buses offered after the operator cancelled the booking's trip, and the refund the passenger can take instead.
+const RebookingOffer: React.FC<{ booking: UserBooking, disruption: BookingDisruption, onSettled: () => void }> = ({ booking, disruption, onSettled }) => {
+    const [pendingChoice, setPendingChoice] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const settle = async (choice: string, request: () => Promise<unknown>) => {
+        setPendingChoice(choice);
+        setError(null);
+        try {
+            await request();
+            onSettled();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not update your booking. Please try again.");
+        } finally {
+            setPendingChoice(null);
+        }
+    };
 
-const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled: boolean, onBookingUpdate: () => void }> = ({ booking, isCancellationEnabled, onBookingUpdate }) => {
+    return (
+        <div className="rebooking-offer">
+            <p>
+                Choose another bus for your journey at no extra cost, or take a full refund
+                {disruption.offerExpiresAt && ` by ${new Date(disruption.offerExpiresAt).toLocaleString()}`}.
+                If you do neither, your booking will be refunded automatically.
+            </p>
+            <ul className="rebooking-offer__list">
+                {disruption.alternatives.map(alternative => {
+                    const choice = `${alternative.scheduleId}|${alternative.journeyDate}`;
+                    return (
+                        <li key={choice} className="rebooking-offer__option">
+                            <Bus size={16} />
+                            <div className="rebooking-offer__details">
+                                <strong>{alternative.busName}</strong>
+                                <span>
+                                    Departs {formatDepartureTime(alternative.departure)}
+                                    {alternative.arrival && `, arrives ${formatDepartureTime(alternative.arrival)}`}
+                                </span>
+                            </div>
+                            <Button
+                                variant="secondary"
+                                className="btn--small"
+                                isLoading={pendingChoice === choice}
+                                disabled={pendingChoice !== null}
+                                onClick={() => settle(choice, () => api.acceptRebooking(booking.id, alternative.scheduleId, alternative.journeyDate))}
+                            >
+                                Move to this bus
+                            </Button>
+                        </li>
+                    );
+                })}
+            </ul>
+            <Button
+                variant="danger"
+                className="btn--small"
+                isLoading={pendingChoice === 'refund'}
+                disabled={pendingChoice !== null}
+                onClick={() => settle('refund', () => api.declineRebooking(booking.id))}
+            >
+                Take full refund
+            </Button>
+            {error && <p className="auth-form__error">{error}</p>}
+        </div>
+    );
+};
+
+const NotificationsCard: React.FC<{ notifications: AppNotification[], onRead: (notificationId: string) => void }> = ({ notifications, onRead }) => (
+    <Card className="notifications-card">
+        <h2 className="notifications-card__title">Messages</h2>
+        {notifications.map(notification => (
+            <div key={notification.id} className="notification-entry">
+                <Bell size={18} />
+                <div className="notification-entry__info">
+                    <strong>{notification.title}</strong>
+                    <span>{notification.message}</span>
+                    <span className="notification-entry__date">{new Date(notification.createdAt).toLocaleString()}</span>
+                </div>
+                <Button onClick={() => onRead(notification.id)} variant="secondary" className="btn--small">
+                    Dismiss
+                </Button>
+            </div>
+        ))}
+    </Card>
+);
+
+const BookingDetailCard: React.FC<{ booking: UserBooking, itineraryBookings: UserBooking[], isCancellationEnabled: boolean, cancellationPolicies: CancellationPolicy[], onBookingUpdate: () => void }> = ({ booking, itineraryBookings, isCancellationEnabled, cancellationPolicies, onBookingUpdate }) => {
     const [isQrModalOpen, setIsQrModalOpen] = useState(false);
     const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+    const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+    const [isChangeModalOpen, setIsChangeModalOpen] = useState(false);
     const [qrCodeDataUrl, setQrCodeDataUrl] = useState('');
-    const [isDownloading, setIsDownloading] = useState(false);
+    const [isLoadingQr, setIsLoadingQr] = useState(false);
+    const [ticketError, setTicketError] = useState<string | null>(null);
+    const { downloadTicket, isDownloading, downloadError } = useTicketDownload();
     const [isCancelling, setIsCancelling] = useState(false);
     const [schedule, setSchedule] = useState<Schedule | null>(null);
-    const [discounts, setDiscounts] = useState<{child: number, senior: number}>({child: 40, senior: 50});
-    const { user } = useAuth();
     const [canCancel, setCanCancel] = useState(false);
+    const [departureDateTime, setDepartureDateTime] = useState<Date | null>(null);
+    const [cancellationQuote, setCancellationQuote] = useState<CancellationQuote | null>(null);
     const [isJourneyCompleted, setIsJourneyCompleted] = useState(false);
     const [seatsToCancel, setSeatsToCancel] = useState<Set<string>>(new Set());
     const [cancelError, setCancelError] = useState<string | null>(null);
@@ -29,57 +197,11 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
         return booking.passengerDetails?.filter(p => p.status !== 'CANCELLED') || [];
     }, [booking.passengerDetails]);
 
-    const getQrPayload = () => {
-        if (!user || !schedule || !schedule.fullRouteStops || !discounts) return null;
-
-        const formatTime = (timeStr?: string | null) => timeStr ? timeStr.substring(0, 5) : 'N/A';
-
-        const originStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.origin.trim().toLowerCase());
-        const destStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.destination.trim().toLowerCase());
-        const departureTime = formatTime(originStop?.departure);
-        const arrivalTime = formatTime(destStop?.arrival);
-        
-        const segmentFare = (destStop?.fare || 0) - (originStop?.fare || 0);
-        const childFare = segmentFare * (1 - (discounts.child / 100));
-        const seniorFare = segmentFare * (1 - (discounts.senior / 100));
-
-        const seniorSeatsCount = booking.passengerDetails?.filter(p => p.type === 'SENIOR' && p.status !== 'CANCELLED').length || 0;
-        const childSeatsCount = booking.passengerDetails?.filter(p => p.type === 'CHILD' && p.status !== 'CANCELLED').length || 0;
-        const normalSeatsCount = (booking.seatIds?.length || 0) - seniorSeatsCount - childSeatsCount;
-
-        // Mask Aadhaar for QR code
-        const activePassengers = booking.passengerDetails?.filter(p => p.status !== 'CANCELLED').map(p => ({
-            ...p,
-            aadhaarNumber: p.aadhaarNumber ? `...${p.aadhaarNumber.slice(-4)}` : undefined,
-        }));
-        
-        return {
-            bookingId: booking.id,
-            passengerName: user.fullName,
-            busName: schedule.busName,
-            scheduleId: booking.scheduleId,
-            route: {
-                origin: booking.origin,
-                destination: booking.destination,
-            },
-            timings: {
-                departure: `Departure from ${booking.origin}: ${departureTime}`,
-                arrival: `Arrival at ${booking.destination}: ${arrivalTime}`,
-            },
-            seats: booking.seatIds || [],
-            fare: {
-                total: Number(booking.fare || 0).toFixed(2),
-                summary: {
-                    normal: { count: normalSeatsCount, price: segmentFare.toFixed(2) },
-                    child: { count: childSeatsCount, price: childFare.toFixed(2) },
-                    senior: { count: seniorSeatsCount, price: seniorFare.toFixed(2) }
-                }
-            },
-            bookingType: booking.isFreeTicket ? 'free' : (booking.discountType?.toLowerCase() || 'normal'),
-            bookingDate: booking.bookingDate,
-            passengers: activePassengers,
-        };
-    };
+    // When the operator cancels the trip, its seats can be cancelled for a full refund whatever the policy says.
+    const isTripCancelled = booking.trip?.status === 'CANCELLED';
+    const disruption = booking.disruption;
+    const hasOpenOffer = isTripCancelled && disruption?.status === 'OFFERED' && booking.status !== 'CANCELLED';
+
 
     useEffect(() => {
         const fetchDetailsAndProcess = async () => {
@@ -91,44 +213,19 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
                 if (scheduleData) {
                     // Journey Completion & Cancellation Logic
                     if (booking.status !== 'CANCELLED') {
-                        const originStop = scheduleData.fullRouteStops?.find(s => s.name.trim().toLowerCase() === booking.origin.trim().toLowerCase());
-                        const destStop = scheduleData.fullRouteStops?.find(s => s.name.trim().toLowerCase() === booking.destination.trim().toLowerCase());
-
-                        if (originStop && originStop.departure) {
-                            const bookingDateTime = new Date(booking.bookingDate);
-                            const [depHours, depMinutes] = originStop.departure.split(':');
-                            let departureDateTime = new Date(bookingDateTime.getFullYear(), bookingDateTime.getMonth(), bookingDateTime.getDate(), Number(depHours), Number(depMinutes), 0);
-    
-                            if (departureDateTime < bookingDateTime) {
-                                departureDateTime.setDate(departureDateTime.getDate() + 1);
-                            }
-                            
-                            const oneHourBeforeDeparture = new Date(departureDateTime.getTime() - 60 * 60 * 1000);
-                            setCanCancel(new Date() < oneHourBeforeDeparture);
-                            
-                            if (destStop && destStop.arrival) {
-                                const [arrHours, arrMinutes] = destStop.arrival.split(':');
-                                let arrivalDateTime = new Date(departureDateTime);
-                                arrivalDateTime.setHours(Number(arrHours), Number(arrMinutes), 0, 0);
-
-                                if (arrivalDateTime < departureDateTime) {
-                                    arrivalDateTime.setDate(arrivalDateTime.getDate() + 1);
-                                }
-                                setIsJourneyCompleted(new Date() > arrivalDateTime);
-                            }
+                        const stops = scheduleData.fullRouteStops || [];
+                        setDepartureDateTime(getStopDateTimes(stops, booking.journeyDate, booking.origin)?.departure || null);
+                        const arrivalDateTime = getStopDateTimes(stops, booking.journeyDate, booking.destination)?.arrival;
+                        if (arrivalDateTime) {
+                            setIsJourneyCompleted(new Date() > arrivalDateTime);
                         }
                     }
-
-                    if (booking.discountType !== 'NONE' && scheduleData.isDiscountEnabled) {
-                        const [childRes, seniorRes] = await Promise.all([
-                            api.getSetting('childDiscountPercentage'),
-                            api.getSetting('seniorDiscountPercentage')
-                        ]);
-                        setDiscounts({
-                            child: Number(childRes.value || 40),
-                            senior: Number(seniorRes.value || 50)
-                        });
-                    }
+                }
+                // The server quotes the fee, so the card shows exactly what cancelling would refund.
+                if (booking.status === 'CONFIRMED' || booking.status === 'PARTIALLY_CANCELLED') {
+                    const quote = await api.getCancellationQuote(booking.id);
+                    setCancellationQuote(quote);
+                    setCanCancel(quote.allowed);
                 }
             } catch (error) {
                 console.error(`Failed to fetch schedule details for booking ${booking.id}:`, error);
@@ -137,8 +234,64 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
         fetchDetailsAndProcess();
     }, [booking]);
 
+    // Quote again when the modal opens; the fee can step up while the card sits on screen.
+    const openCancelModal = async () => {
+        setCancelError(null);
+        try {
+            const quote = await api.getCancellationQuote(booking.id);
+            setCancellationQuote(quote);
+            if (!quote.allowed) {
+                setCancelError("The cancellation window for this booking has closed.");
+            }
+        } catch (err) {
+            setCancelError(err instanceof Error ? err.message : "Could not work out your refund. Please try again.");
+        }
+        setIsCancelModalOpen(true);
+    };
+
+
+    // Unpaid bookings never became tickets, so they get no ticket actions.
+    const isUnpaid = booking.status === 'PENDING_PAYMENT' || booking.status === 'EXPIRED';
+
+    // Legs of a connecting journey are paid for together, so Pay Now covers every unpaid leg.
+    const amountDue = itineraryBookings
+        .filter(b => b.status === 'PENDING_PAYMENT')
+        .reduce((total, b) => total + Number(b.fare || 0), 0) || Number(booking.fare || 0);
+
+    const handlePaid = useCallback(() => {
+        setIsPaymentModalOpen(false);
+        onBookingUpdate();
+    }, [onBookingUpdate]);
+
+    const handleChanged = useCallback(() => {
+        setIsChangeModalOpen(false);
+        onBookingUpdate();
+    }, [onBookingUpdate]);
+
+    // Changes close with the cancellation window.
+    const canChange = canCancel && !isJourneyCompleted && !booking.isFreeTicket
+        && (booking.status === 'CONFIRMED' || booking.status === 'PARTIALLY_CANCELLED');
+
+    const handleDeclinePayment = async () => {
+        try {
+            await api.abandonBooking(booking.id);
+        } catch (err) {
+            // The booking may already have expired; refreshing shows its real state.
+        }
+        setIsPaymentModalOpen(false);
+        onBookingUpdate();
+    };
 
     const getBookingTag = () => {
+        if (booking.status === 'PENDING_PAYMENT') {
+            return <span className="booking-detail-card__status-tag tag-partial">PAYMENT PENDING</span>;
+        }
+        if (booking.status === 'EXPIRED') {
+            return <span className="booking-detail-card__status-tag tag-cancelled">PAYMENT EXPIRED</span>;
+        }
+        if (isTripCancelled && booking.status !== 'CANCELLED') {
+            return <span className="booking-detail-card__status-tag tag-cancelled">SERVICE CANCELLED</span>;
+        }
         if (isJourneyCompleted) {
             return <span className="booking-detail-card__status-tag tag-completed">COMPLETED</span>;
         }
@@ -184,97 +337,39 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
     }
 
 
-    const generateQrCode = async () => {
-        const payload = getQrPayload();
-        if (!payload) return;
-
+    // The QR code holds the same server-signed token as the downloaded ticket.
+    const showQrCode = async () => {
+        setIsLoadingQr(true);
+        setTicketError(null);
         try {
-            const url = await QRCode.toDataURL(JSON.stringify(payload), { errorCorrectionLevel: 'H', width: 256 });
-            setQrCodeDataUrl(url);
+            const { token } = await api.getTicketQr(booking.id);
+            setQrCodeDataUrl(await QRCode.toDataURL(token, { errorCorrectionLevel: 'M', width: 256 }));
             setIsQrModalOpen(true);
         } catch (err) {
-            console.error("Failed to generate QR code", err);
-        }
-    };
-
-    const generatePdfReceipt = async () => {
-        if (!user || !schedule || !schedule.fullRouteStops || !discounts) return;
-        setIsDownloading(true);
-        
-        try {
-            const doc = new jsPDF();
-            const formatTime = (timeStr?: string | null) => timeStr ? timeStr.substring(0, 5) : 'N/A';
-
-            const originStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.origin.trim().toLowerCase());
-            const destStop = schedule.fullRouteStops.find(s => s.name.trim().toLowerCase() === booking.destination.trim().toLowerCase());
-            const departureTime = formatTime(originStop?.departure);
-            const arrivalTime = formatTime(destStop?.arrival);
-            
-            doc.setFont("helvetica", "bold");
-            doc.setFontSize(18);
-            doc.text("Government Bus - E-Ticket", 20, 20);
-            
-            doc.setFontSize(11);
-            doc.setFont("helvetica", "normal");
-            doc.text(`Passenger: ${user.fullName}`, 20, 35);
-            doc.text(`Route: ${booking.origin} to ${booking.destination}`, 20, 45);
-            doc.text(`Bus: ${schedule.busName} (${schedule.id})`, 20, 55);
-            doc.text(`Booking Date: ${new Date(booking.bookingDate).toLocaleString()}`, 20, 65);
-            doc.text(`Departure from ${booking.origin}: ${departureTime}`, 20, 75);
-            doc.text(`Arrival at ${booking.destination}: ${arrivalTime}`, 20, 82);
-            doc.text(`Seats: ${(booking.seatIds || []).join(', ')}`, 20, 92);
-
-            const payload = getQrPayload();
-            if (!payload) {
-                setIsDownloading(false);
-                return;
-            }
-
-            const qrCodeDataURL = await QRCode.toDataURL(JSON.stringify(payload), { errorCorrectionLevel: 'H' });
-            
-            doc.addImage(qrCodeDataURL, 'PNG', 140, 30, 50, 50);
-            doc.setFontSize(8);
-            doc.text("Scan for Verification", 147, 85);
-
-            let yPos = 100;
-
-            doc.setFont("helvetica", "bold");
-            doc.text("Ticket Summary:", 20, yPos);
-            yPos += 7;
-            doc.setFont("helvetica", "normal");
-
-            const activePassengerDetails = booking.passengerDetails?.filter(p => p.status !== 'CANCELLED') || [];
-            const seniorSeatsCount = activePassengerDetails.filter(p => p.type === 'SENIOR').length;
-            const childSeatsCount = activePassengerDetails.filter(p => p.type === 'CHILD').length;
-            const normalSeats = activePassengerDetails.length - seniorSeatsCount - childSeatsCount;
-            
-            const segmentFare = (destStop?.fare || 0) - (originStop?.fare || 0);
-            const childFare = segmentFare * (1 - (discounts.child / 100));
-            const seniorFare = segmentFare * (1 - (discounts.senior / 100));
-            
-            if (normalSeats > 0) doc.text(`- Normal Tickets: ${normalSeats} x ₹${segmentFare.toFixed(2)} = ₹${(normalSeats * segmentFare).toFixed(2)}`, 25, yPos); yPos += 7;
-            if (childSeatsCount > 0) doc.text(`- Child Tickets: ${childSeatsCount} x ₹${childFare.toFixed(2)} = ₹${(childSeatsCount * childFare).toFixed(2)}`, 25, yPos); yPos += 7;
-            if (seniorSeatsCount > 0) doc.text(`- Senior Tickets: ${seniorSeatsCount} x ₹${seniorFare.toFixed(2)} = ₹${(seniorSeatsCount * seniorFare).toFixed(2)}`, 25, yPos); yPos += 7;
-
-            yPos += 5;
-            doc.setFont("helvetica", "bold");
-            let fareText = `Total Fare: INR ${Number(booking.fare || 0).toFixed(2)}`;
-            if (booking.isFreeTicket) fareText = `Total Fare: FREE`;
-            doc.text(fareText, 20, yPos);
-            
-            doc.save(`GovernmentBus-Ticket-${booking.id}.pdf`);
-        } catch (err) {
-            console.error("Failed to generate PDF", err);
+            setTicketError(err instanceof Error ? err.message : "Could not load the ticket QR code.");
         } finally {
-            setIsDownloading(false);
+            setIsLoadingQr(false);
         }
     };
-    
-    const refundAmount = useMemo(() => {
-        return cancellablePassengers
-            .filter(p => seatsToCancel.has(p.seatId))
-            .reduce((sum, p) => sum + p.fare, 0);
-    }, [seatsToCancel, cancellablePassengers]);
+
+    // Until the server's quote arrives, the fee is previewed from the published policy with the shared
+    // rules. Once it has arrived, its figures are shown, as they are what cancelling will refund.
+    const previewSlabs = useMemo(
+        () => findSlabsForDistrict(cancellationPolicies, schedule?.origin || booking.origin),
+        [cancellationPolicies, schedule, booking.origin]
+    );
+    const feePercentage = cancellationQuote
+        ? cancellationQuote.feePercentage
+        : isTripCancelled || !departureDateTime ? 0 : quoteCancellation(previewSlabs, departureDateTime).feePercentage;
+
+    const refundPreview = useMemo(() => {
+        const seats = cancellationQuote
+            ? cancellationQuote.seats.filter(seat => seatsToCancel.has(seat.seatId))
+            : cancellablePassengers
+                .filter(p => seatsToCancel.has(p.seatId))
+                .map(p => calculateSeatRefund(p.fare, feePercentage));
+        return seats.reduce((total, seat) => ({ fee: total.fee + seat.fee, refund: total.refund + seat.refund }), { fee: 0, refund: 0 });
+    }, [seatsToCancel, cancellablePassengers, cancellationQuote, feePercentage]);
 
     return (
         <Card className="booking-detail-card">
@@ -284,36 +379,134 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
                         <h3 className="booking-detail-card__route">{booking.origin} to {booking.destination}</h3>
                         {getBookingTag()}
                     </div>
-                    <p className="booking-detail-card__bus-name">{schedule ? schedule.busName : 'Loading bus details...'}</p>
+                    <p className="booking-detail-card__bus-name">{booking.trip?.busName || (schedule ? schedule.busName : 'Loading bus details...')}</p>
+                    {booking.trip && booking.status !== 'CANCELLED' && !isJourneyCompleted && (isTripCancelled || booking.trip.delayMinutes > 0 || booking.trip.busName || booking.trip.note) && (
+                        <div className={`booking-detail-card__trip-notice ${isTripCancelled ? 'booking-detail-card__trip-notice--cancelled' : ''}`}>
+                            <AlertTriangle size={16} />
+                            <div>
+                                {isTripCancelled
+                                    ? <p>This departure has been cancelled{disruption?.reason ? ` (${disruption.reason})` : ''}.{!hasOpenOffer && ' Cancel your seats below for a full refund.'}</p>
+                                    : booking.trip.delayMinutes > 0 && <p>This bus is running {booking.trip.delayMinutes} minutes late.</p>}
+                                {!isTripCancelled && booking.trip.busName && <p>A different bus, {booking.trip.busName}, will run this trip.</p>}
+                                {booking.trip.note && <p>{booking.trip.note}</p>}
+                                {hasOpenOffer && disruption && <RebookingOffer booking={booking} disruption={disruption} onSettled={onBookingUpdate} />}
+                            </div>
+                        </div>
+                    )}
+                    {disruption && disruption.status === 'REBOOKED' && (
+                        <p className="booking-detail-card__itinerary">
+                            <Bus size={14} />
+                            Moved to this bus after your original departure was cancelled{disruption.reason ? ` (${disruption.reason})` : ''}.
+                        </p>
+                    )}
+                    {disruption && disruption.status === 'REFUNDED' && booking.status === 'CANCELLED' && (
+                        <p className="booking-detail-card__itinerary">
+                            <AlertTriangle size={14} />
+                            Cancelled by the operator{disruption.reason ? ` (${disruption.reason})` : ''}. Your fare is refunded in full.
+                        </p>
+                    )}
+                    {booking.itineraryId && booking.itineraryLeg && (
+                        <p className="booking-detail-card__itinerary">
+                            <Repeat size={14} />
+                            {booking.itineraryKind === 'ROUND_TRIP'
+                                ? `${booking.itineraryLeg === 1 ? 'Outbound' : 'Return'} journey of a round trip`
+                                : `Leg ${booking.itineraryLeg} of ${itineraryBookings.length} of a connecting journey`}
+                        </p>
+                    )}
                     
                     <div className="booking-detail-card__meta">
-                        <div className="booking-detail-card__meta-item" title="Booking Date"><Calendar size={16} /><span>{new Date(booking.bookingDate).toLocaleDateString()}</span></div>
+                        <div className="booking-detail-card__meta-item" title="Journey Date"><Calendar size={16} /><span>{formatJourneyDate(booking.journeyDate)}</span></div>
                         <div className="booking-detail-card__meta-item" title="Total Fare"><IndianRupee size={16} /><span>{Number(booking.fare || 0).toFixed(2)}</span></div>
                         <div className="booking-detail-card__meta-item booking-detail-card__meta-item--full" title="Booked Seats"><Armchair size={16} /><span>{(booking.seatIds || []).join(', ')}</span></div>
                     </div>
-                </div>
 
-                <div className="booking-detail-card__actions">
-                    {!isJourneyCompleted && booking.status !== 'CANCELLED' && (
-                        <Link to="/track" state={{ busId: booking.scheduleId }}>
-                           <Button variant="secondary" className="booking-detail-card__btn">
-                                <div className="btn__loader"><MapPin size={18} /> Track Bus</div>
-                           </Button>
-                        </Link>
+                    {booking.boarding && booking.boarding.length > 0 && (
+                        <ul className="booking-detail-card__boarding">
+                            {booking.boarding.map(record => {
+                                const passenger = cancellablePassengers.find(p => p.seatId === record.seatId);
+                                return (
+                                    <li key={record.seatId} className={`boarding-badge boarding-badge--${record.status === 'BOARDED' ? 'boarded' : 'no-show'}`}>
+                                        {record.status === 'BOARDED' ? <UserCheck size={14} /> : <UserX size={14} />}
+                                        Seat {record.seatId}{passenger && ` (${passenger.fullName})`}: {record.status === 'BOARDED' ? 'Boarded' : 'Did not board'}
+                                    </li>
+                                );
+                            })}
+                        </ul>
                     )}
-                    {!isJourneyCompleted && isCancellationEnabled && canCancel && booking.status !== 'CANCELLED' && (
-                         <Button onClick={() => setIsCancelModalOpen(true)} variant="danger" className="booking-detail-card__btn">
-                            <div className="btn__loader"><XCircle size={18} /> Cancel</div>
-                        </Button>
+
+                    {booking.changes && booking.changes.length > 0 && (
+                        <ul className="booking-detail-card__changes">
+                            {booking.changes.map(change => (
+                                <BookingChangeLine key={change.id} change={change} />
+                            ))}
+                        </ul>
+                    )}
+
+                    {booking.refunds && booking.refunds.length > 0 && (
+                        <ul className="booking-detail-card__refunds">
+                            {booking.refunds.map(refund => (
+                                <RefundLine key={refund.id} refund={refund} />
+                            ))}
+                        </ul>
                     )}
-                    <Button onClick={generateQrCode} variant="secondary" className="booking-detail-card__btn" disabled={!schedule}>
-                        <div className="btn__loader"><QrCode size={18} /> Show QR</div>
-                    </Button>
-                    <Button onClick={generatePdfReceipt} isLoading={isDownloading} disabled={!schedule || !discounts} className="booking-detail-card__btn">
-                         <div className="btn__loader"><Download size={18} /> Download</div>
-                    </Button>
                 </div>
+
+                {booking.status === 'PENDING_PAYMENT' && (
+                    <div className="booking-detail-card__actions">
+                        <Button onClick={() => setIsPaymentModalOpen(true)} className="booking-detail-card__btn">
+                            <div className="btn__loader"><CreditCard size={18} /> Pay Now</div>
+                        </Button>
+                    </div>
+                )}
+
+                {!isUnpaid && (
+                    <div className="booking-detail-card__actions">
+                        {!isJourneyCompleted && booking.status !== 'CANCELLED' && !isTripCancelled && (
+                            <Link to="/track" state={{ busId: booking.scheduleId }}>
+                               <Button variant="secondary" className="booking-detail-card__btn">
+                                    <div className="btn__loader"><MapPin size={18} /> Track Bus</div>
+                               </Button>
+                            </Link>
+                        )}
+                        {canChange && (
+                            <Button onClick={() => setIsChangeModalOpen(true)} variant="secondary" className="booking-detail-card__btn" disabled={!schedule}>
+                                <div className="btn__loader"><Pencil size={18} /> Modify</div>
+                            </Button>
+                        )}
+                        {!isJourneyCompleted && (isTripCancelled || (isCancellationEnabled && canCancel)) && booking.status !== 'CANCELLED' && (
+                             <Button onClick={openCancelModal} variant="danger" className="booking-detail-card__btn">
+                                <div className="btn__loader"><XCircle size={18} /> Cancel</div>
+                            </Button>
+                        )}
+                        <Button onClick={showQrCode} variant="secondary" isLoading={isLoadingQr} className="booking-detail-card__btn">
+                            <div className="btn__loader"><QrCode size={18} /> Show QR</div>
+                        </Button>
+                        <Button onClick={() => downloadTicket(booking.id)} isLoading={isDownloading} className="booking-detail-card__btn">
+                             <div className="btn__loader"><Download size={18} /> Download</div>
+                        </Button>
+                    </div>
+                )}
+                {(ticketError || downloadError) && <p className="auth-form__error">{ticketError || downloadError}</p>}
             </div>
+            <Modal isOpen={isPaymentModalOpen} onClose={() => setIsPaymentModalOpen(false)} title="Complete Payment">
+                {isPaymentModalOpen && (
+                    <PaymentCheckout
+                        booking={{ bookingId: booking.id, status: 'PENDING_PAYMENT', amount: amountDue, paymentExpiresAt: booking.paymentExpiresAt ?? null }}
+                        onPaid={handlePaid}
+                        onCancel={handleDeclinePayment}
+                    />
+                )}
+            </Modal>
+            <Modal isOpen={isChangeModalOpen} onClose={() => setIsChangeModalOpen(false)} title="Change Booking">
+                {isChangeModalOpen && schedule && (
+                    <BookingChangeForm
+                        booking={booking}
+                        schedule={schedule}
+                        onChanged={handleChanged}
+                        onClose={() => setIsChangeModalOpen(false)}
+                    />
+                )}
+            </Modal>
             <Modal isOpen={isQrModalOpen} onClose={() => setIsQrModalOpen(false)} title="Your Ticket QR Code">
                 <div className="booking-detail-card__qr-modal-content">
                     <p className="booking-detail-card__qr-modal-text">Present this QR code for verification.</p>
@@ -323,6 +516,15 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
             <Modal isOpen={isCancelModalOpen} onClose={() => setIsCancelModalOpen(false)} title="Cancel Seats">
                 <div className="cancellation-modal__content">
                     <p>Select the seats you wish to cancel. This action is irreversible.</p>
+                    {isTripCancelled ? (
+                        <p className="cancellation-modal__policy">The operator has cancelled this departure, so no cancellation fee applies.</p>
+                    ) : (
+                        <ul className="cancellation-modal__policy">
+                            {(cancellationQuote?.slabs || previewSlabs).map(slab => (
+                                <li key={slab.minHoursBeforeDeparture}>{describeSlab(slab)}</li>
+                            ))}
+                        </ul>
+                    )}
                     <div className="cancellation-modal__list">
                         {cancellablePassengers.map(p => (
                             <label key={p.seatId} className="cancellation-modal__item">
@@ -334,7 +536,10 @@ const BookingDetailCard: React.FC<{ booking: UserBooking, isCancellationEnabled:
                         ))}
                     </div>
                      <div className="cancellation-modal__summary">
-                        <strong>Refund Amount: ₹{refundAmount.toFixed(2)}</strong>
+                        {feePercentage > 0 && (
+                            <p>Cancellation Fee ({feePercentage}%): ₹{refundPreview.fee.toFixed(2)}</p>
+                        )}
+                        <strong>Refund Amount: ₹{refundPreview.refund.toFixed(2)}</strong>
                     </div>
                     {cancelError && <p className="auth-form__error">{cancelError}</p>}
                     <div className="booking-page__modal-actions" style={{marginTop: '1rem'}}>
@@ -353,6 +558,10 @@ export const UserDashboardPage: React.FC = () => {
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isCancellationEnabled, setIsCancellationEnabled] = useState(false);
+    const [cancellationPolicies, setCancellationPolicies] = useState<CancellationPolicy[]>([]);
+    const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+    const [leavingEntryId, setLeavingEntryId] = useState<string | null>(null);
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
     const { user } = useAuth();
 
     const fetchBookingsAndSettings = useCallback(async () => {
@@ -363,12 +572,18 @@ export const UserDashboardPage: React.FC = () => {
         setIsLoading(true);
         setError(null);
         try {
-            const [userBookings, cancellationSetting] = await Promise.all([
+            const [userBookings, cancellationSetting, policies, waitlist, userNotifications] = await Promise.all([
                 api.getUserBookings(user.id),
-                api.getSetting('isCancellationEnabled')
+                api.getSetting('isCancellationEnabled'),
+                api.getCancellationPolicies(),
+                api.getWaitlist(),
+                api.getNotifications(user.id)
             ]);
             setBookings(userBookings);
+            setWaitlistEntries(waitlist);
+            setNotifications(userNotifications.filter(notification => !notification.readAt));
             setIsCancellationEnabled(cancellationSetting.value === 'true');
+            setCancellationPolicies(policies);
         } catch (err) {
             setError("Failed to load your bookings. Please try again later.");
         } finally {
@@ -380,6 +595,46 @@ export const UserDashboardPage: React.FC = () => {
         fetchBookingsAndSettings();
     }, [fetchBookingsAndSettings]);
 
+    // Legs of the same itinerary are listed together, in leg order, where the first of them falls.
+    const bookingGroups = useMemo(() => {
+        const groups: UserBooking[][] = [];
+        const itineraryGroups: Record<string, UserBooking[]> = {};
+        for (const booking of bookings) {
+            if (!booking.itineraryId) {
+                groups.push([booking]);
+            } else if (itineraryGroups[booking.itineraryId]) {
+                itineraryGroups[booking.itineraryId].push(booking);
+            } else {
+                itineraryGroups[booking.itineraryId] = [booking];
+                groups.push(itineraryGroups[booking.itineraryId]);
+            }
+        }
+        groups.forEach(group => group.sort((a, b) => (a.itineraryLeg ?? 0) - (b.itineraryLeg ?? 0)));
+        return groups;
+    }, [bookings]);
+
+    const handleLeaveWaitlist = async (entryId: string) => {
+        setLeavingEntryId(entryId);
+        try {
+            await api.leaveWaitlist(entryId);
+            setWaitlistEntries(await api.getWaitlist());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Could not leave the waitlist. Please try again.");
+        } finally {
+            setLeavingEntryId(null);
+        }
+    };
+
+    const handleNotificationRead = async (notificationId: string) => {
+        if (!user) return;
+        setNotifications(prev => prev.filter(notification => notification.id !== notificationId));
+        try {
+            await api.markNotificationRead(user.id, notificationId);
+        } catch (err) {
+            // It stays unread on the server and comes back on the next refresh.
+        }
+    };
+
     return (
         <div className="container dashboard-page">
             <div className="page-header-with-back">
@@ -397,17 +652,51 @@ export const UserDashboardPage: React.FC = () => {
                     </div>
                 )}
                 {error && <Card><p className="home-page__error">{error}</p></Card>}
+                {!isLoading && notifications.length > 0 && (
+                    <NotificationsCard notifications={notifications} onRead={handleNotificationRead} />
+                )}
+                {!isLoading && waitlistEntries.length > 0 && (
+                    <Card className="waitlist-card">
+                        <h2 className="waitlist-card__title">Waitlist</h2>
+                        {waitlistEntries.map(entry => (
+                            <WaitlistEntryCard
+                                key={entry.id}
+                                entry={entry}
+                                onLeave={handleLeaveWaitlist}
+                                isLeaving={leavingEntryId === entry.id}
+                            />
+                        ))}
+                    </Card>
+                )}
                 {!isLoading && !error && bookings.length === 0 && (
                     <Card><p className="text-center">You have no bookings yet. Time to plan a trip!</p></Card>
                 )}
-                {bookings.map(booking => (
-                    <BookingDetailCard 
-                        key={booking.id} 
-                        booking={booking}
-                        isCancellationEnabled={isCancellationEnabled}
-                        onBookingUpdate={fetchBookingsAndSettings}
-                    />
-                ))}
+                {bookingGroups.map(group => {
+                    const cards = group.map(booking => (
+                        <BookingDetailCard 
+                            key={booking.id} 
+                            booking={booking}
+                            itineraryBookings={group}
+                            isCancellationEnabled={isCancellationEnabled}
+                            cancellationPolicies={cancellationPolicies}
+                            onBookingUpdate={fetchBookingsAndSettings}
+                        />
+                    ));
+                    const [first] = group;
+                    if (!first.itineraryId) return cards;
+                    const last = group[group.length - 1];
+                    return (
+                        <div key={first.itineraryId} className="booking-itinerary-group">
+                            <h2 className="booking-itinerary-group__title">
+                                <Repeat size={18} />
+                                {first.itineraryKind === 'ROUND_TRIP'
+                                    ? `Round trip: ${first.origin} and back`
+                                    : `Connecting journey: ${first.origin} to ${last.destination}`}
+                            </h2>
+                            {cards}
+                        </div>
+                    );
+                })}
             </div>
         </div>
     );
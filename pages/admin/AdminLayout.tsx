@@ -1,6 +1,6 @@
 import React from 'react';
 import { NavLink, Outlet } from 'react-router-dom';
-import { LayoutDashboard, Settings, Users, IndianRupee, UploadCloud, List, UserPlus } from 'lucide-react';
+import { LayoutDashboard, Settings, Users, IndianRupee, UploadCloud, List, UserPlus, Bus, LayoutGrid } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { UserRole } from '../../types';
 
@@ -30,6 +30,14 @@ export const AdminLayout: React.FC = () => {
                                     <UserPlus size={20} />
                                     <span>Bulk User Upload</span>
                                 </NavLink>
+                                <NavLink to="/admin/fleet" className={getNavLinkClass}>
+                                    <Bus size={20} />
+                                    <span>Fleet</span>
+                                </NavLink>
+                                <NavLink to="/admin/seat-layouts" className={getNavLinkClass}>
+                                    <LayoutGrid size={20} />
+                                    <span>Seat Layouts</span>
+                                </NavLink>
                             </>
                         )}
                         <NavLink to="/admin/users" className={getNavLinkClass}>
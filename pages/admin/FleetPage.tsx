@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '../../components/common/Card';
+import { Button } from '../../components/common/Button';
+import { api } from '../../services/api';
+import type { Vehicle } from '../../types';
+import { UserRole } from '../../types';
+import { Bus, PlusCircle, Edit, Trash2 } from 'lucide-react';
+import { VehicleFormModal } from '../../components/admin/VehicleFormModal';
+import { useAuth } from '../../hooks/useAuth';
+import { BackButton } from '../../components/common/BackButton';
+import { BUS_CLASS_LABELS } from '../../constants';
+import { getTodayDateString, formatJourneyDate } from '../../utils/journeyDate';
+
+// Certificates expiring within this many days are flagged so they can be renewed in time.
+const EXPIRY_WARNING_DAYS = 30;
+
+const daysUntil = (date: string, today: string): number =>
+    Math.round((new Date(`${date}T00:00:00`).getTime() - new Date(`${today}T00:00:00`).getTime()) / 86400000);
+
+export const FleetPage: React.FC = () => {
+    const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+
+    const { user } = useAuth();
+    const isAdmin = user?.role === UserRole.ADMIN;
+    const today = getTodayDateString();
+
+    const fetchVehicles = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            setError(null);
+            setVehicles(await api.getVehicles());
+        } catch (err) {
+            setError("Failed to load the fleet. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchVehicles();
+    }, [fetchVehicles]);
+
+    const handleOpenModal = (vehicle: Vehicle | null) => {
+        setEditingVehicle(vehicle);
+        setIsModalOpen(true);
+    };
+
+    const handleCloseModal = () => {
+        setIsModalOpen(false);
+        setEditingVehicle(null);
+    };
+
+    const handleSaveSuccess = () => {
+        handleCloseModal();
+        fetchVehicles();
+    };
+
+    const handleDeleteVehicle = async (vehicle: Vehicle) => {
+        if (window.confirm(`Remove ${vehicle.registrationNumber} from the fleet? This action cannot be undone.`)) {
+            try {
+                await api.deleteVehicle(vehicle.id);
+                setVehicles(prev => prev.filter(v => v.id !== vehicle.id));
+            } catch (err) {
+                const message = err instanceof Error ? err.message : "An unexpected error occurred.";
+                alert(`Failed to remove vehicle: ${message}`);
+            }
+        }
+    };
+
+    const expiryBadge = (date: string) => {
+        const days = daysUntil(date, today);
+        if (days < 0) {
+            return <span className="fleet__expiry fleet__expiry--expired">Expired {formatJourneyDate(date)}</span>;
+        }
+        if (days <= EXPIRY_WARNING_DAYS) {
+            return <span className="fleet__expiry fleet__expiry--soon">{formatJourneyDate(date)} ({days} day{days === 1 ? '' : 's'})</span>;
+        }
+        return <span className="fleet__expiry">{formatJourneyDate(date)}</span>;
+    };
+
+    return (
+        <>
+            <Card>
+                <div className="page-header-with-back" style={{ marginBottom: '1.5rem' }}>
+                    <BackButton to="/admin" />
+                    <div className="user-management__header-content">
+                        <div>
+                            <h2 className="admin-page-header__title" style={{ marginBottom: 0 }}>
+                                <Bus /> Fleet
+                            </h2>
+                            <p className="admin-page-header__subtitle" style={{ marginBottom: 0, marginTop: '0.25rem' }}>
+                                Buses by depot, with the schedules they run and when their papers expire.
+                            </p>
+                        </div>
+                        {isAdmin && (
+                            <div className="user-management__header-actions">
+                                <Button onClick={() => handleOpenModal(null)}>
+                                    <PlusCircle size={20} /> Add Vehicle
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {isLoading && <div className="text-center py-8">Loading vehicles...</div>}
+                {error && <p className="auth-form__error">{error}</p>}
+
+                {!isLoading && !error && vehicles.length === 0 && (
+                    <p className="text-center py-8">No vehicles in the fleet yet.</p>
+                )}
+
+                {!isLoading && !error && vehicles.length > 0 && (
+                    <div className="user-management__table-wrapper">
+                        <table className="user-management__table">
+                            <thead>
+                                <tr>
+                                    <th>Registration</th>
+                                    <th>Depot</th>
+                                    <th>Bus</th>
+                                    <th>Fitness</th>
+                                    <th>Insurance</th>
+                                    <th>Schedules</th>
+                                    {isAdmin && <th>Actions</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {vehicles.map(vehicle => (
+                                    <tr key={vehicle.id}>
+                                        <td>
+                                            <div className="user-management__user-name">{vehicle.registrationNumber}</div>
+                                        </td>
+                                        <td>{vehicle.depot}</td>
+                                        <td className="user-management__user-contact">
+                                            <div>{BUS_CLASS_LABELS[vehicle.busClass]}, {vehicle.seatLayout}</div>
+                                            <div className="user-management__user-contact-email">Capacity {vehicle.capacity}</div>
+                                        </td>
+                                        <td>{expiryBadge(vehicle.fitnessExpiresOn)}</td>
+                                        <td>{expiryBadge(vehicle.insuranceExpiresOn)}</td>
+                                        <td>
+                                            {vehicle.scheduleIds.length > 0
+                                                ? <div className="user-management__districts">{vehicle.scheduleIds.map(id => <span key={id} className="user-management__district-tag">{id}</span>)}</div>
+                                                : <span className="text-gray-400 italic">Spare</span>}
+                                        </td>
+                                        {isAdmin && (
+                                            <td>
+                                                <div className="user-management__actions">
+                                                    <Button variant="secondary" onClick={() => handleOpenModal(vehicle)} className="user-management__action-btn">
+                                                        <Edit size={16} />
+                                                    </Button>
+                                                    <Button variant="danger" onClick={() => handleDeleteVehicle(vehicle)} disabled={vehicle.scheduleIds.length > 0} title={vehicle.scheduleIds.length > 0 ? 'Take it off its schedules first' : undefined} className="user-management__action-btn">
+                                                        <Trash2 size={16} />
+                                                    </Button>
+                                                </div>
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </Card>
+
+            {isModalOpen && (
+                <VehicleFormModal
+                    isOpen={isModalOpen}
+                    onClose={handleCloseModal}
+                    onSave={handleSaveSuccess}
+                    vehicleToEdit={editingVehicle}
+                />
+            )}
+        </>
+    );
+};
@@ -1,20 +1,19 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { useAuth } from '../../hooks/useAuth';
 import { api } from '../../services/api';
-import type { RevenueAnalyticsData, DetailedDistrictAnalytics, DetailedRouteAnalytics } from '../../types';
+import type { RevenueAnalyticsData, DetailedDistrictAnalytics, CategoryMetrics, PassengerType } from '../../types';
 import { Card } from '../../components/common/Card';
 import { UserRole } from '../../types';
 import { TrendingUp, IndianRupee, Ticket, AlertCircle, TrendingDown, Users, Route, MapPin, XCircle } from 'lucide-react';
 import { BackButton } from '../../components/common/BackButton';
+import { useConcessionCategories } from '../../hooks/useConcessionCategories';
+import { getTicketTypeLabel } from '../../utils/concessions';
 
-const COLORS = {
-    'NORMAL': '#4f46e5',
-    'CHILD': '#16a34a',
-    'SENIOR': '#f59e0b',
-    'REFUNDED': '#ef4444',
-};
-const CATEGORY_ORDER: { [key: string]: number } = { 'NORMAL': 0, 'CHILD': 1, 'SENIOR': 2 };
+// Ticket types take colours in order: normal tickets first, then concession categories.
+const TYPE_COLORS = ['#4f46e5', '#16a34a', '#f59e0b', '#0ea5e9', '#db2777', '#7c3aed', '#0d9488', '#ea580c'];
+const REFUNDED_COLOR = '#ef4444';
+const EMPTY_METRICS: CategoryMetrics = { bookedRevenue: 0, bookedTickets: 0, cancelledRevenue: 0, cancelledTickets: 0 };
 
 const formatCurrency = (value: number) => `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
 const formatNumber = (value: number) => value.toLocaleString('en-IN');
@@ -32,115 +31,43 @@ const AnalyticsSummaryCard: React.FC<{ title: string; value: React.ReactNode; ic
     </Card>
 );
 
-const DetailedAnalyticsTable: React.FC<{ 
-    data: (DetailedDistrictAnalytics | DetailedRouteAnalytics)[]; 
-    type: 'district' | 'route' 
-}> = ({ data, type }) => {
+const sumMetrics = (metrics: CategoryMetrics[], field: keyof CategoryMetrics) =>
+    metrics.reduce((total, m) => total + Number(m[field]), 0);
+
+// Rows are keyed by one of their string fields: the district or the route.
+const DetailedAnalyticsTable = <K extends 'district' | 'route', T extends Pick<DetailedDistrictAnalytics, 'byType'> & Record<K, string>>({ data, keyField, ticketTypes, getLabel }: {
+    data: T[];
+    keyField: K;
+    ticketTypes: PassengerType[]; // Column order
+    getLabel: (ticketType: PassengerType) => string;
+}) => {
     
     if (data.length === 0) {
         return <p className="text-center p-4">No data available for this view.</p>
     }
 
-    const keyField = type === 'district' ? 'district' : 'route';
-
-    const revenueData = useMemo(() => data.map(item => {
-        const bookedNormal = Number(item.bookedNormalRevenue);
-        const bookedChild = Number(item.bookedChildRevenue);
-        const bookedSenior = Number(item.bookedSeniorRevenue);
-        const cancelledNormal = Number(item.cancelledNormalRevenue);
-        const cancelledChild = Number(item.cancelledChildRevenue);
-        const cancelledSenior = Number(item.cancelledSeniorRevenue);
-        
-        const bookedTotal = bookedNormal + bookedChild + bookedSenior;
-        const cancelledTotal = cancelledNormal + cancelledChild + cancelledSenior;
-
-        const netNormal = bookedNormal - cancelledNormal;
-        const netChild = bookedChild - cancelledChild;
-        const netSenior = bookedSenior - cancelledSenior;
-
-        // Per user request: The row's "Net Total" is the sum of only the positive components.
-        const netTotal = (netNormal > 0 ? netNormal : 0) + 
-                         (netChild > 0 ? netChild : 0) + 
-                         (netSenior > 0 ? netSenior : 0);
-
-        return {
-            key: (item as any)[keyField],
-            bookedNormalRevenue: bookedNormal,
-            bookedChildRevenue: bookedChild,
-            bookedSeniorRevenue: bookedSenior,
-            cancelledNormalRevenue: cancelledNormal,
-            cancelledChildRevenue: cancelledChild,
-            cancelledSeniorRevenue: cancelledSenior,
-            bookedTotal,
-            cancelledTotal,
-            netNormal,
-            netChild,
-            netSenior,
-            netTotal,
-        };
-    }), [data, keyField]);
-
-    const ticketData = useMemo(() => data.map(item => {
-        const bookedNormal = Number(item.bookedNormalTickets);
-        const bookedChild = Number(item.bookedChildTickets);
-        const bookedSenior = Number(item.bookedSeniorTickets);
-        const cancelledNormal = Number(item.cancelledNormalTickets);
-        const cancelledChild = Number(item.cancelledChildTickets);
-        const cancelledSenior = Number(item.cancelledSeniorTickets);
-
-        return {
-            key: (item as any)[keyField],
-            bookedNormalTickets: bookedNormal,
-            bookedChildTickets: bookedChild,
-            bookedSeniorTickets: bookedSenior,
-            cancelledNormalTickets: cancelledNormal,
-            cancelledChildTickets: cancelledChild,
-            cancelledSeniorTickets: cancelledSenior,
-            bookedTotal: bookedNormal + bookedChild + bookedSenior,
-            cancelledTotal: cancelledNormal + cancelledChild + cancelledSenior,
-        };
-    }), [data, keyField]);
-    
-    const revenueTotals = useMemo(() => {
-        const totals = revenueData.reduce((acc, row) => {
-            acc.bookedNormalRevenue += row.bookedNormalRevenue;
-            acc.bookedChildRevenue += row.bookedChildRevenue;
-            acc.bookedSeniorRevenue += row.bookedSeniorRevenue;
-            acc.bookedTotal += row.bookedTotal;
-            acc.cancelledNormalRevenue += row.cancelledNormalRevenue;
-            acc.cancelledChildRevenue += row.cancelledChildRevenue;
-            acc.cancelledSeniorRevenue += row.cancelledSeniorRevenue;
-            acc.cancelledTotal += row.cancelledTotal;
-            return acc;
-        }, {
-            bookedNormalRevenue: 0, bookedChildRevenue: 0, bookedSeniorRevenue: 0, bookedTotal: 0,
-            cancelledNormalRevenue: 0, cancelledChildRevenue: 0, cancelledSeniorRevenue: 0, cancelledTotal: 0,
-        });
-
-        // The grand total row should always calculate net revenue correctly.
-        const netNormal = totals.bookedNormalRevenue - totals.cancelledNormalRevenue;
-        const netChild = totals.bookedChildRevenue - totals.cancelledChildRevenue;
-        const netSenior = totals.bookedSeniorRevenue - totals.cancelledSeniorRevenue;
-        const netTotal = totals.bookedTotal - totals.cancelledTotal;
-        
-        return { ...totals, netNormal, netChild, netSenior, netTotal };
-    }, [revenueData]);
-
-
-    const ticketTotals = useMemo(() => ticketData.reduce((acc, row) => {
-        acc.bookedNormalTickets += row.bookedNormalTickets;
-        acc.bookedChildTickets += row.bookedChildTickets;
-        acc.bookedSeniorTickets += row.bookedSeniorTickets;
-        acc.bookedTotal += row.bookedTotal;
-        acc.cancelledNormalTickets += row.cancelledNormalTickets;
-        acc.cancelledChildTickets += row.cancelledChildTickets;
-        acc.cancelledSeniorTickets += row.cancelledSeniorTickets;
-        acc.cancelledTotal += row.cancelledTotal;
-        return acc;
-    }, {
-        bookedNormalTickets: 0, bookedChildTickets: 0, bookedSeniorTickets: 0, bookedTotal: 0,
-        cancelledNormalTickets: 0, cancelledChildTickets: 0, cancelledSeniorTickets: 0, cancelledTotal: 0,
-    }), [ticketData]);
+    const rows = useMemo(() => data.map(item => ({
+        key: item[keyField],
+        metrics: ticketTypes.map(ticketType => item.byType[ticketType] || EMPTY_METRICS),
+    })), [data, keyField, ticketTypes]);
+
+    const totals = useMemo(() => ticketTypes.map((_, index) => ({
+        bookedRevenue: sumMetrics(rows.map(row => row.metrics[index]), 'bookedRevenue'),
+        bookedTickets: sumMetrics(rows.map(row => row.metrics[index]), 'bookedTickets'),
+        cancelledRevenue: sumMetrics(rows.map(row => row.metrics[index]), 'cancelledRevenue'),
+        cancelledTickets: sumMetrics(rows.map(row => row.metrics[index]), 'cancelledTickets'),
+    })), [rows, ticketTypes]);
+
+    // Per user request: The row's "Net Total" is the sum of only the positive components.
+    const rowNetTotal = (metrics: CategoryMetrics[]) =>
+        metrics.reduce((total, m) => total + Math.max(0, Number(m.bookedRevenue) - Number(m.cancelledRevenue)), 0);
+
+    const typeHeaders = (
+        <>
+            {ticketTypes.map(ticketType => <th key={ticketType}>{getLabel(ticketType)}</th>)}
+            <th>Total</th>
+        </>
+    );
 
     return (
         <div className="space-y-6">
@@ -150,42 +77,36 @@ const DetailedAnalyticsTable: React.FC<{
                     <table className="user-management__table analytics-table--detailed">
                         <thead>
                             <tr>
-                                <th rowSpan={2} className="sticky-col">{type === 'district' ? 'District' : 'Route'}</th>
-                                <th colSpan={4}>Booked Revenue</th>
-                                <th colSpan={4}>Cancelled Revenue (Refunds)</th>
-                                <th colSpan={4}>Net Revenue</th>
-                            </tr>
-                            <tr>
-                                <th>Normal</th><th>Child</th><th>Senior</th><th>Total</th>
-                                <th>Normal</th><th>Child</th><th>Senior</th><th>Total</th>
-                                <th>Normal</th><th>Child</th><th>Senior</th><th>Total</th>
+                                <th rowSpan={2} className="sticky-col">{keyField === 'district' ? 'District' : 'Route'}</th>
+                                <th colSpan={ticketTypes.length + 1}>Booked Revenue</th>
+                                <th colSpan={ticketTypes.length + 1}>Cancelled Revenue (Refunds)</th>
+                                <th colSpan={ticketTypes.length + 1}>Net Revenue</th>
                             </tr>
+                            <tr>{typeHeaders}{typeHeaders}{typeHeaders}</tr>
                         </thead>
                         <tbody>
-                            {revenueData.map(d => (
+                            {rows.map(d => (
                                 <tr key={d.key}>
                                     <td className="sticky-col">{d.key}</td>
-                                    <td>{formatCurrency(d.bookedNormalRevenue)}</td><td>{formatCurrency(d.bookedChildRevenue)}</td><td>{formatCurrency(d.bookedSeniorRevenue)}</td><td className="font-bold">{formatCurrency(d.bookedTotal)}</td>
-                                    <td className="text-red-600">{formatCurrency(d.cancelledNormalRevenue)}</td><td className="text-red-600">{formatCurrency(d.cancelledChildRevenue)}</td><td className="text-red-600">{formatCurrency(d.cancelledSeniorRevenue)}</td><td className="font-bold text-red-600">{formatCurrency(d.cancelledTotal)}</td>
-                                    <td>{formatCurrency(d.netNormal)}</td><td>{formatCurrency(d.netChild)}</td><td>{formatCurrency(d.netSenior)}</td><td className="font-bold">{formatCurrency(d.netTotal)}</td>
+                                    {d.metrics.map((m, i) => <td key={`booked-${i}`}>{formatCurrency(Number(m.bookedRevenue))}</td>)}
+                                    <td className="font-bold">{formatCurrency(sumMetrics(d.metrics, 'bookedRevenue'))}</td>
+                                    {d.metrics.map((m, i) => <td key={`cancelled-${i}`} className="text-red-600">{formatCurrency(Number(m.cancelledRevenue))}</td>)}
+                                    <td className="font-bold text-red-600">{formatCurrency(sumMetrics(d.metrics, 'cancelledRevenue'))}</td>
+                                    {d.metrics.map((m, i) => <td key={`net-${i}`}>{formatCurrency(Number(m.bookedRevenue) - Number(m.cancelledRevenue))}</td>)}
+                                    <td className="font-bold">{formatCurrency(rowNetTotal(d.metrics))}</td>
                                 </tr>
                             ))}
                         </tbody>
                         <tfoot>
                             <tr>
                                 <td className="sticky-col">Total</td>
-                                <td>{formatCurrency(revenueTotals.bookedNormalRevenue)}</td>
-                                <td>{formatCurrency(revenueTotals.bookedChildRevenue)}</td>
-                                <td>{formatCurrency(revenueTotals.bookedSeniorRevenue)}</td>
-                                <td className="font-bold">{formatCurrency(revenueTotals.bookedTotal)}</td>
-                                <td className="text-red-600">{formatCurrency(revenueTotals.cancelledNormalRevenue)}</td>
-                                <td className="text-red-600">{formatCurrency(revenueTotals.cancelledChildRevenue)}</td>
-                                <td className="text-red-600">{formatCurrency(revenueTotals.cancelledSeniorRevenue)}</td>
-                                <td className="font-bold text-red-600">{formatCurrency(revenueTotals.cancelledTotal)}</td>
-                                <td>{formatCurrency(revenueTotals.netNormal)}</td>
-                                <td>{formatCurrency(revenueTotals.netChild)}</td>
-                                <td>{formatCurrency(revenueTotals.netSenior)}</td>
-                                <td className="font-bold">{formatCurrency(revenueTotals.netTotal)}</td>
+                                {totals.map((m, i) => <td key={`booked-${i}`}>{formatCurrency(m.bookedRevenue)}</td>)}
+                                <td className="font-bold">{formatCurrency(sumMetrics(totals, 'bookedRevenue'))}</td>
+                                {totals.map((m, i) => <td key={`cancelled-${i}`} className="text-red-600">{formatCurrency(m.cancelledRevenue)}</td>)}
+                                <td className="font-bold text-red-600">{formatCurrency(sumMetrics(totals, 'cancelledRevenue'))}</td>
+                                {totals.map((m, i) => <td key={`net-${i}`}>{formatCurrency(m.bookedRevenue - m.cancelledRevenue)}</td>)}
+                                {/* The grand total row should always calculate net revenue correctly. */}
+                                <td className="font-bold">{formatCurrency(sumMetrics(totals, 'bookedRevenue') - sumMetrics(totals, 'cancelledRevenue'))}</td>
                             </tr>
                         </tfoot>
                     </table>
@@ -197,35 +118,30 @@ const DetailedAnalyticsTable: React.FC<{
                     <table className="user-management__table analytics-table--detailed">
                        <thead>
                             <tr>
-                                <th rowSpan={2} className="sticky-col">{type === 'district' ? 'District' : 'Route'}</th>
-                                <th colSpan={4}>Booked Tickets</th>
-                                <th colSpan={4}>Cancelled Tickets</th>
-                            </tr>
-                            <tr>
-                                <th>Normal</th><th>Child</th><th>Senior</th><th>Total</th>
-                                <th>Normal</th><th>Child</th><th>Senior</th><th>Total</th>
+                                <th rowSpan={2} className="sticky-col">{keyField === 'district' ? 'District' : 'Route'}</th>
+                                <th colSpan={ticketTypes.length + 1}>Booked Tickets</th>
+                                <th colSpan={ticketTypes.length + 1}>Cancelled Tickets</th>
                             </tr>
+                            <tr>{typeHeaders}{typeHeaders}</tr>
                         </thead>
                         <tbody>
-                            {ticketData.map(d => (
+                            {rows.map(d => (
                                 <tr key={d.key}>
                                     <td className="sticky-col">{d.key}</td>
-                                    <td>{formatNumber(d.bookedNormalTickets)}</td><td>{formatNumber(d.bookedChildTickets)}</td><td>{formatNumber(d.bookedSeniorTickets)}</td><td className="font-bold">{formatNumber(d.bookedTotal)}</td>
-                                    <td className="text-red-600">{formatNumber(d.cancelledNormalTickets)}</td><td className="text-red-600">{formatNumber(d.cancelledChildTickets)}</td><td className="text-red-600">{formatNumber(d.cancelledSeniorTickets)}</td><td className="font-bold text-red-600">{formatNumber(d.cancelledTotal)}</td>
+                                    {d.metrics.map((m, i) => <td key={`booked-${i}`}>{formatNumber(Number(m.bookedTickets))}</td>)}
+                                    <td className="font-bold">{formatNumber(sumMetrics(d.metrics, 'bookedTickets'))}</td>
+                                    {d.metrics.map((m, i) => <td key={`cancelled-${i}`} className="text-red-600">{formatNumber(Number(m.cancelledTickets))}</td>)}
+                                    <td className="font-bold text-red-600">{formatNumber(sumMetrics(d.metrics, 'cancelledTickets'))}</td>
                                 </tr>
                             ))}
                         </tbody>
                         <tfoot>
                             <tr>
                                 <td className="sticky-col">Total</td>
-                                <td>{formatNumber(ticketTotals.bookedNormalTickets)}</td>
-                                <td>{formatNumber(ticketTotals.bookedChildTickets)}</td>
-                                <td>{formatNumber(ticketTotals.bookedSeniorTickets)}</td>
-                                <td className="font-bold">{formatNumber(ticketTotals.bookedTotal)}</td>
-                                <td className="text-red-600">{formatNumber(ticketTotals.cancelledNormalTickets)}</td>
-                                <td className="text-red-600">{formatNumber(ticketTotals.cancelledChildTickets)}</td>
-                                <td className="text-red-600">{formatNumber(ticketTotals.cancelledSeniorTickets)}</td>
-                                <td className="font-bold text-red-600">{formatNumber(ticketTotals.cancelledTotal)}</td>
+                                {totals.map((m, i) => <td key={`booked-${i}`}>{formatNumber(m.bookedTickets)}</td>)}
+                                <td className="font-bold">{formatNumber(sumMetrics(totals, 'bookedTickets'))}</td>
+                                {totals.map((m, i) => <td key={`cancelled-${i}`} className="text-red-600">{formatNumber(m.cancelledTickets)}</td>)}
+                                <td className="font-bold text-red-600">{formatNumber(sumMetrics(totals, 'cancelledTickets'))}</td>
                             </tr>
                         </tfoot>
                     </table>
@@ -241,6 +157,7 @@ export const RevenueAnalyticsPage: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [activeTab, setActiveTab] = useState<'district' | 'route'>('district');
     const { user } = useAuth();
+    const categories = useConcessionCategories();
 
     useEffect(() => {
         const fetchData = async () => {
@@ -259,25 +176,38 @@ export const RevenueAnalyticsPage: React.FC = () => {
         fetchData();
     }, [user]);
 
+    // Normal tickets, then categories in the order the admin set, then any codes no longer set up.
+    const ticketTypes = useMemo(() => {
+        const types: PassengerType[] = ['NORMAL', ...categories.map(c => c.code)];
+        const detailedRows = [...(data?.byDistrict || []), ...(data?.byRoute || [])];
+        const soldTypes = [...(data?.byCategory || []).map(c => c.type), ...detailedRows.flatMap(d => Object.keys(d.byType))];
+        soldTypes.forEach(type => { if (!types.includes(type)) types.push(type); });
+        return types;
+    }, [data, categories]);
+
+    const getLabel = useCallback((type: PassengerType) => getTicketTypeLabel(type, categories), [categories]);
+    const getColor = (type: PassengerType) => TYPE_COLORS[Math.max(0, ticketTypes.indexOf(type)) % TYPE_COLORS.length];
+
     const chartData = useMemo(() => {
         if (!data) return null;
+        const byTypeOrder = (a: { type: PassengerType }, b: { type: PassengerType }) => ticketTypes.indexOf(a.type) - ticketTypes.indexOf(b.type);
         
         const bookedRevenueByCategory = data.byCategory
             .filter(c => Number(c.grossRevenue) > 0)
-            .map(c => ({ name: c.type, value: Number(c.grossRevenue) }))
-            .sort((a, b) => CATEGORY_ORDER[a.name] - CATEGORY_ORDER[b.name]);
+            .map(c => ({ type: c.type, name: getLabel(c.type), value: Number(c.grossRevenue) }))
+            .sort(byTypeOrder);
 
         const refundedRevenueByCategory = data.byCategory
             .filter(c => Number(c.refundedRevenue) > 0)
-            .map(c => ({ name: c.type, value: Number(c.refundedRevenue) }))
-            .sort((a, b) => CATEGORY_ORDER[a.name] - CATEGORY_ORDER[b.name]);
+            .map(c => ({ type: c.type, name: getLabel(c.type), value: Number(c.refundedRevenue) }))
+            .sort(byTypeOrder);
         
         // Fix: Correctly calculate Net Revenue and sort by Gross Revenue for the top districts chart.
         // The previous calculation was logically incorrect and likely causing type inference issues.
         const topDistrictsByRevenue = [...data.byDistrict]
             .map(d => {
-                const booked = Number(d.bookedNormalRevenue) + Number(d.bookedChildRevenue) + Number(d.bookedSeniorRevenue);
-                const refunded = Number(d.cancelledNormalRevenue) + Number(d.cancelledChildRevenue) + Number(d.cancelledSeniorRevenue);
+                const booked = sumMetrics(Object.values(d.byType), 'bookedRevenue');
+                const refunded = sumMetrics(Object.values(d.byType), 'cancelledRevenue');
                 return {
                     name: d.district,
                     'Net Revenue': booked - refunded,
@@ -292,7 +222,7 @@ export const RevenueAnalyticsPage: React.FC = () => {
 
 
         return { bookedRevenueByCategory, refundedRevenueByCategory, topDistrictsByRevenue };
-    }, [data]);
+    }, [data, ticketTypes, getLabel]);
 
 
     if (isLoading) return <div className="home-page__loader"><div className="home-page__spinner"></div></div>;
@@ -333,7 +263,7 @@ export const RevenueAnalyticsPage: React.FC = () => {
                         <ResponsiveContainer width="100%" height={250}>
                              <PieChart>
                                 <Pie data={chartData.bookedRevenueByCategory} cx="50%" cy="50%" labelLine={false} label={({ name, percent }) => `${(percent * 100).toFixed(0)}%`} outerRadius={80} dataKey="value">
-                                    {chartData.bookedRevenueByCategory.map((entry) => <Cell key={`cell-${entry.name}`} fill={COLORS[entry.name]} />)}
+                                    {chartData.bookedRevenueByCategory.map((entry) => <Cell key={`cell-${entry.type}`} fill={getColor(entry.type)} />)}
                                 </Pie>
                                 <Tooltip formatter={(value: number) => formatCurrency(value)} />
                                 <Legend />
@@ -345,7 +275,7 @@ export const RevenueAnalyticsPage: React.FC = () => {
                          <ResponsiveContainer width="100%" height={250}>
                              <PieChart>
                                 <Pie data={chartData.refundedRevenueByCategory} cx="50%" cy="50%" labelLine={false} label={({ name, percent }) => `${(percent * 100).toFixed(0)}%`} outerRadius={80} dataKey="value">
-                                    {chartData.refundedRevenueByCategory.map((entry) => <Cell key={`cell-${entry.name}`} fill={COLORS[entry.name]} />)}
+                                    {chartData.refundedRevenueByCategory.map((entry) => <Cell key={`cell-${entry.type}`} fill={getColor(entry.type)} />)}
                                 </Pie>
                                 <Tooltip formatter={(value: number) => formatCurrency(value)} />
                                 <Legend />
@@ -364,8 +294,8 @@ export const RevenueAnalyticsPage: React.FC = () => {
                             <Tooltip formatter={(value: number, name: string) => [formatCurrency(value), name]} />
                             <Legend />
                             {/* Fix: Update Bar components to use correct data keys for stacked chart representing gross revenue. */}
-                            <Bar dataKey="Net Revenue" name="Net Revenue" stackId="a" fill={COLORS.NORMAL} />
-                            <Bar dataKey="Refunded" stackId="a" fill={COLORS.REFUNDED} />
+                            <Bar dataKey="Net Revenue" name="Net Revenue" stackId="a" fill={TYPE_COLORS[0]} />
+                            <Bar dataKey="Refunded" stackId="a" fill={REFUNDED_COLOR} />
 
                         </BarChart>
                     </ResponsiveContainer>
@@ -379,9 +309,9 @@ export const RevenueAnalyticsPage: React.FC = () => {
                 </div>
                  <div className="upload-schedules__content">
                     {activeTab === 'district' ? (
-                        <DetailedAnalyticsTable data={byDistrict} type="district" />
+                        <DetailedAnalyticsTable data={byDistrict} keyField="district" ticketTypes={ticketTypes} getLabel={getLabel} />
                     ) : (
-                        <DetailedAnalyticsTable data={byRoute} type="route" />
+                        <DetailedAnalyticsTable data={byRoute} keyField="route" ticketTypes={ticketTypes} getLabel={getLabel} />
                     )}
                  </div>
             </Card>
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card } from '../../components/common/Card';
+import { Button } from '../../components/common/Button';
+import { api } from '../../services/api';
+import type { SeatLayoutDefinition } from '../../types';
+import { LayoutGrid, PlusCircle, Edit, Eye, Trash2 } from 'lucide-react';
+import { SeatLayoutDesigner } from '../../components/admin/SeatLayoutDesigner';
+import { BackButton } from '../../components/common/BackButton';
+
+export const SeatLayoutsPage: React.FC = () => {
+    const [layouts, setLayouts] = useState<SeatLayoutDefinition[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [isDesignerOpen, setIsDesignerOpen] = useState(false);
+    const [editingLayout, setEditingLayout] = useState<SeatLayoutDefinition | null>(null);
+
+    const fetchLayouts = useCallback(async () => {
+        try {
+            setIsLoading(true);
+            setError(null);
+            setLayouts(await api.getSeatLayouts());
+        } catch (err) {
+            setError("Failed to load seat layouts. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchLayouts();
+    }, [fetchLayouts]);
+
+    const handleOpenDesigner = (layout: SeatLayoutDefinition | null) => {
+        setEditingLayout(layout);
+        setIsDesignerOpen(true);
+    };
+
+    const handleCloseDesigner = () => {
+        setIsDesignerOpen(false);
+        setEditingLayout(null);
+    };
+
+    const handleSaveSuccess = () => {
+        handleCloseDesigner();
+        fetchLayouts();
+    };
+
+    const handleDeleteLayout = async (layout: SeatLayoutDefinition) => {
+        if (window.confirm(`Delete the seat layout ${layout.id}? This action cannot be undone.`)) {
+            try {
+                await api.deleteSeatLayout(layout.id);
+                setLayouts(prev => prev.filter(l => l.id !== layout.id));
+            } catch (err) {
+                const message = err instanceof Error ? err.message : "An unexpected error occurred.";
+                alert(`Failed to delete seat layout: ${message}`);
+            }
+        }
+    };
+
+    const countReserved = (layout: SeatLayoutDefinition) =>
+        layout.seats.filter(seat => seat.attributes.some(attribute => attribute !== 'WINDOW')).length;
+
+    return (
+        <Card>
+            <div className="page-header-with-back" style={{ marginBottom: '1.5rem' }}>
+                <BackButton to="/admin" />
+                <div className="user-management__header-content">
+                    <div>
+                        <h2 className="admin-page-header__title" style={{ marginBottom: 0 }}>
+                            <LayoutGrid /> Seat Layouts
+                        </h2>
+                        <p className="admin-page-header__subtitle" style={{ marginBottom: 0, marginTop: '0.25rem' }}>
+                            The seat maps buses are sold by, with sleeper berths and reserved seats.
+                        </p>
+                    </div>
+                    {!isDesignerOpen && (
+                        <div className="user-management__header-actions">
+                            <Button onClick={() => handleOpenDesigner(null)}>
+                                <PlusCircle size={20} /> Design Layout
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {isDesignerOpen ? (
+                <SeatLayoutDesigner
+                    layoutToEdit={editingLayout}
+                    onSave={handleSaveSuccess}
+                    onClose={handleCloseDesigner}
+                />
+            ) : (
+                <>
+                    {isLoading && <div className="text-center py-8">Loading seat layouts...</div>}
+                    {error && <p className="auth-form__error">{error}</p>}
+
+                    {!isLoading && !error && (
+                        <div className="user-management__table-wrapper">
+                            <table className="user-management__table">
+                                <thead>
+                                    <tr>
+                                        <th>Code</th>
+                                        <th>Name</th>
+                                        <th>Decks</th>
+                                        <th>Seats</th>
+                                        <th>Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {layouts.map(layout => (
+                                        <tr key={layout.id}>
+                                            <td>
+                                                <div className="user-management__user-name">{layout.id}</div>
+                                            </td>
+                                            <td className="user-management__user-contact">
+                                                <div>{layout.name}</div>
+                                                {layout.isBuiltIn && <div className="user-management__user-contact-email">Built in</div>}
+                                            </td>
+                                            <td>{layout.decks.map(deck => deck.name).join(', ')}</td>
+                                            <td className="user-management__user-contact">
+                                                <div>{layout.seats.length}</div>
+                                                {countReserved(layout) > 0 && <div className="user-management__user-contact-email">{countReserved(layout)} reserved</div>}
+                                            </td>
+                                            <td>
+                                                <div className="user-management__actions">
+                                                    <Button variant="secondary" onClick={() => handleOpenDesigner(layout)} title={layout.isBuiltIn ? 'View' : 'Edit'} className="user-management__action-btn">
+                                                        {layout.isBuiltIn ? <Eye size={16} /> : <Edit size={16} />}
+                                                    </Button>
+                                                    {!layout.isBuiltIn && (
+                                                        <Button variant="danger" onClick={() => handleDeleteLayout(layout)} className="user-management__action-btn">
+                                                            <Trash2 size={16} />
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </Card>
+    );
+};
@@ -1,10 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Card } from '../../components/common/Card';
 import { api } from '../../services/api';
-import { Settings, AlertCircle, CheckCircle, Percent, MapPin, Save, Loader2, UserCog } from 'lucide-react';
+import { Settings, AlertCircle, CheckCircle, Percent, MapPin, Save, Loader2, UserCog, Clock, Plus, Trash2, ShieldAlert, Check, IndianRupee, Pencil, CalendarDays } from 'lucide-react';
 import { Button } from '../../components/common/Button';
 import { Input } from '../../components/common/Input';
 import { BackButton } from '../../components/common/BackButton';
+import type { BusClass, BusClassRate, CancellationPolicy, CancellationSlab, ConcessionCategory, ConcessionFlag, ConcessionFlagBooking, FareRevision, Holiday, ProofType } from '../../types';
+import { DEFAULT_CANCELLATION_SLABS, sortSlabs } from '../../utils/cancellationPolicy';
+import { formatJourneyDate, getTodayDateString, toDateInputValue } from '../../utils/journeyDate';
+import { BUS_CLASS_LABELS } from '../../constants';
+import { PROOF_TYPE_LABELS } from '../../utils/concessions';
 
 const ToggleSwitch = ({ enabled, onChange, disabled }: { enabled: boolean, onChange: (checked: boolean) => void, disabled?: boolean }) => {
     return (
@@ -89,38 +94,49 @@ const SettingToggle = ({ settingKey, title, description, onToggle }: { settingKe
     );
 };
 
-const DiscountPercentageManager: React.FC = () => {
-    const [discounts, setDiscounts] = useState({ child: '40', senior: '50' });
+const DiscountDistrictManager: React.FC = () => {
+    const [allDistricts, setAllDistricts] = useState<string[]>([]);
+    const [selectedDistricts, setSelectedDistricts] = useState<Set<string>>(new Set());
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [success, setSuccess] = useState<string | null>(null);
 
     useEffect(() => {
-        const fetchDiscounts = async () => {
+        const fetchData = async () => {
             setIsLoading(true);
             try {
-                const [childRes, seniorRes] = await Promise.all([
-                    api.getSetting('childDiscountPercentage'),
-                    api.getSetting('seniorDiscountPercentage')
+                const [all, discounted] = await Promise.all([
+                    api.getDistricts(),
+                    api.getDiscountedDistricts()
                 ]);
-                setDiscounts({
-                    child: childRes.value ? String(childRes.value) : '40',
-                    senior: seniorRes.value ? String(seniorRes.value) : '50'
-                });
+                setAllDistricts(all);
+                setSelectedDistricts(new Set(discounted));
             } catch (err) {
-                setError("Failed to load discount percentages.");
+                setError("Failed to load district information.");
             } finally {
                 setIsLoading(false);
             }
         };
-        fetchDiscounts();
+        fetchData();
     }, []);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value } = e.target;
-        const numValue = Math.max(0, Math.min(100, Number(value)));
-        setDiscounts(prev => ({ ...prev, [name]: String(numValue) }));
+    const handleDistrictToggle = (district: string) => {
+        const newSelection = new Set(selectedDistricts);
+        if (newSelection.has(district)) {
+            newSelection.delete(district);
+        } else {
+            newSelection.add(district);
+        }
+        setSelectedDistricts(newSelection);
+    };
+
+    const handleSelectAll = () => {
+        if (selectedDistricts.size === allDistricts.length) {
+            setSelectedDistricts(new Set()); // Deselect all
+        } else {
+            setSelectedDistricts(new Set(allDistricts)); // Select all
+        }
     };
     
     const handleSaveChanges = async () => {
@@ -128,11 +144,8 @@ const DiscountPercentageManager: React.FC = () => {
         setError(null);
         setSuccess(null);
         try {
-            await Promise.all([
-                api.updateSetting('childDiscountPercentage', Number(discounts.child)),
-                api.updateSetting('seniorDiscountPercentage', Number(discounts.senior))
-            ]);
-            setSuccess("Discount percentages updated successfully!");
+            await api.updateDiscountedDistricts(Array.from(selectedDistricts));
+            setSuccess("Discount districts have been updated successfully!");
         } catch (err) {
             setError("Failed to save changes. Please try again.");
         } finally {
@@ -142,52 +155,48 @@ const DiscountPercentageManager: React.FC = () => {
     }
 
     if(isLoading) {
-        return <div className="setting-toggle"><div className="home-page__loader"><div className="btn__spinner"></div></div></div>;
+        return <div className="flex items-center justify-center p-8"><Loader2 className="animate-spin" size={32} /></div>
     }
 
     return (
         <div className="setting-toggle">
-            <h3 className="setting-toggle__title flex items-center gap-2"><Percent size={24}/> Discount Percentages</h3>
-            <p className="setting-toggle__description mb-4">Set the discount percentage for child and senior citizen tickets (0-100%).</p>
+            <h3 className="setting-toggle__title flex items-center gap-2"><MapPin size={24}/> Discounted Districts</h3>
+            <p className="setting-toggle__description mb-4">Select the districts where concession fares are offered. Each category can be limited to fewer districts.</p>
             
             {error && <p className="auth-form__error">{error}</p>}
             {success && <p className="auth-form__success">{success}</p>}
-            
-            <div className="discount-manager__inputs">
-                <Input 
-                    id="child-discount" 
-                    label="Child Discount (%)" 
-                    name="child"
-                    type="number"
-                    value={discounts.child}
-                    onChange={handleChange}
-                    min="0"
-                    max="100"
-                />
-                 <Input 
-                    id="senior-discount" 
-                    label="Senior Discount (%)" 
-                    name="senior"
-                    type="number"
-                    value={discounts.senior}
-                    onChange={handleChange}
-                    min="0"
-                    max="100"
-                />
+
+            <div className="subadmin-form__district-picker">
+                <div className="subadmin-form__district-grid">
+                    {allDistricts.map(district => (
+                        <label key={district} className="subadmin-form__district-label">
+                            <input
+                                type="checkbox"
+                                className="subadmin-form__district-checkbox"
+                                checked={selectedDistricts.has(district)}
+                                onChange={() => handleDistrictToggle(district)}
+                            />
+                            <span>{district}</span>
+                        </label>
+                    ))}
+                </div>
             </div>
-            
-            <div className="flex justify-end items-center mt-4">
+            <div className="flex justify-between items-center mt-4">
+                 <Button onClick={handleSelectAll} variant="secondary" className="btn--small">
+                    {selectedDistricts.size === allDistricts.length ? "Deselect All" : "Select All"}
+                </Button>
                 <Button onClick={handleSaveChanges} isLoading={isSaving}>
-                    <Save size={18} /> Save Percentages
+                    <Save size={18} /> Save Changes
                 </Button>
             </div>
         </div>
     );
 };
 
-const DiscountDistrictManager: React.FC = () => {
+const CancellationPolicyManager: React.FC = () => {
+    const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
     const [allDistricts, setAllDistricts] = useState<string[]>([]);
-    const [selectedDistricts, setSelectedDistricts] = useState<Set<string>>(new Set());
+    const [districtToAdd, setDistrictToAdd] = useState('');
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -197,14 +206,14 @@ const DiscountDistrictManager: React.FC = () => {
         const fetchData = async () => {
             setIsLoading(true);
             try {
-                const [all, discounted] = await Promise.all([
+                const [all, existing] = await Promise.all([
                     api.getDistricts(),
-                    api.getDiscountedDistricts()
+                    api.getCancellationPolicies()
                 ]);
                 setAllDistricts(all);
-                setSelectedDistricts(new Set(discounted));
+                setPolicies(existing.some(p => !p.district) ? existing : [{ district: null, slabs: DEFAULT_CANCELLATION_SLABS }, ...existing]);
             } catch (err) {
-                setError("Failed to load district information.");
+                setError("Failed to load cancellation policies.");
             } finally {
                 setIsLoading(false);
             }
@@ -212,78 +221,797 @@ const DiscountDistrictManager: React.FC = () => {
         fetchData();
     }, []);
 
-    const handleDistrictToggle = (district: string) => {
-        const newSelection = new Set(selectedDistricts);
-        if (newSelection.has(district)) {
-            newSelection.delete(district);
-        } else {
-            newSelection.add(district);
-        }
-        setSelectedDistricts(newSelection);
+    const updateSlabs = (policyIndex: number, update: (slabs: CancellationSlab[]) => CancellationSlab[]) => {
+        setPolicies(prev => prev.map((policy, i) => i === policyIndex ? { ...policy, slabs: update(policy.slabs) } : policy));
     };
 
-    const handleSelectAll = () => {
-        if (selectedDistricts.size === allDistricts.length) {
-            setSelectedDistricts(new Set()); // Deselect all
-        } else {
-            setSelectedDistricts(new Set(allDistricts)); // Select all
-        }
+    const handleSlabChange = (policyIndex: number, slabIndex: number, field: keyof CancellationSlab, value: string) => {
+        const numValue = Math.max(0, Number(value));
+        updateSlabs(policyIndex, slabs => slabs.map((slab, i) => i === slabIndex
+            ? { ...slab, [field]: field === 'feePercentage' ? Math.min(100, numValue) : numValue }
+            : slab));
     };
-    
+
+    const handleAddSlab = (policyIndex: number) => {
+        updateSlabs(policyIndex, slabs => [...slabs, { minHoursBeforeDeparture: 0, feePercentage: 100 }]);
+    };
+
+    const handleRemoveSlab = (policyIndex: number, slabIndex: number) => {
+        updateSlabs(policyIndex, slabs => slabs.filter((_, i) => i !== slabIndex));
+    };
+
+    const handleAddDistrict = () => {
+        if (!districtToAdd) return;
+        const defaultPolicy = policies.find(p => !p.district);
+        setPolicies(prev => [...prev, { district: districtToAdd, slabs: defaultPolicy ? defaultPolicy.slabs : DEFAULT_CANCELLATION_SLABS }]);
+        setDistrictToAdd('');
+    };
+
+    const handleRemoveDistrict = (district: string) => {
+        setPolicies(prev => prev.filter(p => p.district !== district));
+    };
+
     const handleSaveChanges = async () => {
         setIsSaving(true);
         setError(null);
         setSuccess(null);
         try {
-            await api.updateDiscountedDistricts(Array.from(selectedDistricts));
-            setSuccess("Discount districts have been updated successfully!");
+            const sorted = policies.map(p => ({ ...p, slabs: sortSlabs(p.slabs) }));
+            await api.updateCancellationPolicies(sorted);
+            setPolicies(sorted);
+            setSuccess("Cancellation policies updated successfully!");
         } catch (err) {
-            setError("Failed to save changes. Please try again.");
+            setError(err instanceof Error ? err.message : "Failed to save changes. Please try again.");
         } finally {
             setIsSaving(false);
             setTimeout(() => setSuccess(null), 3000);
         }
+    };
+
+    if (isLoading) {
+        return <div className="flex items-center justify-center p-8"><Loader2 className="animate-spin" size={32} /></div>
     }
 
-    if(isLoading) {
+    const availableDistricts = allDistricts.filter(d => !policies.some(p => p.district === d));
+
+    return (
+        <div className="setting-toggle">
+            <h3 className="setting-toggle__title flex items-center gap-2"><Clock size={24}/> Cancellation Fees</h3>
+            <p className="setting-toggle__description mb-4">
+                Each slab sets the fee for cancelling at least that many hours before departure. Cancelling closer to departure than the smallest slab is not allowed.
+                District policies replace the default for schedules starting in that district.
+            </p>
+
+            {error && <p className="auth-form__error">{error}</p>}
+            {success && <p className="auth-form__success">{success}</p>}
+
+            {policies.map((policy, policyIndex) => (
+                <div key={policy.district || 'default'} className="cancellation-policy">
+                    <div className="cancellation-policy__header">
+                        <h4 className="cancellation-policy__title">{policy.district ? `${policy.district} District` : 'Default Policy'}</h4>
+                        {policy.district && (
+                            <Button onClick={() => handleRemoveDistrict(policy.district as string)} variant="secondary" className="btn--small">
+                                <Trash2 size={16} /> Remove
+                            </Button>
+                        )}
+                    </div>
+                    {policy.slabs.map((slab, slabIndex) => (
+                        <div key={slabIndex} className="cancellation-policy__slab">
+                            <Input
+                                id={`slab-hours-${policy.district || 'default'}-${slabIndex}`}
+                                label="Hours Before Departure (at least)"
+                                type="number"
+                                min="0"
+                                value={String(slab.minHoursBeforeDeparture)}
+                                onChange={(e) => handleSlabChange(policyIndex, slabIndex, 'minHoursBeforeDeparture', e.target.value)}
+                            />
+                            <Input
+                                id={`slab-fee-${policy.district || 'default'}-${slabIndex}`}
+                                label="Fee (%)"
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={String(slab.feePercentage)}
+                                onChange={(e) => handleSlabChange(policyIndex, slabIndex, 'feePercentage', e.target.value)}
+                            />
+                            <Button
+                                onClick={() => handleRemoveSlab(policyIndex, slabIndex)}
+                                variant="secondary"
+                                className="btn--small cancellation-policy__remove"
+                                disabled={policy.slabs.length === 1}
+                                aria-label="Remove slab"
+                            >
+                                <Trash2 size={16} />
+                            </Button>
+                        </div>
+                    ))}
+                    <Button onClick={() => handleAddSlab(policyIndex)} variant="secondary" className="btn--small">
+                        <Plus size={16} /> Add Slab
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex justify-between items-center mt-4 gap-2">
+                <div className="cancellation-policy__add-district">
+                    <select value={districtToAdd} onChange={(e) => setDistrictToAdd(e.target.value)} className="input-field">
+                        <option value="">Choose a district...</option>
+                        {availableDistricts.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                    <Button onClick={handleAddDistrict} variant="secondary" className="btn--small" disabled={!districtToAdd}>
+                        <MapPin size={16} /> Add District Policy
+                    </Button>
+                </div>
+                <Button onClick={handleSaveChanges} isLoading={isSaving}>
+                    <Save size={18} /> Save Policies
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+const HolidayManager: React.FC = () => {
+    const [holidays, setHolidays] = useState<Holiday[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    useEffect(() => {
+        api.getHolidays()
+            .then(setHolidays)
+            .catch(() => setError("Failed to load holidays."))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const handleChange = (index: number, field: keyof Holiday, value: string) => {
+        setHolidays(prev => prev.map((holiday, i) => i === index ? { ...holiday, [field]: value } : holiday));
+    };
+
+    const handleAdd = () => {
+        setHolidays(prev => [...prev, { date: getTodayDateString(), name: '' }]);
+    };
+
+    const handleRemove = (index: number) => {
+        setHolidays(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSaveChanges = async () => {
+        setIsSaving(true);
+        setError(null);
+        setSuccess(null);
+        try {
+            const sorted = [...holidays].sort((a, b) => a.date.localeCompare(b.date));
+            await api.updateHolidays(sorted);
+            setHolidays(sorted);
+            setSuccess("Holidays updated successfully!");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save changes. Please try again.");
+        } finally {
+            setIsSaving(false);
+            setTimeout(() => setSuccess(null), 3000);
+        }
+    };
+
+    if (isLoading) {
         return <div className="flex items-center justify-center p-8"><Loader2 className="animate-spin" size={32} /></div>
     }
 
     return (
         <div className="setting-toggle">
-            <h3 className="setting-toggle__title flex items-center gap-2"><MapPin size={24}/> Discounted Districts</h3>
-            <p className="setting-toggle__description mb-4">Select the districts where child and senior discounts will be applicable.</p>
-            
+            <h3 className="setting-toggle__title flex items-center gap-2"><CalendarDays size={24}/> Public Holidays</h3>
+            <p className="setting-toggle__description mb-4">
+                Schedules marked not to run on holidays are taken off sale on these dates. A schedule's own extra runs still go ahead.
+            </p>
+
             {error && <p className="auth-form__error">{error}</p>}
             {success && <p className="auth-form__success">{success}</p>}
 
-            <div className="subadmin-form__district-picker">
-                <div className="subadmin-form__district-grid">
-                    {allDistricts.map(district => (
-                        <label key={district} className="subadmin-form__district-label">
-                            <input
-                                type="checkbox"
-                                className="subadmin-form__district-checkbox"
-                                checked={selectedDistricts.has(district)}
-                                onChange={() => handleDistrictToggle(district)}
+            {holidays.length === 0 ? (
+                <p className="setting-toggle__description">No holidays listed.</p>
+            ) : (
+                <div className="holiday-list">
+                    {holidays.map((holiday, index) => (
+                        <div key={index} className="cancellation-policy__slab">
+                            <Input
+                                id={`holiday-date-${index}`}
+                                label="Date"
+                                type="date"
+                                value={holiday.date}
+                                onChange={(e) => handleChange(index, 'date', e.target.value)}
                             />
-                            <span>{district}</span>
-                        </label>
+                            <Input
+                                id={`holiday-name-${index}`}
+                                label="Name"
+                                placeholder="e.g. Diwali"
+                                maxLength={100}
+                                value={holiday.name}
+                                onChange={(e) => handleChange(index, 'name', e.target.value)}
+                            />
+                            <Button
+                                onClick={() => handleRemove(index)}
+                                variant="secondary"
+                                className="btn--small cancellation-policy__remove"
+                                aria-label="Remove holiday"
+                            >
+                                <Trash2 size={16} />
+                            </Button>
+                        </div>
                     ))}
                 </div>
+            )}
+
+            <div className="flex justify-between items-center mt-4 gap-2">
+                <Button onClick={handleAdd} variant="secondary" className="btn--small">
+                    <Plus size={16} /> Add Holiday
+                </Button>
+                <Button onClick={handleSaveChanges} isLoading={isSaving}>
+                    <Save size={18} /> Save Holidays
+                </Button>
             </div>
-            <div className="flex justify-between items-center mt-4">
-                 <Button onClick={handleSelectAll} variant="secondary" className="btn--small">
-                    {selectedDistricts.size === allDistricts.length ? "Deselect All" : "Select All"}
+        </div>
+    );
+};
+
+
+const BUS_CLASSES = Object.keys(BUS_CLASS_LABELS) as BusClass[];
+
+const ROUNDING_LABELS: Record<FareRevision['roundingMode'], string> = {
+    NEAREST: 'To the nearest step',
+    UP: 'Always up',
+    DOWN: 'Always down',
+};
+
+const getTomorrowDateString = () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return toDateInputValue(tomorrow);
+};
+
+// A new table starts as a copy of the latest one, so a revision only needs the rates that change.
+const toNewRevision = (latest: FareRevision | undefined): FareRevision => ({
+    effectiveFrom: getTomorrowDateString(),
+    rates: latest ? latest.rates : {
+        ORDINARY: { ratePerKm: 1, minimumFare: 10 },
+        EXPRESS: { ratePerKm: 1.25, minimumFare: 15 },
+        AC: { ratePerKm: 1.75, minimumFare: 25 },
+        VOLVO: { ratePerKm: 2.5, minimumFare: 50 },
+    },
+    roundTo: latest ? latest.roundTo : 1,
+    roundingMode: latest ? latest.roundingMode : 'NEAREST',
+    nightStartTime: latest ? latest.nightStartTime : null,
+    nightEndTime: latest ? latest.nightEndTime : null,
+    nightSurchargePercentage: latest ? latest.nightSurchargePercentage : 0,
+});
+
+const FareRevisionManager: React.FC = () => {
+    const [revisions, setRevisions] = useState<FareRevision[]>([]);
+    const [draft, setDraft] = useState<FareRevision>(toNewRevision(undefined));
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    const fetchRevisions = useCallback(async () => {
+        try {
+            const existing = await api.getFareRevisions();
+            setRevisions(existing);
+            return existing;
+        } catch (err) {
+            setError("Failed to load fare tables.");
+            return [];
+        }
+    }, []);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            setIsLoading(true);
+            const existing = await fetchRevisions();
+            setDraft(toNewRevision(existing[0]));
+            setIsLoading(false);
+        };
+        fetchData();
+    }, [fetchRevisions]);
+
+    const handleRateChange = (busClass: BusClass, field: keyof BusClassRate, value: string) => {
+        setDraft(prev => ({
+            ...prev,
+            rates: { ...prev.rates, [busClass]: { ...prev.rates[busClass], [field]: Math.max(0, Number(value)) } },
+        }));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        setSuccess(null);
+        try {
+            const { message } = await api.saveFareRevision(draft);
+            const existing = await fetchRevisions();
+            setDraft(toNewRevision(existing[0]));
+            setSuccess(message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save the fare table. Please try again.");
+        } finally {
+            setIsSaving(false);
+            setTimeout(() => setSuccess(null), 3000);
+        }
+    };
+
+    const handleDelete = async (revisionId: number) => {
+        setDeletingId(revisionId);
+        setError(null);
+        try {
+            await api.deleteFareRevision(revisionId);
+            await fetchRevisions();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to remove the fare table.");
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="flex items-center justify-center p-8"><Loader2 className="animate-spin" size={32} /></div>
+    }
+
+    const today = getTodayDateString();
+    const currentRevision = revisions.find(revision => revision.effectiveFrom <= today);
+    const describeStatus = (revision: FareRevision) => {
+        if (revision.effectiveFrom > today) return 'Upcoming';
+        return revision === currentRevision ? 'In effect' : 'Superseded';
+    };
+
+    return (
+        <div className="setting-toggle">
+            <h3 className="setting-toggle__title flex items-center gap-2"><IndianRupee size={24}/> Fare Tables</h3>
+            <p className="setting-toggle__description mb-4">
+                Fares are the distance travelled times the per-km rate for the bus class, never below the minimum fare, with the night surcharge added for departures in the night window.
+                New fares take effect from a future date; bookings already made keep the fare they were sold at. Routes without stop distances keep their stop fares.
+            </p>
+
+            {error && <p className="auth-form__error">{error}</p>}
+            {success && <p className="auth-form__success">{success}</p>}
+
+            {revisions.length === 0 && <p className="setting-toggle__description">No fare tables yet; every route is priced by its stop fares.</p>}
+            {revisions.map(revision => (
+                <div key={revision.id} className="fare-revision">
+                    <div className="fare-revision__header">
+                        <h4 className="fare-revision__title">From {formatJourneyDate(revision.effectiveFrom)} &middot; {describeStatus(revision)}</h4>
+                        {revision.effectiveFrom > today && (
+                            <div className="flex gap-2">
+                                <Button onClick={() => setDraft(revision)} variant="secondary" className="btn--small">
+                                    <Pencil size={16} /> Edit
+                                </Button>
+                                <Button
+                                    onClick={() => handleDelete(revision.id as number)}
+                                    variant="secondary"
+                                    className="btn--small"
+                                    isLoading={deletingId === revision.id}
+                                    disabled={deletingId !== null}
+                                >
+                                    <Trash2 size={16} /> Remove
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                    <p className="fare-revision__summary">
+                        {BUS_CLASSES.map(busClass => `${BUS_CLASS_LABELS[busClass]} ₹${revision.rates[busClass].ratePerKm}/km (min ₹${revision.rates[busClass].minimumFare})`).join(' · ')}
+                    </p>
+                    <p className="fare-revision__summary">
+                        Rounded {ROUNDING_LABELS[revision.roundingMode].toLowerCase()} to ₹{revision.roundTo}
+                        {revision.nightSurchargePercentage > 0 && ` · ${revision.nightSurchargePercentage}% night surcharge ${revision.nightStartTime}–${revision.nightEndTime}`}
+                    </p>
+                </div>
+            ))}
+
+            <div className="fare-revision">
+                <h4 className="fare-revision__title">{revisions.some(r => r.effectiveFrom === draft.effectiveFrom) ? 'Edit Upcoming Fares' : 'New Fares'}</h4>
+                <Input
+                    id="fare-effective-from"
+                    label="Effective From"
+                    type="date"
+                    min={getTomorrowDateString()}
+                    value={draft.effectiveFrom}
+                    onChange={(e) => setDraft(prev => ({ ...prev, effectiveFrom: e.target.value }))}
+                />
+                {BUS_CLASSES.map(busClass => (
+                    <div key={busClass} className="discount-manager__inputs">
+                        <Input
+                            id={`fare-rate-${busClass}`}
+                            label={`${BUS_CLASS_LABELS[busClass]}: Rate per km (₹)`}
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={String(draft.rates[busClass].ratePerKm)}
+                            onChange={(e) => handleRateChange(busClass, 'ratePerKm', e.target.value)}
+                        />
+                        <Input
+                            id={`fare-minimum-${busClass}`}
+                            label={`${BUS_CLASS_LABELS[busClass]}: Minimum Fare (₹)`}
+                            type="number"
+                            min="0"
+                            value={String(draft.rates[busClass].minimumFare)}
+                            onChange={(e) => handleRateChange(busClass, 'minimumFare', e.target.value)}
+                        />
+                    </div>
+                ))}
+                <div className="discount-manager__inputs">
+                    <Input
+                        id="fare-round-to"
+                        label="Round to (₹)"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        value={String(draft.roundTo)}
+                        onChange={(e) => setDraft(prev => ({ ...prev, roundTo: Number(e.target.value) }))}
+                    />
+                    <div className="input-wrapper">
+                        <label htmlFor="fare-rounding-mode" className="input-label">Rounding</label>
+                        <select
+                            id="fare-rounding-mode"
+                            className="input-field"
+                            value={draft.roundingMode}
+                            onChange={(e) => setDraft(prev => ({ ...prev, roundingMode: e.target.value as FareRevision['roundingMode'] }))}
+                        >
+                            {(Object.keys(ROUNDING_LABELS) as FareRevision['roundingMode'][]).map(mode => (
+                                <option key={mode} value={mode}>{ROUNDING_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="discount-manager__inputs">
+                    <Input
+                        id="fare-night-surcharge"
+                        label="Night Surcharge (%)"
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={String(draft.nightSurchargePercentage)}
+                        onChange={(e) => setDraft(prev => ({ ...prev, nightSurchargePercentage: Math.min(100, Math.max(0, Number(e.target.value))) }))}
+                    />
+                    <Input
+                        id="fare-night-start"
+                        label="Night From"
+                        type="time"
+                        value={draft.nightStartTime || ''}
+                        onChange={(e) => setDraft(prev => ({ ...prev, nightStartTime: e.target.value || null }))}
+                        disabled={draft.nightSurchargePercentage === 0}
+                    />
+                    <Input
+                        id="fare-night-end"
+                        label="Night Until"
+                        type="time"
+                        value={draft.nightEndTime || ''}
+                        onChange={(e) => setDraft(prev => ({ ...prev, nightEndTime: e.target.value || null }))}
+                        disabled={draft.nightSurchargePercentage === 0}
+                    />
+                </div>
+                <div className="flex justify-end">
+                    <Button onClick={handleSave} isLoading={isSaving}>
+                        <Save size={18} /> Save Fares
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Numbers are kept as input text so optional limits can be left blank.
+interface CategoryForm {
+    code: string;
+    name: string;
+    discountPercentage: string;
+    proofType: ProofType;
+    minAge: string;
+    maxAge: string;
+    maxPerBooking: string;
+    districts: string[];
+    isActive: boolean;
+    isNew: boolean; // Codes can only be chosen before the first save
+}
+
+const toCategoryForm = (category: ConcessionCategory): CategoryForm => ({
+    code: category.code,
+    name: category.name,
+    discountPercentage: String(category.discountPercentage),
+    proofType: category.proofType,
+    minAge: category.minAge === null ? '' : String(category.minAge),
+    maxAge: category.maxAge === null ? '' : String(category.maxAge),
+    maxPerBooking: category.maxPerBooking === null ? '' : String(category.maxPerBooking),
+    districts: category.districts,
+    isActive: category.isActive,
+    isNew: false,
+});
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const ConcessionCategoryManager: React.FC = () => {
+    const [categories, setCategories] = useState<CategoryForm[]>([]);
+    const [allDistricts, setAllDistricts] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            setIsLoading(true);
+            try {
+                const [all, existing] = await Promise.all([
+                    api.getDistricts(),
+                    api.getConcessionCategories()
+                ]);
+                setAllDistricts(all);
+                setCategories(existing.map(toCategoryForm));
+            } catch (err) {
+                setError("Failed to load concession categories.");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchData();
+    }, []);
+
+    const updateCategory = (index: number, changes: Partial<CategoryForm>) => {
+        setCategories(prev => prev.map((category, i) => i === index ? { ...category, ...changes } : category));
+    };
+
+    const handleDistrictToggle = (index: number, district: string) => {
+        const { districts } = categories[index];
+        updateCategory(index, {
+            districts: districts.includes(district) ? districts.filter(d => d !== district) : [...districts, district],
+        });
+    };
+
+    const handleAddCategory = () => {
+        setCategories(prev => [...prev, {
+            code: '', name: '', discountPercentage: '50', proofType: 'AADHAAR', minAge: '', maxAge: '', maxPerBooking: '',
+            districts: [], isActive: true, isNew: true,
+        }]);
+    };
+
+    const handleRemoveCategory = (index: number) => {
+        setCategories(prev => prev.filter((_, i) => i !== index));
+    };
+
+    const handleSaveChanges = async () => {
+        setIsSaving(true);
+        setError(null);
+        setSuccess(null);
+        try {
+            const payload: ConcessionCategory[] = categories.map(category => ({
+                code: category.code.trim().toUpperCase(),
+                name: category.name.trim(),
+                discountPercentage: Number(category.discountPercentage),
+                proofType: category.proofType,
+                minAge: toOptionalNumber(category.minAge),
+                maxAge: toOptionalNumber(category.maxAge),
+                maxPerBooking: toOptionalNumber(category.maxPerBooking),
+                districts: category.districts,
+                isActive: category.isActive,
+            }));
+            await api.updateConcessionCategories(payload);
+            setCategories(payload.map(toCategoryForm));
+            setSuccess("Concession categories updated successfully!");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save changes. Please try again.");
+        } finally {
+            setIsSaving(false);
+            setTimeout(() => setSuccess(null), 3000);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="flex items-center justify-center p-8"><Loader2 className="animate-spin" size={32} /></div>
+    }
+
+    return (
+        <div className="setting-toggle">
+            <h3 className="setting-toggle__title flex items-center gap-2"><Percent size={24}/> Concession Categories</h3>
+            <p className="setting-toggle__description mb-4">
+                Each category takes a percentage off the fare for passengers who give the number on its proof document.
+                Leave the ages blank for a category open to all ages, and tick no districts for one offered everywhere.
+                Deactivated categories stay on past tickets but can no longer be booked.
+            </p>
+
+            {error && <p className="auth-form__error">{error}</p>}
+            {success && <p className="auth-form__success">{success}</p>}
+
+            {categories.map((category, index) => (
+                <div key={category.isNew ? `new-${index}` : category.code} className="concession-category">
+                    <div className="concession-category__header">
+                        <h4 className="concession-category__title">{category.name || 'New Category'}{!category.isNew && ` (${category.code})`}</h4>
+                        {category.isNew ? (
+                            <Button onClick={() => handleRemoveCategory(index)} variant="secondary" className="btn--small">
+                                <Trash2 size={16} /> Remove
+                            </Button>
+                        ) : (
+                            <ToggleSwitch enabled={category.isActive} onChange={(checked) => updateCategory(index, { isActive: checked })} />
+                        )}
+                    </div>
+                    <div className="discount-manager__inputs">
+                        {category.isNew && (
+                            <Input
+                                id={`category-code-${index}`}
+                                label="Code"
+                                value={category.code}
+                                onChange={(e) => updateCategory(index, { code: e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, '') })}
+                                placeholder="e.g. WOMEN"
+                                maxLength={20}
+                            />
+                        )}
+                        <Input
+                            id={`category-name-${index}`}
+                            label="Name"
+                            value={category.name}
+                            onChange={(e) => updateCategory(index, { name: e.target.value })}
+                            placeholder="e.g. Women"
+                            maxLength={100}
+                        />
+                        <Input
+                            id={`category-discount-${index}`}
+                            label="Discount (%)"
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={category.discountPercentage}
+                            onChange={(e) => updateCategory(index, { discountPercentage: e.target.value })}
+                        />
+                        <div className="input-wrapper">
+                            <label htmlFor={`category-proof-${index}`} className="input-label">Proof Document</label>
+                            <select
+                                id={`category-proof-${index}`}
+                                className="input-field"
+                                value={category.proofType}
+                                onChange={(e) => updateCategory(index, { proofType: e.target.value as ProofType })}
+                            >
+                                {(Object.keys(PROOF_TYPE_LABELS) as ProofType[]).map(type => (
+                                    <option key={type} value={type}>{PROOF_TYPE_LABELS[type]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div className="discount-manager__inputs">
+                        <Input
+                            id={`category-min-age-${index}`}
+                            label="Minimum Age"
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={category.minAge}
+                            onChange={(e) => updateCategory(index, { minAge: e.target.value })}
+                            placeholder="Any"
+                        />
+                        <Input
+                            id={`category-max-age-${index}`}
+                            label="Maximum Age"
+                            type="number"
+                            min="0"
+                            max="120"
+                            value={category.maxAge}
+                            onChange={(e) => updateCategory(index, { maxAge: e.target.value })}
+                            placeholder="No limit"
+                        />
+                        <Input
+                            id={`category-limit-${index}`}
+                            label="Tickets per Booking"
+                            type="number"
+                            min="1"
+                            max="5"
+                            value={category.maxPerBooking}
+                            onChange={(e) => updateCategory(index, { maxPerBooking: e.target.value })}
+                            placeholder="No limit"
+                        />
+                    </div>
+                    <div className="subadmin-form__district-picker">
+                        <span className="input-label">Districts{category.districts.length === 0 && ' (all)'}</span>
+                        <div className="subadmin-form__district-grid">
+                            {allDistricts.map(district => (
+                                <label key={district} className="subadmin-form__district-label">
+                                    <input
+                                        type="checkbox"
+                                        className="subadmin-form__district-checkbox"
+                                        checked={category.districts.includes(district)}
+                                        onChange={() => handleDistrictToggle(index, district)}
+                                    />
+                                    <span>{district}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            <div className="flex justify-between items-center mt-4 gap-2">
+                <Button onClick={handleAddCategory} variant="secondary" className="btn--small">
+                    <Plus size={16} /> Add Category
                 </Button>
                 <Button onClick={handleSaveChanges} isLoading={isSaving}>
-                    <Save size={18} /> Save Changes
+                    <Save size={18} /> Save Categories
                 </Button>
             </div>
         </div>
     );
 };
 
+const describeFlagBooking = (booking: ConcessionFlagBooking) =>
+    `${booking.origin} to ${booking.destination} on ${formatJourneyDate(booking.journeyDate)}, seat ${booking.seatId}`;
+
+const ConcessionFlagList: React.FC = () => {
+    const [flags, setFlags] = useState<ConcessionFlag[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [reviewingId, setReviewingId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchFlags = async () => {
+            setIsLoading(true);
+            try {
+                setFlags(await api.getConcessionFlags());
+            } catch (err) {
+                setError("Failed to load concession flags.");
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchFlags();
+    }, []);
+
+    const handleReview = async (flagId: number) => {
+        setReviewingId(flagId);
+        setError(null);
+        try {
+            await api.reviewConcessionFlag(flagId);
+            setFlags(prev => prev.filter(flag => flag.id !== flagId));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to mark the flag as reviewed.");
+        } finally {
+            setReviewingId(null);
+        }
+    };
+
+    if (isLoading) {
+        return <div className="setting-toggle"><div className="home-page__loader"><div className="btn__spinner"></div></div></div>;
+    }
+
+    return (
+        <div className="setting-toggle">
+            <h3 className="setting-toggle__title flex items-center gap-2"><ShieldAlert size={24}/> Concession Flags</h3>
+            <p className="setting-toggle__description mb-4">
+                Concession seats booked with an Aadhaar number that was already travelling on another concession at the same time.
+            </p>
+
+            {error && <p className="auth-form__error">{error}</p>}
+
+            {flags.length === 0 ? (
+                <p className="setting-toggle__description">No flags to review.</p>
+            ) : (
+                <ul className="concession-flags">
+                    {flags.map(flag => (
+                        <li key={flag.id} className="concession-flags__item">
+                            <div>
+                                <p className="concession-flags__title">Aadhaar ending {flag.aadhaarLastDigits}</p>
+                                <p className="concession-flags__booking">Booking {flag.booking.id}: {describeFlagBooking(flag.booking)}</p>
+                                <p className="concession-flags__booking">
+                                    Overlaps booking {flag.conflictingBooking.id}: {describeFlagBooking(flag.conflictingBooking)}
+                                </p>
+                            </div>
+                            <Button
+                                onClick={() => handleReview(flag.id)}
+                                variant="secondary"
+                                className="btn--small"
+                                isLoading={reviewingId === flag.id}
+                                disabled={reviewingId !== null}
+                            >
+                                <Check size={16} /> Reviewed
+                            </Button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
 
 export const AdminSettingsPage: React.FC = () => {
     const [isDiscountSystemEnabled, setIsDiscountSystemEnabled] = useState(false);
@@ -318,8 +1046,9 @@ export const AdminSettingsPage: React.FC = () => {
                         <SettingToggle 
                             settingKey="isCancellationEnabled"
                             title="Ticket Cancellation System"
-                            description="Allow users to cancel their bookings up to 1 hour before departure."
+                            description="Allow users to cancel their bookings, subject to the cancellation fees below."
                         />
+                        <CancellationPolicyManager />
                     </div>
                 </div>
 
@@ -334,19 +1063,34 @@ export const AdminSettingsPage: React.FC = () => {
                     </div>
                 </div>
 
+                <div className="admin-settings__section">
+                    <h3 className="admin-settings__section-title">Operating Calendar</h3>
+                    <div className="admin-settings__toggles-container">
+                        <HolidayManager />
+                    </div>
+                </div>
+
+                <div className="admin-settings__section">
+                    <h3 className="admin-settings__section-title">Fares</h3>
+                    <div className="admin-settings__toggles-container">
+                        <FareRevisionManager />
+                    </div>
+                </div>
+
                 <div className="admin-settings__section">
                     <h3 className="admin-settings__section-title">Fare Discounts</h3>
                     <div className="admin-settings__toggles-container">
                         <SettingToggle 
                             settingKey="isDiscountSystemEnabled"
                             title="Fare Discount System"
-                            description="Enable discounts for children and senior citizens."
+                            description="Enable concession fares for children, senior citizens and the other categories below."
                             onToggle={setIsDiscountSystemEnabled}
                         />
                         {isDiscountSystemEnabled && (
                             <>
-                                <DiscountPercentageManager />
+                                <ConcessionCategoryManager />
                                 <DiscountDistrictManager />
+                                <ConcessionFlagList />
                             </>
                         )}
                     </div>
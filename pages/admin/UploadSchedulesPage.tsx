@@ -3,7 +3,9 @@ import { useAuth } from '../../hooks/useAuth';
 import { api } from '../../services/api';
 import { Card } from '../../components/common/Card';
 import { Button } from '../../components/common/Button';
-import type { ParsedSchedule, SeatLayout } from '../../types';
+import type { ParsedSchedule, SeatLayout, BusClass, OperatingCalendar } from '../../types';
+import { BUS_CLASS_LABELS } from '../../constants';
+import { describeCalendar, parseOperatingDays, parseDateList, DEFAULT_OPERATING_CALENDAR } from '../../utils/operatingCalendar';
 import { UploadCloud, ListChecks, AlertTriangle, CheckCircle, FileUp, Download, FileText } from 'lucide-react';
 import { BackButton } from '../../components/common/BackButton';
 
@@ -11,11 +13,11 @@ type UploadMode = 'csv' | 'text';
 
 // Helper to download a CSV template
 const downloadCsvTemplate = () => {
-    const header = "scheduleIdentifier,busName,seatLayout,bookingEnabled,stopOrder,stopName,arrivalTime,departureTime,fareFromOrigin\n";
-    const example1 = "RTK-CHD-01,Haryana Roadways,2x2,true,0,Rohtak,,08:00,0\n";
-    const example2 = "RTK-CHD-01,Haryana Roadways,2x2,true,1,Gohana,09:00,09:05,50\n";
-    const example3 = "RTK-CHD-01,Haryana Roadways,2x2,true,2,Panipat,10:00,10:10,100\n";
-    const example4 = "RTK-CHD-01,Haryana Roadways,2x2,true,3,Chandigarh,12:00,12:00,250\n";
+    const header = "scheduleIdentifier,busName,seatLayout,busClass,bookingEnabled,stopOrder,stopName,arrivalTime,departureTime,distanceKm,fareFromOrigin,operatingDays,validFrom,validUntil,runsOnHolidays,extraDates,excludedDates\n";
+    const example1 = "RTK-CHD-01,Haryana Roadways,2x2,EXPRESS,true,0,Rohtak,,08:00,0,0,MON TUE WED THU FRI SAT,,,false,,\n";
+    const example2 = "RTK-CHD-01,Haryana Roadways,2x2,EXPRESS,true,1,Gohana,09:00,09:05,35,50,,,,,,\n";
+    const example3 = "RTK-CHD-01,Haryana Roadways,2x2,EXPRESS,true,2,Panipat,10:00,10:10,70,100,,,,,,\n";
+    const example4 = "RTK-CHD-01,Haryana Roadways,2x2,EXPRESS,true,3,Chandigarh,12:00,12:00,190,250,,,,,,\n";
     const blob = new Blob([header, example1, example2, example3, example4], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement("a");
     const url = URL.createObjectURL(blob);
@@ -27,11 +29,39 @@ const downloadCsvTemplate = () => {
     document.body.removeChild(link);
 }
 
+const CALENDAR_HEADERS = ["operatingDays", "validFrom", "validUntil", "runsOnHolidays", "extraDates", "excludedDates"];
+
+// Reads the optional calendar columns from a schedule's first row. Days and dates are separated
+// by spaces, '|' or ';'. Returns undefined when the row leaves them all blank, so the schedule runs daily.
+const parseCalendar = (row: Record<string, string>, id: string): OperatingCalendar | undefined => {
+    if (!CALENDAR_HEADERS.some(header => row[header])) return undefined;
+
+    const operatingDays = row.operatingDays ? parseOperatingDays(row.operatingDays) : DEFAULT_OPERATING_CALENDAR.operatingDays;
+    if (!operatingDays) {
+        throw new Error(`${id}: operatingDays must list days such as "MON TUE WED" or say DAILY.`);
+    }
+    const extraDates = row.extraDates ? parseDateList(row.extraDates) : [];
+    const excludedDates = row.excludedDates ? parseDateList(row.excludedDates) : [];
+    if (!extraDates || !excludedDates) {
+        throw new Error(`${id}: extraDates and excludedDates must be YYYY-MM-DD dates.`);
+    }
+    return {
+        operatingDays,
+        validFrom: row.validFrom || null,
+        validUntil: row.validUntil || null,
+        runsOnHolidays: row.runsOnHolidays ? row.runsOnHolidays.toLowerCase() === 'true' : true,
+        extraDates,
+        excludedDates,
+    };
+};
+
 const parseScheduleData = (text: string): ParsedSchedule[] => {
     const lines = text.trim().split(/\r?\n/);
     if (lines.length < 2) throw new Error("Input must have a header and at least one data row.");
     
     const headers = lines[0].split(',').map(h => h.trim());
+    // busClass and distanceKm are optional: without them a schedule is ordinary and priced by its stop fares.
+    // The calendar columns are optional too: without them a schedule runs every day.
     const requiredHeaders = ["scheduleIdentifier", "busName", "seatLayout", "bookingEnabled", "stopOrder", "stopName", "arrivalTime", "departureTime", "fareFromOrigin"];
     if(!requiredHeaders.every(h => headers.includes(h))) {
         throw new Error(`Input is missing one of the required headers: ${requiredHeaders.join(', ')}`);
@@ -57,8 +87,10 @@ const parseScheduleData = (text: string): ParsedSchedule[] => {
                 id: id,
                 busName: row.busName,
                 seatLayout: row.seatLayout as SeatLayout,
+                busClass: row.busClass ? row.busClass.toUpperCase() as BusClass : undefined,
                 bookingEnabled: row.bookingEnabled?.toLowerCase() === 'true',
-                stops: []
+                stops: [],
+                calendar: parseCalendar(row, id)
             });
         }
         schedulesMap.get(id)!.stops.push({
@@ -66,6 +98,7 @@ const parseScheduleData = (text: string): ParsedSchedule[] => {
             stopName: row.stopName,
             arrivalTime: row.arrivalTime === 'null' || !row.arrivalTime ? null : row.arrivalTime,
             departureTime: row.departureTime,
+            distanceKm: row.distanceKm ? parseFloat(row.distanceKm) : null,
             fareFromOrigin: parseFloat(row.fareFromOrigin)
         });
     }
@@ -97,13 +130,16 @@ const SchedulePreview: React.FC<{ schedules: ParsedSchedule[] }> = ({ schedules
                 <div key={schedule.id || index} className="preview-schedule-card">
                     <h4 className="preview-schedule-card__title">{schedule.busName} ({schedule.seatLayout})</h4>
                     <p className="preview-schedule-card__meta">ID: <span className="preview-schedule-card__meta-id">{schedule.id}</span></p>
+                    <p className="preview-schedule-card__meta">Bus Class: {BUS_CLASS_LABELS[schedule.busClass || 'ORDINARY'] || schedule.busClass}</p>
                     <p className="preview-schedule-card__meta">Booking Enabled: {schedule.bookingEnabled ? 'Yes' : 'No'}</p>
+                    <p className="preview-schedule-card__meta">Runs: {describeCalendar(schedule.calendar || DEFAULT_OPERATING_CALENDAR)}</p>
                     <ol className="preview-schedule-card__stop-list">
                         {schedule.stops.map((stop, stopIndex) => (
                             <li key={stopIndex}>
                                 <span className="font-semibold">{stop.stopName}</span> - 
                                 Dep: {stop.departureTime} | 
                                 Arr: {stop.arrivalTime || 'N/A'} | 
+                                {stop.distanceKm != null && <>Distance: {stop.distanceKm} km | </>}
                                 Fare: ₹{stop.fareFromOrigin}
                             </li>
                         ))}
@@ -223,6 +259,7 @@ export const UploadSchedulesPage: React.FC = () => {
                 {mode === 'csv' ? (
                      <div>
                         <p className="admin-page-header__subtitle" style={{marginBottom: '1rem'}}>Upload a CSV file with schedule data. The file must contain specific headers to be parsed correctly.</p>
+                        <p className="admin-page-header__subtitle" style={{marginBottom: '1rem'}}>Optional calendar columns on a schedule's first row set when it runs: operatingDays (e.g. "MON TUE WED" or DAILY), validFrom and validUntil, runsOnHolidays, and extraDates or excludedDates as YYYY-MM-DD dates separated by spaces. Leave them out and the bus runs every day.</p>
                         <div className="upload-schedules__file-upload-actions">
                             <Button onClick={downloadCsvTemplate} variant="secondary">
                                 <Download size={18} /> Download Template
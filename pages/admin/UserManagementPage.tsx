@@ -4,9 +4,10 @@ import { Button } from '../../components/common/Button';
 import { api } from '../../services/api';
 import type { User } from '../../types';
 import { UserRole } from '../../types';
-import { Users, PlusCircle, Edit, Trash2, Shield, User as UserIcon } from 'lucide-react';
+import { Users, PlusCircle, Edit, Trash2, Shield, User as UserIcon, ScanLine } from 'lucide-react';
 import { SubAdminFormModal } from '../../components/admin/SubAdminFormModal';
 import { EditUserModal } from '../../components/admin/EditUserModal';
+import { ConductorFormModal } from '../../components/admin/ConductorFormModal';
 import { useAuth } from '../../hooks/useAuth';
 import { BackButton } from '../../components/common/BackButton';
 
@@ -17,6 +18,7 @@ export const AdminUserManagementPage: React.FC = () => {
     
     const [isSubAdminModalOpen, setIsSubAdminModalOpen] = useState(false);
     const [isUserModalOpen, setIsUserModalOpen] = useState(false);
+    const [isConductorModalOpen, setIsConductorModalOpen] = useState(false);
     const [editingUser, setEditingUser] = useState<User | null>(null);
     
     const { user: loggedInUser } = useAuth();
@@ -54,11 +56,18 @@ export const AdminUserManagementPage: React.FC = () => {
         setEditingUser(null);
         setIsSubAdminModalOpen(true);
     };
+
+    const handleOpenCreateConductorModal = () => {
+        setEditingUser(null);
+        setIsConductorModalOpen(true);
+    };
     
     const handleOpenEditModal = (user: User) => {
         setEditingUser(user);
         if (user.role === UserRole.SUB_ADMIN) {
             setIsSubAdminModalOpen(true);
+        } else if (user.role === UserRole.CONDUCTOR) {
+            setIsConductorModalOpen(true);
         } else if (user.role === UserRole.USER) {
             setIsUserModalOpen(true);
         }
@@ -67,14 +76,16 @@ export const AdminUserManagementPage: React.FC = () => {
     const handleCloseModals = () => {
         setIsSubAdminModalOpen(false);
         setIsUserModalOpen(false);
+        setIsConductorModalOpen(false);
         setEditingUser(null);
     };
 
-    const handleDeleteUser = async (userId: string) => {
-        if (window.confirm("Are you sure you want to delete this sub-admin? This action cannot be undone.")) {
+    const handleDeleteUser = async (user: User) => {
+        const roleName = user.role === UserRole.CONDUCTOR ? 'conductor' : 'sub-admin';
+        if (window.confirm(`Are you sure you want to delete this ${roleName}? This action cannot be undone.`)) {
             try {
-                await api.deleteUser(userId);
-                setUsers(prev => prev.filter(u => u.id !== userId));
+                await api.deleteUser(user.id);
+                setUsers(prev => prev.filter(u => u.id !== user.id));
             } catch (err) {
                 const message = err instanceof Error ? err.message : "An unexpected error occurred.";
                 alert(`Failed to delete user: ${message}`);
@@ -93,6 +104,8 @@ export const AdminUserManagementPage: React.FC = () => {
                 return <span className="user-management__role-indicator role-admin"><Shield size={14}/>ADMIN</span>;
             case UserRole.SUB_ADMIN:
                 return <span className="user-management__role-indicator role-sub-admin"><Shield size={14}/>SUB-ADMIN</span>;
+            case UserRole.CONDUCTOR:
+                return <span className="user-management__role-indicator role-conductor"><ScanLine size={14}/>CONDUCTOR</span>;
             case UserRole.USER:
                 return <span className="user-management__role-indicator role-user"><UserIcon size={14}/>USER</span>;
             default:
@@ -111,13 +124,18 @@ export const AdminUserManagementPage: React.FC = () => {
                                 <Users /> User Management
                             </h2>
                             <p className="admin-page-header__subtitle" style={{ marginBottom: 0, marginTop: '0.25rem' }}>
-                                Manage all user and sub-admin accounts.
+                                Manage all user, sub-admin and conductor accounts.
                             </p>
                         </div>
                         {loggedInUser?.role === UserRole.ADMIN && (
-                            <Button onClick={handleOpenCreateModal}>
-                                <PlusCircle size={20} /> Add Sub-Admin
-                            </Button>
+                            <div className="user-management__header-actions">
+                                <Button variant="secondary" onClick={handleOpenCreateConductorModal}>
+                                    <PlusCircle size={20} /> Add Conductor
+                                </Button>
+                                <Button onClick={handleOpenCreateModal}>
+                                    <PlusCircle size={20} /> Add Sub-Admin
+                                </Button>
+                            </div>
                         )}
                     </div>
                 </div>
@@ -133,7 +151,7 @@ export const AdminUserManagementPage: React.FC = () => {
                                     <th>Name</th>
                                     <th>Role</th>
                                     <th>Contact</th>
-                                    <th>Assigned Districts</th>
+                                    <th>Assignments</th>
                                     <th>Actions</th>
                                 </tr>
                             </thead>
@@ -155,6 +173,10 @@ export const AdminUserManagementPage: React.FC = () => {
                                                 (user.assignedDistricts && user.assignedDistricts.length > 0)
                                                     ? <div className="user-management__districts">{user.assignedDistricts.map(d => <span key={d} className="user-management__district-tag">{d}</span>)}</div>
                                                     : <span className="text-gray-400 italic">None</span>
+                                            ) : user.role === UserRole.CONDUCTOR ? (
+                                                (user.assignments && user.assignments.length > 0)
+                                                    ? <div className="user-management__districts">{user.assignments.map(trip => <span key={`${trip.scheduleId}|${trip.journeyDate}`} className="user-management__district-tag">{trip.scheduleId} &middot; {trip.journeyDate}</span>)}</div>
+                                                    : <span className="text-gray-400 italic">No upcoming trips</span>
                                             ) : 'N/A'}
                                         </td>
                                         <td>
@@ -163,8 +185,8 @@ export const AdminUserManagementPage: React.FC = () => {
                                                     <Button variant="secondary" onClick={() => handleOpenEditModal(user)} className="user-management__action-btn">
                                                         <Edit size={16} />
                                                     </Button>
-                                                    {user.role === UserRole.SUB_ADMIN && (
-                                                        <Button variant="danger" onClick={() => handleDeleteUser(user.id)} className="user-management__action-btn">
+                                                    {(user.role === UserRole.SUB_ADMIN || user.role === UserRole.CONDUCTOR) && (
+                                                        <Button variant="danger" onClick={() => handleDeleteUser(user)} className="user-management__action-btn">
                                                             <Trash2 size={16} />
                                                         </Button>
                                                     )}
@@ -188,6 +210,15 @@ export const AdminUserManagementPage: React.FC = () => {
                 />
             )}
             
+            {isConductorModalOpen && (editingUser === null || editingUser.role === UserRole.CONDUCTOR) && (
+                <ConductorFormModal
+                    isOpen={isConductorModalOpen}
+                    onClose={handleCloseModals}
+                    onSave={handleSaveSuccess}
+                    userToEdit={editingUser}
+                />
+            )}
+
             {isUserModalOpen && editingUser?.role === UserRole.USER && (
                  <EditUserModal
                     isOpen={isUserModalOpen}
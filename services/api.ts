@@ -9,29 +9,101 @@ import type {
     ParsedSchedule,
     ParsedStop,
     SeatLayout,
+    BusClass,
+    OperatingCalendar,
+    Holiday,
     ParsedBeneficiary,
     PassCard,
-    SeatBookingInfo
+    SeatBookingInfo,
+    AuthSession,
+    CaptchaChallenge,
+    CaptchaResponse,
+    SeatAvailability,
+    SeatHold,
+    BookingResult,
+    BookingChangeRequest,
+    Itinerary,
+    JourneySort,
+    ItineraryBookingResult,
+    ItineraryKind,
+    SavedPassenger,
+    SavedPassengerInput,
+    BookingChangePreview,
+    BookingChangeResult,
+    Payment,
+    PaymentSimulation,
+    CancellationPolicy,
+    CancellationResult,
+    CancellationQuote,
+    ConcessionCategory,
+    FareRevision,
+    ConcessionFlag,
+    WaitlistEntry,
+    WaitlistPassenger,
+    BoardingStatus,
+    ConductorTrip,
+    ManifestSeat,
+    TicketCheck,
+    Trip,
+    TripUpdate,
+    TripCancellationReport,
+    AppNotification,
+    Vehicle,
+    VehicleInput,
+    SeatLayoutDefinition
 } from '../types';
+import { readSession, writeSession, clearSession, toStoredSession } from './session';
 
 const API_BASE_URL = 'https://government-bus.onrender.com/api';
 
+// Refresh slightly before the access token expires to avoid racing the server clock.
+const TOKEN_REFRESH_MARGIN_MS = 30 * 1000;
+
+let refreshInFlight: Promise<string | null> | null = null;
+
 /**
- * Get the auth token from localStorage, if it exists and is not expired.
+ * Exchange the stored refresh token for a new session.
+ * Concurrent callers share one request, since each refresh token can only be used once.
  */
-function getAuthToken(): string | null {
-    const storedSession = localStorage.getItem('session');
-    if (!storedSession) return null;
-
-    try {
-        const session = JSON.parse(storedSession);
-        if (session?.token && session.expiry > Date.now()) {
-            return session.token;
-        }
-    } catch {
-        // ignore JSON parse errors
+function refreshAuthToken(refreshToken: string): Promise<string | null> {
+    if (!refreshInFlight) {
+        refreshInFlight = fetch(`${API_BASE_URL}/auth/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+        })
+            .then(async response => {
+                if (response.status === 400 || response.status === 401) {
+                    // The refresh token was rejected: the session is over, unless a new one has started since.
+                    if (readSession()?.refreshToken === refreshToken) clearSession();
+                    return null;
+                }
+                const session = await handleResponse<AuthSession>(response);
+                // Logging out (or in as someone else) while this was in flight replaced the
+                // stored session; writing this one would bring the old session back.
+                if (readSession()?.refreshToken !== refreshToken) return null;
+                writeSession(toStoredSession(session));
+                return session.token;
+            })
+            .catch(() => null)
+            .finally(() => {
+                refreshInFlight = null;
+            });
+    }
+    return refreshInFlight;
+}
+
+/**
+ * Get a valid auth token, refreshing the session first if the access token has expired.
+ */
+async function getAuthToken(): Promise<string | null> {
+    const session = readSession();
+    if (!session) return null;
+
+    if (session.expiry - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+        return session.token;
     }
-    return null;
+    return refreshAuthToken(session.refreshToken);
 }
 
 /**
@@ -63,7 +135,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
  * Wrapper for fetch that adds headers and handles responses.
  */
 async function apiFetch<T>(input: RequestInfo, init: RequestInit = {}): Promise<T> {
-    const token = getAuthToken();
+    const token = await getAuthToken();
     const headers: Record<string, string> = {
         ...(init.headers as Record<string, string> || {}),
         ...(token ? { 'X-Auth-Token': token } : {}),
@@ -73,6 +145,18 @@ async function apiFetch<T>(input: RequestInfo, init: RequestInit = {}): Promise<
     return handleResponse<T>(response);
 }
 
+/**
+ * Like apiFetch, for endpoints that send back a file.
+ */
+async function apiFetchBlob(input: RequestInfo): Promise<Blob> {
+    const token = await getAuthToken();
+    const response = await fetch(input, { headers: token ? { 'X-Auth-Token': token } : {} });
+    if (!response.ok) {
+        return handleResponse<Blob>(response); // Throws with the server's message
+    }
+    return response.blob();
+}
+
 // Type for user registration
 type RegistrationData = Omit<User, 'id' | 'role'> & { password: string };
 
@@ -80,63 +164,115 @@ export const api = {
     // --- General ---
     getDistricts: (): Promise<string[]> => apiFetch(`${API_BASE_URL}/districts`),
 
-    login: (phone: string, password_val: string): Promise<{ token: string; user: User } | null> =>
+    getCaptcha: (): Promise<CaptchaChallenge> =>
+        apiFetch(`${API_BASE_URL}/auth/captcha`),
+
+    login: (phone: string, password_val: string, captcha: CaptchaResponse): Promise<AuthSession | null> =>
         apiFetch(`${API_BASE_URL}/auth/login`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ phone, password: password_val }),
+            body: JSON.stringify({ phone, password: password_val, ...captcha }),
         }),
 
-    sendOtp: (phone: string): Promise<{ message: string; otp: string }> =>
+    /**
+     * Request an OTP for the phone number. `otp` is only echoed back by non-production servers.
+     */
+    sendOtp: (phone: string, captcha: CaptchaResponse): Promise<{ message: string; expiresInSeconds: number; otp?: string }> =>
         apiFetch(`${API_BASE_URL}/auth/send-otp`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ phone }),
+            body: JSON.stringify({ phone, ...captcha }),
         }),
 
-    verifyOtp: (phone: string, otp: string): Promise<{ token: string; user: User } | null> =>
+    verifyOtp: (phone: string, otp: string): Promise<AuthSession | null> =>
         apiFetch(`${API_BASE_URL}/auth/verify-otp`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ phone, otp }),
         }),
 
-    register: (data: RegistrationData): Promise<User> =>
+    /**
+     * Revoke the current session on the server. The caller clears local state.
+     */
+    logout: (): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/auth/logout`, {
+            method: 'POST',
+        }),
+
+    register: (data: RegistrationData, captcha: CaptchaResponse): Promise<User> =>
         apiFetch(`${API_BASE_URL}/auth/register`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(data),
+            body: JSON.stringify({ ...data, ...captcha }),
         }),
 
-    getSchedulesByDistrict: (district: string): Promise<Schedule[]> =>
-        apiFetch(`${API_BASE_URL}/schedules/district/${encodeURIComponent(district)}`),
+    // Only buses running on `journeyDate` (today if it is left out) are returned.
+    getSchedulesByDistrict: (district: string, journeyDate?: string): Promise<Schedule[]> => {
+        const params = new URLSearchParams();
+        if (journeyDate) params.set('journeyDate', journeyDate);
+        const query = params.toString();
+        return apiFetch(`${API_BASE_URL}/schedules/district/${encodeURIComponent(district)}${query ? `?${query}` : ''}`);
+    },
 
-    getSchedulesByRoute: (origin: string, destination: string): Promise<Schedule[]> => {
+    // Fares are quoted for `journeyDate`, or for today if it is left out.
+    getSchedulesByRoute: (origin: string, destination: string, journeyDate?: string): Promise<Schedule[]> => {
         const params = new URLSearchParams({ origin, destination });
+        if (journeyDate) params.set('journeyDate', journeyDate);
         return apiFetch(`${API_BASE_URL}/schedules/route?${params.toString()}`);
     },
 
+    // Journeys that may need a change of bus, best first by `sort`.
+    planJourneys: (origin: string, destination: string, journeyDate: string, sort: JourneySort = 'duration'): Promise<Itinerary[]> => {
+        const params = new URLSearchParams({ origin, destination, journeyDate, sort });
+        return apiFetch(`${API_BASE_URL}/journeys/plan?${params.toString()}`);
+    },
+
     getScheduleById: (id: string): Promise<Schedule | null> =>
         apiFetch(`${API_BASE_URL}/schedules/${encodeURIComponent(id)}`),
 
-    getBookedSeatsForSchedule: (scheduleId: string, origin: string, destination: string): Promise<string[]> => {
-        const params = new URLSearchParams({ origin, destination });
+    getSeatAvailability: (scheduleId: string, origin: string, destination: string, journeyDate: string): Promise<SeatAvailability> => {
+        const params = new URLSearchParams({ origin, destination, journeyDate });
         return apiFetch(`${API_BASE_URL}/bookings/seats/${encodeURIComponent(scheduleId)}?${params.toString()}`);
     },
 
+    // Live seat-map updates for a segment. The stream carries no user data, so it needs no auth token.
+    openSeatEventStream: (scheduleId: string, origin: string, destination: string, journeyDate: string): EventSource => {
+        const params = new URLSearchParams({ origin, destination, journeyDate });
+        return new EventSource(`${API_BASE_URL}/bookings/seats/${encodeURIComponent(scheduleId)}/events?${params.toString()}`);
+    },
+
+    holdSeat: (scheduleId: string, seatId: string, origin: string, destination: string, journeyDate: string): Promise<SeatHold> =>
+        apiFetch(`${API_BASE_URL}/bookings/holds`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduleId, seatId, origin, destination, journeyDate }),
+        }),
+
+    // Releases one held seat, or every seat the user holds on the schedule when seatId is omitted.
+    releaseSeatHolds: (scheduleId: string, journeyDate: string, seatId?: string): Promise<void> => {
+        const params = new URLSearchParams({ journeyDate });
+        if (seatId) params.set('seatId', seatId);
+        return apiFetch(`${API_BASE_URL}/bookings/holds/${encodeURIComponent(scheduleId)}?${params.toString()}`, { method: 'DELETE' });
+    },
+
     trackBus: (busId: string): Promise<BusLocation | null> =>
         apiFetch(`${API_BASE_URL}/tracking/${encodeURIComponent(busId)}`),
 
+    // Tracks the bus with this registration number on the trip it is running today.
+    trackVehicle: (registrationNumber: string): Promise<BusLocation> =>
+        apiFetch(`${API_BASE_URL}/tracking/vehicle/${encodeURIComponent(registrationNumber)}`),
+
     bookSeats: (
         scheduleId: string,
         seats: SeatBookingInfo[],
         origin: string,
-        destination: string
-    ): Promise<{ bookingId: string }> =>
+        destination: string,
+        journeyDate: string
+    ): Promise<BookingResult> =>
         apiFetch(`${API_BASE_URL}/bookings`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ scheduleId, seats, origin, destination }),
+            body: JSON.stringify({ scheduleId, seats, origin, destination, journeyDate }),
         }),
 
     bookFreeSeats: (
@@ -144,13 +280,14 @@ export const api = {
         seatIds: string[],
         origin: string,
         destination: string,
+        journeyDate: string,
         registrationNumber: string,
         phone: string
     ): Promise<{ bookingId: string }> =>
         apiFetch(`${API_BASE_URL}/bookings/free`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ scheduleId, seatIds, origin, destination, registrationNumber, phone }),
+            body: JSON.stringify({ scheduleId, seatIds, origin, destination, journeyDate, registrationNumber, phone }),
         }),
 
     getUserBookings: (userId: string): Promise<UserBooking[]> =>
@@ -159,13 +296,87 @@ export const api = {
     getPassCardForUser: (userId: string): Promise<PassCard | null> =>
         apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/pass-card`),
     
-    cancelBooking: (bookingId: string, seatIds: string[]): Promise<{ message: string }> =>
+    getCancellationQuote: (bookingId: string): Promise<CancellationQuote> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/cancellation-quote`),
+
+    cancelBooking: (bookingId: string, seatIds: string[]): Promise<CancellationResult> =>
         apiFetch(`${API_BASE_URL}/bookings/${bookingId}/cancel`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ seatIds }),
         }),
 
+    // Moves a booking on a cancelled trip to one of the buses it was offered.
+    acceptRebooking: (bookingId: string, scheduleId: string, journeyDate: string): Promise<{ message: string; scheduleId: string; journeyDate: string; seatIds: string[] }> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/rebooking`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduleId, journeyDate }),
+        }),
+
+    // Turns down the buses offered for a cancelled trip, for a full refund.
+    declineRebooking: (bookingId: string): Promise<{ message: string; refundAmount: number }> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/rebooking`, {
+            method: 'DELETE',
+        }),
+
+    bookItinerary: (legs: { scheduleId: string; origin: string; destination: string; journeyDate: string; seatIds: string[] }[], passengers: WaitlistPassenger[], kind: ItineraryKind = 'CONNECTING'): Promise<ItineraryBookingResult> =>
+        apiFetch(`${API_BASE_URL}/itineraries`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ legs, passengers, kind }),
+        }),
+
+    abandonBooking: (bookingId: string): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/abandon`, { method: 'POST' }),
+
+    // The official e-ticket PDF, for confirmed bookings.
+    getTicketPdf: (bookingId: string): Promise<Blob> =>
+        apiFetchBlob(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/ticket`),
+
+    // The signed token the ticket's QR code holds.
+    getTicketQr: (bookingId: string): Promise<{ token: string }> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}/ticket/qr`),
+
+    previewBookingChange: (bookingId: string, change: BookingChangeRequest): Promise<BookingChangePreview> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...change, dryRun: true }),
+        }),
+
+    changeBooking: (bookingId: string, change: BookingChangeRequest): Promise<BookingChangeResult> =>
+        apiFetch(`${API_BASE_URL}/bookings/${encodeURIComponent(bookingId)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(change),
+        }),
+
+    joinWaitlist: (scheduleId: string, origin: string, destination: string, journeyDate: string, passengers: WaitlistPassenger[]): Promise<WaitlistEntry> =>
+        apiFetch(`${API_BASE_URL}/waitlist`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduleId, origin, destination, journeyDate, passengers }),
+        }),
+
+    getWaitlist: (): Promise<WaitlistEntry[]> =>
+        apiFetch(`${API_BASE_URL}/waitlist`),
+
+    leaveWaitlist: (entryId: string): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/waitlist/${encodeURIComponent(entryId)}`, { method: 'DELETE' }),
+
+    // --- Payments ---
+    // Pass `changeId` to pay the extra fare of a booking change.
+    startPayment: (bookingId: string, simulate?: PaymentSimulation, changeId?: string): Promise<Payment> =>
+        apiFetch(`${API_BASE_URL}/payments`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ bookingId, changeId, simulate }),
+        }),
+
+    getPayment: (paymentId: string): Promise<Payment> =>
+        apiFetch(`${API_BASE_URL}/payments/${encodeURIComponent(paymentId)}`),
+
     // --- Admin ---
     getSetting: (key: string): Promise<{ key: string; value: string }> =>
         apiFetch(`${API_BASE_URL}/settings/${key}`),
@@ -187,6 +398,56 @@ export const api = {
             body: JSON.stringify({ districts }),
         }),
 
+    getCancellationPolicies: (): Promise<CancellationPolicy[]> =>
+        apiFetch(`${API_BASE_URL}/cancellation-policies`),
+
+    updateCancellationPolicies: (policies: CancellationPolicy[]): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/cancellation-policies`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ policies }),
+        }),
+
+    getHolidays: (): Promise<Holiday[]> =>
+        apiFetch(`${API_BASE_URL}/holidays`),
+
+    updateHolidays: (holidays: Holiday[]): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/holidays`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ holidays }),
+        }),
+
+    getConcessionCategories: (): Promise<ConcessionCategory[]> =>
+        apiFetch(`${API_BASE_URL}/concessions/categories`),
+
+    updateConcessionCategories: (categories: ConcessionCategory[]): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/concessions/categories`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ categories }),
+        }),
+
+    getFareRevisions: (): Promise<FareRevision[]> =>
+        apiFetch(`${API_BASE_URL}/fares/revisions`),
+
+    // Saving fares for a date that already has some replaces them.
+    saveFareRevision: (revision: FareRevision): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/fares/revisions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(revision),
+        }),
+
+    deleteFareRevision: (revisionId: number): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/fares/revisions/${revisionId}`, { method: 'DELETE' }),
+
+    getConcessionFlags: (includeReviewed = false): Promise<ConcessionFlag[]> =>
+        apiFetch(`${API_BASE_URL}/concessions/flags?includeReviewed=${includeReviewed}`),
+
+    reviewConcessionFlag: (flagId: number): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/concessions/flags/${flagId}/review`, { method: 'POST' }),
+
     getUsers: (): Promise<User[]> =>
         apiFetch(`${API_BASE_URL}/users`),
 
@@ -218,11 +479,55 @@ export const api = {
             body: JSON.stringify(data),
         }),
 
+    createConductor: (data: Partial<User>): Promise<User> =>
+        apiFetch(`${API_BASE_URL}/users/conductor`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data),
+        }),
+
+    updateConductor: (userId: string, data: Partial<User>): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/users/conductor/${encodeURIComponent(userId)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data),
+        }),
+
     deleteUser: (userId: string): Promise<void> =>
         apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}`, {
             method: 'DELETE',
         }),
 
+    getNotifications: (userId: string): Promise<AppNotification[]> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/notifications`),
+
+    markNotificationRead: (userId: string, notificationId: string): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/notifications/${encodeURIComponent(notificationId)}/read`, {
+            method: 'POST',
+        }),
+
+    getSavedPassengers: (userId: string): Promise<SavedPassenger[]> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/passengers`),
+
+    createSavedPassenger: (userId: string, passenger: SavedPassengerInput): Promise<SavedPassenger> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/passengers`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(passenger),
+        }),
+
+    updateSavedPassenger: (userId: string, passengerId: string, passenger: SavedPassengerInput): Promise<SavedPassenger> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/passengers/${encodeURIComponent(passengerId)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(passenger),
+        }),
+
+    deleteSavedPassenger: (userId: string, passengerId: string): Promise<{ message: string }> =>
+        apiFetch(`${API_BASE_URL}/users/${encodeURIComponent(userId)}/passengers/${encodeURIComponent(passengerId)}`, {
+            method: 'DELETE',
+        }),
+
     updateUserProfile: (userId: string, data: Partial<User>): Promise<User> =>
         apiFetch(`${API_BASE_URL}/users/profile/${encodeURIComponent(userId)}`, {
             method: 'PUT',
@@ -233,7 +538,7 @@ export const api = {
     getAllSchedules: (): Promise<Schedule[]> =>
         apiFetch(`${API_BASE_URL}/schedules`),
 
-    updateSchedule: (scheduleId: string, data: { busName: string; seatLayout: SeatLayout; bookingEnabled: boolean; stops: ParsedStop[] }): Promise<Schedule> =>
+    updateSchedule: (scheduleId: string, data: { busName: string; seatLayout: SeatLayout; busClass: BusClass; bookingEnabled: boolean; stops: ParsedStop[]; calendar?: OperatingCalendar; vehicleId?: string | null }): Promise<Schedule> =>
         apiFetch(`${API_BASE_URL}/schedules/${encodeURIComponent(scheduleId)}`, {
             method: 'PUT',
             headers: { 'Content-Type': 'application/json' },
@@ -247,6 +552,103 @@ export const api = {
             body: JSON.stringify({ schedules }),
         }),
 
+    getSeatLayouts: (): Promise<SeatLayoutDefinition[]> =>
+        apiFetch(`${API_BASE_URL}/seat-layouts`),
+
+    getSeatLayout: (layoutId: string): Promise<SeatLayoutDefinition> =>
+        apiFetch(`${API_BASE_URL}/seat-layouts/${encodeURIComponent(layoutId)}`),
+
+    createSeatLayout: (layout: Omit<SeatLayoutDefinition, 'isBuiltIn'>): Promise<SeatLayoutDefinition> =>
+        apiFetch(`${API_BASE_URL}/seat-layouts`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(layout),
+        }),
+
+    updateSeatLayout: (layoutId: string, layout: Omit<SeatLayoutDefinition, 'id' | 'isBuiltIn'>): Promise<SeatLayoutDefinition> =>
+        apiFetch(`${API_BASE_URL}/seat-layouts/${encodeURIComponent(layoutId)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(layout),
+        }),
+
+    deleteSeatLayout: (layoutId: string): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/seat-layouts/${encodeURIComponent(layoutId)}`, {
+            method: 'DELETE',
+        }),
+
+    getVehicles: (): Promise<Vehicle[]> =>
+        apiFetch(`${API_BASE_URL}/vehicles`),
+
+    createVehicle: (vehicle: VehicleInput): Promise<Vehicle> =>
+        apiFetch(`${API_BASE_URL}/vehicles`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(vehicle),
+        }),
+
+    updateVehicle: (vehicleId: string, vehicle: VehicleInput): Promise<Vehicle> =>
+        apiFetch(`${API_BASE_URL}/vehicles/${encodeURIComponent(vehicleId)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(vehicle),
+        }),
+
+    deleteVehicle: (vehicleId: string): Promise<void> =>
+        apiFetch(`${API_BASE_URL}/vehicles/${encodeURIComponent(vehicleId)}`, {
+            method: 'DELETE',
+        }),
+
+    // Dated trips between two journey dates; the next two weeks when no range is given.
+    getTrips: (fromDate?: string, toDate?: string): Promise<Trip[]> => {
+        const params = new URLSearchParams();
+        if (fromDate) params.set('from', fromDate);
+        if (toDate) params.set('to', toDate);
+        const query = params.toString();
+        return apiFetch(`${API_BASE_URL}/trips${query ? `?${query}` : ''}`);
+    },
+
+    updateTrip: (tripId: string, changes: TripUpdate): Promise<Trip> =>
+        apiFetch(`${API_BASE_URL}/trips/${encodeURIComponent(tripId)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+        }),
+
+    // Cancels a trip with everyone on it: paid bookings are offered other buses for their
+    // segment, or refunded when there are none or `offerRebooking` is false.
+    cancelTrip: (tripId: string, reason: string, offerRebooking: boolean): Promise<{ trip: Trip; report: TripCancellationReport }> =>
+        apiFetch(`${API_BASE_URL}/trips/${encodeURIComponent(tripId)}/cancel`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ reason, offerRebooking }),
+        }),
+
+    getTripCancellationReport: (tripId: string): Promise<{ trip: Trip; report: TripCancellationReport }> =>
+        apiFetch(`${API_BASE_URL}/trips/${encodeURIComponent(tripId)}/cancellation-report`),
+
     getRevenueAnalytics: (): Promise<RevenueAnalyticsData> =>
         apiFetch(`${API_BASE_URL}/analytics/revenue`),
+
+    getConductorTrips: (): Promise<ConductorTrip[]> =>
+        apiFetch(`${API_BASE_URL}/conductor/trips`),
+
+    getTripManifest: (scheduleId: string, journeyDate: string): Promise<ManifestSeat[]> =>
+        apiFetch(`${API_BASE_URL}/conductor/trips/${encodeURIComponent(scheduleId)}/${encodeURIComponent(journeyDate)}/manifest`),
+
+    // Checks the token from a ticket's QR code against the conductor's trip.
+    verifyTicket: (scheduleId: string, journeyDate: string, token: string): Promise<TicketCheck> =>
+        apiFetch(`${API_BASE_URL}/conductor/verify`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduleId, journeyDate, token }),
+        }),
+
+    // Returns the booking's seats on the manifest afterwards.
+    recordBoarding: (scheduleId: string, journeyDate: string, bookingId: string, seatIds: string[], status: BoardingStatus): Promise<ManifestSeat[]> =>
+        apiFetch(`${API_BASE_URL}/conductor/boarding`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ scheduleId, journeyDate, bookingId, seatIds, status }),
+        }),
 };
\ No newline at end of file
@@ -0,0 +1,49 @@
+import type { AuthSession, User } from '../types';
+
+const SESSION_KEY = 'session';
+
+/**
+ * The session as persisted in localStorage. Expiry times are epoch milliseconds.
+ */
+export interface StoredSession {
+    user: User;
+    token: string;
+    refreshToken: string;
+    expiry: number;
+    refreshExpiry: number;
+}
+
+export const toStoredSession = (session: AuthSession): StoredSession => ({
+    user: session.user,
+    token: session.token,
+    refreshToken: session.refreshToken,
+    expiry: new Date(session.expiresAt).getTime(),
+    refreshExpiry: new Date(session.refreshExpiresAt).getTime(),
+});
+
+/**
+ * Read the stored session. Returns null if there is none, it is malformed,
+ * or it can no longer be refreshed.
+ */
+export function readSession(): StoredSession | null {
+    const storedSession = localStorage.getItem(SESSION_KEY);
+    if (!storedSession) return null;
+
+    try {
+        const session = JSON.parse(storedSession) as StoredSession;
+        if (session?.token && session.refreshToken && session.refreshExpiry > Date.now()) {
+            return session;
+        }
+    } catch {
+        // ignore JSON parse errors
+    }
+    return null;
+}
+
+export function writeSession(session: StoredSession): void {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+export function clearSession(): void {
+    localStorage.removeItem(SESSION_KEY);
+}
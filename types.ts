@@ -4,6 +4,7 @@ export enum UserRole {
     USER = 'USER',
     ADMIN = 'ADMIN',
     SUB_ADMIN = 'SUB_ADMIN',
+    CONDUCTOR = 'CONDUCTOR',
 }
 
 export interface User {
@@ -16,10 +17,55 @@ export interface User {
     dob?: string;
     password?: string | null;
     assignedDistricts?: string[];
+    assignments?: ConductorAssignment[]; // Conductors only: their trips from today on
     govtExamRegistrationNumber?: string;
     isFreeTicketEligible?: boolean;
 }
 
+// A trip a conductor works: one schedule on one journey date.
+export interface ConductorAssignment {
+    scheduleId: string;
+    journeyDate: string; // 'YYYY-MM-DD'
+}
+
+export interface AuthSession {
+    token: string;
+    refreshToken: string;
+    expiresAt: string;
+    refreshExpiresAt: string;
+    user: User;
+}
+
+export interface CaptchaChallenge {
+    captchaId: string;
+    image: string; // SVG data URI
+}
+
+export interface CaptchaResponse {
+    captchaId: string;
+    captchaAnswer: string;
+}
+
+export type PassengerRelation = 'SELF' | 'SPOUSE' | 'CHILD' | 'PARENT' | 'SIBLING' | 'OTHER';
+
+// A passenger kept on the user's profile. Only the last four Aadhaar digits are sent back.
+export interface SavedPassenger {
+    id: string;
+    fullName: string;
+    dob: string; // 'YYYY-MM-DD'
+    relation: PassengerRelation;
+    age: number; // As of today
+    maskedAadhaar: string | null;
+    createdAt: string;
+}
+
+export interface SavedPassengerInput {
+    fullName: string;
+    dob: string;
+    relation: PassengerRelation;
+    aadhaarNumber?: string; // Left out on update to keep the stored number
+}
+
 export interface PassCard {
   id: number;
   userId: string;
@@ -33,14 +79,49 @@ export interface PassCard {
   dob: string;
 }
 
-export type SeatLayout = '2x2' | '2x3' | '2x1';
+// The id of a seat layout: one of the built-in '2x2', '2x3' and '2x1' grids, or one designed by an admin.
+export type SeatLayout = string;
+
+export type SeatType = 'SEATER' | 'SLEEPER';
+
+// WINDOW only describes the seat. LADIES seats are for women, DISABLED seats for passengers with a
+// disability, and the conductor's quota is only sold on board.
+export type SeatAttribute = 'WINDOW' | 'LADIES' | 'DISABLED' | 'CONDUCTOR_QUOTA';
+
+export interface LayoutDeck {
+    name: string; // e.g. 'Lower', 'Upper'
+    rows: number; // Front row first
+    columns: number;
+}
+
+export interface LayoutSeat {
+    id: string; // The seat number printed on tickets, e.g. 'L12'
+    deck: number; // Index into the layout's decks
+    row: number; // 1-based; a sleeper berth also takes the row behind
+    column: number; // 1-based, left to right
+    type: SeatType;
+    attributes: SeatAttribute[];
+}
+
+export interface SeatLayoutDefinition {
+    id: SeatLayout;
+    name: string;
+    decks: LayoutDeck[];
+    seats: LayoutSeat[];
+    isBuiltIn: boolean; // The built-in grids cannot be changed
+}
+
+export type PassengerGender = 'MALE' | 'FEMALE' | 'OTHER';
+
+export type BusClass = 'ORDINARY' | 'EXPRESS' | 'AC' | 'VOLVO';
 
 export interface RouteStop {
     name: string;
     order: number;
     arrival: string | null;
     departure: string;
-    fare: number;
+    distanceKm: number | null; // From the first stop; null on routes priced by their stop fares
+    fare: number; // Stored fare from the first stop, used when the route has no distances
 }
 
 export interface Schedule {
@@ -52,6 +133,7 @@ export interface Schedule {
     arrivalTime: string;
     via: string[];
     seatLayout: SeatLayout;
+    busClass?: BusClass;
     bookingEnabled: boolean;
     isFreeBookingEnabled?: boolean;
     isDiscountEnabled?: boolean;
@@ -60,38 +142,486 @@ export interface Schedule {
     userDestination?: string;
     fullRoute?: string;
     fullRouteStops?: RouteStop[];
+    tripStatus?: TripStatus; // Route search results: whether the bus runs on the journey date
+    delayMinutes?: number;
+    tripNote?: string | null;
+    calendar?: OperatingCalendar;
+    runDates?: string[]; // Schedule details: the bookable dates it runs on in the booking window
+    vehicleId?: string | null; // The vehicle that usually runs it; the schedule takes its seat layout and class
+    vehicleRegistration?: string | null;
+}
+
+// A bus in the fleet. Its trips need a valid fitness certificate and insurance on their dates.
+export interface Vehicle {
+    id: string;
+    registrationNumber: string; // Without spaces, e.g. HR26AB1234
+    depot: string;
+    busClass: BusClass;
+    seatLayout: SeatLayout;
+    capacity: number; // Seats plus standing room
+    fitnessExpiresOn: string; // 'YYYY-MM-DD'
+    insuranceExpiresOn: string; // 'YYYY-MM-DD'
+    scheduleIds: string[]; // The schedules it usually runs
+}
+
+export type VehicleInput = Omit<Vehicle, 'id' | 'scheduleIds'>;
+
+export type OperatingDay = 'MON' | 'TUE' | 'WED' | 'THU' | 'FRI' | 'SAT' | 'SUN';
+
+// When a schedule runs. Extra runs and excluded dates ('YYYY-MM-DD') override the weekly pattern.
+export interface OperatingCalendar {
+    operatingDays: OperatingDay[];
+    validFrom: string | null;
+    validUntil: string | null;
+    runsOnHolidays: boolean;
+    extraDates: string[];
+    excludedDates: string[];
+}
+
+export interface Holiday {
+    date: string; // 'YYYY-MM-DD'
+    name: string;
+}
+
+export type TripStatus = 'SCHEDULED' | 'CANCELLED';
+
+// A schedule running on one journey date. `busName` is set when a different bus runs the trip.
+export interface Trip {
+    id: string;
+    scheduleId: string;
+    journeyDate: string;
+    status: TripStatus;
+    delayMinutes: number;
+    busName: string | null;
+    vehicleId: string | null; // Set when the trip runs with another vehicle than its schedule's
+    vehicleRegistration: string | null; // The vehicle running the trip, its own or its schedule's
+    note: string | null;
+    cancellationReason: string | null; // Set when the trip was cancelled with its passengers
+    bookedSeats: number;
+    conductorId: string | null;
+    conductorName: string | null;
 }
 
+export interface TripUpdate {
+    status?: TripStatus;
+    delayMinutes?: number;
+    busName?: string | null;
+    note?: string | null;
+    conductorId?: string | null; // null takes the trip off the roster
+    vehicleId?: string | null; // null runs the trip with its schedule's vehicle
+}
+
+// OFFERED: the passenger may move to one of the buses offered or take a refund until the offer
+// lapses, when they are refunded. CLOSED: the booking was changed some other way first.
+export type TripDisruptionStatus = 'OFFERED' | 'REBOOKED' | 'REFUNDED' | 'CLOSED';
+
+// Another bus for the same segment, offered to passengers of a cancelled trip.
+export interface RebookingAlternative {
+    scheduleId: string;
+    journeyDate: string; // 'YYYY-MM-DD'
+    busName: string;
+    departure: string; // From the passenger's boarding stop
+    arrival: string | null;
+}
+
+// What became of a booking on a trip the operator cancelled.
+export interface BookingDisruption {
+    id: string;
+    tripId: string;
+    bookingId: string;
+    reason: string | null;
+    status: TripDisruptionStatus;
+    resolution: string | null;
+    alternatives: RebookingAlternative[];
+    offerExpiresAt: string | null;
+    rebookedScheduleId: string | null;
+    rebookedJourneyDate: string | null;
+    rebookedSeatIds: Record<string, string>; // Seat on the cancelled trip to the new seat
+    refundAmount: number | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface TripCancellationPassenger {
+    bookingId: string;
+    userName: string | null;
+    userPhone: string | null;
+    origin: string;
+    destination: string;
+    seatId: string;
+    fullName: string;
+    fare: number;
+    status: TripDisruptionStatus;
+    resolution: string | null;
+    offerExpiresAt: string | null;
+    rebookedScheduleId: string | null;
+    rebookedJourneyDate: string | null;
+    rebookedSeatId: string | null;
+    refundAmount: number;
+}
+
+export interface TripCancellationReport {
+    passengers: TripCancellationPassenger[];
+    summary: {
+        bookings: number;
+        passengers: number;
+        offered: number;
+        rebooked: number;
+        refunded: number;
+        refundTotal: number;
+    };
+}
+
+export interface AppNotification {
+    id: string;
+    bookingId: string | null;
+    title: string;
+    message: string;
+    readAt: string | null;
+    createdAt: string;
+}
+
+// 'NORMAL' or the code of a concession category.
+export type PassengerType = string;
+
 export interface PassengerDetail {
     seatId: string;
     fullName: string;
-    aadhaarNumber: string;
-    type: 'CHILD' | 'SENIOR' | 'NORMAL';
+    aadhaarNumber?: string;
+    proofNumber?: string; // For concessions proven by a document other than Aadhaar
+    dob?: string; // 'YYYY-MM-DD', kept for concession passengers
+    gender?: PassengerGender; // Kept when given, for reserved seats
+    hasDisability?: boolean;
+    type: PassengerType;
     fare: number;
     status?: 'BOOKED' | 'CANCELLED';
 }
 
 export interface SeatBookingInfo {
     seatId: string;
-    type: 'NORMAL' | 'CHILD' | 'SENIOR';
+    type: PassengerType;
     fullName: string;
+    dob?: string; // 'YYYY-MM-DD', required for concessions with an age band
     aadhaarNumber?: string;
+    proofNumber?: string;
+    savedPassengerId?: string; // The server fills in the name, date of birth and Aadhaar number from the profile
+    gender?: PassengerGender; // Required for a ladies seat
+    hasDisability?: boolean; // Required for a seat reserved for passengers with a disability
+}
+
+export interface SeatAvailability {
+    bookedSeats: string[];
+    heldSeats: string[]; // Held by other passengers who are checking out
+    fare?: number; // Normal fare per seat for the segment on the journey date; not sent on the live stream
+}
+
+// Pushed on the live seat-map stream; seatIds are limited to seats on the watched segment.
+export type SeatEventType = 'booked' | 'cancelled' | 'held' | 'released';
+
+export interface SeatEvent {
+    seatIds: string[];
+    expiresAt?: string; // For 'held' events
+}
+
+export interface SeatHold {
+    seatId: string;
+    expiresAt: string; // ISO 8601
+}
+
+// Paid bookings start in PENDING_PAYMENT and become EXPIRED if payment never arrives.
+export type BookingStatus = 'PENDING_PAYMENT' | 'CONFIRMED' | 'PARTIALLY_CANCELLED' | 'CANCELLED' | 'EXPIRED';
+
+export interface BookingResult {
+    bookingId: string;
+    status: BookingStatus;
+    amount: number;
+    paymentExpiresAt: string | null; // ISO 8601, set while payment is pending
+}
+
+// One bus ride of a planned journey; `journeyDate` is the day that bus leaves its first stop.
+export interface JourneyLeg {
+    scheduleId: string;
+    busName: string;
+    seatLayout: SeatLayout;
+    isDiscountEnabled: boolean;
+    startDistrict: string; // Where the bus starts, which decides the concessions it offers
+    journeyDate: string;
+    origin: string;
+    destination: string;
+    departure: string; // ISO 8601
+    arrival: string; // ISO 8601
+    fare: number;
+}
+
+// Connecting journeys change buses on the way; round trips go out and come back.
+export type ItineraryKind = 'CONNECTING' | 'ROUND_TRIP';
+
+export interface Itinerary {
+    kind?: ItineraryKind; // CONNECTING when absent
+    legs: JourneyLeg[];
+    departure: string;
+    arrival: string;
+    durationMinutes: number;
+    totalFare: number; // per normal-fare passenger
+    changes: number;
+    bookingEnabled: boolean;
+}
+
+export type JourneySort = 'duration' | 'fare' | 'changes';
+
+// The legs of an itinerary are separate bookings, paid for together.
+export interface ItineraryBookingResult extends BookingResult {
+    itineraryId: string;
+    kind: ItineraryKind;
+    bookingIds: string[];
+}
+
+export type PaymentStatus = 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'EXPIRED';
+
+// Outcome the mock payment gateway should simulate; real gateways ignore it.
+export type PaymentSimulation = 'success' | 'failure' | 'timeout';
+
+export interface Payment {
+    id: string;
+    bookingId: string;
+    changeId: string | null; // set when paying the extra fare of a booking change
+    amount: number;
+    currency: string;
+    gateway: string;
+    status: PaymentStatus;
+    failureReason?: string | null;
+    bookingStatus: BookingStatus;
+    fulfilled: boolean; // false for a payment that arrived too late and is being refunded
+}
+
+// Cancelling at least `minHoursBeforeDeparture` hours before departure costs `feePercentage` of the fare.
+export interface CancellationSlab {
+    minHoursBeforeDeparture: number;
+    feePercentage: number;
+}
+
+export interface CancellationPolicy {
+    district: string | null; // null for the default policy
+    slabs: CancellationSlab[];
+}
+
+export interface BusClassRate {
+    ratePerKm: number;
+    minimumFare: number;
+}
+
+// A fare table, in effect from its date until the next one's.
+export interface FareRevision {
+    id?: number;
+    effectiveFrom: string; // 'YYYY-MM-DD'
+    rates: Record<BusClass, BusClassRate>;
+    roundTo: number; // Fares are rounded to a multiple of this, in rupees
+    roundingMode: 'NEAREST' | 'UP' | 'DOWN';
+    nightStartTime: string | null; // 'HH:MM'; the window may run past midnight
+    nightEndTime: string | null;
+    nightSurchargePercentage: number;
+}
+
+export type ProofType = 'AADHAAR' | 'UDID' | 'FREEDOM_FIGHTER_ID' | 'STUDENT_ID' | 'OTHER_ID';
+
+// A concession passengers can book, e.g. child, senior citizen, women or disabled persons.
+export interface ConcessionCategory {
+    code: string;
+    name: string;
+    discountPercentage: number;
+    proofType: ProofType; // The document whose number passengers give when booking
+    minAge: number | null; // Ages on the journey date, inclusive; both null for no age band
+    maxAge: number | null;
+    maxPerBooking: number | null; // null for no limit
+    districts: string[]; // Districts buses must start in; empty for every district
+    isActive: boolean;
+}
+
+export interface ConcessionFlagBooking {
+    id: string;
+    seatId: string;
+    scheduleId: string;
+    journeyDate: string;
+    origin: string;
+    destination: string;
+    status: BookingStatus;
+}
+
+// The same Aadhaar number on concession seats of two bookings travelling at the same time.
+export interface ConcessionFlag {
+    id: number;
+    aadhaarLastDigits: string;
+    createdAt: string;
+    reviewedAt: string | null;
+    booking: ConcessionFlagBooking;
+    conflictingBooking: ConcessionFlagBooking;
+}
+
+// What cancelling a booking's seats would refund now, as quoted by the server.
+export interface CancellationQuote {
+    allowed: boolean; // False once the cancellation window has closed
+    feePercentage: number;
+    isTripCancelled: boolean; // The operator cancelled the trip, so there is no fee
+    slabs: CancellationSlab[];
+    seats: { seatId: string; fee: number; refund: number }[]; // The seats not yet cancelled
+}
+
+export interface CancellationResult {
+    message: string;
+    refundAmount: number;
+    feePercentage: number;
+}
+
+export type RefundStatus = 'PENDING' | 'PROCESSED' | 'FAILED';
+
+export interface Refund {
+    id: string;
+    bookingId: string;
+    seatId: string | null; // null when a whole payment was returned, e.g. one that arrived too late
+    passengerType: PassengerDetail['type'] | null;
+    refundType: 'CANCELLATION' | 'FARE_ADJUSTMENT' | 'LATE_PAYMENT';
+    amount: number;
+    cancellationFee: number;
+    reason: string;
+    initiatedBy: 'USER' | 'ADMIN' | 'SYSTEM';
+    status: RefundStatus;
+    createdAt: string;
+    processedAt: string | null;
+}
+
+// The parts of a booking a change can alter; cancelled passengers are left out.
+export interface BookingChangeState {
+    journeyDate: string; // 'YYYY-MM-DD'
+    origin: string;
+    destination: string;
+    passengers: { seatId: string; fullName: string; type: PassengerDetail['type']; fare: number }[];
+}
+
+export type BookingChangeStatus = 'APPLIED' | 'PENDING_PAYMENT' | 'EXPIRED' | 'CANCELLED' | 'FAILED';
+
+export interface BookingChange {
+    id: string;
+    bookingId: string;
+    previousState: BookingChangeState;
+    newState: BookingChangeState;
+    fareDifference: number; // positive when the passenger paid extra, negative when refunded
+    status: BookingChangeStatus;
+    paymentExpiresAt: string | null;
+    createdAt: string;
+    appliedAt: string | null;
+}
+
+// Seat moves map a passenger's current seat ID to the seat they move to.
+export interface BookingChangeRequest {
+    journeyDate?: string;
+    origin?: string;
+    destination?: string;
+    seatMoves?: Record<string, string>;
+}
+
+export interface BookingChangePreview {
+    fareDifference: number;
+    refundAmount: number; // What a cheaper change gives back, after the cancellation fee
+    cancellationFee: number;
+    newState: BookingChangeState;
+}
+
+export interface BookingChangeResult {
+    changeId: string;
+    status: 'APPLIED' | 'PENDING_PAYMENT';
+    fareDifference: number;
+    paymentExpiresAt: string | null; // set while the extra fare awaits payment
+    message: string;
 }
 
 export interface UserBooking {
     id: string;
     scheduleId: string;
+    itineraryId?: string | null; // set on the legs of a connecting journey or round trip
+    itineraryLeg?: number | null; // 1-based leg number within the itinerary
+    itineraryKind?: ItineraryKind | null;
     fare: number;
     originalFare?: number;
-    status?: 'CONFIRMED' | 'PARTIALLY_CANCELLED' | 'CANCELLED';
+    status?: BookingStatus;
+    paymentExpiresAt?: string | null; // set while the booking awaits payment
     isFreeTicket: boolean;
     govtExamRegistrationNumber?: string;
     bookingDate: string;
+    journeyDate: string;
     origin: string;
     destination: string;
-    discountType: 'NONE' | 'CHILD' | 'SENIOR' | 'MIXED';
+    discountType: string; // 'NONE', 'MIXED' or the one concession category on the booking
     passengerDetails?: PassengerDetail[];
     seatIds?: string[];
+    refunds?: Refund[];
+    changes?: BookingChange[];
+    boarding?: BoardingRecord[]; // One per seat the conductor has checked
+    trip?: Pick<Trip, 'status' | 'delayMinutes' | 'busName' | 'note'> | null;
+    disruption?: BookingDisruption | null; // Set once the operator has cancelled a trip this booking was on
+}
+
+export type BoardingStatus = 'BOARDED' | 'NO_SHOW';
+
+export interface BoardingRecord {
+    seatId: string;
+    status: BoardingStatus;
+    recordedAt: string;
+}
+
+export interface ConductorTrip extends ConductorAssignment {
+    busName: string;
+    origin: string;
+    destination: string;
+    departureTime: string;
+}
+
+// A booked seat on a trip's manifest. `boardingStatus` is null until the conductor checks it.
+export interface ManifestSeat {
+    bookingId: string;
+    seatId: string;
+    passengerName: string;
+    passengerType: PassengerType;
+    origin: string;
+    destination: string;
+    boardingStatus: BoardingStatus | null;
+    recordedAt: string | null;
+}
+
+// The result of checking a scanned ticket against the conductor's trip.
+export interface TicketCheck {
+    valid: boolean;
+    reason?: string;
+    bookingId?: string;
+    seats?: ManifestSeat[]; // The ticket's seats that are still booked
+    cancelledSeatIds?: string[]; // Seats on the ticket that have since been cancelled or changed
+}
+
+// Passenger details taken before seats are assigned, for a waitlist or a connecting journey.
+export interface WaitlistPassenger {
+    fullName: string;
+    type: PassengerType;
+    dob?: string; // 'YYYY-MM-DD', required for concessions with an age band
+    aadhaarNumber?: string;
+    proofNumber?: string;
+    gender?: PassengerGender; // Required for a ladies seat
+    hasDisability?: boolean; // Required for a seat reserved for passengers with a disability
+}
+
+// OFFERED: seats were freed and booked for the passenger, who must pay by `offerExpiresAt`.
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'CONFIRMED' | 'EXPIRED';
+
+export interface WaitlistEntry {
+    id: string;
+    scheduleId: string;
+    journeyDate: string; // 'YYYY-MM-DD'
+    origin: string;
+    destination: string;
+    passengerCount: number;
+    status: WaitlistStatus;
+    position: number | null; // 1-based place in the queue while waiting
+    bookingId: string | null;
+    offerExpiresAt: string | null;
+    createdAt: string;
 }
 
 export interface BusLocation {
@@ -99,6 +629,12 @@ export interface BusLocation {
     lastUpdated: string;
     currentStopIndex: number;
     isAtStop: boolean;
+    runsToday: boolean; // Whether today is on the schedule's operating calendar
+    tripStatus: TripStatus; // Today's trip
+    delayMinutes: number;
+    busName: string;
+    registrationNumber: string | null; // The vehicle running today's trip, when the fleet knows it
+    note: string | null;
     routeStops: {
         name: string;
         arrival: string | null;
@@ -110,6 +646,7 @@ export interface ParsedStop {
     stopName: string;
     arrivalTime: string | null;
     departureTime: string;
+    distanceKm?: number | null;
     fareFromOrigin: number;
     stopOrder?: number;
 }
@@ -117,8 +654,10 @@ export interface ParsedSchedule {
     id: string;
     busName: string;
     seatLayout: SeatLayout;
+    busClass?: BusClass;
     bookingEnabled: boolean;
     stops: ParsedStop[];
+    calendar?: OperatingCalendar; // Left out, the schedule runs every day
 }
 
 export interface ParsedBeneficiary {
@@ -132,7 +671,7 @@ export interface ParsedBeneficiary {
 
 // --- Revenue Analytics Types ---
 export interface RevenueByCategory {
-  type: 'NORMAL' | 'CHILD' | 'SENIOR';
+  type: PassengerType;
   bookedTickets: number;
   cancelledTickets: number;
   grossRevenue: number;
@@ -140,19 +679,15 @@ export interface RevenueByCategory {
   netRevenue: number;
 }
 
+export interface CategoryMetrics {
+    bookedRevenue: number;
+    bookedTickets: number;
+    cancelledRevenue: number;
+    cancelledTickets: number;
+}
+
 interface DetailedMetrics {
-    bookedNormalRevenue: number;
-    bookedChildRevenue: number;
-    bookedSeniorRevenue: number;
-    cancelledNormalRevenue: number;
-    cancelledChildRevenue: number;
-    cancelledSeniorRevenue: number;
-    bookedNormalTickets: number;
-    bookedChildTickets: number;
-    bookedSeniorTickets: number;
-    cancelledNormalTickets: number;
-    cancelledChildTickets: number;
-    cancelledSeniorTickets: number;
+    byType: Record<PassengerType, CategoryMetrics>; // Only ticket types that were sold or refunded
 }
 
 export interface DetailedDistrictAnalytics extends DetailedMetrics {
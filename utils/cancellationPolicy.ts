@@ -0,0 +1,60 @@
+import type { CancellationPolicy, CancellationSlab } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_CANCELLATION_SLABS: CancellationSlab[] = [{ minHoursBeforeDeparture: 1, feePercentage: 0 }];
+
+export interface FeeQuote {
+    allowed: boolean;
+    feePercentage: number;
+    hoursBeforeDeparture: number;
+}
+
+const normalizeDistrict = (district: string | null) => (district ? district.trim().toLowerCase() : null);
+
+/**
+ * Order slabs from the furthest threshold to the nearest, the order they are checked in.
+ */
+export const sortSlabs = (slabs: CancellationSlab[]): CancellationSlab[] =>
+    [...slabs].sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture);
+
+/**
+ * Pick the slabs that apply to a schedule starting in `district`, falling back to the default policy.
+ * Mirrors findSlabsForDistrict in the backend.
+ */
+export const findSlabsForDistrict = (policies: CancellationPolicy[], district: string): CancellationSlab[] => {
+    const key = normalizeDistrict(district);
+    const districtPolicy = policies.find(policy => policy.district && normalizeDistrict(policy.district) === key);
+    const defaultPolicy = policies.find(policy => !policy.district);
+    return sortSlabs((districtPolicy || defaultPolicy)?.slabs || DEFAULT_CANCELLATION_SLABS);
+};
+
+/**
+ * Work out whether seats can be cancelled now, and at what fee. The slab with the largest
+ * threshold still met applies; past the smallest threshold, cancellation is closed.
+ * Mirrors quoteCancellation in the backend.
+ */
+export const quoteCancellation = (slabs: CancellationSlab[], departure: Date, now: Date = new Date()): FeeQuote => {
+    const hoursBeforeDeparture = (departure.getTime() - now.getTime()) / HOUR_MS;
+    const slab = sortSlabs(slabs).find(s => hoursBeforeDeparture >= s.minHoursBeforeDeparture);
+    return {
+        allowed: Boolean(slab) && hoursBeforeDeparture > 0,
+        feePercentage: slab ? slab.feePercentage : 100,
+        hoursBeforeDeparture,
+    };
+};
+
+/**
+ * Split a seat's fare into the fee kept and the amount refunded, rounded to the paisa.
+ * Mirrors calculateSeatRefund in the backend.
+ */
+export const calculateSeatRefund = (fare: number, feePercentage: number): { fee: number; refund: number } => {
+    const fee = Math.round(fare * feePercentage) / 100;
+    return { fee, refund: Math.round((fare - fee) * 100) / 100 };
+};
+
+/**
+ * Describe a slab for people, e.g. "24+ hours before departure: 25% fee".
+ */
+export const describeSlab = (slab: CancellationSlab): string =>
+    `${slab.minHoursBeforeDeparture}+ hours before departure: ${slab.feePercentage === 0 ? 'no fee' : `${slab.feePercentage}% fee`}`;
@@ -0,0 +1,162 @@
+import type { ConcessionCategory, PassengerDetail, PassengerType, ProofType } from '../types';
+
+// Verhoeff checksum tables: multiplication in the dihedral group D5 and the position permutation.
+const VERHOEFF_D = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+    [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+    [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+    [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+    [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+    [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+    [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+    [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+    [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+    [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+    [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+    [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+    [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+    [9, 4, 5, 3, 1, 2, 7, 6, 8, 0],
+    [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+    [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+    [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+export const PROOF_TYPE_LABELS: Record<ProofType, string> = {
+    AADHAAR: 'Aadhaar Number',
+    UDID: 'UDID Card Number',
+    FREEDOM_FIGHTER_ID: 'Freedom Fighter ID',
+    STUDENT_ID: 'Student ID',
+    OTHER_ID: 'ID Number',
+};
+
+export const isConcessionType = (type: PassengerType): boolean => Boolean(type) && type !== 'NORMAL';
+
+/**
+ * Whether a value is a well-formed Aadhaar number: 12 digits, not starting with 0 or 1, with a
+ * valid Verhoeff check digit. Mirrors isValidAadhaar in the backend.
+ */
+export const isValidAadhaar = (value: string): boolean => {
+    if (!/^[2-9]\d{11}$/.test(value)) return false;
+    const checksum = value.split('').reverse().reduce(
+        (c, digit, index) => VERHOEFF_D[c][VERHOEFF_P[index % 8][Number(digit)]],
+        0
+    );
+    return checksum === 0;
+};
+
+/**
+ * Whether a value can be the number on a category's proof document. Documents other than Aadhaar
+ * only need 4 to 30 letters, digits, slashes or hyphens.
+ */
+export const isValidProofNumber = (proofType: ProofType, value: string): boolean =>
+    proofType === 'AADHAAR' ? isValidAadhaar(value) : /^[A-Za-z0-9/-]{4,30}$/.test(value);
+
+/**
+ * Whole years between a date of birth and a day, both 'YYYY-MM-DD'.
+ */
+export const getAgeOn = (dob: string, onDate: string): number => {
+    const [birthYear, birthMonth, birthDay] = dob.split('-').map(Number);
+    const [year, month, day] = onDate.split('-').map(Number);
+    const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+    return year - birthYear - (hadBirthday ? 0 : 1);
+};
+
+export const hasAgeBand = (category: ConcessionCategory): boolean => category.minAge !== null || category.maxAge !== null;
+
+/**
+ * Describes who an age-limited concession is for, e.g. "aged 60 or over".
+ */
+export const describeAgeBand = (category: ConcessionCategory): string => {
+    if (category.maxAge === null) return `aged ${category.minAge} or over`;
+    if (category.minAge === null || category.minAge === 0) return `aged up to ${category.maxAge}`;
+    return `aged ${category.minAge} to ${category.maxAge}`;
+};
+
+/**
+ * Whether a passenger born on `dob` is within a category's age band on `onDate`. Categories
+ * without an age band suit everyone.
+ */
+export const isAgeEligible = (category: ConcessionCategory, dob: string, onDate: string): boolean => {
+    if (!hasAgeBand(category)) return true;
+    const age = getAgeOn(dob, onDate);
+    return (category.minAge === null || age >= category.minAge) && (category.maxAge === null || age <= category.maxAge);
+};
+
+/**
+ * The active categories that cover buses starting in `district`. Mirrors findApplicableCategory
+ * in the backend, which prices concessions outside these at the normal fare.
+ */
+export const getAvailableCategories = (categories: ConcessionCategory[], district: string | undefined): ConcessionCategory[] => {
+    const normalizedDistrict = (district || '').trim().toLowerCase();
+    return categories.filter(category => category.isActive
+        && (category.districts.length === 0 || category.districts.some(d => d.toLowerCase() === normalizedDistrict)));
+};
+
+/**
+ * What stops a passenger from travelling on their concession on a journey date, or null.
+ * The server checks everything again at booking time.
+ */
+export const getConcessionError = (
+    passenger: { type: PassengerType; dob?: string; aadhaarNumber?: string; proofNumber?: string },
+    journeyDate: string,
+    category: ConcessionCategory | undefined
+): string | null => {
+    if (!isConcessionType(passenger.type) || !category) return null;
+    if (hasAgeBand(category)) {
+        if (!passenger.dob) return 'Enter the date of birth.';
+        if (passenger.dob > journeyDate) return 'The date of birth is after the journey date.';
+        if (!isAgeEligible(category, passenger.dob, journeyDate)) {
+            return `${category.name} tickets are for passengers ${describeAgeBand(category)} on the journey date.`;
+        }
+    }
+    const proof = category.proofType === 'AADHAAR' ? passenger.aadhaarNumber : passenger.proofNumber;
+    if (!isValidProofNumber(category.proofType, proof || '')) {
+        return category.proofType === 'AADHAAR'
+            ? 'Enter a valid 12-digit Aadhaar number.'
+            : `Enter a valid ${PROOF_TYPE_LABELS[category.proofType]}.`;
+    }
+    return null;
+};
+
+/**
+ * The name of a ticket type for tickets and summaries. Codes of categories that no longer exist
+ * are shown as they are.
+ */
+export const getTicketTypeLabel = (type: PassengerType, categories: ConcessionCategory[]): string => {
+    if (!isConcessionType(type)) return 'Normal';
+    return categories.find(category => category.code === type)?.name || type;
+};
+
+export interface TicketTypeSummary {
+    type: PassengerType;
+    label: string;
+    count: number;
+    fare: number;
+}
+
+/**
+ * Counts passengers and adds up their fares by ticket type, normal tickets first and concessions
+ * in the order the admin set.
+ */
+export const summarizeTicketTypes = (
+    passengers: Pick<PassengerDetail, 'type' | 'fare'>[],
+    categories: ConcessionCategory[]
+): TicketTypeSummary[] => {
+    const byType = new Map<PassengerType, TicketTypeSummary>();
+    for (const passenger of passengers) {
+        const type = passenger.type || 'NORMAL';
+        const entry = byType.get(type) || { type, label: getTicketTypeLabel(type, categories), count: 0, fare: 0 };
+        entry.count += 1;
+        entry.fare += Number(passenger.fare || 0);
+        byType.set(type, entry);
+    }
+    const rank = (type: PassengerType) => {
+        if (!isConcessionType(type)) return -1;
+        const index = categories.findIndex(category => category.code === type);
+        return index === -1 ? categories.length : index;
+    };
+    return [...byType.values()].sort((a, b) => rank(a.type) - rank(b.type));
+};
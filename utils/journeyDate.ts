@@ -0,0 +1,111 @@
+import type { RouteStop, Schedule, JourneyLeg } from '../types';
+import { ADVANCE_BOOKING_DAYS } from '../constants';
+
+/**
+ * Format a Date as a local 'YYYY-MM-DD' string, the format used by date inputs and the API.
+ */
+export const toDateInputValue = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getTodayDateString = (): string => toDateInputValue(new Date());
+
+/**
+ * The last journey date that can be booked, based on the advance booking window.
+ */
+export const getMaxJourneyDateString = (): string => {
+    const date = new Date();
+    date.setDate(date.getDate() + ADVANCE_BOOKING_DAYS);
+    return toDateInputValue(date);
+};
+
+/**
+ * Format a 'YYYY-MM-DD' journey date for display, e.g. "Mon, 14 Jul 2025".
+ */
+export const formatJourneyDate = (journeyDate: string): string => {
+    const [year, month, day] = journeyDate.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+        weekday: 'short', day: 'numeric', month: 'short', year: 'numeric',
+    });
+};
+
+/**
+ * Resolve the departure and arrival date-times of a stop for a journey date.
+ * The journey date is the day the bus leaves its first stop; stops whose clock time is
+ * earlier than the previous stop's roll over to the next day (overnight services).
+ * Mirrors buildStopTimeline in the backend.
+ */
+export const getStopDateTimes = (stops: RouteStop[], journeyDate: string, stopName: string): { arrival: Date | null; departure: Date | null } | null => {
+    const [year, month, day] = journeyDate.split('-').map(Number);
+    let dayOffset = 0;
+    let lastMinutes = -1;
+
+    const toDateTime = (timeStr: string | null) => {
+        if (!timeStr) return null;
+        const [hours, minutes] = timeStr.split(':').map(Number);
+        const totalMinutes = hours * 60 + minutes;
+        if (totalMinutes < lastMinutes) dayOffset++;
+        lastMinutes = totalMinutes;
+        return new Date(year, month - 1, day + dayOffset, hours, minutes, 0);
+    };
+
+    const normalizedName = stopName.trim().toLowerCase();
+    for (const stop of stops) {
+        const arrival = toDateTime(stop.arrival);
+        const departure = toDateTime(stop.departure);
+        if (stop.name.trim().toLowerCase() === normalizedName) {
+            return { arrival, departure };
+        }
+    }
+    return null;
+};
+
+/**
+ * Format a trip length in minutes for display, e.g. "3h 05m".
+ */
+export const formatDuration = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const rest = String(minutes % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}h ${rest}m` : `${minutes}m`;
+};
+
+/**
+ * Format an ISO 8601 date-time as a local clock time, e.g. "09:05".
+ */
+export const formatClockTime = (isoDateTime: string): string =>
+    new Date(isoDateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Describe a segment of a schedule as one leg of an itinerary, with its departure and arrival
+ * resolved for the journey date. `fare` is the per-seat fare the server quoted for the segment
+ * on that date. Needs the schedule's full route; returns null if either stop is not on it or
+ * comes in the wrong order.
+ */
+export const buildJourneyLeg = (schedule: Schedule, origin: string, destination: string, journeyDate: string, fare: number): JourneyLeg | null => {
+    const stops = [...(schedule.fullRouteStops || [])].sort((a, b) => a.order - b.order);
+    const findStop = (name: string) => stops.find(stop => stop.name.trim().toLowerCase() === name.trim().toLowerCase());
+    const originStop = findStop(origin);
+    const destStop = findStop(destination);
+    if (!originStop || !destStop || originStop.order >= destStop.order) return null;
+
+    const departure = getStopDateTimes(stops, journeyDate, originStop.name)?.departure;
+    const destTimes = getStopDateTimes(stops, journeyDate, destStop.name);
+    const arrival = destTimes?.arrival || destTimes?.departure;
+    if (!departure || !arrival) return null;
+
+    return {
+        scheduleId: schedule.id,
+        busName: schedule.busName,
+        seatLayout: schedule.seatLayout,
+        isDiscountEnabled: schedule.isDiscountEnabled ?? false,
+        startDistrict: schedule.origin || stops[0].name,
+        journeyDate,
+        origin: originStop.name,
+        destination: destStop.name,
+        departure: departure.toISOString(),
+        arrival: arrival.toISOString(),
+        fare,
+    };
+};
@@ -0,0 +1,72 @@
+import type { OperatingCalendar, OperatingDay } from '../types';
+
+export const OPERATING_DAYS: OperatingDay[] = ['MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT', 'SUN'];
+
+export const OPERATING_DAY_LABELS: Record<OperatingDay, string> = {
+    MON: 'Mon', TUE: 'Tue', WED: 'Wed', THU: 'Thu', FRI: 'Fri', SAT: 'Sat', SUN: 'Sun',
+};
+
+// What a schedule runs on when no calendar is given.
+export const DEFAULT_OPERATING_CALENDAR: OperatingCalendar = {
+    operatingDays: OPERATING_DAYS,
+    validFrom: null,
+    validUntil: null,
+    runsOnHolidays: true,
+    extraDates: [],
+    excludedDates: [],
+};
+
+/**
+ * Describe a calendar's weekly pattern and validity, e.g. "Mon–Fri, from 1 Jun 2025, not on holidays".
+ */
+export const describeCalendar = (calendar: OperatingCalendar): string => {
+    const days = calendar.operatingDays;
+    let pattern: string;
+    if (days.length === 7) {
+        pattern = 'Daily';
+    } else if (days.length === 0) {
+        pattern = 'Extra runs only';
+    } else if (days.join(',') === 'MON,TUE,WED,THU,FRI') {
+        pattern = 'Mon–Fri';
+    } else if (days.join(',') === 'SAT,SUN') {
+        pattern = 'Weekends';
+    } else {
+        pattern = days.map(day => OPERATING_DAY_LABELS[day]).join(', ');
+    }
+
+    const formatDate = (value: string) => {
+        const [year, month, day] = value.split('-').map(Number);
+        return new Date(year, month - 1, day).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+    };
+    const parts = [pattern];
+    if (calendar.validFrom && calendar.validUntil) {
+        parts.push(`${formatDate(calendar.validFrom)} to ${formatDate(calendar.validUntil)}`);
+    } else if (calendar.validFrom) {
+        parts.push(`from ${formatDate(calendar.validFrom)}`);
+    } else if (calendar.validUntil) {
+        parts.push(`until ${formatDate(calendar.validUntil)}`);
+    }
+    if (!calendar.runsOnHolidays) parts.push('not on holidays');
+    if (calendar.extraDates.length > 0) parts.push(`${calendar.extraDates.length} extra run${calendar.extraDates.length === 1 ? '' : 's'}`);
+    if (calendar.excludedDates.length > 0) parts.push(`${calendar.excludedDates.length} date${calendar.excludedDates.length === 1 ? '' : 's'} off`);
+    return parts.join(', ');
+};
+
+/**
+ * Parse a list of operating days written as "MON TUE FRI", "Mon|Tue" or "DAILY".
+ * Returns null if a day is not recognised.
+ */
+export const parseOperatingDays = (value: string): OperatingDay[] | null => {
+    const tokens = value.split(/[\s|;]+/).map(token => token.trim().toUpperCase()).filter(Boolean);
+    if (tokens.length === 1 && tokens[0] === 'DAILY') return OPERATING_DAYS;
+    if (tokens.some(token => !OPERATING_DAYS.includes(token as OperatingDay))) return null;
+    return OPERATING_DAYS.filter(day => tokens.includes(day));
+};
+
+/**
+ * Parse a list of 'YYYY-MM-DD' dates separated by spaces, '|' or ';'. Returns null if one is malformed.
+ */
+export const parseDateList = (value: string): string[] | null => {
+    const dates = value.split(/[\s|;]+/).map(date => date.trim()).filter(Boolean);
+    return dates.every(date => /^\d{4}-\d{2}-\d{2}$/.test(date)) ? dates : null;
+};